@@ -29,6 +29,7 @@ const worker = await Worker("finance-manager-dev", {
   entrypoint: "./src/worker/index.ts",
   compatibilityDate: "2024-12-01",
   compatibilityFlags: ["nodejs_compat"],
+  crons: ["0 1 * * *"], // Daily recurring transaction generation
   bindings: {
     FINANCE_MANAGER_DB: database,
     FINANCE_MANAGER_CACHE: cacheKV,
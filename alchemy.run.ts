@@ -32,6 +32,7 @@ export const worker = await Worker("finance-manager-worker", {
   entrypoint: "./src/index.ts",
   compatibilityDate: "2024-12-01",
   compatibilityFlags: ["nodejs_compat"],
+  crons: ["0 1 * * *"], // Daily recurring transaction generation
   assets: {
     path: "./dist/client",
   },
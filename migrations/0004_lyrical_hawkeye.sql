@@ -0,0 +1,26 @@
+CREATE TABLE `approval_rules` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`step_number` integer NOT NULL,
+	`name` text NOT NULL,
+	`min_amount` real DEFAULT 0 NOT NULL,
+	`approver_roles` text NOT NULL,
+	`is_active` integer DEFAULT true NOT NULL,
+	`entity_id` text NOT NULL,
+	`created_at` integer NOT NULL,
+	`updated_at` integer NOT NULL,
+	`created_by` text,
+	`updated_by` text
+);
+--> statement-breakpoint
+CREATE TABLE `transaction_approvals` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`transaction_id` integer NOT NULL,
+	`step_number` integer,
+	`action` text NOT NULL,
+	`actor_id` text NOT NULL,
+	`actor_role` text,
+	`comments` text,
+	`entity_id` text,
+	`created_at` integer NOT NULL,
+	FOREIGN KEY (`transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE cascade
+);
\ No newline at end of file
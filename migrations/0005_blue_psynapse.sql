@@ -0,0 +1,16 @@
+CREATE TABLE `fiscal_periods` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`fiscal_year` integer NOT NULL,
+	`period_number` integer NOT NULL,
+	`start_date` text NOT NULL,
+	`end_date` text NOT NULL,
+	`status` text DEFAULT 'OPEN' NOT NULL,
+	`closed_at` text,
+	`closed_by` text,
+	`entity_id` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`updated_at` text DEFAULT (datetime('now')) NOT NULL,
+	`created_by` text,
+	`updated_by` text
+);
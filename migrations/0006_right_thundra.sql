@@ -0,0 +1,19 @@
+CREATE TABLE `year_end_closes` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`fiscal_year` integer NOT NULL,
+	`start_date` text NOT NULL,
+	`end_date` text NOT NULL,
+	`retained_earnings_account_id` integer NOT NULL,
+	`closing_transaction_id` integer NOT NULL,
+	`reversal_transaction_id` integer,
+	`net_income` real NOT NULL,
+	`status` text DEFAULT 'POSTED' NOT NULL,
+	`entity_id` text NOT NULL,
+	`closed_by` text,
+	`closed_at` text DEFAULT (datetime('now')) NOT NULL,
+	`reversed_by` text,
+	`reversed_at` text,
+	FOREIGN KEY (`retained_earnings_account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`closing_transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`reversal_transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE no action
+);
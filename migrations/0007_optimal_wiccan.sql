@@ -0,0 +1,36 @@
+CREATE TABLE `bank_statement_lines` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`bank_account_id` integer NOT NULL,
+	`session_id` integer,
+	`transaction_date` text NOT NULL,
+	`amount` real NOT NULL,
+	`description` text,
+	`reference` text,
+	`matched_journal_entry_id` integer,
+	`match_type` text,
+	`matched_at` text,
+	`matched_by` text,
+	`entity_id` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`created_by` text,
+	FOREIGN KEY (`bank_account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`session_id`) REFERENCES `reconciliation_sessions`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`matched_journal_entry_id`) REFERENCES `journal_entries`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `reconciliation_sessions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`bank_account_id` integer NOT NULL,
+	`statement_date` text NOT NULL,
+	`statement_ending_balance` real NOT NULL,
+	`status` text DEFAULT 'IN_PROGRESS' NOT NULL,
+	`notes` text,
+	`completed_at` text,
+	`completed_by` text,
+	`entity_id` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`updated_at` text DEFAULT (datetime('now')) NOT NULL,
+	`created_by` text,
+	`updated_by` text,
+	FOREIGN KEY (`bank_account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE no action
+);
@@ -0,0 +1,34 @@
+CREATE TABLE `bank_statement_imports` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`bank_account_id` integer NOT NULL,
+	`format` text NOT NULL,
+	`file_name` text,
+	`profile_id` integer,
+	`total_lines` integer DEFAULT 0 NOT NULL,
+	`imported_lines` integer DEFAULT 0 NOT NULL,
+	`duplicate_lines` integer DEFAULT 0 NOT NULL,
+	`failed_lines` integer DEFAULT 0 NOT NULL,
+	`entity_id` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`created_by` text,
+	FOREIGN KEY (`bank_account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`profile_id`) REFERENCES `import_profiles`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `import_profiles` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`bank_account_id` integer,
+	`mapping` text NOT NULL,
+	`entity_id` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`updated_at` text DEFAULT (datetime('now')) NOT NULL,
+	`created_by` text,
+	`updated_by` text,
+	FOREIGN KEY (`bank_account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+ALTER TABLE `bank_statement_lines` ADD `external_id` text;--> statement-breakpoint
+ALTER TABLE `bank_statement_lines` ADD `dedupe_key` text;--> statement-breakpoint
+ALTER TABLE `bank_statement_lines` ADD `import_id` integer REFERENCES bank_statement_imports(id);--> statement-breakpoint
+ALTER TABLE `bank_statement_lines` ADD `transaction_id` integer REFERENCES transactions(id);
\ No newline at end of file
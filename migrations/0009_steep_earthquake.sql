@@ -0,0 +1,48 @@
+CREATE TABLE `exchange_rates` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`from_currency` text NOT NULL,
+	`to_currency` text NOT NULL,
+	`rate` real NOT NULL,
+	`effective_date` text NOT NULL,
+	`source` text DEFAULT 'MANUAL' NOT NULL,
+	`entity_id` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`updated_at` text DEFAULT (datetime('now')) NOT NULL,
+	`created_by` text,
+	`updated_by` text
+);
+--> statement-breakpoint
+CREATE TABLE `fx_revaluation_lines` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`revaluation_id` integer NOT NULL,
+	`account_id` integer NOT NULL,
+	`currency_code` text NOT NULL,
+	`kind` text NOT NULL,
+	`foreign_balance` real NOT NULL,
+	`booked_base_balance` real NOT NULL,
+	`rate` real,
+	`adjustment` real NOT NULL,
+	`entity_id` text NOT NULL,
+	FOREIGN KEY (`revaluation_id`) REFERENCES `fx_revaluations`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `fx_revaluations` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`revaluation_date` text NOT NULL,
+	`reversal_date` text NOT NULL,
+	`unrealized_transaction_id` integer,
+	`reversal_transaction_id` integer,
+	`realized_transaction_id` integer,
+	`unrealized_gain` real DEFAULT 0 NOT NULL,
+	`realized_gain` real DEFAULT 0 NOT NULL,
+	`entity_id` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`created_by` text,
+	FOREIGN KEY (`unrealized_transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`reversal_transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`realized_transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+ALTER TABLE `journal_entries` ADD `base_debit_amount` real;--> statement-breakpoint
+ALTER TABLE `journal_entries` ADD `base_credit_amount` real;
\ No newline at end of file
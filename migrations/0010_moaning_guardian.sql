@@ -0,0 +1,36 @@
+CREATE TABLE `recurring_template_runs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`template_id` integer NOT NULL,
+	`scheduled_date` text NOT NULL,
+	`transaction_id` integer,
+	`status` text DEFAULT 'PENDING' NOT NULL,
+	`error` text,
+	`entity_id` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	FOREIGN KEY (`template_id`) REFERENCES `recurring_templates`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `recurring_templates` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text NOT NULL,
+	`description` text NOT NULL,
+	`reference` text,
+	`currency` text DEFAULT 'IDR' NOT NULL,
+	`entries` text NOT NULL,
+	`frequency` text NOT NULL,
+	`interval` integer DEFAULT 1 NOT NULL,
+	`day_of_week` integer,
+	`day_of_month` integer,
+	`cron_expression` text,
+	`start_date` text NOT NULL,
+	`end_date` text,
+	`next_run_date` text,
+	`auto_post` integer DEFAULT false NOT NULL,
+	`is_active` integer DEFAULT true NOT NULL,
+	`entity_id` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`updated_at` text DEFAULT (datetime('now')) NOT NULL,
+	`created_by` text,
+	`updated_by` text
+);
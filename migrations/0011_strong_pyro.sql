@@ -0,0 +1,10 @@
+CREATE TABLE `document_attachments` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`raw_doc_id` integer NOT NULL,
+	`transaction_id` integer NOT NULL,
+	`entity_id` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`created_by` text,
+	FOREIGN KEY (`raw_doc_id`) REFERENCES `raw_docs`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE no action
+);
@@ -0,0 +1 @@
+ALTER TABLE `document_attachments` ADD `journal_entry_id` integer REFERENCES journal_entries(id);
\ No newline at end of file
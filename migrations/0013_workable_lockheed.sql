@@ -0,0 +1,17 @@
+CREATE TABLE `budget_account_mappings` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`category_id` integer,
+	`allocation_code` text,
+	`account_id` integer NOT NULL,
+	`include_subaccounts` integer DEFAULT true NOT NULL,
+	`entity_id` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`created_by` text,
+	FOREIGN KEY (`category_id`) REFERENCES `categories`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+ALTER TABLE `budgets` ADD `entity_id` text;--> statement-breakpoint
+ALTER TABLE `budgets` ADD `actuals_refreshed_at` text;--> statement-breakpoint
+-- Budgets so far belong to the ledger of the user who created them
+UPDATE `budgets` SET `entity_id` = `created_by` WHERE `entity_id` IS NULL;
\ No newline at end of file
@@ -0,0 +1,18 @@
+CREATE TABLE `budget_alerts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`budget_id` integer NOT NULL,
+	`level` text NOT NULL,
+	`threshold` real NOT NULL,
+	`utilization_percent` real NOT NULL,
+	`actual_amount` real NOT NULL,
+	`budget_amount` real NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`recipients` text,
+	`attempts` integer DEFAULT 0 NOT NULL,
+	`error` text,
+	`entity_id` text NOT NULL,
+	`triggered_at` text DEFAULT (datetime('now')) NOT NULL,
+	`sent_at` text,
+	`resolved_at` text,
+	FOREIGN KEY (`budget_id`) REFERENCES `budgets`(`id`) ON UPDATE no action ON DELETE cascade
+);
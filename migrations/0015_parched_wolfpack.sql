@@ -0,0 +1,25 @@
+CREATE TABLE `entities` (
+	`id` text PRIMARY KEY NOT NULL,
+	`name` text NOT NULL,
+	`currency` text DEFAULT 'IDR' NOT NULL,
+	`parent_entity_id` text,
+	`ownership_percent` real DEFAULT 100 NOT NULL,
+	`is_active` integer DEFAULT true NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`updated_at` text DEFAULT (datetime('now')) NOT NULL,
+	`created_by` text,
+	`updated_by` text
+);
+--> statement-breakpoint
+CREATE TABLE `intercompany_accounts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`account_id` integer NOT NULL,
+	`elimination_tag` text NOT NULL,
+	`counterparty_entity_id` text,
+	`entity_id` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`created_by` text,
+	FOREIGN KEY (`account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `intercompany_accounts_account_idx` ON `intercompany_accounts` (`entity_id`,`account_id`);
\ No newline at end of file
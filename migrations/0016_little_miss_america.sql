@@ -0,0 +1,21 @@
+CREATE TABLE `intercompany_transactions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`link_id` text NOT NULL,
+	`source_entity_id` text NOT NULL,
+	`source_transaction_id` integer NOT NULL,
+	`counterparty_entity_id` text NOT NULL,
+	`counterparty_transaction_id` integer NOT NULL,
+	`description` text NOT NULL,
+	`transaction_date` text NOT NULL,
+	`amount` real NOT NULL,
+	`currency` text NOT NULL,
+	`status` text DEFAULT 'DRAFT' NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`updated_at` text DEFAULT (datetime('now')) NOT NULL,
+	`created_by` text,
+	`updated_by` text,
+	FOREIGN KEY (`source_transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`counterparty_transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `intercompany_transactions_link_id_unique` ON `intercompany_transactions` (`link_id`);
\ No newline at end of file
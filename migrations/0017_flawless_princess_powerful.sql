@@ -0,0 +1,2 @@
+DROP INDEX `accounts_code_unique`;--> statement-breakpoint
+CREATE UNIQUE INDEX `accounts_entity_code_idx` ON `accounts` (`entity_id`,`code`);
\ No newline at end of file
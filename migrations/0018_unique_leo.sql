@@ -0,0 +1,29 @@
+CREATE TABLE `account_dimension_rules` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`account_id` integer NOT NULL,
+	`dimension_type` text NOT NULL,
+	`entity_id` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`created_by` text,
+	FOREIGN KEY (`account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `account_dimension_rules_account_type_idx` ON `account_dimension_rules` (`account_id`,`dimension_type`);--> statement-breakpoint
+CREATE TABLE `dimensions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`type` text NOT NULL,
+	`code` text NOT NULL,
+	`name` text NOT NULL,
+	`description` text,
+	`is_active` integer DEFAULT true NOT NULL,
+	`entity_id` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`updated_at` text DEFAULT (datetime('now')) NOT NULL,
+	`created_by` text,
+	`updated_by` text
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `dimensions_entity_type_code_idx` ON `dimensions` (`entity_id`,`type`,`code`);--> statement-breakpoint
+ALTER TABLE `journal_entries` ADD `department_id` text;--> statement-breakpoint
+ALTER TABLE `journal_entries` ADD `project_id` text;--> statement-breakpoint
+ALTER TABLE `journal_entries` ADD `cost_center_id` text;
\ No newline at end of file
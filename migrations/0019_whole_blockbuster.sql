@@ -0,0 +1,110 @@
+CREATE TABLE `customer_receipts` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`receipt_number` text NOT NULL,
+	`customer_id` integer NOT NULL,
+	`receipt_date` text NOT NULL,
+	`currency` text DEFAULT 'IDR' NOT NULL,
+	`exchange_rate` real DEFAULT 1 NOT NULL,
+	`amount` real NOT NULL,
+	`amount_applied` real DEFAULT 0 NOT NULL,
+	`deposit_account_id` integer NOT NULL,
+	`receivable_account_id` integer NOT NULL,
+	`transaction_id` integer,
+	`reference` text,
+	`entity_id` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`updated_at` text DEFAULT (datetime('now')) NOT NULL,
+	`created_by` text,
+	`updated_by` text,
+	FOREIGN KEY (`customer_id`) REFERENCES `customers`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`deposit_account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`receivable_account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `customer_receipts_entity_number_idx` ON `customer_receipts` (`entity_id`,`receipt_number`);--> statement-breakpoint
+CREATE TABLE `customers` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`code` text NOT NULL,
+	`name` text NOT NULL,
+	`email` text,
+	`phone` text,
+	`billing_address` text,
+	`tax_id` text,
+	`currency` text DEFAULT 'IDR' NOT NULL,
+	`payment_terms_days` integer DEFAULT 30 NOT NULL,
+	`receivable_account_id` integer,
+	`is_active` integer DEFAULT true NOT NULL,
+	`entity_id` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`updated_at` text DEFAULT (datetime('now')) NOT NULL,
+	`created_by` text,
+	`updated_by` text,
+	FOREIGN KEY (`receivable_account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `customers_entity_code_idx` ON `customers` (`entity_id`,`code`);--> statement-breakpoint
+CREATE TABLE `receivable_applications` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`invoice_id` integer NOT NULL,
+	`receipt_id` integer,
+	`credit_note_id` integer,
+	`amount` real NOT NULL,
+	`applied_date` text NOT NULL,
+	`entity_id` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`created_by` text,
+	FOREIGN KEY (`invoice_id`) REFERENCES `sales_invoices`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`receipt_id`) REFERENCES `customer_receipts`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`credit_note_id`) REFERENCES `sales_invoices`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `sales_invoice_lines` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`invoice_id` integer NOT NULL,
+	`line_number` integer NOT NULL,
+	`description` text NOT NULL,
+	`quantity` real DEFAULT 1 NOT NULL,
+	`unit_price` real NOT NULL,
+	`amount` real NOT NULL,
+	`revenue_account_id` integer NOT NULL,
+	`department_id` text,
+	`project_id` text,
+	`cost_center_id` text,
+	`entity_id` text NOT NULL,
+	FOREIGN KEY (`invoice_id`) REFERENCES `sales_invoices`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`revenue_account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `sales_invoices` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`document_number` text NOT NULL,
+	`type` text DEFAULT 'INVOICE' NOT NULL,
+	`customer_id` integer NOT NULL,
+	`original_invoice_id` integer,
+	`issue_date` text NOT NULL,
+	`due_date` text NOT NULL,
+	`currency` text DEFAULT 'IDR' NOT NULL,
+	`exchange_rate` real DEFAULT 1 NOT NULL,
+	`subtotal` real NOT NULL,
+	`tax_amount` real DEFAULT 0 NOT NULL,
+	`total_amount` real NOT NULL,
+	`amount_applied` real DEFAULT 0 NOT NULL,
+	`status` text DEFAULT 'DRAFT' NOT NULL,
+	`receivable_account_id` integer,
+	`tax_account_id` integer,
+	`transaction_id` integer,
+	`reference` text,
+	`notes` text,
+	`entity_id` text NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`updated_at` text DEFAULT (datetime('now')) NOT NULL,
+	`created_by` text,
+	`updated_by` text,
+	FOREIGN KEY (`customer_id`) REFERENCES `customers`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`receivable_account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`tax_account_id`) REFERENCES `accounts`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`transaction_id`) REFERENCES `transactions`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `sales_invoices_entity_number_idx` ON `sales_invoices` (`entity_id`,`document_number`);
\ No newline at end of file
@@ -0,0 +1,33 @@
+-- budget_allocations gains the category, description, priority and constraints columns and an optional name.
+-- The created_by/approved_by columns that the schema now declares as text keep their integer declaration on
+-- categories and the budget tables, in this SQL and in the snapshot: SQLite stores the user ids as text either
+-- way, and rebuilding budgets or budget_periods would cascade-delete their allocations, revisions and account
+-- mappings.
+-- D1 runs migrations in a transaction, where foreign_keys=OFF has no effect, so the foreign key checks are
+-- deferred to commit instead. No table references budget_allocations, so dropping it cascades nowhere.
+PRAGMA defer_foreign_keys = on;--> statement-breakpoint
+CREATE TABLE `__new_budget_allocations` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`budget_id` integer NOT NULL,
+	`category_id` integer,
+	`name` text,
+	`description` text,
+	`priority` integer DEFAULT 0,
+	`constraints` text,
+	`allocation_type` text NOT NULL,
+	`allocation_code` text,
+	`allocated_amount` real NOT NULL,
+	`allocated_percent` real NOT NULL,
+	`actual_amount` real DEFAULT 0 NOT NULL,
+	`is_active` integer DEFAULT true NOT NULL,
+	`created_at` text DEFAULT (datetime('now')) NOT NULL,
+	`updated_at` text DEFAULT (datetime('now')) NOT NULL,
+	`created_by` text,
+	FOREIGN KEY (`budget_id`) REFERENCES `budgets`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`category_id`) REFERENCES `categories`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+INSERT INTO `__new_budget_allocations`("id", "budget_id", "name", "allocation_type", "allocation_code", "allocated_amount", "allocated_percent", "actual_amount", "is_active", "created_at", "updated_at", "created_by") SELECT "id", "budget_id", "name", "allocation_type", "allocation_code", "allocated_amount", "allocated_percent", "actual_amount", "is_active", "created_at", "updated_at", "created_by" FROM `budget_allocations`;--> statement-breakpoint
+DROP TABLE `budget_allocations`;--> statement-breakpoint
+ALTER TABLE `__new_budget_allocations` RENAME TO `budget_allocations`;--> statement-breakpoint
+PRAGMA defer_foreign_keys = off;
\ No newline at end of file
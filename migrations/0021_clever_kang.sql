@@ -0,0 +1 @@
+ALTER TABLE `accounts` ADD `currency` text;
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE UNIQUE INDEX `bank_statement_lines_dedupe_key_idx` ON `bank_statement_lines` (`entity_id`,`bank_account_id`,`dedupe_key`);
\ No newline at end of file
@@ -0,0 +1 @@
+CREATE UNIQUE INDEX `fx_revaluations_entity_date_idx` ON `fx_revaluations` (`entity_id`,`revaluation_date`);
\ No newline at end of file
@@ -21,6 +21,10 @@ export async function updateRawDoc(db: Database, fileId: string, data: Partial<U
   return db.update(rawDocs).set(data).where(eq(rawDocs.fileId, fileId)).returning();
 }
 
+export async function deleteRawDoc(db: Database, fileId: string) {
+  return db.delete(rawDocs).where(eq(rawDocs.fileId, fileId)).returning();
+}
+
 export function generateSearchableText(text: string): string {
   return text.toLowerCase().replace(/[^a-z0-9\s]/g, '');
 }
@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, real } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, real, uniqueIndex } from "drizzle-orm/sqlite-core";
 import { z } from "zod";
 // import { createInsertSchema } from "drizzle-zod"; // TODO: Fix compatibility issue
 
@@ -8,7 +8,7 @@ import { z } from "zod";
  */
 export const accounts = sqliteTable("accounts", {
   id: integer("id").primaryKey({ autoIncrement: true }),
-  code: text("code").notNull().unique(), // Account code (e.g., "1000", "2000")
+  code: text("code").notNull(), // Account code (e.g., "1000", "2000"), unique within an entity
   name: text("name").notNull(), // Account name (e.g., "Cash", "Accounts Payable")
   description: text("description"), // Optional detailed description
   
@@ -26,6 +26,7 @@ export const accounts = sqliteTable("accounts", {
   isActive: integer("is_active").notNull().default(1),
   isSystem: integer("is_system").notNull().default(0), // System accounts cannot be deleted
   allowTransactions: integer("allow_transactions").notNull().default(1),
+  currency: text("currency"), // Currency a bank or other foreign-currency account is kept in; null for the base currency
   
   // Normal balance (for validation)
   normalBalance: text("normal_balance").notNull(), // DEBIT or CREDIT
@@ -45,7 +46,9 @@ export const accounts = sqliteTable("accounts", {
   updatedAt: integer("updated_at").notNull().$defaultFn(() => Date.now()).$onUpdate(() => Date.now()),
   createdBy: text("created_by"),
   updatedBy: text("updated_by"),
-});
+}, (table) => ({
+  entityCodeIdx: uniqueIndex("accounts_entity_code_idx").on(table.entityId, table.code),
+}));
 
 // Account type enum
 export const AccountType = {
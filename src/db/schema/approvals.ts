@@ -0,0 +1,67 @@
+/**
+ * Approval Workflow Schema
+ * Corporate Finance Manager - Maker-checker rules and sign-off history for transactions
+ */
+
+import { sqliteTable, integer, text, real } from "drizzle-orm/sqlite-core";
+import { transactions } from "./transactions";
+
+/**
+ * Approval Rules - Ordered approval steps per entity
+ * A step is required when the transaction total reaches its minimum amount
+ */
+export const approvalRules = sqliteTable("approval_rules", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+
+  // Step definition
+  stepNumber: integer("step_number").notNull(), // Steps are signed off in ascending order
+  name: text("name").notNull(), // e.g. "Accountant review", "Finance director"
+  minAmount: real("min_amount").notNull().default(0), // Threshold that triggers this step
+  approverRoles: text("approver_roles").notNull(), // JSON array of users.role values
+
+  isActive: integer("is_active", { mode: "boolean" }).notNull().default(true),
+
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+
+  // Audit fields
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
+  createdBy: text("created_by"),
+  updatedBy: text("updated_by"),
+});
+
+/**
+ * Transaction Approvals - Submission, approval and rejection history
+ * Each submission starts a new round; approvals count from the latest SUBMITTED row
+ */
+export const transactionApprovals = sqliteTable("transaction_approvals", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+
+  transactionId: integer("transaction_id").notNull().references(() => transactions.id, { onDelete: "cascade" }),
+  stepNumber: integer("step_number"), // Null for submissions
+
+  // Action details
+  action: text("action").notNull(), // SUBMITTED, APPROVED, REJECTED
+  actorId: text("actor_id").notNull(),
+  actorRole: text("actor_role"),
+  comments: text("comments"), // Required for rejections
+
+  // Multi-entity support
+  entityId: text("entity_id"),
+
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
+});
+
+// Approval action enum
+export const ApprovalAction = {
+  SUBMITTED: "SUBMITTED",
+  APPROVED: "APPROVED",
+  REJECTED: "REJECTED",
+} as const;
+
+export type ApprovalAction = typeof ApprovalAction[keyof typeof ApprovalAction];
+
+export type ApprovalRuleRow = typeof approvalRules.$inferSelect;
+export type NewApprovalRule = typeof approvalRules.$inferInsert;
+export type TransactionApprovalRow = typeof transactionApprovals.$inferSelect;
@@ -0,0 +1,32 @@
+/**
+ * Document Attachment Schema
+ * Corporate Finance Manager - Links uploaded documents to the transactions they support
+ */
+
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+import { rawDocs } from "./documents";
+import { transactions, journalEntries } from "./transactions";
+
+/**
+ * Document attachments - many-to-many between uploaded documents and transactions.
+ * A row with journal_entry_id supports a single journal line of the transaction.
+ * transactions.document_count is kept in step with the rows here
+ */
+export const documentAttachments = sqliteTable("document_attachments", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+
+  rawDocId: integer("raw_doc_id").notNull().references(() => rawDocs.id),
+  transactionId: integer("transaction_id").notNull().references(() => transactions.id),
+  journalEntryId: integer("journal_entry_id").references(() => journalEntries.id), // null: the whole transaction
+
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+
+  // Audit fields
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+  createdBy: text("created_by"),
+});
+
+export type DocumentAttachmentRow = typeof documentAttachments.$inferSelect;
+export type NewDocumentAttachment = typeof documentAttachments.$inferInsert;
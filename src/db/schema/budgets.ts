@@ -6,6 +6,7 @@
 import { sqliteTable, text, integer, real } from "drizzle-orm/sqlite-core";
 import { sql } from "drizzle-orm";
 import { categories } from "./categories";
+import { accounts } from "./accounts";
 
 /**
  * Budget periods for organizing budgets by time
@@ -78,6 +79,10 @@ export const budgets = sqliteTable("budgets", {
   tags: text("tags"), // JSON array of tags
   notes: text("notes"), // Free-form notes
   
+  // Multi-entity support
+  entityId: text("entity_id"), // Ledger whose postings count as actuals
+  actualsRefreshedAt: text("actuals_refreshed_at"), // ISO datetime of the last actuals refresh
+  
   // Audit fields
   createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
   updatedAt: text("updated_at").notNull().default(sql`(datetime('now'))`),
@@ -144,4 +149,59 @@ export const budgetAllocations = sqliteTable("budget_allocations", {
   createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
   updatedAt: text("updated_at").notNull().default(sql`(datetime('now'))`),
   createdBy: text("created_by"), // User ID (UUID)
-});
\ No newline at end of file
+});
+
+/**
+ * Accounts whose postings count towards budgets of a category or allocations with an allocation code.
+ * Exactly one of categoryId and allocationCode is set.
+ */
+export const budgetAccountMappings = sqliteTable("budget_account_mappings", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  
+  // What the account is mapped from
+  categoryId: integer("category_id").references(() => categories.id, { onDelete: "cascade" }),
+  allocationCode: text("allocation_code"), // Department/Project code on budget_allocations
+  
+  // Ledger account, optionally with its sub-accounts
+  accountId: integer("account_id").notNull().references(() => accounts.id, { onDelete: "cascade" }),
+  includeSubaccounts: integer("include_subaccounts", { mode: "boolean" }).notNull().default(true),
+  
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+  
+  // Audit fields
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+  createdBy: text("created_by"), // User ID (UUID)
+});
+
+/**
+ * Budget threshold alerts. One row per threshold crossing; resolvedAt is set when utilization
+ * drops back below the threshold, after which a new crossing raises a new alert.
+ */
+export const budgetAlerts = sqliteTable("budget_alerts", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  
+  // Budget and threshold crossed
+  budgetId: integer("budget_id").notNull().references(() => budgets.id, { onDelete: "cascade" }),
+  level: text("level").notNull(), // warning, critical
+  threshold: real("threshold").notNull(), // Percentage crossed
+  
+  // Budget position when the threshold was crossed
+  utilizationPercent: real("utilization_percent").notNull(),
+  actualAmount: real("actual_amount").notNull(),
+  budgetAmount: real("budget_amount").notNull(),
+  
+  // Delivery
+  status: text("status").notNull().default("pending"), // pending, sent, failed
+  recipients: text("recipients"), // JSON array of email addresses
+  attempts: integer("attempts").notNull().default(0),
+  error: text("error"),
+  
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+  
+  // Timing
+  triggeredAt: text("triggered_at").notNull().default(sql`(datetime('now'))`),
+  sentAt: text("sent_at"), // ISO datetime
+  resolvedAt: text("resolved_at"), // ISO datetime
+});
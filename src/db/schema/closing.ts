@@ -0,0 +1,47 @@
+/**
+ * Year-End Close Schema
+ * Corporate Finance Manager - Closing entries that roll income into retained earnings
+ */
+
+import { sqliteTable, text, integer, real } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+import { accounts } from "./accounts";
+import { transactions } from "./transactions";
+
+/**
+ * Year-end closes per entity
+ * At most one POSTED close exists per fiscal year; undoing a close reverses its transaction
+ */
+export const yearEndCloses = sqliteTable("year_end_closes", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+
+  // Closed range
+  fiscalYear: integer("fiscal_year").notNull(),
+  startDate: text("start_date").notNull(), // ISO date string
+  endDate: text("end_date").notNull(), // ISO date string
+
+  // Closing entry
+  retainedEarningsAccountId: integer("retained_earnings_account_id").notNull().references(() => accounts.id),
+  closingTransactionId: integer("closing_transaction_id").notNull().references(() => transactions.id),
+  reversalTransactionId: integer("reversal_transaction_id").references(() => transactions.id),
+  netIncome: real("net_income").notNull(),
+
+  status: text("status").notNull().default("POSTED"), // POSTED, REVERSED
+
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+
+  // Audit fields
+  closedBy: text("closed_by"),
+  closedAt: text("closed_at").notNull().default(sql`(datetime('now'))`),
+  reversedBy: text("reversed_by"),
+  reversedAt: text("reversed_at"),
+});
+
+// Year-end close status enum
+export const YearEndCloseStatus = {
+  POSTED: "POSTED",
+  REVERSED: "REVERSED",
+} as const;
+
+export type YearEndCloseStatus = typeof YearEndCloseStatus[keyof typeof YearEndCloseStatus];
@@ -0,0 +1,90 @@
+/**
+ * Consolidation Schema
+ * Corporate Finance Manager - Entity hierarchy, intercompany accounts eliminated on consolidation
+ * and linked intercompany transactions
+ */
+
+import { sqliteTable, text, integer, real, uniqueIndex } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+import { accounts } from "./accounts";
+import { transactions } from "./transactions";
+
+/**
+ * Reporting entities. The id is the entity_id used on every other table;
+ * a group is a parent entity and every entity below it
+ */
+export const entities = sqliteTable("entities", {
+  id: text("id").primaryKey(),
+
+  name: text("name").notNull(),
+  currency: text("currency").notNull().default("IDR"), // Functional currency of the entity's ledger
+
+  // Hierarchy: the parent's direct share of this entity
+  parentEntityId: text("parent_entity_id"),
+  ownershipPercent: real("ownership_percent").notNull().default(100),
+
+  isActive: integer("is_active", { mode: "boolean" }).notNull().default(true),
+
+  // Audit fields
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+  updatedAt: text("updated_at").notNull().default(sql`(datetime('now'))`),
+  createdBy: text("created_by"),
+  updatedBy: text("updated_by"),
+});
+
+/**
+ * Accounts holding intercompany balances. On consolidation, tagged accounts sharing an
+ * elimination tag are eliminated against each other; any amount left over is reported
+ * as an intercompany difference
+ */
+export const intercompanyAccounts = sqliteTable("intercompany_accounts", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+
+  accountId: integer("account_id").notNull().references(() => accounts.id),
+  eliminationTag: text("elimination_tag").notNull(), // e.g. IC-LOAN-PARENT-SUB
+  counterpartyEntityId: text("counterparty_entity_id"),
+
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+
+  // Audit fields
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+  createdBy: text("created_by"),
+}, (table) => ({
+  accountIdx: uniqueIndex("intercompany_accounts_account_idx").on(table.entityId, table.accountId),
+}));
+
+/**
+ * Intercompany transactions - one request recorded in both ledgers. The source entity is owed:
+ * it debits its due-from account, the counterparty credits its due-to account. Both transactions
+ * carry the link id as their reference and are posted, voided and reversed together
+ */
+export const intercompanyTransactions = sqliteTable("intercompany_transactions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  linkId: text("link_id").notNull().unique(),
+
+  sourceEntityId: text("source_entity_id").notNull(),
+  sourceTransactionId: integer("source_transaction_id").notNull().references(() => transactions.id),
+  counterpartyEntityId: text("counterparty_entity_id").notNull(),
+  counterpartyTransactionId: integer("counterparty_transaction_id").notNull().references(() => transactions.id),
+
+  description: text("description").notNull(),
+  transactionDate: text("transaction_date").notNull(), // ISO date string
+  amount: real("amount").notNull(),
+  currency: text("currency").notNull(),
+
+  status: text("status").notNull().default("DRAFT"), // DRAFT, POSTED, VOID, REVERSED
+
+  // Audit fields
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+  updatedAt: text("updated_at").notNull().default(sql`(datetime('now'))`),
+  createdBy: text("created_by"),
+  updatedBy: text("updated_by"),
+});
+
+export type EntityRow = typeof entities.$inferSelect;
+export type NewEntity = typeof entities.$inferInsert;
+export type IntercompanyAccountRow = typeof intercompanyAccounts.$inferSelect;
+export type NewIntercompanyAccount = typeof intercompanyAccounts.$inferInsert;
+export type IntercompanyTransactionRow = typeof intercompanyTransactions.$inferSelect;
+export type NewIntercompanyTransaction = typeof intercompanyTransactions.$inferInsert;
@@ -0,0 +1,105 @@
+/**
+ * Multi-Currency Schema
+ * Corporate Finance Manager - Exchange rates and period-end FX revaluation runs
+ */
+
+import { sqliteTable, text, integer, real, uniqueIndex } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+import { accounts } from "./accounts";
+import { transactions } from "./transactions";
+
+/**
+ * Daily exchange rates per currency pair
+ * A rate applies from its effective date until the next rate for the same pair
+ */
+export const exchangeRates = sqliteTable("exchange_rates", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+
+  // Pair: 1 unit of from_currency = rate units of to_currency
+  fromCurrency: text("from_currency").notNull(),
+  toCurrency: text("to_currency").notNull(),
+  rate: real("rate").notNull(),
+  effectiveDate: text("effective_date").notNull(), // ISO date string
+
+  source: text("source").notNull().default("MANUAL"), // MANUAL, IMPORT
+
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+
+  // Audit fields
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+  updatedAt: text("updated_at").notNull().default(sql`(datetime('now'))`),
+  createdBy: text("created_by"),
+  updatedBy: text("updated_by"),
+});
+
+/**
+ * Period-end revaluation runs
+ * The unrealized entry is reversed on the first day of the next period; the realized entry stays
+ */
+export const fxRevaluations = sqliteTable("fx_revaluations", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+
+  revaluationDate: text("revaluation_date").notNull(), // ISO date string
+  reversalDate: text("reversal_date").notNull(), // ISO date string
+
+  // Posted entries
+  unrealizedTransactionId: integer("unrealized_transaction_id").references(() => transactions.id),
+  reversalTransactionId: integer("reversal_transaction_id").references(() => transactions.id),
+  realizedTransactionId: integer("realized_transaction_id").references(() => transactions.id),
+
+  // Net gain (positive) or loss (negative) in the base currency
+  unrealizedGain: real("unrealized_gain").notNull().default(0),
+  realizedGain: real("realized_gain").notNull().default(0),
+
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+
+  // Audit fields
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+  createdBy: text("created_by"),
+}, (table) => ({
+  // One run per revaluation date
+  dateIdx: uniqueIndex("fx_revaluations_entity_date_idx").on(table.entityId, table.revaluationDate),
+}));
+
+/**
+ * Per-account adjustments of a revaluation run
+ */
+export const fxRevaluationLines = sqliteTable("fx_revaluation_lines", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+
+  revaluationId: integer("revaluation_id").notNull().references(() => fxRevaluations.id, { onDelete: "cascade" }),
+  accountId: integer("account_id").notNull().references(() => accounts.id),
+  currencyCode: text("currency_code").notNull(),
+
+  kind: text("kind").notNull(), // UNREALIZED, REALIZED
+  foreignBalance: real("foreign_balance").notNull(), // Net debit in the foreign currency
+  bookedBaseBalance: real("booked_base_balance").notNull(), // Net debit in the base currency before the run
+  rate: real("rate"), // Closing rate; null for realized lines
+  adjustment: real("adjustment").notNull(), // Net debit posted to the account
+
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+});
+
+// Exchange rate source enum
+export const ExchangeRateSource = {
+  MANUAL: "MANUAL",
+  IMPORT: "IMPORT",
+} as const;
+
+export type ExchangeRateSource = typeof ExchangeRateSource[keyof typeof ExchangeRateSource];
+
+// Revaluation line kind enum
+export const FxRevaluationKind = {
+  UNREALIZED: "UNREALIZED",
+  REALIZED: "REALIZED",
+} as const;
+
+export type FxRevaluationKind = typeof FxRevaluationKind[keyof typeof FxRevaluationKind];
+
+export type ExchangeRateRow = typeof exchangeRates.$inferSelect;
+export type NewExchangeRate = typeof exchangeRates.$inferInsert;
+export type FxRevaluationRow = typeof fxRevaluations.$inferSelect;
+export type NewFxRevaluation = typeof fxRevaluations.$inferInsert;
@@ -0,0 +1,59 @@
+/**
+ * Dimensions Schema
+ * Corporate Finance Manager - Departments, projects and cost centers tagged on journal lines,
+ * and the dimensions each account requires
+ */
+
+import { sqliteTable, text, integer, uniqueIndex } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+import { accounts } from "./accounts";
+
+/**
+ * Dimension values. Journal lines carry the code in department_id, project_id or cost_center_id,
+ * so codes are fixed once created; retire a value by deactivating it
+ */
+export const dimensions = sqliteTable("dimensions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+
+  type: text("type").notNull(), // DEPARTMENT, PROJECT, COST_CENTER
+  code: text("code").notNull(),
+  name: text("name").notNull(),
+  description: text("description"),
+
+  isActive: integer("is_active", { mode: "boolean" }).notNull().default(true),
+
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+
+  // Audit fields
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+  updatedAt: text("updated_at").notNull().default(sql`(datetime('now'))`),
+  createdBy: text("created_by"),
+  updatedBy: text("updated_by"),
+}, (table) => ({
+  typeCodeIdx: uniqueIndex("dimensions_entity_type_code_idx").on(table.entityId, table.type, table.code),
+}));
+
+/**
+ * Dimensions a journal line on the account must carry before it can be saved or posted
+ */
+export const accountDimensionRules = sqliteTable("account_dimension_rules", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+
+  accountId: integer("account_id").notNull().references(() => accounts.id, { onDelete: "cascade" }),
+  dimensionType: text("dimension_type").notNull(), // DEPARTMENT, PROJECT, COST_CENTER
+
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+
+  // Audit fields
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+  createdBy: text("created_by"),
+}, (table) => ({
+  accountTypeIdx: uniqueIndex("account_dimension_rules_account_type_idx").on(table.accountId, table.dimensionType),
+}));
+
+export type DimensionRow = typeof dimensions.$inferSelect;
+export type NewDimension = typeof dimensions.$inferInsert;
+export type AccountDimensionRuleRow = typeof accountDimensionRules.$inferSelect;
+export type NewAccountDimensionRule = typeof accountDimensionRules.$inferInsert;
@@ -99,7 +99,11 @@ export const insertRawDocSchema = z.object({
   ocrRetryable: z.boolean().optional(),
   ocrProcessedAt: z.date().optional(),
   searchableText: z.string().optional(),
-  ocrMaxRetries: z.number().optional()
+  ocrMaxRetries: z.number().optional(),
+  documentType: z.string().optional(),
+  structuredData: z.string().optional(),
+  llmConfidence: z.number().min(0).max(1).optional(),
+  llmProcessedAt: z.date().optional()
 });
 
 
@@ -0,0 +1,68 @@
+/**
+ * Bank Statement Import Schema
+ * Corporate Finance Manager - Saved CSV mappings and statement import batches
+ */
+
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+import { accounts } from "./accounts";
+
+/**
+ * Saved CSV column-mapping profiles, one per bank export layout
+ */
+export const importProfiles = sqliteTable("import_profiles", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+
+  name: text("name").notNull(),
+  bankAccountId: integer("bank_account_id").references(() => accounts.id), // Default account for this layout
+  mapping: text("mapping").notNull(), // JSON CsvColumnMapping
+
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+
+  // Audit fields
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+  updatedAt: text("updated_at").notNull().default(sql`(datetime('now'))`),
+  createdBy: text("created_by"), // User ID (UUID)
+  updatedBy: text("updated_by"),
+});
+
+/**
+ * Statement import batches
+ * Imported lines are kept in bank_statement_lines for duplicate detection and reconciliation
+ */
+export const bankStatementImports = sqliteTable("bank_statement_imports", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+
+  bankAccountId: integer("bank_account_id").notNull().references(() => accounts.id),
+  format: text("format").notNull(), // CSV, OFX, CAMT053
+  fileName: text("file_name"),
+  profileId: integer("profile_id").references(() => importProfiles.id),
+
+  // Outcome counts
+  totalLines: integer("total_lines").notNull().default(0),
+  importedLines: integer("imported_lines").notNull().default(0),
+  duplicateLines: integer("duplicate_lines").notNull().default(0),
+  failedLines: integer("failed_lines").notNull().default(0),
+
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+
+  // Audit fields
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+  createdBy: text("created_by"),
+});
+
+// Statement format enum
+export const StatementFormat = {
+  CSV: "CSV",
+  OFX: "OFX",
+  CAMT053: "CAMT053",
+} as const;
+
+export type StatementFormat = typeof StatementFormat[keyof typeof StatementFormat];
+
+export type ImportProfileRow = typeof importProfiles.$inferSelect;
+export type NewImportProfile = typeof importProfiles.$inferInsert;
+export type BankStatementImportRow = typeof bankStatementImports.$inferSelect;
+export type NewBankStatementImport = typeof bankStatementImports.$inferInsert;
@@ -10,6 +10,17 @@ export * from "./auth";
 export * from "./documents";
 export * from "./categories";
 export * from "./budgets";
+export * from "./approvals";
+export * from "./periods";
+export * from "./closing";
+export * from "./reconciliation";
+export * from "./imports";
+export * from "./currency";
+export * from "./recurring";
+export * from "./attachments";
+export * from "./consolidation";
+export * from "./dimensions";
+export * from "./receivables";
 
 // Re-export all tables for Drizzle relations
 import { accounts } from "./accounts";
@@ -17,7 +28,18 @@ import { transactions, journalEntries } from "./transactions";
 import { users, sessions, magicLinks, auditLog } from "./auth";
 import { rawDocs } from "./documents";
 import { categories, categoryStats } from "./categories";
-import { budgets, budgetPeriods, budgetRevisions, budgetAllocations } from "./budgets";
+import { budgets, budgetPeriods, budgetRevisions, budgetAllocations, budgetAccountMappings, budgetAlerts } from "./budgets";
+import { approvalRules, transactionApprovals } from "./approvals";
+import { fiscalPeriods } from "./periods";
+import { yearEndCloses } from "./closing";
+import { reconciliationSessions, bankStatementLines } from "./reconciliation";
+import { importProfiles, bankStatementImports } from "./imports";
+import { exchangeRates, fxRevaluations, fxRevaluationLines } from "./currency";
+import { recurringTemplates, recurringTemplateRuns } from "./recurring";
+import { documentAttachments } from "./attachments";
+import { entities, intercompanyAccounts, intercompanyTransactions } from "./consolidation";
+import { dimensions, accountDimensionRules } from "./dimensions";
+import { customers, salesInvoices, salesInvoiceLines, customerReceipts, receivableApplications } from "./receivables";
 
 export const schema = {
   accounts,
@@ -34,6 +56,32 @@ export const schema = {
   budgetPeriods,
   budgetRevisions,
   budgetAllocations,
+  budgetAccountMappings,
+  budgetAlerts,
+  approvalRules,
+  transactionApprovals,
+  fiscalPeriods,
+  yearEndCloses,
+  reconciliationSessions,
+  bankStatementLines,
+  importProfiles,
+  bankStatementImports,
+  exchangeRates,
+  fxRevaluations,
+  fxRevaluationLines,
+  recurringTemplates,
+  recurringTemplateRuns,
+  documentAttachments,
+  entities,
+  intercompanyAccounts,
+  intercompanyTransactions,
+  dimensions,
+  accountDimensionRules,
+  customers,
+  salesInvoices,
+  salesInvoiceLines,
+  customerReceipts,
+  receivableApplications,
 };
 
 // Database relations
@@ -50,6 +98,7 @@ export const accountsRelations = relations(accounts, ({ one, many }) => ({
 
 export const transactionsRelations = relations(transactions, ({ one, many }) => ({
   journalEntries: many(journalEntries),
+  approvals: many(transactionApprovals),
   reversedTransaction: one(transactions, {
     fields: [transactions.reversedTransactionId],
     references: [transactions.id],
@@ -67,6 +116,200 @@ export const journalEntriesRelations = relations(journalEntries, ({ one }) => ({
   }),
 }));
 
+export const transactionApprovalsRelations = relations(transactionApprovals, ({ one }) => ({
+  transaction: one(transactions, {
+    fields: [transactionApprovals.transactionId],
+    references: [transactions.id],
+  }),
+}));
+
+export const reconciliationSessionsRelations = relations(reconciliationSessions, ({ one, many }) => ({
+  bankAccount: one(accounts, {
+    fields: [reconciliationSessions.bankAccountId],
+    references: [accounts.id],
+  }),
+  statementLines: many(bankStatementLines),
+}));
+
+export const bankStatementLinesRelations = relations(bankStatementLines, ({ one }) => ({
+  session: one(reconciliationSessions, {
+    fields: [bankStatementLines.sessionId],
+    references: [reconciliationSessions.id],
+  }),
+  journalEntry: one(journalEntries, {
+    fields: [bankStatementLines.matchedJournalEntryId],
+    references: [journalEntries.id],
+  }),
+  import: one(bankStatementImports, {
+    fields: [bankStatementLines.importId],
+    references: [bankStatementImports.id],
+  }),
+}));
+
+export const bankStatementImportsRelations = relations(bankStatementImports, ({ many }) => ({
+  lines: many(bankStatementLines),
+}));
+
+export const fxRevaluationsRelations = relations(fxRevaluations, ({ many }) => ({
+  lines: many(fxRevaluationLines),
+}));
+
+export const fxRevaluationLinesRelations = relations(fxRevaluationLines, ({ one }) => ({
+  revaluation: one(fxRevaluations, {
+    fields: [fxRevaluationLines.revaluationId],
+    references: [fxRevaluations.id],
+  }),
+  account: one(accounts, {
+    fields: [fxRevaluationLines.accountId],
+    references: [accounts.id],
+  }),
+}));
+
+export const recurringTemplatesRelations = relations(recurringTemplates, ({ many }) => ({
+  runs: many(recurringTemplateRuns),
+}));
+
+export const recurringTemplateRunsRelations = relations(recurringTemplateRuns, ({ one }) => ({
+  template: one(recurringTemplates, {
+    fields: [recurringTemplateRuns.templateId],
+    references: [recurringTemplates.id],
+  }),
+  transaction: one(transactions, {
+    fields: [recurringTemplateRuns.transactionId],
+    references: [transactions.id],
+  }),
+}));
+
+export const documentAttachmentsRelations = relations(documentAttachments, ({ one }) => ({
+  document: one(rawDocs, {
+    fields: [documentAttachments.rawDocId],
+    references: [rawDocs.id],
+  }),
+  transaction: one(transactions, {
+    fields: [documentAttachments.transactionId],
+    references: [transactions.id],
+  }),
+  journalEntry: one(journalEntries, {
+    fields: [documentAttachments.journalEntryId],
+    references: [journalEntries.id],
+  }),
+}));
+
+export const entitiesRelations = relations(entities, ({ one, many }) => ({
+  parent: one(entities, {
+    fields: [entities.parentEntityId],
+    references: [entities.id],
+    relationName: "entityHierarchy",
+  }),
+  subsidiaries: many(entities, { relationName: "entityHierarchy" }),
+}));
+
+export const intercompanyAccountsRelations = relations(intercompanyAccounts, ({ one }) => ({
+  account: one(accounts, {
+    fields: [intercompanyAccounts.accountId],
+    references: [accounts.id],
+  }),
+}));
+
+export const intercompanyTransactionsRelations = relations(intercompanyTransactions, ({ one }) => ({
+  sourceTransaction: one(transactions, {
+    fields: [intercompanyTransactions.sourceTransactionId],
+    references: [transactions.id],
+    relationName: "intercompanySource",
+  }),
+  counterpartyTransaction: one(transactions, {
+    fields: [intercompanyTransactions.counterpartyTransactionId],
+    references: [transactions.id],
+    relationName: "intercompanyCounterparty",
+  }),
+}));
+
+export const accountDimensionRulesRelations = relations(accountDimensionRules, ({ one }) => ({
+  account: one(accounts, {
+    fields: [accountDimensionRules.accountId],
+    references: [accounts.id],
+  }),
+}));
+
+export const customersRelations = relations(customers, ({ one, many }) => ({
+  receivableAccount: one(accounts, {
+    fields: [customers.receivableAccountId],
+    references: [accounts.id],
+  }),
+  invoices: many(salesInvoices),
+  receipts: many(customerReceipts),
+}));
+
+export const salesInvoicesRelations = relations(salesInvoices, ({ one, many }) => ({
+  customer: one(customers, {
+    fields: [salesInvoices.customerId],
+    references: [customers.id],
+  }),
+  transaction: one(transactions, {
+    fields: [salesInvoices.transactionId],
+    references: [transactions.id],
+  }),
+  lines: many(salesInvoiceLines),
+}));
+
+export const salesInvoiceLinesRelations = relations(salesInvoiceLines, ({ one }) => ({
+  invoice: one(salesInvoices, {
+    fields: [salesInvoiceLines.invoiceId],
+    references: [salesInvoices.id],
+  }),
+  revenueAccount: one(accounts, {
+    fields: [salesInvoiceLines.revenueAccountId],
+    references: [accounts.id],
+  }),
+}));
+
+export const customerReceiptsRelations = relations(customerReceipts, ({ one, many }) => ({
+  customer: one(customers, {
+    fields: [customerReceipts.customerId],
+    references: [customers.id],
+  }),
+  transaction: one(transactions, {
+    fields: [customerReceipts.transactionId],
+    references: [transactions.id],
+  }),
+  applications: many(receivableApplications),
+}));
+
+export const receivableApplicationsRelations = relations(receivableApplications, ({ one }) => ({
+  invoice: one(salesInvoices, {
+    fields: [receivableApplications.invoiceId],
+    references: [salesInvoices.id],
+    relationName: "appliedInvoice",
+  }),
+  receipt: one(customerReceipts, {
+    fields: [receivableApplications.receiptId],
+    references: [customerReceipts.id],
+  }),
+  creditNote: one(salesInvoices, {
+    fields: [receivableApplications.creditNoteId],
+    references: [salesInvoices.id],
+    relationName: "appliedCreditNote",
+  }),
+}));
+
+export const budgetAccountMappingsRelations = relations(budgetAccountMappings, ({ one }) => ({
+  category: one(categories, {
+    fields: [budgetAccountMappings.categoryId],
+    references: [categories.id],
+  }),
+  account: one(accounts, {
+    fields: [budgetAccountMappings.accountId],
+    references: [accounts.id],
+  }),
+}));
+
+export const budgetAlertsRelations = relations(budgetAlerts, ({ one }) => ({
+  budget: one(budgets, {
+    fields: [budgetAlerts.budgetId],
+    references: [budgets.id],
+  }),
+}));
+
 // Authentication relations
 export const usersRelations = relations(users, ({ many }) => ({
   sessions: many(sessions),
@@ -0,0 +1,47 @@
+/**
+ * Fiscal Periods Schema
+ * Corporate Finance Manager - Accounting period close and lock
+ */
+
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+
+/**
+ * Fiscal periods per entity
+ * Postings dated inside a closed period are rejected by the accounting engine
+ */
+export const fiscalPeriods = sqliteTable("fiscal_periods", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+
+  // Period identification
+  name: text("name").notNull(), // "2024-01", "FY 2024 P13"
+  fiscalYear: integer("fiscal_year").notNull(),
+  periodNumber: integer("period_number").notNull(), // 1-12, or 13 for adjustment periods
+
+  // Period timing (inclusive)
+  startDate: text("start_date").notNull(), // ISO date string
+  endDate: text("end_date").notNull(), // ISO date string
+
+  // Lock state
+  status: text("status").notNull().default("OPEN"), // OPEN, SOFT_CLOSED, HARD_CLOSED
+  closedAt: text("closed_at"),
+  closedBy: text("closed_by"),
+
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+
+  // Audit fields
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+  updatedAt: text("updated_at").notNull().default(sql`(datetime('now'))`),
+  createdBy: text("created_by"), // User ID (UUID)
+  updatedBy: text("updated_by"),
+});
+
+// Fiscal period status enum
+export const FiscalPeriodStatus = {
+  OPEN: "OPEN",
+  SOFT_CLOSED: "SOFT_CLOSED",
+  HARD_CLOSED: "HARD_CLOSED",
+} as const;
+
+export type FiscalPeriodStatus = typeof FiscalPeriodStatus[keyof typeof FiscalPeriodStatus];
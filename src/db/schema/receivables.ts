@@ -0,0 +1,192 @@
+/**
+ * Receivables Schema
+ * Corporate Finance Manager - Customers, sales invoices and credit notes, customer receipts
+ * and the applications that settle invoices
+ */
+
+import { sqliteTable, text, integer, real, uniqueIndex } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+import { accounts } from "./accounts";
+import { transactions } from "./transactions";
+
+/**
+ * Customers. Every invoice, credit note and receipt of a customer is in the customer's currency
+ */
+export const customers = sqliteTable("customers", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+
+  code: text("code").notNull(),
+  name: text("name").notNull(),
+  email: text("email"),
+  phone: text("phone"),
+  billingAddress: text("billing_address"),
+  taxId: text("tax_id"),
+
+  currency: text("currency").notNull().default("IDR"),
+  paymentTermsDays: integer("payment_terms_days").notNull().default(30), // Due date = issue date + terms
+  receivableAccountId: integer("receivable_account_id").references(() => accounts.id), // Defaults to the ACCOUNTS_RECEIVABLE account
+
+  isActive: integer("is_active", { mode: "boolean" }).notNull().default(true),
+
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+
+  // Audit fields
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+  updatedAt: text("updated_at").notNull().default(sql`(datetime('now'))`),
+  createdBy: text("created_by"),
+  updatedBy: text("updated_by"),
+}, (table) => ({
+  codeIdx: uniqueIndex("customers_entity_code_idx").on(table.entityId, table.code),
+}));
+
+/**
+ * Sales invoices and credit notes. Issuing posts the document: an invoice debits receivables and
+ * credits revenue and output tax, a credit note the other way round. amount_applied is the part of
+ * an invoice settled by receipts and credit notes, or the part of a credit note used to settle invoices
+ */
+export const salesInvoices = sqliteTable("sales_invoices", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  documentNumber: text("document_number").notNull(), // INV-2024-000001, CN-2024-000001
+  type: text("type").notNull().default("INVOICE"), // INVOICE, CREDIT_NOTE
+
+  customerId: integer("customer_id").notNull().references(() => customers.id),
+  originalInvoiceId: integer("original_invoice_id"), // Invoice a credit note corrects
+
+  issueDate: text("issue_date").notNull(), // ISO date string
+  dueDate: text("due_date").notNull(), // ISO date string
+  currency: text("currency").notNull().default("IDR"),
+  exchangeRate: real("exchange_rate").notNull().default(1.0), // Rate to the base currency when issued
+
+  subtotal: real("subtotal").notNull(),
+  taxAmount: real("tax_amount").notNull().default(0),
+  totalAmount: real("total_amount").notNull(),
+  amountApplied: real("amount_applied").notNull().default(0),
+
+  status: text("status").notNull().default("DRAFT"), // DRAFT, ISSUED, PARTIALLY_PAID, PAID, VOID
+
+  receivableAccountId: integer("receivable_account_id").references(() => accounts.id),
+  taxAccountId: integer("tax_account_id").references(() => accounts.id),
+  transactionId: integer("transaction_id").references(() => transactions.id),
+
+  reference: text("reference"), // Customer PO or order number
+  notes: text("notes"),
+
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+
+  // Audit fields
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+  updatedAt: text("updated_at").notNull().default(sql`(datetime('now'))`),
+  createdBy: text("created_by"),
+  updatedBy: text("updated_by"),
+}, (table) => ({
+  documentNumberIdx: uniqueIndex("sales_invoices_entity_number_idx").on(table.entityId, table.documentNumber),
+}));
+
+/**
+ * Invoice and credit note lines, each posted to its revenue account
+ */
+export const salesInvoiceLines = sqliteTable("sales_invoice_lines", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+
+  invoiceId: integer("invoice_id").notNull().references(() => salesInvoices.id, { onDelete: "cascade" }),
+  lineNumber: integer("line_number").notNull(),
+  description: text("description").notNull(),
+  quantity: real("quantity").notNull().default(1),
+  unitPrice: real("unit_price").notNull(),
+  amount: real("amount").notNull(), // quantity x unit price, net of tax
+  revenueAccountId: integer("revenue_account_id").notNull().references(() => accounts.id),
+
+  // Dimension codes (see dimensions)
+  departmentId: text("department_id"),
+  projectId: text("project_id"),
+  costCenterId: text("cost_center_id"),
+
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+});
+
+/**
+ * Money received from a customer. Posting debits the deposit account and credits receivables for
+ * the whole amount; amount_applied is the part settling invoices, the rest is an unapplied credit
+ */
+export const customerReceipts = sqliteTable("customer_receipts", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  receiptNumber: text("receipt_number").notNull(), // RCP-2024-000001
+
+  customerId: integer("customer_id").notNull().references(() => customers.id),
+  receiptDate: text("receipt_date").notNull(), // ISO date string
+  currency: text("currency").notNull().default("IDR"),
+  exchangeRate: real("exchange_rate").notNull().default(1.0),
+  amount: real("amount").notNull(),
+  amountApplied: real("amount_applied").notNull().default(0),
+
+  depositAccountId: integer("deposit_account_id").notNull().references(() => accounts.id),
+  receivableAccountId: integer("receivable_account_id").notNull().references(() => accounts.id),
+  transactionId: integer("transaction_id").references(() => transactions.id),
+
+  reference: text("reference"), // Bank reference or cheque number
+
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+
+  // Audit fields
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+  updatedAt: text("updated_at").notNull().default(sql`(datetime('now'))`),
+  createdBy: text("created_by"),
+  updatedBy: text("updated_by"),
+}, (table) => ({
+  receiptNumberIdx: uniqueIndex("customer_receipts_entity_number_idx").on(table.entityId, table.receiptNumber),
+}));
+
+/**
+ * Part of a receipt or credit note settling an invoice. Applications move no ledger balances:
+ * the receipt or credit note already credited receivables when it was posted
+ */
+export const receivableApplications = sqliteTable("receivable_applications", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+
+  invoiceId: integer("invoice_id").notNull().references(() => salesInvoices.id),
+  receiptId: integer("receipt_id").references(() => customerReceipts.id),
+  creditNoteId: integer("credit_note_id").references(() => salesInvoices.id),
+  amount: real("amount").notNull(),
+  appliedDate: text("applied_date").notNull(), // ISO date string
+
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+
+  // Audit fields
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+  createdBy: text("created_by"),
+});
+
+// Sales document type enum
+export const SalesDocumentType = {
+  INVOICE: "INVOICE",
+  CREDIT_NOTE: "CREDIT_NOTE",
+} as const;
+
+export type SalesDocumentType = typeof SalesDocumentType[keyof typeof SalesDocumentType];
+
+// Sales document status enum
+export const SalesDocumentStatus = {
+  DRAFT: "DRAFT",
+  ISSUED: "ISSUED",
+  PARTIALLY_PAID: "PARTIALLY_PAID",
+  PAID: "PAID",
+  VOID: "VOID",
+} as const;
+
+export type SalesDocumentStatus = typeof SalesDocumentStatus[keyof typeof SalesDocumentStatus];
+
+export type CustomerRow = typeof customers.$inferSelect;
+export type NewCustomer = typeof customers.$inferInsert;
+export type SalesInvoiceRow = typeof salesInvoices.$inferSelect;
+export type NewSalesInvoice = typeof salesInvoices.$inferInsert;
+export type SalesInvoiceLineRow = typeof salesInvoiceLines.$inferSelect;
+export type NewSalesInvoiceLine = typeof salesInvoiceLines.$inferInsert;
+export type CustomerReceiptRow = typeof customerReceipts.$inferSelect;
+export type NewCustomerReceipt = typeof customerReceipts.$inferInsert;
+export type ReceivableApplicationRow = typeof receivableApplications.$inferSelect;
+export type NewReceivableApplication = typeof receivableApplications.$inferInsert;
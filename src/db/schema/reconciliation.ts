@@ -0,0 +1,99 @@
+/**
+ * Bank Reconciliation Schema
+ * Corporate Finance Manager - Statement lines matched against ledger journal entries
+ */
+
+import { sqliteTable, text, integer, real, uniqueIndex } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+import { accounts } from "./accounts";
+import { transactions, journalEntries } from "./transactions";
+import { bankStatementImports } from "./imports";
+
+/**
+ * Reconciliation sessions per bank account
+ * One statement (ending balance as of a date) reconciled against the bank ledger account
+ */
+export const reconciliationSessions = sqliteTable("reconciliation_sessions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+
+  // Bank ledger account being reconciled
+  bankAccountId: integer("bank_account_id").notNull().references(() => accounts.id),
+
+  // Statement details
+  statementDate: text("statement_date").notNull(), // ISO date string, inclusive
+  statementEndingBalance: real("statement_ending_balance").notNull(),
+
+  status: text("status").notNull().default("IN_PROGRESS"), // IN_PROGRESS, COMPLETED
+  notes: text("notes"),
+  completedAt: text("completed_at"),
+  completedBy: text("completed_by"),
+
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+
+  // Audit fields
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+  updatedAt: text("updated_at").notNull().default(sql`(datetime('now'))`),
+  createdBy: text("created_by"), // User ID (UUID)
+  updatedBy: text("updated_by"),
+});
+
+/**
+ * Bank statement lines
+ * Amounts are signed from the bank's view: deposits positive, withdrawals negative
+ */
+export const bankStatementLines = sqliteTable("bank_statement_lines", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+
+  bankAccountId: integer("bank_account_id").notNull().references(() => accounts.id),
+  sessionId: integer("session_id").references(() => reconciliationSessions.id, { onDelete: "cascade" }),
+
+  // Statement line details
+  transactionDate: text("transaction_date").notNull(), // ISO date string
+  amount: real("amount").notNull(),
+  description: text("description"),
+  reference: text("reference"), // Cheque number, bank reference, etc.
+
+  // Match to a ledger line
+  matchedJournalEntryId: integer("matched_journal_entry_id").references(() => journalEntries.id),
+  matchType: text("match_type"), // AUTO, MANUAL
+  matchedAt: text("matched_at"),
+  matchedBy: text("matched_by"),
+
+  // Import provenance and duplicate detection
+  externalId: text("external_id"), // OFX FITID, CAMT AcctSvcrRef
+  dedupeKey: text("dedupe_key"), // FITID:<id> or HASH:<sha256>
+  importId: integer("import_id").references(() => bankStatementImports.id),
+  transactionId: integer("transaction_id").references(() => transactions.id), // Draft created by the import
+
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+
+  // Audit fields
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+  createdBy: text("created_by"),
+}, (table) => ({
+  // A statement line is imported once per bank account; lines without a key are not deduplicated
+  dedupeKeyIdx: uniqueIndex("bank_statement_lines_dedupe_key_idx").on(table.entityId, table.bankAccountId, table.dedupeKey),
+}));
+
+// Reconciliation session status enum
+export const ReconciliationSessionStatus = {
+  IN_PROGRESS: "IN_PROGRESS",
+  COMPLETED: "COMPLETED",
+} as const;
+
+export type ReconciliationSessionStatus = typeof ReconciliationSessionStatus[keyof typeof ReconciliationSessionStatus];
+
+// Statement line match type enum
+export const StatementMatchType = {
+  AUTO: "AUTO",
+  MANUAL: "MANUAL",
+} as const;
+
+export type StatementMatchType = typeof StatementMatchType[keyof typeof StatementMatchType];
+
+export type ReconciliationSessionRow = typeof reconciliationSessions.$inferSelect;
+export type NewReconciliationSession = typeof reconciliationSessions.$inferInsert;
+export type BankStatementLineRow = typeof bankStatementLines.$inferSelect;
+export type NewBankStatementLine = typeof bankStatementLines.$inferInsert;
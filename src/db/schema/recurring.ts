@@ -0,0 +1,90 @@
+/**
+ * Recurring Transaction Schema
+ * Corporate Finance Manager - Templates generated on a schedule by the Worker cron trigger
+ */
+
+import { sqliteTable, text, integer } from "drizzle-orm/sqlite-core";
+import { sql } from "drizzle-orm";
+import { transactions } from "./transactions";
+
+/**
+ * Recurring transaction templates
+ * Entries are stored as JSON in the same shape TransactionBuilder produces
+ */
+export const recurringTemplates = sqliteTable("recurring_templates", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+
+  name: text("name").notNull(),
+  description: text("description").notNull(), // Description of generated transactions
+  reference: text("reference"),
+  currency: text("currency").notNull().default("IDR"),
+  entries: text("entries").notNull(), // JSON TransactionEntry[]
+
+  // Schedule
+  frequency: text("frequency").notNull(), // DAILY, WEEKLY, MONTHLY, END_OF_MONTH, CRON
+  interval: integer("interval").notNull().default(1), // Every N days/weeks/months
+  dayOfWeek: integer("day_of_week"), // 0 (Sunday) - 6, for WEEKLY
+  dayOfMonth: integer("day_of_month"), // 1 - 31, for MONTHLY; clamped to the month's last day
+  cronExpression: text("cron_expression"), // minute hour day-of-month month day-of-week, for CRON
+  startDate: text("start_date").notNull(), // ISO date string
+  endDate: text("end_date"), // ISO date string, inclusive
+  nextRunDate: text("next_run_date"), // Next occurrence not yet generated; null when finished
+
+  autoPost: integer("auto_post", { mode: "boolean" }).notNull().default(false),
+  isActive: integer("is_active", { mode: "boolean" }).notNull().default(true),
+
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+
+  // Audit fields
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+  updatedAt: text("updated_at").notNull().default(sql`(datetime('now'))`),
+  createdBy: text("created_by"),
+  updatedBy: text("updated_by"),
+});
+
+/**
+ * One row per template occurrence; a row is claimed before the transaction is created
+ * so overlapping scheduler runs never generate the same occurrence twice
+ */
+export const recurringTemplateRuns = sqliteTable("recurring_template_runs", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+
+  templateId: integer("template_id").notNull().references(() => recurringTemplates.id, { onDelete: "cascade" }),
+  scheduledDate: text("scheduled_date").notNull(), // ISO date string
+  transactionId: integer("transaction_id").references(() => transactions.id),
+  status: text("status").notNull().default("PENDING"), // PENDING, DRAFT, POSTED, FAILED
+  error: text("error"),
+
+  // Multi-entity support
+  entityId: text("entity_id").notNull(),
+
+  // Audit fields
+  createdAt: text("created_at").notNull().default(sql`(datetime('now'))`),
+});
+
+// Recurrence frequency enum
+export const RecurrenceFrequency = {
+  DAILY: "DAILY",
+  WEEKLY: "WEEKLY",
+  MONTHLY: "MONTHLY",
+  END_OF_MONTH: "END_OF_MONTH",
+  CRON: "CRON",
+} as const;
+
+export type RecurrenceFrequency = typeof RecurrenceFrequency[keyof typeof RecurrenceFrequency];
+
+// Recurring run status enum
+export const RecurringRunStatus = {
+  PENDING: "PENDING",
+  DRAFT: "DRAFT",
+  POSTED: "POSTED",
+  FAILED: "FAILED",
+} as const;
+
+export type RecurringRunStatus = typeof RecurringRunStatus[keyof typeof RecurringRunStatus];
+
+export type RecurringTemplateRow = typeof recurringTemplates.$inferSelect;
+export type NewRecurringTemplate = typeof recurringTemplates.$inferInsert;
+export type RecurringTemplateRunRow = typeof recurringTemplateRuns.$inferSelect;
+export type NewRecurringTemplateRun = typeof recurringTemplateRuns.$inferInsert;
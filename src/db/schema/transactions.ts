@@ -19,7 +19,7 @@ export const transactions = sqliteTable("transactions", {
   postingDate: integer("posting_date", { mode: "timestamp" }).notNull(),
   
   // Transaction classification
-  type: text("type").notNull(), // JOURNAL, PAYMENT, RECEIPT, ADJUSTMENT, etc.
+  type: text("type").notNull(), // JOURNAL, PAYMENT, RECEIPT, ADJUSTMENT, CLOSING, etc.
   source: text("source").notNull(), // MANUAL, IMPORT, API, etc.
   category: text("category"), // For grouping similar transactions
   
@@ -27,7 +27,7 @@ export const transactions = sqliteTable("transactions", {
   totalAmount: real("total_amount").notNull(), // Total transaction amount
   
   // Transaction status
-  status: text("status").notNull().default("DRAFT"), // DRAFT, POSTED, REVERSED, VOID
+  status: text("status").notNull().default("DRAFT"), // DRAFT, PENDING, APPROVED, POSTED, REVERSED, VOID
   isReversed: integer("is_reversed", { mode: "boolean" }).notNull().default(false),
   reversedTransactionId: integer("reversed_transaction_id").references((): any => transactions.id),
   
@@ -76,9 +76,11 @@ export const journalEntries = sqliteTable("journal_entries", {
   debitAmount: real("debit_amount").notNull().default(0),
   creditAmount: real("credit_amount").notNull().default(0),
   
-  // Multi-currency support (future)
+  // Multi-currency support: amounts above are in currency_code, base amounts in the entity's base currency
   currencyCode: text("currency_code").default("USD"),
   exchangeRate: real("exchange_rate").default(1.0),
+  baseDebitAmount: real("base_debit_amount"),
+  baseCreditAmount: real("base_credit_amount"),
   
   // Reconciliation
   isReconciled: integer("is_reconciled", { mode: "boolean" }).notNull().default(false),
@@ -88,6 +90,11 @@ export const journalEntries = sqliteTable("journal_entries", {
   // Multi-entity support
   entityId: text("entity_id"),
   
+  // Dimension codes (see dimensions)
+  departmentId: text("department_id"),
+  projectId: text("project_id"),
+  costCenterId: text("cost_center_id"),
+  
   // Audit fields
   createdAt: integer("created_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
   updatedAt: integer("updated_at", { mode: "timestamp" }).notNull().$defaultFn(() => new Date()),
@@ -102,6 +109,8 @@ export const TransactionType = {
   TRANSFER: "TRANSFER",
   ACCRUAL: "ACCRUAL",
   DEPRECIATION: "DEPRECIATION",
+  CLOSING: "CLOSING",
+  REVALUATION: "REVALUATION",
 } as const;
 
 export type TransactionType = typeof TransactionType[keyof typeof TransactionType];
@@ -109,6 +118,8 @@ export type TransactionType = typeof TransactionType[keyof typeof TransactionTyp
 // Transaction status enum
 export const TransactionStatus = {
   DRAFT: "DRAFT",
+  PENDING: "PENDING",
+  APPROVED: "APPROVED",
   POSTED: "POSTED",
   REVERSED: "REVERSED",
   VOID: "VOID",
@@ -122,6 +133,7 @@ export const TransactionSource = {
   IMPORT: "IMPORT",
   API: "API",
   SYSTEM: "SYSTEM",
+  RECURRING: "RECURRING",
 } as const;
 
 export type TransactionSource = typeof TransactionSource[keyof typeof TransactionSource];
@@ -130,9 +142,9 @@ export type TransactionSource = typeof TransactionSource[keyof typeof Transactio
 export const insertTransactionSchema = z.object({
   transactionNumber: z.string().min(1).max(50),
   description: z.string().min(1).max(500),
-  type: z.enum(["JOURNAL", "PAYMENT", "RECEIPT", "ADJUSTMENT", "TRANSFER", "ACCRUAL", "DEPRECIATION"]),
-  source: z.enum(["MANUAL", "IMPORT", "API", "SYSTEM"]),
-  status: z.enum(["DRAFT", "POSTED", "REVERSED", "VOID"]),
+  type: z.enum(["JOURNAL", "PAYMENT", "RECEIPT", "ADJUSTMENT", "TRANSFER", "ACCRUAL", "DEPRECIATION", "CLOSING"]),
+  source: z.enum(["MANUAL", "IMPORT", "API", "SYSTEM", "RECURRING"]),
+  status: z.enum(["DRAFT", "PENDING", "APPROVED", "POSTED", "REVERSED", "VOID"]),
   totalAmount: z.number().positive(),
 });
 
@@ -148,8 +160,8 @@ export const selectTransactionSchema = z.object({
   id: z.number(),
   transactionNumber: z.string(),
   description: z.string(),
-  type: z.enum(["JOURNAL", "PAYMENT", "RECEIPT", "ADJUSTMENT", "TRANSFER", "ACCRUAL", "DEPRECIATION"]),
-  status: z.enum(["DRAFT", "POSTED", "REVERSED", "VOID"]),
+  type: z.enum(["JOURNAL", "PAYMENT", "RECEIPT", "ADJUSTMENT", "TRANSFER", "ACCRUAL", "DEPRECIATION", "CLOSING"]),
+  status: z.enum(["DRAFT", "PENDING", "APPROVED", "POSTED", "REVERSED", "VOID"]),
 });
 
 export const selectJournalEntrySchema = z.object({
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AccountHierarchyService, DimensionService, type DatabaseAdapter } from './index';
+import type { Account } from '../types/index.js';
+import { createJournalManager, createTestAccount, createTestAdapter, postEntry } from '../../tests/helpers/ledger';
+
+describe('AccountHierarchyService', () => {
+  let adapter: DatabaseAdapter;
+  let service: AccountHierarchyService;
+  let cash: Account;
+  let bank: Account;
+  let checking: Account;
+  let capital: Account;
+  let rent: Account;
+
+  beforeEach(async () => {
+    adapter = createTestAdapter();
+    cash = await createTestAccount(adapter, '1000', 'ASSET');
+    bank = await createTestAccount(adapter, '1100', 'ASSET', { parentId: cash.id, level: 1, path: '1000/1100' });
+    checking = await createTestAccount(adapter, '1110', 'ASSET', { parentId: bank.id, level: 2, path: '1000/1100/1110' });
+    capital = await createTestAccount(adapter, '3000', 'EQUITY');
+    const expenses = await createTestAccount(adapter, '6000', 'EXPENSE');
+    rent = await createTestAccount(adapter, '6100', 'EXPENSE', { parentId: expenses.id, level: 1, path: '6000/6100' });
+    const dimensions = new DimensionService(adapter);
+    await dimensions.create({ type: 'DEPARTMENT', code: 'OPS', name: 'Operations' });
+    await dimensions.create({ type: 'DEPARTMENT', code: 'SALES', name: 'Sales' });
+    const manager = await createJournalManager(adapter);
+    service = new AccountHierarchyService(adapter);
+
+    await postEntry(manager, [{ accountId: checking.id, debit: 5000 }, { accountId: capital.id, credit: 5000 }], { date: '2026-01-10' });
+    await postEntry(manager, [{ accountId: bank.id, debit: 1000 }, { accountId: capital.id, credit: 1000 }], { date: '2026-01-12' });
+    await postEntry(manager, [
+      { accountId: rent.id, debit: 400, departmentId: 'OPS' },
+      { accountId: checking.id, credit: 400, departmentId: 'OPS' }
+    ], { date: '2026-02-05' });
+    await postEntry(manager, [{ accountId: rent.id, debit: 100, departmentId: 'SALES' }, { accountId: cash.id, credit: 100 }], { date: '2026-02-06' });
+  });
+
+  it('should roll every balance up to its ancestors, in tree order', async () => {
+    const rollUps = await service.getRollUpBalances({ asOfDate: '2026-02-28' });
+
+    expect(rollUps.map(rollUp => [rollUp.path, rollUp.balance, rollUp.rolledUpBalance, rollUp.childCount])).toEqual([
+      ['1000', -100, 5500, 1],
+      ['1000/1100', 1000, 5600, 1],
+      ['1000/1100/1110', 4600, 4600, 0],
+      ['3000', 6000, 6000, 0],
+      ['6000', 0, 500, 1],
+      ['6000/6100', 500, 500, 0]
+    ]);
+    // Only the balances as of the date, and only lines tagged with the filtered codes
+    expect((await service.getRollUpBalances({ asOfDate: '2026-01-31' })).find(rollUp => rollUp.code === '6000')?.rolledUpBalance).toBe(0);
+    const tagged = await service.getRollUpBalances({ asOfDate: '2026-02-28', dimensions: { DEPARTMENT: 'OPS' } });
+    expect(tagged.filter(rollUp => rollUp.rolledUpBalance !== 0).map(rollUp => [rollUp.code, rollUp.rolledUpBalance])).toEqual([
+      ['1000', -400], ['1100', -400], ['1110', -400], ['6000', 400], ['6100', 400]
+    ]);
+  });
+
+  it('should fold accounts below the depth into their ancestor on the last level shown', async () => {
+    const rollUps = await service.getRollUpBalances({ asOfDate: '2026-02-28', depth: 2 });
+    expect(rollUps.map(rollUp => [rollUp.code, rollUp.isCollapsed])).toEqual([
+      ['1000', false], ['1100', true], ['3000', false], ['6000', false], ['6100', false]
+    ]);
+
+    const trialBalance = await service.getTrialBalance({ asOfDate: '2026-02-28', depth: 1 });
+    expect(trialBalance.accounts.map(line => [line.accountCode, line.isCollapsed, line.debitBalance, line.creditBalance])).toEqual([
+      ['1000', true, 5500, 0],
+      ['3000', false, 0, 6000],
+      ['6000', true, 500, 0]
+    ]);
+    expect(trialBalance.totals).toEqual({ totalDebits: 6000, totalCredits: 6000, isBalanced: true });
+    await expect(service.getTrialBalance({ asOfDate: '2026-02-28', depth: 0 })).rejects.toMatchObject({ code: 'INVALID_HIERARCHY_DEPTH' });
+  });
+
+  it('should repeat the trial balance for each code of a dimension, untagged lines last', async () => {
+    const trialBalance = await service.getTrialBalance({ asOfDate: '2026-02-28', groupBy: 'DEPARTMENT' });
+
+    expect(trialBalance.accounts.map(line => [line.dimensionCode, line.accountCode, line.debitBalance, line.creditBalance])).toEqual([
+      ['OPS', '1110', 0, 400],
+      ['OPS', '6100', 400, 0],
+      ['SALES', '6100', 100, 0],
+      [null, '1000', 0, 100],
+      [null, '1100', 1000, 0],
+      [null, '1110', 5000, 0],
+      [null, '3000', 0, 6000]
+    ]);
+    expect(trialBalance.totals.isBalanced).toBe(true);
+  });
+
+  it('should move an account with its subtree and recompute their paths', async () => {
+    const result = await service.move(bank.id, null, 'user-1');
+
+    expect(result).toMatchObject({ previousParentId: cash.id, accountsUpdated: 2, account: { path: '1100', level: 0 } });
+    expect(result.account.parentId).toBeFalsy();
+    expect(await adapter.getAccount(checking.id)).toMatchObject({ parentId: bank.id, path: '1100/1110', level: 1 });
+    // Balances follow the new tree
+    const rollUps = await service.getRollUpBalances({ asOfDate: '2026-02-28', depth: 1 });
+    expect(rollUps.map(rollUp => [rollUp.code, rollUp.rolledUpBalance])).toEqual([
+      ['1000', -100], ['1100', 5600], ['3000', 6000], ['6000', 500]
+    ]);
+  });
+
+  it('should refuse to move an account under itself, a descendant, another type or a missing parent', async () => {
+    await expect(service.move(bank.id, bank.id)).rejects.toMatchObject({ code: 'ACCOUNT_HIERARCHY_CYCLE', message: 'An account cannot be its own parent' });
+    await expect(service.move(cash.id, checking.id)).rejects.toMatchObject({ code: 'ACCOUNT_HIERARCHY_CYCLE' });
+    await expect(service.move(bank.id, capital.id)).rejects.toMatchObject({ code: 'INVALID_PARENT_TYPE' });
+    await expect(service.move(bank.id, 9999)).rejects.toMatchObject({ code: 'PARENT_ACCOUNT_NOT_FOUND' });
+    await expect(service.move(9999, null)).rejects.toMatchObject({ code: 'ACCOUNT_NOT_FOUND' });
+
+    expect(await adapter.getAccount(bank.id)).toMatchObject({ parentId: cash.id, path: '1000/1100' });
+  });
+
+  it('should repair paths and levels saved before their parent was known', async () => {
+    const savings = await createTestAccount(adapter, '1120', 'ASSET', { parentId: bank.id });
+
+    expect(await service.rebuild('user-1')).toBe(1);
+    expect(await adapter.getAccount(savings.id)).toMatchObject({ path: '1000/1100/1120', level: 2 });
+    expect(await service.rebuild('user-1')).toBe(0);
+  });
+});
@@ -0,0 +1,300 @@
+/**
+ * Account Hierarchy
+ * Parent and child accounts: moving subtrees and rolling balances up the tree.
+ */
+
+import type {
+  Account,
+  AccountActivity,
+  AccountMoveResult,
+  AccountPosition,
+  AccountRollUp,
+  AccountRollUpOptions,
+  AccountType,
+  HierarchyTrialBalance,
+  HierarchyTrialBalanceLine,
+  HierarchyTrialBalanceOptions
+} from '../types/index.js';
+import type { DatabaseAdapter } from './database-adapter';
+import { AccountingValidationError } from './errors';
+import { roundToDecimalPlaces } from './utils';
+
+/**
+ * Keeps each account's materialized path and level in step with its parentId and rolls balances
+ * up the tree. Reports pass a depth to show only the top levels of the chart: every deeper account
+ * is folded into its ancestor on the last level shown.
+ */
+export class AccountHierarchyService {
+  private dbAdapter: DatabaseAdapter;
+
+  constructor(dbAdapter: DatabaseAdapter) {
+    this.dbAdapter = dbAdapter;
+  }
+
+  static getChildPosition(parent: Pick<Account, 'path' | 'level'> | undefined, code: string): { path: string; level: number } {
+    return parent
+      ? { path: `${parent.path}/${code}`, level: parent.level + 1 }
+      : { path: code, level: 0 };
+  }
+
+  /**
+   * Path and level of every account derived from parentId alone. An account whose parent is missing,
+   * or that closes a cycle, is treated as top-level.
+   */
+  static getPositions(accounts: Account[]): Map<number, AccountPosition> {
+    const byId = new Map(accounts.map(account => [account.id, account]));
+    const positions = new Map<number, AccountPosition>();
+    const visiting = new Set<number>();
+    const resolve = (account: Account): AccountPosition => {
+      const known = positions.get(account.id);
+      if (known) return known;
+
+      visiting.add(account.id);
+      const parent = account.parentId ? byId.get(account.parentId) : undefined;
+      const parentPosition = parent && !visiting.has(parent.id) ? resolve(parent) : undefined;
+      visiting.delete(account.id);
+
+      const position: AccountPosition = {
+        accountId: account.id,
+        parentId: parentPosition ? parentPosition.accountId : undefined,
+        ...AccountHierarchyService.getChildPosition(parentPosition, account.code)
+      };
+      positions.set(account.id, position);
+      return position;
+    };
+
+    accounts.forEach(resolve);
+    return positions;
+  }
+
+  /**
+   * The account each account is reported under: itself when it is within depth levels of the top,
+   * otherwise its ancestor on the last level shown
+   */
+  static getDisplayAccountIds(accounts: Account[], depth: number): Map<number, number> {
+    AccountHierarchyService.assertDepth(depth);
+    const positions = AccountHierarchyService.getPositions(accounts);
+    const displayIds = new Map<number, number>();
+
+    for (const account of accounts) {
+      let position = positions.get(account.id) as AccountPosition;
+      while (position.level >= depth && position.parentId) {
+        position = positions.get(position.parentId) as AccountPosition;
+      }
+      displayIds.set(account.id, position.accountId);
+    }
+    return displayIds;
+  }
+
+  static assertDepth(depth: number): void {
+    if (!Number.isInteger(depth) || depth < 1) {
+      throw new AccountingValidationError('Depth must be a whole number of at least 1', 'INVALID_HIERARCHY_DEPTH');
+    }
+  }
+
+  /**
+   * Re-parent an account, or make it top-level with a null parentId, and recompute path and level
+   * for it and every account below it. The new parent must be of the same type and may not be the
+   * account itself or one of its descendants.
+   */
+  async move(accountId: number, parentId: number | null, movedBy?: string): Promise<AccountMoveResult> {
+    const accounts = await this.dbAdapter.getAllAccounts();
+    const byId = new Map(accounts.map(account => [account.id, account]));
+    const account = byId.get(accountId);
+    if (!account) {
+      throw new AccountingValidationError(`No account found with ID ${accountId}`, 'ACCOUNT_NOT_FOUND');
+    }
+
+    if (parentId !== null) {
+      const parent = byId.get(parentId);
+      if (!parent) {
+        throw new AccountingValidationError(`Parent account with ID ${parentId} does not exist`, 'PARENT_ACCOUNT_NOT_FOUND');
+      }
+      if (parent.type !== account.type) {
+        throw new AccountingValidationError(
+          `Parent account ${parent.code} is ${parent.type}; a ${account.type} account cannot sit under it`,
+          'INVALID_PARENT_TYPE'
+        );
+      }
+
+      const seen = new Set<number>();
+      let ancestor: Account | undefined = parent;
+      while (ancestor && !seen.has(ancestor.id)) {
+        if (ancestor.id === accountId) {
+          throw new AccountingValidationError(
+            parent.id === accountId
+              ? 'An account cannot be its own parent'
+              : `Account ${parent.code} is below ${account.code}; moving ${account.code} under it would create a cycle`,
+            'ACCOUNT_HIERARCHY_CYCLE'
+          );
+        }
+        seen.add(ancestor.id);
+        ancestor = ancestor.parentId ? byId.get(ancestor.parentId) : undefined;
+      }
+    }
+
+    const movedChart = accounts.map(candidate =>
+      candidate.id === accountId ? { ...candidate, parentId: parentId ?? undefined } : candidate
+    );
+    const positions = AccountHierarchyService.getPositions(movedChart);
+    const subtree = [accountId];
+    for (let index = 0; index < subtree.length; index++) {
+      for (const candidate of movedChart) {
+        if (candidate.parentId === subtree[index] && candidate.id !== accountId) subtree.push(candidate.id);
+      }
+    }
+
+    await this.dbAdapter.updateAccountPositions(subtree.map(id => positions.get(id) as AccountPosition), movedBy);
+
+    return {
+      account: await this.dbAdapter.getAccount(accountId) as Account,
+      previousParentId: account.parentId || undefined,
+      accountsUpdated: subtree.length
+    };
+  }
+
+  /**
+   * Recompute path and level across the whole chart from parentId, repairing accounts saved before
+   * their parent's position was known. Parent links that form a cycle are cleared. Returns the number
+   * of accounts corrected.
+   */
+  async rebuild(updatedBy?: string): Promise<number> {
+    const accounts = await this.dbAdapter.getAllAccounts();
+    const positions = AccountHierarchyService.getPositions(accounts);
+    const stale = accounts
+      .filter(account => {
+        const position = positions.get(account.id) as AccountPosition;
+        return account.path !== position.path
+          || account.level !== position.level
+          || (account.parentId || undefined) !== position.parentId;
+      })
+      .map(account => positions.get(account.id) as AccountPosition);
+
+    await this.dbAdapter.updateAccountPositions(stale, updatedBy);
+    return stale.length;
+  }
+
+  /**
+   * Every account in tree order with its own balance and the balance of its whole subtree as of
+   * the date. With a depth, only accounts on the first depth levels are returned.
+   */
+  async getRollUpBalances(options: AccountRollUpOptions): Promise<AccountRollUp[]> {
+    if (options.depth !== undefined) AccountHierarchyService.assertDepth(options.depth);
+
+    const accounts = await this.dbAdapter.getAllAccounts();
+    const activity = await this.dbAdapter.getAccountActivityThrough(options.asOfDate, options.dimensions);
+    return AccountHierarchyService.rollUp(accounts, AccountHierarchyService.getNetDebits(activity), options.depth);
+  }
+
+  /**
+   * Debit and credit balance per account as of the date, in tree order. With a depth, accounts
+   * below it are netted into their ancestor on the last level shown. Grouped by a dimension, the
+   * lines repeat for each of its codes, then for lines without one.
+   */
+  async getTrialBalance(options: HierarchyTrialBalanceOptions): Promise<HierarchyTrialBalance> {
+    if (options.depth !== undefined) AccountHierarchyService.assertDepth(options.depth);
+
+    const accounts = await this.dbAdapter.getAllAccounts();
+    const lines: HierarchyTrialBalanceLine[] = [];
+
+    if (options.groupBy) {
+      const activityByCode = new Map<string | null, AccountActivity[]>();
+      for (const row of await this.dbAdapter.getAccountActivityByDimension(options.groupBy, undefined, options.asOfDate, options.dimensions)) {
+        activityByCode.set(row.dimensionCode, [...activityByCode.get(row.dimensionCode) ?? [], row]);
+      }
+      const codes = [...activityByCode.keys()].sort((a, b) => a === null ? 1 : b === null ? -1 : a.localeCompare(b));
+      for (const code of codes) {
+        const rollUps = AccountHierarchyService.rollUp(
+          accounts,
+          AccountHierarchyService.getNetDebits(activityByCode.get(code) ?? []),
+          options.depth
+        );
+        lines.push(...AccountHierarchyService.getTrialBalanceLines(rollUps).map(line => ({ ...line, dimensionCode: code })));
+      }
+    } else {
+      const activity = await this.dbAdapter.getAccountActivityThrough(options.asOfDate, options.dimensions);
+      lines.push(...AccountHierarchyService.getTrialBalanceLines(
+        AccountHierarchyService.rollUp(accounts, AccountHierarchyService.getNetDebits(activity), options.depth)
+      ));
+    }
+
+    const totalDebits = roundToDecimalPlaces(lines.reduce((sum, line) => sum + line.debitBalance, 0));
+    const totalCredits = roundToDecimalPlaces(lines.reduce((sum, line) => sum + line.creditBalance, 0));
+    return {
+      asOfDate: options.asOfDate,
+      depth: options.depth,
+      groupBy: options.groupBy,
+      accounts: lines,
+      totals: {
+        totalDebits,
+        totalCredits,
+        isBalanced: Math.abs(totalDebits - totalCredits) < 0.01
+      }
+    };
+  }
+
+  private static getNetDebits(activity: AccountActivity[]): Map<number, number> {
+    return new Map(activity.map(row => [row.accountId, row.debitTotal - row.creditTotal]));
+  }
+
+  private static rollUp(accounts: Account[], netDebits: Map<number, number>, depth?: number): AccountRollUp[] {
+    const positions = AccountHierarchyService.getPositions(accounts);
+    const rolledUp = new Map<number, number>();
+    const childCounts = new Map<number, number>();
+
+    for (const account of accounts) {
+      const netDebit = netDebits.get(account.id) || 0;
+      const parentId = positions.get(account.id)?.parentId;
+      if (parentId) childCounts.set(parentId, (childCounts.get(parentId) || 0) + 1);
+
+      let position = positions.get(account.id);
+      while (position) {
+        rolledUp.set(position.accountId, (rolledUp.get(position.accountId) || 0) + netDebit);
+        position = position.parentId ? positions.get(position.parentId) : undefined;
+      }
+    }
+
+    const present = (type: AccountType, netDebit: number) =>
+      roundToDecimalPlaces(type === 'ASSET' || type === 'EXPENSE' ? netDebit : -netDebit);
+
+    return accounts
+      .map(account => ({ account, position: positions.get(account.id) as AccountPosition }))
+      .filter(({ position }) => depth === undefined || position.level < depth)
+      .sort((a, b) => a.position.path.localeCompare(b.position.path))
+      .map(({ account, position }) => ({
+        accountId: account.id,
+        code: account.code,
+        name: account.name,
+        type: account.type,
+        parentId: position.parentId,
+        level: position.level,
+        path: position.path,
+        balance: present(account.type, netDebits.get(account.id) || 0),
+        rolledUpBalance: present(account.type, rolledUp.get(account.id) || 0),
+        childCount: childCounts.get(account.id) || 0,
+        isCollapsed: depth !== undefined && position.level === depth - 1 && childCounts.has(account.id)
+      }));
+  }
+
+  // Collapsed accounts carry their subtree; every other account only its own postings
+  private static getTrialBalanceLines(rollUps: AccountRollUp[]): HierarchyTrialBalanceLine[] {
+    const lines: HierarchyTrialBalanceLine[] = [];
+    for (const rollUp of rollUps) {
+      const amount = rollUp.isCollapsed ? rollUp.rolledUpBalance : rollUp.balance;
+      const netDebit = rollUp.type === 'ASSET' || rollUp.type === 'EXPENSE' ? amount : -amount;
+      if (netDebit === 0) continue;
+
+      lines.push({
+        accountId: rollUp.accountId,
+        accountCode: rollUp.code,
+        accountName: rollUp.name,
+        accountType: rollUp.type,
+        level: rollUp.level,
+        isCollapsed: rollUp.isCollapsed,
+        debitBalance: netDebit > 0 ? netDebit : 0,
+        creditBalance: netDebit < 0 ? -netDebit : 0
+      });
+    }
+    return lines;
+  }
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  AccountingValidationError,
+  AccountLifecycleService,
+  PERIOD_OVERRIDE_PERMISSION,
+  PeriodClosureError,
+  type DatabaseAdapter,
+  type DatabaseJournalEntryManager
+} from './index';
+import type { Account } from '../types/index.js';
+import { createDraft, createJournalManager, createTestAccount, createTestAdapter, getBalance, postEntry, TEST_CONTEXT } from '../../tests/helpers/ledger';
+import { createTestUser } from '../../tests/helpers/auth';
+
+describe('AccountLifecycleService merge', () => {
+  let adapter: DatabaseAdapter;
+  let manager: DatabaseJournalEntryManager;
+  let service: AccountLifecycleService;
+  let cash: Account;
+  let travel: Account;
+  let transport: Account;
+
+  beforeEach(async () => {
+    // The audit log entry references the user
+    await createTestUser({ id: TEST_CONTEXT.userId, role: 'ADMIN', entityId: 'entity-1' });
+    adapter = createTestAdapter();
+    cash = await createTestAccount(adapter, '1000', 'ASSET');
+    travel = await createTestAccount(adapter, '6200', 'EXPENSE');
+    transport = await createTestAccount(adapter, '6210', 'EXPENSE');
+    manager = await createJournalManager(adapter);
+    service = new AccountLifecycleService(adapter);
+
+    await postEntry(manager, [{ accountId: travel.id, debit: 300 }, { accountId: cash.id, credit: 300 }], { date: '2026-01-20' });
+    await postEntry(manager, [{ accountId: transport.id, debit: 100 }, { accountId: cash.id, credit: 100 }], { date: '2026-02-10' });
+  });
+
+  it('should move the posted lines together with the balance they add up to', async () => {
+    const posted = await postEntry(manager, [{ accountId: transport.id, debit: 80 }, { accountId: cash.id, credit: 80 }], { date: '2026-03-01' });
+    await manager.reverseTransaction(Number.parseInt(posted.id), TEST_CONTEXT, new Date('2026-03-02T00:00:00Z'));
+    // Drafts move with the account but are not part of its balance
+    await createDraft(manager, [{ accountId: transport.id, debit: 50 }, { accountId: cash.id, credit: 50 }]);
+
+    const result = await service.merge(transport.id, travel.id, TEST_CONTEXT);
+
+    expect(result.journalLinesMoved).toBe(4);
+    expect(result.source).toMatchObject({ isActive: false, currentBalance: 0 });
+    expect(result.target.currentBalance).toBe(400);
+    expect(await getBalance(adapter, cash.id)).toBe(-400);
+    expect(await adapter.getJournalEntriesByAccount(transport.id)).toHaveLength(0);
+  });
+
+  it('should point budget mappings and recurring templates at the target', async () => {
+    await adapter.createBudgetAccountMapping({ allocationCode: 'TRAVEL', accountId: transport.id, includeSubaccounts: true });
+    const template = await adapter.createRecurringTemplate({
+      name: 'Commuter passes',
+      description: 'Monthly commuter passes',
+      currency: 'IDR',
+      entries: [{ accountId: transport.id, debitAmount: 40 }, { accountId: cash.id, creditAmount: 40 }],
+      frequency: 'MONTHLY',
+      interval: 1,
+      startDate: '2026-01-01',
+      autoPost: false,
+      isActive: true
+    }, '2026-04-01');
+
+    const result = await service.merge(transport.id, travel.id, TEST_CONTEXT);
+
+    expect([result.budgetMappingsMoved, result.recurringTemplatesUpdated]).toEqual([1, 1]);
+    expect((await adapter.getBudgetAccountMappings()).map(mapping => mapping.accountId)).toEqual([travel.id]);
+    expect((await adapter.getRecurringTemplate(template.id))?.entries.map(entry => entry.accountId)).toEqual([travel.id, cash.id]);
+  });
+
+  it('should refuse to move lines out of a closed period without the override', async () => {
+    const [february] = await adapter.createFiscalPeriods([
+      { name: 'February 2026', fiscalYear: 2026, periodNumber: 2, startDate: '2026-02-01', endDate: '2026-02-28' }
+    ]);
+    await adapter.updateFiscalPeriodStatus(february.id, 'SOFT_CLOSED', 'user-2');
+
+    await expect(service.merge(transport.id, travel.id, TEST_CONTEXT)).rejects.toBeInstanceOf(PeriodClosureError);
+    expect(await getBalance(adapter, transport.id)).toBe(100);
+
+    const result = await service.merge(transport.id, travel.id, { ...TEST_CONTEXT, permissions: [PERIOD_OVERRIDE_PERMISSION] });
+    expect(result.target.currentBalance).toBe(400);
+  });
+
+  it('should refuse to merge away an account with sub-accounts or bank records', async () => {
+    await createTestAccount(adapter, '6211', 'EXPENSE', { parentId: transport.id, level: 1, path: '6210/6211' });
+    await adapter.createImportProfile({
+      name: 'Petty cash export',
+      bankAccountId: cash.id,
+      mapping: { delimiter: ',', hasHeader: true, dateColumn: 'Date', dateFormat: 'YYYY-MM-DD', descriptionColumn: 'Memo', amountColumn: 'Amount', decimalSeparator: '.' }
+    });
+    const pettyCash = await createTestAccount(adapter, '1010', 'ASSET');
+
+    await expect(service.merge(transport.id, travel.id, TEST_CONTEXT)).rejects.toMatchObject({ code: 'ACCOUNT_HAS_CHILDREN' });
+    await expect(service.merge(cash.id, pettyCash.id, TEST_CONTEXT)).rejects.toMatchObject({ code: 'ACCOUNT_IN_USE' });
+    await expect(service.merge(cash.id, pettyCash.id, TEST_CONTEXT)).rejects.toBeInstanceOf(AccountingValidationError);
+    expect(await getBalance(adapter, cash.id)).toBe(-400);
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Account Lifecycle
+ * Retiring accounts from the chart of accounts.
+ */
+
+import type { Account, AccountMergeResult, AccountUsage, PostingContext } from '../types/index.js';
+import type { DatabaseAdapter } from './database-adapter';
+import { AccountingValidationError } from './errors';
+import { FiscalPeriodManager } from './fiscal-periods';
+
+/**
+ * Deactivation, deletion and merging of chart of accounts entries. Only unused accounts can be
+ * deleted; an account with history is deactivated or merged into another account instead.
+ */
+export class AccountLifecycleService {
+  private dbAdapter: DatabaseAdapter;
+
+  constructor(dbAdapter: DatabaseAdapter) {
+    this.dbAdapter = dbAdapter;
+  }
+
+  async getUsage(accountId: number): Promise<AccountUsage> {
+    await this.getAccountOrThrow(accountId);
+    return await this.dbAdapter.getAccountUsage(accountId);
+  }
+
+  /**
+   * Delete an account that was never used: no journal lines, no sub-accounts, no bank, revaluation,
+   * closing, intercompany or receivables records and not a system account. Returns the deleted account.
+   */
+  async delete(accountId: number): Promise<Account> {
+    const account = await this.getAccountOrThrow(accountId);
+    if (account.isSystem) {
+      throw new AccountingValidationError(`Account ${account.code} is a system account and cannot be deleted`, 'SYSTEM_ACCOUNT');
+    }
+
+    const usage = await this.dbAdapter.getAccountUsage(accountId);
+    if (usage.journalLineCount > 0) {
+      throw new AccountingValidationError(
+        `Account ${account.code} has ${usage.journalLineCount} journal lines; deactivate it or merge it into another account instead`,
+        'ACCOUNT_IN_USE'
+      );
+    }
+    if (usage.childCount > 0) {
+      throw new AccountingValidationError(
+        `Account ${account.code} has ${usage.childCount} sub-accounts; move or delete them first`,
+        'ACCOUNT_HAS_CHILDREN'
+      );
+    }
+    if (usage.referenceCount > 0) {
+      throw new AccountingValidationError(
+        `Account ${account.code} is used by bank, revaluation, closing, intercompany or receivables records; deactivate it instead`,
+        'ACCOUNT_IN_USE'
+      );
+    }
+
+    await this.dbAdapter.deleteAccount(accountId);
+    return account;
+  }
+
+  /**
+   * Stop new postings to the account. Its history and balance stay in every report.
+   */
+  async deactivate(accountId: number, updatedBy?: string): Promise<Account> {
+    const account = await this.getAccountOrThrow(accountId);
+    if (account.isSystem) {
+      throw new AccountingValidationError(`Account ${account.code} is a system account and cannot be deactivated`, 'SYSTEM_ACCOUNT');
+    }
+    if (!account.isActive) return account;
+
+    return await this.dbAdapter.updateAccount(accountId, { isActive: false, updatedBy }) as Account;
+  }
+
+  async activate(accountId: number, updatedBy?: string): Promise<Account> {
+    const account = await this.getAccountOrThrow(accountId);
+    if (account.isActive) return account;
+
+    return await this.dbAdapter.updateAccount(accountId, { isActive: true, updatedBy }) as Account;
+  }
+
+  /**
+   * Merge the source account into the target: every journal line moves to the target together with
+   * the balance those lines add up to, budget mappings and recurring template lines follow them and
+   * the source is left inactive. Both must be of the same type, and the source must have no
+   * sub-accounts and no bank records. Moving lines rewrites the reports of the periods they fall in,
+   * so a closed period needs the same override as posting to it.
+   */
+  async merge(
+    sourceAccountId: number,
+    targetAccountId: number,
+    context: PostingContext = { userId: 'system' }
+  ): Promise<AccountMergeResult> {
+    if (sourceAccountId === targetAccountId) {
+      throw new AccountingValidationError('An account cannot be merged into itself', 'INVALID_ACCOUNT_MERGE');
+    }
+
+    const source = await this.getAccountOrThrow(sourceAccountId);
+    const target = await this.getAccountOrThrow(targetAccountId);
+    if (source.isSystem) {
+      throw new AccountingValidationError(`Account ${source.code} is a system account and cannot be merged away`, 'SYSTEM_ACCOUNT');
+    }
+    if (source.type !== target.type) {
+      throw new AccountingValidationError(
+        `Cannot merge ${source.type} account ${source.code} into ${target.type} account ${target.code}`,
+        'INVALID_ACCOUNT_MERGE'
+      );
+    }
+    if (!target.isActive || !target.allowTransactions) {
+      throw new AccountingValidationError(
+        `Account ${target.code} must be active and allow transactions to take over ${source.code}`,
+        'INVALID_ACCOUNT_MERGE'
+      );
+    }
+
+    const usage = await this.dbAdapter.getAccountUsage(sourceAccountId);
+    if (usage.childCount > 0) {
+      throw new AccountingValidationError(
+        `Account ${source.code} has ${usage.childCount} sub-accounts; move or merge them first`,
+        'ACCOUNT_HAS_CHILDREN'
+      );
+    }
+    if (usage.bankRecordCount > 0) {
+      throw new AccountingValidationError(
+        `Account ${source.code} has bank statements or reconciliations; deactivate it instead`,
+        'ACCOUNT_IN_USE'
+      );
+    }
+
+    const ledgerDates = await this.dbAdapter.getAccountLedgerDates(sourceAccountId);
+    const periodManager = new FiscalPeriodManager(this.dbAdapter);
+    for (const period of await this.dbAdapter.getFiscalPeriods()) {
+      const date = ledgerDates.find(candidate => candidate >= period.startDate && candidate <= period.endDate);
+      if (date && period.status !== 'OPEN') {
+        await periodManager.assertPostingAllowed(new Date(`${date}T00:00:00Z`), context);
+      }
+    }
+
+    const templates = (await this.dbAdapter.getRecurringTemplates())
+      .filter(template => template.entries.some(entry => entry.accountId === sourceAccountId))
+      .map(template => ({
+        id: template.id,
+        entries: template.entries.map(entry => entry.accountId === sourceAccountId
+          ? { ...entry, accountId: targetAccountId, ...(entry.accountCode ? { accountCode: target.code } : {}) }
+          : entry)
+      }));
+
+    const merged = await this.dbAdapter.mergeAccounts(sourceAccountId, targetAccountId, templates, {
+      userId: context.userId,
+      description: `Merged account ${source.code} (${source.name}) into ${target.code} (${target.name})`,
+      metadata: {
+        sourceAccountId,
+        sourceCode: source.code,
+        targetAccountId,
+        targetCode: target.code,
+        journalLineCount: usage.journalLineCount,
+        recurringTemplateIds: templates.map(template => template.id),
+        sourceBalance: source.currentBalance,
+        targetBalanceBefore: target.currentBalance
+      }
+    });
+    if (!merged) {
+      throw new AccountingValidationError(
+        `Account ${source.code} gained sub-accounts or bank records while it was being merged`,
+        'ACCOUNT_IN_USE'
+      );
+    }
+
+    return {
+      source: await this.getAccountOrThrow(sourceAccountId),
+      target: await this.getAccountOrThrow(targetAccountId),
+      journalLinesMoved: merged.journalLinesMoved,
+      budgetMappingsMoved: merged.budgetMappingsMoved,
+      recurringTemplatesUpdated: templates.length,
+      auditLogId: merged.auditLogId
+    };
+  }
+
+  private async getAccountOrThrow(accountId: number): Promise<Account> {
+    const account = await this.dbAdapter.getAccount(accountId);
+    if (!account) {
+      throw new AccountingValidationError(`No account found with ID ${accountId}`, 'ACCOUNT_NOT_FOUND');
+    }
+    return account;
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Approval Policy
+ * Which approval steps a transaction needs and who may sign off the next one.
+ */
+
+import type { ApprovalActor, ApprovalRule, Transaction, TransactionApproval } from '../types/index.js';
+
+/**
+ * Approval policy - decides which approval steps a transaction needs
+ * and which step is next based on the current submission round
+ */
+export class ApprovalPolicy {
+  /**
+   * Active steps whose threshold is reached by the amount, in sign-off order
+   */
+  static getRequiredSteps(rules: ApprovalRule[], amount: number): ApprovalRule[] {
+    return rules
+      .filter(rule => rule.isActive && amount >= rule.minAmount)
+      .sort((a, b) => a.stepNumber - b.stepNumber);
+  }
+
+  /**
+   * History entries since the most recent submission
+   */
+  static getCurrentRound(history: TransactionApproval[]): TransactionApproval[] {
+    const ordered = [...history].sort((a, b) => a.id - b.id);
+    const lastSubmission = ordered.map(entry => entry.action).lastIndexOf('SUBMITTED');
+    return lastSubmission === -1 ? [] : ordered.slice(lastSubmission);
+  }
+
+  /**
+   * First required step that has not been approved in the current round
+   */
+  static getNextStep(rules: ApprovalRule[], amount: number, history: TransactionApproval[]): ApprovalRule | null {
+    const approvedSteps = new Set(
+      ApprovalPolicy.getCurrentRound(history)
+        .filter(entry => entry.action === 'APPROVED')
+        .map(entry => entry.stepNumber)
+    );
+    return ApprovalPolicy.getRequiredSteps(rules, amount)
+      .find(step => !approvedSteps.has(step.stepNumber)) || null;
+  }
+
+  /**
+   * Segregation of duties and role checks for an approver on the given step.
+   * Returns the reason the approver is not allowed, or null when they are.
+   */
+  static getApprovalViolation(
+    step: ApprovalRule,
+    approver: ApprovalActor,
+    transaction: Transaction,
+    history: TransactionApproval[]
+  ): string | null {
+    if (transaction.createdBy === approver.id) {
+      return 'The creator of a transaction cannot approve it';
+    }
+
+    const round = ApprovalPolicy.getCurrentRound(history);
+    if (round.some(entry => entry.action === 'SUBMITTED' && entry.actorId === approver.id)) {
+      return 'The submitter of a transaction cannot approve it';
+    }
+    if (round.some(entry => entry.action === 'APPROVED' && entry.actorId === approver.id)) {
+      return 'An approver can sign off only one step of a transaction';
+    }
+
+    if (!step.approverRoles.includes(approver.role)) {
+      return `Step ${step.stepNumber} (${step.name}) requires one of the roles: ${step.approverRoles.join(', ')}`;
+    }
+
+    return null;
+  }
+}
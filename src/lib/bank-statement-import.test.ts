@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { BankStatementImportService, type DatabaseAdapter } from './index';
+import type { Account, ParsedStatementLine } from '../types/index.js';
+import { createJournalManager, createTestAccount, createTestAdapter, TEST_CONTEXT } from '../../tests/helpers/ledger';
+
+describe('BankStatementImportService', () => {
+  let adapter: DatabaseAdapter;
+  let service: BankStatementImportService;
+  let bank: Account;
+  let suspense: Account;
+
+  const lines: ParsedStatementLine[] = [
+    { transactionDate: '2026-03-10', amount: 1200, description: 'Customer payment', externalId: 'FIT-1' },
+    { transactionDate: '2026-03-11', amount: -300, description: 'Card payment' }
+  ];
+
+  async function importLines(statementLines: ParsedStatementLine[] = lines) {
+    return await service.importLines(bank.id, statementLines, { format: 'CSV', suspenseAccountId: suspense.id }, TEST_CONTEXT);
+  }
+
+  beforeEach(async () => {
+    adapter = createTestAdapter();
+    bank = await createTestAccount(adapter, '1010', 'ASSET', { currency: 'USD' });
+    suspense = await createTestAccount(adapter, '1999', 'ASSET');
+    service = new BankStatementImportService(adapter, await createJournalManager(adapter));
+    await adapter.saveExchangeRate({ fromCurrency: 'USD', toCurrency: 'IDR', rate: 15000, effectiveDate: '2026-03-01' });
+  });
+
+  it('should book the drafts in the bank account currency', async () => {
+    const { results } = await importLines();
+
+    expect(results.map(result => result.status)).toEqual(['IMPORTED', 'IMPORTED']);
+    const entries = await adapter.getJournalEntriesByTransaction(results[0].transactionId!);
+    const bankLine = entries.find(entry => entry.accountId === bank.id);
+    expect(bankLine).toMatchObject({ currency: 'USD', debitAmount: 1200, baseDebitAmount: 18000000 });
+  });
+
+  it('should skip lines an earlier import brought in', async () => {
+    await importLines();
+    const { import: batch, results } = await importLines();
+
+    expect(results.map(result => result.status)).toEqual(['DUPLICATE', 'DUPLICATE']);
+    expect(batch).toMatchObject({ importedLines: 0, duplicateLines: 2 });
+    expect(await adapter.getTransactionsByStatus('DRAFT')).toHaveLength(2);
+  });
+
+  it('should import each line once when the same statement is imported twice at once', async () => {
+    const [first, second] = await Promise.all([importLines(), importLines()]);
+
+    const imported = [...first.results, ...second.results].filter(result => result.status === 'IMPORTED');
+    expect(imported).toHaveLength(2);
+    expect(await adapter.getTransactionsByStatus('DRAFT')).toHaveLength(2);
+  });
+
+  it('should let a later import retry a line whose draft failed', async () => {
+    const early = { transactionDate: '2026-02-20', amount: 50, description: 'Interest', externalId: 'FIT-0' };
+    // No USD rate is in effect before March, so the draft cannot be created
+    const failed = await importLines([early]);
+    expect(failed.results[0].status).toBe('FAILED');
+
+    await adapter.saveExchangeRate({ fromCurrency: 'USD', toCurrency: 'IDR', rate: 14900, effectiveDate: '2026-02-01' });
+    const retried = await importLines([early]);
+    expect(retried.results[0].status).toBe('IMPORTED');
+  });
+});
@@ -0,0 +1,222 @@
+/**
+ * Bank Statement Import
+ * Turns parsed statement lines into draft transactions against the bank account, skipping lines
+ * an earlier import already brought in and booking uncategorized lines to a suspense account.
+ */
+
+import type {
+  Account,
+  BankStatementImport,
+  ImportLineCategorization,
+  ImportLineResult,
+  ParsedStatementLine,
+  PostingContext,
+  StatementFormat
+} from '../types/index.js';
+import { FINANCIAL_CONSTANTS } from './constants';
+import type { DatabaseAdapter } from './database-adapter';
+import { AccountingValidationError } from './errors';
+import type { DatabaseJournalEntryManager } from './journal-entries';
+import { TransactionBuilder } from './transactions';
+import { roundToDecimalPlaces } from './utils';
+
+export class BankStatementImportService {
+  static readonly MAX_LINES = 1000;
+
+  private dbAdapter: DatabaseAdapter;
+  private journalManager: DatabaseJournalEntryManager;
+
+  constructor(dbAdapter: DatabaseAdapter, journalManager: DatabaseJournalEntryManager) {
+    this.dbAdapter = dbAdapter;
+    this.journalManager = journalManager;
+  }
+
+  /**
+   * FITID:<id> when the bank supplies a transaction id, otherwise a hash of the line's content.
+   * occurrence tells identical lines within one file apart (two equal card payments on a day).
+   */
+  static async computeDedupeKey(bankAccountId: number, line: ParsedStatementLine, occurrence: number): Promise<string> {
+    if (line.externalId) {
+      return `FITID:${line.externalId}`;
+    }
+
+    const content = [
+      bankAccountId,
+      line.transactionDate,
+      roundToDecimalPlaces(line.amount).toFixed(FINANCIAL_CONSTANTS.DECIMAL_PLACES),
+      line.description.trim().toLowerCase().replace(/\s+/g, ' '),
+      (line.reference || '').trim().toLowerCase(),
+      occurrence
+    ].join('|');
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+
+    return `HASH:${Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')}`;
+  }
+
+  /**
+   * Create a DRAFT transaction (source IMPORT) for every new statement line, in the bank account's
+   * currency. The contra side is the categorized account when the suggestion needs no approval,
+   * otherwise the suspense account. Each line's dedupe key is claimed before its draft is created,
+   * so a line is never booked twice; a line whose draft fails is released for the next import.
+   */
+  async importLines(
+    bankAccountId: number,
+    lines: ParsedStatementLine[],
+    options: {
+      format: StatementFormat;
+      suspenseAccountId: number;
+      fileName?: string;
+      profileId?: number;
+      categorize?: (line: ParsedStatementLine) => Promise<ImportLineCategorization | null>;
+    },
+    context: PostingContext
+  ): Promise<{ import: BankStatementImport; results: ImportLineResult[] }> {
+    if (lines.length > BankStatementImportService.MAX_LINES) {
+      throw new AccountingValidationError(
+        `A statement import is limited to ${BankStatementImportService.MAX_LINES} lines`,
+        'IMPORT_TOO_LARGE'
+      );
+    }
+
+    const bankAccount = await this.getPostableAccountOrThrow(bankAccountId, 'Bank');
+    if (bankAccount.type !== 'ASSET') {
+      throw new AccountingValidationError(`Account ${bankAccount.code} is not a bank (asset) account`, 'INVALID_BANK_ACCOUNT');
+    }
+    const suspenseAccount = await this.getPostableAccountOrThrow(options.suspenseAccountId, 'Suspense');
+    if (suspenseAccount.id === bankAccount.id) {
+      throw new AccountingValidationError('Suspense account must differ from the bank account', 'INVALID_ACCOUNT');
+    }
+    const currency = bankAccount.currency || FINANCIAL_CONSTANTS.DEFAULT_CURRENCY;
+
+    const occurrences = new Map<string, number>();
+    const dedupeKeys: string[] = [];
+    for (const line of lines) {
+      const identity = line.externalId
+        ? `FITID:${line.externalId}`
+        : `${line.transactionDate}|${line.amount}|${line.description}|${line.reference || ''}`;
+      const occurrence = (occurrences.get(identity) || 0) + 1;
+      occurrences.set(identity, occurrence);
+      dedupeKeys.push(await BankStatementImportService.computeDedupeKey(bankAccountId, line, occurrence));
+    }
+
+    const existing = await this.dbAdapter.getExistingDedupeKeys(bankAccountId, Array.from(new Set(dedupeKeys)));
+    const batch = await this.dbAdapter.createBankStatementImport({
+      bankAccountId,
+      format: options.format,
+      fileName: options.fileName,
+      profileId: options.profileId,
+      totalLines: lines.length
+    }, context.userId);
+
+    const accountCache = new Map<number, Account | null>([[bankAccount.id, bankAccount], [suspenseAccount.id, suspenseAccount]]);
+    const seen = new Set<string>();
+    const results: ImportLineResult[] = [];
+
+    for (const [index, line] of lines.entries()) {
+      const dedupeKey = dedupeKeys[index];
+      if (existing.has(dedupeKey) || seen.has(dedupeKey)) {
+        results.push({ line, status: 'DUPLICATE' });
+        continue;
+      }
+      seen.add(dedupeKey);
+
+      const amount = roundToDecimalPlaces(line.amount);
+      if (amount === 0) {
+        results.push({ line, status: 'FAILED', error: 'Statement line amount is zero' });
+        continue;
+      }
+
+      const claimed = await this.dbAdapter.claimImportedStatementLine(bankAccountId, {
+        transactionDate: line.transactionDate,
+        amount,
+        description: line.description,
+        reference: line.reference,
+        externalId: line.externalId,
+        dedupeKey,
+        importId: batch.id
+      }, context.userId);
+      if (!claimed) {
+        results.push({ line, status: 'DUPLICATE' });
+        continue;
+      }
+
+      let transactionId: number | undefined;
+      try {
+        let categorization: ImportLineCategorization | null = null;
+        if (options.categorize) {
+          try {
+            categorization = await options.categorize(line);
+          } catch (error) {
+            console.warn('Failed to categorize imported statement line:', error instanceof Error ? error.message : String(error));
+          }
+        }
+
+        let contraAccountId = suspenseAccount.id;
+        if (categorization?.accountId && !categorization.requiresApproval && categorization.accountId !== bankAccount.id) {
+          if (!accountCache.has(categorization.accountId)) {
+            accountCache.set(categorization.accountId, await this.dbAdapter.getAccount(categorization.accountId));
+          }
+          const suggested = accountCache.get(categorization.accountId);
+          if (suggested && suggested.isActive && suggested.allowTransactions) {
+            contraAccountId = suggested.id;
+          }
+        }
+
+        const description = line.description || `Bank statement line ${line.transactionDate}`;
+        const builder = new TransactionBuilder()
+          .setDescription(description)
+          .setDate(new Date(`${line.transactionDate}T00:00:00Z`))
+          .setCurrency(currency);
+        const reference = line.reference || line.externalId;
+        if (reference) {
+          builder.setReference(reference);
+        }
+
+        if (amount > 0) {
+          builder.debit(bankAccount.id, amount, description).credit(contraAccountId, amount, description);
+        } else {
+          builder.debit(contraAccountId, -amount, description).credit(bankAccount.id, -amount, description);
+        }
+
+        const { transaction } = await this.journalManager.createAndPersistTransaction(
+          builder.build(),
+          context,
+          { type: amount > 0 ? 'RECEIPT' : 'PAYMENT', source: 'IMPORT' }
+        );
+        transactionId = Number.parseInt(transaction.id);
+        await this.dbAdapter.setStatementLineTransaction(claimed.id, transactionId);
+
+        results.push({ line, status: 'IMPORTED', transactionId, contraAccountId, categorization });
+      } catch (error) {
+        // Once its draft exists the line stays claimed, so the next import does not book it again
+        if (transactionId === undefined) {
+          await this.dbAdapter.deleteBankStatementLine(claimed.id);
+        }
+        results.push({
+          line,
+          status: 'FAILED',
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    const summary = await this.dbAdapter.updateBankStatementImportCounts(batch.id, {
+      importedLines: results.filter(result => result.status === 'IMPORTED').length,
+      duplicateLines: results.filter(result => result.status === 'DUPLICATE').length,
+      failedLines: results.filter(result => result.status === 'FAILED').length
+    });
+
+    return { import: summary || batch, results };
+  }
+
+  private async getPostableAccountOrThrow(accountId: number, label: string): Promise<Account> {
+    const account = await this.dbAdapter.getAccount(accountId);
+    if (!account) {
+      throw new AccountingValidationError(`${label} account ${accountId} not found`, 'ACCOUNT_NOT_FOUND');
+    }
+    if (!account.isActive || !account.allowTransactions) {
+      throw new AccountingValidationError(`${label} account ${account.code} does not accept postings`, 'INVALID_ACCOUNT');
+    }
+    return account;
+  }
+}
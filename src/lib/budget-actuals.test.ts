@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:test';
+import { BudgetActualsService, type DatabaseAdapter, type DatabaseJournalEntryManager } from './index';
+import type { Account } from '../types/index.js';
+import { createDraft, createJournalManager, createTestAccount, createTestAdapter, postEntry } from '../../tests/helpers/ledger';
+import { createTestBudget, createTestCategory } from '../../tests/helpers/budgets';
+
+describe('BudgetActualsService', () => {
+  let adapter: DatabaseAdapter;
+  let manager: DatabaseJournalEntryManager;
+  let service: BudgetActualsService;
+  let cash: Account;
+  let travel: Account;
+  let flights: Account;
+  let sales: Account;
+  let travelCategory: number;
+
+  beforeEach(async () => {
+    adapter = createTestAdapter();
+    cash = await createTestAccount(adapter, '1000', 'ASSET');
+    travel = await createTestAccount(adapter, '6200', 'EXPENSE');
+    flights = await createTestAccount(adapter, '6210', 'EXPENSE', { parentId: travel.id, level: 1, path: '6200/6210' });
+    sales = await createTestAccount(adapter, '4000', 'REVENUE');
+    manager = await createJournalManager(adapter);
+    service = new BudgetActualsService(adapter);
+    travelCategory = await createTestCategory('Travel');
+    await adapter.createBudgetAccountMapping({ categoryId: travelCategory, accountId: travel.id, includeSubaccounts: true });
+  });
+
+  it('should compute actuals and variance from posted lines within the budget period', async () => {
+    const budgetId = await createTestBudget(adapter, { categoryId: travelCategory, plannedAmount: 1000 });
+    await postEntry(manager, [{ accountId: travel.id, debit: 300 }, { accountId: cash.id, credit: 300 }], { date: '2026-03-05' });
+    // Sub-accounts count through the mapping; drafts and lines outside the period do not
+    await postEntry(manager, [{ accountId: flights.id, debit: 500 }, { accountId: cash.id, credit: 500 }], { date: '2026-03-20' });
+    await postEntry(manager, [{ accountId: travel.id, debit: 200 }, { accountId: cash.id, credit: 200 }], { date: '2026-04-02' });
+    await createDraft(manager, [{ accountId: travel.id, debit: 50 }, { accountId: cash.id, credit: 50 }], { date: '2026-03-25' });
+
+    const [actuals] = await service.refresh({ budgetId });
+
+    expect(actuals).toMatchObject({ budgetAmount: 1000, actualAmount: 800, variance: -200, variancePercent: -20, utilizationPercent: 80 });
+    expect(actuals.accountIds.sort()).toEqual([travel.id, flights.id].sort());
+    const stored = await env.FINANCE_MANAGER_DB.prepare('SELECT actual_amount, variance FROM budgets WHERE id = ?').bind(budgetId).first();
+    expect(stored).toEqual({ actual_amount: 800, variance: -200 });
+  });
+
+  it('should measure against the revised amount and count revenue budgets by income', async () => {
+    const incomeCategory = await createTestCategory('Sales', 'INCOME');
+    await adapter.createBudgetAccountMapping({ categoryId: incomeCategory, accountId: sales.id, includeSubaccounts: false });
+    const budgetId = await createTestBudget(adapter, {
+      categoryId: incomeCategory,
+      budgetType: 'REVENUE',
+      plannedAmount: 1000,
+      revisedAmount: 2000
+    });
+    await postEntry(manager, [{ accountId: cash.id, debit: 2500 }, { accountId: sales.id, credit: 2500 }], { date: '2026-03-10' });
+
+    const [actuals] = await service.refresh({ budgetId });
+
+    expect(actuals).toMatchObject({ budgetAmount: 2000, actualAmount: 2500, variance: 500, variancePercent: 25, utilizationPercent: 125 });
+  });
+
+  it('should count foreign-currency lines at their base amounts', async () => {
+    const budgetId = await createTestBudget(adapter, { categoryId: travelCategory, plannedAmount: 2_000_000 });
+    await postEntry(
+      manager,
+      [{ accountId: flights.id, debit: 100 }, { accountId: cash.id, credit: 100 }],
+      { date: '2026-03-10', currency: 'USD', exchangeRate: 15_000 }
+    );
+
+    const [actuals] = await service.refresh({ budgetId });
+    const lines = await service.getContributingLines(budgetId);
+
+    expect(actuals.actualAmount).toBe(1_500_000);
+    expect(lines.map(line => [line.accountCode, line.amount])).toEqual([['6210', 1_500_000]]);
+  });
+
+  it('should split actuals across allocations by allocation code', async () => {
+    await adapter.createBudgetAccountMapping({ allocationCode: 'FLIGHTS', accountId: flights.id, includeSubaccounts: false });
+    const lodging = await createTestAccount(adapter, '6220', 'EXPENSE');
+    await adapter.createBudgetAccountMapping({ allocationCode: 'LODGING', accountId: lodging.id, includeSubaccounts: false });
+    // Without a category the budget covers the accounts of its allocations
+    const budgetId = await createTestBudget(adapter, {
+      plannedAmount: 1000,
+      allocations: [{ allocationCode: 'FLIGHTS', allocatedAmount: 600 }, { allocationCode: 'LODGING', allocatedAmount: 400 }]
+    });
+    await postEntry(manager, [{ accountId: flights.id, debit: 450 }, { accountId: cash.id, credit: 450 }], { date: '2026-03-05' });
+    await postEntry(manager, [{ accountId: lodging.id, debit: 120 }, { accountId: cash.id, credit: 120 }], { date: '2026-03-06' });
+    await postEntry(manager, [{ accountId: travel.id, debit: 70 }, { accountId: cash.id, credit: 70 }], { date: '2026-03-07' });
+
+    const [actuals] = await service.refresh({ budgetId });
+
+    expect(actuals.actualAmount).toBe(570);
+    expect(actuals.allocations.map(allocation => [allocation.allocationCode, allocation.actualAmount])).toEqual([
+      ['FLIGHTS', 450],
+      ['LODGING', 120]
+    ]);
+    const lodgingAllocation = actuals.allocations[1].allocationId;
+    expect((await service.getContributingLines(budgetId, lodgingAllocation)).map(line => line.amount)).toEqual([120]);
+    await expect(service.getContributingLines(budgetId, lodgingAllocation + 100)).rejects.toMatchObject({ code: 'BUDGET_ALLOCATION_NOT_FOUND' });
+  });
+
+  it('should refresh the budgets of a period when an entry in it is posted', async () => {
+    const budgetId = await createTestBudget(adapter, { categoryId: travelCategory, plannedAmount: 1000 });
+
+    await postEntry(manager, [{ accountId: travel.id, debit: 250 }, { accountId: cash.id, credit: 250 }], { date: '2026-03-12' });
+
+    const stored = await env.FINANCE_MANAGER_DB.prepare('SELECT actual_amount FROM budgets WHERE id = ?').bind(budgetId).first();
+    expect(stored).toEqual({ actual_amount: 250 });
+  });
+
+  it('should accept a mapping from exactly one of a category and an allocation code, once', async () => {
+    await expect(service.createMapping({ accountId: sales.id, includeSubaccounts: false })).rejects.toMatchObject({ code: 'INVALID_BUDGET_MAPPING' });
+    await expect(service.createMapping({ categoryId: travelCategory, allocationCode: 'X', accountId: sales.id, includeSubaccounts: false }))
+      .rejects.toMatchObject({ code: 'INVALID_BUDGET_MAPPING' });
+    await expect(service.createMapping({ categoryId: travelCategory, accountId: travel.id, includeSubaccounts: true }))
+      .rejects.toMatchObject({ code: 'DUPLICATE_BUDGET_MAPPING' });
+    // Blank codes count as no code
+    await expect(service.createMapping({ allocationCode: '  ', accountId: sales.id, includeSubaccounts: false }))
+      .rejects.toMatchObject({ code: 'INVALID_BUDGET_MAPPING' });
+  });
+});
@@ -0,0 +1,291 @@
+/**
+ * Budget Actuals
+ * Actual amounts and variances of budgets and their allocations, refreshed from the ledger.
+ */
+
+import type {
+  Account,
+  AccountActivity,
+  BudgetAccountMapping,
+  BudgetAccountMappingInput,
+  BudgetActualLine,
+  BudgetActuals,
+  BudgetActualsScope,
+  BudgetAllocationActual,
+  BudgetType
+} from '../types/index.js';
+import type { DatabaseAdapter } from './database-adapter';
+import { AccountingValidationError } from './errors';
+import { countDays, roundToDecimalPlaces } from './utils';
+
+/**
+ * Computes budget actuals from posted journal lines. A budget reaches the ledger through the
+ * accounts mapped to its category; an allocation through the accounts mapped to its allocation
+ * code, or to its category when it has no code. Amounts follow each account's normal balance,
+ * so spending on an expense budget and income on a revenue budget are both positive.
+ */
+export class BudgetActualsService {
+  private dbAdapter: DatabaseAdapter;
+
+  constructor(dbAdapter: DatabaseAdapter) {
+    this.dbAdapter = dbAdapter;
+  }
+
+  /**
+   * Variance is actual minus budget; the percentage is relative to the budget amount
+   */
+  static calculateVariance(budgetAmount: number, actualAmount: number): { variance: number; variancePercent: number } {
+    const variance = roundToDecimalPlaces(actualAmount - budgetAmount);
+    return {
+      variance,
+      variancePercent: budgetAmount !== 0 ? roundToDecimalPlaces((variance / Math.abs(budgetAmount)) * 100) : 0
+    };
+  }
+
+  async createMapping(input: BudgetAccountMappingInput, createdBy?: string): Promise<BudgetAccountMapping> {
+    const allocationCode = input.allocationCode?.trim() || undefined;
+    if ((input.categoryId === undefined) === (allocationCode === undefined)) {
+      throw new AccountingValidationError(
+        'A budget account mapping needs either a category or an allocation code',
+        'INVALID_BUDGET_MAPPING'
+      );
+    }
+
+    const account = await this.dbAdapter.getAccount(input.accountId);
+    if (!account) {
+      throw new AccountingValidationError(`Account ${input.accountId} not found`, 'ACCOUNT_NOT_FOUND');
+    }
+
+    const existing = await this.dbAdapter.getBudgetAccountMappings();
+    if (existing.some(mapping =>
+      mapping.accountId === input.accountId
+      && mapping.categoryId === input.categoryId
+      && mapping.allocationCode === allocationCode
+    )) {
+      throw new AccountingValidationError(
+        `Account ${account.code} is already mapped to ${allocationCode ? `allocation code ${allocationCode}` : `category ${input.categoryId}`}`,
+        'DUPLICATE_BUDGET_MAPPING'
+      );
+    }
+
+    return await this.dbAdapter.createBudgetAccountMapping({ ...input, allocationCode }, createdBy);
+  }
+
+  /**
+   * Recompute and store actual amounts and variances for the matching budgets and their allocations
+   */
+  async refresh(filters: { budgetId?: number; periodId?: number; onDate?: string } = {}): Promise<BudgetActuals[]> {
+    const scopes = await this.dbAdapter.getBudgetActualsScopes(filters);
+    if (scopes.length === 0) return [];
+
+    const mappings = await this.dbAdapter.getBudgetAccountMappings();
+    const accounts = await this.dbAdapter.getAllAccounts();
+    const activityByRange = new Map<string, Map<number, AccountActivity>>();
+    const refreshedAt = new Date().toISOString();
+    const results: BudgetActuals[] = [];
+
+    for (const scope of scopes) {
+      const rangeKey = `${scope.startDate}:${scope.endDate}`;
+      let activity = activityByRange.get(rangeKey);
+      if (!activity) {
+        activity = new Map(
+          (await this.dbAdapter.getAccountActivity(scope.startDate, scope.endDate)).map(row => [row.accountId, row])
+        );
+        activityByRange.set(rangeKey, activity);
+      }
+
+      const resolved = this.resolveScopeAccounts(scope, mappings, accounts);
+      const allocations: BudgetAllocationActual[] = scope.allocations.map(allocation => {
+        const allocationAccounts = resolved.allocations.get(allocation.id) || [];
+        return {
+          allocationId: allocation.id,
+          categoryId: allocation.categoryId,
+          allocationCode: allocation.allocationCode,
+          allocatedAmount: allocation.allocatedAmount,
+          actualAmount: this.sumActivity(allocationAccounts, activity as Map<number, AccountActivity>),
+          accountIds: allocationAccounts.map(account => account.id)
+        };
+      });
+
+      const budgetAmount = scope.revisedAmount ?? scope.plannedAmount;
+      const actualAmount = this.sumActivity(resolved.budget, activity);
+
+      results.push({
+        budgetId: scope.budgetId,
+        name: scope.name,
+        budgetType: scope.budgetType,
+        startDate: scope.startDate,
+        endDate: scope.endDate,
+        budgetAmount,
+        actualAmount,
+        ...BudgetActualsService.calculateVariance(budgetAmount, actualAmount),
+        utilizationPercent: budgetAmount > 0 ? roundToDecimalPlaces((actualAmount / budgetAmount) * 100) : 0,
+        warningThreshold: scope.warningThreshold,
+        criticalThreshold: scope.criticalThreshold,
+        accountIds: resolved.budget.map(account => account.id),
+        allocations,
+        refreshedAt
+      });
+    }
+
+    await this.dbAdapter.saveBudgetActuals(results);
+    return results;
+  }
+
+  /**
+   * Posted journal lines that make up a budget's (or one of its allocations') actual amount
+   */
+  async getContributingLines(budgetId: number, allocationId?: number): Promise<BudgetActualLine[]> {
+    const [scope] = await this.dbAdapter.getBudgetActualsScopes({ budgetId });
+    if (!scope) {
+      throw new AccountingValidationError(`Budget ${budgetId} not found`, 'BUDGET_NOT_FOUND');
+    }
+
+    const resolved = this.resolveScopeAccounts(
+      scope,
+      await this.dbAdapter.getBudgetAccountMappings(),
+      await this.dbAdapter.getAllAccounts()
+    );
+
+    let accounts = resolved.budget;
+    if (allocationId !== undefined) {
+      const allocationAccounts = resolved.allocations.get(allocationId);
+      if (!allocationAccounts) {
+        throw new AccountingValidationError(
+          `Allocation ${allocationId} not found on budget ${budgetId}`,
+          'BUDGET_ALLOCATION_NOT_FOUND'
+        );
+      }
+      accounts = allocationAccounts;
+    }
+
+    const lines: BudgetActualLine[] = [];
+    for (const account of accounts) {
+      const entries = await this.dbAdapter.getJournalEntriesByAccount(account.id, {
+        startDate: scope.startDate,
+        endDate: scope.endDate,
+        statuses: ['POSTED', 'REVERSED']
+      });
+
+      for (const entry of entries) {
+        const netDebit = (entry.baseDebitAmount ?? entry.debitAmount) - (entry.baseCreditAmount ?? entry.creditAmount);
+        lines.push({
+          ...entry,
+          accountCode: account.code,
+          accountName: account.name,
+          amount: roundToDecimalPlaces(account.normalBalance === 'DEBIT' ? netDebit : -netDebit)
+        });
+      }
+    }
+
+    return lines.sort((a, b) =>
+      new Date(a.transactionDate).getTime() - new Date(b.transactionDate).getTime() || a.id - b.id
+    );
+  }
+
+  /**
+   * Budget amounts falling within startDate to endDate, with the accounts each budget covers.
+   * A budget whose period only partly overlaps the range counts in proportion to the days inside it.
+   */
+  async getBudgetedAmounts(startDate: string, endDate: string): Promise<Array<{
+    budgetId: number;
+    name: string;
+    budgetType: BudgetType;
+    amount: number;
+    accountIds: number[];
+  }>> {
+    const scopes = (await this.dbAdapter.getBudgetActualsScopes())
+      .filter(scope => scope.startDate <= endDate && scope.endDate >= startDate);
+    if (scopes.length === 0) return [];
+
+    const mappings = await this.dbAdapter.getBudgetAccountMappings();
+    const accounts = await this.dbAdapter.getAllAccounts();
+
+    return scopes.map(scope => {
+      const overlapStart = scope.startDate > startDate ? scope.startDate : startDate;
+      const overlapEnd = scope.endDate < endDate ? scope.endDate : endDate;
+      const budgetAmount = scope.revisedAmount ?? scope.plannedAmount;
+
+      return {
+        budgetId: scope.budgetId,
+        name: scope.name,
+        budgetType: scope.budgetType,
+        amount: roundToDecimalPlaces(budgetAmount * countDays(overlapStart, overlapEnd) / countDays(scope.startDate, scope.endDate)),
+        accountIds: this.resolveScopeAccounts(scope, mappings, accounts).budget.map(account => account.id)
+      };
+    });
+  }
+
+  /**
+   * Accounts behind a budget and each of its allocations. A budget without a category
+   * covers the accounts of all its allocations.
+   */
+  private resolveScopeAccounts(
+    scope: BudgetActualsScope,
+    mappings: BudgetAccountMapping[],
+    accounts: Account[]
+  ): { budget: Account[]; allocations: Map<number, Account[]> } {
+    const allocations = new Map<number, Account[]>();
+    for (const allocation of scope.allocations) {
+      allocations.set(allocation.id, this.resolveAccounts(
+        mappings.filter(mapping => allocation.allocationCode !== undefined
+          ? mapping.allocationCode === allocation.allocationCode
+          : allocation.categoryId !== undefined && mapping.categoryId === allocation.categoryId),
+        accounts
+      ));
+    }
+
+    if (scope.categoryId !== undefined) {
+      return {
+        budget: this.resolveAccounts(mappings.filter(mapping => mapping.categoryId === scope.categoryId), accounts),
+        allocations
+      };
+    }
+
+    const union = new Map<number, Account>();
+    for (const allocationAccounts of allocations.values()) {
+      for (const account of allocationAccounts) {
+        union.set(account.id, account);
+      }
+    }
+    return { budget: [...union.values()], allocations };
+  }
+
+  /**
+   * Mapped accounts, plus their descendants for mappings that include sub-accounts
+   */
+  private resolveAccounts(mappings: BudgetAccountMapping[], accounts: Account[]): Account[] {
+    const byId = new Map(accounts.map(account => [account.id, account]));
+    const childrenByParent = new Map<number, Account[]>();
+    for (const account of accounts) {
+      if (account.parentId === undefined) continue;
+      childrenByParent.set(account.parentId, [...(childrenByParent.get(account.parentId) || []), account]);
+    }
+
+    const resolved = new Map<number, Account>();
+    for (const mapping of mappings) {
+      const queue = byId.has(mapping.accountId) ? [byId.get(mapping.accountId) as Account] : [];
+      while (queue.length > 0) {
+        const account = queue.shift() as Account;
+        if (resolved.has(account.id)) continue;
+        resolved.set(account.id, account);
+        if (mapping.includeSubaccounts) {
+          queue.push(...(childrenByParent.get(account.id) || []));
+        }
+      }
+    }
+
+    return [...resolved.values()];
+  }
+
+  private sumActivity(accounts: Account[], activity: Map<number, AccountActivity>): number {
+    let total = 0;
+    for (const account of accounts) {
+      const row = activity.get(account.id);
+      if (!row) continue;
+      const netDebit = row.debitTotal - row.creditTotal;
+      total += account.normalBalance === 'DEBIT' ? netDebit : -netDebit;
+    }
+    return roundToDecimalPlaces(total);
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  BudgetActualsService,
+  BudgetAlertService,
+  type DatabaseAdapter,
+  type DatabaseJournalEntryManager
+} from './index';
+import type { Account, BudgetActuals } from '../types/index.js';
+import { createJournalManager, createTestAccount, createTestAdapter, postEntry } from '../../tests/helpers/ledger';
+import { createTestBudget, createTestCategory } from '../../tests/helpers/budgets';
+
+describe('BudgetAlertService', () => {
+  let adapter: DatabaseAdapter;
+  let manager: DatabaseJournalEntryManager;
+  let service: BudgetAlertService;
+  let cash: Account;
+  let travel: Account;
+  let budgetId: number;
+
+  // Posting refreshes the budget's actuals and evaluates its alerts
+  async function spend(amount: number, date = '2026-03-10'): Promise<void> {
+    const [from, to] = amount > 0 ? [travel, cash] : [cash, travel];
+    await postEntry(manager, [{ accountId: from.id, debit: Math.abs(amount) }, { accountId: to.id, credit: Math.abs(amount) }], { date });
+  }
+
+  async function alerts() {
+    return await adapter.getBudgetAlerts({ budgetId });
+  }
+
+  async function evaluate() {
+    return await service.evaluate(await new BudgetActualsService(adapter).refresh({ budgetId }));
+  }
+
+  beforeEach(async () => {
+    adapter = createTestAdapter();
+    cash = await createTestAccount(adapter, '1000', 'ASSET');
+    travel = await createTestAccount(adapter, '6200', 'EXPENSE');
+    manager = await createJournalManager(adapter);
+    service = new BudgetAlertService(adapter);
+    const category = await createTestCategory('Travel');
+    await adapter.createBudgetAccountMapping({ categoryId: category, accountId: travel.id, includeSubaccounts: true });
+    budgetId = await createTestBudget(adapter, { name: 'Travel', categoryId: category, plannedAmount: 1000 });
+  });
+
+  it('should report the crossed thresholds lowest first, and none for revenue budgets', () => {
+    const actuals = { budgetType: 'EXPENSE', budgetAmount: 1000, utilizationPercent: 96, warningThreshold: 80, criticalThreshold: 95 } as BudgetActuals;
+
+    expect(BudgetAlertService.getCrossedLevels(actuals)).toEqual([
+      { level: 'warning', threshold: 80 },
+      { level: 'critical', threshold: 95 }
+    ]);
+    expect(BudgetAlertService.getCrossedLevels({ ...actuals, utilizationPercent: 80 })).toEqual([{ level: 'warning', threshold: 80 }]);
+    expect(BudgetAlertService.getCrossedLevels({ ...actuals, budgetType: 'REVENUE' })).toEqual([]);
+    expect(BudgetAlertService.getCrossedLevels({ ...actuals, budgetAmount: 0 })).toEqual([]);
+    expect(BudgetAlertService.getCrossedLevels({ ...actuals, warningThreshold: 0 })).toEqual([{ level: 'critical', threshold: 95 }]);
+  });
+
+  it('should raise each crossing once while the budget stays over the threshold', async () => {
+    await spend(850);
+
+    expect(await alerts()).toMatchObject([
+      { budgetId, level: 'warning', threshold: 80, utilizationPercent: 85, budgetName: 'Travel', status: 'pending' }
+    ]);
+    expect(await evaluate()).toEqual([]);
+
+    await spend(50);
+    await spend(100);
+    expect((await alerts()).map(alert => alert.level)).toEqual(['critical', 'warning']);
+  });
+
+  it('should re-arm a threshold once utilization drops back below it', async () => {
+    await spend(900);
+    await spend(-300);
+    expect(await adapter.getBudgetAlerts({ budgetId, activeOnly: true })).toHaveLength(0);
+
+    await spend(300);
+    expect(await adapter.getBudgetAlerts({ budgetId, activeOnly: true })).toMatchObject([{ level: 'warning', utilizationPercent: 90 }]);
+    expect(await alerts()).toHaveLength(2);
+  });
+
+  it('should not alert on a revenue budget reaching its target', async () => {
+    const sales = await createTestAccount(adapter, '4000', 'REVENUE');
+    const category = await createTestCategory('Sales', 'INCOME');
+    await adapter.createBudgetAccountMapping({ categoryId: category, accountId: sales.id, includeSubaccounts: false });
+    const revenueBudget = await createTestBudget(adapter, { categoryId: category, budgetType: 'REVENUE', plannedAmount: 1000 });
+    manager = await createJournalManager(adapter);
+
+    await postEntry(manager, [{ accountId: cash.id, debit: 1200 }, { accountId: sales.id, credit: 1200 }], { date: '2026-03-10' });
+
+    expect(await adapter.getBudgetAlerts({ budgetId: revenueBudget })).toEqual([]);
+  });
+
+  it('should keep a failed delivery queued until its attempts run out', async () => {
+    await spend(850);
+    const [alert] = await adapter.getUndeliveredBudgetAlerts(BudgetAlertService.MAX_DELIVERY_ATTEMPTS);
+
+    for (let attempt = 1; attempt < BudgetAlertService.MAX_DELIVERY_ATTEMPTS; attempt++) {
+      await adapter.recordBudgetAlertDelivery(alert.id, [], 'No recipients');
+      expect(await adapter.getUndeliveredBudgetAlerts(BudgetAlertService.MAX_DELIVERY_ATTEMPTS)).toHaveLength(1);
+    }
+    await adapter.recordBudgetAlertDelivery(alert.id, [], 'No recipients');
+
+    expect(await adapter.getUndeliveredBudgetAlerts(BudgetAlertService.MAX_DELIVERY_ATTEMPTS)).toHaveLength(0);
+    expect(await adapter.getBudgetAlerts({ budgetId, status: 'failed' })).toMatchObject([{ attempts: 3, error: 'No recipients' }]);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Budget Alerts
+ * Warning and critical alerts raised when a budget's utilization crosses its thresholds.
+ */
+
+import type { BudgetActuals, BudgetAlert, BudgetAlertLevel } from '../types/index.js';
+import type { DatabaseAdapter } from './database-adapter';
+
+/**
+ * Turns refreshed budget actuals into threshold alerts. Each crossing of the warning or critical
+ * threshold is recorded once; the threshold re-arms when utilization drops back below it.
+ * Revenue budgets are not monitored because reaching the target is not an overrun.
+ */
+export class BudgetAlertService {
+  static readonly MAX_DELIVERY_ATTEMPTS = 3;
+
+  private dbAdapter: DatabaseAdapter;
+
+  constructor(dbAdapter: DatabaseAdapter) {
+    this.dbAdapter = dbAdapter;
+  }
+
+  /**
+   * Thresholds the budget's utilization is at or above, lowest first
+   */
+  static getCrossedLevels(actuals: BudgetActuals): Array<{ level: BudgetAlertLevel; threshold: number }> {
+    if (actuals.budgetType === 'REVENUE' || actuals.budgetAmount <= 0) return [];
+
+    const thresholds: Array<{ level: BudgetAlertLevel; threshold?: number }> = [
+      { level: 'warning', threshold: actuals.warningThreshold },
+      { level: 'critical', threshold: actuals.criticalThreshold }
+    ];
+
+    return thresholds
+      .filter((entry): entry is { level: BudgetAlertLevel; threshold: number } =>
+        entry.threshold !== undefined && entry.threshold > 0 && actuals.utilizationPercent >= entry.threshold)
+      .sort((a, b) => a.threshold - b.threshold);
+  }
+
+  /**
+   * Raise alerts for new crossings and re-arm thresholds the budget is back under.
+   * Returns the alerts raised by this evaluation, still pending delivery.
+   */
+  async evaluate(actuals: BudgetActuals[]): Promise<BudgetAlert[]> {
+    const raised: BudgetAlert[] = [];
+
+    for (const budget of actuals) {
+      const crossed = BudgetAlertService.getCrossedLevels(budget);
+      const crossedLevels = crossed.map(entry => entry.level);
+
+      await this.dbAdapter.resolveBudgetAlerts(
+        budget.budgetId,
+        (['warning', 'critical'] as BudgetAlertLevel[]).filter(level => !crossedLevels.includes(level))
+      );
+
+      for (const { level, threshold } of crossed) {
+        const alert = await this.dbAdapter.raiseBudgetAlert({
+          budgetId: budget.budgetId,
+          level,
+          threshold,
+          utilizationPercent: budget.utilizationPercent,
+          actualAmount: budget.actualAmount,
+          budgetAmount: budget.budgetAmount
+        });
+        if (alert) {
+          raised.push({ ...alert, budgetName: budget.name });
+        }
+      }
+    }
+
+    return raised;
+  }
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { AccountingValidationError, BudgetPlanner } from './index';
+
+describe('BudgetPlanner', () => {
+  it('should apply uplifts in either direction for rollover', () => {
+    expect(BudgetPlanner.applyUplift(1000, 10)).toBe(1100);
+    expect(BudgetPlanner.applyUplift(1000, -25)).toBe(750);
+    expect(BudgetPlanner.applyUplift(333.33)).toBe(333.33);
+  });
+
+  it('should average trailing actuals, and treat no history as zero', () => {
+    expect(BudgetPlanner.average([100, 200, 400])).toBe(233.33);
+    expect(BudgetPlanner.average([])).toBe(0);
+  });
+
+  it('should clip the first and last month to the period', () => {
+    expect(BudgetPlanner.getMonthRanges('2024-01-15', '2024-03-10')).toEqual([
+      { startDate: '2024-01-15', endDate: '2024-01-31', month: 1 },
+      { startDate: '2024-02-01', endDate: '2024-02-29', month: 2 },
+      { startDate: '2024-03-01', endDate: '2024-03-10', month: 3 }
+    ]);
+    expect(BudgetPlanner.getMonthRanges('2024-01-01', '2024-12-31')).toHaveLength(12);
+  });
+
+  it('should phase evenly with the rounding difference in the last month', () => {
+    const parts = BudgetPlanner.phase(1000, 'even', 3);
+
+    expect(parts).toEqual([333.33, 333.33, 333.34]);
+    expect(parts.reduce((sum, part) => sum + part, 0)).toBeCloseTo(1000, 2);
+  });
+
+  it('should phase seasonally by weight and keep trailing zero-weight months at zero', () => {
+    expect(BudgetPlanner.phase(1000, 'seasonal', 4, [1, 2, 0, 0])).toEqual([333.33, 666.67, 0, 0]);
+  });
+
+  it('should reject weights that do not fit the months', () => {
+    expect(() => BudgetPlanner.phase(1000, 'seasonal', 3, [1, 2])).toThrow(AccountingValidationError);
+    expect(() => BudgetPlanner.phase(1000, 'seasonal', 2, [1, -1])).toThrow(AccountingValidationError);
+    expect(() => BudgetPlanner.phase(1000, 'seasonal', 2, [0, 0])).toThrow(AccountingValidationError);
+  });
+});
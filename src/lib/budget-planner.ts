@@ -0,0 +1,76 @@
+/**
+ * Budget Planning
+ * Uplift, averaging and monthly phasing arithmetic used when budgets are rolled over or spread
+ * across the months of their period.
+ */
+
+import type { BudgetMonthRange, BudgetPhasingMethod } from '../types/index.js';
+import { AccountingValidationError } from './errors';
+import { roundToDecimalPlaces, toISODateString } from './utils';
+
+// Budget Planning
+export class BudgetPlanner {
+  /**
+   * Amount increased (or, for a negative percentage, decreased) by upliftPercent
+   */
+  static applyUplift(amount: number, upliftPercent: number = 0): number {
+    return roundToDecimalPlaces(amount * (1 + upliftPercent / 100));
+  }
+
+  static average(values: number[]): number {
+    return values.length > 0 ? roundToDecimalPlaces(values.reduce((sum, value) => sum + value, 0) / values.length) : 0;
+  }
+
+  /**
+   * Calendar months overlapping startDate to endDate; the first and last are clipped to the range
+   */
+  static getMonthRanges(startDate: string, endDate: string): BudgetMonthRange[] {
+    const ranges: BudgetMonthRange[] = [];
+    const end = Date.parse(`${endDate}T00:00:00Z`);
+    let cursor = new Date(`${startDate}T00:00:00Z`);
+
+    while (cursor.getTime() <= end) {
+      const monthEnd = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 0));
+      ranges.push({
+        startDate: toISODateString(cursor),
+        endDate: toISODateString(monthEnd.getTime() < end ? monthEnd : new Date(end)),
+        month: cursor.getUTCMonth() + 1
+      });
+      cursor = new Date(Date.UTC(cursor.getUTCFullYear(), cursor.getUTCMonth() + 1, 1));
+    }
+
+    return ranges;
+  }
+
+  /**
+   * Split amount across periods in proportion to weights (equal weights for even phasing).
+   * Rounding differences go to the last weighted period so the parts add up to the amount.
+   */
+  static phase(amount: number, method: BudgetPhasingMethod, periods: number, weights?: number[]): number[] {
+    const phasingWeights = method === 'even' ? Array.from({ length: periods }, () => 1) : weights || [];
+
+    if (phasingWeights.length !== periods) {
+      throw new AccountingValidationError(
+        `Seasonal phasing needs ${periods} weights, got ${phasingWeights.length}`,
+        'INVALID_PHASING_WEIGHTS'
+      );
+    }
+
+    const totalWeight = phasingWeights.reduce((sum, weight) => sum + weight, 0);
+    if (phasingWeights.some(weight => !Number.isFinite(weight) || weight < 0) || totalWeight <= 0) {
+      throw new AccountingValidationError(
+        'Phasing weights must be non-negative and add up to more than zero',
+        'INVALID_PHASING_WEIGHTS'
+      );
+    }
+
+    const parts = phasingWeights.map(weight => roundToDecimalPlaces((amount * weight) / totalWeight));
+    let lastWeighted = phasingWeights.length - 1;
+    while (phasingWeights[lastWeighted] === 0) lastWeighted--;
+    parts[lastWeighted] = roundToDecimalPlaces(
+      parts[lastWeighted] + amount - parts.reduce((sum, part) => sum + part, 0)
+    );
+
+    return parts;
+  }
+}
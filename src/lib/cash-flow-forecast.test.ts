@@ -0,0 +1,29 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CASH_ACCOUNT_CATEGORY, CashFlowForecastService, type DatabaseAdapter, type DatabaseJournalEntryManager } from './index';
+import type { Account } from '../types/index.js';
+import { createJournalManager, createTestAccount, createTestAdapter, postEntry } from '../../tests/helpers/ledger';
+
+describe('CashFlowForecastService', () => {
+  let adapter: DatabaseAdapter;
+  let manager: DatabaseJournalEntryManager;
+  let cash: Account;
+  let revenue: Account;
+
+  beforeEach(async () => {
+    adapter = createTestAdapter();
+    cash = await createTestAccount(adapter, '1000', 'ASSET', { category: CASH_ACCOUNT_CATEGORY });
+    revenue = await createTestAccount(adapter, '4000', 'REVENUE');
+    manager = await createJournalManager(adapter);
+  });
+
+  it('should open with the cash balance at the start of asOfDate, not the current balance', async () => {
+    await postEntry(manager, [{ accountId: cash.id, debit: 1000 }, { accountId: revenue.id, credit: 1000 }], { date: '2026-03-01' });
+    await postEntry(manager, [{ accountId: cash.id, debit: 500 }, { accountId: revenue.id, credit: 500 }], { date: '2026-03-10' });
+
+    const forecast = await new CashFlowForecastService(adapter).forecast({ horizon: '13w', asOfDate: '2026-03-10' });
+
+    expect(forecast.openingBalance).toBe(1000);
+    expect(forecast.cashAccounts).toEqual([{ id: cash.id, code: '1000', name: 'Account 1000', balance: 1000 }]);
+    expect(forecast.buckets[0].openingBalance).toBe(1000);
+  });
+});
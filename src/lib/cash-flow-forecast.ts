@@ -0,0 +1,335 @@
+/**
+ * Cash Flow Forecast
+ * Weekly or monthly projection of the cash accounts' balance, with what-if scenarios that shift,
+ * scale, drop or add projected movements.
+ */
+
+import type {
+  Account,
+  CashForecast,
+  CashForecastAdjustment,
+  CashForecastBucket,
+  CashForecastHorizon,
+  CashForecastItem,
+  CashForecastOptions,
+  CashForecastSource,
+  CashForecastTarget,
+  Currency
+} from '../types/index.js';
+import { BudgetPlanner } from './budget-planner';
+import { CASH_ACCOUNT_CATEGORY, FINANCIAL_CONSTANTS } from './constants';
+import type { DatabaseAdapter } from './database-adapter';
+import { AccountingValidationError, CurrencyConversionError } from './errors';
+import { ExchangeRateService } from './exchange-rates';
+import { GeneralLedgerService } from './general-ledger';
+import { RecurrenceSchedule } from './recurrence-schedule';
+import { countDays, DAY_MS, roundToDecimalPlaces, toISODateString } from './utils';
+
+/**
+ * Rolls the cash accounts' ledger balance at the start of asOfDate forward over 13 weeks or
+ * 12 months. Projected movements come from recurring templates not yet generated, the unspent
+ * part of open CASH_FLOW budgets (spread evenly over what is left of their period and treated
+ * as outflows) and a daily trend of past cash movement that did not come from recurring templates.
+ */
+export class CashFlowForecastService {
+  static readonly DEFAULT_LOOKBACK_DAYS = 90;
+  static readonly FORECAST_WEEKS = 13;
+  static readonly FORECAST_MONTHS = 12;
+
+  private dbAdapter: DatabaseAdapter;
+  private exchangeRateService: ExchangeRateService;
+
+  constructor(dbAdapter: DatabaseAdapter) {
+    this.dbAdapter = dbAdapter;
+    this.exchangeRateService = new ExchangeRateService(dbAdapter);
+  }
+
+  /**
+   * Forecast buckets starting on asOfDate: seven-day weeks, or calendar months with the first
+   * month starting on asOfDate
+   */
+  static getBuckets(horizon: CashForecastHorizon, asOfDate: string): Array<{ label: string; startDate: string; endDate: string }> {
+    const start = Date.parse(`${asOfDate}T00:00:00Z`);
+
+    if (horizon === '13w') {
+      return Array.from({ length: this.FORECAST_WEEKS }, (_, index) => ({
+        label: `Week ${index + 1}`,
+        startDate: toISODateString(new Date(start + index * 7 * DAY_MS)),
+        endDate: toISODateString(new Date(start + (index * 7 + 6) * DAY_MS))
+      }));
+    }
+
+    const first = new Date(start);
+    const lastDay = new Date(Date.UTC(first.getUTCFullYear(), first.getUTCMonth() + this.FORECAST_MONTHS, 0));
+    return BudgetPlanner.getMonthRanges(asOfDate, toISODateString(lastDay)).map(range => ({
+      label: range.startDate.slice(0, 7),
+      startDate: range.startDate,
+      endDate: range.endDate
+    }));
+  }
+
+  /**
+   * Items after applying the adjustments in order. Items shifted past endDate leave the
+   * forecast; items shifted before startDate land on it.
+   */
+  static applyScenario(
+    items: CashForecastItem[],
+    adjustments: CashForecastAdjustment[],
+    startDate: string,
+    endDate: string
+  ): CashForecastItem[] {
+    let adjusted = items.map(item => ({ ...item }));
+
+    for (const adjustment of adjustments) {
+      switch (adjustment.type) {
+        case 'shift':
+          adjusted = adjusted.flatMap(item => {
+            if (!this.matchesTarget(item, adjustment)) return [item];
+            const shifted = toISODateString(new Date(Date.parse(`${item.date}T00:00:00Z`) + adjustment.days * DAY_MS));
+            if (shifted > endDate) return [];
+            return [{ ...item, date: shifted < startDate ? startDate : shifted }];
+          });
+          break;
+        case 'scale':
+          adjusted = adjusted.map(item => this.matchesTarget(item, adjustment)
+            ? { ...item, amount: BudgetPlanner.applyUplift(item.amount, adjustment.percent) }
+            : item);
+          break;
+        case 'exclude':
+          adjusted = adjusted.filter(item => !this.matchesTarget(item, adjustment));
+          break;
+        case 'add':
+          if (adjustment.date < startDate || adjustment.date > endDate) {
+            throw new AccountingValidationError(
+              `Scenario item "${adjustment.description}" is dated outside the forecast (${startDate} to ${endDate})`,
+              'INVALID_SCENARIO_ADJUSTMENT'
+            );
+          }
+          adjusted.push({
+            date: adjustment.date,
+            source: 'adjustment',
+            description: adjustment.description,
+            amount: roundToDecimalPlaces(adjustment.amount)
+          });
+          break;
+      }
+    }
+
+    return adjusted;
+  }
+
+  private static matchesTarget(item: CashForecastItem, target: CashForecastTarget): boolean {
+    if (target.source && item.source !== target.source) return false;
+    if (target.templateId !== undefined && (item.source !== 'recurring' || item.sourceId !== target.templateId)) return false;
+    if (target.budgetId !== undefined && (item.source !== 'budget' || item.sourceId !== target.budgetId)) return false;
+    if (target.match && !item.description.toLowerCase().includes(target.match.toLowerCase())) return false;
+    return true;
+  }
+
+  async forecast(options: CashForecastOptions): Promise<CashForecast> {
+    const lookbackDays = options.lookbackDays ?? CashFlowForecastService.DEFAULT_LOOKBACK_DAYS;
+    const buckets = CashFlowForecastService.getBuckets(options.horizon, options.asOfDate);
+    const startDate = buckets[0].startDate;
+    const endDate = buckets[buckets.length - 1].endDate;
+    const warnings: string[] = [];
+
+    const cashAccounts = await this.getCashAccounts(options.cashAccountIds);
+    const cashAccountIds = cashAccounts.map(account => account.id);
+    if (cashAccounts.length === 0) {
+      warnings.push(`No active asset accounts in the "${CASH_ACCOUNT_CATEGORY}" category; the forecast starts from zero`);
+    }
+
+    const baseline = [
+      ...await this.projectRecurring(cashAccountIds, startDate, endDate, warnings),
+      ...await this.projectBudgets(buckets, startDate),
+      ...await this.projectTrend(cashAccountIds, buckets, startDate, lookbackDays)
+    ];
+    const items = options.scenario
+      ? CashFlowForecastService.applyScenario(baseline, options.scenario.adjustments, startDate, endDate)
+      : baseline;
+
+    const ledger = new GeneralLedgerService(this.dbAdapter);
+    const cashBalances = await Promise.all(cashAccounts.map(account => ledger.getBalanceBefore(account, startDate)));
+    const openingBalance = roundToDecimalPlaces(cashBalances.reduce((sum, balance) => sum + balance, 0));
+    const totals: Record<CashForecastSource, number> = { recurring: 0, budget: 0, trend: 0, adjustment: 0 };
+    const forecastBuckets: CashForecastBucket[] = [];
+    let balance = openingBalance;
+
+    for (const bucket of buckets) {
+      const bucketItems = items
+        .filter(item => item.date >= bucket.startDate && item.date <= bucket.endDate)
+        .sort((a, b) => a.date.localeCompare(b.date));
+      const bySource: Record<CashForecastSource, number> = { recurring: 0, budget: 0, trend: 0, adjustment: 0 };
+      let inflows = 0;
+      let outflows = 0;
+
+      for (const item of bucketItems) {
+        bySource[item.source] = roundToDecimalPlaces(bySource[item.source] + item.amount);
+        totals[item.source] = roundToDecimalPlaces(totals[item.source] + item.amount);
+        if (item.amount >= 0) {
+          inflows += item.amount;
+        } else {
+          outflows -= item.amount;
+        }
+      }
+
+      const netChange = roundToDecimalPlaces(inflows - outflows);
+      forecastBuckets.push({
+        ...bucket,
+        openingBalance: balance,
+        inflows: roundToDecimalPlaces(inflows),
+        outflows: roundToDecimalPlaces(outflows),
+        netChange,
+        closingBalance: roundToDecimalPlaces(balance + netChange),
+        bySource,
+        items: bucketItems
+      });
+      balance = roundToDecimalPlaces(balance + netChange);
+    }
+
+    const lowest = forecastBuckets.reduce((min, bucket) => bucket.closingBalance < min.closingBalance ? bucket : min);
+
+    return {
+      horizon: options.horizon,
+      startDate,
+      endDate,
+      currency: FINANCIAL_CONSTANTS.DEFAULT_CURRENCY as Currency,
+      lookbackDays,
+      cashAccounts: cashAccounts.map((account, index) => ({
+        id: account.id,
+        code: account.code,
+        name: account.name,
+        balance: cashBalances[index]
+      })),
+      openingBalance,
+      closingBalance: balance,
+      lowestBalance: lowest.closingBalance,
+      lowestBalanceDate: lowest.endDate,
+      totals,
+      buckets: forecastBuckets,
+      scenario: options.scenario,
+      warnings
+    };
+  }
+
+  private async getCashAccounts(accountIds?: number[]): Promise<Account[]> {
+    const accounts = await this.dbAdapter.getAllAccounts();
+
+    if (accountIds && accountIds.length > 0) {
+      return accountIds.map(accountId => {
+        const account = accounts.find(candidate => candidate.id === accountId);
+        if (!account) {
+          throw new AccountingValidationError(`No account found with ID ${accountId}`, 'ACCOUNT_NOT_FOUND');
+        }
+        if (account.type !== 'ASSET') {
+          throw new AccountingValidationError(`Account ${account.code} is not a cash (asset) account`, 'INVALID_ACCOUNT');
+        }
+        return account;
+      });
+    }
+
+    return accounts.filter(account =>
+      account.type === 'ASSET'
+      && account.isActive
+      && account.category?.toLowerCase() === CASH_ACCOUNT_CATEGORY.toLowerCase());
+  }
+
+  /**
+   * Cash effect of each occurrence not yet generated. Overdue occurrences land on the first day
+   * because the next scheduled run will generate them.
+   */
+  private async projectRecurring(
+    cashAccountIds: number[],
+    startDate: string,
+    endDate: string,
+    warnings: string[]
+  ): Promise<CashForecastItem[]> {
+    const items: CashForecastItem[] = [];
+    const templates = await this.dbAdapter.getRecurringTemplates(true);
+
+    for (const template of templates) {
+      if (!template.nextRunDate) continue;
+
+      const cashEffect = template.entries
+        .filter(entry => cashAccountIds.includes(entry.accountId))
+        .reduce((sum, entry) => sum + (entry.debitAmount || 0) - (entry.creditAmount || 0), 0);
+      if (cashEffect === 0) continue;
+
+      let rate: number;
+      try {
+        rate = await this.exchangeRateService.getRate(template.currency, FINANCIAL_CONSTANTS.DEFAULT_CURRENCY as Currency, startDate);
+      } catch (error) {
+        if (!(error instanceof CurrencyConversionError)) throw error;
+        warnings.push(`Recurring template "${template.name}" left out: ${error.message}`);
+        continue;
+      }
+
+      for (const date of RecurrenceSchedule.getOccurrences(template, template.nextRunDate, endDate)) {
+        items.push({
+          date: date < startDate ? startDate : date,
+          source: 'recurring',
+          sourceId: template.id,
+          description: template.name,
+          amount: roundToDecimalPlaces(cashEffect * rate)
+        });
+      }
+    }
+
+    return items;
+  }
+
+  private async projectBudgets(
+    buckets: Array<{ startDate: string; endDate: string }>,
+    startDate: string
+  ): Promise<CashForecastItem[]> {
+    const items: CashForecastItem[] = [];
+    const budgets = await this.dbAdapter.getOpenCashFlowBudgets(startDate);
+
+    for (const budget of budgets) {
+      const remaining = budget.budgetAmount - budget.actualAmount;
+      if (remaining <= 0) continue;
+
+      const from = budget.startDate > startDate ? budget.startDate : startDate;
+      const dailyAmount = remaining / countDays(from, budget.endDate);
+      for (const bucket of buckets) {
+        const overlapStart = bucket.startDate > from ? bucket.startDate : from;
+        const overlapEnd = bucket.endDate < budget.endDate ? bucket.endDate : budget.endDate;
+        if (overlapStart > overlapEnd) continue;
+
+        items.push({
+          date: overlapStart,
+          source: 'budget',
+          sourceId: budget.budgetId,
+          description: budget.name,
+          amount: -roundToDecimalPlaces(dailyAmount * countDays(overlapStart, overlapEnd))
+        });
+      }
+    }
+
+    return items;
+  }
+
+  private async projectTrend(
+    cashAccountIds: number[],
+    buckets: Array<{ startDate: string; endDate: string }>,
+    startDate: string,
+    lookbackDays: number
+  ): Promise<CashForecastItem[]> {
+    const start = Date.parse(`${startDate}T00:00:00Z`);
+    const netMovement = await this.dbAdapter.getNetAccountMovement(
+      cashAccountIds,
+      toISODateString(new Date(start - lookbackDays * DAY_MS)),
+      toISODateString(new Date(start - DAY_MS)),
+      true
+    );
+    if (netMovement === 0) return [];
+
+    const dailyAmount = netMovement / lookbackDays;
+    return buckets.map(bucket => ({
+      date: bucket.startDate,
+      source: 'trend' as const,
+      description: `Trend of the last ${lookbackDays} days`,
+      amount: roundToDecimalPlaces(dailyAmount * countDays(bucket.startDate, bucket.endDate))
+    }));
+  }
+}
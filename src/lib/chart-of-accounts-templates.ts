@@ -0,0 +1,193 @@
+/**
+ * Chart of Accounts Templates
+ * Industry starting charts an entity can be seeded with. Header accounts group their children
+ * and take no postings; subtypes and categories mark the accounts the engine looks up
+ * (retained earnings, FX gains/losses, payables, input tax, cash).
+ */
+
+import type { ChartOfAccountsTemplate, ChartOfAccountsTemplateAccount } from '../types/index.js';
+
+const header = (
+  code: string,
+  name: string,
+  type: ChartOfAccountsTemplateAccount['type'],
+  reportCategory: string,
+  parentCode?: string
+): ChartOfAccountsTemplateAccount => ({ code, name, type, reportCategory, parentCode, allowTransactions: false });
+
+const SERVICES_ACCOUNTS: ChartOfAccountsTemplateAccount[] = [
+  header('1000', 'Current Assets', 'ASSET', 'Current Assets'),
+  { code: '1100', name: 'Cash on Hand', type: 'ASSET', category: 'Cash', parentCode: '1000' },
+  { code: '1110', name: 'Bank Accounts', type: 'ASSET', category: 'Cash', parentCode: '1000' },
+  { code: '1200', name: 'Accounts Receivable', type: 'ASSET', subtype: 'ACCOUNTS_RECEIVABLE', parentCode: '1000' },
+  { code: '1210', name: 'Allowance for Doubtful Accounts', type: 'ASSET', normalBalance: 'CREDIT', parentCode: '1000' },
+  { code: '1300', name: 'Prepaid Expenses', type: 'ASSET', parentCode: '1000' },
+  { code: '1400', name: 'Input VAT', type: 'ASSET', subtype: 'INPUT_TAX', parentCode: '1000' },
+  header('1500', 'Fixed Assets', 'ASSET', 'Fixed Assets'),
+  { code: '1510', name: 'Office Equipment', type: 'ASSET', parentCode: '1500' },
+  { code: '1520', name: 'Computer Equipment', type: 'ASSET', parentCode: '1500' },
+  { code: '1590', name: 'Accumulated Depreciation', type: 'ASSET', normalBalance: 'CREDIT', parentCode: '1500' },
+  header('2000', 'Current Liabilities', 'LIABILITY', 'Current Liabilities'),
+  { code: '2100', name: 'Accounts Payable', type: 'LIABILITY', subtype: 'ACCOUNTS_PAYABLE', parentCode: '2000' },
+  { code: '2200', name: 'Accrued Expenses', type: 'LIABILITY', parentCode: '2000' },
+  { code: '2300', name: 'Output VAT Payable', type: 'LIABILITY', parentCode: '2000' },
+  { code: '2310', name: 'Income Tax Payable', type: 'LIABILITY', parentCode: '2000' },
+  { code: '2400', name: 'Unearned Revenue', type: 'LIABILITY', parentCode: '2000' },
+  header('2500', 'Long-term Liabilities', 'LIABILITY', 'Long-term Liabilities'),
+  { code: '2510', name: 'Bank Loans', type: 'LIABILITY', parentCode: '2500' },
+  header('3000', 'Equity', 'EQUITY', 'Equity'),
+  { code: '3100', name: "Owner's Capital", type: 'EQUITY', parentCode: '3000' },
+  { code: '3200', name: 'Retained Earnings', type: 'EQUITY', subtype: 'RETAINED_EARNINGS', isSystem: true, parentCode: '3000' },
+  header('4000', 'Revenue', 'REVENUE', 'Revenue'),
+  { code: '4100', name: 'Service Revenue', type: 'REVENUE', parentCode: '4000' },
+  { code: '4200', name: 'Consulting Revenue', type: 'REVENUE', parentCode: '4000' },
+  header('4900', 'Other Income', 'REVENUE', 'Other Income'),
+  { code: '4910', name: 'Interest Income', type: 'REVENUE', parentCode: '4900' },
+  { code: '4920', name: 'Unrealized FX Gain/Loss', type: 'REVENUE', subtype: 'FX_UNREALIZED_GAIN_LOSS', parentCode: '4900' },
+  { code: '4930', name: 'Realized FX Gain/Loss', type: 'REVENUE', subtype: 'FX_REALIZED_GAIN_LOSS', parentCode: '4900' },
+  header('5000', 'Cost of Services', 'EXPENSE', 'Cost of Services'),
+  { code: '5100', name: 'Subcontractor Costs', type: 'EXPENSE', parentCode: '5000' },
+  { code: '5200', name: 'Project Expenses', type: 'EXPENSE', parentCode: '5000' },
+  header('6000', 'Operating Expenses', 'EXPENSE', 'Operating Expenses'),
+  { code: '6100', name: 'Salaries and Wages', type: 'EXPENSE', parentCode: '6000' },
+  { code: '6200', name: 'Rent', type: 'EXPENSE', parentCode: '6000' },
+  { code: '6300', name: 'Utilities', type: 'EXPENSE', parentCode: '6000' },
+  { code: '6400', name: 'Professional Fees', type: 'EXPENSE', parentCode: '6000' },
+  { code: '6500', name: 'Travel', type: 'EXPENSE', parentCode: '6000' },
+  { code: '6600', name: 'Software Subscriptions', type: 'EXPENSE', parentCode: '6000' },
+  { code: '6700', name: 'Depreciation Expense', type: 'EXPENSE', parentCode: '6000' },
+  { code: '6800', name: 'Bank Charges', type: 'EXPENSE', parentCode: '6000' },
+  header('6900', 'Income Tax', 'EXPENSE', 'Income Tax'),
+  { code: '6910', name: 'Income Tax Expense', type: 'EXPENSE', parentCode: '6900' }
+];
+
+const RETAIL_ACCOUNTS: ChartOfAccountsTemplateAccount[] = [
+  header('1000', 'Current Assets', 'ASSET', 'Current Assets'),
+  { code: '1100', name: 'Cash on Hand', type: 'ASSET', category: 'Cash', parentCode: '1000' },
+  { code: '1110', name: 'Cash Registers', type: 'ASSET', category: 'Cash', parentCode: '1000' },
+  { code: '1120', name: 'Bank Accounts', type: 'ASSET', category: 'Cash', parentCode: '1000' },
+  { code: '1130', name: 'Card Settlements Receivable', type: 'ASSET', parentCode: '1000' },
+  { code: '1200', name: 'Accounts Receivable', type: 'ASSET', subtype: 'ACCOUNTS_RECEIVABLE', parentCode: '1000' },
+  { code: '1300', name: 'Merchandise Inventory', type: 'ASSET', subtype: 'INVENTORY', parentCode: '1000' },
+  { code: '1400', name: 'Input VAT', type: 'ASSET', subtype: 'INPUT_TAX', parentCode: '1000' },
+  { code: '1500', name: 'Prepaid Expenses', type: 'ASSET', parentCode: '1000' },
+  header('1600', 'Fixed Assets', 'ASSET', 'Fixed Assets'),
+  { code: '1610', name: 'Store Fixtures and Fittings', type: 'ASSET', parentCode: '1600' },
+  { code: '1620', name: 'Point of Sale Equipment', type: 'ASSET', parentCode: '1600' },
+  { code: '1630', name: 'Vehicles', type: 'ASSET', parentCode: '1600' },
+  { code: '1690', name: 'Accumulated Depreciation', type: 'ASSET', normalBalance: 'CREDIT', parentCode: '1600' },
+  header('2000', 'Current Liabilities', 'LIABILITY', 'Current Liabilities'),
+  { code: '2100', name: 'Accounts Payable', type: 'LIABILITY', subtype: 'ACCOUNTS_PAYABLE', parentCode: '2000' },
+  { code: '2200', name: 'Accrued Expenses', type: 'LIABILITY', parentCode: '2000' },
+  { code: '2300', name: 'Output VAT Payable', type: 'LIABILITY', parentCode: '2000' },
+  { code: '2310', name: 'Income Tax Payable', type: 'LIABILITY', parentCode: '2000' },
+  { code: '2400', name: 'Gift Cards Outstanding', type: 'LIABILITY', parentCode: '2000' },
+  { code: '2410', name: 'Customer Deposits', type: 'LIABILITY', parentCode: '2000' },
+  header('2500', 'Long-term Liabilities', 'LIABILITY', 'Long-term Liabilities'),
+  { code: '2510', name: 'Bank Loans', type: 'LIABILITY', parentCode: '2500' },
+  header('3000', 'Equity', 'EQUITY', 'Equity'),
+  { code: '3100', name: "Owner's Capital", type: 'EQUITY', parentCode: '3000' },
+  { code: '3200', name: 'Retained Earnings', type: 'EQUITY', subtype: 'RETAINED_EARNINGS', isSystem: true, parentCode: '3000' },
+  header('4000', 'Sales', 'REVENUE', 'Revenue'),
+  { code: '4100', name: 'Merchandise Sales', type: 'REVENUE', parentCode: '4000' },
+  { code: '4200', name: 'Online Sales', type: 'REVENUE', parentCode: '4000' },
+  { code: '4300', name: 'Sales Returns and Allowances', type: 'REVENUE', normalBalance: 'DEBIT', parentCode: '4000' },
+  { code: '4310', name: 'Sales Discounts', type: 'REVENUE', normalBalance: 'DEBIT', parentCode: '4000' },
+  header('4900', 'Other Income', 'REVENUE', 'Other Income'),
+  { code: '4910', name: 'Interest Income', type: 'REVENUE', parentCode: '4900' },
+  { code: '4920', name: 'Unrealized FX Gain/Loss', type: 'REVENUE', subtype: 'FX_UNREALIZED_GAIN_LOSS', parentCode: '4900' },
+  { code: '4930', name: 'Realized FX Gain/Loss', type: 'REVENUE', subtype: 'FX_REALIZED_GAIN_LOSS', parentCode: '4900' },
+  header('5000', 'Cost of Goods Sold', 'EXPENSE', 'Cost of Goods Sold'),
+  { code: '5100', name: 'Cost of Merchandise Sold', type: 'EXPENSE', parentCode: '5000' },
+  { code: '5200', name: 'Freight In', type: 'EXPENSE', parentCode: '5000' },
+  { code: '5300', name: 'Inventory Shrinkage', type: 'EXPENSE', parentCode: '5000' },
+  header('6000', 'Operating Expenses', 'EXPENSE', 'Operating Expenses'),
+  { code: '6100', name: 'Salaries and Wages', type: 'EXPENSE', parentCode: '6000' },
+  { code: '6200', name: 'Store Rent', type: 'EXPENSE', parentCode: '6000' },
+  { code: '6300', name: 'Utilities', type: 'EXPENSE', parentCode: '6000' },
+  { code: '6400', name: 'Card Processing Fees', type: 'EXPENSE', parentCode: '6000' },
+  { code: '6500', name: 'Advertising and Promotion', type: 'EXPENSE', parentCode: '6000' },
+  { code: '6600', name: 'Packaging and Supplies', type: 'EXPENSE', parentCode: '6000' },
+  { code: '6700', name: 'Depreciation Expense', type: 'EXPENSE', parentCode: '6000' },
+  { code: '6800', name: 'Bank Charges', type: 'EXPENSE', parentCode: '6000' },
+  header('6900', 'Income Tax', 'EXPENSE', 'Income Tax'),
+  { code: '6910', name: 'Income Tax Expense', type: 'EXPENSE', parentCode: '6900' }
+];
+
+// Indonesian SAK layout (SAK EP / SAK ETAP) with Indonesian account names and withholding tax accounts
+const INDONESIAN_SAK_ACCOUNTS: ChartOfAccountsTemplateAccount[] = [
+  header('1-1000', 'Aset Lancar', 'ASSET', 'Aset Lancar'),
+  { code: '1-1100', name: 'Kas', type: 'ASSET', category: 'Cash', parentCode: '1-1000' },
+  { code: '1-1200', name: 'Bank', type: 'ASSET', category: 'Cash', parentCode: '1-1000' },
+  { code: '1-1300', name: 'Piutang Usaha', type: 'ASSET', subtype: 'ACCOUNTS_RECEIVABLE', parentCode: '1-1000' },
+  { code: '1-1310', name: 'Cadangan Kerugian Penurunan Nilai Piutang', type: 'ASSET', normalBalance: 'CREDIT', parentCode: '1-1000' },
+  { code: '1-1400', name: 'Persediaan', type: 'ASSET', subtype: 'INVENTORY', parentCode: '1-1000' },
+  { code: '1-1500', name: 'PPN Masukan', type: 'ASSET', subtype: 'INPUT_TAX', parentCode: '1-1000' },
+  { code: '1-1510', name: 'Pajak Dibayar di Muka (PPh 22, 23, 25)', type: 'ASSET', parentCode: '1-1000' },
+  { code: '1-1600', name: 'Biaya Dibayar di Muka', type: 'ASSET', parentCode: '1-1000' },
+  header('1-2000', 'Aset Tidak Lancar', 'ASSET', 'Aset Tidak Lancar'),
+  { code: '1-2100', name: 'Tanah', type: 'ASSET', parentCode: '1-2000' },
+  { code: '1-2200', name: 'Bangunan', type: 'ASSET', parentCode: '1-2000' },
+  { code: '1-2300', name: 'Kendaraan', type: 'ASSET', parentCode: '1-2000' },
+  { code: '1-2400', name: 'Peralatan Kantor', type: 'ASSET', parentCode: '1-2000' },
+  { code: '1-2900', name: 'Akumulasi Penyusutan Aset Tetap', type: 'ASSET', normalBalance: 'CREDIT', parentCode: '1-2000' },
+  header('2-1000', 'Liabilitas Jangka Pendek', 'LIABILITY', 'Liabilitas Jangka Pendek'),
+  { code: '2-1100', name: 'Utang Usaha', type: 'LIABILITY', subtype: 'ACCOUNTS_PAYABLE', parentCode: '2-1000' },
+  { code: '2-1200', name: 'PPN Keluaran', type: 'LIABILITY', parentCode: '2-1000' },
+  { code: '2-1300', name: 'Utang PPh Pasal 21', type: 'LIABILITY', parentCode: '2-1000' },
+  { code: '2-1310', name: 'Utang PPh Pasal 23', type: 'LIABILITY', parentCode: '2-1000' },
+  { code: '2-1320', name: 'Utang PPh Pasal 4 Ayat 2', type: 'LIABILITY', parentCode: '2-1000' },
+  { code: '2-1330', name: 'Utang PPh Pasal 29', type: 'LIABILITY', parentCode: '2-1000' },
+  { code: '2-1400', name: 'Beban Masih Harus Dibayar', type: 'LIABILITY', parentCode: '2-1000' },
+  { code: '2-1500', name: 'Pendapatan Diterima di Muka', type: 'LIABILITY', parentCode: '2-1000' },
+  header('2-2000', 'Liabilitas Jangka Panjang', 'LIABILITY', 'Liabilitas Jangka Panjang'),
+  { code: '2-2100', name: 'Utang Bank Jangka Panjang', type: 'LIABILITY', parentCode: '2-2000' },
+  { code: '2-2200', name: 'Liabilitas Imbalan Kerja', type: 'LIABILITY', parentCode: '2-2000' },
+  header('3-0000', 'Ekuitas', 'EQUITY', 'Ekuitas'),
+  { code: '3-1000', name: 'Modal Saham', type: 'EQUITY', parentCode: '3-0000' },
+  { code: '3-2000', name: 'Tambahan Modal Disetor', type: 'EQUITY', parentCode: '3-0000' },
+  { code: '3-3000', name: 'Saldo Laba', type: 'EQUITY', subtype: 'RETAINED_EARNINGS', isSystem: true, parentCode: '3-0000' },
+  header('4-0000', 'Pendapatan', 'REVENUE', 'Pendapatan'),
+  { code: '4-1000', name: 'Pendapatan Usaha', type: 'REVENUE', parentCode: '4-0000' },
+  { code: '4-2000', name: 'Retur dan Potongan Penjualan', type: 'REVENUE', normalBalance: 'DEBIT', parentCode: '4-0000' },
+  header('5-0000', 'Beban Pokok Pendapatan', 'EXPENSE', 'Beban Pokok Pendapatan'),
+  { code: '5-1000', name: 'Harga Pokok Penjualan', type: 'EXPENSE', parentCode: '5-0000' },
+  header('6-0000', 'Beban Usaha', 'EXPENSE', 'Beban Usaha'),
+  { code: '6-1000', name: 'Beban Gaji dan Tunjangan', type: 'EXPENSE', parentCode: '6-0000' },
+  { code: '6-1100', name: 'Beban Sewa', type: 'EXPENSE', parentCode: '6-0000' },
+  { code: '6-1200', name: 'Beban Listrik, Air dan Telepon', type: 'EXPENSE', parentCode: '6-0000' },
+  { code: '6-1300', name: 'Beban Penyusutan', type: 'EXPENSE', parentCode: '6-0000' },
+  { code: '6-1400', name: 'Beban Perlengkapan Kantor', type: 'EXPENSE', parentCode: '6-0000' },
+  { code: '6-1500', name: 'Beban Jasa Profesional', type: 'EXPENSE', parentCode: '6-0000' },
+  header('7-1000', 'Pendapatan Lain-lain', 'REVENUE', 'Pendapatan Lain-lain'),
+  { code: '7-1100', name: 'Pendapatan Bunga', type: 'REVENUE', parentCode: '7-1000' },
+  { code: '7-1200', name: 'Laba (Rugi) Selisih Kurs Belum Terealisasi', type: 'REVENUE', subtype: 'FX_UNREALIZED_GAIN_LOSS', parentCode: '7-1000' },
+  { code: '7-1300', name: 'Laba (Rugi) Selisih Kurs Terealisasi', type: 'REVENUE', subtype: 'FX_REALIZED_GAIN_LOSS', parentCode: '7-1000' },
+  header('8-1000', 'Beban Lain-lain', 'EXPENSE', 'Beban Lain-lain'),
+  { code: '8-1100', name: 'Beban Bunga', type: 'EXPENSE', parentCode: '8-1000' },
+  { code: '8-1200', name: 'Beban Administrasi Bank', type: 'EXPENSE', parentCode: '8-1000' },
+  header('9-1000', 'Beban Pajak Penghasilan', 'EXPENSE', 'Beban Pajak Penghasilan'),
+  { code: '9-1100', name: 'Beban Pajak Kini', type: 'EXPENSE', parentCode: '9-1000' },
+  { code: '9-1200', name: 'Beban (Manfaat) Pajak Tangguhan', type: 'EXPENSE', parentCode: '9-1000' }
+];
+
+export const CHART_OF_ACCOUNTS_TEMPLATES: ChartOfAccountsTemplate[] = [
+  {
+    id: 'services',
+    name: 'Professional Services',
+    description: 'Agencies, consultancies and other service businesses billing time and projects',
+    accounts: SERVICES_ACCOUNTS
+  },
+  {
+    id: 'retail',
+    name: 'Retail',
+    description: 'Stores and online shops holding merchandise inventory',
+    accounts: RETAIL_ACCOUNTS
+  },
+  {
+    id: 'id-sak',
+    name: 'Indonesian SAK',
+    description: 'Indonesian SAK EP / SAK ETAP layout with Indonesian account names and PPN / PPh tax accounts',
+    accounts: INDONESIAN_SAK_ACCOUNTS
+  }
+];
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AccountingValidationError, ChartOfAccountsService, type DatabaseAdapter } from './index';
+import type { AccountImportRow } from '../types/index.js';
+import { createTestAccount, createTestAdapter } from '../../tests/helpers/ledger';
+
+describe('ChartOfAccountsService', () => {
+  let adapter: DatabaseAdapter;
+  let service: ChartOfAccountsService;
+
+  const rows: AccountImportRow[] = [
+    { rowNumber: 1, code: '1000', name: 'Current Assets', type: 'ASSET', allowTransactions: false },
+    { rowNumber: 2, code: '1100', name: 'Cash on Hand', type: 'ASSET', parentCode: '1000' },
+    { rowNumber: 3, code: '1110', name: 'Petty Cash', type: 'ASSET', parentCode: '1100', path: '1110', level: 0 },
+    { rowNumber: 4, code: '1590', name: 'Accumulated Depreciation', type: 'ASSET', normalBalance: 'CREDIT', parentCode: '1000' }
+  ];
+
+  beforeEach(() => {
+    adapter = createTestAdapter();
+    service = new ChartOfAccountsService(adapter);
+  });
+
+  it('should seed an empty chart from a template, parents linked by code', async () => {
+    const report = await service.applyTemplate('services', { createdBy: 'user-1' });
+    const template = ChartOfAccountsService.getTemplate('services');
+
+    expect(report).toMatchObject({ isValid: true, createCount: template.accounts.length, errors: [] });
+    const accounts = await adapter.getAllAccounts();
+    expect(accounts).toHaveLength(template.accounts.length);
+    const byCode = new Map(accounts.map(account => [account.code, account]));
+    expect(byCode.get('3200')).toMatchObject({ parentId: byCode.get('3000')?.id, path: '3000/3200', level: 1, subtype: 'RETAINED_EARNINGS' });
+    expect(byCode.get('1000')).toMatchObject({ allowTransactions: false, reportCategory: 'Current Assets' });
+    // Children take the report category of their header
+    expect(byCode.get('1100')?.reportCategory).toBe('Current Assets');
+  });
+
+  it('should list every template with its account count and refuse unknown ones', async () => {
+    const templates = ChartOfAccountsService.getTemplates();
+
+    expect(templates.map(template => template.id)).toEqual(['services', 'retail', 'id-sak']);
+    expect(templates.every(template => template.accountCount > 0)).toBe(true);
+    expect(() => ChartOfAccountsService.getTemplate('mining')).toThrow(AccountingValidationError);
+    await expect(service.applyTemplate('mining')).rejects.toMatchObject({ code: 'TEMPLATE_NOT_FOUND' });
+  });
+
+  it('should report a dry run without writing, recomputing path and level', async () => {
+    const report = await service.import(rows, { dryRun: true });
+
+    expect(report).toMatchObject({ dryRun: true, isValid: true, totalRows: 4, createCount: 4, accounts: [] });
+    expect(report.warnings.map(warning => [warning.code, warning.field])).toEqual([
+      ['1590', 'normalBalance'],
+      ['1110', 'path'],
+      ['1110', 'level']
+    ]);
+    expect(await adapter.getAllAccounts()).toHaveLength(0);
+  });
+
+  it('should create the accounts parents first and leave codes already in the chart unchanged', async () => {
+    await createTestAccount(adapter, '1000', 'ASSET', { name: 'Assets' });
+
+    const report = await service.import(rows);
+
+    expect(report).toMatchObject({ isValid: true, createCount: 3, skippedCodes: ['1000'] });
+    const byCode = new Map((await adapter.getAllAccounts()).map(account => [account.code, account]));
+    expect(byCode.get('1000')?.name).toBe('Assets');
+    expect(byCode.get('1110')).toMatchObject({ parentId: byCode.get('1100')?.id, path: '1000/1100/1110', level: 2 });
+    expect(byCode.get('1590')?.normalBalance).toBe('CREDIT');
+  });
+
+  it('should write nothing when any row is invalid', async () => {
+    const report = await service.import([
+      ...rows,
+      { rowNumber: 5, code: '1100', name: 'Cash again', type: 'ASSET' },
+      { rowNumber: 6, code: '2100', name: 'Payables', type: 'LIABILITY', parentCode: '1000' },
+      { rowNumber: 7, code: '4100', name: 'Sales', type: 'REVENUE', parentCode: '4000' },
+      { rowNumber: 8, code: 'x', name: 'Bad code', type: 'EXPENSE' },
+      { rowNumber: 9, code: '6100', name: 'Rent', type: 'COST' as AccountImportRow['type'] }
+    ]);
+
+    expect(report.isValid).toBe(false);
+    expect(report.errors.map(error => [error.rowNumber, error.field])).toEqual([
+      [5, 'code'],
+      [8, 'code'],
+      [9, 'type'],
+      [6, 'parentCode'],
+      [7, 'parentCode']
+    ]);
+    expect(await adapter.getAllAccounts()).toHaveLength(0);
+  });
+
+  it('should resolve exported parent ids within the file and reject cycles', () => {
+    const exported: AccountImportRow[] = [
+      { rowNumber: 1, id: 40, code: '6000', name: 'Operating Expenses', type: 'EXPENSE' },
+      { rowNumber: 2, id: 41, code: '6100', name: 'Rent', type: 'EXPENSE', parentId: 40 }
+    ];
+    expect(ChartOfAccountsService.validateImport(exported, []).accounts.map(account => [account.code, account.parentCode]))
+      .toEqual([['6000', undefined], ['6100', '6000']]);
+
+    const cycle: AccountImportRow[] = [
+      { rowNumber: 1, code: '6000', name: 'Operating Expenses', type: 'EXPENSE', parentCode: '6100' },
+      { rowNumber: 2, code: '6100', name: 'Rent', type: 'EXPENSE', parentCode: '6000' }
+    ];
+    expect(ChartOfAccountsService.validateImport(cycle, []).errors.map(error => error.message)).toEqual([
+      'Account 6000 is its own ancestor',
+      'Account 6100 is its own ancestor'
+    ]);
+  });
+});
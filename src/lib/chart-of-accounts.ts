@@ -0,0 +1,221 @@
+/**
+ * Chart of Accounts
+ * Industry templates and account tree imports for an entity's chart.
+ */
+
+import type {
+  Account,
+  AccountImportIssue,
+  AccountImportReport,
+  AccountImportRow,
+  AccountType,
+  ChartOfAccountsTemplate,
+  ChartOfAccountsTemplateSummary
+} from '../types/index.js';
+import { CHART_OF_ACCOUNTS_TEMPLATES } from './chart-of-accounts-templates';
+import type { DatabaseAdapter } from './database-adapter';
+import { AccountingValidationError } from './errors';
+import { getNormalBalance } from './utils';
+
+const ACCOUNT_TYPES: AccountType[] = ['ASSET', 'LIABILITY', 'EQUITY', 'REVENUE', 'EXPENSE'];
+
+type NewChartAccount = Omit<Account, 'id' | 'parentId' | 'entityId' | 'createdAt' | 'updatedAt'> & { parentCode?: string };
+
+/**
+ * Seeds an entity's chart from an industry template and imports or validates an account tree.
+ * Parents are matched by code, path and level are recomputed from the parent, and codes already
+ * in the chart are left unchanged. Nothing is written unless every row is valid.
+ */
+export class ChartOfAccountsService {
+  private dbAdapter: DatabaseAdapter;
+
+  constructor(dbAdapter: DatabaseAdapter) {
+    this.dbAdapter = dbAdapter;
+  }
+
+  static getTemplates(): ChartOfAccountsTemplateSummary[] {
+    return CHART_OF_ACCOUNTS_TEMPLATES.map(({ accounts, ...template }) => ({ ...template, accountCount: accounts.length }));
+  }
+
+  static getTemplate(templateId: string): ChartOfAccountsTemplate {
+    const template = CHART_OF_ACCOUNTS_TEMPLATES.find(candidate => candidate.id === templateId);
+    if (!template) {
+      throw new AccountingValidationError(`Chart of accounts template '${templateId}' not found`, 'TEMPLATE_NOT_FOUND');
+    }
+    return template;
+  }
+
+  async applyTemplate(templateId: string, options: { dryRun?: boolean; createdBy?: string } = {}): Promise<AccountImportReport> {
+    const rows = ChartOfAccountsService.getTemplate(templateId).accounts
+      .map((account, index) => ({ ...account, rowNumber: index + 1 }));
+    return await this.import(rows, options);
+  }
+
+  async import(rows: AccountImportRow[], options: { dryRun?: boolean; createdBy?: string } = {}): Promise<AccountImportReport> {
+    const { accounts, skippedCodes, errors, warnings } = ChartOfAccountsService.validateImport(
+      rows,
+      await this.dbAdapter.getAllAccounts()
+    );
+    const isValid = errors.length === 0;
+    const report: AccountImportReport = {
+      dryRun: Boolean(options.dryRun),
+      isValid,
+      totalRows: rows.length,
+      createCount: accounts.length,
+      skippedCodes,
+      errors,
+      warnings,
+      accounts: []
+    };
+
+    if (isValid && !options.dryRun) {
+      report.accounts = await this.dbAdapter.createAccounts(
+        accounts.map(account => ({ ...account, createdBy: options.createdBy }))
+      );
+    }
+    return report;
+  }
+
+  /**
+   * Check every row and build the accounts to create, parents first
+   */
+  static validateImport(rows: AccountImportRow[], existingAccounts: Account[]): {
+    accounts: NewChartAccount[];
+    skippedCodes: string[];
+    errors: AccountImportIssue[];
+    warnings: AccountImportIssue[];
+  } {
+    const errors: AccountImportIssue[] = [];
+    const warnings: AccountImportIssue[] = [];
+    const existingByCode = new Map(existingAccounts.map(account => [account.code, account]));
+    const rowsByCode = new Map<string, AccountImportRow>();
+    const issue = (row: AccountImportRow, field: string, message: string): AccountImportIssue =>
+      ({ rowNumber: row.rowNumber, code: row.code || undefined, field, message });
+
+    for (const row of rows) {
+      if (!row.code || !/^[A-Z0-9.-]{2,20}$/i.test(row.code)) {
+        errors.push(issue(row, 'code', 'Account code must be 2 to 20 letters, numbers, dots or hyphens'));
+        continue;
+      }
+      if (rowsByCode.has(row.code)) {
+        errors.push(issue(row, 'code', `Account code ${row.code} appears more than once (first on row ${rowsByCode.get(row.code)!.rowNumber})`));
+        continue;
+      }
+      rowsByCode.set(row.code, row);
+
+      if (!row.name || row.name.length < 3 || row.name.length > 100) {
+        errors.push(issue(row, 'name', 'Account name must be between 3 and 100 characters'));
+      }
+      if (!ACCOUNT_TYPES.includes(row.type)) {
+        errors.push(issue(row, 'type', `Account type must be one of: ${ACCOUNT_TYPES.join(', ')}`));
+      } else if (row.normalBalance && row.normalBalance !== getNormalBalance(row.type)) {
+        warnings.push(issue(row, 'normalBalance', `${row.type} account with a ${row.normalBalance} normal balance is kept as a contra account`));
+      }
+      if (row.normalBalance && row.normalBalance !== 'DEBIT' && row.normalBalance !== 'CREDIT') {
+        errors.push(issue(row, 'normalBalance', 'Normal balance must be DEBIT or CREDIT'));
+      }
+      if (row.reportOrder !== undefined && !Number.isInteger(row.reportOrder)) {
+        errors.push(issue(row, 'reportOrder', 'Report order must be a whole number'));
+      }
+      if (row.level !== undefined && !Number.isInteger(row.level)) {
+        errors.push(issue(row, 'level', 'Level must be a whole number'));
+      }
+      if (existingByCode.has(row.code)) {
+        warnings.push(issue(row, 'code', `Account ${row.code} already exists and is left unchanged`));
+      }
+    }
+
+    // Exported files carry the parent's id; map it to a code within the file or the existing chart
+    const codesById = new Map<number, string>(existingAccounts.map(account => [account.id, account.code]));
+    for (const row of rows) {
+      if (row.id !== undefined && rowsByCode.get(row.code) === row) codesById.set(row.id, row.code);
+    }
+    const parentCodeOf = (row: AccountImportRow): string | undefined =>
+      row.parentCode || (row.parentId !== undefined ? codesById.get(row.parentId) : undefined);
+
+    for (const row of rowsByCode.values()) {
+      const parentCode = parentCodeOf(row);
+      if (!parentCode) {
+        if (row.parentId !== undefined && !row.parentCode) {
+          errors.push(issue(row, 'parentId', `Parent account ${row.parentId} is neither in the file nor in the chart`));
+        }
+        continue;
+      }
+      const parent = rowsByCode.get(parentCode) || existingByCode.get(parentCode);
+      if (!parent) {
+        errors.push(issue(row, 'parentCode', `Parent account ${parentCode} is neither in the file nor in the chart`));
+      } else if (parentCode === row.code) {
+        errors.push(issue(row, 'parentCode', 'An account cannot be its own parent'));
+      } else if (parent.type !== row.type) {
+        errors.push(issue(row, 'parentCode', `Parent account ${parentCode} is ${parent.type}; a ${row.type} account cannot sit under it`));
+      }
+    }
+
+    // Resolve path and level parents first; rows already in the chart keep their stored position
+    const resolved = new Map<string, { path: string; level: number; reportCategory?: string }>(
+      existingAccounts.map(account => [account.code, { path: account.path, level: account.level, reportCategory: account.reportCategory }])
+    );
+    const accounts: NewChartAccount[] = [];
+    const skippedCodes: string[] = [];
+    const visiting = new Set<string>();
+    const resolve = (row: AccountImportRow): { path: string; level: number; reportCategory?: string } | null => {
+      const known = resolved.get(row.code);
+      if (known) return known;
+      if (visiting.has(row.code)) {
+        errors.push(issue(row, 'parentCode', `Account ${row.code} is its own ancestor`));
+        return null;
+      }
+
+      visiting.add(row.code);
+      const parentCode = parentCodeOf(row);
+      const parentRow = parentCode ? rowsByCode.get(parentCode) : undefined;
+      const parent = parentCode
+        ? (parentRow ? resolve(parentRow) : resolved.get(parentCode) || null)
+        : { path: '', level: -1, reportCategory: undefined };
+      visiting.delete(row.code);
+      if (!parent) return null;
+
+      const position = {
+        path: parent.path ? `${parent.path}/${row.code}` : row.code,
+        level: parent.level + 1,
+        reportCategory: row.reportCategory || parent.reportCategory || row.type
+      };
+      if (row.path && row.path !== position.path) {
+        warnings.push(issue(row, 'path', `Path ${row.path} is recomputed as ${position.path}`));
+      }
+      if (row.level !== undefined && Number.isInteger(row.level) && row.level !== position.level) {
+        warnings.push(issue(row, 'level', `Level ${row.level} is recomputed as ${position.level}`));
+      }
+      resolved.set(row.code, position);
+      accounts.push({
+        code: row.code,
+        name: row.name,
+        description: row.description,
+        type: row.type,
+        subtype: row.subtype,
+        category: row.category,
+        parentCode,
+        level: position.level,
+        path: position.path,
+        isActive: row.isActive !== false,
+        isSystem: Boolean(row.isSystem),
+        allowTransactions: row.allowTransactions !== false,
+        normalBalance: row.normalBalance || getNormalBalance(row.type),
+        currentBalance: 0,
+        reportCategory: position.reportCategory,
+        reportOrder: row.reportOrder ?? row.rowNumber * 10
+      });
+      return position;
+    };
+
+    for (const row of rowsByCode.values()) {
+      if (existingByCode.has(row.code)) {
+        skippedCodes.push(row.code);
+      } else if (!errors.some(error => error.code === row.code)) {
+        resolve(row);
+      }
+    }
+
+    return { accounts, skippedCodes, errors, warnings };
+  }
+}
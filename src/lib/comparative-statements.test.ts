@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { AccountingValidationError, ComparativeStatementService, type DatabaseAdapter } from './index';
+import type { Account, ComparativeStatement } from '../types/index.js';
+import { createJournalManager, createTestAccount, createTestAdapter, postEntry } from '../../tests/helpers/ledger';
+import { createTestBudget, createTestCategory } from '../../tests/helpers/budgets';
+
+// Values of the row with the label, by column key
+function rowValues(statement: ComparativeStatement, label: string): Record<string, number> | undefined {
+  return statement.rows.find(row => row.label === label)?.values;
+}
+
+describe('ComparativeStatementService columns', () => {
+  it('should run month columns oldest first, ending on the as-of date', () => {
+    const { columns, varianceColumns } = ComparativeStatementService.getColumns('income-statement', {
+      comparison: 'months',
+      asOfDate: '2026-03-15'
+    });
+
+    expect(columns.map(column => [column.label, column.startDate, column.endDate])).toEqual([
+      ['2026-01', '2026-01-01', '2026-01-31'],
+      ['2026-02', '2026-02-01', '2026-02-28'],
+      ['2026-03', '2026-03-01', '2026-03-15']
+    ]);
+    expect(varianceColumns.map(variance => [variance.label, variance.columnKey, variance.baseKey])).toEqual([
+      ['2026-02 vs 2026-01', 'col2', 'col1'],
+      ['2026-03 vs 2026-02', 'col3', 'col2']
+    ]);
+  });
+
+  it('should label quarters by fiscal year when the year does not start in January', () => {
+    const { columns } = ComparativeStatementService.getColumns('balance-sheet', {
+      comparison: 'quarters',
+      asOfDate: '2026-05-10',
+      periods: 2,
+      fiscalYearStartMonth: 4
+    });
+
+    // Balance sheet columns are balances at the end of each quarter
+    expect(columns.map(column => [column.label, column.startDate, column.endDate])).toEqual([
+      ['Q4 FY2025', undefined, '2026-03-31'],
+      ['Q1 FY2026', undefined, '2026-05-10']
+    ]);
+  });
+
+  it('should compare the year to date with the same days of the prior year', () => {
+    const { columns, varianceColumns } = ComparativeStatementService.getColumns('income-statement', {
+      comparison: 'ytd',
+      asOfDate: '2024-02-29'
+    });
+
+    expect(columns.map(column => [column.startDate, column.endDate])).toEqual([
+      ['2024-01-01', '2024-02-29'],
+      ['2023-01-01', '2023-02-28']
+    ]);
+    expect(varianceColumns).toEqual([{ key: 'var1', label: 'Change', columnKey: 'col1', baseKey: 'col2' }]);
+  });
+
+  it('should refuse periods out of range and a budget comparison of the balance sheet', () => {
+    expect(() => ComparativeStatementService.getColumns('income-statement', { comparison: 'months', asOfDate: '2026-03-15', periods: 0 }))
+      .toThrow(AccountingValidationError);
+    expect(() => ComparativeStatementService.getColumns('income-statement', { comparison: 'months', asOfDate: '2026-03-15', periods: 25 }))
+      .toThrow(AccountingValidationError);
+    expect(() => ComparativeStatementService.getColumns('balance-sheet', { comparison: 'budget', asOfDate: '2026-03-15' }))
+      .toThrow(expect.objectContaining({ code: 'UNSUPPORTED_STATEMENT_COMPARISON' }));
+  });
+
+  it('should leave the variance percentage out when the base is zero', () => {
+    expect(ComparativeStatementService.getVariance(400, 300)).toEqual({ amount: -100, percent: -25 });
+    expect(ComparativeStatementService.getVariance(0, 300)).toEqual({ amount: 300, percent: null });
+  });
+});
+
+describe('ComparativeStatementService statements', () => {
+  let adapter: DatabaseAdapter;
+  let service: ComparativeStatementService;
+  let rent: Account;
+
+  beforeEach(async () => {
+    adapter = createTestAdapter();
+    const cash = await createTestAccount(adapter, '1000', 'ASSET');
+    const loan = await createTestAccount(adapter, '2000', 'LIABILITY');
+    const capital = await createTestAccount(adapter, '3000', 'EQUITY');
+    const sales = await createTestAccount(adapter, '4000', 'REVENUE');
+    rent = await createTestAccount(adapter, '6100', 'EXPENSE');
+    const travel = await createTestAccount(adapter, '6200', 'EXPENSE');
+    const flights = await createTestAccount(adapter, '6210', 'EXPENSE', { parentId: travel.id, level: 1, path: '6200/6210' });
+    const manager = await createJournalManager(adapter);
+    service = new ComparativeStatementService(adapter);
+
+    await postEntry(manager, [{ accountId: cash.id, debit: 5000 }, { accountId: capital.id, credit: 5000 }], { date: '2026-01-05' });
+    await postEntry(manager, [{ accountId: cash.id, debit: 1000 }, { accountId: sales.id, credit: 1000 }], { date: '2026-01-20' });
+    await postEntry(manager, [{ accountId: cash.id, debit: 1500 }, { accountId: sales.id, credit: 1500 }], { date: '2026-02-10' });
+    await postEntry(manager, [{ accountId: rent.id, debit: 400 }, { accountId: cash.id, credit: 400 }], { date: '2026-02-15' });
+    await postEntry(manager, [{ accountId: flights.id, debit: 200 }, { accountId: cash.id, credit: 200 }], { date: '2026-03-03' });
+    await postEntry(manager, [{ accountId: cash.id, debit: 2000 }, { accountId: loan.id, credit: 2000 }], { date: '2026-03-10' });
+  });
+
+  it('should show each month of the income statement with its change from the month before', async () => {
+    const statement = await service.generate('income-statement', { comparison: 'months', asOfDate: '2026-03-15' });
+
+    expect(rowValues(statement, 'Account 4000')).toEqual({ col1: 1000, col2: 1500, col3: 0 });
+    expect(rowValues(statement, 'Total expenses')).toEqual({ col1: 0, col2: 400, col3: 200 });
+    expect(rowValues(statement, 'Net income')).toEqual({ col1: 1000, col2: 1100, col3: -200 });
+    expect(statement.rows.find(row => row.label === 'Account 4000')?.variances).toEqual({
+      var1: { amount: 500, percent: 50 },
+      var2: { amount: -1500, percent: -100 }
+    });
+  });
+
+  it('should fold sub-accounts into their parent below the requested depth', async () => {
+    const statement = await service.generate('income-statement', { comparison: 'months', asOfDate: '2026-03-15', depth: 1 });
+
+    expect(rowValues(statement, 'Account 6200')).toEqual({ col1: 0, col2: 0, col3: 200 });
+    expect(rowValues(statement, 'Account 6210')).toBeUndefined();
+  });
+
+  it('should balance the balance sheet at each period end with current year earnings in equity', async () => {
+    const statement = await service.generate('balance-sheet', { comparison: 'months', asOfDate: '2026-03-31', periods: 2 });
+
+    expect(rowValues(statement, 'Total assets')).toEqual({ col1: 7100, col2: 8900 });
+    expect(rowValues(statement, 'Current year earnings')).toEqual({ col1: 2100, col2: 1900 });
+    expect(rowValues(statement, 'Total liabilities and equity')).toEqual({ col1: 7100, col2: 8900 });
+  });
+
+  it('should compare actuals with the budgeted amount for the days in range', async () => {
+    const category = await createTestCategory('Rent');
+    await adapter.createBudgetAccountMapping({ categoryId: category, accountId: rent.id, includeSubaccounts: false });
+    await createTestBudget(adapter, { categoryId: category, plannedAmount: 900, startDate: '2026-01-01', endDate: '2026-03-31' });
+
+    const quarter = await service.generate('income-statement', { comparison: 'budget', asOfDate: '2026-03-31' });
+    expect(quarter.rows.find(row => row.label === 'Account 6100')).toMatchObject({
+      values: { col1: 400, col2: 900 },
+      variances: { var1: { amount: -500, percent: -55.56 } }
+    });
+
+    // 59 of the budget's 90 days
+    const twoMonths = await service.generate('income-statement', { comparison: 'budget', asOfDate: '2026-02-28' });
+    expect(rowValues(twoMonths, 'Account 6100')).toEqual({ col1: 400, col2: 590 });
+  });
+});
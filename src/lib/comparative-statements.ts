@@ -0,0 +1,404 @@
+/**
+ * Comparative Statements
+ * Balance sheets and income statements side by side over several periods, against budget or by
+ * dimension, with the variance of each column.
+ */
+
+import type {
+  Account,
+  AccountActivity,
+  AccountType,
+  ComparativeStatement,
+  ComparativeStatementOptions,
+  ComparativeStatementRow,
+  ComparativeStatementType,
+  Currency,
+  DimensionStatementOptions,
+  StatementColumn,
+  StatementSection,
+  StatementVariance,
+  StatementVarianceColumn
+} from '../types/index.js';
+import { AccountHierarchyService } from './account-hierarchy';
+import { BudgetActualsService } from './budget-actuals';
+import { FINANCIAL_CONSTANTS } from './constants';
+import type { DatabaseAdapter } from './database-adapter';
+import { DimensionService } from './dimensions';
+import { AccountingValidationError } from './errors';
+import { roundToDecimalPlaces, toISODateString } from './utils';
+
+/**
+ * Balance sheets and income statements with columns side by side: consecutive months or quarters,
+ * year to date against the prior year to date, or actual against budget (income statement only).
+ * Amounts are shown on the section's natural side, so contra accounts come out negative.
+ */
+export class ComparativeStatementService {
+  static readonly DEFAULT_PERIODS = 3;
+  static readonly MAX_PERIODS = 24;
+
+  private static readonly SECTIONS: Record<ComparativeStatementType, Array<{ section: StatementSection; type: AccountType; label: string }>> = {
+    'balance-sheet': [
+      { section: 'ASSETS', type: 'ASSET', label: 'Total assets' },
+      { section: 'LIABILITIES', type: 'LIABILITY', label: 'Total liabilities' },
+      { section: 'EQUITY', type: 'EQUITY', label: 'Total equity' }
+    ],
+    'income-statement': [
+      { section: 'REVENUE', type: 'REVENUE', label: 'Total revenue' },
+      { section: 'EXPENSES', type: 'EXPENSE', label: 'Total expenses' }
+    ]
+  };
+
+  private dbAdapter: DatabaseAdapter;
+
+  constructor(dbAdapter: DatabaseAdapter) {
+    this.dbAdapter = dbAdapter;
+  }
+
+  /**
+   * Change from base to amount; the percentage is relative to the base and null when it is zero
+   */
+  static getVariance(base: number, amount: number): StatementVariance {
+    const change = roundToDecimalPlaces(amount - base);
+    return {
+      amount: change,
+      percent: base !== 0 ? roundToDecimalPlaces((change / Math.abs(base)) * 100) : null
+    };
+  }
+
+  /**
+   * Statement columns and the variance columns comparing them. Months and quarters run oldest
+   * first, each compared with the one before; the newest ends on asOfDate.
+   */
+  static getColumns(
+    statement: ComparativeStatementType,
+    options: ComparativeStatementOptions
+  ): { columns: StatementColumn[]; varianceColumns: StatementVarianceColumn[] } {
+    const periods = options.periods ?? this.DEFAULT_PERIODS;
+    const fiscalStart = (options.fiscalYearStartMonth ?? 1) - 1;
+    if (!Number.isInteger(periods) || periods < 1 || periods > this.MAX_PERIODS) {
+      throw new AccountingValidationError(`Periods must be 1 to ${this.MAX_PERIODS}`, 'INVALID_STATEMENT_PERIODS');
+    }
+    if (!Number.isInteger(fiscalStart) || fiscalStart < 0 || fiscalStart > 11) {
+      throw new AccountingValidationError('Fiscal year start month must be 1 to 12', 'INVALID_FISCAL_YEAR_START');
+    }
+
+    const asOf = new Date(`${options.asOfDate}T00:00:00Z`);
+    const year = asOf.getUTCFullYear();
+    const month = asOf.getUTCMonth();
+    const fiscalYear = month >= fiscalStart ? year : year - 1;
+    const isoDate = (y: number, m: number, d: number) => toISODateString(new Date(Date.UTC(y, m, d)));
+    const clip = (date: string) => date > options.asOfDate ? options.asOfDate : date;
+    const isBalanceSheet = statement === 'balance-sheet';
+    const periodColumns: Array<Omit<StatementColumn, 'key'>> = [];
+
+    switch (options.comparison) {
+      case 'months':
+        for (let index = periods - 1; index >= 0; index--) {
+          const startDate = isoDate(year, month - index, 1);
+          periodColumns.push({
+            label: startDate.slice(0, 7),
+            basis: 'actual',
+            startDate,
+            endDate: clip(isoDate(year, month - index + 1, 0))
+          });
+        }
+        break;
+      case 'quarters': {
+        const quarterStart = month - ((month - fiscalStart + 12) % 12) % 3;
+        for (let index = periods - 1; index >= 0; index--) {
+          const start = new Date(Date.UTC(year, quarterStart - index * 3, 1));
+          const startMonth = start.getUTCMonth();
+          const quarter = Math.floor(((startMonth - fiscalStart + 12) % 12) / 3) + 1;
+          const quarterYear = startMonth >= fiscalStart ? start.getUTCFullYear() : start.getUTCFullYear() - 1;
+          periodColumns.push({
+            label: fiscalStart === 0 ? `Q${quarter} ${quarterYear}` : `Q${quarter} FY${quarterYear}`,
+            basis: 'actual',
+            startDate: toISODateString(start),
+            endDate: clip(isoDate(start.getUTCFullYear(), startMonth + 3, 0))
+          });
+        }
+        break;
+      }
+      case 'ytd': {
+        const lastDayPriorYear = new Date(Date.UTC(year - 1, month + 1, 0)).getUTCDate();
+        periodColumns.push(
+          {
+            label: 'Year to date',
+            basis: 'actual',
+            startDate: isoDate(fiscalYear, fiscalStart, 1),
+            endDate: options.asOfDate
+          },
+          {
+            label: 'Prior year to date',
+            basis: 'actual',
+            startDate: isoDate(fiscalYear - 1, fiscalStart, 1),
+            endDate: isoDate(year - 1, month, Math.min(asOf.getUTCDate(), lastDayPriorYear))
+          }
+        );
+        break;
+      }
+      case 'budget': {
+        if (isBalanceSheet) {
+          throw new AccountingValidationError(
+            'Actual versus budget is only available for the income statement',
+            'UNSUPPORTED_STATEMENT_COMPARISON'
+          );
+        }
+        const startDate = options.startDate ?? isoDate(fiscalYear, fiscalStart, 1);
+        if (startDate > options.asOfDate) {
+          throw new AccountingValidationError('Start date cannot be after the as-of date', 'INVALID_DATE_RANGE');
+        }
+        periodColumns.push(
+          { label: 'Actual', basis: 'actual', startDate, endDate: options.asOfDate },
+          { label: 'Budget', basis: 'budget', startDate, endDate: options.asOfDate }
+        );
+        break;
+      }
+    }
+
+    // Balance sheet columns are balances at the end of each period
+    const columns = periodColumns.map((column, index) => ({
+      ...column,
+      key: `col${index + 1}`,
+      startDate: isBalanceSheet ? undefined : column.startDate
+    }));
+
+    const varianceColumns = options.comparison === 'months' || options.comparison === 'quarters'
+      ? columns.slice(1).map((column, index) => ({
+        key: `var${index + 1}`,
+        label: `${column.label} vs ${columns[index].label}`,
+        columnKey: column.key,
+        baseKey: columns[index].key
+      }))
+      : [{
+        key: 'var1',
+        label: options.comparison === 'budget' ? 'Variance to budget' : 'Change',
+        columnKey: columns[0].key,
+        baseKey: columns[1].key
+      }];
+
+    return { columns, varianceColumns };
+  }
+
+  async generate(statement: ComparativeStatementType, options: ComparativeStatementOptions): Promise<ComparativeStatement> {
+    const { columns, varianceColumns } = ComparativeStatementService.getColumns(statement, options);
+    if (options.comparison === 'budget' && Object.values(options.dimensions ?? {}).some(Boolean)) {
+      throw new AccountingValidationError(
+        'Budgets are not kept by dimension; compare periods when filtering by dimension',
+        'UNSUPPORTED_STATEMENT_COMPARISON'
+      );
+    }
+
+    const accounts = (await this.dbAdapter.getAllAccounts()).sort((a, b) => a.code.localeCompare(b.code));
+    const byId = new Map(accounts.map(account => [account.id, account]));
+    const values = new Map<number, Record<string, number>>();
+    // Unclosed revenue less expenses, shown in equity so the balance sheet balances
+    const earnings: Record<string, number> = {};
+    // Budgets covering several accounts only count towards their section total
+    const unassignedBudget: Partial<Record<StatementSection, Record<string, number>>> = {};
+
+    for (const column of columns) {
+      if (column.basis === 'budget') {
+        const budgets = await new BudgetActualsService(this.dbAdapter)
+          .getBudgetedAmounts(column.startDate as string, column.endDate);
+        for (const budget of budgets) {
+          if (budget.budgetType !== 'REVENUE' && budget.budgetType !== 'EXPENSE') continue;
+
+          const section: StatementSection = budget.budgetType === 'REVENUE' ? 'REVENUE' : 'EXPENSES';
+          const account = budget.accountIds.length === 1 ? byId.get(budget.accountIds[0]) : undefined;
+          const target = account && account.type === budget.budgetType
+            ? values.get(account.id) ?? {}
+            : unassignedBudget[section] ?? {};
+          target[column.key] = roundToDecimalPlaces((target[column.key] || 0) + budget.amount);
+          if (account && account.type === budget.budgetType) {
+            values.set(account.id, target);
+          } else {
+            unassignedBudget[section] = target;
+          }
+        }
+        continue;
+      }
+
+      const activity = statement === 'balance-sheet'
+        ? await this.dbAdapter.getAccountActivityThrough(column.endDate, options.dimensions)
+        : await this.dbAdapter.getAccountActivity(column.startDate as string, column.endDate, options.dimensions);
+
+      for (const row of activity) {
+        const account = byId.get(row.accountId);
+        if (!account) continue;
+
+        const amount = ComparativeStatementService.getSectionAmount(account.type, row);
+        values.set(account.id, { ...values.get(account.id), [column.key]: amount });
+        if (account.type === 'REVENUE' || account.type === 'EXPENSE') {
+          earnings[column.key] = roundToDecimalPlaces(
+            (earnings[column.key] || 0) + (account.type === 'REVENUE' ? amount : -amount)
+          );
+        }
+      }
+    }
+
+    return this.buildStatement(statement, options.comparison, accounts, columns, varianceColumns, values, earnings, unassignedBudget, options.depth);
+  }
+
+  /**
+   * Statement with one column per code of the dimension, then lines without one, then the total.
+   * The income statement runs from startDate (by default the start of the fiscal year) to asOfDate;
+   * the balance sheet shows balances at asOfDate.
+   */
+  async generateByDimension(statement: ComparativeStatementType, options: DimensionStatementOptions): Promise<ComparativeStatement> {
+    const startDate = statement === 'balance-sheet'
+      ? undefined
+      : options.startDate ?? ComparativeStatementService.getColumns(statement, {
+        comparison: 'ytd',
+        asOfDate: options.asOfDate,
+        fiscalYearStartMonth: options.fiscalYearStartMonth
+      }).columns[0].startDate;
+    if (startDate && startDate > options.asOfDate) {
+      throw new AccountingValidationError('Start date cannot be after the as-of date', 'INVALID_DATE_RANGE');
+    }
+
+    const accounts = (await this.dbAdapter.getAllAccounts()).sort((a, b) => a.code.localeCompare(b.code));
+    const byId = new Map(accounts.map(account => [account.id, account]));
+    const activity = await this.dbAdapter.getAccountActivityByDimension(options.groupBy, startDate, options.asOfDate, options.dimensions);
+    const names = new Map((await this.dbAdapter.getDimensions(options.groupBy)).map(dimension => [dimension.code, dimension.name]));
+
+    const codes = [...new Set(activity.map(row => row.dimensionCode))]
+      .sort((a, b) => a === null ? 1 : b === null ? -1 : a.localeCompare(b));
+    const keys = new Map(codes.map((code, index) => [code, `col${index + 1}`]));
+    const columns: StatementColumn[] = [
+      ...codes.map(code => ({
+        key: keys.get(code) as string,
+        label: code === null ? `No ${DimensionService.getLabel(options.groupBy)}` : names.get(code) ?? code,
+        basis: 'actual' as const,
+        startDate,
+        endDate: options.asOfDate
+      })),
+      { key: 'total', label: 'Total', basis: 'actual', startDate, endDate: options.asOfDate }
+    ];
+
+    const values = new Map<number, Record<string, number>>();
+    const earnings: Record<string, number> = {};
+    for (const row of activity) {
+      const account = byId.get(row.accountId);
+      if (!account) continue;
+
+      const amount = ComparativeStatementService.getSectionAmount(account.type, row);
+      const accountValues = values.get(account.id) ?? {};
+      for (const key of [keys.get(row.dimensionCode) as string, 'total']) {
+        accountValues[key] = roundToDecimalPlaces((accountValues[key] || 0) + amount);
+        if (account.type === 'REVENUE' || account.type === 'EXPENSE') {
+          earnings[key] = roundToDecimalPlaces((earnings[key] || 0) + (account.type === 'REVENUE' ? amount : -amount));
+        }
+      }
+      values.set(account.id, accountValues);
+    }
+
+    return this.buildStatement(statement, 'dimension', accounts, columns, [], values, earnings, {}, options.depth);
+  }
+
+  private buildStatement(
+    statement: ComparativeStatementType,
+    comparison: ComparativeStatement['comparison'],
+    accounts: Account[],
+    columns: StatementColumn[],
+    varianceColumns: StatementVarianceColumn[],
+    values: Map<number, Record<string, number>>,
+    earnings: Record<string, number>,
+    unassignedBudget: Partial<Record<StatementSection, Record<string, number>>>,
+    depth?: number
+  ): ComparativeStatement {
+    const byId = new Map(accounts.map(account => [account.id, account]));
+    if (depth !== undefined) {
+      // Fold accounts below the depth into their ancestor; a child filed under another type keeps its own row
+      const displayIds = AccountHierarchyService.getDisplayAccountIds(accounts, depth);
+      for (const [accountId, accountValues] of values) {
+        const displayId = displayIds.get(accountId) as number;
+        if (displayId === accountId || byId.get(displayId)?.type !== byId.get(accountId)?.type) continue;
+
+        const target = { ...values.get(displayId) };
+        for (const [key, amount] of Object.entries(accountValues)) {
+          target[key] = roundToDecimalPlaces((target[key] || 0) + amount);
+        }
+        values.set(displayId, target);
+        values.delete(accountId);
+      }
+    }
+
+    const rows: ComparativeStatementRow[] = [];
+    const totals = new Map<StatementSection, Record<string, number>>();
+    const complete = (partial: Record<string, number>) =>
+      Object.fromEntries(columns.map(column => [column.key, partial[column.key] || 0]));
+    const addRow = (
+      section: StatementSection,
+      rowType: ComparativeStatementRow['rowType'],
+      label: string,
+      rowValues: Record<string, number>,
+      account?: Account
+    ) => {
+      rows.push({
+        section,
+        rowType,
+        label,
+        accountId: account?.id,
+        accountCode: account?.code,
+        level: account?.level,
+        values: rowValues,
+        variances: Object.fromEntries(varianceColumns.map(variance => [
+          variance.key,
+          ComparativeStatementService.getVariance(rowValues[variance.baseKey], rowValues[variance.columnKey])
+        ]))
+      });
+    };
+
+    for (const { section, type, label } of ComparativeStatementService.SECTIONS[statement]) {
+      const sectionRows: Array<{ label: string; values: Record<string, number>; account?: Account }> = accounts
+        .filter(account => account.type === type && values.has(account.id))
+        .map(account => ({ label: account.name, values: complete(values.get(account.id) ?? {}), account }));
+
+      if (section === 'EQUITY') {
+        sectionRows.push({ label: 'Current year earnings', values: complete(earnings) });
+      }
+      if (unassignedBudget[section]) {
+        sectionRows.push({ label: 'Budgeted across several accounts', values: complete(unassignedBudget[section] ?? {}) });
+      }
+
+      const total = complete({});
+      for (const row of sectionRows) {
+        if (Object.values(row.values).every(value => value === 0)) continue;
+        addRow(section, 'account', row.label, row.values, row.account);
+        for (const column of columns) {
+          total[column.key] = roundToDecimalPlaces(total[column.key] + row.values[column.key]);
+        }
+      }
+      addRow(section, 'total', label, total);
+      totals.set(section, total);
+    }
+
+    const combine = (first: StatementSection, second: StatementSection, sign: 1 | -1) => Object.fromEntries(
+      columns.map(column => [
+        column.key,
+        roundToDecimalPlaces((totals.get(first)?.[column.key] || 0) + sign * (totals.get(second)?.[column.key] || 0))
+      ])
+    );
+    if (statement === 'balance-sheet') {
+      addRow('SUMMARY', 'total', 'Total liabilities and equity', combine('LIABILITIES', 'EQUITY', 1));
+    } else {
+      addRow('SUMMARY', 'total', 'Net income', combine('REVENUE', 'EXPENSES', -1));
+    }
+
+    return {
+      statement,
+      comparison,
+      currency: FINANCIAL_CONSTANTS.DEFAULT_CURRENCY as Currency,
+      columns,
+      varianceColumns,
+      rows
+    };
+  }
+
+  // Assets and expenses are presented debit-positive; liabilities, equity and revenue credit-positive
+  private static getSectionAmount(type: AccountType, activity: AccountActivity): number {
+    const netDebit = activity.debitTotal - activity.creditTotal;
+    return roundToDecimalPlaces(type === 'ASSET' || type === 'EXPENSE' ? netDebit : -netDebit);
+  }
+}
@@ -0,0 +1,97 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ConsolidationService, type DatabaseAdapter } from './index';
+import type { Account, ConsolidationWorksheet } from '../types/index.js';
+import { createJournalManager, createTestAccount, createTestAdapter, postEntry } from '../../tests/helpers/ledger';
+
+// Amount of the entity on the worksheet row with the label
+function amountOf(worksheet: ConsolidationWorksheet, label: string, entityId: string): number | undefined {
+  return worksheet.rows.find(row => row.label === label)?.amounts[entityId];
+}
+
+describe('ConsolidationService', () => {
+  let parent: DatabaseAdapter;
+  let service: ConsolidationService;
+  let dueFrom: Account;
+
+  beforeEach(async () => {
+    parent = createTestAdapter('parent');
+    const subsidiary = createTestAdapter('subsidiary');
+    service = new ConsolidationService({ database: env.FINANCE_MANAGER_DB, entityId: 'parent' });
+    await service.saveEntity('parent', { name: 'Parent', currency: 'IDR', ownershipPercent: 100, isActive: true });
+    // A US subsidiary whose ledger, like every ledger, is kept in the base currency
+    await service.saveEntity('subsidiary', {
+      name: 'Subsidiary',
+      currency: 'USD',
+      parentEntityId: 'parent',
+      ownershipPercent: 80,
+      isActive: true
+    });
+
+    const cash = await createTestAccount(subsidiary, '1000', 'ASSET');
+    const dueTo = await createTestAccount(subsidiary, '2300', 'LIABILITY');
+    const capital = await createTestAccount(subsidiary, '3000', 'EQUITY', { name: 'Share capital' });
+    const sales = await createTestAccount(subsidiary, '4000', 'REVENUE', { name: 'Sales' });
+    await subsidiary.createIntercompanyAccount({ accountId: dueTo.id, eliminationTag: 'IC-LOAN', counterpartyEntityId: 'parent' });
+    const manager = await createJournalManager(subsidiary);
+    await postEntry(manager, [{ accountId: cash.id, debit: 1_500_000 }, { accountId: capital.id, credit: 1_500_000 }], { date: '2026-01-10' });
+    await postEntry(manager, [{ accountId: cash.id, debit: 300_000 }, { accountId: sales.id, credit: 300_000 }], { date: '2026-02-10' });
+    // Booked in USD, held at its base amount of 1,500,000
+    await postEntry(manager, [{ accountId: cash.id, debit: 100 }, { accountId: sales.id, credit: 100 }],
+      { date: '2026-02-20', currency: 'USD', exchangeRate: 15_000 });
+    await postEntry(manager, [{ accountId: cash.id, debit: 775_000 }, { accountId: dueTo.id, credit: 775_000 }], { date: '2026-02-25' });
+
+    const parentCash = await createTestAccount(parent, '1000', 'ASSET');
+    dueFrom = await createTestAccount(parent, '1300', 'ASSET');
+    await parent.createIntercompanyAccount({ accountId: dueFrom.id, eliminationTag: 'IC-LOAN', counterpartyEntityId: 'subsidiary' });
+    await postEntry(await createJournalManager(parent), [{ accountId: dueFrom.id, debit: 775_000 }, { accountId: parentCash.id, credit: 775_000 }], { date: '2026-02-25' });
+
+    await parent.saveExchangeRate({ fromCurrency: 'USD', toCurrency: 'IDR', rate: 15_000, effectiveDate: '2026-01-01' });
+    await parent.saveExchangeRate({ fromCurrency: 'USD', toCurrency: 'IDR', rate: 15_500, effectiveDate: '2026-02-01' });
+  });
+
+  it('should take a foreign subsidiary into a base-currency group at its ledger amounts', async () => {
+    const worksheet = await service.buildWorksheet({ startDate: '2026-01-01', asOfDate: '2026-02-28' });
+
+    expect(worksheet.entities.find(entity => entity.entityId === 'subsidiary')).toMatchObject({
+      currency: 'USD',
+      closingRate: 1,
+      averageRate: 1
+    });
+    expect(amountOf(worksheet, 'Account 1000', 'subsidiary')).toBe(4_075_000);
+    expect(amountOf(worksheet, 'Sales', 'subsidiary')).toBe(-1_800_000);
+    expect(amountOf(worksheet, 'Cumulative translation adjustment', 'subsidiary')).toBeUndefined();
+    expect(worksheet.nonControllingInterests).toMatchObject([{ entityId: 'subsidiary', netAssets: 3_300_000, nonControllingNetIncome: 360_000 }]);
+    expect(worksheet.totals.isBalanced).toBe(true);
+  });
+
+  it('should translate every ledger from the base currency into a foreign presentation currency', async () => {
+    await service.saveEntity('parent', { name: 'Parent', currency: 'USD', ownershipPercent: 100, isActive: true });
+
+    const worksheet = await service.buildWorksheet({ startDate: '2026-01-01', asOfDate: '2026-02-28' });
+
+    const column = worksheet.entities.find(entity => entity.entityId === 'subsidiary');
+    expect(column?.closingRate).toBeCloseTo(1 / 15_500, 10);
+    expect(column?.averageRate).toBeCloseTo((1 / 15_000 + 1 / 15_500) / 2, 10);
+    // Balances at the closing rate, the period's income at the average rate
+    expect(amountOf(worksheet, 'Account 1000', 'subsidiary')).toBe(262.9);
+    expect(amountOf(worksheet, 'Share capital', 'subsidiary')).toBe(-96.77);
+    expect(amountOf(worksheet, 'Sales', 'subsidiary')).toBe(-118.06);
+    expect(amountOf(worksheet, 'Cumulative translation adjustment', 'subsidiary')).toBe(1.93);
+    // The intercompany loan translates at the same rate on both sides and eliminates in full
+    expect(worksheet.eliminations).toMatchObject([{ eliminationTag: 'IC-LOAN', difference: 0, isBalanced: true }]);
+    expect(worksheet.totals.isBalanced).toBe(true);
+  });
+
+  it('should reconcile intercompany balances translated from the base currency', async () => {
+    await service.saveEntity('parent', { name: 'Parent', currency: 'USD', ownershipPercent: 100, isActive: true });
+
+    const reconciliation = await service.getIntercompanyReconciliation('2026-02-28');
+
+    expect(reconciliation.pairs).toMatchObject([{ entityBalance: 50, counterpartyBalance: -50, difference: 0, isBalanced: true }]);
+    expect(reconciliation.pairs[0].accounts.find(account => account.accountId === dueFrom.id)).toMatchObject({
+      balance: 775_000,
+      translatedBalance: 50
+    });
+  });
+});
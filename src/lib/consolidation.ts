@@ -0,0 +1,494 @@
+/**
+ * Consolidation
+ * Group trial balances and statements of a parent entity and its subsidiaries, translated into
+ * the parent's currency with intercompany balances eliminated.
+ */
+
+import type {
+  AccountActivity,
+  AccountType,
+  ComparativeStatement,
+  ComparativeStatementRow,
+  ComparativeStatementType,
+  ConsolidatedTrialBalance,
+  ConsolidationElimination,
+  ConsolidationEliminationLine,
+  ConsolidationEntity,
+  ConsolidationEntityColumn,
+  ConsolidationOptions,
+  ConsolidationWorksheet,
+  ConsolidationWorksheetRow,
+  Currency,
+  IntercompanyAccount,
+  IntercompanyBalanceAccount,
+  IntercompanyBalancePair,
+  IntercompanyReconciliation,
+  NonControllingInterest,
+  StatementColumn,
+  StatementSection
+} from '../types/index.js';
+import { BudgetPlanner } from './budget-planner';
+import { FINANCIAL_CONSTANTS } from './constants';
+import { DatabaseAdapter, type DatabaseConfig } from './database-adapter';
+import { AccountingValidationError } from './errors';
+import { ExchangeRateService } from './exchange-rates';
+import { roundToDecimalPlaces } from './utils';
+
+/**
+ * Consolidates a parent entity and the subsidiaries below it into the parent's currency.
+ * Every ledger holds its amounts in the base currency, whatever the entity's functional currency,
+ * so each is translated from the base currency with the current rate method: asset, liability
+ * and equity balances at the closing rate, revenue and expenses of the period at the average rate,
+ * and what is left over as a cumulative translation adjustment. Subsidiaries are consolidated in
+ * full and the share held by others is reported as non-controlling interests. Accounts are
+ * combined across entities by report category, or by name when they have none.
+ */
+export class ConsolidationService {
+  private static readonly TYPE_ORDER: AccountType[] = ['ASSET', 'LIABILITY', 'EQUITY', 'REVENUE', 'EXPENSE'];
+
+  private config: DatabaseConfig;
+  private dbAdapter: DatabaseAdapter;
+
+  constructor(config: DatabaseConfig) {
+    this.config = config;
+    this.dbAdapter = new DatabaseAdapter(config);
+  }
+
+  /**
+   * Register or update an entity of the hierarchy. The parent must be registered and may not
+   * be the entity itself or one of its subsidiaries.
+   */
+  async saveEntity(
+    entityId: string,
+    entity: Pick<ConsolidationEntity, 'name' | 'currency' | 'parentEntityId' | 'ownershipPercent' | 'isActive'>,
+    userId?: string
+  ): Promise<ConsolidationEntity> {
+    if (entity.ownershipPercent <= 0 || entity.ownershipPercent > 100) {
+      throw new AccountingValidationError('Ownership must be more than 0 and at most 100 percent', 'INVALID_OWNERSHIP_PERCENT');
+    }
+
+    let ancestorId = entity.parentEntityId;
+    while (ancestorId) {
+      if (ancestorId === entityId) {
+        throw new AccountingValidationError(
+          'An entity cannot be its own parent or sit below one of its subsidiaries',
+          'ENTITY_HIERARCHY_CYCLE'
+        );
+      }
+      const ancestor = await this.dbAdapter.getEntity(ancestorId);
+      if (!ancestor) {
+        throw new AccountingValidationError(`Parent entity ${ancestorId} is not registered`, 'PARENT_ENTITY_NOT_FOUND');
+      }
+      ancestorId = ancestor.parentEntityId;
+    }
+
+    return this.dbAdapter.saveEntity(entityId, entity, userId);
+  }
+
+  /**
+   * Consolidation worksheet for the group headed by the adapter's entity: the translated
+   * balances of each entity, the intercompany eliminations and the consolidated balances.
+   * Inactive entities and everything below them are left out.
+   */
+  async buildWorksheet(options: ConsolidationOptions): Promise<ConsolidationWorksheet> {
+    if (options.startDate > options.asOfDate) {
+      throw new AccountingValidationError('Start date cannot be after the as-of date', 'INVALID_DATE_RANGE');
+    }
+
+    const group = await this.dbAdapter.getEntityGroup();
+    const parent = group[0];
+    if (!parent) {
+      throw new AccountingValidationError('The entity is not registered for consolidation', 'ENTITY_NOT_FOUND');
+    }
+
+    const effectiveOwnership = new Map<string, number>([[parent.id, 100]]);
+    for (const entity of group.slice(1)) {
+      const parentShare = entity.parentEntityId ? effectiveOwnership.get(entity.parentEntityId) : undefined;
+      if (entity.isActive && parentShare !== undefined) {
+        effectiveOwnership.set(entity.id, roundToDecimalPlaces((parentShare * entity.ownershipPercent) / 100, 4));
+      }
+    }
+    const included = group.filter(entity => effectiveOwnership.has(entity.id));
+
+    const presentationCurrency = parent.currency;
+    const ledgerCurrency = FINANCIAL_CONSTANTS.DEFAULT_CURRENCY as Currency;
+    const exchangeRates = new ExchangeRateService(this.dbAdapter);
+    // Rows follow the lowest account code combined into them; rows without accounts come last
+    const rows = new Map<string, ConsolidationWorksheetRow & { order: string }>();
+    const getRow = (accountType: AccountType, label: string, order: string = '\uffff') => {
+      const key = `${accountType}:${label}`;
+      const row = rows.get(key) ?? { key, label, accountType, amounts: {}, eliminations: 0, consolidated: 0, order };
+      row.order = order < row.order ? order : row.order;
+      rows.set(key, row);
+      return row;
+    };
+    const addAmount = (row: ConsolidationWorksheetRow, entityId: string, amount: number) => {
+      row.amounts[entityId] = roundToDecimalPlaces((row.amounts[entityId] || 0) + amount);
+    };
+
+    const columns: ConsolidationEntityColumn[] = [];
+    // Translated net debit and worksheet row of every account, for the eliminations
+    const translated = new Map<number, { amount: number; rowKey: string }>();
+
+    for (const entity of included) {
+      const closingRate = await exchangeRates.getRate(ledgerCurrency, presentationCurrency, options.asOfDate);
+      const monthEndRates: number[] = [];
+      for (const range of BudgetPlanner.getMonthRanges(options.startDate, options.asOfDate)) {
+        monthEndRates.push(await exchangeRates.getRate(ledgerCurrency, presentationCurrency, range.endDate));
+      }
+      const averageRate = monthEndRates.reduce((sum, rate) => sum + rate, 0) / monthEndRates.length;
+
+      columns.push({
+        entityId: entity.id,
+        name: entity.name,
+        currency: entity.currency,
+        parentEntityId: entity.id === parent.id ? undefined : entity.parentEntityId,
+        ownershipPercent: entity.id === parent.id ? 100 : entity.ownershipPercent,
+        effectiveOwnershipPercent: effectiveOwnership.get(entity.id) as number,
+        closingRate,
+        averageRate
+      });
+
+      const entityAdapter = new DatabaseAdapter({ ...this.config, entityId: entity.id });
+      const accounts = new Map((await entityAdapter.getAllAccounts()).map(account => [account.id, account]));
+      const netDebit = (activity: AccountActivity) => activity.debitTotal - activity.creditTotal;
+      const periodActivity = new Map(
+        (await entityAdapter.getAccountActivity(options.startDate, options.asOfDate)).map(row => [row.accountId, netDebit(row)])
+      );
+      let entityTotal = 0;
+      let earningsBroughtForward = 0;
+
+      for (const activity of await entityAdapter.getAccountActivityThrough(options.asOfDate)) {
+        const account = accounts.get(activity.accountId);
+        if (!account) continue;
+
+        // Revenue and expenses before the period are unclosed earnings brought forward
+        const isEarnings = account.type === 'REVENUE' || account.type === 'EXPENSE';
+        const periodAmount = periodActivity.get(account.id) || 0;
+        if (isEarnings) {
+          earningsBroughtForward += netDebit(activity) - periodAmount;
+        }
+
+        const amount = roundToDecimalPlaces(isEarnings ? periodAmount * averageRate : netDebit(activity) * closingRate);
+        if (amount === 0) continue;
+
+        const row = getRow(account.type, account.reportCategory || account.name, account.code);
+        addAmount(row, entity.id, amount);
+        translated.set(account.id, { amount, rowKey: row.key });
+        entityTotal += amount;
+      }
+
+      const broughtForward = roundToDecimalPlaces(earningsBroughtForward * closingRate);
+      if (broughtForward !== 0) {
+        addAmount(getRow('EQUITY', 'Earnings brought forward'), entity.id, broughtForward);
+        entityTotal += broughtForward;
+      }
+      // Rates differ by account type, so the translated ledger no longer balances on its own
+      const translationAdjustment = roundToDecimalPlaces(-entityTotal);
+      if (translationAdjustment !== 0) {
+        addAmount(getRow('EQUITY', 'Cumulative translation adjustment'), entity.id, translationAdjustment);
+      }
+    }
+
+    const eliminations: ConsolidationElimination[] = [];
+    const tagged = new Map<string, IntercompanyAccount[]>();
+    for (const account of await this.dbAdapter.getIntercompanyAccounts(included.map(entity => entity.id))) {
+      tagged.set(account.eliminationTag, [...(tagged.get(account.eliminationTag) || []), account]);
+    }
+
+    for (const [eliminationTag, accounts] of tagged) {
+      const lines: ConsolidationEliminationLine[] = [];
+      let balance = 0;
+      for (const account of accounts) {
+        const entry = translated.get(account.accountId);
+        if (!entry) continue;
+
+        lines.push({
+          entityId: account.entityId,
+          accountId: account.accountId,
+          accountCode: account.accountCode,
+          accountName: account.accountName || '',
+          rowKey: entry.rowKey,
+          debitAmount: entry.amount < 0 ? -entry.amount : 0,
+          creditAmount: entry.amount > 0 ? entry.amount : 0
+        });
+        balance += entry.amount;
+      }
+      if (lines.length === 0) continue;
+
+      // What does not offset stays in the group as a difference to investigate
+      const difference = roundToDecimalPlaces(balance);
+      if (difference !== 0) {
+        const allEarnings = lines.every(line => {
+          const type = rows.get(line.rowKey)?.accountType;
+          return type === 'REVENUE' || type === 'EXPENSE';
+        });
+        const row = getRow(allEarnings ? 'EXPENSE' : 'EQUITY', 'Intercompany elimination differences');
+        lines.push({
+          entityId: parent.id,
+          accountName: row.label,
+          rowKey: row.key,
+          debitAmount: difference > 0 ? difference : 0,
+          creditAmount: difference < 0 ? -difference : 0
+        });
+      }
+
+      for (const line of lines) {
+        const row = rows.get(line.rowKey) as ConsolidationWorksheetRow;
+        row.eliminations = roundToDecimalPlaces(row.eliminations + line.debitAmount - line.creditAmount);
+      }
+      eliminations.push({ eliminationTag, lines, difference, isBalanced: difference === 0 });
+    }
+
+    const worksheetRows = [...rows.values()]
+      .sort((a, b) =>
+        ConsolidationService.TYPE_ORDER.indexOf(a.accountType) - ConsolidationService.TYPE_ORDER.indexOf(b.accountType)
+        || (a.order === b.order ? a.label.localeCompare(b.label) : a.order < b.order ? -1 : 1))
+      .map(({ order: _order, ...row }) => ({
+        ...row,
+        consolidated: roundToDecimalPlaces(
+          Object.values(row.amounts).reduce((sum, amount) => sum + amount, 0) + row.eliminations
+        )
+      }));
+
+    const sumAmounts = (entityId: string, types: AccountType[]) => roundToDecimalPlaces(worksheetRows
+      .filter(row => types.includes(row.accountType))
+      .reduce((sum, row) => sum + (row.amounts[entityId] || 0), 0));
+    const nonControllingInterests: NonControllingInterest[] = columns
+      .filter(column => column.effectiveOwnershipPercent < 100)
+      .map(column => {
+        const netAssets = sumAmounts(column.entityId, ['ASSET', 'LIABILITY']);
+        const netIncome = -sumAmounts(column.entityId, ['REVENUE', 'EXPENSE']);
+        const share = (100 - column.effectiveOwnershipPercent) / 100;
+        return {
+          entityId: column.entityId,
+          effectiveOwnershipPercent: column.effectiveOwnershipPercent,
+          netAssets,
+          netIncome,
+          nonControllingNetAssets: roundToDecimalPlaces(netAssets * share),
+          nonControllingNetIncome: roundToDecimalPlaces(netIncome * share)
+        };
+      });
+
+    const debits = roundToDecimalPlaces(worksheetRows.reduce((sum, row) => sum + Math.max(row.consolidated, 0), 0));
+    const credits = roundToDecimalPlaces(worksheetRows.reduce((sum, row) => sum + Math.max(-row.consolidated, 0), 0));
+
+    return {
+      parentEntityId: parent.id,
+      presentationCurrency,
+      startDate: options.startDate,
+      asOfDate: options.asOfDate,
+      entities: columns,
+      rows: worksheetRows,
+      eliminations,
+      nonControllingInterests,
+      totals: {
+        debits,
+        credits,
+        isBalanced: Math.abs(debits - credits) < 0.01
+      }
+    };
+  }
+
+  /**
+   * Balances the group's entities hold against each other on accounts tagged with a counterparty,
+   * translated at the closing rate. Each pair should net to zero; any difference is flagged.
+   */
+  async getIntercompanyReconciliation(asOfDate: string): Promise<IntercompanyReconciliation> {
+    const group = await this.dbAdapter.getEntityGroup();
+    const parent = group[0];
+    if (!parent) {
+      throw new AccountingValidationError('The entity is not registered for consolidation', 'ENTITY_NOT_FOUND');
+    }
+
+    const entities = new Map(group.map(entity => [entity.id, entity]));
+    // Every ledger holds its amounts in the base currency
+    const rate = await new ExchangeRateService(this.dbAdapter)
+      .getRate(FINANCIAL_CONSTANTS.DEFAULT_CURRENCY as Currency, parent.currency, asOfDate);
+    const ledgers = new Map<string, Map<number, number>>();
+    const pairs = new Map<string, IntercompanyBalancePair>();
+
+    for (const tagged of await this.dbAdapter.getIntercompanyAccounts([...entities.keys()])) {
+      if (!tagged.counterpartyEntityId || !entities.has(tagged.counterpartyEntityId)) continue;
+
+      let balances = ledgers.get(tagged.entityId);
+      if (!balances) {
+        const entityAdapter = new DatabaseAdapter({ ...this.config, entityId: tagged.entityId });
+        const activity = await entityAdapter.getAccountActivityThrough(asOfDate);
+        balances = new Map(activity.map(row => [row.accountId, row.debitTotal - row.creditTotal]));
+        ledgers.set(tagged.entityId, balances);
+      }
+
+      const balance = roundToDecimalPlaces(balances.get(tagged.accountId) || 0);
+      const account: IntercompanyBalanceAccount = {
+        entityId: tagged.entityId,
+        accountId: tagged.accountId,
+        accountCode: tagged.accountCode,
+        accountName: tagged.accountName,
+        balance,
+        translatedBalance: roundToDecimalPlaces(balance * rate)
+      };
+
+      const [entityId, counterpartyEntityId] = [tagged.entityId, tagged.counterpartyEntityId].sort();
+      const key = `${entityId}|${counterpartyEntityId}`;
+      const pair = pairs.get(key) ?? {
+        entityId,
+        counterpartyEntityId,
+        entityBalance: 0,
+        counterpartyBalance: 0,
+        difference: 0,
+        isBalanced: true,
+        accounts: []
+      };
+      if (tagged.entityId === entityId) {
+        pair.entityBalance = roundToDecimalPlaces(pair.entityBalance + account.translatedBalance);
+      } else {
+        pair.counterpartyBalance = roundToDecimalPlaces(pair.counterpartyBalance + account.translatedBalance);
+      }
+      pair.accounts.push(account);
+      pairs.set(key, pair);
+    }
+
+    const reconciled = [...pairs.values()].map(pair => {
+      const difference = roundToDecimalPlaces(pair.entityBalance + pair.counterpartyBalance);
+      return { ...pair, difference, isBalanced: difference === 0 };
+    });
+
+    return {
+      parentEntityId: parent.id,
+      presentationCurrency: parent.currency,
+      asOfDate,
+      pairs: reconciled,
+      unbalancedCount: reconciled.filter(pair => !pair.isBalanced).length
+    };
+  }
+
+  /**
+   * Consolidated balances of the worksheet as a trial balance
+   */
+  static getTrialBalance(worksheet: ConsolidationWorksheet): ConsolidatedTrialBalance {
+    return {
+      parentEntityId: worksheet.parentEntityId,
+      presentationCurrency: worksheet.presentationCurrency,
+      startDate: worksheet.startDate,
+      asOfDate: worksheet.asOfDate,
+      lines: worksheet.rows
+        .filter(row => row.consolidated !== 0)
+        .map(row => ({
+          key: row.key,
+          label: row.label,
+          accountType: row.accountType,
+          debitBalance: Math.max(row.consolidated, 0),
+          creditBalance: Math.max(-row.consolidated, 0)
+        })),
+      totalDebits: worksheet.totals.debits,
+      totalCredits: worksheet.totals.credits,
+      isBalanced: worksheet.totals.isBalanced
+    };
+  }
+
+  /**
+   * Consolidated balance sheet or income statement with a column per entity, the eliminations
+   * and the consolidated amounts, followed by the split between owners of the parent and
+   * non-controlling interests.
+   */
+  static getStatement(statement: ComparativeStatementType, worksheet: ConsolidationWorksheet): ComparativeStatement {
+    const isBalanceSheet = statement === 'balance-sheet';
+    const startDate = isBalanceSheet ? undefined : worksheet.startDate;
+    const columns: StatementColumn[] = [
+      ...worksheet.entities.map((entity, index) => ({
+        key: `col${index + 1}`,
+        label: entity.name,
+        basis: 'actual' as const,
+        startDate,
+        endDate: worksheet.asOfDate
+      })),
+      { key: 'eliminations', label: 'Eliminations', basis: 'elimination', startDate, endDate: worksheet.asOfDate },
+      { key: 'consolidated', label: 'Consolidated', basis: 'actual', startDate, endDate: worksheet.asOfDate }
+    ];
+    const entityKeys = new Map(worksheet.entities.map((entity, index) => [entity.entityId, `col${index + 1}`]));
+
+    // Assets and expenses are presented debit-positive; liabilities, equity and revenue credit-positive
+    const present = (row: ConsolidationWorksheetRow): Record<string, number> => {
+      const sign = row.accountType === 'ASSET' || row.accountType === 'EXPENSE' ? 1 : -1;
+      const values: Record<string, number> = {
+        eliminations: sign * row.eliminations,
+        consolidated: sign * row.consolidated
+      };
+      for (const [entityId, key] of entityKeys) {
+        values[key] = sign * (row.amounts[entityId] || 0);
+      }
+      return values;
+    };
+    const sum = (valueSets: Array<Record<string, number>>, signs: number[] = []) => Object.fromEntries(
+      columns.map(column => [
+        column.key,
+        roundToDecimalPlaces(valueSets.reduce((total, values, index) => total + (signs[index] ?? 1) * (values[column.key] || 0), 0))
+      ])
+    );
+
+    const rows: ComparativeStatementRow[] = [];
+    const addRow = (section: StatementSection, rowType: ComparativeStatementRow['rowType'], label: string, values: Record<string, number>) => {
+      rows.push({ section, rowType, label, values, variances: {} });
+    };
+    const sections: Array<{ section: StatementSection; type: AccountType; label: string }> = isBalanceSheet
+      ? [
+        { section: 'ASSETS', type: 'ASSET', label: 'Total assets' },
+        { section: 'LIABILITIES', type: 'LIABILITY', label: 'Total liabilities' },
+        { section: 'EQUITY', type: 'EQUITY', label: 'Total equity' }
+      ]
+      : [
+        { section: 'REVENUE', type: 'REVENUE', label: 'Total revenue' },
+        { section: 'EXPENSES', type: 'EXPENSE', label: 'Total expenses' }
+      ];
+
+    const earningsRows = worksheet.rows.filter(row => row.accountType === 'REVENUE' || row.accountType === 'EXPENSE');
+    const netIncome = sum(earningsRows.map(present), earningsRows.map(row => (row.accountType === 'REVENUE' ? 1 : -1)));
+    const totals = new Map<StatementSection, Record<string, number>>();
+
+    for (const { section, type, label } of sections) {
+      const sectionRows = worksheet.rows
+        .filter(row => row.accountType === type)
+        .map(row => ({ label: row.label, values: present(row) }));
+      if (section === 'EQUITY') {
+        sectionRows.push({ label: 'Current period earnings', values: netIncome });
+      }
+
+      const visible = sectionRows.filter(row => Object.values(row.values).some(value => value !== 0));
+      for (const row of visible) {
+        addRow(section, 'account', row.label, row.values);
+      }
+      const total = sum(visible.map(row => row.values));
+      addRow(section, 'total', label, total);
+      totals.set(section, total);
+    }
+
+    const nonControlling: Record<string, number> = {};
+    for (const interest of worksheet.nonControllingInterests) {
+      const key = entityKeys.get(interest.entityId) as string;
+      nonControlling[key] = isBalanceSheet ? interest.nonControllingNetAssets : interest.nonControllingNetIncome;
+      nonControlling.consolidated = roundToDecimalPlaces((nonControlling.consolidated || 0) + nonControlling[key]);
+    }
+    const attributable = sum([nonControlling]);
+
+    if (isBalanceSheet) {
+      const equity = totals.get('EQUITY') as Record<string, number>;
+      addRow('SUMMARY', 'total', 'Total liabilities and equity', sum([totals.get('LIABILITIES') as Record<string, number>, equity]));
+      addRow('SUMMARY', 'account', 'Equity attributable to owners of the parent', sum([equity, attributable], [1, -1]));
+      addRow('SUMMARY', 'account', 'Equity attributable to non-controlling interests', attributable);
+    } else {
+      addRow('SUMMARY', 'total', 'Net income', netIncome);
+      addRow('SUMMARY', 'account', 'Net income attributable to owners of the parent', sum([netIncome, attributable], [1, -1]));
+      addRow('SUMMARY', 'account', 'Net income attributable to non-controlling interests', attributable);
+    }
+
+    return {
+      statement,
+      comparison: 'consolidation',
+      currency: worksheet.presentationCurrency,
+      columns,
+      varianceColumns: [],
+      rows
+    };
+  }
+}
@@ -0,0 +1,75 @@
+/**
+ * Financial Constants
+ * Currencies, decimal places and account types, and the account subtypes, categories and
+ * permissions the engine looks up by name.
+ */
+
+import type { AccountType, Currency, NormalBalance } from '../types/index.js';
+
+// Core financial constants
+const SUPPORTED_CURRENCIES = ['IDR', 'USD', 'EUR', 'GBP', 'SGD', 'MYR'] as const;
+
+export const FINANCIAL_CONSTANTS: {
+  DECIMAL_PLACES: number;
+  DEFAULT_CURRENCY: Currency;
+  SUPPORTED_CURRENCIES: readonly Currency[];
+  CURRENCY_SYMBOLS: { [key in Currency]: string };
+  CURRENCY_LOCALES: { [key in Currency]: string };
+  ACCOUNT_TYPES: { [key: string]: AccountType };
+  NORMAL_BALANCES: { [key in AccountType]: NormalBalance };
+} = {
+  DECIMAL_PLACES: 2,
+  DEFAULT_CURRENCY: 'IDR' as const,
+  SUPPORTED_CURRENCIES,
+  CURRENCY_SYMBOLS: {
+    IDR: 'Rp',
+    USD: '$',
+    EUR: '€',
+    GBP: '£',
+    SGD: 'S$',
+    MYR: 'RM'
+  },
+  CURRENCY_LOCALES: {
+    IDR: 'id-ID',
+    USD: 'en-US',
+    EUR: 'de-DE',
+    GBP: 'en-GB',
+    SGD: 'en-SG',
+    MYR: 'ms-MY'
+  },
+  ACCOUNT_TYPES: {
+    ASSET: 'ASSET',
+    LIABILITY: 'LIABILITY',
+    EQUITY: 'EQUITY',
+    REVENUE: 'REVENUE',
+    EXPENSE: 'EXPENSE'
+  } as const,
+  NORMAL_BALANCES: {
+    ASSET: 'DEBIT',
+    EXPENSE: 'DEBIT',
+    LIABILITY: 'CREDIT',
+    EQUITY: 'CREDIT',
+    REVENUE: 'CREDIT'
+  } as const
+};
+
+// Permission (users.permissions) that allows posting into a soft-closed period
+export const PERIOD_OVERRIDE_PERMISSION = 'PERIOD_OVERRIDE';
+
+// Account subtype that marks the equity account receiving year-end closing entries
+export const RETAINED_EARNINGS_SUBTYPE = 'RETAINED_EARNINGS';
+
+// Account subtypes that receive unrealized and realized foreign exchange gains/losses
+export const FX_UNREALIZED_GAIN_LOSS_SUBTYPE = 'FX_UNREALIZED_GAIN_LOSS';
+export const FX_REALIZED_GAIN_LOSS_SUBTYPE = 'FX_REALIZED_GAIN_LOSS';
+
+// Account subtypes credited and debited by default when a draft is created from a receipt or invoice
+export const ACCOUNTS_PAYABLE_SUBTYPE = 'ACCOUNTS_PAYABLE';
+export const INPUT_TAX_SUBTYPE = 'INPUT_TAX';
+
+// Account subtypes debited and credited by default when a sales invoice is issued
+export const ACCOUNTS_RECEIVABLE_SUBTYPE = 'ACCOUNTS_RECEIVABLE';
+export const OUTPUT_TAX_SUBTYPE = 'OUTPUT_TAX';
+
+// Account category of the cash and bank accounts a cash forecast starts from
+export const CASH_ACCOUNT_CATEGORY = 'Cash';
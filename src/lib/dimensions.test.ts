@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DimensionService, type DatabaseAdapter, type DatabaseJournalEntryManager } from './index';
+import type { Account, Dimension } from '../types/index.js';
+import { createDraft, createJournalManager, createTestAccount, createTestAdapter, postEntry } from '../../tests/helpers/ledger';
+
+describe('DimensionService', () => {
+  let adapter: DatabaseAdapter;
+  let manager: DatabaseJournalEntryManager;
+  let service: DimensionService;
+  let cash: Account;
+  let travel: Account;
+  let operations: Dimension;
+
+  beforeEach(async () => {
+    adapter = createTestAdapter();
+    cash = await createTestAccount(adapter, '1000', 'ASSET');
+    travel = await createTestAccount(adapter, '6200', 'EXPENSE');
+    manager = await createJournalManager(adapter);
+    service = new DimensionService(adapter);
+    operations = await service.create({ type: 'DEPARTMENT', code: 'OPS', name: 'Operations' }, 'user-1');
+  });
+
+  it('should create values with unique codes per type and entity', async () => {
+    expect(operations).toMatchObject({ type: 'DEPARTMENT', code: 'OPS', name: 'Operations', isActive: true, entityId: 'entity-1' });
+
+    await expect(service.create({ type: 'DEPARTMENT', code: 'OPS', name: 'Ops again' })).rejects.toMatchObject({ code: 'DUPLICATE_DIMENSION' });
+    await expect(service.create({ type: 'REGION' as Dimension['type'], code: 'WEST', name: 'West' })).rejects.toMatchObject({ code: 'INVALID_DIMENSION_TYPE' });
+    await expect(service.create({ type: 'PROJECT', code: 'NEW BUILD', name: 'New build' })).rejects.toMatchObject({ code: 'INVALID_DIMENSION_CODE' });
+    await expect(service.create({ type: 'PROJECT', code: 'BUILD', name: '  ' })).rejects.toMatchObject({ code: 'INVALID_DIMENSION_NAME' });
+    // The same code is free under another type and in another entity
+    await service.create({ type: 'COST_CENTER', code: 'OPS', name: 'Operations pool' });
+    await new DimensionService(createTestAdapter('entity-2')).create({ type: 'DEPARTMENT', code: 'OPS', name: 'Operations' });
+
+    expect((await service.list()).map(dimension => [dimension.type, dimension.code])).toEqual([
+      ['COST_CENTER', 'OPS'],
+      ['DEPARTMENT', 'OPS']
+    ]);
+  });
+
+  it('should only take lines tagged with active codes of the entity', async () => {
+    await postEntry(manager, [{ accountId: travel.id, debit: 100, departmentId: 'OPS' }, { accountId: cash.id, credit: 100 }]);
+    await new DimensionService(createTestAdapter('entity-2')).create({ type: 'PROJECT', code: 'BUILD', name: 'New build' });
+
+    await expect(createDraft(manager, [{ accountId: travel.id, debit: 100, projectId: 'BUILD' }, { accountId: cash.id, credit: 100 }]))
+      .rejects.toMatchObject({ code: 'INVALID_DIMENSIONS', details: [{ field: 'projectId', code: 'DIMENSION_NOT_FOUND' }] });
+
+    await service.update(operations.id, { isActive: false });
+    await expect(createDraft(manager, [{ accountId: travel.id, debit: 100, departmentId: 'OPS' }, { accountId: cash.id, credit: 100 }]))
+      .rejects.toMatchObject({ details: [{ field: 'departmentId', message: 'OPS is an inactive department', code: 'DIMENSION_INACTIVE' }] });
+  });
+
+  it('should delete a value no line carries and keep one that is in use', async () => {
+    const project = await service.create({ type: 'PROJECT', code: 'BUILD', name: 'New build' });
+    await postEntry(manager, [{ accountId: travel.id, debit: 100, departmentId: 'OPS' }, { accountId: cash.id, credit: 100 }]);
+
+    await expect(service.delete(operations.id)).rejects.toMatchObject({ code: 'DIMENSION_IN_USE' });
+    expect(await service.delete(project.id)).toMatchObject({ code: 'BUILD' });
+    expect((await service.list()).map(dimension => dimension.code)).toEqual(['OPS']);
+    await expect(service.delete(project.id)).rejects.toMatchObject({ code: 'DIMENSION_NOT_FOUND' });
+  });
+
+  it('should rename and deactivate a value but keep its code', async () => {
+    const updated = await service.update(operations.id, { name: 'Operations and logistics', isActive: false }, 'user-2');
+
+    expect(updated).toMatchObject({ code: 'OPS', name: 'Operations and logistics', isActive: false });
+    await expect(service.update(operations.id, { name: '' })).rejects.toMatchObject({ code: 'INVALID_DIMENSION_NAME' });
+    // Another entity cannot reach the value
+    await expect(new DimensionService(createTestAdapter('entity-2')).update(operations.id, { isActive: true }))
+      .rejects.toMatchObject({ code: 'DIMENSION_NOT_FOUND' });
+  });
+
+  it('should require the account\'s dimensions on new lines but not on system entries', async () => {
+    const rules = await service.setRequiredDimensions(travel.id, ['DEPARTMENT', 'DEPARTMENT'], 'user-1');
+    expect(rules).toMatchObject([{ accountId: travel.id, accountCode: '6200', dimensionType: 'DEPARTMENT' }]);
+
+    await expect(createDraft(manager, [{ accountId: travel.id, debit: 100 }, { accountId: cash.id, credit: 100 }]))
+      .rejects.toMatchObject({ details: [{ field: 'departmentId', message: 'Account 6200 requires a department on every line', code: 'DIMENSION_REQUIRED' }] });
+    await postEntry(manager, [{ accountId: travel.id, debit: 100, departmentId: 'OPS' }, { accountId: cash.id, credit: 100 }]);
+    await postEntry(manager, [{ accountId: travel.id, debit: 50 }, { accountId: cash.id, credit: 50 }], { source: 'SYSTEM' });
+
+    await service.setRequiredDimensions(travel.id, []);
+    expect(await service.getRules(travel.id)).toEqual([]);
+  });
+
+  it('should check a rule added after a draft was saved when the draft is posted', async () => {
+    const draft = await createDraft(manager, [{ accountId: travel.id, debit: 100 }, { accountId: cash.id, credit: 100 }]);
+    await service.setRequiredDimensions(travel.id, ['PROJECT']);
+
+    await expect(manager.postTransaction(Number.parseInt(draft.id), { userId: 'user-1' })).rejects.toMatchObject({ code: 'INVALID_DIMENSIONS' });
+    await expect(service.setRequiredDimensions(9999, ['PROJECT'])).rejects.toMatchObject({ code: 'ACCOUNT_NOT_FOUND' });
+    await expect(service.setRequiredDimensions(travel.id, ['REGION' as Dimension['type']])).rejects.toMatchObject({ code: 'INVALID_DIMENSION_TYPE' });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Dimensions
+ * Journal line dimensions and the account rules that require them.
+ */
+
+import type {
+  AccountDimensionRule,
+  Dimension,
+  DimensionType,
+  JournalEntry,
+  ValidationError as BaseValidationError
+} from '../types/index.js';
+import { DIMENSION_FIELDS, DIMENSION_TYPES, type DatabaseAdapter } from './database-adapter';
+import { AccountingValidationError } from './errors';
+
+type DimensionTaggedLine = Pick<JournalEntry, 'accountId' | 'departmentId' | 'projectId' | 'costCenterId'>;
+
+/**
+ * Departments, projects and cost centers that journal lines are tagged with, and the dimensions
+ * each account requires. Lines may only carry active codes of their entity.
+ */
+export class DimensionService {
+  private dbAdapter: DatabaseAdapter;
+
+  constructor(dbAdapter: DatabaseAdapter) {
+    this.dbAdapter = dbAdapter;
+  }
+
+  static getLabel(type: DimensionType): string {
+    return type.toLowerCase().replace('_', ' ');
+  }
+
+  async list(type?: DimensionType): Promise<Dimension[]> {
+    return await this.dbAdapter.getDimensions(type);
+  }
+
+  async create(
+    dimension: Pick<Dimension, 'type' | 'code' | 'name'> & Partial<Pick<Dimension, 'description' | 'isActive'>>,
+    createdBy?: string
+  ): Promise<Dimension> {
+    if (!DIMENSION_TYPES.includes(dimension.type)) {
+      throw new AccountingValidationError(`Dimension type must be one of: ${DIMENSION_TYPES.join(', ')}`, 'INVALID_DIMENSION_TYPE');
+    }
+    if (!/^[A-Z0-9._-]{1,20}$/i.test(dimension.code)) {
+      throw new AccountingValidationError('Dimension code must be 1 to 20 letters, numbers, dots, hyphens or underscores', 'INVALID_DIMENSION_CODE');
+    }
+    DimensionService.assertName(dimension.name);
+
+    const existing = await this.dbAdapter.getDimensions(dimension.type);
+    if (existing.some(candidate => candidate.code === dimension.code)) {
+      throw new AccountingValidationError(
+        `A ${DimensionService.getLabel(dimension.type)} with code ${dimension.code} already exists`,
+        'DUPLICATE_DIMENSION'
+      );
+    }
+
+    return await this.dbAdapter.createDimension({ ...dimension, isActive: dimension.isActive !== false }, createdBy);
+  }
+
+  /**
+   * Rename, describe, activate or deactivate a value. Codes cannot change because lines carry them.
+   */
+  async update(
+    dimensionId: number,
+    updates: Partial<Pick<Dimension, 'name' | 'description' | 'isActive'>>,
+    updatedBy?: string
+  ): Promise<Dimension> {
+    await this.getOrThrow(dimensionId);
+    if (updates.name !== undefined) DimensionService.assertName(updates.name);
+
+    return await this.dbAdapter.updateDimension(dimensionId, updates, updatedBy) as Dimension;
+  }
+
+  /**
+   * Delete a value no journal line was ever tagged with; deactivate it otherwise
+   */
+  async delete(dimensionId: number): Promise<Dimension> {
+    const dimension = await this.getOrThrow(dimensionId);
+    const lineCount = await this.dbAdapter.countDimensionUsage(dimension.type, dimension.code);
+    if (lineCount > 0) {
+      throw new AccountingValidationError(
+        `${dimension.code} is on ${lineCount} journal lines; deactivate it instead`,
+        'DIMENSION_IN_USE'
+      );
+    }
+
+    await this.dbAdapter.deleteDimension(dimensionId);
+    return dimension;
+  }
+
+  async getRules(accountId?: number): Promise<AccountDimensionRule[]> {
+    return await this.dbAdapter.getAccountDimensionRules(accountId ? [accountId] : undefined);
+  }
+
+  /**
+   * Replace the dimensions every new line on the account must carry; an empty list removes the rule
+   */
+  async setRequiredDimensions(accountId: number, types: DimensionType[], createdBy?: string): Promise<AccountDimensionRule[]> {
+    const account = await this.dbAdapter.getAccount(accountId);
+    if (!account) {
+      throw new AccountingValidationError(`No account found with ID ${accountId}`, 'ACCOUNT_NOT_FOUND');
+    }
+    const invalid = types.find(type => !DIMENSION_TYPES.includes(type));
+    if (invalid) {
+      throw new AccountingValidationError(`Dimension type must be one of: ${DIMENSION_TYPES.join(', ')}`, 'INVALID_DIMENSION_TYPE');
+    }
+
+    return await this.dbAdapter.setAccountDimensionRules(accountId, [...new Set(types)], createdBy);
+  }
+
+  /**
+   * Throw unless every code on the lines is an active value of the entity and, with enforceRules,
+   * every line carries the dimensions its account requires
+   */
+  async assertValidLines(lines: DimensionTaggedLine[], options: { enforceRules?: boolean } = {}): Promise<void> {
+    const errors: BaseValidationError[] = [];
+    const isTagged = lines.some(line => DIMENSION_TYPES.some(type => line[DIMENSION_FIELDS[type].field]));
+    const dimensions = new Map(
+      (isTagged ? await this.dbAdapter.getDimensions() : []).map(dimension => [`${dimension.type}:${dimension.code}`, dimension])
+    );
+
+    for (const line of lines) {
+      for (const type of DIMENSION_TYPES) {
+        const { field } = DIMENSION_FIELDS[type];
+        const code = line[field];
+        if (!code) continue;
+
+        const dimension = dimensions.get(`${type}:${code}`);
+        if (!dimension) {
+          errors.push({ field, message: `No ${DimensionService.getLabel(type)} with code ${code}`, code: 'DIMENSION_NOT_FOUND' });
+        } else if (!dimension.isActive) {
+          errors.push({ field, message: `${code} is an inactive ${DimensionService.getLabel(type)}`, code: 'DIMENSION_INACTIVE' });
+        }
+      }
+    }
+
+    if (options.enforceRules) {
+      const rules = await this.dbAdapter.getAccountDimensionRules([...new Set(lines.map(line => line.accountId))]);
+      for (const rule of rules) {
+        const { field } = DIMENSION_FIELDS[rule.dimensionType];
+        if (lines.some(line => line.accountId === rule.accountId && !line[field])) {
+          errors.push({
+            field,
+            message: `Account ${rule.accountCode} requires a ${DimensionService.getLabel(rule.dimensionType)} on every line`,
+            code: 'DIMENSION_REQUIRED'
+          });
+        }
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new AccountingValidationError('Journal lines have missing or invalid dimensions', 'INVALID_DIMENSIONS', errors);
+    }
+  }
+
+  private static assertName(name: string): void {
+    if (!name || name.trim().length === 0 || name.length > 100) {
+      throw new AccountingValidationError('Dimension name must be between 1 and 100 characters', 'INVALID_DIMENSION_NAME');
+    }
+  }
+
+  private async getOrThrow(dimensionId: number): Promise<Dimension> {
+    const dimension = await this.dbAdapter.getDimension(dimensionId);
+    if (!dimension) {
+      throw new AccountingValidationError(`No dimension found with ID ${dimensionId}`, 'DIMENSION_NOT_FOUND');
+    }
+    return dimension;
+  }
+}
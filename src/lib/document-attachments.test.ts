@@ -0,0 +1,49 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { DocumentAttachmentService, TransactionStateError, type DatabaseAdapter, type DatabaseJournalEntryManager } from './index';
+import type { Account } from '../types/index.js';
+import { createDraft, createJournalManager, createTestAccount, createTestAdapter, postEntry, TEST_CONTEXT } from '../../tests/helpers/ledger';
+
+describe('DocumentAttachmentService deletion guard', () => {
+  let adapter: DatabaseAdapter;
+  let manager: DatabaseJournalEntryManager;
+  let service: DocumentAttachmentService;
+  let cash: Account;
+  let expense: Account;
+  let rawDocId: number;
+
+  beforeEach(async () => {
+    adapter = createTestAdapter();
+    cash = await createTestAccount(adapter, '1000', 'ASSET');
+    expense = await createTestAccount(adapter, '6000', 'EXPENSE');
+    manager = await createJournalManager(adapter);
+    service = new DocumentAttachmentService(adapter);
+
+    const now = Date.now();
+    const result = await env.FINANCE_MANAGER_DB.prepare(`
+      INSERT INTO raw_docs (file_id, original_name, mime_type, file_size, r2_key, uploaded_by, created_at, updated_at)
+      VALUES ('receipt-1', 'receipt.pdf', 'application/pdf', 2048, 'uploads/receipt-1', 'user-1', ?, ?)
+      RETURNING id
+    `).bind(now, now).first<{ id: number }>();
+    rawDocId = result!.id;
+  });
+
+  it('should unlink a document that only supports drafts', async () => {
+    const draft = await createDraft(manager, [{ accountId: expense.id, debit: 50 }, { accountId: cash.id, credit: 50 }]);
+    await adapter.attachDocumentToTransaction(Number.parseInt(draft.id), rawDocId, 'user-1');
+
+    await service.releaseDocumentForDeletion(rawDocId);
+
+    expect(await adapter.getDocumentTransactions(rawDocId)).toHaveLength(0);
+  });
+
+  it('should keep the evidence of a reversed transaction', async () => {
+    const posted = await postEntry(manager, [{ accountId: expense.id, debit: 50 }, { accountId: cash.id, credit: 50 }]);
+    const transactionId = Number.parseInt(posted.id);
+    await adapter.attachDocumentToTransaction(transactionId, rawDocId, 'user-1');
+    await manager.reverseTransaction(transactionId, TEST_CONTEXT, new Date('2026-03-20T00:00:00Z'));
+
+    await expect(service.releaseDocumentForDeletion(rawDocId)).rejects.toBeInstanceOf(TransactionStateError);
+    expect((await adapter.getDocumentTransactions(rawDocId)).map(transaction => transaction.status)).toEqual(['REVERSED']);
+  });
+});
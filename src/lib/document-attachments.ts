@@ -0,0 +1,93 @@
+/**
+ * Document Attachments
+ * Supporting documents linked to transactions or single journal lines, kept on the transaction
+ * once it reaches the ledger.
+ */
+
+import type { Transaction, TransactionAttachment } from '../types/index.js';
+import type { DatabaseAdapter } from './database-adapter';
+import { AccountingValidationError, TransactionStateError } from './errors';
+import { LEDGER_DEFAULT_STATUSES } from './general-ledger';
+
+export class DocumentAttachmentService {
+  private dbAdapter: DatabaseAdapter;
+
+  constructor(dbAdapter: DatabaseAdapter) {
+    this.dbAdapter = dbAdapter;
+  }
+
+  /**
+   * Link an uploaded document to a transaction, or to one journal line when journalEntryId is given.
+   * Documents can be added at any status so receipts can follow an entry that is already posted.
+   */
+  async attach(
+    transactionId: number,
+    rawDocId: number,
+    options: { journalEntryId?: number } = {},
+    attachedBy?: string
+  ): Promise<TransactionAttachment> {
+    const transaction = await this.getTransactionOrThrow(transactionId);
+
+    if (options.journalEntryId !== undefined) {
+      const lines = await this.dbAdapter.getJournalEntriesByTransaction(transactionId);
+      if (!lines.some(line => line.id === options.journalEntryId)) {
+        throw new AccountingValidationError(
+          `Journal line ${options.journalEntryId} is not part of transaction ${transaction.transactionNumber || transaction.id}`,
+          'JOURNAL_ENTRY_NOT_IN_TRANSACTION'
+        );
+      }
+    }
+
+    const attachment = await this.dbAdapter.attachDocumentToTransaction(transactionId, rawDocId, attachedBy, options.journalEntryId);
+    if (!attachment) {
+      throw new AccountingValidationError(
+        `Document is already attached to ${options.journalEntryId !== undefined ? `journal line ${options.journalEntryId} of ` : ''}transaction ${transaction.transactionNumber || transaction.id}`,
+        'DOCUMENT_ALREADY_ATTACHED'
+      );
+    }
+    return attachment;
+  }
+
+  /**
+   * Remove a link. Posted transactions keep their supporting documents.
+   */
+  async detach(transactionId: number, attachmentId: number): Promise<void> {
+    const attachment = await this.dbAdapter.getTransactionAttachment(attachmentId);
+    if (!attachment || attachment.transactionId !== transactionId) {
+      throw new AccountingValidationError(`Attachment ${attachmentId} not found on transaction ${transactionId}`, 'ATTACHMENT_NOT_FOUND');
+    }
+
+    const transaction = await this.getTransactionOrThrow(transactionId);
+    if (transaction.status === 'POSTED') {
+      throw new TransactionStateError(
+        `Transaction ${transaction.transactionNumber || transaction.id} is POSTED; its supporting documents cannot be removed`
+      );
+    }
+
+    await this.dbAdapter.detachDocument(attachmentId);
+  }
+
+  /**
+   * Throw when the document supports a transaction in the ledger (posted or reversed);
+   * otherwise unlink it everywhere so the document can be deleted
+   */
+  async releaseDocumentForDeletion(rawDocId: number): Promise<void> {
+    const posted = (await this.dbAdapter.getDocumentTransactions(rawDocId))
+      .filter(transaction => LEDGER_DEFAULT_STATUSES.includes(transaction.status));
+    if (posted.length > 0) {
+      throw new TransactionStateError(
+        `Document supports posted or reversed transaction(s) ${posted.map(transaction => transaction.transactionNumber || transaction.id).join(', ')} and cannot be deleted`
+      );
+    }
+
+    await this.dbAdapter.detachDocumentEverywhere(rawDocId);
+  }
+
+  private async getTransactionOrThrow(transactionId: number): Promise<Transaction> {
+    const transaction = await this.dbAdapter.getTransaction(transactionId);
+    if (!transaction) {
+      throw new AccountingValidationError(`Transaction ${transactionId} not found`, 'TRANSACTION_NOT_FOUND');
+    }
+    return transaction;
+  }
+}
@@ -0,0 +1,456 @@
+/**
+ * Document Transactions
+ * Draft journal entries from the vendor, date, total and tax extracted from an uploaded document,
+ * flagged for review when the extraction is uncertain.
+ */
+
+import type {
+  Account,
+  AccountType,
+  Currency,
+  DocumentFieldOverrides,
+  DocumentTransactionLine,
+  DocumentTransactionReview,
+  ExtractedDocumentFields,
+  ExtractedField,
+  ExtractedLineItem,
+  PostingContext
+} from '../types/index.js';
+import { ACCOUNTS_PAYABLE_SUBTYPE, FINANCIAL_CONSTANTS, INPUT_TAX_SUBTYPE } from './constants';
+import type { DatabaseAdapter } from './database-adapter';
+import { AccountingValidationError } from './errors';
+import type { DatabaseJournalEntryManager } from './journal-entries';
+import { TransactionBuilder } from './transactions';
+import { roundToDecimalPlaces, toISODateString } from './utils';
+
+// Document Field Extraction
+export class DocumentFieldExtractor {
+  // Accepted key spellings in the AI's structured output, compared without case, spaces or underscores
+  private static readonly ALIASES = {
+    vendor: ['vendor', 'vendorname', 'merchant', 'merchantname', 'supplier', 'suppliername', 'seller', 'store', 'storename', 'payee', 'company'],
+    documentDate: ['date', 'documentdate', 'invoicedate', 'receiptdate', 'transactiondate', 'issuedate', 'purchasedate'],
+    totalAmount: ['total', 'totalamount', 'grandtotal', 'amountdue', 'totaldue', 'totalpaid', 'amount'],
+    taxAmount: ['tax', 'taxamount', 'totaltax', 'taxes', 'vat', 'vatamount', 'ppn', 'salestax', 'gst'],
+    currency: ['currency', 'currencycode'],
+    documentNumber: ['invoicenumber', 'invoiceno', 'receiptnumber', 'receiptno', 'documentnumber', 'number', 'reference'],
+    lineItems: ['lineitems', 'items', 'lines', 'products']
+  };
+  private static readonly FIELD_KEYS = new Set(Object.values(this.ALIASES).flat());
+
+  // Dates written day-first are read as DD/MM/YYYY (Indonesian convention) when both parts are 12 or less
+  private static readonly AMBIGUOUS_DATE_FACTOR = 0.7;
+  private static readonly DERIVED_FACTOR = 0.8;
+
+  /**
+   * Normalize the AI's extracted JSON into typed fields. baseConfidence (0-1) is the
+   * OCR/LLM confidence of the document; derived or ambiguous values score lower.
+   */
+  static extract(data: unknown, baseConfidence: number): ExtractedDocumentFields {
+    const root = data && typeof data === 'object' ? data as Record<string, unknown> : {};
+    const confidence = roundToDecimalPlaces(Math.min(Math.max(baseConfidence, 0), 1));
+    const missing = <T>(): ExtractedField<T> => ({ confidence: 0, source: 'DEFAULT' });
+
+    const vendorValue = this.find(root, this.ALIASES.vendor);
+    const vendorName = vendorValue && typeof vendorValue === 'object'
+      ? (vendorValue as Record<string, unknown>).name
+      : vendorValue;
+    const vendor: ExtractedField<string> = typeof vendorName === 'string' && vendorName.trim()
+      ? { value: vendorName.trim(), confidence, source: 'EXTRACTED' }
+      : missing();
+
+    const parsedDate = this.parseDate(this.find(root, this.ALIASES.documentDate));
+    const documentDate: ExtractedField<string> = parsedDate
+      ? {
+          value: parsedDate.date,
+          confidence: parsedDate.ambiguous ? roundToDecimalPlaces(confidence * this.AMBIGUOUS_DATE_FACTOR) : confidence,
+          source: 'EXTRACTED'
+        }
+      : missing();
+
+    const lineItems = this.parseLineItems(this.find(root, this.ALIASES.lineItems));
+
+    const taxValue = this.parseAmount(this.find(root, this.ALIASES.taxAmount));
+    const taxAmount: ExtractedField<number> = taxValue !== null
+      ? { value: roundToDecimalPlaces(taxValue), confidence, source: 'EXTRACTED' }
+      : missing();
+
+    const totalRaw = this.find(root, this.ALIASES.totalAmount);
+    const totalValue = this.parseAmount(totalRaw);
+    let totalAmount: ExtractedField<number> = totalValue !== null
+      ? { value: roundToDecimalPlaces(totalValue), confidence, source: 'EXTRACTED' }
+      : missing();
+    if (totalValue === null && lineItems.length > 0) {
+      totalAmount = {
+        value: roundToDecimalPlaces(lineItems.reduce((sum, item) => sum + item.amount, 0) + (taxAmount.value || 0)),
+        confidence: roundToDecimalPlaces(confidence * this.DERIVED_FACTOR),
+        source: 'DERIVED'
+      };
+    }
+
+    // Without a currency field, a symbol or code written with the total ("Rp 150.000") is used
+    const currency = this.parseCurrency(this.find(root, this.ALIASES.currency));
+    const totalCurrency = typeof totalRaw === 'string'
+      ? this.parseCurrency(totalRaw.replace(/[\d.,\s()-]/g, ''))
+      : null;
+    const numberValue = this.find(root, this.ALIASES.documentNumber);
+
+    return {
+      vendor,
+      documentDate,
+      totalAmount,
+      taxAmount,
+      currency: currency
+        ? { value: currency, confidence, source: 'EXTRACTED' }
+        : totalCurrency
+          ? { value: totalCurrency, confidence: roundToDecimalPlaces(confidence * this.DERIVED_FACTOR), source: 'DERIVED' }
+          : missing(),
+      documentNumber: typeof numberValue === 'string' || typeof numberValue === 'number'
+        ? { value: String(numberValue).trim(), confidence, source: 'EXTRACTED' }
+        : missing(),
+      lineItems
+    };
+  }
+
+  /**
+   * Amounts as numbers or strings such as "Rp 1.250.000", "1,250.50" or "1.250,50".
+   * The last separator followed by exactly two digits is the decimal point.
+   */
+  static parseAmount(value: unknown): number | null {
+    if (typeof value === 'number') {
+      return Number.isFinite(value) ? value : null;
+    }
+    if (Array.isArray(value)) {
+      const amounts = value.map(item => this.parseAmount(
+        item && typeof item === 'object' ? this.find(item as Record<string, unknown>, ['amount', 'total', 'value'], 1) : item
+      ));
+      return amounts.some(amount => amount === null) || amounts.length === 0
+        ? null
+        : amounts.reduce((sum: number, amount) => sum + (amount as number), 0);
+    }
+    if (value && typeof value === 'object') {
+      return this.parseAmount(this.find(value as Record<string, unknown>, ['amount', 'total', 'value'], 1));
+    }
+    if (typeof value !== 'string') {
+      return null;
+    }
+
+    const negative = /^\s*-|\(.*\)/.test(value);
+    let digits = value.replace(/[^\d.,]/g, '');
+    if (!/\d/.test(digits)) return null;
+
+    const lastSeparator = Math.max(digits.lastIndexOf('.'), digits.lastIndexOf(','));
+    const decimals = lastSeparator === -1 ? '' : digits.slice(lastSeparator + 1);
+    if (lastSeparator !== -1 && decimals.length === 2) {
+      digits = `${digits.slice(0, lastSeparator).replace(/[.,]/g, '')}.${decimals}`;
+    } else {
+      digits = digits.replace(/[.,]/g, '');
+    }
+
+    const amount = Number.parseFloat(digits);
+    return Number.isFinite(amount) ? (negative ? -amount : amount) : null;
+  }
+
+  /**
+   * ISO dates (optionally with a time), YYYY/MM/DD and day-first DD/MM/YYYY
+   */
+  static parseDate(value: unknown): { date: string; ambiguous: boolean } | null {
+    if (typeof value !== 'string') return null;
+    const text = value.trim();
+
+    let year: number;
+    let month: number;
+    let day: number;
+    let ambiguous = false;
+
+    const yearFirst = text.match(/^(\d{4})[-/.](\d{1,2})[-/.](\d{1,2})/);
+    const dayFirst = text.match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4})$/);
+    if (yearFirst) {
+      [year, month, day] = [Number(yearFirst[1]), Number(yearFirst[2]), Number(yearFirst[3])];
+    } else if (dayFirst) {
+      const first = Number(dayFirst[1]);
+      const second = Number(dayFirst[2]);
+      year = Number(dayFirst[3]);
+      if (second > 12 && first <= 12) {
+        [month, day] = [first, second];
+      } else {
+        [day, month] = [first, second];
+        ambiguous = first <= 12 && second <= 12 && first !== second;
+      }
+    } else {
+      // Written-out dates such as "12 Jan 2024"
+      const parsed = Date.parse(`${text} UTC`);
+      if (Number.isNaN(parsed)) return null;
+      const date = new Date(parsed);
+      [year, month, day] = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate()];
+    }
+
+    const date = new Date(Date.UTC(year, month - 1, day));
+    if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+      return null;
+    }
+
+    return { date: toISODateString(date), ambiguous };
+  }
+
+  private static parseCurrency(value: unknown): Currency | null {
+    if (typeof value !== 'string') return null;
+    const text = value.trim().toUpperCase();
+
+    if (FINANCIAL_CONSTANTS.SUPPORTED_CURRENCIES.includes(text as Currency)) {
+      return text as Currency;
+    }
+    const bySymbol = (Object.entries(FINANCIAL_CONSTANTS.CURRENCY_SYMBOLS) as Array<[Currency, string]>)
+      .find(([, symbol]) => symbol.toUpperCase() === text);
+    return bySymbol ? bySymbol[0] : null;
+  }
+
+  private static parseLineItems(value: unknown): ExtractedLineItem[] {
+    if (!Array.isArray(value)) return [];
+
+    return value.flatMap(item => {
+      if (!item || typeof item !== 'object') return [];
+      const record = item as Record<string, unknown>;
+      const description = this.find(record, ['description', 'name', 'item', 'product'], 1);
+      const amount = this.parseAmount(this.find(record, ['amount', 'total', 'totalprice', 'linetotal', 'price'], 1));
+      return amount === null
+        ? []
+        : [{ description: typeof description === 'string' ? description.trim() : '', amount: roundToDecimalPlaces(amount) }];
+    });
+  }
+
+  /**
+   * First value under any alias, searching the top level before wrapper objects
+   * such as { "receipt": { ... } }. Objects under another field's key are not searched.
+   */
+  private static find(record: Record<string, unknown>, aliases: string[], depth: number = 2): unknown {
+    const normalize = (key: string) => key.toLowerCase().replace(/[\s_-]/g, '');
+
+    for (const alias of aliases) {
+      const key = Object.keys(record).find(candidate => normalize(candidate) === alias);
+      if (key !== undefined && record[key] !== null && record[key] !== undefined && record[key] !== '') {
+        return record[key];
+      }
+    }
+    if (depth <= 1) return undefined;
+
+    for (const [key, nested] of Object.entries(record)) {
+      if (nested && typeof nested === 'object' && !Array.isArray(nested) && !this.FIELD_KEYS.has(normalize(key))) {
+        const found = this.find(nested as Record<string, unknown>, aliases, depth - 1);
+        if (found !== undefined) return found;
+      }
+    }
+    return undefined;
+  }
+}
+
+export class DocumentTransactionService {
+  // Drafts below this confidence, or with warnings, are flagged for review before posting
+  static readonly REVIEW_CONFIDENCE_THRESHOLD = 0.8;
+
+  private dbAdapter: DatabaseAdapter;
+  private journalManager: DatabaseJournalEntryManager;
+
+  constructor(dbAdapter: DatabaseAdapter, journalManager: DatabaseJournalEntryManager) {
+    this.dbAdapter = dbAdapter;
+    this.journalManager = journalManager;
+  }
+
+  /**
+   * Map a document's extracted vendor, date, total and tax to a balanced entry without saving it:
+   * debit the expense (net of tax) and input tax, credit accounts payable (or the paying account).
+   */
+  async prepare(
+    document: { rawDocId: number; fileId: string; name: string; structuredData: unknown; confidence: number },
+    options: {
+      expenseAccountId?: number;
+      taxAccountId?: number;
+      creditAccountId?: number;
+      overrides?: DocumentFieldOverrides;
+      suggestExpenseAccount?: (fields: ExtractedDocumentFields) => Promise<{ accountId?: number; confidence: number } | null>;
+    } = {}
+  ): Promise<DocumentTransactionReview> {
+    const fields = DocumentFieldExtractor.extract(document.structuredData, document.confidence);
+    for (const [key, value] of Object.entries(options.overrides || {})) {
+      if (value !== undefined) {
+        (fields[key as keyof DocumentFieldOverrides] as ExtractedField<unknown>) = { value, confidence: 1, source: 'USER' };
+      }
+    }
+
+    const warnings: string[] = [];
+    const total = roundToDecimalPlaces(fields.totalAmount.value || 0);
+    if (total <= 0) {
+      throw new AccountingValidationError(
+        'No total amount could be read from the document; enter the total to continue',
+        'DOCUMENT_TOTAL_REQUIRED'
+      );
+    }
+
+    if (!fields.documentDate.value) {
+      fields.documentDate = { value: toISODateString(new Date()), confidence: 0, source: 'DEFAULT' };
+      warnings.push('No document date found; today\'s date was used');
+    }
+    if (!fields.currency.value) {
+      fields.currency = { value: FINANCIAL_CONSTANTS.DEFAULT_CURRENCY, confidence: 0.5, source: 'DEFAULT' };
+    }
+
+    let tax = roundToDecimalPlaces(fields.taxAmount.value || 0);
+    if (tax < 0 || tax >= total) {
+      warnings.push(`Tax amount ${tax} is not below the total ${total} and was ignored`);
+      tax = 0;
+    }
+
+    // Expense account: chosen by the user, otherwise the categorization suggestion
+    let expenseAccount: Account | null = null;
+    let expenseConfidence = 1;
+    if (options.expenseAccountId) {
+      expenseAccount = await this.getPostableAccountOrThrow(options.expenseAccountId, 'Expense');
+    } else if (options.suggestExpenseAccount) {
+      const suggestion = await options.suggestExpenseAccount(fields).catch(error => {
+        console.warn('Failed to suggest an expense account:', error instanceof Error ? error.message : String(error));
+        return null;
+      });
+      const suggested = suggestion?.accountId ? await this.dbAdapter.getAccount(suggestion.accountId) : null;
+      if (suggestion && suggested && suggested.isActive && suggested.allowTransactions
+        && (suggested.type === 'EXPENSE' || suggested.type === 'ASSET')) {
+        expenseAccount = suggested;
+        expenseConfidence = suggestion.confidence;
+      }
+    }
+    if (!expenseAccount) {
+      throw new AccountingValidationError(
+        'No expense account could be suggested for the document; choose one to continue',
+        'DOCUMENT_EXPENSE_ACCOUNT_REQUIRED'
+      );
+    }
+
+    const creditAccount = options.creditAccountId
+      ? await this.getPostableAccountOrThrow(options.creditAccountId, 'Credit')
+      : await this.findAccountBySubtype('LIABILITY', ACCOUNTS_PAYABLE_SUBTYPE);
+    if (!creditAccount) {
+      throw new AccountingValidationError(
+        `No accounts payable account configured; mark a liability account with subtype ${ACCOUNTS_PAYABLE_SUBTYPE} or choose the paying account`,
+        'DOCUMENT_CREDIT_ACCOUNT_REQUIRED'
+      );
+    }
+
+    let taxAccount: Account | null = null;
+    if (tax > 0) {
+      taxAccount = options.taxAccountId
+        ? await this.getPostableAccountOrThrow(options.taxAccountId, 'Tax')
+        : await this.findAccountBySubtype('ASSET', INPUT_TAX_SUBTYPE);
+      if (!taxAccount) {
+        warnings.push(`No input tax account configured (subtype ${INPUT_TAX_SUBTYPE}); tax is included in the expense line`);
+        tax = 0;
+      }
+    }
+
+    const vendor = fields.vendor.value;
+    const description = vendor ? `Purchase from ${vendor}` : `Purchase per ${document.name}`;
+    const line = (
+      role: DocumentTransactionLine['role'],
+      account: Account,
+      debitAmount: number,
+      creditAmount: number,
+      confidence: number
+    ): DocumentTransactionLine => ({
+      role,
+      accountId: account.id,
+      accountCode: account.code,
+      accountName: account.name,
+      description,
+      debitAmount,
+      creditAmount,
+      confidence: roundToDecimalPlaces(confidence)
+    });
+
+    const lines = [line('EXPENSE', expenseAccount, roundToDecimalPlaces(total - tax), 0, Math.min(expenseConfidence, fields.totalAmount.confidence))];
+    if (taxAccount && tax > 0) {
+      lines.push(line('TAX', taxAccount, tax, 0, fields.taxAmount.confidence));
+    }
+    lines.push(line('PAYABLE', creditAccount, 0, total, fields.totalAmount.confidence));
+
+    const confidence = roundToDecimalPlaces(Math.min(
+      fields.documentDate.confidence,
+      fields.currency.confidence,
+      ...lines.map(entry => entry.confidence)
+    ));
+
+    return {
+      rawDocId: document.rawDocId,
+      fileId: document.fileId,
+      fields,
+      lines,
+      confidence,
+      requiresReview: confidence < DocumentTransactionService.REVIEW_CONFIDENCE_THRESHOLD || warnings.length > 0,
+      warnings
+    };
+  }
+
+  /**
+   * Create a DRAFT transaction (source IMPORT) from the document and attach the document to it.
+   * A document already backing a live transaction is rejected unless allowDuplicate is set.
+   */
+  async createFromDocument(
+    document: Parameters<DocumentTransactionService['prepare']>[0],
+    options: Parameters<DocumentTransactionService['prepare']>[1] & { allowDuplicate?: boolean },
+    context: PostingContext
+  ): Promise<DocumentTransactionReview> {
+    if (!options.allowDuplicate) {
+      const linked = (await this.dbAdapter.getDocumentTransactions(document.rawDocId))
+        .find(transaction => !['VOID', 'CANCELLED', 'REVERSED'].includes(transaction.status));
+      if (linked) {
+        throw new AccountingValidationError(
+          `Document is already attached to transaction ${linked.transactionNumber || linked.id}`,
+          'DOCUMENT_ALREADY_LINKED'
+        );
+      }
+    }
+
+    const review = await this.prepare(document, options);
+    const builder = new TransactionBuilder()
+      .setDescription(review.lines[0].description)
+      .setDate(new Date(`${review.fields.documentDate.value}T00:00:00Z`))
+      .setCurrency(review.fields.currency.value || FINANCIAL_CONSTANTS.DEFAULT_CURRENCY);
+    if (review.fields.documentNumber.value) {
+      builder.setReference(review.fields.documentNumber.value);
+    }
+    for (const entry of review.lines) {
+      if (entry.debitAmount > 0) {
+        builder.debit(entry.accountId, entry.debitAmount, entry.description);
+      } else {
+        builder.credit(entry.accountId, entry.creditAmount, entry.description);
+      }
+    }
+
+    const { transaction } = await this.journalManager.createAndPersistTransaction(
+      builder.build(),
+      context,
+      { type: 'JOURNAL', source: 'IMPORT' }
+    );
+    const transactionId = Number.parseInt(transaction.id);
+    await this.dbAdapter.attachDocumentToTransaction(transactionId, document.rawDocId, context.userId);
+
+    return {
+      ...review,
+      transactionId,
+      transactionNumber: transaction.transactionNumber,
+      status: transaction.status
+    };
+  }
+
+  private async findAccountBySubtype(type: AccountType, subtype: string): Promise<Account | null> {
+    return (await this.dbAdapter.getAccountsByType(type))
+      .find(account => account.subtype === subtype && account.isActive && account.allowTransactions) || null;
+  }
+
+  private async getPostableAccountOrThrow(accountId: number, label: string): Promise<Account> {
+    const account = await this.dbAdapter.getAccount(accountId);
+    if (!account) {
+      throw new AccountingValidationError(`${label} account ${accountId} not found`, 'ACCOUNT_NOT_FOUND');
+    }
+    if (!account.isActive || !account.allowTransactions) {
+      throw new AccountingValidationError(`${label} account ${account.code} does not accept postings`, 'INVALID_ACCOUNT');
+    }
+    return account;
+  }
+}
@@ -0,0 +1,339 @@
+/**
+ * Accounting Errors
+ * Validation error classes, severities and categories, and helpers that collect and recover from them.
+ */
+
+import type { AccountingError, ValidationError as BaseValidationError } from '../types/index.js';
+
+// Custom Error Classes
+export class AccountingValidationError extends Error implements AccountingError {
+  public readonly code: string;
+  public readonly details?: BaseValidationError[];
+
+  constructor(message: string, code: string, details?: BaseValidationError[]) {
+    super(message);
+    this.name = 'AccountingValidationError';
+    this.code = code;
+    this.details = details;
+  }
+}
+
+export class DoubleEntryError extends AccountingValidationError {
+  constructor(message: string, details?: BaseValidationError[]) {
+    super(message, 'DOUBLE_ENTRY_VIOLATION', details);
+    this.name = 'DoubleEntryError';
+  }
+}
+
+// Enhanced Error System - Severity and Categories
+export enum ErrorSeverity {
+  WARNING = 'WARNING',
+  ERROR = 'ERROR',
+  CRITICAL = 'CRITICAL'
+}
+
+export enum ErrorCategory {
+  VALIDATION = 'VALIDATION',
+  BUSINESS_RULE = 'BUSINESS_RULE',
+  SYSTEM = 'SYSTEM',
+  COMPLIANCE = 'COMPLIANCE'
+}
+
+export interface EnhancedValidationError extends BaseValidationError {
+    severity: ErrorSeverity;
+    category: ErrorCategory;
+    suggestions?: string[];
+    context?: Record<string, unknown>;
+    timestamp?: Date;
+  }
+
+// Specialized Error Classes
+export class BalanceSheetError extends AccountingValidationError {
+  constructor(message: string, details?: BaseValidationError[]) {
+    super(message, 'BALANCE_SHEET_VIOLATION', details);
+    this.name = 'BalanceSheetError';
+  }
+}
+
+export class AccountRegistryError extends AccountingValidationError {
+  constructor(message: string, details?: BaseValidationError[]) {
+    super(message, 'ACCOUNT_REGISTRY_ERROR', details);
+    this.name = 'AccountRegistryError';
+  }
+}
+
+export class CurrencyConversionError extends AccountingValidationError {
+  constructor(message: string, details?: BaseValidationError[]) {
+    super(message, 'CURRENCY_CONVERSION_ERROR', details);
+    this.name = 'CurrencyConversionError';
+  }
+}
+
+export class PeriodClosureError extends AccountingValidationError {
+  constructor(message: string, details?: BaseValidationError[]) {
+    super(message, 'PERIOD_CLOSURE_VIOLATION', details);
+    this.name = 'PeriodClosureError';
+  }
+}
+
+export class FiscalYearError extends AccountingValidationError {
+  constructor(message: string, details?: BaseValidationError[]) {
+    super(message, 'FISCAL_YEAR_VIOLATION', details);
+    this.name = 'FiscalYearError';
+  }
+}
+
+export class ComplianceError extends AccountingValidationError {
+  constructor(message: string, details?: BaseValidationError[]) {
+    super(message, 'COMPLIANCE_VIOLATION', details);
+    this.name = 'ComplianceError';
+  }
+}
+
+export class TransactionStateError extends AccountingValidationError {
+  constructor(message: string, details?: BaseValidationError[]) {
+    super(message, 'INVALID_TRANSACTION_STATE', details);
+    this.name = 'TransactionStateError';
+  }
+}
+
+export class ReconciliationError extends AccountingValidationError {
+  constructor(message: string, details?: BaseValidationError[]) {
+    super(message, 'RECONCILIATION_VIOLATION', details);
+    this.name = 'ReconciliationError';
+  }
+}
+
+export class ApprovalError extends AccountingValidationError {
+  constructor(message: string, details?: BaseValidationError[]) {
+    super(message, 'APPROVAL_VIOLATION', details);
+    this.name = 'ApprovalError';
+  }
+}
+
+// Error Handling Utilities
+export class ErrorAggregator {
+  private errors: EnhancedValidationError[] = [];
+  private warnings: EnhancedValidationError[] = [];
+
+  addError(error: EnhancedValidationError): void {
+    if (error.severity === ErrorSeverity.WARNING) {
+      this.warnings.push(error);
+    } else {
+      this.errors.push(error);
+    }
+  }
+
+  addErrors(errors: EnhancedValidationError[]): void {
+    for (const error of errors) {
+      this.addError(error);
+    }
+  }
+
+  hasErrors(): boolean {
+    return this.errors.length > 0;
+  }
+
+  hasWarnings(): boolean {
+    return this.warnings.length > 0;
+  }
+
+  getErrors(): EnhancedValidationError[] {
+    return [...this.errors];
+  }
+
+  getWarnings(): EnhancedValidationError[] {
+    return [...this.warnings];
+  }
+
+  getAllIssues(): EnhancedValidationError[] {
+    return [...this.errors, ...this.warnings];
+  }
+
+  getCriticalErrors(): EnhancedValidationError[] {
+    return this.errors.filter(error => error.severity === ErrorSeverity.CRITICAL);
+  }
+
+  getErrorsByCategory(category: ErrorCategory): EnhancedValidationError[] {
+    return this.getAllIssues().filter(error => error.category === category);
+  }
+
+  clear(): void {
+    this.errors = [];
+    this.warnings = [];
+  }
+
+  generateReport(): {
+    summary: {
+      totalErrors: number;
+      totalWarnings: number;
+      criticalErrors: number;
+      byCategory: Record<ErrorCategory, number>;
+      bySeverity: Record<ErrorSeverity, number>;
+    };
+    issues: EnhancedValidationError[];
+  } {
+    const allIssues = this.getAllIssues();
+
+    const byCategory = Object.fromEntries(
+      Object.values(ErrorCategory).map(cat => [cat, 0])
+    ) as Record<ErrorCategory, number>;
+
+    const bySeverity = Object.fromEntries(
+      Object.values(ErrorSeverity).map(sev => [sev, 0])
+    ) as Record<ErrorSeverity, number>;
+
+    for (const issue of allIssues) {
+      byCategory[issue.category]++;
+      bySeverity[issue.severity]++;
+    }
+
+    return {
+      summary: {
+        totalErrors: this.errors.length,
+        totalWarnings: this.warnings.length,
+        criticalErrors: this.getCriticalErrors().length,
+        byCategory,
+        bySeverity
+      },
+      issues: allIssues
+    };
+  }
+}
+
+// Enhanced Error Factory
+export namespace AccountingErrorFactory {
+  export function createValidationError(
+    baseError: BaseValidationError,
+    severity: ErrorSeverity = ErrorSeverity.ERROR,
+    category: ErrorCategory = ErrorCategory.VALIDATION,
+    suggestions?: string[],
+    context?: Record<string, unknown>
+  ): EnhancedValidationError {
+    return {
+      ...baseError,
+      severity,
+      category,
+      suggestions,
+      context
+    };
+  }
+
+  export function createBusinessRuleError(
+    baseError: BaseValidationError,
+    suggestions?: string[]
+  ): EnhancedValidationError {
+    return createValidationError(
+      baseError,
+      ErrorSeverity.ERROR,
+      ErrorCategory.BUSINESS_RULE,
+      suggestions
+    );
+  }
+
+  export function createComplianceError(
+    baseError: BaseValidationError,
+    severity: ErrorSeverity = ErrorSeverity.CRITICAL
+  ): EnhancedValidationError {
+    return createValidationError(
+      baseError,
+      severity,
+      ErrorCategory.COMPLIANCE
+    );
+  }
+
+  export function createSystemError(
+    baseError: BaseValidationError,
+    context?: Record<string, unknown>
+  ): EnhancedValidationError {
+    return createValidationError(
+      baseError,
+      ErrorSeverity.CRITICAL,
+      ErrorCategory.SYSTEM,
+      undefined,
+      context
+    );
+  }
+}
+
+// Error Recovery Strategies
+export namespace ErrorRecoveryManager {
+  const RECOVERY_STRATEGIES: Record<string, string[]> = {
+    UNBALANCED_TRANSACTION: [
+      'Check if all journal entries have been recorded',
+      'Verify debit and credit amounts are correct',
+      'Ensure rounding differences are accounted for'
+    ],
+    MISSING_ACCOUNT_ID: [
+      'Verify the account exists in the chart of accounts',
+      'Check if the account ID is correctly formatted',
+      'Ensure the account is active and allows transactions'
+    ],
+    CURRENCY_CONVERSION_ERROR: [
+      'Check if exchange rates are available for the transaction date',
+      'Verify the currencies are supported',
+      'Update exchange rate data if necessary'
+    ],
+    PERIOD_CLOSURE_VIOLATION: [
+      'Check if the accounting period is still open',
+      'Verify transaction date is within allowed period',
+      'Contact system administrator to reopen period if necessary'
+    ],
+    BALANCE_SHEET_VIOLATION: [
+      'Verify asset accounts have debit balances',
+      'Check liability accounts have credit balances',
+      'Ensure equity accounts maintain proper balance types'
+    ]
+  };
+
+  export function getSuggestions(errorCode: string): string[] {
+    return RECOVERY_STRATEGIES[errorCode] || [
+      'Review the transaction details',
+      'Check accounting policies and procedures',
+      'Contact system administrator if issue persists'
+    ];
+  }
+
+  export function enhanceError(error: BaseValidationError): EnhancedValidationError {
+    const suggestions = getSuggestions(error.code);
+    
+    return {
+      ...error,
+      severity: determineSeverity(error.code),
+      category: determineCategory(error.code),
+      suggestions,
+      timestamp: new Date()
+    };
+  }
+
+  function determineSeverity(errorCode: string): ErrorSeverity {
+    const criticalCodes = [
+      'BALANCE_SHEET_VIOLATION',
+      'COMPLIANCE_VIOLATION',
+      'SYSTEM_ERROR',
+      'FISCAL_YEAR_VIOLATION'
+    ];
+    
+    const warningCodes = [
+      'ROUNDING_DIFFERENCE',
+      'EXCHANGE_RATE_OUTDATED'
+    ];
+
+    if (criticalCodes.some(code => errorCode.includes(code))) {
+      return ErrorSeverity.CRITICAL;
+    }
+    
+    if (warningCodes.some(code => errorCode.includes(code))) {
+      return ErrorSeverity.WARNING;
+    }
+
+    return ErrorSeverity.ERROR;
+  }
+
+  function determineCategory(errorCode: string): ErrorCategory {
+    if (errorCode.includes('COMPLIANCE')) return ErrorCategory.COMPLIANCE;
+    if (errorCode.includes('SYSTEM')) return ErrorCategory.SYSTEM;
+    if (errorCode.includes('BUSINESS_RULE')) return ErrorCategory.BUSINESS_RULE;
+    return ErrorCategory.VALIDATION;
+  }
+}
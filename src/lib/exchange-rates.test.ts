@@ -0,0 +1,53 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { CurrencyConversionError, ExchangeRateService, type DatabaseAdapter } from './index';
+import { createTestAdapter } from '../../tests/helpers/ledger';
+
+describe('ExchangeRateService', () => {
+  let adapter: DatabaseAdapter;
+  let service: ExchangeRateService;
+
+  beforeEach(async () => {
+    adapter = createTestAdapter();
+    service = new ExchangeRateService(adapter);
+    await adapter.saveExchangeRate({ fromCurrency: 'USD', toCurrency: 'IDR', rate: 15000, effectiveDate: '2026-03-01' });
+    await adapter.saveExchangeRate({ fromCurrency: 'USD', toCurrency: 'IDR', rate: 15200, effectiveDate: '2026-03-15' });
+    await adapter.saveExchangeRate({ fromCurrency: 'IDR', toCurrency: 'SGD', rate: 0.0001, effectiveDate: '2026-03-10' });
+  });
+
+  it('should use the latest stored rate on or before the date', async () => {
+    expect(await service.resolveRate('USD', 'IDR', '2026-03-20')).toMatchObject({
+      rate: 15200,
+      effectiveDate: '2026-03-15',
+      method: 'DIRECT'
+    });
+    expect(await service.getRate('USD', 'IDR', '2026-03-14')).toBe(15000);
+  });
+
+  it('should invert the opposite pair when only that is stored', async () => {
+    expect(await service.resolveRate('IDR', 'USD', '2026-03-20')).toMatchObject({
+      rate: 1 / 15200,
+      effectiveDate: '2026-03-15',
+      method: 'INVERSE'
+    });
+  });
+
+  it('should prefer the more recently quoted direction', async () => {
+    await adapter.saveExchangeRate({ fromCurrency: 'IDR', toCurrency: 'USD', rate: 1 / 16000, effectiveDate: '2026-03-18' });
+
+    expect(await service.resolveRate('USD', 'IDR', '2026-03-20')).toMatchObject({ effectiveDate: '2026-03-18', method: 'INVERSE' });
+    expect(await service.getRate('USD', 'IDR', '2026-03-20')).toBeCloseTo(16000);
+  });
+
+  it('should triangulate through the base currency, dated by the older leg', async () => {
+    const quote = await service.resolveRate('USD', 'SGD', '2026-03-20');
+
+    expect(quote).toMatchObject({ effectiveDate: '2026-03-10', method: 'TRIANGULATED', via: 'IDR' });
+    expect(quote.rate).toBeCloseTo(1.52);
+  });
+
+  it('should refuse a conversion with no rate in effect', async () => {
+    await expect(service.getRate('USD', 'IDR', '2026-02-28')).rejects.toBeInstanceOf(CurrencyConversionError);
+    await expect(service.getRate('EUR', 'SGD', '2026-03-20')).rejects.toBeInstanceOf(CurrencyConversionError);
+    expect(await service.getRate('EUR', 'EUR', '2026-01-01')).toBe(1);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Exchange Rates
+ * Rate lookup between two currencies on a date, falling back to earlier dates, the inverse pair
+ * and the base currency.
+ */
+
+import type { Currency, ExchangeRateQuote } from '../types/index.js';
+import { FINANCIAL_CONSTANTS } from './constants';
+import type { DatabaseAdapter } from './database-adapter';
+import { CurrencyConversionError } from './errors';
+
+export class ExchangeRateService {
+  private dbAdapter: DatabaseAdapter;
+
+  constructor(dbAdapter: DatabaseAdapter) {
+    this.dbAdapter = dbAdapter;
+  }
+
+  /**
+   * Rate converting 1 unit of fromCurrency into toCurrency on a date
+   */
+  async getRate(fromCurrency: Currency, toCurrency: Currency, onDate: string): Promise<number> {
+    return (await this.resolveRate(fromCurrency, toCurrency, onDate)).rate;
+  }
+
+  /**
+   * Each leg uses the latest rate effective on or before the date, from the stored pair or the
+   * inverse of the opposite pair. When neither exists the rate is triangulated through the base currency.
+   */
+  async resolveRate(fromCurrency: Currency, toCurrency: Currency, onDate: string): Promise<ExchangeRateQuote> {
+    const quote = { fromCurrency, toCurrency, requestedDate: onDate };
+    if (fromCurrency === toCurrency) {
+      return { ...quote, rate: 1.0, effectiveDate: onDate, method: 'IDENTITY' };
+    }
+
+    const pair = await this.findPairRate(fromCurrency, toCurrency, onDate);
+    if (pair) {
+      return { ...quote, ...pair };
+    }
+
+    const baseCurrency = FINANCIAL_CONSTANTS.DEFAULT_CURRENCY;
+    if (fromCurrency !== baseCurrency && toCurrency !== baseCurrency) {
+      const fromLeg = await this.findPairRate(fromCurrency, baseCurrency, onDate);
+      const toLeg = fromLeg ? await this.findPairRate(baseCurrency, toCurrency, onDate) : null;
+      if (fromLeg && toLeg) {
+        return {
+          ...quote,
+          rate: fromLeg.rate * toLeg.rate,
+          // The quote is only as fresh as its older leg
+          effectiveDate: fromLeg.effectiveDate < toLeg.effectiveDate ? fromLeg.effectiveDate : toLeg.effectiveDate,
+          method: 'TRIANGULATED',
+          via: baseCurrency
+        };
+      }
+    }
+
+    throw new CurrencyConversionError(`No exchange rate from ${fromCurrency} to ${toCurrency} effective on ${onDate}`);
+  }
+
+  private async findPairRate(
+    fromCurrency: Currency,
+    toCurrency: Currency,
+    onDate: string
+  ): Promise<Pick<ExchangeRateQuote, 'rate' | 'effectiveDate' | 'method'> | null> {
+    const direct = await this.dbAdapter.getExchangeRate(fromCurrency, toCurrency, onDate);
+    const inverse = await this.dbAdapter.getExchangeRate(toCurrency, fromCurrency, onDate);
+
+    // Prefer whichever direction was quoted more recently
+    if (inverse && inverse.rate !== 0 && (!direct || inverse.effectiveDate > direct.effectiveDate)) {
+      return { rate: 1 / inverse.rate, effectiveDate: inverse.effectiveDate, method: 'INVERSE' };
+    }
+    if (direct) {
+      return { rate: direct.rate, effectiveDate: direct.effectiveDate, method: 'DIRECT' };
+    }
+
+    return null;
+  }
+}
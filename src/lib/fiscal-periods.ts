@@ -0,0 +1,140 @@
+/**
+ * Fiscal Periods
+ * Generating, closing and reopening fiscal periods, and the check whether a date may be posted to.
+ */
+
+import type { FiscalPeriod, FiscalPeriodStatus, PostingContext } from '../types/index.js';
+import { PERIOD_OVERRIDE_PERMISSION } from './constants';
+import type { DatabaseAdapter } from './database-adapter';
+import { FiscalYearError, PeriodClosureError } from './errors';
+import { toISODateString } from './utils';
+
+// Database-Backed Fiscal Period Manager
+export class FiscalPeriodManager {
+  private dbAdapter: DatabaseAdapter;
+
+  constructor(dbAdapter: DatabaseAdapter) {
+    this.dbAdapter = dbAdapter;
+  }
+
+  /**
+   * Throw PeriodClosureError when the date falls in a closed period.
+   * Soft-closed periods accept postings from users holding PERIOD_OVERRIDE;
+   * hard-closed periods must be reopened first.
+   */
+  async assertPostingAllowed(date: Date, context?: PostingContext): Promise<void> {
+    const period = await this.dbAdapter.getFiscalPeriodForDate(toISODateString(date));
+    if (!period || period.status === 'OPEN') {
+      return;
+    }
+
+    const details = [{
+      field: 'transactionDate',
+      message: `Period ${period.name} (${period.startDate} to ${period.endDate}) is ${period.status}`,
+      code: period.status
+    }];
+
+    if (period.status === 'HARD_CLOSED') {
+      throw new PeriodClosureError(
+        `Cannot post to ${toISODateString(date)}: period ${period.name} is hard-closed`,
+        details
+      );
+    }
+
+    if (!context?.permissions?.includes(PERIOD_OVERRIDE_PERMISSION)) {
+      throw new PeriodClosureError(
+        `Cannot post to ${toISODateString(date)}: period ${period.name} is closed and requires the ${PERIOD_OVERRIDE_PERMISSION} permission`,
+        details
+      );
+    }
+  }
+
+  async getPeriods(fiscalYear?: number): Promise<FiscalPeriod[]> {
+    return await this.dbAdapter.getFiscalPeriods(fiscalYear);
+  }
+
+  /**
+   * Define periods after checking each has a valid range and none overlap existing periods
+   */
+  async createPeriods(
+    periods: Array<Omit<FiscalPeriod, 'id' | 'status' | 'closedAt' | 'closedBy' | 'entityId'>>,
+    createdBy?: string
+  ): Promise<FiscalPeriod[]> {
+    const existing = await this.dbAdapter.getFiscalPeriods();
+    const candidates = [...periods].sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+    for (const [index, period] of candidates.entries()) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(period.startDate) || !/^\d{4}-\d{2}-\d{2}$/.test(period.endDate)) {
+        throw new FiscalYearError(`Period ${period.name} must use YYYY-MM-DD dates`);
+      }
+      if (period.startDate > period.endDate) {
+        throw new FiscalYearError(`Period ${period.name} ends before it starts`);
+      }
+
+      const overlapping = [...existing, ...candidates.slice(0, index)].find(other =>
+        other.startDate <= period.endDate && other.endDate >= period.startDate
+      );
+      if (overlapping) {
+        throw new FiscalYearError(`Period ${period.name} overlaps period ${overlapping.name}`);
+      }
+    }
+
+    return await this.dbAdapter.createFiscalPeriods(candidates, createdBy);
+  }
+
+  /**
+   * Generate twelve monthly periods for a fiscal year starting in startMonth (1-12).
+   * A fiscal year is named after the calendar year in which it ends.
+   */
+  async generateFiscalYear(fiscalYear: number, startMonth: number = 1, createdBy?: string): Promise<FiscalPeriod[]> {
+    if (!Number.isInteger(startMonth) || startMonth < 1 || startMonth > 12) {
+      throw new FiscalYearError('Fiscal year start month must be between 1 and 12');
+    }
+
+    const firstYear = startMonth === 1 ? fiscalYear : fiscalYear - 1;
+    const periods = Array.from({ length: 12 }, (_, index) => {
+      const start = new Date(Date.UTC(firstYear, startMonth - 1 + index, 1));
+      const end = new Date(Date.UTC(firstYear, startMonth + index, 0));
+      return {
+        name: `FY${fiscalYear} P${String(index + 1).padStart(2, '0')}`,
+        fiscalYear,
+        periodNumber: index + 1,
+        startDate: toISODateString(start),
+        endDate: toISODateString(end)
+      };
+    });
+
+    return await this.createPeriods(periods, createdBy);
+  }
+
+  /**
+   * Close a period. Soft close can be escalated to hard close; closing is never downgraded here.
+   */
+  async closePeriod(periodId: number, status: Exclude<FiscalPeriodStatus, 'OPEN'>, closedBy?: string): Promise<FiscalPeriod> {
+    const period = await this.getPeriodOrThrow(periodId);
+
+    if (period.status === status || period.status === 'HARD_CLOSED') {
+      throw new FiscalYearError(`Period ${period.name} is already ${period.status}`);
+    }
+
+    return await this.dbAdapter.updateFiscalPeriodStatus(periodId, status, closedBy) as FiscalPeriod;
+  }
+
+  async reopenPeriod(periodId: number, reopenedBy?: string): Promise<FiscalPeriod> {
+    const period = await this.getPeriodOrThrow(periodId);
+
+    if (period.status === 'OPEN') {
+      throw new FiscalYearError(`Period ${period.name} is already open`);
+    }
+
+    return await this.dbAdapter.updateFiscalPeriodStatus(periodId, 'OPEN', reopenedBy) as FiscalPeriod;
+  }
+
+  async getPeriodOrThrow(periodId: number): Promise<FiscalPeriod> {
+    const period = await this.dbAdapter.getFiscalPeriod(periodId);
+    if (!period) {
+      throw new FiscalYearError(`No fiscal period found with ID ${periodId}`);
+    }
+    return period;
+  }
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  FX_REALIZED_GAIN_LOSS_SUBTYPE,
+  FX_UNREALIZED_GAIN_LOSS_SUBTYPE,
+  FxRevaluationService,
+  PeriodClosureError,
+  type DatabaseAdapter
+} from './index';
+import type { Account } from '../types/index.js';
+import {
+  createDraft,
+  createJournalManager,
+  createTestAccount,
+  createTestAdapter,
+  getBalance,
+  postEntry,
+  TEST_CONTEXT
+} from '../../tests/helpers/ledger';
+
+describe('FxRevaluationService', () => {
+  let adapter: DatabaseAdapter;
+  let service: FxRevaluationService;
+  let bank: Account;
+  let receivable: Account;
+  let unrealizedGainLoss: Account;
+  let realizedGainLoss: Account;
+
+  beforeEach(async () => {
+    adapter = createTestAdapter();
+    bank = await createTestAccount(adapter, '1010', 'ASSET', { currency: 'USD' });
+    receivable = await createTestAccount(adapter, '1100', 'ASSET');
+    const capital = await createTestAccount(adapter, '3000', 'EQUITY');
+    const sales = await createTestAccount(adapter, '4000', 'REVENUE');
+    unrealizedGainLoss = await createTestAccount(adapter, '7100', 'REVENUE', { subtype: FX_UNREALIZED_GAIN_LOSS_SUBTYPE });
+    realizedGainLoss = await createTestAccount(adapter, '7200', 'REVENUE', { subtype: FX_REALIZED_GAIN_LOSS_SUBTYPE });
+    const manager = await createJournalManager(adapter);
+
+    // USD 100 paid in at 15000 and a USD 50 invoice settled at 15200
+    await postEntry(manager, [{ accountId: bank.id, debit: 100 }, { accountId: capital.id, credit: 100 }],
+      { date: '2026-03-02', currency: 'USD', exchangeRate: 15000 });
+    await postEntry(manager, [{ accountId: receivable.id, debit: 50 }, { accountId: sales.id, credit: 50 }],
+      { date: '2026-03-05', currency: 'USD', exchangeRate: 15000 });
+    await postEntry(manager, [{ accountId: bank.id, debit: 50 }, { accountId: receivable.id, credit: 50 }],
+      { date: '2026-03-20', currency: 'USD', exchangeRate: 15200 });
+    await adapter.saveExchangeRate({ fromCurrency: 'USD', toCurrency: 'IDR', rate: 15500, effectiveDate: '2026-03-31' });
+    await adapter.createFiscalPeriods([
+      { name: 'March 2026', fiscalYear: 2026, periodNumber: 3, startDate: '2026-03-01', endDate: '2026-03-31' },
+      { name: 'April 2026', fiscalYear: 2026, periodNumber: 4, startDate: '2026-04-01', endDate: '2026-04-30' }
+    ]);
+    service = new FxRevaluationService(adapter, manager);
+  });
+
+  it('should revalue open balances as unrealized and settled remainders as realized', async () => {
+    const { revaluation, unrealizedTransaction, reversal, realizedTransaction } = await service.revalue('2026-03-31', TEST_CONTEXT);
+
+    // USD 150 booked at 2,260,000 is worth 2,325,000; the receivable kept 10,000 of exchange difference
+    expect(revaluation).toMatchObject({ unrealizedGain: 65000, realizedGain: 10000, reversalDate: '2026-04-01' });
+    expect(revaluation.lines?.map(line => [line.accountId, line.kind, line.adjustment])).toEqual(expect.arrayContaining([
+      [bank.id, 'UNREALIZED', 65000],
+      [receivable.id, 'REALIZED', 10000]
+    ]));
+    expect([unrealizedTransaction?.status, realizedTransaction?.status]).toEqual(['REVERSED', 'POSTED']);
+    expect(reversal?.status).toBe('POSTED');
+    expect(await getBalance(adapter, unrealizedGainLoss.id)).toBe(0);
+    expect(await getBalance(adapter, realizedGainLoss.id)).toBe(10000);
+    expect(await getBalance(adapter, receivable.id)).toBe(0);
+  });
+
+  it('should reverse the unrealized entry on the first day of the next period', async () => {
+    await adapter.createFiscalPeriods([
+      { name: 'June 2026', fiscalYear: 2026, periodNumber: 6, startDate: '2026-06-01', endDate: '2026-06-30' }
+    ]);
+
+    expect((await service.preview('2026-06-15')).reversalDate).toBe('2026-07-01');
+    // Without a period the reversal falls on the next day
+    expect((await service.preview('2026-08-15')).reversalDate).toBe('2026-08-16');
+  });
+
+  it('should refuse a revaluation whose reversal lands in a closed period', async () => {
+    const april = (await adapter.getFiscalPeriods(2026)).find(period => period.periodNumber === 4)!;
+    await adapter.updateFiscalPeriodStatus(april.id, 'HARD_CLOSED', 'user-2');
+
+    await expect(service.revalue('2026-03-31', TEST_CONTEXT)).rejects.toBeInstanceOf(PeriodClosureError);
+    expect(await service.getHistory()).toHaveLength(0);
+    expect(await adapter.getTransactionsByStatus('DRAFT')).toHaveLength(0);
+  });
+
+  it('should refuse to revalue a date twice', async () => {
+    await service.revalue('2026-03-31', TEST_CONTEXT);
+
+    await expect(service.revalue('2026-03-31', TEST_CONTEXT)).rejects.toMatchObject({ code: 'FX_REVALUATION_EXISTS' });
+    expect(await service.getHistory()).toHaveLength(1);
+  });
+
+  it('should record one of two revaluations racing for the same date', async () => {
+    const manager = await createJournalManager(adapter);
+    const lines = (await service.preview('2026-03-31')).lines.filter(line => line.kind === 'REALIZED');
+    const adjustment = [{ accountId: receivable.id, debit: 10000 }, { accountId: realizedGainLoss.id, credit: 10000 }];
+    const drafts = [
+      await createDraft(manager, adjustment, { date: '2026-03-31', source: 'SYSTEM' }),
+      await createDraft(manager, adjustment, { date: '2026-03-31', source: 'SYSTEM' })
+    ];
+
+    const runs = await Promise.all(drafts.map(draft => adapter.postFxRevaluation({
+      revaluationDate: '2026-03-31',
+      reversalDate: '2026-04-01',
+      realizedTransactionId: Number.parseInt(draft.id),
+      unrealizedGain: 0,
+      realizedGain: 10000
+    }, lines, TEST_CONTEXT.userId)));
+
+    expect(runs.filter(run => run !== null)).toHaveLength(1);
+    expect(await service.getHistory()).toHaveLength(1);
+    const statuses = await Promise.all(drafts.map(async draft => (await adapter.getTransaction(Number.parseInt(draft.id)))?.status));
+    expect(statuses.sort()).toEqual(['DRAFT', 'POSTED']);
+    expect(await getBalance(adapter, realizedGainLoss.id)).toBe(10000);
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * FX Revaluation
+ * Period-end revaluation of foreign-currency balances at the closing rate, booked against the
+ * unrealized and realized FX gain and loss accounts.
+ */
+
+import type {
+  Account,
+  FxRevaluation,
+  FxRevaluationLine,
+  FxRevaluationPreview,
+  PostingContext,
+  Transaction
+} from '../types/index.js';
+import { FINANCIAL_CONSTANTS, FX_REALIZED_GAIN_LOSS_SUBTYPE, FX_UNREALIZED_GAIN_LOSS_SUBTYPE } from './constants';
+import type { DatabaseAdapter } from './database-adapter';
+import { AccountingValidationError } from './errors';
+import { ExchangeRateService } from './exchange-rates';
+import { FiscalPeriodManager } from './fiscal-periods';
+import type { DatabaseJournalEntryManager } from './journal-entries';
+import { TransactionBuilder } from './transactions';
+import { DAY_MS, roundToDecimalPlaces, toISODateString } from './utils';
+
+export class FxRevaluationService {
+  private dbAdapter: DatabaseAdapter;
+  private journalManager: DatabaseJournalEntryManager;
+  private exchangeRateService: ExchangeRateService;
+  private periodManager: FiscalPeriodManager;
+
+  constructor(dbAdapter: DatabaseAdapter, journalManager: DatabaseJournalEntryManager) {
+    this.dbAdapter = dbAdapter;
+    this.journalManager = journalManager;
+    this.exchangeRateService = new ExchangeRateService(dbAdapter);
+    this.periodManager = new FiscalPeriodManager(dbAdapter);
+  }
+
+  /**
+   * First day of the period after the one containing the revaluation date, where the unrealized
+   * entry is reversed. Without fiscal periods the reversal falls on the following day.
+   */
+  async getReversalDate(revaluationDate: string): Promise<string> {
+    const period = await this.dbAdapter.getFiscalPeriodForDate(revaluationDate);
+    const periodEnd = period?.endDate ?? revaluationDate;
+    return toISODateString(new Date(Date.parse(`${periodEnd}T00:00:00Z`) + DAY_MS));
+  }
+
+  /**
+   * Explicit account if given, otherwise the active revenue or expense account with the subtype
+   */
+  async getGainLossAccount(subtype: string, accountId?: number): Promise<Account> {
+    const account = accountId
+      ? await this.dbAdapter.getAccount(accountId)
+      : [
+          ...(await this.dbAdapter.getAccountsByType('REVENUE')),
+          ...(await this.dbAdapter.getAccountsByType('EXPENSE'))
+        ].find(candidate => candidate.subtype === subtype && candidate.isActive) || null;
+
+    if (!account) {
+      throw new AccountingValidationError(
+        accountId
+          ? `Account ${accountId} not found`
+          : `No FX gain/loss account configured; mark a revenue or expense account with subtype ${subtype}`,
+        'FX_GAIN_LOSS_ACCOUNT_REQUIRED'
+      );
+    }
+
+    if ((account.type !== 'REVENUE' && account.type !== 'EXPENSE') || !account.allowTransactions) {
+      throw new AccountingValidationError(
+        `Account ${account.code} must be a revenue or expense account that allows transactions`,
+        'INVALID_FX_GAIN_LOSS_ACCOUNT'
+      );
+    }
+
+    return account;
+  }
+
+  /**
+   * Revalue foreign-currency balances of ASSET and LIABILITY accounts at the closing rate.
+   * Open balances produce unrealized adjustments; a balance settled to zero in the foreign
+   * currency leaves a base-currency remainder that is booked as realized.
+   */
+  async preview(revaluationDate: string, options: {
+    unrealizedGainLossAccountId?: number;
+    realizedGainLossAccountId?: number;
+  } = {}): Promise<FxRevaluationPreview> {
+    const baseCurrency = FINANCIAL_CONSTANTS.DEFAULT_CURRENCY;
+    const unrealizedAccount = await this.getGainLossAccount(FX_UNREALIZED_GAIN_LOSS_SUBTYPE, options.unrealizedGainLossAccountId);
+    const realizedAccount = await this.getGainLossAccount(FX_REALIZED_GAIN_LOSS_SUBTYPE, options.realizedGainLossAccountId);
+
+    const monetaryAccounts = new Map([
+      ...(await this.dbAdapter.getAccountsByType('ASSET')),
+      ...(await this.dbAdapter.getAccountsByType('LIABILITY'))
+    ].map(account => [account.id, account]));
+
+    const lines: FxRevaluationLine[] = [];
+    for (const balance of await this.dbAdapter.getForeignCurrencyBalances(revaluationDate, baseCurrency)) {
+      const account = monetaryAccounts.get(balance.accountId);
+      if (!account) continue;
+
+      const line = {
+        accountId: account.id,
+        accountCode: account.code,
+        accountName: account.name,
+        currency: balance.currency,
+        foreignBalance: balance.foreignBalance,
+        bookedBaseBalance: balance.baseBalance
+      };
+
+      if (balance.foreignBalance === 0) {
+        if (balance.baseBalance !== 0) {
+          lines.push({ ...line, kind: 'REALIZED', adjustment: roundToDecimalPlaces(-balance.baseBalance) });
+        }
+        continue;
+      }
+
+      const rate = await this.exchangeRateService.getRate(balance.currency, baseCurrency, revaluationDate);
+      const adjustment = roundToDecimalPlaces(balance.foreignBalance * rate - balance.baseBalance);
+      if (adjustment !== 0) {
+        lines.push({ ...line, kind: 'UNREALIZED', rate, adjustment });
+      }
+    }
+
+    // A net debit to monetary accounts is a gain
+    const totalAdjustment = (kind: FxRevaluationLine['kind']) => roundToDecimalPlaces(
+      lines.filter(line => line.kind === kind).reduce((sum, line) => sum + line.adjustment, 0)
+    );
+
+    return {
+      revaluationDate,
+      reversalDate: await this.getReversalDate(revaluationDate),
+      baseCurrency,
+      unrealizedGainLossAccountId: unrealizedAccount.id,
+      realizedGainLossAccountId: realizedAccount.id,
+      lines,
+      unrealizedGain: totalAdjustment('UNREALIZED'),
+      realizedGain: totalAdjustment('REALIZED')
+    };
+  }
+
+  /**
+   * Post the revaluation on revaluationDate, reverse the unrealized entry on the first day of the
+   * next period and record the run. The entries are drafted and checked first, then posted,
+   * reversed and recorded together.
+   */
+  async revalue(revaluationDate: string, context: PostingContext, options: {
+    unrealizedGainLossAccountId?: number;
+    realizedGainLossAccountId?: number;
+  } = {}): Promise<{
+    revaluation: FxRevaluation;
+    unrealizedTransaction?: Transaction;
+    reversal?: Transaction;
+    realizedTransaction?: Transaction;
+    preview: FxRevaluationPreview;
+  }> {
+    const existing = await this.dbAdapter.getFxRevaluationByDate(revaluationDate);
+    if (existing) {
+      throw new AccountingValidationError(
+        `Foreign currency balances were already revalued on ${revaluationDate} (run ${existing.id})`,
+        'FX_REVALUATION_EXISTS'
+      );
+    }
+
+    const preview = await this.preview(revaluationDate, options);
+    if (preview.lines.length === 0) {
+      throw new AccountingValidationError(
+        `No foreign currency balances need revaluation on ${revaluationDate}`,
+        'NOTHING_TO_REVALUE'
+      );
+    }
+
+    // Both dates must accept postings before anything is written
+    await this.periodManager.assertPostingAllowed(new Date(`${revaluationDate}T00:00:00Z`), context);
+    await this.periodManager.assertPostingAllowed(new Date(`${preview.reversalDate}T00:00:00Z`), context);
+
+    const unrealizedLines = preview.lines.filter(line => line.kind === 'UNREALIZED');
+    const realizedLines = preview.lines.filter(line => line.kind === 'REALIZED');
+    const drafts: Transaction[] = [];
+    const unrealizedDraft = unrealizedLines.length > 0
+      ? await this.createAdjustments(
+          unrealizedLines,
+          preview.unrealizedGainLossAccountId,
+          revaluationDate,
+          `Unrealized FX revaluation ${revaluationDate}`,
+          `FXR-${revaluationDate}`,
+          context
+        )
+      : undefined;
+    if (unrealizedDraft) drafts.push(unrealizedDraft);
+    const realizedDraft = realizedLines.length > 0
+      ? await this.createAdjustments(
+          realizedLines,
+          preview.realizedGainLossAccountId,
+          revaluationDate,
+          `Realized FX gain/loss ${revaluationDate}`,
+          `FXG-${revaluationDate}`,
+          context
+        )
+      : undefined;
+    if (realizedDraft) drafts.push(realizedDraft);
+
+    const revaluation = await this.dbAdapter.postFxRevaluation({
+      revaluationDate,
+      reversalDate: preview.reversalDate,
+      unrealizedTransactionId: unrealizedDraft ? Number.parseInt(unrealizedDraft.id) : undefined,
+      realizedTransactionId: realizedDraft ? Number.parseInt(realizedDraft.id) : undefined,
+      unrealizedGain: preview.unrealizedGain,
+      realizedGain: preview.realizedGain
+    }, preview.lines, context.userId);
+    if (!revaluation) {
+      for (const draft of drafts) {
+        await this.journalManager.voidTransaction(Number.parseInt(draft.id), context.userId);
+      }
+      throw new AccountingValidationError(
+        `Foreign currency balances on ${revaluationDate} were revalued by another request`,
+        'FX_REVALUATION_EXISTS'
+      );
+    }
+
+    const getPosted = async (transactionId?: number) =>
+      transactionId ? await this.dbAdapter.getTransaction(transactionId) as Transaction : undefined;
+    const unrealizedTransaction = await getPosted(revaluation.unrealizedTransactionId);
+    const reversal = await getPosted(revaluation.reversalTransactionId);
+    const realizedTransaction = await getPosted(revaluation.realizedTransactionId);
+    await this.journalManager.refreshBudgetActuals(new Date(`${revaluationDate}T00:00:00Z`));
+    if (reversal) {
+      await this.journalManager.refreshBudgetActuals(new Date(`${preview.reversalDate}T00:00:00Z`));
+    }
+
+    return { revaluation, unrealizedTransaction, reversal, realizedTransaction, preview };
+  }
+
+  async getHistory(): Promise<FxRevaluation[]> {
+    return await this.dbAdapter.getFxRevaluations();
+  }
+
+  /**
+   * Draft a base-currency entry moving each account by its adjustment against the gain/loss
+   * account, checked to be postable
+   */
+  private async createAdjustments(
+    lines: FxRevaluationLine[],
+    gainLossAccountId: number,
+    date: string,
+    description: string,
+    reference: string,
+    context: PostingContext
+  ): Promise<Transaction> {
+    const builder = new TransactionBuilder()
+      .setDescription(description)
+      .setReference(reference)
+      .setDate(new Date(`${date}T00:00:00Z`))
+      .setCurrency(FINANCIAL_CONSTANTS.DEFAULT_CURRENCY);
+
+    for (const line of lines) {
+      const lineDescription = `${line.currency} revaluation ${line.accountCode || line.accountId}`;
+      if (line.adjustment > 0) {
+        builder.debit(line.accountId, line.adjustment, lineDescription);
+      } else {
+        builder.credit(line.accountId, -line.adjustment, lineDescription);
+      }
+    }
+
+    const net = roundToDecimalPlaces(lines.reduce((sum, line) => sum + line.adjustment, 0));
+    if (net > 0) {
+      builder.credit(gainLossAccountId, net, 'Foreign exchange gain');
+    } else if (net < 0) {
+      builder.debit(gainLossAccountId, -net, 'Foreign exchange loss');
+    }
+
+    const { transaction: draft } = await this.journalManager.createAndPersistTransaction(
+      builder.build(),
+      context,
+      { type: 'REVALUATION', source: 'SYSTEM' }
+    );
+    return await this.journalManager.assertPostable(Number.parseInt(draft.id), context);
+  }
+}
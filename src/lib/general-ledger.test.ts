@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GeneralLedgerService, type DatabaseAdapter, type DatabaseJournalEntryManager } from './index';
+import type { Account } from '../types/index.js';
+import {
+  createJournalManager,
+  createTestAccount,
+  createTestAdapter,
+  getBalance,
+  postEntry
+} from '../../tests/helpers/ledger';
+
+describe('GeneralLedgerService', () => {
+  let adapter: DatabaseAdapter;
+  let manager: DatabaseJournalEntryManager;
+  let cash: Account;
+  let revenue: Account;
+
+  beforeEach(async () => {
+    adapter = createTestAdapter();
+    cash = await createTestAccount(adapter, '1000', 'ASSET');
+    revenue = await createTestAccount(adapter, '4000', 'REVENUE');
+    manager = await createJournalManager(adapter);
+  });
+
+  it('should report balances and totals in base currency for foreign-currency lines', async () => {
+    await postEntry(manager, [{ accountId: cash.id, debit: 1_000_000 }, { accountId: revenue.id, credit: 1_000_000 }], { date: '2026-02-10' });
+    await postEntry(
+      manager,
+      [{ accountId: cash.id, debit: 100 }, { accountId: revenue.id, credit: 100 }],
+      { date: '2026-03-10', currency: 'USD', exchangeRate: 15_000 }
+    );
+
+    const ledger = await new GeneralLedgerService(adapter).getAccountLedger(cash.id, { startDate: '2026-03-01' });
+
+    expect(ledger.openingBalance).toBe(1_000_000);
+    expect(ledger.totalDebits).toBe(1_500_000);
+    expect(ledger.lines.map(line => line.runningBalance)).toEqual([2_500_000]);
+    expect(ledger.closingBalance).toBe(2_500_000);
+    expect(ledger.closingBalance).toBe(await getBalance(adapter, cash.id));
+  });
+
+  it('should total journal lines at their base amounts unless a currency is asked for', async () => {
+    await postEntry(manager, [{ accountId: cash.id, debit: 1_000_000 }, { accountId: revenue.id, credit: 1_000_000 }], { date: '2026-02-10' });
+    await postEntry(
+      manager,
+      [{ accountId: cash.id, debit: 100 }, { accountId: revenue.id, credit: 100 }],
+      { date: '2026-03-10', currency: 'USD', exchangeRate: 15_000 }
+    );
+    await postEntry(
+      manager,
+      [{ accountId: revenue.id, debit: 40 }, { accountId: cash.id, credit: 40 }],
+      { date: '2026-03-12', currency: 'USD', exchangeRate: 15_500 }
+    );
+
+    expect(await adapter.getJournalEntryTotals(cash.id)).toEqual({ debitTotal: 2_500_000, creditTotal: 620_000, count: 3 });
+    expect(await adapter.getJournalEntryTotals(cash.id, { startDate: '2026-03-01' })).toEqual({ debitTotal: 1_500_000, creditTotal: 620_000, count: 2 });
+    // Only the USD lines, in USD
+    expect(await adapter.getJournalEntryTotals(cash.id, {}, 'USD')).toEqual({ debitTotal: 100, creditTotal: 40, count: 2 });
+  });
+});
@@ -0,0 +1,145 @@
+/**
+ * General Ledger
+ * One account's journal lines in date order with opening, running and closing balances,
+ * paged by a cursor on the last line shown.
+ */
+
+import type {
+  Account,
+  GeneralLedgerPage,
+  JournalEntryFilters,
+  LedgerCursor,
+  LedgerLine,
+  TransactionStatus
+} from '../types/index.js';
+import type { DatabaseAdapter } from './database-adapter';
+import { AccountingValidationError } from './errors';
+import { BalanceCalculator } from './transactions';
+import { roundToDecimalPlaces } from './utils';
+
+export const LEDGER_DEFAULT_STATUSES: TransactionStatus[] = ['POSTED', 'REVERSED'];
+
+export class GeneralLedgerService {
+  static readonly DEFAULT_PAGE_SIZE = 100;
+  static readonly MAX_PAGE_SIZE = 500;
+
+  private dbAdapter: DatabaseAdapter;
+
+  constructor(dbAdapter: DatabaseAdapter) {
+    this.dbAdapter = dbAdapter;
+  }
+
+  static encodeCursor(cursor: LedgerCursor): string {
+    return btoa(`${cursor.transactionDate}:${cursor.entryId}`);
+  }
+
+  static decodeCursor(value: string): LedgerCursor {
+    let decoded = '';
+    try {
+      decoded = atob(value);
+    } catch {
+      // Fall through to the format check below
+    }
+
+    const match = /^(\d+):(\d+)$/.exec(decoded);
+    if (!match) {
+      throw new AccountingValidationError('Invalid ledger cursor', 'INVALID_CURSOR');
+    }
+
+    return { transactionDate: Number(match[1]), entryId: Number(match[2]) };
+  }
+
+  /**
+   * Balance in base currency of the account's lines dated before date (YYYY-MM-DD), over the
+   * same filters as the ledger; statuses default to the ledger statuses
+   */
+  async getBalanceBefore(
+    account: Pick<Account, 'id' | 'type' | 'normalBalance'>,
+    date: string,
+    filters: Omit<JournalEntryFilters, 'after' | 'through' | 'limit'> = {}
+  ): Promise<number> {
+    const totals = await this.dbAdapter.getJournalEntryTotals(account.id, {
+      ...filters,
+      statuses: filters.statuses && filters.statuses.length > 0 ? filters.statuses : LEDGER_DEFAULT_STATUSES,
+      startDate: undefined,
+      endDate: undefined,
+      through: { transactionDate: Date.parse(`${date}T00:00:00Z`) - 1, entryId: Number.MAX_SAFE_INTEGER }
+    });
+    return roundToDecimalPlaces(BalanceCalculator.calculateAccountBalance(
+      account.type,
+      account.normalBalance,
+      totals.debitTotal,
+      totals.creditTotal
+    ));
+  }
+
+  /**
+   * One page of an account's ledger. Opening, running and closing balances are computed
+   * over the same status and reconciliation filters as the listed lines, in base currency.
+   */
+  async getAccountLedger(
+    accountId: number,
+    filters: Omit<JournalEntryFilters, 'after' | 'through' | 'limit'> = {},
+    options: { cursor?: string; limit?: number } = {}
+  ): Promise<GeneralLedgerPage> {
+    const account = await this.dbAdapter.getAccount(accountId);
+    if (!account) {
+      throw new AccountingValidationError(`No account found with ID ${accountId}`, 'ACCOUNT_NOT_FOUND');
+    }
+
+    const after = options.cursor ? GeneralLedgerService.decodeCursor(options.cursor) : undefined;
+    const limit = Math.min(Math.max(options.limit || GeneralLedgerService.DEFAULT_PAGE_SIZE, 1), GeneralLedgerService.MAX_PAGE_SIZE);
+    const ledgerFilters: JournalEntryFilters = {
+      ...filters,
+      statuses: filters.statuses && filters.statuses.length > 0 ? filters.statuses : LEDGER_DEFAULT_STATUSES
+    };
+    const toBalance = (totals: { debitTotal: number; creditTotal: number }) => BalanceCalculator.calculateAccountBalance(
+      account.type,
+      account.normalBalance,
+      totals.debitTotal,
+      totals.creditTotal
+    );
+
+    const openingBalance = filters.startDate ? await this.getBalanceBefore(account, filters.startDate, ledgerFilters) : 0;
+    const periodTotals = await this.dbAdapter.getJournalEntryTotals(accountId, ledgerFilters);
+    const priorPageTotals = after
+      ? await this.dbAdapter.getJournalEntryTotals(accountId, { ...ledgerFilters, through: after })
+      : { debitTotal: 0, creditTotal: 0 };
+
+    const pageOpeningBalance = roundToDecimalPlaces(openingBalance + toBalance(priorPageTotals));
+
+    const entries = await this.dbAdapter.getJournalEntriesByAccount(accountId, { ...ledgerFilters, after, limit: limit + 1 });
+    const hasMore = entries.length > limit;
+    const pageEntries = hasMore ? entries.slice(0, limit) : entries;
+
+    let runningBalance = pageOpeningBalance;
+    const lines: LedgerLine[] = pageEntries.map(entry => {
+      runningBalance = roundToDecimalPlaces(runningBalance + toBalance({
+        debitTotal: entry.baseDebitAmount ?? entry.debitAmount,
+        creditTotal: entry.baseCreditAmount ?? entry.creditAmount
+      }));
+      return { ...entry, runningBalance };
+    });
+
+    const lastEntry = pageEntries[pageEntries.length - 1];
+
+    return {
+      accountId: account.id,
+      accountCode: account.code,
+      accountName: account.name,
+      normalBalance: account.normalBalance,
+      startDate: filters.startDate,
+      endDate: filters.endDate,
+      openingBalance,
+      pageOpeningBalance,
+      closingBalance: roundToDecimalPlaces(openingBalance + toBalance(periodTotals)),
+      totalDebits: roundToDecimalPlaces(periodTotals.debitTotal),
+      totalCredits: roundToDecimalPlaces(periodTotals.creditTotal),
+      lines,
+      nextCursor: hasMore && lastEntry
+        ? GeneralLedgerService.encodeCursor({ transactionDate: lastEntry.transactionDate.getTime(), entryId: lastEntry.id })
+        : null,
+      hasMore
+    };
+  }
+}
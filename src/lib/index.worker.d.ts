@@ -9,6 +9,16 @@ export { DatabaseJournalEntryManager } from './index.js';
 export { formatCurrency } from './index.js';
 export { getNormalBalance } from './index.js';
 export { FINANCIAL_CONSTANTS } from './index.js';
+export { ApprovalPolicy } from './index.js';
+export { FiscalPeriodManager, PERIOD_OVERRIDE_PERMISSION, toISODateString } from './index.js';
+export { YearEndCloseService, RETAINED_EARNINGS_SUBTYPE } from './index.js';
+export { GeneralLedgerService, LEDGER_DEFAULT_STATUSES } from './index.js';
+export { ReconciliationMatcher, BankReconciliationService } from './index.js';
+export { BankStatementImportService } from './index.js';
+export { ExchangeRateService, FxRevaluationService, FX_UNREALIZED_GAIN_LOSS_SUBTYPE, FX_REALIZED_GAIN_LOSS_SUBTYPE } from './index.js';
+export { RecurrenceSchedule, RecurringTransactionService } from './index.js';
+export { DocumentFieldExtractor, DocumentTransactionService, DocumentAttachmentService, ACCOUNTS_PAYABLE_SUBTYPE, INPUT_TAX_SUBTYPE, ACCOUNTS_RECEIVABLE_SUBTYPE, OUTPUT_TAX_SUBTYPE } from './index.js';
+export { BudgetActualsService, BudgetAlertService, BudgetPlanner, CashFlowForecastService, ComparativeStatementService, ConsolidationService, IntercompanyTransactionService, AccountLifecycleService, ChartOfAccountsService, AccountHierarchyService, DimensionService, ReceivablesService } from './index.js';
 
 // Error classes
 export declare class AccountingValidationError extends Error {
@@ -21,6 +31,30 @@ export declare class DoubleEntryError extends AccountingValidationError {
   constructor(message: string, details?: any[]);
 }
 
+export declare class TransactionStateError extends AccountingValidationError {
+  constructor(message: string, details?: any[]);
+}
+
+export declare class ApprovalError extends AccountingValidationError {
+  constructor(message: string, details?: any[]);
+}
+
+export declare class PeriodClosureError extends AccountingValidationError {
+  constructor(message: string, details?: any[]);
+}
+
+export declare class FiscalYearError extends AccountingValidationError {
+  constructor(message: string, details?: any[]);
+}
+
+export declare class ReconciliationError extends AccountingValidationError {
+  constructor(message: string, details?: any[]);
+}
+
+export declare class CurrencyConversionError extends AccountingValidationError {
+  constructor(message: string, details?: any[]);
+}
+
 // Worker-compatible FinancialReportsEngine
 export declare class FinancialReportsEngine {
   constructor(dbAdapter: any);
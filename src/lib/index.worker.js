@@ -7,6 +7,8 @@
  * that are not compatible with Cloudflare Workers runtime.
  */
 
+import { AccountingValidationError } from './index';
+
 // Re-export everything from the main index except financial-reports
 export * from './auth/index';
 
@@ -18,8 +20,50 @@ export {
     TransactionBuilder,
     DatabaseJournalEntryManager,
     DoubleEntryError,
-    getNormalBalance
-} from './index.js';
+    TransactionStateError,
+    ApprovalError,
+    ApprovalPolicy,
+    PeriodClosureError,
+    FiscalYearError,
+    FiscalPeriodManager,
+    PERIOD_OVERRIDE_PERMISSION,
+    toISODateString,
+    YearEndCloseService,
+    RETAINED_EARNINGS_SUBTYPE,
+    GeneralLedgerService,
+    LEDGER_DEFAULT_STATUSES,
+    ReconciliationError,
+    ReconciliationMatcher,
+    BankReconciliationService,
+    BankStatementImportService,
+    CurrencyConversionError,
+    ExchangeRateService,
+    FxRevaluationService,
+    FX_UNREALIZED_GAIN_LOSS_SUBTYPE,
+    FX_REALIZED_GAIN_LOSS_SUBTYPE,
+    RecurrenceSchedule,
+    RecurringTransactionService,
+    DocumentFieldExtractor,
+    DocumentTransactionService,
+    DocumentAttachmentService,
+    ACCOUNTS_PAYABLE_SUBTYPE,
+    INPUT_TAX_SUBTYPE,
+    ACCOUNTS_RECEIVABLE_SUBTYPE,
+    OUTPUT_TAX_SUBTYPE,
+    getNormalBalance,
+    BudgetActualsService,
+    BudgetAlertService,
+    BudgetPlanner,
+    CashFlowForecastService,
+    ComparativeStatementService,
+    ConsolidationService,
+    IntercompanyTransactionService,
+    AccountLifecycleService,
+    ChartOfAccountsService,
+    AccountHierarchyService,
+    DimensionService,
+    ReceivablesService
+} from './index';
 
 // Core financial constants
 const SUPPORTED_CURRENCIES = ['IDR', 'USD', 'EUR', 'GBP', 'SGD', 'MYR'];
@@ -61,14 +105,8 @@ export const FINANCIAL_CONSTANTS = {
 };
 
 // Custom Error Classes
-export class AccountingValidationError extends Error {
-    constructor(message, code, details) {
-        super(message);
-        this.name = 'AccountingValidationError';
-        this.code = code;
-        this.details = details;
-    }
-}
+// AccountingValidationError comes from the main index so instanceof matches the errors its services throw
+export { AccountingValidationError };
 
 export class InsufficientFundsError extends Error {
     constructor(message, availableBalance, requestedAmount) {
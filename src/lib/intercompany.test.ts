@@ -0,0 +1,103 @@
+import { env } from 'cloudflare:test';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { IntercompanyTransactionService, TransactionStateError, type DatabaseAdapter } from './index';
+import type { Account, IntercompanyTransaction } from '../types/index.js';
+import { createTestAccount, createTestAdapter, getBalance, TEST_CONTEXT } from '../../tests/helpers/ledger';
+
+describe('IntercompanyTransactionService', () => {
+  let parent: DatabaseAdapter;
+  let subsidiary: DatabaseAdapter;
+  let service: IntercompanyTransactionService;
+  let bank: Account;
+  let dueFrom: Account;
+  let expense: Account;
+  let dueTo: Account;
+  let link: IntercompanyTransaction;
+
+  beforeEach(async () => {
+    parent = createTestAdapter('parent');
+    subsidiary = createTestAdapter('subsidiary');
+    bank = await createTestAccount(parent, '1000', 'ASSET');
+    dueFrom = await createTestAccount(parent, '1300', 'ASSET');
+    expense = await createTestAccount(subsidiary, '6000', 'EXPENSE');
+    dueTo = await createTestAccount(subsidiary, '2300', 'LIABILITY');
+    await parent.createIntercompanyAccount({ accountId: dueFrom.id, eliminationTag: 'IC-LOAN', counterpartyEntityId: 'subsidiary' });
+    await subsidiary.createIntercompanyAccount({ accountId: dueTo.id, eliminationTag: 'IC-LOAN', counterpartyEntityId: 'parent' });
+
+    service = new IntercompanyTransactionService({ database: env.FINANCE_MANAGER_DB, entityId: 'parent' });
+    link = await service.create({
+      counterpartyEntityId: 'subsidiary',
+      transactionDate: '2026-03-15',
+      description: 'Rent paid on behalf of the subsidiary',
+      amount: 400,
+      currency: 'IDR',
+      sourceAccountId: bank.id,
+      counterpartyAccountId: expense.id
+    }, TEST_CONTEXT);
+  });
+
+  async function balances(): Promise<number[]> {
+    return [
+      await getBalance(parent, dueFrom.id),
+      await getBalance(parent, bank.id),
+      await getBalance(subsidiary, expense.id),
+      await getBalance(subsidiary, dueTo.id)
+    ];
+  }
+
+  it('should post both sides once when two requests race', async () => {
+    const results = await Promise.allSettled([service.post(link.linkId, TEST_CONTEXT), service.post(link.linkId, TEST_CONTEXT)]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect((await parent.getIntercompanyTransaction(link.linkId))?.status).toBe('POSTED');
+    expect((await parent.getTransaction(link.sourceTransactionId))?.status).toBe('POSTED');
+    expect((await subsidiary.getTransaction(link.counterpartyTransactionId))?.status).toBe('POSTED');
+    expect(await balances()).toEqual([400, -400, 400, 400]);
+  });
+
+  it('should post neither side when the counterparty can no longer be posted', async () => {
+    // Voided after the service's checks, before its batch runs
+    await subsidiary.updateTransactionStatus(link.counterpartyTransactionId, 'VOID', 'user-2');
+
+    expect(await parent.postIntercompanyTransaction(link, TEST_CONTEXT.userId)).toBeNull();
+    expect((await parent.getIntercompanyTransaction(link.linkId))?.status).toBe('DRAFT');
+    expect((await parent.getTransaction(link.sourceTransactionId))?.status).toBe('DRAFT');
+    expect(await balances()).toEqual([0, 0, 0, 0]);
+  });
+
+  it('should reverse both sides once when two requests race', async () => {
+    await service.post(link.linkId, TEST_CONTEXT);
+
+    const results = await Promise.allSettled([
+      service.reverse(link.linkId, TEST_CONTEXT, new Date('2026-03-20T00:00:00Z')),
+      service.reverse(link.linkId, TEST_CONTEXT, new Date('2026-03-20T00:00:00Z'))
+    ]);
+
+    const reversed = results.find(result => result.status === 'fulfilled') as PromiseFulfilledResult<Awaited<ReturnType<IntercompanyTransactionService['reverse']>>>;
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(reversed.value.link.status).toBe('REVERSED');
+    expect(reversed.value.reversals.map(reversal => [reversal.entityId, reversal.status])).toEqual([
+      ['parent', 'POSTED'],
+      ['subsidiary', 'POSTED']
+    ]);
+    expect(await balances()).toEqual([0, 0, 0, 0]);
+  });
+
+  it('should reverse neither side when the counterparty was already reversed', async () => {
+    await service.post(link.linkId, TEST_CONTEXT);
+    const originals = {
+      source: await parent.getTransaction(link.sourceTransactionId),
+      counterparty: await subsidiary.getTransaction(link.counterpartyTransactionId)
+    };
+    await subsidiary.reverseTransaction(originals.counterparty!, new Date('2026-03-20T00:00:00Z'), 'user-2');
+
+    const posted = await parent.getIntercompanyTransaction(link.linkId) as IntercompanyTransaction;
+    await expect(
+      parent.reverseIntercompanyTransaction(posted, { source: originals.source!, counterparty: originals.counterparty! }, new Date('2026-03-20T00:00:00Z'))
+    ).resolves.toBeNull();
+    expect((await parent.getIntercompanyTransaction(link.linkId))?.status).toBe('POSTED');
+    expect((await parent.getTransaction(link.sourceTransactionId))?.status).toBe('POSTED');
+    expect(await balances()).toEqual([400, -400, 0, 0]);
+    await expect(service.reverse(link.linkId, TEST_CONTEXT)).rejects.toBeInstanceOf(TransactionStateError);
+  });
+});
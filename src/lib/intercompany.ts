@@ -0,0 +1,229 @@
+/**
+ * Intercompany Transactions
+ * Linked transaction pairs between two entities of a group.
+ */
+
+import type {
+  Account,
+  AccountType,
+  IntercompanyTransaction,
+  IntercompanyTransactionRequest,
+  IntercompanyTransactionStatus,
+  PostingContext,
+  Transaction
+} from '../types/index.js';
+import { DatabaseAdapter, type DatabaseConfig } from './database-adapter';
+import { AccountingValidationError, TransactionStateError } from './errors';
+import { DatabaseJournalEntryManager, VOIDABLE_STATUSES } from './journal-entries';
+import { TransactionBuilder } from './transactions';
+
+/**
+ * Records one intercompany request in both ledgers through due-from and due-to accounts and keeps
+ * the two transactions together: they are posted, voided or reversed in one call, and only after
+ * checking that both sides can be. Posting and reversing write both ledgers in a single batch.
+ */
+export class IntercompanyTransactionService {
+  private config: DatabaseConfig;
+  private dbAdapter: DatabaseAdapter;
+
+  constructor(config: DatabaseConfig) {
+    this.config = config;
+    this.dbAdapter = new DatabaseAdapter(config);
+  }
+
+  /**
+   * Draft the linked pair. The source debits its due-from account and credits sourceAccountId;
+   * the counterparty debits counterpartyAccountId and credits its due-to account.
+   */
+  async create(request: IntercompanyTransactionRequest, context: PostingContext): Promise<IntercompanyTransaction> {
+    const sourceEntityId = this.config.entityId || 'default';
+    if (request.counterpartyEntityId === sourceEntityId) {
+      throw new AccountingValidationError('The counterparty must be another entity', 'INVALID_COUNTERPARTY');
+    }
+    if (!(request.amount > 0)) {
+      throw new AccountingValidationError('Amount must be greater than zero', 'INVALID_AMOUNT');
+    }
+
+    const counterpartyAdapter = new DatabaseAdapter({ ...this.config, entityId: request.counterpartyEntityId });
+    const sourceAccount = await this.dbAdapter.getAccount(request.sourceAccountId);
+    if (!sourceAccount) {
+      throw new AccountingValidationError(`Account ${request.sourceAccountId} not found`, 'ACCOUNT_NOT_FOUND');
+    }
+    const counterpartyAccount = await counterpartyAdapter.getAccount(request.counterpartyAccountId);
+    if (!counterpartyAccount) {
+      throw new AccountingValidationError(
+        `Account ${request.counterpartyAccountId} not found in entity ${request.counterpartyEntityId}`,
+        'ACCOUNT_NOT_FOUND'
+      );
+    }
+    const dueFromAccount = await IntercompanyTransactionService.resolveDueAccount(
+      this.dbAdapter, sourceEntityId, request.dueFromAccountId, request.counterpartyEntityId, 'ASSET'
+    );
+    const dueToAccount = await IntercompanyTransactionService.resolveDueAccount(
+      counterpartyAdapter, request.counterpartyEntityId, request.dueToAccountId, sourceEntityId, 'LIABILITY'
+    );
+
+    const linkId = `IC-${crypto.randomUUID()}`;
+    const build = (debitAccount: Account, creditAccount: Account) => new TransactionBuilder()
+      .setDescription(request.description)
+      .setReference(linkId)
+      .setDate(new Date(`${request.transactionDate}T00:00:00Z`))
+      .setCurrency(request.currency)
+      .debit(debitAccount.id, request.amount, debitAccount.name)
+      .credit(creditAccount.id, request.amount, creditAccount.name)
+      .build();
+
+    const sourceManager = new DatabaseJournalEntryManager(this.dbAdapter);
+    const { transaction: source } = await sourceManager.createAndPersistTransaction(
+      build(dueFromAccount, sourceAccount),
+      context,
+      { type: 'INTERCOMPANY', source: 'MANUAL' }
+    );
+
+    let counterparty: Transaction;
+    try {
+      ({ transaction: counterparty } = await new DatabaseJournalEntryManager(counterpartyAdapter).createAndPersistTransaction(
+        build(counterpartyAccount, dueToAccount),
+        context,
+        { type: 'INTERCOMPANY', source: 'MANUAL' }
+      ));
+    } catch (error) {
+      // Never leave one side behind
+      await sourceManager.voidTransaction(Number.parseInt(source.id), context.userId);
+      throw error;
+    }
+
+    return this.dbAdapter.createIntercompanyTransaction({
+      linkId,
+      sourceEntityId,
+      sourceTransactionId: Number.parseInt(source.id),
+      counterpartyEntityId: request.counterpartyEntityId,
+      counterpartyTransactionId: Number.parseInt(counterparty.id),
+      description: request.description,
+      transactionDate: request.transactionDate,
+      amount: request.amount,
+      currency: request.currency,
+      createdBy: context.userId
+    });
+  }
+
+  async post(linkId: string, context: PostingContext): Promise<IntercompanyTransaction> {
+    const link = await this.getLinkOrThrow(linkId, 'DRAFT', 'posted');
+    const sides = this.getSides(link);
+
+    const transactions: Transaction[] = [];
+    for (const side of sides) {
+      transactions.push(await side.manager.assertPostable(side.transactionId, context));
+    }
+
+    const posted = await this.dbAdapter.postIntercompanyTransaction(link, context.userId);
+    if (!posted) {
+      throw new TransactionStateError(`Intercompany transaction ${linkId} was changed by another request and was not posted`);
+    }
+    for (const [index, side] of sides.entries()) {
+      await side.manager.refreshBudgetActuals(new Date(transactions[index].date));
+    }
+    return posted;
+  }
+
+  async void(linkId: string, voidedBy?: string): Promise<IntercompanyTransaction> {
+    const link = await this.getLinkOrThrow(linkId, 'DRAFT', 'voided');
+    const sides = this.getSides(link);
+
+    for (const side of sides) {
+      const transaction = await side.adapter.getTransaction(side.transactionId);
+      if (!transaction || !VOIDABLE_STATUSES.includes(transaction.status)) {
+        throw new TransactionStateError(
+          `Transaction ${transaction?.transactionNumber || side.transactionId} is ${transaction?.status || 'missing'} and cannot be voided`
+        );
+      }
+    }
+    for (const side of sides) {
+      await side.manager.voidTransaction(side.transactionId, voidedBy);
+    }
+
+    return await this.dbAdapter.updateIntercompanyTransactionStatus(linkId, 'VOID', voidedBy) as IntercompanyTransaction;
+  }
+
+  async reverse(
+    linkId: string,
+    context: PostingContext,
+    reversalDate: Date = new Date()
+  ): Promise<{ link: IntercompanyTransaction; reversals: Transaction[] }> {
+    const link = await this.getLinkOrThrow(linkId, 'POSTED', 'reversed');
+    const sides = this.getSides(link);
+
+    const [source, counterparty] = [
+      await sides[0].manager.assertReversible(sides[0].transactionId, context, reversalDate),
+      await sides[1].manager.assertReversible(sides[1].transactionId, context, reversalDate)
+    ];
+
+    const reversed = await this.dbAdapter.reverseIntercompanyTransaction(link, { source, counterparty }, reversalDate, context.userId);
+    if (!reversed) {
+      throw new TransactionStateError(`Intercompany transaction ${linkId} was changed by another request and was not reversed`);
+    }
+    for (const side of sides) {
+      await side.manager.refreshBudgetActuals(reversalDate);
+    }
+    return reversed;
+  }
+
+  /**
+   * The given account, or the entity's account of the type tagged as intercompany with the counterparty
+   */
+  private static async resolveDueAccount(
+    dbAdapter: DatabaseAdapter,
+    entityId: string,
+    accountId: number | undefined,
+    counterpartyEntityId: string,
+    type: AccountType
+  ): Promise<Account> {
+    if (accountId !== undefined) {
+      const account = await dbAdapter.getAccount(accountId);
+      if (!account) {
+        throw new AccountingValidationError(`Account ${accountId} not found`, 'ACCOUNT_NOT_FOUND');
+      }
+      return account;
+    }
+
+    const tagged = await dbAdapter.getIntercompanyAccounts([entityId]);
+    for (const candidate of tagged.filter(account => account.counterpartyEntityId === counterpartyEntityId)) {
+      const account = await dbAdapter.getAccount(candidate.accountId);
+      if (account?.type === type && account.isActive) return account;
+    }
+
+    throw new AccountingValidationError(
+      `No ${type === 'ASSET' ? 'due-from' : 'due-to'} account is tagged as intercompany with entity ${counterpartyEntityId}`,
+      'INTERCOMPANY_ACCOUNT_NOT_FOUND'
+    );
+  }
+
+  private async getLinkOrThrow(
+    linkId: string,
+    expectedStatus: IntercompanyTransactionStatus,
+    action: string
+  ): Promise<IntercompanyTransaction> {
+    const link = await this.dbAdapter.getIntercompanyTransaction(linkId);
+    if (!link) {
+      throw new AccountingValidationError(`Intercompany transaction ${linkId} not found`, 'INTERCOMPANY_TRANSACTION_NOT_FOUND');
+    }
+    if (link.status !== expectedStatus) {
+      throw new TransactionStateError(`Intercompany transaction ${linkId} is ${link.status} and cannot be ${action}`);
+    }
+    return link;
+  }
+
+  private getSides(link: IntercompanyTransaction): Array<{
+    adapter: DatabaseAdapter;
+    manager: DatabaseJournalEntryManager;
+    transactionId: number;
+  }> {
+    return [
+      { entityId: link.sourceEntityId, transactionId: link.sourceTransactionId },
+      { entityId: link.counterpartyEntityId, transactionId: link.counterpartyTransactionId }
+    ].map(({ entityId, transactionId }) => {
+      const adapter = new DatabaseAdapter({ ...this.config, entityId });
+      return { adapter, manager: new DatabaseJournalEntryManager(adapter), transactionId };
+    });
+  }
+}
@@ -0,0 +1,476 @@
+/**
+ * Journal Entries
+ * The database-backed account registry and journal entry manager: drafts, approval, posting,
+ * voiding and reversal of transactions.
+ */
+
+import type {
+  Account,
+  AccountType,
+  ApprovalActor,
+  ApprovalRule,
+  JournalEntry,
+  PostingContext,
+  Transaction,
+  TransactionApproval,
+  TransactionData,
+  TransactionStatus,
+  ValidationError as BaseValidationError
+} from '../types/index.js';
+import { AccountRegistry, JournalEntryManager } from './accounting-engine';
+import { ApprovalPolicy } from './approval-policy';
+import { BudgetActualsService } from './budget-actuals';
+import { BudgetAlertService } from './budget-alerts';
+import { FINANCIAL_CONSTANTS } from './constants';
+import type { CreateTransactionOptions, DatabaseAdapter } from './database-adapter';
+import { DimensionService } from './dimensions';
+import { AccountingValidationError, ApprovalError, TransactionStateError } from './errors';
+import { ExchangeRateService } from './exchange-rates';
+import { FiscalPeriodManager } from './fiscal-periods';
+import { TransactionValidator } from './transactions';
+import { roundToDecimalPlaces, toISODateString } from './utils';
+
+// Database-Backed Account Registry
+export class DatabaseAccountRegistry extends AccountRegistry {
+  private dbAdapter: DatabaseAdapter;
+
+  constructor(dbAdapter: DatabaseAdapter) {
+    super();
+    this.dbAdapter = dbAdapter;
+  }
+
+  async loadAccountsFromDatabase(): Promise<void> {
+    const accounts = await this.dbAdapter.getAllAccounts();
+    for (const account of accounts) {
+      super.registerAccount(account);
+    }
+  }
+
+  async registerAccount(account: Account): Promise<Account> {
+    const createdAccount = await this.dbAdapter.createAccount(account);
+    super.registerAccount(createdAccount);
+    return createdAccount;
+  }
+
+  async getAccountFromDatabase(accountId: string): Promise<Account | null> {
+    return await this.dbAdapter.getAccount(Number.parseInt(accountId));
+  }
+
+  async getAccountsByTypeFromDatabase(accountType: AccountType): Promise<Account[]> {
+    return await this.dbAdapter.getAccountsByType(accountType);
+  }
+}
+
+// Statuses from which a transaction may move to POSTED or VOID
+const POSTABLE_STATUSES: TransactionStatus[] = ['DRAFT', 'APPROVED'];
+export const VOIDABLE_STATUSES: TransactionStatus[] = ['DRAFT', 'PENDING', 'APPROVED'];
+
+// Database-Backed Journal Entry Manager
+export class DatabaseJournalEntryManager extends JournalEntryManager {
+  private dbAdapter: DatabaseAdapter;
+  private periodManager: FiscalPeriodManager;
+  private exchangeRateService: ExchangeRateService;
+
+  constructor(dbAdapter: DatabaseAdapter, accountRegistry?: AccountRegistry) {
+    super(accountRegistry);
+    this.dbAdapter = dbAdapter;
+    this.periodManager = new FiscalPeriodManager(dbAdapter);
+    this.exchangeRateService = new ExchangeRateService(dbAdapter);
+  }
+
+  /**
+   * Load the rates in effect on the transaction date for every foreign currency it uses
+   */
+  private async loadExchangeRates(transactionData: TransactionData): Promise<void> {
+    const baseCurrency = FINANCIAL_CONSTANTS.DEFAULT_CURRENCY;
+    const onDate = toISODateString(transactionData.transactionDate);
+    const currencies = new Set(transactionData.entries.map(entry => entry.currency || transactionData.currency));
+
+    for (const currency of currencies) {
+      if (currency === baseCurrency) continue;
+      if (currency === transactionData.currency && transactionData.exchangeRate) continue;
+      this.setExchangeRate(currency, baseCurrency, await this.exchangeRateService.getRate(currency, baseCurrency, onDate));
+    }
+  }
+
+  async createAndPersistTransaction(
+    transactionData: TransactionData,
+    context: PostingContext = { userId: 'system' },
+    options: Omit<CreateTransactionOptions, 'createdBy'> = {}
+  ): Promise<{
+    transaction: Transaction;
+    journalEntries: JournalEntry[];
+  }> {
+    // Validate transaction data
+    const validationErrors = TransactionValidator.validateTransactionData(transactionData);
+    if (validationErrors.length > 0) {
+      throw new AccountingValidationError(
+        'Transaction validation failed',
+        'INVALID_TRANSACTION_DATA',
+        validationErrors
+      );
+    }
+
+    // Reject entries dated inside a closed period
+    await this.periodManager.assertPostingAllowed(transactionData.transactionDate, context);
+
+    // Deactivated accounts take no new postings; system entries still close out their balances
+    if (options.source !== 'SYSTEM') {
+      await this.assertAccountsActive(transactionData.entries.map(entry => Number(entry.accountId)));
+    }
+
+    // Dimension codes must be active values; accounts' required dimensions do not apply to system entries
+    await new DimensionService(this.dbAdapter).assertValidLines(
+      transactionData.entries.map(entry => ({
+        accountId: Number(entry.accountId),
+        departmentId: entry.departmentId || transactionData.departmentId,
+        projectId: entry.projectId || transactionData.projectId,
+        costCenterId: entry.costCenterId || transactionData.costCenterId
+      })),
+      { enforceRules: options.source !== 'SYSTEM' }
+    );
+
+    // Resolve exchange rates before anything is written
+    await this.loadExchangeRates(transactionData);
+
+    // Create transaction header
+    const transaction = await this.dbAdapter.createTransaction(transactionData, { ...options, createdBy: context.userId });
+
+    // Create journal entries
+    const journalEntries = this.createJournalEntriesFromTransaction(
+      parseInt(transaction.id),
+      transactionData,
+      context.userId
+    );
+
+    // Validate journal entries
+    const entryValidationErrors = this.validateJournalEntries(journalEntries);
+    if (entryValidationErrors.length > 0) {
+      throw new AccountingValidationError(
+        'Journal entry validation failed',
+        'INVALID_JOURNAL_ENTRIES',
+        entryValidationErrors
+      );
+    }
+
+    // Persist journal entries
+    const persistedEntries = await this.dbAdapter.createJournalEntries(journalEntries);
+
+    return {
+      transaction,
+      journalEntries: persistedEntries
+    };
+  }
+
+  async postTransaction(transactionId: number, context: PostingContext = { userId: 'system' }): Promise<Transaction> {
+    const transaction = await this.assertPostable(transactionId, context);
+
+    const posted = await this.dbAdapter.postTransaction(transactionId, context.userId);
+    if (!posted) {
+      throw new TransactionStateError(
+        `Transaction ${transaction.transactionNumber || transaction.id} was changed by another request and was not posted`
+      );
+    }
+    await this.refreshBudgetActuals(new Date(transaction.date));
+    return posted;
+  }
+
+  /**
+   * Throw unless postTransaction would succeed: the status allows posting, required approvals
+   * are in place, the period accepts postings and the lines' accounts and dimensions are usable
+   */
+  async assertPostable(transactionId: number, context: PostingContext = { userId: 'system' }): Promise<Transaction> {
+    const transaction = await this.getTransactionOrThrow(transactionId);
+
+    if (!POSTABLE_STATUSES.includes(transaction.status)) {
+      throw new TransactionStateError(
+        `Transaction ${transaction.transactionNumber || transaction.id} is ${transaction.status} and cannot be posted`
+      );
+    }
+
+    // System-generated entries (closing, reversals, issued receivables documents) are approved where they originate
+    if (transaction.status !== 'APPROVED' && transaction.source !== 'SYSTEM') {
+      const requiredSteps = ApprovalPolicy.getRequiredSteps(
+        await this.dbAdapter.getApprovalRules(),
+        await this.getApprovalAmount(transactionId)
+      );
+      if (requiredSteps.length > 0) {
+        throw new TransactionStateError(
+          `Transaction ${transaction.transactionNumber || transaction.id} requires approval before it can be posted`
+        );
+      }
+    }
+
+    await this.periodManager.assertPostingAllowed(new Date(transaction.date), context);
+
+    if (transaction.source !== 'SYSTEM') {
+      const entries = await this.dbAdapter.getJournalEntriesByTransaction(transactionId);
+      await this.assertAccountsActive(entries.map(entry => entry.accountId));
+      await new DimensionService(this.dbAdapter).assertValidLines(entries, { enforceRules: true });
+    }
+    return transaction;
+  }
+
+  /**
+   * Submit a draft for approval. Transactions below every threshold are approved straight away.
+   */
+  async submitForApproval(transactionId: number, submittedBy: ApprovalActor, comments?: string): Promise<Transaction> {
+    const transaction = await this.getTransactionOrThrow(transactionId);
+
+    if (transaction.status !== 'DRAFT') {
+      throw new TransactionStateError(
+        `Transaction ${transaction.transactionNumber || transaction.id} is ${transaction.status}; only drafts can be submitted for approval`
+      );
+    }
+
+    const requiredSteps = ApprovalPolicy.getRequiredSteps(
+      await this.dbAdapter.getApprovalRules(),
+      await this.getApprovalAmount(transactionId)
+    );
+
+    return await this.dbAdapter.recordApprovalAction(
+      transactionId,
+      { action: 'SUBMITTED', actor: submittedBy, comments },
+      requiredSteps.length > 0 ? 'PENDING' : 'APPROVED'
+    ) as Transaction;
+  }
+
+  /**
+   * Sign off the next pending step. The transaction becomes APPROVED after the last step.
+   */
+  async approveTransaction(transactionId: number, approver: ApprovalActor, comments?: string): Promise<Transaction> {
+    const transaction = await this.getTransactionOrThrow(transactionId);
+
+    if (transaction.status !== 'PENDING') {
+      throw new TransactionStateError(
+        `Transaction ${transaction.transactionNumber || transaction.id} is ${transaction.status} and is not awaiting approval`
+      );
+    }
+
+    const rules = await this.dbAdapter.getApprovalRules();
+    const history = await this.dbAdapter.getTransactionApprovals(transactionId);
+    const amount = await this.getApprovalAmount(transactionId);
+    const step = ApprovalPolicy.getNextStep(rules, amount, history);
+
+    // Rules may have been relaxed since submission, leaving no step to sign off
+    const violation = step
+      ? ApprovalPolicy.getApprovalViolation(step, approver, transaction, history)
+      : transaction.createdBy === approver.id ? 'The creator of a transaction cannot approve it' : null;
+    if (violation) {
+      throw new ApprovalError(violation);
+    }
+
+    const remaining = step
+      ? ApprovalPolicy.getRequiredSteps(rules, amount).filter(rule => rule.stepNumber > step.stepNumber)
+      : [];
+
+    return await this.dbAdapter.recordApprovalAction(
+      transactionId,
+      { action: 'APPROVED', actor: approver, stepNumber: step?.stepNumber, comments },
+      remaining.length > 0 ? 'PENDING' : 'APPROVED'
+    ) as Transaction;
+  }
+
+  /**
+   * Reject a pending transaction back to DRAFT. Comments are mandatory so the maker knows what to fix.
+   */
+  async rejectTransaction(transactionId: number, approver: ApprovalActor, comments: string): Promise<Transaction> {
+    const transaction = await this.getTransactionOrThrow(transactionId);
+
+    if (transaction.status !== 'PENDING') {
+      throw new TransactionStateError(
+        `Transaction ${transaction.transactionNumber || transaction.id} is ${transaction.status} and is not awaiting approval`
+      );
+    }
+
+    if (!comments || comments.trim().length === 0) {
+      throw new ApprovalError('A comment is required when rejecting a transaction');
+    }
+
+    if (transaction.createdBy === approver.id) {
+      throw new ApprovalError('The creator of a transaction cannot reject it');
+    }
+
+    const step = ApprovalPolicy.getNextStep(
+      await this.dbAdapter.getApprovalRules(),
+      await this.getApprovalAmount(transactionId),
+      await this.dbAdapter.getTransactionApprovals(transactionId)
+    );
+
+    return await this.dbAdapter.recordApprovalAction(
+      transactionId,
+      { action: 'REJECTED', actor: approver, stepNumber: step?.stepNumber, comments: comments.trim() },
+      'DRAFT'
+    ) as Transaction;
+  }
+
+  /**
+   * Pending transactions whose next step this approver is allowed to sign off
+   */
+  async getApprovalQueue(approver: ApprovalActor): Promise<Array<{
+    transaction: Transaction;
+    step: ApprovalRule;
+    history: TransactionApproval[];
+  }>> {
+    const rules = await this.dbAdapter.getApprovalRules();
+    const pending = await this.dbAdapter.getTransactionsByStatus('PENDING');
+    const queue: Array<{ transaction: Transaction; step: ApprovalRule; history: TransactionApproval[] }> = [];
+
+    for (const transaction of pending) {
+      const transactionId = Number.parseInt(transaction.id);
+      const history = await this.dbAdapter.getTransactionApprovals(transactionId);
+      const step = ApprovalPolicy.getNextStep(rules, await this.getApprovalAmount(transactionId), history);
+      if (step && !ApprovalPolicy.getApprovalViolation(step, approver, transaction, history)) {
+        queue.push({ transaction, step, history });
+      }
+    }
+
+    return queue;
+  }
+
+  async getTransactionApprovals(transactionId: number): Promise<TransactionApproval[]> {
+    return await this.dbAdapter.getTransactionApprovals(transactionId);
+  }
+
+  /**
+   * Void a transaction that never reached the ledger.
+   * Posted transactions must be reversed instead so the audit trail is preserved.
+   */
+  async voidTransaction(transactionId: number, voidedBy?: string): Promise<Transaction> {
+    const transaction = await this.getTransactionOrThrow(transactionId);
+
+    if (!VOIDABLE_STATUSES.includes(transaction.status)) {
+      throw new TransactionStateError(
+        transaction.status === 'POSTED'
+          ? `Transaction ${transaction.transactionNumber || transaction.id} is posted and must be reversed instead of voided`
+          : `Transaction ${transaction.transactionNumber || transaction.id} is ${transaction.status} and cannot be voided`
+      );
+    }
+
+    const voided = await this.dbAdapter.voidTransaction(transactionId, voidedBy);
+    if (!voided) {
+      throw new TransactionStateError(
+        `Transaction ${transaction.transactionNumber || transaction.id} was changed by another request and was not voided`
+      );
+    }
+    return voided;
+  }
+
+  /**
+   * Reverse a posted transaction with a mirror entry dated on reversalDate
+   */
+  async reverseTransaction(
+    transactionId: number,
+    context: PostingContext = { userId: 'system' },
+    reversalDate: Date = new Date()
+  ): Promise<{
+    original: Transaction;
+    reversal: Transaction;
+  }> {
+    const transaction = await this.assertReversible(transactionId, context, reversalDate);
+
+    const reversal = await this.dbAdapter.reverseTransaction(transaction, reversalDate, context.userId);
+    if (!reversal) {
+      throw new TransactionStateError(
+        `Transaction ${transaction.transactionNumber || transaction.id} was changed by another request and was not reversed`
+      );
+    }
+    const original = await this.dbAdapter.getTransaction(transactionId) as Transaction;
+    await this.refreshBudgetActuals(reversalDate);
+
+    return { original, reversal };
+  }
+
+  /**
+   * Throw unless reverseTransaction would succeed on reversalDate
+   */
+  async assertReversible(
+    transactionId: number,
+    context: PostingContext = { userId: 'system' },
+    reversalDate: Date = new Date()
+  ): Promise<Transaction> {
+    const transaction = await this.getTransactionOrThrow(transactionId);
+
+    if (transaction.status !== 'POSTED') {
+      throw new TransactionStateError(
+        `Transaction ${transaction.transactionNumber || transaction.id} is ${transaction.status}; only posted transactions can be reversed`
+      );
+    }
+
+    if (transaction.isReversed || transaction.reversedTransactionId) {
+      throw new TransactionStateError(
+        `Transaction ${transaction.transactionNumber || transaction.id} is already linked to a reversal`
+      );
+    }
+
+    // The reversal posts on reversalDate, so that period must accept postings
+    await this.periodManager.assertPostingAllowed(reversalDate, context);
+    return transaction;
+  }
+
+  async getTransactionJournalEntries(transactionId: number): Promise<JournalEntry[]> {
+    return await this.dbAdapter.getJournalEntriesByTransaction(transactionId);
+  }
+
+  async getAccountJournalEntries(accountId: number): Promise<JournalEntry[]> {
+    return await this.dbAdapter.getJournalEntriesByAccount(accountId);
+  }
+
+  /**
+   * Bring budgets covering the date up to date with a new posting and record any thresholds
+   * crossed. The posting is already written, so a failure is only logged; the scheduled
+   * refresh catches up.
+   */
+  async refreshBudgetActuals(date: Date): Promise<void> {
+    try {
+      const actuals = await new BudgetActualsService(this.dbAdapter).refresh({ onDate: toISODateString(date) });
+      await new BudgetAlertService(this.dbAdapter).evaluate(actuals);
+    } catch (error) {
+      console.warn('Failed to refresh budget actuals:', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  private async getTransactionOrThrow(transactionId: number): Promise<Transaction> {
+    const transaction = await this.dbAdapter.getTransaction(transactionId);
+    if (!transaction) {
+      throw new AccountingValidationError(
+        `No transaction found with ID ${transactionId}`,
+        'TRANSACTION_NOT_FOUND'
+      );
+    }
+    return transaction;
+  }
+
+  /**
+   * The amount approval thresholds are compared with: the debit total in base currency, so a
+   * foreign-currency entry is measured by what it is worth in the books rather than its face value
+   */
+  private async getApprovalAmount(transactionId: number): Promise<number> {
+    const entries = await this.dbAdapter.getJournalEntriesByTransaction(transactionId);
+    return roundToDecimalPlaces(
+      entries.reduce((sum, entry) => sum + (entry.baseDebitAmount ?? entry.debitAmount), 0)
+    );
+  }
+
+  private async assertAccountsActive(accountIds: number[]): Promise<void> {
+    const errors: BaseValidationError[] = [];
+    for (const accountId of new Set(accountIds)) {
+      const account = await this.dbAdapter.getAccount(accountId);
+      if (account && !account.isActive) {
+        errors.push({
+          field: 'accountId',
+          message: `Account ${account.code} (${account.name}) is inactive`,
+          code: 'ACCOUNT_INACTIVE'
+        });
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new AccountingValidationError(
+        'Inactive accounts cannot receive new postings',
+        'ACCOUNT_INACTIVE',
+        errors
+      );
+    }
+  }
+}
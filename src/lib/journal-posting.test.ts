@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { TransactionStateError, type DatabaseAdapter, type DatabaseJournalEntryManager } from './index';
+import type { Account } from '../types/index.js';
+import {
+  createDraft,
+  createJournalManager,
+  createTestAccount,
+  createTestAdapter,
+  getBalance,
+  postEntry,
+  TEST_CONTEXT
+} from '../../tests/helpers/ledger';
+
+describe('DatabaseJournalEntryManager posting and reversal', () => {
+  let adapter: DatabaseAdapter;
+  let manager: DatabaseJournalEntryManager;
+  let cash: Account;
+  let revenue: Account;
+
+  beforeEach(async () => {
+    adapter = createTestAdapter();
+    cash = await createTestAccount(adapter, '1000', 'ASSET');
+    revenue = await createTestAccount(adapter, '4000', 'REVENUE');
+    manager = await createJournalManager(adapter);
+  });
+
+  it('should apply balances once when the same draft is posted twice', async () => {
+    const draft = await createDraft(manager, [{ accountId: cash.id, debit: 100 }, { accountId: revenue.id, credit: 100 }]);
+    const transactionId = Number.parseInt(draft.id);
+
+    expect((await adapter.postTransaction(transactionId, 'user-1'))?.status).toBe('POSTED');
+    expect(await adapter.postTransaction(transactionId, 'user-1')).toBeNull();
+
+    expect(await getBalance(adapter, cash.id)).toBe(100);
+    expect(await getBalance(adapter, revenue.id)).toBe(100);
+  });
+
+  it('should post concurrent requests for one draft exactly once', async () => {
+    const draft = await createDraft(manager, [{ accountId: cash.id, debit: 250 }, { accountId: revenue.id, credit: 250 }]);
+    const transactionId = Number.parseInt(draft.id);
+
+    const results = await Promise.allSettled([
+      manager.postTransaction(transactionId, TEST_CONTEXT),
+      manager.postTransaction(transactionId, TEST_CONTEXT)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    const rejected = results.find(result => result.status === 'rejected') as PromiseRejectedResult;
+    expect(rejected.reason).toBeInstanceOf(TransactionStateError);
+    expect(await getBalance(adapter, cash.id)).toBe(250);
+  });
+
+  it('should leave a transaction posted by another request unvoided', async () => {
+    const posted = await postEntry(manager, [{ accountId: cash.id, debit: 60 }, { accountId: revenue.id, credit: 60 }]);
+    const transactionId = Number.parseInt(posted.id);
+
+    expect(await adapter.voidTransaction(transactionId, 'user-2')).toBeNull();
+    expect((await adapter.getTransaction(transactionId))?.status).toBe('POSTED');
+    expect(await getBalance(adapter, cash.id)).toBe(60);
+  });
+
+  it('should either post or void a draft when both are requested at once', async () => {
+    const draft = await createDraft(manager, [{ accountId: cash.id, debit: 40 }, { accountId: revenue.id, credit: 40 }]);
+    const transactionId = Number.parseInt(draft.id);
+
+    const results = await Promise.allSettled([
+      manager.postTransaction(transactionId, TEST_CONTEXT),
+      manager.voidTransaction(transactionId, 'user-2')
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    const status = (await adapter.getTransaction(transactionId))?.status;
+    expect(await getBalance(adapter, cash.id)).toBe(status === 'POSTED' ? 40 : 0);
+    expect(['POSTED', 'VOID']).toContain(status);
+  });
+
+  it('should hold a foreign-currency entry for approval by its base-currency amount', async () => {
+    await adapter.replaceApprovalRules([
+      { stepNumber: 1, name: 'Controller', minAmount: 1000000, approverRoles: ['ACCOUNTANT'], isActive: true }
+    ]);
+    const draft = await createDraft(
+      manager,
+      [{ accountId: cash.id, debit: 100000 }, { accountId: revenue.id, credit: 100000 }],
+      { currency: 'USD', exchangeRate: 15000 }
+    );
+    const transactionId = Number.parseInt(draft.id);
+
+    await expect(manager.postTransaction(transactionId, TEST_CONTEXT)).rejects.toThrow(/requires approval/);
+    const submitted = await manager.submitForApproval(transactionId, { id: 'user-1', role: 'USER' });
+    expect(submitted.status).toBe('PENDING');
+    expect(await getBalance(adapter, cash.id)).toBe(0);
+  });
+
+  it('should create one mirror entry when a transaction is reversed twice', async () => {
+    const posted = await postEntry(manager, [{ accountId: cash.id, debit: 100 }, { accountId: revenue.id, credit: 100 }]);
+    const original = await adapter.getTransaction(Number.parseInt(posted.id));
+
+    const reversal = await adapter.reverseTransaction(original!, new Date('2026-03-20T00:00:00Z'), 'user-1');
+    expect(reversal?.status).toBe('POSTED');
+    expect(await adapter.reverseTransaction(original!, new Date('2026-03-20T00:00:00Z'), 'user-1')).toBeNull();
+
+    expect(await adapter.getTransactionsByStatus('POSTED')).toHaveLength(1);
+    expect((await adapter.getTransaction(Number.parseInt(posted.id)))?.status).toBe('REVERSED');
+    expect(await getBalance(adapter, cash.id)).toBe(0);
+    expect(await getBalance(adapter, revenue.id)).toBe(0);
+  });
+
+  it('should reverse concurrent requests for one transaction exactly once', async () => {
+    const posted = await postEntry(manager, [{ accountId: cash.id, debit: 80 }, { accountId: revenue.id, credit: 80 }]);
+    const transactionId = Number.parseInt(posted.id);
+    const reversalDate = new Date('2026-03-20T00:00:00Z');
+
+    const results = await Promise.allSettled([
+      manager.reverseTransaction(transactionId, TEST_CONTEXT, reversalDate),
+      manager.reverseTransaction(transactionId, TEST_CONTEXT, reversalDate)
+    ]);
+
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect((results.find(result => result.status === 'rejected') as PromiseRejectedResult).reason)
+      .toBeInstanceOf(TransactionStateError);
+    expect(await getBalance(adapter, cash.id)).toBe(0);
+  });
+});
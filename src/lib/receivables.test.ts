@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  ACCOUNTS_RECEIVABLE_SUBTYPE,
+  AccountLifecycleService,
+  OUTPUT_TAX_SUBTYPE,
+  ReceivablesService,
+  TransactionStateError,
+  type DatabaseAdapter
+} from './index';
+import type { Account, Customer, SalesInvoice } from '../types/index.js';
+import { createDraft, createJournalManager, createTestAccount, createTestAdapter, getBalance, TEST_CONTEXT } from '../../tests/helpers/ledger';
+
+describe('ReceivablesService', () => {
+  let adapter: DatabaseAdapter;
+  let service: ReceivablesService;
+  let bank: Account;
+  let receivables: Account;
+  let revenue: Account;
+  let outputTax: Account;
+  let customer: Customer;
+
+  beforeEach(async () => {
+    adapter = createTestAdapter();
+    bank = await createTestAccount(adapter, '1000', 'ASSET');
+    receivables = await createTestAccount(adapter, '1200', 'ASSET', { subtype: ACCOUNTS_RECEIVABLE_SUBTYPE });
+    revenue = await createTestAccount(adapter, '4000', 'REVENUE');
+    outputTax = await createTestAccount(adapter, '2100', 'LIABILITY', { subtype: OUTPUT_TAX_SUBTYPE });
+    service = new ReceivablesService(adapter, await createJournalManager(adapter));
+    customer = await service.createCustomer({ code: 'ACME', name: 'Acme Trading' }, TEST_CONTEXT.userId);
+  });
+
+  async function createInvoice(): Promise<SalesInvoice> {
+    return await service.createInvoice({
+      customerId: customer.id,
+      issueDate: '2026-03-15',
+      lines: [{ description: 'Consulting', quantity: 10, unitPrice: 100, revenueAccountId: revenue.id }],
+      taxAmount: 110
+    }, TEST_CONTEXT.userId);
+  }
+
+  it('should issue documents without the approval manual entries of the same amount need', async () => {
+    await adapter.replaceApprovalRules([{ stepNumber: 1, name: 'Controller', minAmount: 500, approverRoles: ['ACCOUNTANT'], isActive: true }]);
+    const draft = await createInvoice();
+
+    const invoice = await service.issueInvoice(draft.id, TEST_CONTEXT);
+    const receipt = await service.recordReceipt({
+      customerId: customer.id,
+      receiptDate: '2026-03-20',
+      amount: 1110,
+      depositAccountId: bank.id,
+      applications: [{ invoiceId: invoice.id, amount: 1110 }]
+    }, TEST_CONTEXT);
+
+    expect((await adapter.getTransaction(invoice.transactionId!))?.status).toBe('POSTED');
+    expect(receipt.unappliedAmount).toBe(0);
+    expect((await adapter.getSalesInvoice(invoice.id))?.balance).toBe(0);
+    expect(await getBalance(adapter, receivables.id)).toBe(0);
+    expect(await getBalance(adapter, bank.id)).toBe(1110);
+    expect([await getBalance(adapter, revenue.id), await getBalance(adapter, outputTax.id)]).toEqual([1000, 110]);
+  });
+
+  it('should post nothing when the draft was voided before the issuing batch ran', async () => {
+    const draft = await createInvoice();
+    const transaction = await createDraft(await createJournalManager(adapter), [
+      { accountId: receivables.id, debit: 1110 },
+      { accountId: revenue.id, credit: 1000 },
+      { accountId: outputTax.id, credit: 110 }
+    ], { source: 'SYSTEM' });
+    await service.voidInvoice(draft.id, 'user-2');
+
+    const issued = await adapter.issueSalesInvoice(draft.id, {
+      transactionId: Number.parseInt(transaction.id),
+      exchangeRate: 1,
+      receivableAccountId: receivables.id
+    }, TEST_CONTEXT.userId);
+
+    expect(issued).toBeNull();
+    expect((await adapter.getSalesInvoice(draft.id))?.status).toBe('VOID');
+    expect((await adapter.getTransaction(Number.parseInt(transaction.id)))?.status).toBe('DRAFT');
+    expect(await getBalance(adapter, receivables.id)).toBe(0);
+    await expect(service.issueInvoice(draft.id, TEST_CONTEXT)).rejects.toBeInstanceOf(TransactionStateError);
+  });
+
+  it('should count receivables documents as uses of their accounts', async () => {
+    const deposit = await createTestAccount(adapter, '1010', 'ASSET');
+    const customerReceivables = await createTestAccount(adapter, '1210', 'ASSET');
+    await service.updateCustomer(customer.id, { receivableAccountId: customerReceivables.id });
+    await createInvoice();
+    const lifecycle = new AccountLifecycleService(adapter);
+
+    expect((await lifecycle.getUsage(customerReceivables.id)).referenceCount).toBe(1);
+    // The draft's revenue line keeps its account even though nothing is posted yet
+    expect(await lifecycle.getUsage(revenue.id)).toMatchObject({ journalLineCount: 0, referenceCount: 1 });
+    await expect(lifecycle.delete(customerReceivables.id)).rejects.toMatchObject({ code: 'ACCOUNT_IN_USE' });
+    expect((await lifecycle.getUsage(deposit.id)).referenceCount).toBe(0);
+  });
+});
@@ -0,0 +1,671 @@
+/**
+ * Receivables
+ * Customers, sales invoices, credit notes and receipts.
+ */
+
+import type {
+  Account,
+  AccountType,
+  AgingBucket,
+  Currency,
+  Customer,
+  CustomerReceipt,
+  CustomerReceiptRequest,
+  JournalEntry,
+  PostingContext,
+  ReceivableApplicationRequest,
+  ReceivablesAging,
+  ReceivablesAgingCustomer,
+  ReceivablesAgingTotals,
+  ReceivablesTurnover,
+  SalesInvoice,
+  SalesInvoiceLine,
+  SalesInvoiceRequest,
+  Transaction,
+  TransactionData,
+  ValidationError as BaseValidationError
+} from '../types/index.js';
+import { ACCOUNTS_RECEIVABLE_SUBTYPE, FINANCIAL_CONSTANTS, OUTPUT_TAX_SUBTYPE } from './constants';
+import type { DatabaseAdapter } from './database-adapter';
+import { DimensionService } from './dimensions';
+import { AccountingValidationError, TransactionStateError } from './errors';
+import type { DatabaseJournalEntryManager } from './journal-entries';
+import { TransactionBuilder } from './transactions';
+import { countDays, roundToDecimalPlaces, toISODateString } from './utils';
+
+/**
+ * Accounts receivable subledger: customers, sales invoices and credit notes posted to receivables
+ * when issued, receipts applied across invoices, and aging. The subledger keeps each document in the
+ * customer's currency; aging and turnover are in the base currency at each document's issue rate.
+ */
+export class ReceivablesService {
+  private dbAdapter: DatabaseAdapter;
+  private journalManager: DatabaseJournalEntryManager;
+
+  constructor(dbAdapter: DatabaseAdapter, journalManager: DatabaseJournalEntryManager) {
+    this.dbAdapter = dbAdapter;
+    this.journalManager = journalManager;
+  }
+
+  static getAgingBucket(daysPastDue: number): AgingBucket {
+    if (daysPastDue <= 0) return 'current';
+    if (daysPastDue <= 30) return 'days1To30';
+    if (daysPastDue <= 60) return 'days31To60';
+    if (daysPastDue <= 90) return 'days61To90';
+    return 'over90';
+  }
+
+  // Sum of aging rows, e.g. the customers of an entity or the entities of a report
+  static getAgingTotals(rows: ReceivablesAgingTotals[]): ReceivablesAgingTotals {
+    const totals: ReceivablesAgingTotals = {
+      current: 0, days1To30: 0, days31To60: 0, days61To90: 0, over90: 0, total: 0, unappliedCredits: 0, netBalance: 0
+    };
+    for (const row of rows) {
+      for (const key of Object.keys(totals) as Array<keyof ReceivablesAgingTotals>) {
+        totals[key] = roundToDecimalPlaces(totals[key] + row[key]);
+      }
+    }
+    return totals;
+  }
+
+  async createCustomer(
+    customer: Pick<Customer, 'code' | 'name'> & Partial<Omit<Customer, 'id' | 'code' | 'name' | 'entityId' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'>>,
+    createdBy?: string
+  ): Promise<Customer> {
+    if (!/^[A-Z0-9._-]{1,20}$/i.test(customer.code)) {
+      throw new AccountingValidationError('Customer code must be 1 to 20 letters, numbers, dots, hyphens or underscores', 'INVALID_CUSTOMER_CODE');
+    }
+    ReceivablesService.assertCustomerName(customer.name);
+    const currency = customer.currency || FINANCIAL_CONSTANTS.DEFAULT_CURRENCY as Currency;
+    if (!FINANCIAL_CONSTANTS.SUPPORTED_CURRENCIES.includes(currency)) {
+      throw new AccountingValidationError(`Currency must be one of: ${FINANCIAL_CONSTANTS.SUPPORTED_CURRENCIES.join(', ')}`, 'INVALID_CURRENCY');
+    }
+    const paymentTermsDays = customer.paymentTermsDays ?? 30;
+    ReceivablesService.assertPaymentTerms(paymentTermsDays);
+    if (customer.receivableAccountId) {
+      await this.getPostableAccountOrThrow(customer.receivableAccountId, 'Receivable', 'ASSET');
+    }
+
+    const existing = await this.dbAdapter.getCustomers();
+    if (existing.some(candidate => candidate.code === customer.code)) {
+      throw new AccountingValidationError(`A customer with code ${customer.code} already exists`, 'DUPLICATE_CUSTOMER');
+    }
+
+    return await this.dbAdapter.createCustomer({
+      ...customer,
+      currency,
+      paymentTermsDays,
+      isActive: customer.isActive !== false
+    }, createdBy);
+  }
+
+  /**
+   * Update contact details, terms or the receivable account. The currency and code cannot change.
+   */
+  async updateCustomer(
+    customerId: number,
+    updates: Parameters<DatabaseAdapter['updateCustomer']>[1],
+    updatedBy?: string
+  ): Promise<Customer> {
+    await this.getCustomerOrThrow(customerId);
+    if (updates.name !== undefined) ReceivablesService.assertCustomerName(updates.name);
+    if (updates.paymentTermsDays !== undefined) ReceivablesService.assertPaymentTerms(updates.paymentTermsDays);
+    if (updates.receivableAccountId) {
+      await this.getPostableAccountOrThrow(updates.receivableAccountId, 'Receivable', 'ASSET');
+    }
+
+    return await this.dbAdapter.updateCustomer(customerId, updates, updatedBy) as Customer;
+  }
+
+  /**
+   * Save a draft invoice or credit note. Nothing is posted until it is issued.
+   */
+  async createInvoice(request: SalesInvoiceRequest, createdBy?: string): Promise<SalesInvoice> {
+    const type = request.type || 'INVOICE';
+    const customer = await this.getCustomerOrThrow(request.customerId);
+    if (!customer.isActive) {
+      throw new AccountingValidationError(`Customer ${customer.code} is inactive`, 'CUSTOMER_INACTIVE');
+    }
+    ReceivablesService.assertCustomerCurrency(customer, request.currency);
+    if (request.lines.length === 0) {
+      throw new AccountingValidationError('An invoice needs at least one line', 'INVALID_INVOICE_LINES');
+    }
+
+    const errors: BaseValidationError[] = [];
+    const lines: SalesInvoiceLine[] = [];
+    for (const [index, line] of request.lines.entries()) {
+      const field = `lines[${index}]`;
+      if (!line.description || line.description.trim().length === 0) {
+        errors.push({ field: `${field}.description`, message: 'Description is required', code: 'REQUIRED' });
+      }
+      if (!(line.quantity > 0) || !(line.unitPrice >= 0)) {
+        errors.push({ field, message: 'Quantity must be positive and unit price zero or more', code: 'INVALID_AMOUNT' });
+      }
+      const account = await this.dbAdapter.getAccount(line.revenueAccountId);
+      if (!account || account.type !== 'REVENUE' || !account.isActive || !account.allowTransactions) {
+        errors.push({
+          field: `${field}.revenueAccountId`,
+          message: `Account ${line.revenueAccountId} is not an active revenue account that accepts postings`,
+          code: 'INVALID_REVENUE_ACCOUNT'
+        });
+      }
+      lines.push({ ...line, amount: roundToDecimalPlaces(line.quantity * line.unitPrice) });
+    }
+    if (errors.length > 0) {
+      throw new AccountingValidationError('Invoice lines are invalid', 'INVALID_INVOICE_LINES', errors);
+    }
+
+    const subtotal = roundToDecimalPlaces(lines.reduce((sum, line) => sum + line.amount, 0));
+    const taxAmount = roundToDecimalPlaces(request.taxAmount || 0);
+    const totalAmount = roundToDecimalPlaces(subtotal + taxAmount);
+    if (taxAmount < 0 || !(totalAmount > 0)) {
+      throw new AccountingValidationError('Total must be greater than zero and tax zero or more', 'INVALID_AMOUNT');
+    }
+    if (request.taxAccountId) {
+      await this.getPostableAccountOrThrow(request.taxAccountId, 'Tax', 'LIABILITY');
+    }
+
+    if (request.originalInvoiceId !== undefined) {
+      const original = await this.dbAdapter.getSalesInvoice(request.originalInvoiceId);
+      if (type !== 'CREDIT_NOTE' || !original || original.type !== 'INVOICE' || original.customerId !== customer.id
+        || original.status === 'DRAFT' || original.status === 'VOID') {
+        throw new AccountingValidationError(
+          'Only a credit note can correct an invoice, and only an issued invoice of the same customer',
+          'INVALID_ORIGINAL_INVOICE'
+        );
+      }
+    }
+
+    const dueDate = request.dueDate || toISODateString(new Date(Date.parse(request.issueDate) + customer.paymentTermsDays * 86400000));
+    if (dueDate < request.issueDate) {
+      throw new AccountingValidationError('Due date cannot be before the issue date', 'INVALID_DATE_RANGE');
+    }
+
+    return await this.dbAdapter.createSalesInvoice({
+      documentNumber: request.documentNumber
+        || await this.dbAdapter.generateReceivablesNumber(type === 'INVOICE' ? 'INV' : 'CN', request.issueDate.slice(0, 4)),
+      type,
+      customerId: customer.id,
+      originalInvoiceId: request.originalInvoiceId,
+      issueDate: request.issueDate,
+      dueDate,
+      currency: customer.currency,
+      subtotal,
+      taxAmount,
+      totalAmount,
+      taxAccountId: request.taxAccountId,
+      reference: request.reference,
+      notes: request.notes
+    }, lines, createdBy);
+  }
+
+  /**
+   * Post a draft. An invoice debits receivables and credits each line's revenue account and output tax;
+   * a credit note does the reverse and then settles what it can of the invoice it corrects.
+   */
+  async issueInvoice(invoiceId: number, context: PostingContext): Promise<SalesInvoice> {
+    const invoice = await this.getInvoiceOrThrow(invoiceId);
+    if (invoice.status !== 'DRAFT') {
+      throw new TransactionStateError(`${invoice.documentNumber} is ${invoice.status} and cannot be issued`);
+    }
+
+    const customer = await this.getCustomerOrThrow(invoice.customerId);
+    const receivableAccount = await this.getReceivableAccount(customer);
+    let taxAccount: Account | null = null;
+    if (invoice.taxAmount > 0) {
+      taxAccount = invoice.taxAccountId
+        ? await this.getPostableAccountOrThrow(invoice.taxAccountId, 'Tax', 'LIABILITY')
+        : await this.findAccountBySubtype('LIABILITY', OUTPUT_TAX_SUBTYPE);
+      if (!taxAccount) {
+        throw new AccountingValidationError(
+          `No output tax account configured; mark a liability account with subtype ${OUTPUT_TAX_SUBTYPE} or choose one`,
+          'TAX_ACCOUNT_REQUIRED'
+        );
+      }
+    }
+
+    // Invoices debit receivables; credit notes credit them
+    const isInvoice = invoice.type === 'INVOICE';
+    const description = `${invoice.documentNumber} ${customer.name}`;
+    const builder = new TransactionBuilder()
+      .setDescription(description)
+      .setReference(invoice.documentNumber)
+      .setDate(new Date(`${invoice.issueDate}T00:00:00Z`))
+      .setCurrency(invoice.currency);
+    const post = (accountId: number, amount: number, toReceivables: boolean, dimensions?: Pick<SalesInvoiceLine, 'departmentId' | 'projectId' | 'costCenterId'>) => {
+      if (toReceivables === isInvoice) {
+        builder.debit(accountId, amount, description, dimensions);
+      } else {
+        builder.credit(accountId, amount, description, dimensions);
+      }
+    };
+    post(receivableAccount.id, invoice.totalAmount, true);
+    for (const line of invoice.lines || []) {
+      post(line.revenueAccountId, line.amount, false, {
+        departmentId: line.departmentId,
+        projectId: line.projectId,
+        costCenterId: line.costCenterId
+      });
+    }
+    if (taxAccount) {
+      post(taxAccount.id, invoice.taxAmount, false);
+    }
+    // Checked when the draft was saved, but an account may have been closed since
+    for (const line of invoice.lines || []) {
+      await this.getPostableAccountOrThrow(line.revenueAccountId, 'Revenue', 'REVENUE');
+    }
+
+    const { transaction, journalEntries } = await this.createDraft(builder.build(), isInvoice ? 'INVOICE' : 'CREDIT_NOTE', context);
+    const transactionId = Number.parseInt(transaction.id);
+    let issued: SalesInvoice | null;
+    try {
+      await this.journalManager.assertPostable(transactionId, context);
+      issued = await this.dbAdapter.issueSalesInvoice(invoiceId, {
+        transactionId,
+        exchangeRate: journalEntries[0]?.exchangeRate ?? 1,
+        receivableAccountId: receivableAccount.id,
+        taxAccountId: taxAccount?.id
+      }, context.userId);
+    } catch (error) {
+      await this.journalManager.voidTransaction(transactionId, context.userId);
+      throw error;
+    }
+    if (!issued) {
+      // Another request issued or voided the draft first; its transaction is the one that stands
+      await this.journalManager.voidTransaction(transactionId, context.userId);
+      throw new TransactionStateError(`${invoice.documentNumber} was issued or voided by another request`);
+    }
+    await this.journalManager.refreshBudgetActuals(new Date(`${invoice.issueDate}T00:00:00Z`));
+
+    if (!isInvoice && issued.originalInvoiceId) {
+      const original = await this.getInvoiceOrThrow(issued.originalInvoiceId);
+      const amount = Math.min(original.balance, issued.totalAmount);
+      if (amount > 0) {
+        return await this.applyCreditNote(issued.id, [{ invoiceId: original.id, amount }], context.userId);
+      }
+    }
+    return issued;
+  }
+
+  /**
+   * Void a draft. Issued documents are corrected with a credit note instead.
+   */
+  async voidInvoice(invoiceId: number, voidedBy?: string): Promise<SalesInvoice> {
+    const invoice = await this.getInvoiceOrThrow(invoiceId);
+    if (invoice.status !== 'DRAFT') {
+      throw new TransactionStateError(
+        `${invoice.documentNumber} is ${invoice.status}; only drafts can be voided, issue a credit note instead`
+      );
+    }
+
+    await this.dbAdapter.voidSalesInvoice(invoiceId, voidedBy);
+    return await this.dbAdapter.getSalesInvoice(invoiceId) as SalesInvoice;
+  }
+
+  /**
+   * Post money received (debit the deposit account, credit receivables) and apply it to invoices.
+   * Any amount not applied stays on the customer as an unapplied credit.
+   */
+  async recordReceipt(request: CustomerReceiptRequest, context: PostingContext): Promise<CustomerReceipt> {
+    const customer = await this.getCustomerOrThrow(request.customerId);
+    ReceivablesService.assertCustomerCurrency(customer, request.currency);
+    const amount = roundToDecimalPlaces(request.amount);
+    if (!(amount > 0)) {
+      throw new AccountingValidationError('Amount must be greater than zero', 'INVALID_AMOUNT');
+    }
+    const depositAccount = await this.getPostableAccountOrThrow(request.depositAccountId, 'Deposit', 'ASSET');
+    const receivableAccount = await this.getReceivableAccount(customer);
+
+    // Check the applications before anything is posted
+    const applications = request.applications || [];
+    await this.assertApplicable(customer, amount, applications);
+
+    const receiptNumber = request.receiptNumber
+      || await this.dbAdapter.generateReceivablesNumber('RCP', request.receiptDate.slice(0, 4));
+    const description = `${receiptNumber} ${customer.name}`;
+    const { transaction, journalEntries } = await this.createAndPost(
+      new TransactionBuilder()
+        .setDescription(description)
+        .setReference(request.reference || receiptNumber)
+        .setDate(new Date(`${request.receiptDate}T00:00:00Z`))
+        .setCurrency(customer.currency)
+        .debit(depositAccount.id, amount, description)
+        .credit(receivableAccount.id, amount, description)
+        .build(),
+      'RECEIPT',
+      context
+    );
+
+    const receipt = await this.dbAdapter.createCustomerReceipt({
+      receiptNumber,
+      customerId: customer.id,
+      receiptDate: request.receiptDate,
+      currency: customer.currency,
+      exchangeRate: journalEntries[0]?.exchangeRate ?? 1,
+      amount,
+      depositAccountId: depositAccount.id,
+      receivableAccountId: receivableAccount.id,
+      transactionId: Number.parseInt(transaction.id),
+      reference: request.reference
+    }, context.userId);
+
+    return applications.length > 0
+      ? await this.applyReceipt(receipt.id, applications, context.userId)
+      : receipt;
+  }
+
+  /**
+   * Apply the unapplied part of a receipt to invoices of the same customer
+   */
+  async applyReceipt(
+    receiptId: number,
+    applications: ReceivableApplicationRequest[],
+    appliedBy?: string,
+    appliedDate?: string
+  ): Promise<CustomerReceipt> {
+    const receipt = await this.dbAdapter.getCustomerReceipt(receiptId);
+    if (!receipt) {
+      throw new AccountingValidationError(`No receipt found with ID ${receiptId}`, 'RECEIPT_NOT_FOUND');
+    }
+
+    const customer = await this.getCustomerOrThrow(receipt.customerId);
+    const invoices = await this.assertApplicable(customer, receipt.unappliedAmount, applications);
+    await this.dbAdapter.applyReceivables(
+      { receiptId },
+      applications,
+      ReceivablesService.getAppliedDate([receipt.receiptDate, ...invoices.map(invoice => invoice.issueDate)], appliedDate),
+      appliedBy
+    );
+
+    return await this.dbAdapter.getCustomerReceipt(receiptId) as CustomerReceipt;
+  }
+
+  /**
+   * Apply the unapplied part of an issued credit note to invoices of the same customer
+   */
+  async applyCreditNote(
+    creditNoteId: number,
+    applications: ReceivableApplicationRequest[],
+    appliedBy?: string,
+    appliedDate?: string
+  ): Promise<SalesInvoice> {
+    const creditNote = await this.getInvoiceOrThrow(creditNoteId);
+    if (creditNote.type !== 'CREDIT_NOTE' || (creditNote.status !== 'ISSUED' && creditNote.status !== 'PARTIALLY_PAID')) {
+      throw new TransactionStateError(`${creditNote.documentNumber} is not an issued credit note with an unapplied balance`);
+    }
+
+    const customer = await this.getCustomerOrThrow(creditNote.customerId);
+    const invoices = await this.assertApplicable(customer, creditNote.balance, applications);
+    await this.dbAdapter.applyReceivables(
+      { creditNoteId },
+      applications,
+      ReceivablesService.getAppliedDate([creditNote.issueDate, ...invoices.map(invoice => invoice.issueDate)], appliedDate),
+      appliedBy
+    );
+
+    return await this.dbAdapter.getSalesInvoice(creditNoteId) as SalesInvoice;
+  }
+
+  /**
+   * Open invoices by customer in buckets of days past due as of the date, with unapplied receipts
+   * and credit notes netted off. Applications dated after asOfDate are ignored.
+   */
+  async getAging(asOfDate: string, customerId?: number): Promise<ReceivablesAging> {
+    const applied = new Map<string, number>();
+    for (const application of await this.dbAdapter.getReceivableApplications({ appliedThrough: asOfDate })) {
+      const sourceKey = application.receiptId ? `receipt:${application.receiptId}` : `document:${application.creditNoteId}`;
+      for (const key of [`document:${application.invoiceId}`, sourceKey]) {
+        applied.set(key, roundToDecimalPlaces((applied.get(key) || 0) + application.amount));
+      }
+    }
+
+    const rows = new Map<number, ReceivablesAgingCustomer>();
+    const customers = new Map((await this.dbAdapter.getCustomers()).map(customer => [customer.id, customer]));
+    const getRow = (id: number): ReceivablesAgingCustomer => {
+      const customer = customers.get(id) as Customer;
+      let row = rows.get(id);
+      if (!row) {
+        row = {
+          customerId: id,
+          customerCode: customer.code,
+          customerName: customer.name,
+          currency: customer.currency,
+          ...ReceivablesService.getAgingTotals([]),
+          invoices: []
+        };
+        rows.set(id, row);
+      }
+      return row;
+    };
+
+    const documents = (await this.dbAdapter.getSalesInvoices({ customerId, issuedThrough: asOfDate }))
+      .filter(document => document.status !== 'DRAFT' && document.status !== 'VOID');
+    for (const document of documents.reverse()) {
+      const balance = roundToDecimalPlaces(document.totalAmount - (applied.get(`document:${document.id}`) || 0));
+      if (balance <= 0) continue;
+
+      const baseBalance = roundToDecimalPlaces(balance * document.exchangeRate);
+      const row = getRow(document.customerId);
+      if (document.type === 'CREDIT_NOTE') {
+        row.unappliedCredits = roundToDecimalPlaces(row.unappliedCredits + baseBalance);
+        continue;
+      }
+
+      const daysPastDue = Math.round((Date.parse(asOfDate) - Date.parse(document.dueDate)) / 86400000);
+      const bucket = ReceivablesService.getAgingBucket(daysPastDue);
+      row[bucket] = roundToDecimalPlaces(row[bucket] + baseBalance);
+      row.total = roundToDecimalPlaces(row.total + baseBalance);
+      row.invoices.push({
+        invoiceId: document.id,
+        documentNumber: document.documentNumber,
+        issueDate: document.issueDate,
+        dueDate: document.dueDate,
+        daysPastDue,
+        bucket,
+        currency: document.currency,
+        balance,
+        baseBalance
+      });
+    }
+
+    for (const receipt of await this.dbAdapter.getCustomerReceipts({ customerId, receivedThrough: asOfDate })) {
+      const unapplied = roundToDecimalPlaces(receipt.amount - (applied.get(`receipt:${receipt.id}`) || 0));
+      if (unapplied <= 0) continue;
+
+      const row = getRow(receipt.customerId);
+      row.unappliedCredits = roundToDecimalPlaces(row.unappliedCredits + unapplied * receipt.exchangeRate);
+    }
+
+    const agingCustomers = [...rows.values()]
+      .map(row => ({ ...row, netBalance: roundToDecimalPlaces(row.total - row.unappliedCredits) }))
+      .sort((a, b) => a.customerCode.localeCompare(b.customerCode));
+
+    return {
+      entityId: this.dbAdapter.getEntityId(),
+      asOfDate,
+      currency: FINANCIAL_CONSTANTS.DEFAULT_CURRENCY as Currency,
+      customers: agingCustomers,
+      totals: ReceivablesService.getAgingTotals(agingCustomers)
+    };
+  }
+
+  /**
+   * Net credit sales over the average of the receivables at the start and end of the period
+   */
+  async getTurnover(startDate: string, endDate: string): Promise<ReceivablesTurnover> {
+    if (startDate > endDate) {
+      throw new AccountingValidationError('Start date cannot be after the end date', 'INVALID_DATE_RANGE');
+    }
+
+    const netCreditSales = roundToDecimalPlaces((await this.dbAdapter.getSalesInvoices({ issuedThrough: endDate }))
+      .filter(document => document.issueDate >= startDate && document.status !== 'DRAFT' && document.status !== 'VOID')
+      .reduce((sum, document) => sum + (document.type === 'INVOICE' ? 1 : -1) * document.totalAmount * document.exchangeRate, 0));
+    const dayBeforeStart = toISODateString(new Date(Date.parse(startDate) - 86400000));
+    const openingReceivables = (await this.getAging(dayBeforeStart)).totals.netBalance;
+    const closingReceivables = (await this.getAging(endDate)).totals.netBalance;
+    const averageReceivables = roundToDecimalPlaces((openingReceivables + closingReceivables) / 2);
+    const turnover = averageReceivables > 0 ? roundToDecimalPlaces(netCreditSales / averageReceivables) : 0;
+
+    return {
+      startDate,
+      endDate,
+      netCreditSales,
+      openingReceivables,
+      closingReceivables,
+      averageReceivables,
+      turnover,
+      daysSalesOutstanding: turnover > 0 ? roundToDecimalPlaces(countDays(startDate, endDate) / turnover) : 0
+    };
+  }
+
+  /**
+   * Check that the applications settle open invoices of the customer, none for more than its balance
+   * and together for no more than is available; returns the invoices
+   */
+  private async assertApplicable(
+    customer: Customer,
+    available: number,
+    applications: ReceivableApplicationRequest[]
+  ): Promise<SalesInvoice[]> {
+    if (applications.length === 0) {
+      throw new AccountingValidationError('Choose at least one invoice to apply to', 'INVALID_APPLICATIONS');
+    }
+
+    const errors: BaseValidationError[] = [];
+    const invoices: SalesInvoice[] = [];
+    for (const [index, application] of applications.entries()) {
+      const field = `applications[${index}]`;
+      const invoice = await this.dbAdapter.getSalesInvoice(application.invoiceId);
+      if (!invoice || invoice.type !== 'INVOICE' || invoice.customerId !== customer.id) {
+        errors.push({ field, message: `Invoice ${application.invoiceId} is not an invoice of ${customer.code}`, code: 'INVOICE_NOT_FOUND' });
+        continue;
+      }
+      if (invoice.status !== 'ISSUED' && invoice.status !== 'PARTIALLY_PAID') {
+        errors.push({ field, message: `${invoice.documentNumber} is ${invoice.status}`, code: 'INVOICE_NOT_OPEN' });
+      } else if (!(application.amount > 0) || roundToDecimalPlaces(application.amount) > invoice.balance) {
+        errors.push({
+          field,
+          message: `Amount must be greater than zero and at most the ${invoice.balance} open on ${invoice.documentNumber}`,
+          code: 'APPLICATION_EXCEEDS_BALANCE'
+        });
+      }
+      if (applications.findIndex(candidate => candidate.invoiceId === application.invoiceId) !== index) {
+        errors.push({ field, message: `${invoice.documentNumber} is listed more than once`, code: 'DUPLICATE_APPLICATION' });
+      }
+      invoices.push(invoice);
+    }
+
+    const total = roundToDecimalPlaces(applications.reduce((sum, application) => sum + application.amount, 0));
+    if (total > available) {
+      errors.push({ field: 'applications', message: `Applications total ${total} but only ${available} is available`, code: 'APPLICATION_EXCEEDS_AVAILABLE' });
+    }
+    if (errors.length > 0) {
+      throw new AccountingValidationError('Applications are invalid', 'INVALID_APPLICATIONS', errors);
+    }
+    return invoices;
+  }
+
+  // Post a subledger transaction straight away; a draft that cannot be posted is voided
+  /**
+   * Draft the document's transaction. Documents post with the SYSTEM source: issuing one is the
+   * approval, so the approval thresholds for manual entries do not apply, and the line checks the
+   * journal skips for system entries are made here.
+   */
+  private async createDraft(
+    transactionData: TransactionData,
+    type: string,
+    context: PostingContext
+  ): Promise<{ transaction: Transaction; journalEntries: JournalEntry[] }> {
+    await new DimensionService(this.dbAdapter).assertValidLines(transactionData.entries, { enforceRules: true });
+    return await this.journalManager.createAndPersistTransaction(transactionData, context, { type, source: 'SYSTEM' });
+  }
+
+  private async createAndPost(
+    transactionData: TransactionData,
+    type: string,
+    context: PostingContext
+  ): Promise<{ transaction: Transaction; journalEntries: JournalEntry[] }> {
+    const created = await this.createDraft(transactionData, type, context);
+    const transactionId = Number.parseInt(created.transaction.id);
+    try {
+      return { ...created, transaction: await this.journalManager.postTransaction(transactionId, context) };
+    } catch (error) {
+      await this.journalManager.voidTransaction(transactionId, context.userId);
+      throw error;
+    }
+  }
+
+  // Applications are dated no earlier than the documents they settle
+  private static getAppliedDate(documentDates: string[], appliedDate?: string): string {
+    return [appliedDate || toISODateString(new Date()), ...documentDates].reduce((latest, date) => date > latest ? date : latest);
+  }
+
+  private static assertCustomerName(name: string): void {
+    if (!name || name.trim().length === 0 || name.length > 200) {
+      throw new AccountingValidationError('Customer name must be between 1 and 200 characters', 'INVALID_CUSTOMER_NAME');
+    }
+  }
+
+  private static assertPaymentTerms(days: number): void {
+    if (!Number.isInteger(days) || days < 0 || days > 365) {
+      throw new AccountingValidationError('Payment terms must be a whole number of days from 0 to 365', 'INVALID_PAYMENT_TERMS');
+    }
+  }
+
+  private static assertCustomerCurrency(customer: Customer, currency?: Currency): void {
+    if (currency && currency !== customer.currency) {
+      throw new AccountingValidationError(
+        `Documents of ${customer.code} must be in ${customer.currency}`,
+        'CURRENCY_MISMATCH'
+      );
+    }
+  }
+
+  private async getReceivableAccount(customer: Customer): Promise<Account> {
+    const account = customer.receivableAccountId
+      ? await this.getPostableAccountOrThrow(customer.receivableAccountId, 'Receivable', 'ASSET')
+      : await this.findAccountBySubtype('ASSET', ACCOUNTS_RECEIVABLE_SUBTYPE);
+    if (!account) {
+      throw new AccountingValidationError(
+        `No accounts receivable account configured; mark an asset account with subtype ${ACCOUNTS_RECEIVABLE_SUBTYPE} or set one on the customer`,
+        'RECEIVABLE_ACCOUNT_REQUIRED'
+      );
+    }
+    return account;
+  }
+
+  private async findAccountBySubtype(type: AccountType, subtype: string): Promise<Account | null> {
+    return (await this.dbAdapter.getAccountsByType(type))
+      .find(account => account.subtype === subtype && account.isActive && account.allowTransactions) || null;
+  }
+
+  private async getPostableAccountOrThrow(accountId: number, label: string, type: AccountType): Promise<Account> {
+    const account = await this.dbAdapter.getAccount(accountId);
+    if (!account) {
+      throw new AccountingValidationError(`${label} account ${accountId} not found`, 'ACCOUNT_NOT_FOUND');
+    }
+    if (account.type !== type || !account.isActive || !account.allowTransactions) {
+      throw new AccountingValidationError(
+        `${label} account ${account.code} must be an active ${type.toLowerCase()} account that accepts postings`,
+        'INVALID_ACCOUNT'
+      );
+    }
+    return account;
+  }
+
+  private async getCustomerOrThrow(customerId: number): Promise<Customer> {
+    const customer = await this.dbAdapter.getCustomer(customerId);
+    if (!customer) {
+      throw new AccountingValidationError(`No customer found with ID ${customerId}`, 'CUSTOMER_NOT_FOUND');
+    }
+    return customer;
+  }
+
+  private async getInvoiceOrThrow(invoiceId: number): Promise<SalesInvoice> {
+    const invoice = await this.dbAdapter.getSalesInvoice(invoiceId);
+    if (!invoice) {
+      throw new AccountingValidationError(`No invoice or credit note found with ID ${invoiceId}`, 'INVOICE_NOT_FOUND');
+    }
+    return invoice;
+  }
+}
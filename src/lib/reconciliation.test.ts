@@ -0,0 +1,150 @@
+import { describe, it, expect } from 'vitest';
+import { BankReconciliationService, ReconciliationMatcher } from './index';
+import type { BankStatementLine, LedgerEntry } from '../types/index.js';
+import { createJournalManager, createTestAccount, createTestAdapter, postEntry } from '../../tests/helpers/ledger';
+
+function statementLine(overrides: Partial<BankStatementLine>): BankStatementLine {
+  return {
+    id: 1,
+    bankAccountId: 10,
+    sessionId: 1,
+    transactionDate: '2024-03-10',
+    amount: 100,
+    entityId: 'entity-1',
+    ...overrides
+  };
+}
+
+function ledgerEntry(overrides: Partial<LedgerEntry>): LedgerEntry {
+  return {
+    id: 1,
+    transactionId: 1,
+    accountId: 10,
+    debitAmount: 100,
+    creditAmount: 0,
+    currency: 'IDR',
+    isReconciled: false,
+    createdAt: new Date('2024-03-10T00:00:00Z'),
+    updatedAt: new Date('2024-03-10T00:00:00Z'),
+    transactionDate: new Date('2024-03-10T00:00:00Z'),
+    transactionDescription: 'Ledger line',
+    transactionStatus: 'POSTED',
+    ...overrides
+  };
+}
+
+describe('ReconciliationMatcher', () => {
+  it('should match deposits to ledger debits and withdrawals to ledger credits', () => {
+    const result = ReconciliationMatcher.findMatches(
+      [
+        statementLine({ id: 1, amount: 250 }),
+        statementLine({ id: 2, amount: -75.5 })
+      ],
+      [
+        ledgerEntry({ id: 11, debitAmount: 0, creditAmount: 75.5 }),
+        ledgerEntry({ id: 12, debitAmount: 250 })
+      ]
+    );
+
+    expect(result.matches).toEqual([
+      { statementLineId: 1, journalEntryId: 12, dateDifferenceDays: 0, referenceMatched: false },
+      { statementLineId: 2, journalEntryId: 11, dateDifferenceDays: 0, referenceMatched: false }
+    ]);
+    expect(result.unmatchedLineIds).toEqual([]);
+  });
+
+  it('should ignore candidates outside the date window', () => {
+    const result = ReconciliationMatcher.findMatches(
+      [statementLine({ id: 1, transactionDate: '2024-03-10' })],
+      [ledgerEntry({ id: 11, transactionDate: new Date('2024-03-20T00:00:00Z') })],
+      3
+    );
+
+    expect(result.matches).toEqual([]);
+    expect(result.unmatchedLineIds).toEqual([1]);
+  });
+
+  it('should prefer a reference match over a closer date', () => {
+    const result = ReconciliationMatcher.findMatches(
+      [statementLine({ id: 1, reference: 'CHQ 000123' })],
+      [
+        ledgerEntry({ id: 11, transactionDate: new Date('2024-03-10T00:00:00Z') }),
+        ledgerEntry({ id: 12, transactionDate: new Date('2024-03-12T00:00:00Z'), reference: 'CHQ-000123' })
+      ]
+    );
+
+    expect(result.matches).toHaveLength(1);
+    expect(result.matches[0]).toMatchObject({ journalEntryId: 12, referenceMatched: true, dateDifferenceDays: 2 });
+  });
+
+  it('should report ties as ambiguous instead of guessing', () => {
+    const result = ReconciliationMatcher.findMatches(
+      [statementLine({ id: 1 })],
+      [ledgerEntry({ id: 11 }), ledgerEntry({ id: 12 })]
+    );
+
+    expect(result.matches).toEqual([]);
+    expect(result.ambiguousLineIds).toEqual([1]);
+  });
+
+  it('should use each ledger line at most once and skip already matched statement lines', () => {
+    const result = ReconciliationMatcher.findMatches(
+      [
+        statementLine({ id: 1, transactionDate: '2024-03-10' }),
+        statementLine({ id: 2, transactionDate: '2024-03-11' }),
+        statementLine({ id: 3, matchedJournalEntryId: 99 })
+      ],
+      [ledgerEntry({ id: 11, transactionDate: new Date('2024-03-10T00:00:00Z') })]
+    );
+
+    expect(result.matches.map(match => match.statementLineId)).toEqual([1]);
+    expect(result.unmatchedLineIds).toEqual([2]);
+  });
+
+  it('should compare a foreign-currency account at the amounts booked in its currency', () => {
+    const result = ReconciliationMatcher.findMatches(
+      [statementLine({ id: 1, amount: 100 }), statementLine({ id: 2, amount: 1500000 })],
+      [
+        ledgerEntry({ id: 11, currency: 'USD', debitAmount: 100, baseDebitAmount: 1500000 }),
+        ledgerEntry({ id: 12, currency: 'IDR', debitAmount: 1500000, baseDebitAmount: 1500000 })
+      ],
+      3,
+      'USD'
+    );
+
+    expect(result.matches.map(match => [match.statementLineId, match.journalEntryId])).toEqual([[1, 11]]);
+    expect(result.unmatchedLineIds).toEqual([2]);
+  });
+});
+
+describe('BankReconciliationService', () => {
+  it('should report a foreign-currency bank account in its own currency', async () => {
+    const adapter = createTestAdapter();
+    const bank = await createTestAccount(adapter, '1010', 'ASSET', { currency: 'USD' });
+    const revenue = await createTestAccount(adapter, '4000', 'REVENUE');
+    const fxGain = await createTestAccount(adapter, '7100', 'REVENUE');
+    const manager = await createJournalManager(adapter);
+
+    await postEntry(manager, [{ accountId: bank.id, debit: 1000 }, { accountId: revenue.id, credit: 1000 }],
+      { date: '2026-03-02', currency: 'USD', exchangeRate: 15000 });
+    await postEntry(manager, [{ accountId: bank.id, debit: 250 }, { accountId: revenue.id, credit: 250 }],
+      { date: '2026-03-30', currency: 'USD', exchangeRate: 15500 });
+    // A revaluation adjustment moves the base-currency balance but no dollars
+    await postEntry(manager, [{ accountId: bank.id, debit: 400000 }, { accountId: fxGain.id, credit: 400000 }],
+      { date: '2026-03-31', source: 'SYSTEM' });
+
+    const service = new BankReconciliationService(adapter);
+    const session = await service.startSession({ bankAccountId: bank.id, statementDate: '2026-03-31', statementEndingBalance: 1000 });
+    await service.addStatementLines(session.id, [{ transactionDate: '2026-03-02', amount: 1000 }]);
+    expect((await service.autoMatch(session.id)).matches).toHaveLength(1);
+
+    const report = await service.getReport(session.id);
+    expect(report.currency).toBe('USD');
+    expect(report.bookBalance).toBe(1250);
+    expect(report.depositsInTransit.map(entry => entry.debitAmount)).toEqual([250]);
+    expect(report.totalDepositsInTransit).toBe(250);
+    expect(report.outstandingPayments).toEqual([]);
+    expect(report.unexplainedDifference).toBe(0);
+    expect(report.isReconciled).toBe(true);
+  });
+});
@@ -0,0 +1,339 @@
+/**
+ * Bank Reconciliation
+ * Sessions that match a bank statement's lines to the cash account's journal lines, automatically
+ * or by hand, and reconcile the statement's ending balance with the book balance. Everything is
+ * compared in the currency the bank account is kept in.
+ */
+
+import type {
+  Account,
+  AutoMatchResult,
+  BankStatementLine,
+  Currency,
+  JournalEntry,
+  LedgerEntry,
+  ReconciliationMatch,
+  ReconciliationReport,
+  ReconciliationSession
+} from '../types/index.js';
+import { FINANCIAL_CONSTANTS } from './constants';
+import type { DatabaseAdapter } from './database-adapter';
+import { AccountingValidationError, ReconciliationError } from './errors';
+import { LEDGER_DEFAULT_STATUSES } from './general-ledger';
+import { BalanceCalculator } from './transactions';
+import { roundToDecimalPlaces, toISODateString } from './utils';
+
+// Bank Reconciliation Matching
+export class ReconciliationMatcher {
+  static readonly DEFAULT_DATE_WINDOW_DAYS = 3;
+
+  /**
+   * Currency the bank account is kept in
+   */
+  static getAccountCurrency(account: Pick<Account, 'currency'>): Currency {
+    return account.currency || FINANCIAL_CONSTANTS.DEFAULT_CURRENCY;
+  }
+
+  /**
+   * Signed bank-side amount of a ledger line on the bank account (debits are deposits), in the
+   * account's currency. On a foreign-currency account, lines booked in another currency (such as
+   * base-currency revaluation adjustments) move no money at the bank and count as zero.
+   */
+  static getLedgerAmount(
+    entry: Pick<JournalEntry, 'debitAmount' | 'creditAmount' | 'currency' | 'baseDebitAmount' | 'baseCreditAmount'>,
+    currency: Currency = FINANCIAL_CONSTANTS.DEFAULT_CURRENCY
+  ): number {
+    if (currency === FINANCIAL_CONSTANTS.DEFAULT_CURRENCY) {
+      return roundToDecimalPlaces(
+        (entry.baseDebitAmount ?? entry.debitAmount ?? 0) - (entry.baseCreditAmount ?? entry.creditAmount ?? 0)
+      );
+    }
+    if (entry.currency !== currency) {
+      return 0;
+    }
+    return roundToDecimalPlaces((entry.debitAmount || 0) - (entry.creditAmount || 0));
+  }
+
+  static getDateDifferenceDays(statementDate: string, ledgerDate: Date): number {
+    const statementTime = Date.parse(`${statementDate}T00:00:00Z`);
+    const ledgerTime = Date.parse(`${toISODateString(ledgerDate)}T00:00:00Z`);
+    return Math.round(Math.abs(statementTime - ledgerTime) / (24 * 60 * 60 * 1000));
+  }
+
+  /**
+   * Whether the statement line mentions the ledger line's reference or transaction number
+   */
+  static referencesMatch(
+    line: Pick<BankStatementLine, 'reference' | 'description'>,
+    entry: Pick<LedgerEntry, 'reference' | 'transactionNumber'>
+  ): boolean {
+    const normalize = (value?: string) => (value || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+    const statementText = normalize(line.reference) + ' ' + normalize(line.description);
+    const statementReference = normalize(line.reference);
+
+    return [entry.reference, entry.transactionNumber]
+      .map(normalize)
+      .filter(value => value.length >= 3)
+      .some(value => statementText.includes(value) || (statementReference.length >= 3 && value.includes(statementReference)));
+  }
+
+  /**
+   * Pair unmatched statement lines with unreconciled ledger lines of the same signed amount in the
+   * account's currency, dated within the window. A reference match wins, then the closest date;
+   * lines whose best candidates tie are reported as ambiguous instead of guessed.
+   */
+  static findMatches(
+    lines: BankStatementLine[],
+    candidates: LedgerEntry[],
+    dateWindowDays: number = ReconciliationMatcher.DEFAULT_DATE_WINDOW_DAYS,
+    currency: Currency = FINANCIAL_CONSTANTS.DEFAULT_CURRENCY
+  ): AutoMatchResult {
+    const used = new Set<number>();
+    const matches: ReconciliationMatch[] = [];
+    const ambiguousLineIds: number[] = [];
+    const unmatchedLineIds: number[] = [];
+
+    const pending = lines
+      .filter(line => !line.matchedJournalEntryId)
+      .sort((a, b) => a.transactionDate.localeCompare(b.transactionDate) || a.id - b.id);
+
+    for (const line of pending) {
+      const scored = candidates
+        .filter(entry => !used.has(entry.id) && !entry.isReconciled)
+        .filter(entry => ReconciliationMatcher.getLedgerAmount(entry, currency) === roundToDecimalPlaces(line.amount))
+        .map(entry => ({
+          entry,
+          dateDifferenceDays: ReconciliationMatcher.getDateDifferenceDays(line.transactionDate, entry.transactionDate),
+          referenceMatched: ReconciliationMatcher.referencesMatch(line, entry)
+        }))
+        .filter(candidate => candidate.dateDifferenceDays <= dateWindowDays)
+        .sort((a, b) => Number(b.referenceMatched) - Number(a.referenceMatched) || a.dateDifferenceDays - b.dateDifferenceDays);
+
+      if (scored.length === 0) {
+        unmatchedLineIds.push(line.id);
+        continue;
+      }
+
+      const [best, runnerUp] = scored;
+      if (runnerUp
+        && runnerUp.referenceMatched === best.referenceMatched
+        && runnerUp.dateDifferenceDays === best.dateDifferenceDays) {
+        ambiguousLineIds.push(line.id);
+        continue;
+      }
+
+      used.add(best.entry.id);
+      matches.push({
+        statementLineId: line.id,
+        journalEntryId: best.entry.id,
+        dateDifferenceDays: best.dateDifferenceDays,
+        referenceMatched: best.referenceMatched
+      });
+    }
+
+    return { matches, ambiguousLineIds, unmatchedLineIds };
+  }
+}
+
+export class BankReconciliationService {
+  private dbAdapter: DatabaseAdapter;
+
+  constructor(dbAdapter: DatabaseAdapter) {
+    this.dbAdapter = dbAdapter;
+  }
+
+  async startSession(
+    session: Pick<ReconciliationSession, 'bankAccountId' | 'statementDate' | 'statementEndingBalance' | 'notes'>,
+    createdBy?: string
+  ): Promise<ReconciliationSession> {
+    const account = await this.dbAdapter.getAccount(session.bankAccountId);
+    if (!account || account.type !== 'ASSET') {
+      throw new ReconciliationError(`Account ${session.bankAccountId} is not a bank (asset) account`);
+    }
+
+    const open = await this.dbAdapter.getOpenReconciliationSession(session.bankAccountId);
+    if (open) {
+      throw new ReconciliationError(
+        `Account ${account.code} already has reconciliation ${open.reference} in progress`
+      );
+    }
+
+    return await this.dbAdapter.createReconciliationSession(session, createdBy);
+  }
+
+  async getSessionOrThrow(sessionId: number): Promise<ReconciliationSession> {
+    const session = await this.dbAdapter.getReconciliationSession(sessionId);
+    if (!session) {
+      throw new AccountingValidationError(
+        `No reconciliation session found with ID ${sessionId}`,
+        'RECONCILIATION_NOT_FOUND'
+      );
+    }
+    return session;
+  }
+
+  async addStatementLines(
+    sessionId: number,
+    lines: Pick<BankStatementLine, 'transactionDate' | 'amount' | 'description' | 'reference'>[],
+    createdBy?: string
+  ): Promise<BankStatementLine[]> {
+    const session = await this.getOpenSessionOrThrow(sessionId);
+    return await this.dbAdapter.addBankStatementLines(session.bankAccountId, session.id, lines, createdBy);
+  }
+
+  async autoMatch(
+    sessionId: number,
+    matchedBy?: string,
+    dateWindowDays: number = ReconciliationMatcher.DEFAULT_DATE_WINDOW_DAYS
+  ): Promise<AutoMatchResult> {
+    const session = await this.getOpenSessionOrThrow(sessionId);
+    const account = await this.getBankAccountOrThrow(session);
+    const lines = await this.dbAdapter.getBankStatementLines(session.id);
+
+    // Allow ledger lines dated a few days after the statement to clear against it
+    const windowEnd = new Date(Date.parse(`${session.statementDate}T00:00:00Z`) + dateWindowDays * 24 * 60 * 60 * 1000);
+    const candidates = await this.dbAdapter.getJournalEntriesByAccount(session.bankAccountId, {
+      endDate: toISODateString(windowEnd),
+      statuses: LEDGER_DEFAULT_STATUSES,
+      isReconciled: false
+    });
+
+    const result = ReconciliationMatcher.findMatches(
+      lines,
+      candidates,
+      dateWindowDays,
+      ReconciliationMatcher.getAccountCurrency(account)
+    );
+    await this.dbAdapter.matchStatementLines(result.matches, 'AUTO', session.reference, matchedBy);
+
+    return result;
+  }
+
+  async matchLine(sessionId: number, statementLineId: number, journalEntryId: number, matchedBy?: string): Promise<BankStatementLine> {
+    const session = await this.getOpenSessionOrThrow(sessionId);
+    const line = await this.getSessionLineOrThrow(session, statementLineId);
+    if (line.matchedJournalEntryId) {
+      throw new ReconciliationError(`Statement line ${line.id} is already matched to journal entry ${line.matchedJournalEntryId}`);
+    }
+
+    const entry = await this.dbAdapter.getLedgerEntry(journalEntryId);
+    if (!entry || entry.accountId !== session.bankAccountId) {
+      throw new ReconciliationError(`Journal entry ${journalEntryId} is not a line on the reconciled bank account`);
+    }
+    if (!LEDGER_DEFAULT_STATUSES.includes(entry.transactionStatus)) {
+      throw new ReconciliationError(`Journal entry ${journalEntryId} belongs to a ${entry.transactionStatus} transaction`);
+    }
+    if (entry.isReconciled) {
+      throw new ReconciliationError(`Journal entry ${journalEntryId} is already reconciled (${entry.reconciliationId || 'no reference'})`);
+    }
+    const currency = ReconciliationMatcher.getAccountCurrency(await this.getBankAccountOrThrow(session));
+    const ledgerAmount = ReconciliationMatcher.getLedgerAmount(entry, currency);
+    if (ledgerAmount !== roundToDecimalPlaces(line.amount)) {
+      throw new ReconciliationError(
+        `Statement amount ${line.amount} does not equal ledger amount ${ledgerAmount} ${currency}`
+      );
+    }
+
+    await this.dbAdapter.matchStatementLines([{ statementLineId, journalEntryId }], 'MANUAL', session.reference, matchedBy);
+    return await this.dbAdapter.getBankStatementLine(statementLineId) as BankStatementLine;
+  }
+
+  async unmatchLine(sessionId: number, statementLineId: number): Promise<BankStatementLine> {
+    const session = await this.getOpenSessionOrThrow(sessionId);
+    const line = await this.getSessionLineOrThrow(session, statementLineId);
+    if (!line.matchedJournalEntryId) {
+      throw new ReconciliationError(`Statement line ${line.id} is not matched`);
+    }
+
+    await this.dbAdapter.unmatchStatementLine(line.id, line.matchedJournalEntryId);
+    return await this.dbAdapter.getBankStatementLine(statementLineId) as BankStatementLine;
+  }
+
+  /**
+   * Bank-to-book reconciliation as of the statement date, in the account's currency. Whatever the
+   * outstanding items and unmatched statement lines do not account for is reported as the
+   * unexplained difference.
+   */
+  async getReport(sessionId: number): Promise<ReconciliationReport> {
+    const session = await this.getSessionOrThrow(sessionId);
+    const account = await this.getBankAccountOrThrow(session);
+    const currency = ReconciliationMatcher.getAccountCurrency(account);
+
+    const ledgerFilters = { endDate: session.statementDate, statuses: LEDGER_DEFAULT_STATUSES };
+    const totals = await this.dbAdapter.getJournalEntryTotals(account.id, ledgerFilters, currency);
+    const bookBalance = roundToDecimalPlaces(BalanceCalculator.calculateAccountBalance(
+      account.type,
+      account.normalBalance,
+      totals.debitTotal,
+      totals.creditTotal
+    ));
+
+    const outstanding = await this.dbAdapter.getJournalEntriesByAccount(account.id, { ...ledgerFilters, isReconciled: false });
+    const depositsInTransit = outstanding.filter(entry => ReconciliationMatcher.getLedgerAmount(entry, currency) > 0);
+    const outstandingPayments = outstanding.filter(entry => ReconciliationMatcher.getLedgerAmount(entry, currency) < 0);
+    const unmatchedStatementLines = (await this.dbAdapter.getBankStatementLines(session.id))
+      .filter(line => !line.matchedJournalEntryId);
+
+    const sum = (values: number[]) => roundToDecimalPlaces(values.reduce((total, value) => total + value, 0));
+    const totalDepositsInTransit = sum(depositsInTransit.map(entry => ReconciliationMatcher.getLedgerAmount(entry, currency)));
+    const totalOutstandingPayments = sum(outstandingPayments.map(entry => -ReconciliationMatcher.getLedgerAmount(entry, currency)));
+    const totalUnmatchedStatementLines = sum(unmatchedStatementLines.map(line => line.amount));
+
+    const adjustedBankBalance = roundToDecimalPlaces(session.statementEndingBalance + totalDepositsInTransit - totalOutstandingPayments);
+    const adjustedBookBalance = roundToDecimalPlaces(bookBalance + totalUnmatchedStatementLines);
+    const unexplainedDifference = roundToDecimalPlaces(adjustedBankBalance - adjustedBookBalance);
+
+    return {
+      session,
+      currency,
+      bookBalance,
+      statementEndingBalance: session.statementEndingBalance,
+      depositsInTransit,
+      outstandingPayments,
+      unmatchedStatementLines,
+      totalDepositsInTransit,
+      totalOutstandingPayments,
+      totalUnmatchedStatementLines,
+      adjustedBankBalance,
+      adjustedBookBalance,
+      unexplainedDifference,
+      isReconciled: unexplainedDifference === 0 && unmatchedStatementLines.length === 0
+    };
+  }
+
+  /**
+   * Lock the session; later matches must go through a new session
+   */
+  async complete(sessionId: number, completedBy?: string): Promise<ReconciliationReport> {
+    await this.getOpenSessionOrThrow(sessionId);
+    await this.dbAdapter.completeReconciliationSession(sessionId, completedBy);
+    return await this.getReport(sessionId);
+  }
+
+  private async getOpenSessionOrThrow(sessionId: number): Promise<ReconciliationSession> {
+    const session = await this.getSessionOrThrow(sessionId);
+    if (session.status !== 'IN_PROGRESS') {
+      throw new ReconciliationError(`Reconciliation ${session.reference} is ${session.status} and can no longer be changed`);
+    }
+    return session;
+  }
+
+  private async getBankAccountOrThrow(session: ReconciliationSession): Promise<Account> {
+    const account = await this.dbAdapter.getAccount(session.bankAccountId);
+    if (!account) {
+      throw new AccountingValidationError(`No account found with ID ${session.bankAccountId}`, 'ACCOUNT_NOT_FOUND');
+    }
+    return account;
+  }
+
+  private async getSessionLineOrThrow(session: ReconciliationSession, statementLineId: number): Promise<BankStatementLine> {
+    const line = await this.dbAdapter.getBankStatementLine(statementLineId);
+    if (!line || line.sessionId !== session.id) {
+      throw new AccountingValidationError(
+        `Statement line ${statementLineId} does not belong to reconciliation ${session.reference}`,
+        'STATEMENT_LINE_NOT_FOUND'
+      );
+    }
+    return line;
+  }
+}
@@ -0,0 +1,213 @@
+/**
+ * Recurrence Schedule
+ * Occurrence dates of daily, weekly, monthly, month-end and cron schedules.
+ */
+
+import type { RecurrenceRule, ValidationError as BaseValidationError } from '../types/index.js';
+import { AccountingValidationError } from './errors';
+import { DAY_MS, toISODateString } from './utils';
+
+// Recurrence Schedule
+interface ParsedCron {
+  dayOfMonth: Set<number> | null; // null matches any day; 0 stands for the month's last day (L)
+  month: Set<number> | null;
+  dayOfWeek: Set<number> | null;
+}
+
+export class RecurrenceSchedule {
+  // How far nextOccurrence looks ahead; covers a Feb 29 rule across leap years
+  static readonly MAX_LOOKAHEAD_DAYS = 366 * 8;
+
+  private static readonly MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+  private static readonly DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+  static validate(rule: RecurrenceRule): BaseValidationError[] {
+    const errors: BaseValidationError[] = [];
+    const isoDate = /^\d{4}-\d{2}-\d{2}$/;
+
+    if (!isoDate.test(rule.startDate) || Number.isNaN(Date.parse(`${rule.startDate}T00:00:00Z`))) {
+      errors.push({ field: 'startDate', message: 'Start date must be YYYY-MM-DD', code: 'INVALID_START_DATE' });
+    }
+    if (rule.endDate !== undefined) {
+      if (!isoDate.test(rule.endDate) || Number.isNaN(Date.parse(`${rule.endDate}T00:00:00Z`))) {
+        errors.push({ field: 'endDate', message: 'End date must be YYYY-MM-DD', code: 'INVALID_END_DATE' });
+      } else if (rule.endDate < rule.startDate) {
+        errors.push({ field: 'endDate', message: 'End date cannot be before the start date', code: 'INVALID_DATE_RANGE' });
+      }
+    }
+    if (!Number.isInteger(rule.interval) || rule.interval < 1) {
+      errors.push({ field: 'interval', message: 'Interval must be a positive whole number', code: 'INVALID_INTERVAL' });
+    }
+    if (rule.dayOfWeek !== undefined && (!Number.isInteger(rule.dayOfWeek) || rule.dayOfWeek < 0 || rule.dayOfWeek > 6)) {
+      errors.push({ field: 'dayOfWeek', message: 'Day of week must be 0 (Sunday) to 6', code: 'INVALID_DAY_OF_WEEK' });
+    }
+    if (rule.dayOfMonth !== undefined && (!Number.isInteger(rule.dayOfMonth) || rule.dayOfMonth < 1 || rule.dayOfMonth > 31)) {
+      errors.push({ field: 'dayOfMonth', message: 'Day of month must be 1 to 31', code: 'INVALID_DAY_OF_MONTH' });
+    }
+    if (rule.frequency === 'CRON') {
+      try {
+        this.parseCron(rule.cronExpression || '');
+      } catch (error) {
+        errors.push({
+          field: 'cronExpression',
+          message: error instanceof Error ? error.message : 'Invalid cron expression',
+          code: 'INVALID_CRON_EXPRESSION'
+        });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Whether the rule produces an occurrence on the date (start and end dates included)
+   */
+  static matches(rule: RecurrenceRule, date: string): boolean {
+    if (date < rule.startDate || (rule.endDate && date > rule.endDate)) {
+      return false;
+    }
+
+    const day = new Date(`${date}T00:00:00Z`);
+    const start = new Date(`${rule.startDate}T00:00:00Z`);
+    const daysSinceStart = Math.round((day.getTime() - start.getTime()) / DAY_MS);
+    const monthsSinceStart = (day.getUTCFullYear() - start.getUTCFullYear()) * 12 + day.getUTCMonth() - start.getUTCMonth();
+    const lastDay = new Date(Date.UTC(day.getUTCFullYear(), day.getUTCMonth() + 1, 0)).getUTCDate();
+
+    switch (rule.frequency) {
+      case 'DAILY':
+        return daysSinceStart % rule.interval === 0;
+      case 'WEEKLY':
+        return day.getUTCDay() === (rule.dayOfWeek ?? start.getUTCDay())
+          && Math.floor(daysSinceStart / 7) % rule.interval === 0;
+      case 'MONTHLY':
+        return monthsSinceStart % rule.interval === 0
+          && day.getUTCDate() === Math.min(rule.dayOfMonth ?? start.getUTCDate(), lastDay);
+      case 'END_OF_MONTH':
+        return monthsSinceStart % rule.interval === 0 && day.getUTCDate() === lastDay;
+      case 'CRON':
+        return this.cronMatches(this.parseCron(rule.cronExpression || ''), day, lastDay);
+    }
+  }
+
+  /**
+   * Occurrence dates between fromDate and toDate (inclusive), oldest first
+   */
+  static getOccurrences(rule: RecurrenceRule, fromDate: string, toDate: string, limit: number = Infinity): string[] {
+    const occurrences: string[] = [];
+    const first = fromDate > rule.startDate ? fromDate : rule.startDate;
+    const last = rule.endDate && rule.endDate < toDate ? rule.endDate : toDate;
+
+    for (let time = Date.parse(`${first}T00:00:00Z`); occurrences.length < limit; time += DAY_MS) {
+      const date = toISODateString(new Date(time));
+      if (date > last) break;
+      if (this.matches(rule, date)) occurrences.push(date);
+    }
+
+    return occurrences;
+  }
+
+  /**
+   * First occurrence on or after the date, or null when the rule has no more occurrences
+   */
+  static nextOccurrence(rule: RecurrenceRule, onOrAfter: string): string | null {
+    const from = onOrAfter > rule.startDate ? onOrAfter : rule.startDate;
+    const horizon = toISODateString(new Date(Date.parse(`${from}T00:00:00Z`) + this.MAX_LOOKAHEAD_DAYS * DAY_MS));
+    return this.getOccurrences(rule, from, horizon, 1)[0] || null;
+  }
+
+  /**
+   * Parse "minute hour day-of-month month day-of-week". Only the date fields affect
+   * scheduling since instances are generated per day; the time fields are validated only.
+   */
+  static parseCron(expression: string): ParsedCron {
+    const fields = expression.trim().split(/\s+/);
+    if (fields.length !== 5) {
+      throw new AccountingValidationError(
+        `Cron expression "${expression}" must have 5 fields: minute hour day-of-month month day-of-week`,
+        'INVALID_CRON_EXPRESSION'
+      );
+    }
+
+    this.parseCronField(fields[0], 0, 59, expression);
+    this.parseCronField(fields[1], 0, 23, expression);
+
+    const dayOfWeek = this.parseCronField(fields[4], 0, 7, expression, this.DAY_NAMES);
+    if (dayOfWeek?.has(7)) {
+      dayOfWeek.delete(7);
+      dayOfWeek.add(0);
+    }
+
+    return {
+      dayOfMonth: fields[2].toUpperCase() === 'L' ? new Set([0]) : this.parseCronField(fields[2], 1, 31, expression),
+      month: this.parseCronField(fields[3], 1, 12, expression, this.MONTH_NAMES, 1),
+      dayOfWeek
+    };
+  }
+
+  private static parseCronField(
+    field: string,
+    min: number,
+    max: number,
+    expression: string,
+    names: string[] = [],
+    nameOffset: number = 0
+  ): Set<number> | null {
+    if (field === '*' || field === '?') return null;
+
+    const invalid = () => new AccountingValidationError(
+      `Cron expression "${expression}" has an invalid field "${field}"`,
+      'INVALID_CRON_EXPRESSION'
+    );
+    const toNumber = (value: string): number => {
+      const nameIndex = names.indexOf(value.toUpperCase());
+      const parsed = nameIndex !== -1 ? nameIndex + nameOffset : Number(value);
+      if (!Number.isInteger(parsed) || parsed < min || parsed > max) throw invalid();
+      return parsed;
+    };
+
+    const values = new Set<number>();
+    for (const part of field.split(',')) {
+      const [range, stepText] = part.split('/');
+      const step = stepText === undefined ? 1 : Number(stepText);
+      if (!Number.isInteger(step) || step < 1) throw invalid();
+
+      let from: number;
+      let to: number;
+      if (range === '*') {
+        from = min;
+        to = max;
+      } else if (range.includes('-')) {
+        const [low, high] = range.split('-');
+        from = toNumber(low);
+        to = toNumber(high);
+      } else {
+        from = toNumber(range);
+        to = stepText === undefined ? from : max;
+      }
+      if (from > to) throw invalid();
+
+      for (let value = from; value <= to; value += step) {
+        values.add(value);
+      }
+    }
+
+    return values;
+  }
+
+  private static cronMatches(cron: ParsedCron, day: Date, lastDay: number): boolean {
+    if (cron.month && !cron.month.has(day.getUTCMonth() + 1)) {
+      return false;
+    }
+
+    const dayOfMonthMatches = cron.dayOfMonth
+      ? cron.dayOfMonth.has(day.getUTCDate()) || (cron.dayOfMonth.has(0) && day.getUTCDate() === lastDay)
+      : true;
+    const dayOfWeekMatches = cron.dayOfWeek ? cron.dayOfWeek.has(day.getUTCDay()) : true;
+
+    // Standard cron: when both day fields are restricted either one may match
+    if (cron.dayOfMonth && cron.dayOfWeek) {
+      return dayOfMonthMatches || dayOfWeekMatches;
+    }
+    return dayOfMonthMatches && dayOfWeekMatches;
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { env } from 'cloudflare:test';
+import { RecurringTransactionService, type DatabaseAdapter } from './index';
+import type { RecurringTemplate } from '../types/index.js';
+import { createJournalManager, createTestAccount, createTestAdapter, TEST_CONTEXT } from '../../tests/helpers/ledger';
+
+describe('RecurringTransactionService claims', () => {
+  let adapter: DatabaseAdapter;
+  let service: RecurringTransactionService;
+  let template: RecurringTemplate;
+
+  beforeEach(async () => {
+    adapter = createTestAdapter();
+    const rent = await createTestAccount(adapter, '6100', 'EXPENSE');
+    const cash = await createTestAccount(adapter, '1000', 'ASSET');
+    service = new RecurringTransactionService(adapter, await createJournalManager(adapter));
+    template = await service.createTemplate({
+      name: 'Office rent',
+      description: 'Monthly office rent',
+      currency: 'IDR',
+      entries: [{ accountId: rent.id, debitAmount: 5_000_000 }, { accountId: cash.id, creditAmount: 5_000_000 }],
+      frequency: 'MONTHLY',
+      interval: 1,
+      startDate: '2026-01-15',
+      autoPost: false,
+      isActive: true
+    }, TEST_CONTEXT.userId);
+  });
+
+  it('should not generate an occurrence that another run has just claimed', async () => {
+    expect(await adapter.claimRecurringRun(template.id, '2026-01-15', 30)).not.toBeNull();
+
+    const result = await service.generateDue('2026-01-15', TEST_CONTEXT);
+
+    expect(result.runs).toHaveLength(0);
+  });
+
+  it('should retry an occurrence whose claim went stale', async () => {
+    const stale = await adapter.claimRecurringRun(template.id, '2026-01-15', 30);
+    await env.FINANCE_MANAGER_DB.prepare(
+      "UPDATE recurring_template_runs SET created_at = datetime('now', '-45 minutes') WHERE id = ?"
+    ).bind(stale!.id).run();
+
+    const result = await service.generateDue('2026-01-15', TEST_CONTEXT);
+
+    expect(result.runs.map(run => run.status)).toEqual(['DRAFT']);
+    const runs = await adapter.getRecurringTemplateRuns(template.id);
+    expect(runs.find(run => run.id === stale!.id)?.status).toBe('FAILED');
+    // The dead worker cannot overwrite the expired claim if it ever finishes
+    expect(await adapter.completeRecurringRun(stale!.id, { status: 'POSTED' })).toBeNull();
+  });
+});
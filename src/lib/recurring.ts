@@ -0,0 +1,268 @@
+/**
+ * Recurring Transactions
+ * Templates that generate journal entries on a schedule (daily, weekly, monthly, month end or
+ * cron), and the scheduled runs that catch each template up to date.
+ */
+
+import type {
+  PostingContext,
+  RecurringGenerationResult,
+  RecurringRunStatus,
+  RecurringTemplate,
+  RecurringTemplateInput,
+  RecurringTemplateRun,
+  ValidationError as BaseValidationError
+} from '../types/index.js';
+import type { DatabaseAdapter } from './database-adapter';
+import { AccountingValidationError } from './errors';
+import type { DatabaseJournalEntryManager } from './journal-entries';
+import { RecurrenceSchedule } from './recurrence-schedule';
+import { TransactionValidator } from './transactions';
+import { DAY_MS, toISODateString } from './utils';
+
+export class RecurringTransactionService {
+  // Occurrences generated per template in one run; a longer backlog catches up on later runs
+  static readonly MAX_OCCURRENCES_PER_RUN = 31;
+  // A claim still PENDING after this long belongs to a run that died and may be retried
+  static readonly CLAIM_TIMEOUT_MINUTES = 30;
+
+  private dbAdapter: DatabaseAdapter;
+  private journalManager: DatabaseJournalEntryManager;
+
+  constructor(dbAdapter: DatabaseAdapter, journalManager: DatabaseJournalEntryManager) {
+    this.dbAdapter = dbAdapter;
+    this.journalManager = journalManager;
+  }
+
+  static validateTemplate(template: RecurringTemplateInput): BaseValidationError[] {
+    const errors: BaseValidationError[] = [];
+
+    if (!template.name?.trim()) {
+      errors.push({ field: 'name', message: 'Template name is required', code: 'MISSING_NAME' });
+    }
+    if (!template.description?.trim()) {
+      errors.push({ field: 'description', message: 'Transaction description is required', code: 'MISSING_DESCRIPTION' });
+    }
+    errors.push(...RecurrenceSchedule.validate(template));
+    errors.push(...TransactionValidator.validateDoubleEntry(template.entries));
+
+    return errors;
+  }
+
+  async createTemplate(template: RecurringTemplateInput, createdBy?: string): Promise<RecurringTemplate> {
+    await this.assertValidTemplate(template);
+
+    return await this.dbAdapter.createRecurringTemplate(
+      template,
+      RecurrenceSchedule.nextOccurrence(template, template.startDate),
+      createdBy
+    );
+  }
+
+  /**
+   * Apply changes and reschedule from the day after the last generated occurrence,
+   * so occurrences already in the ledger are not generated again
+   */
+  async updateTemplate(
+    templateId: number,
+    updates: Partial<RecurringTemplateInput>,
+    updatedBy?: string
+  ): Promise<RecurringTemplate> {
+    const existing = await this.getTemplateOrThrow(templateId);
+    const template: RecurringTemplateInput = {
+      name: existing.name,
+      description: existing.description,
+      reference: existing.reference,
+      currency: existing.currency,
+      entries: existing.entries,
+      frequency: existing.frequency,
+      interval: existing.interval,
+      dayOfWeek: existing.dayOfWeek,
+      dayOfMonth: existing.dayOfMonth,
+      cronExpression: existing.cronExpression,
+      startDate: existing.startDate,
+      endDate: existing.endDate,
+      autoPost: existing.autoPost,
+      isActive: existing.isActive,
+      ...updates
+    };
+    await this.assertValidTemplate(template);
+
+    const lastGenerated = (await this.dbAdapter.getRecurringTemplateRuns(templateId))
+      .find(run => run.status !== 'FAILED');
+    const resumeFrom = lastGenerated ? RecurringTransactionService.dayAfter(lastGenerated.scheduledDate) : template.startDate;
+
+    return await this.dbAdapter.updateRecurringTemplate(
+      templateId,
+      template,
+      RecurrenceSchedule.nextOccurrence(template, resumeFrom),
+      updatedBy
+    ) as RecurringTemplate;
+  }
+
+  /**
+   * The next occurrences the scheduler will generate, starting at the template's next run date
+   */
+  async previewOccurrences(templateId: number, count: number): Promise<string[]> {
+    const template = await this.getTemplateOrThrow(templateId);
+    if (!template.nextRunDate) return [];
+
+    const horizon = toISODateString(new Date(
+      Date.parse(`${template.nextRunDate}T00:00:00Z`) + RecurrenceSchedule.MAX_LOOKAHEAD_DAYS * DAY_MS
+    ));
+    return RecurrenceSchedule.getOccurrences(template, template.nextRunDate, horizon, count);
+  }
+
+  /**
+   * Generate every occurrence due on or before asOfDate for the entity's active templates.
+   * Each occurrence is claimed before its transaction is created, so running this twice
+   * (or from two overlapping cron invocations) generates each occurrence once.
+   */
+  async generateDue(
+    asOfDate: string,
+    context: PostingContext = { userId: 'system' }
+  ): Promise<RecurringGenerationResult> {
+    const templates = await this.dbAdapter.getDueRecurringTemplates(asOfDate);
+    const runs: RecurringTemplateRun[] = [];
+
+    for (const template of templates) {
+      runs.push(...await this.generateForTemplate(template, asOfDate, context));
+    }
+
+    return {
+      asOfDate,
+      templatesProcessed: templates.length,
+      runs,
+      generated: runs.filter(run => run.status !== 'FAILED').length,
+      failed: runs.filter(run => run.status === 'FAILED').length
+    };
+  }
+
+  private async generateForTemplate(
+    template: RecurringTemplate,
+    asOfDate: string,
+    context: PostingContext
+  ): Promise<RecurringTemplateRun[]> {
+    const dates = RecurrenceSchedule.getOccurrences(
+      template,
+      template.nextRunDate || template.startDate,
+      asOfDate,
+      RecurringTransactionService.MAX_OCCURRENCES_PER_RUN
+    );
+    const runs: RecurringTemplateRun[] = [];
+    let firstFailure: string | null = null;
+
+    for (const date of dates) {
+      const claimed = await this.dbAdapter.claimRecurringRun(
+        template.id,
+        date,
+        RecurringTransactionService.CLAIM_TIMEOUT_MINUTES
+      );
+      if (!claimed) continue; // Already generated by an earlier or concurrent run
+
+      const run = await this.generateOccurrence(template, claimed, context);
+      if (run.status === 'FAILED' && !firstFailure) {
+        firstFailure = date;
+      }
+      runs.push(run);
+    }
+
+    // Failed occurrences stay due so the next run retries them
+    const capped = dates.length === RecurringTransactionService.MAX_OCCURRENCES_PER_RUN;
+    const resumeFrom = RecurringTransactionService.dayAfter(capped ? dates[dates.length - 1] : asOfDate);
+    await this.dbAdapter.setRecurringTemplateNextRun(
+      template.id,
+      firstFailure || RecurrenceSchedule.nextOccurrence(template, resumeFrom)
+    );
+
+    return runs;
+  }
+
+  private async generateOccurrence(
+    template: RecurringTemplate,
+    run: RecurringTemplateRun,
+    context: PostingContext
+  ): Promise<RecurringTemplateRun> {
+    let transactionId: number;
+    try {
+      const { transaction } = await this.journalManager.createAndPersistTransaction(
+        {
+          description: template.description,
+          reference: template.reference || `REC-${template.id}-${run.scheduledDate.replace(/-/g, '')}`,
+          transactionDate: new Date(`${run.scheduledDate}T00:00:00Z`),
+          currency: template.currency,
+          entries: template.entries.map(entry => ({ ...entry }))
+        },
+        context,
+        { type: 'JOURNAL', source: 'RECURRING' }
+      );
+      transactionId = Number.parseInt(transaction.id);
+    } catch (error) {
+      return await this.finishRun(run, {
+        status: 'FAILED',
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+
+    if (!template.autoPost) {
+      return await this.finishRun(run, { status: 'DRAFT', transactionId });
+    }
+
+    try {
+      await this.journalManager.postTransaction(transactionId, context);
+      return await this.finishRun(run, { status: 'POSTED', transactionId });
+    } catch (error) {
+      // Amounts above an approval threshold, or a closed period, leave the draft for review
+      return await this.finishRun(run, {
+        status: 'DRAFT',
+        transactionId,
+        error: `Left as draft: ${error instanceof Error ? error.message : String(error)}`
+      });
+    }
+  }
+
+  private async finishRun(
+    run: RecurringTemplateRun,
+    outcome: { status: Exclude<RecurringRunStatus, 'PENDING'>; transactionId?: number; error?: string }
+  ): Promise<RecurringTemplateRun> {
+    return (await this.dbAdapter.completeRecurringRun(run.id, outcome)) || { ...run, ...outcome };
+  }
+
+  private async assertValidTemplate(template: RecurringTemplateInput): Promise<void> {
+    const errors = RecurringTransactionService.validateTemplate(template);
+
+    for (const [index, entry] of template.entries.entries()) {
+      if (!entry.accountId) continue;
+      const account = await this.dbAdapter.getAccount(entry.accountId);
+      if (!account) {
+        errors.push({
+          field: `entries[${index}].accountId`,
+          message: `Account ${entry.accountId} not found`,
+          code: 'ACCOUNT_NOT_FOUND'
+        });
+      } else if (!account.isActive || !account.allowTransactions) {
+        errors.push({
+          field: `entries[${index}].accountId`,
+          message: `Account ${account.code} does not accept postings`,
+          code: 'INVALID_ACCOUNT'
+        });
+      }
+    }
+
+    if (errors.length > 0) {
+      throw new AccountingValidationError('Recurring template validation failed', 'INVALID_RECURRING_TEMPLATE', errors);
+    }
+  }
+
+  private async getTemplateOrThrow(templateId: number): Promise<RecurringTemplate> {
+    const template = await this.dbAdapter.getRecurringTemplate(templateId);
+    if (!template) {
+      throw new AccountingValidationError(`Recurring template ${templateId} not found`, 'RECURRING_TEMPLATE_NOT_FOUND');
+    }
+    return template;
+  }
+
+  private static dayAfter(date: string): string {
+    return toISODateString(new Date(Date.parse(`${date}T00:00:00Z`) + DAY_MS));
+  }
+}
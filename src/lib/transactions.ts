@@ -0,0 +1,295 @@
+/**
+ * Transactions
+ * Double-entry validation, the transaction builder and account balance calculation.
+ */
+
+import type {
+  AccountType,
+  Currency,
+  NormalBalance,
+  TransactionData,
+  TransactionEntry,
+  ValidationError as BaseValidationError
+} from '../types/index.js';
+import { FINANCIAL_CONSTANTS } from './constants';
+import { DoubleEntryError } from './errors';
+import type { ExchangeRateService } from './exchange-rates';
+import { roundToDecimalPlaces, toISODateString } from './utils';
+
+// Transaction Validator Class
+export class TransactionValidator {
+  /**
+   * Validates that the sum of debits equals the sum of credits
+   */
+  static validateDoubleEntry(entries: TransactionEntry[]): BaseValidationError[] {
+    const errors: BaseValidationError[] = [];
+    
+    if (!entries || entries.length === 0) {
+      errors.push({
+        field: 'entries',
+        message: 'Transaction must have at least one journal entry',
+        code: 'NO_ENTRIES'
+      });
+      return errors;
+    }
+
+    if (entries.length < 2) {
+      errors.push({
+        field: 'entries',
+        message: 'Transaction must have at least two journal entries for double-entry bookkeeping',
+        code: 'INSUFFICIENT_ENTRIES'
+      });
+    }
+
+    let totalDebits = 0;
+    let totalCredits = 0;
+
+    entries.forEach((entry, index) => {
+      // Validate entry structure
+      if (!entry.accountId) {
+        errors.push({
+          field: `entries[${index}].accountId`,
+          message: 'Account ID is required for each entry',
+          code: 'MISSING_ACCOUNT_ID'
+        });
+      }
+
+      // Validate amounts
+      const debitAmount = entry.debitAmount || 0;
+      const creditAmount = entry.creditAmount || 0;
+
+      if (debitAmount < 0) {
+        errors.push({
+          field: `entries[${index}].debitAmount`,
+          message: 'Debit amount cannot be negative',
+          code: 'NEGATIVE_DEBIT'
+        });
+      }
+
+      if (creditAmount < 0) {
+        errors.push({
+          field: `entries[${index}].creditAmount`,
+          message: 'Credit amount cannot be negative',
+          code: 'NEGATIVE_CREDIT'
+        });
+      }
+
+      if (debitAmount > 0 && creditAmount > 0) {
+        errors.push({
+          field: `entries[${index}]`,
+          message: 'Entry cannot have both debit and credit amounts',
+          code: 'BOTH_DEBIT_AND_CREDIT'
+        });
+      }
+
+      if (debitAmount === 0 && creditAmount === 0) {
+        errors.push({
+          field: `entries[${index}]`,
+          message: 'Entry must have either a debit or credit amount',
+          code: 'NO_AMOUNT'
+        });
+      }
+
+      totalDebits += roundToDecimalPlaces(debitAmount);
+      totalCredits += roundToDecimalPlaces(creditAmount);
+    });
+
+    // Check double-entry balance
+    const debitTotal = roundToDecimalPlaces(totalDebits);
+    const creditTotal = roundToDecimalPlaces(totalCredits);
+
+    if (debitTotal !== creditTotal) {
+      errors.push({
+        field: 'entries',
+        message: `Total debits (${debitTotal}) must equal total credits (${creditTotal})`,
+        code: 'UNBALANCED_TRANSACTION'
+      });
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validates transaction data structure
+   */
+  static validateTransactionData(transactionData: TransactionData): BaseValidationError[] {
+    const errors: BaseValidationError[] = [];
+
+    if (!transactionData.description?.trim()) {
+      errors.push({
+        field: 'description',
+        message: 'Transaction description is required',
+        code: 'MISSING_DESCRIPTION'
+      });
+    }
+
+    if (!transactionData.transactionDate) {
+      errors.push({
+        field: 'transactionDate',
+        message: 'Transaction date is required',
+        code: 'MISSING_TRANSACTION_DATE'
+      });
+    }
+
+    if (!transactionData.currency) {
+      errors.push({
+        field: 'currency',
+        message: 'Transaction currency is required',
+        code: 'MISSING_CURRENCY'
+      });
+    }
+
+    if (transactionData.exchangeRate !== undefined && !(transactionData.exchangeRate > 0)) {
+      errors.push({
+        field: 'exchangeRate',
+        message: 'Exchange rate must be greater than zero',
+        code: 'INVALID_EXCHANGE_RATE'
+      });
+    }
+
+    // Validate journal entries
+    const entryErrors = this.validateDoubleEntry(transactionData.entries);
+    errors.push(...entryErrors);
+
+    return errors;
+  }
+}
+
+// Transaction Builder Class
+type LineDimensions = Pick<TransactionEntry, 'departmentId' | 'projectId' | 'costCenterId'>;
+
+export class TransactionBuilder {
+  private transactionData: Partial<TransactionData> = {
+    entries: [],
+    currency: FINANCIAL_CONSTANTS.DEFAULT_CURRENCY,
+    transactionDate: new Date(),
+  };
+
+  constructor() {
+    this.reset();
+  }
+
+  reset(): TransactionBuilder {
+    this.transactionData = {
+      entries: [],
+      currency: FINANCIAL_CONSTANTS.DEFAULT_CURRENCY,
+      transactionDate: new Date(),
+    };
+    return this;
+  }
+
+  setDescription(description: string): TransactionBuilder {
+    this.transactionData.description = description;
+    return this;
+  }
+
+  setReference(reference: string): TransactionBuilder {
+    this.transactionData.reference = reference;
+    return this;
+  }
+
+  setDate(date: Date): TransactionBuilder {
+    this.transactionData.transactionDate = date;
+    return this;
+  }
+
+  /**
+   * Set the transaction currency. Without an explicit rate, the rate to the base currency
+   * in effect on the transaction date is resolved from the exchange rate store.
+   */
+  setCurrency(currency: Currency, exchangeRate?: number): TransactionBuilder {
+    this.transactionData.currency = currency;
+    this.transactionData.exchangeRate = exchangeRate;
+    return this;
+  }
+
+  /**
+   * Look up the rate for the current currency and date, so base amounts are known before creation
+   */
+  async resolveExchangeRate(exchangeRateService: ExchangeRateService): Promise<TransactionBuilder> {
+    const currency = this.transactionData.currency || FINANCIAL_CONSTANTS.DEFAULT_CURRENCY;
+    if (this.transactionData.exchangeRate === undefined && currency !== FINANCIAL_CONSTANTS.DEFAULT_CURRENCY) {
+      this.transactionData.exchangeRate = await exchangeRateService.getRate(
+        currency,
+        FINANCIAL_CONSTANTS.DEFAULT_CURRENCY,
+        toISODateString(this.transactionData.transactionDate || new Date())
+      );
+    }
+    return this;
+  }
+
+  /**
+   * Department, project and cost center codes for every line that does not set its own
+   */
+  setDimensions(dimensions: LineDimensions): TransactionBuilder {
+    this.transactionData.departmentId = dimensions.departmentId;
+    this.transactionData.projectId = dimensions.projectId;
+    this.transactionData.costCenterId = dimensions.costCenterId;
+    return this;
+  }
+
+  debit(accountId: number, amount: number, description?: string, dimensions: LineDimensions = {}): TransactionBuilder {
+    if (!this.transactionData.entries) {
+      this.transactionData.entries = [];
+    }
+    this.transactionData.entries.push({
+      accountId,
+      debitAmount: roundToDecimalPlaces(amount),
+      creditAmount: 0,
+      description,
+      currency: this.transactionData.currency,
+      ...dimensions,
+    });
+    return this;
+  }
+
+  credit(accountId: number, amount: number, description?: string, dimensions: LineDimensions = {}): TransactionBuilder {
+    if (!this.transactionData.entries) {
+      this.transactionData.entries = [];
+    }
+    this.transactionData.entries.push({
+      accountId,
+      debitAmount: 0,
+      creditAmount: roundToDecimalPlaces(amount),
+      description,
+      currency: this.transactionData.currency,
+      ...dimensions,
+    });
+    return this;
+  }
+
+  validate(): BaseValidationError[] {
+    return TransactionValidator.validateTransactionData(this.transactionData as TransactionData);
+  }
+
+  build(): TransactionData {
+    const errors = this.validate();
+    if (errors.length > 0) {
+      throw new DoubleEntryError('Invalid transaction data', errors);
+    }
+    return { ...this.transactionData } as TransactionData;
+  }
+}
+
+// Balance Calculator
+
+export class BalanceCalculator {
+  /**
+   * Calculates the balance for an account based on its normal balance type
+   */
+  static calculateAccountBalance(
+    _accountType: AccountType,
+    normalBalance: NormalBalance,
+    debitTotal: number,
+    creditTotal: number
+  ): number {
+    const debits = roundToDecimalPlaces(debitTotal);
+    const credits = roundToDecimalPlaces(creditTotal);
+
+    if (normalBalance === 'DEBIT') {
+      return debits - credits;
+    } else {
+      return credits - debits;
+    }
+  }
+}
@@ -0,0 +1,55 @@
+/**
+ * Utilities
+ * Currency formatting, rounding, normal balances and ISO date helpers.
+ */
+
+import type { AccountType, Currency, NormalBalance } from '../types/index.js';
+import { FINANCIAL_CONSTANTS } from './constants';
+
+// Utility functions
+export function formatCurrency(
+  amount: number, 
+  currency: Currency = FINANCIAL_CONSTANTS.DEFAULT_CURRENCY
+): string {
+  const locale = FINANCIAL_CONSTANTS.CURRENCY_LOCALES[currency];
+  const symbol = FINANCIAL_CONSTANTS.CURRENCY_SYMBOLS[currency];
+  
+  // For IDR, we don't typically use decimal places in everyday formatting
+  const options: Intl.NumberFormatOptions = {
+    style: 'decimal',
+    minimumFractionDigits: currency === 'IDR' ? 0 : FINANCIAL_CONSTANTS.DECIMAL_PLACES,
+    maximumFractionDigits: currency === 'IDR' ? 0 : FINANCIAL_CONSTANTS.DECIMAL_PLACES,
+  };
+  
+  const formattedAmount = new Intl.NumberFormat(locale, options).format(amount);
+  return `${symbol} ${formattedAmount}`;
+}
+
+export function roundToDecimalPlaces(amount: number, places: number = FINANCIAL_CONSTANTS.DECIMAL_PLACES): number {
+  const factor = 10 ** places;
+  return Math.round(amount * factor) / factor;
+}
+
+export function getNormalBalance(accountType: AccountType): NormalBalance {
+  return FINANCIAL_CONSTANTS.NORMAL_BALANCES[accountType];
+}
+
+// Calendar date (YYYY-MM-DD, UTC) used for period and date-range comparisons
+export function toISODateString(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+// Start (inclusive) and end (exclusive) timestamps covering ISO dates from startDate to endDate
+export function isoDateRangeToTimestamps(startDate: string, endDate: string): { from: number; to: number } {
+  return {
+    from: Date.parse(`${startDate}T00:00:00Z`),
+    to: Date.parse(`${endDate}T00:00:00Z`) + 24 * 60 * 60 * 1000
+  };
+}
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Days from startDate to endDate (ISO dates), both included
+export function countDays(startDate: string, endDate: string): number {
+  return Math.round((Date.parse(`${endDate}T00:00:00Z`) - Date.parse(`${startDate}T00:00:00Z`)) / DAY_MS) + 1;
+}
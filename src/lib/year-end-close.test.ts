@@ -0,0 +1,89 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { FiscalYearError, YearEndCloseService, type DatabaseAdapter } from './index';
+import type { Account } from '../types/index.js';
+import {
+  createDraft,
+  createJournalManager,
+  createTestAccount,
+  createTestAdapter,
+  getBalance,
+  postEntry,
+  TEST_CONTEXT
+} from '../../tests/helpers/ledger';
+
+describe('YearEndCloseService', () => {
+  let adapter: DatabaseAdapter;
+  let service: YearEndCloseService;
+  let revenue: Account;
+  let retainedEarnings: Account;
+
+  beforeEach(async () => {
+    adapter = createTestAdapter();
+    const cash = await createTestAccount(adapter, '1000', 'ASSET');
+    revenue = await createTestAccount(adapter, '4000', 'REVENUE');
+    retainedEarnings = await createTestAccount(adapter, '3200', 'EQUITY');
+    const manager = await createJournalManager(adapter);
+    await postEntry(manager, [{ accountId: cash.id, debit: 900 }, { accountId: revenue.id, credit: 900 }], { date: '2025-06-30' });
+    service = new YearEndCloseService(adapter, manager);
+  });
+
+  it('should post the closing entry together with the close record', async () => {
+    const { close, transaction } = await service.close(2025, TEST_CONTEXT, retainedEarnings.id);
+
+    expect(transaction.status).toBe('POSTED');
+    expect(close.closingTransactionId).toBe(Number.parseInt(transaction.id));
+    expect((await adapter.getActiveYearEndClose(2025))?.id).toBe(close.id);
+    expect(await getBalance(adapter, revenue.id)).toBe(0);
+    expect(await getBalance(adapter, retainedEarnings.id)).toBe(900);
+  });
+
+  it('should post one of two closing entries racing for the same year', async () => {
+    const manager = await createJournalManager(adapter);
+    const lines = [{ accountId: revenue.id, debit: 900 }, { accountId: retainedEarnings.id, credit: 900 }];
+    const drafts = [
+      await createDraft(manager, lines, { date: '2025-12-31', source: 'SYSTEM' }),
+      await createDraft(manager, lines, { date: '2025-12-31', source: 'SYSTEM' })
+    ];
+
+    const closes = await Promise.all(drafts.map(draft => adapter.postYearEndClose({
+      fiscalYear: 2025,
+      startDate: '2025-01-01',
+      endDate: '2025-12-31',
+      retainedEarningsAccountId: retainedEarnings.id,
+      closingTransactionId: Number.parseInt(draft.id),
+      netIncome: 900,
+      closedBy: TEST_CONTEXT.userId
+    })));
+
+    expect(closes.filter(close => close !== null)).toHaveLength(1);
+    expect((await service.getHistory()).filter(close => close.status === 'POSTED')).toHaveLength(1);
+    const statuses = await Promise.all(drafts.map(async draft => (await adapter.getTransaction(Number.parseInt(draft.id)))?.status));
+    expect(statuses.sort()).toEqual(['DRAFT', 'POSTED']);
+    expect(await getBalance(adapter, revenue.id)).toBe(0);
+    expect(await getBalance(adapter, retainedEarnings.id)).toBe(900);
+  });
+
+  it('should refuse to close a year twice', async () => {
+    await service.close(2025, TEST_CONTEXT, retainedEarnings.id);
+
+    await expect(service.close(2025, TEST_CONTEXT, retainedEarnings.id)).rejects.toBeInstanceOf(FiscalYearError);
+    expect(await getBalance(adapter, retainedEarnings.id)).toBe(900);
+  });
+
+  it('should reverse the closing entry together with the close record', async () => {
+    await service.close(2025, TEST_CONTEXT, retainedEarnings.id);
+
+    const results = await Promise.allSettled([
+      service.undo(2025, TEST_CONTEXT),
+      service.undo(2025, TEST_CONTEXT)
+    ]);
+
+    const undone = results.find(result => result.status === 'fulfilled') as PromiseFulfilledResult<Awaited<ReturnType<YearEndCloseService['undo']>>>;
+    expect(results.filter(result => result.status === 'fulfilled')).toHaveLength(1);
+    expect(undone.value.close.status).toBe('REVERSED');
+    expect(undone.value.close.reversalTransactionId).toBe(Number.parseInt(undone.value.reversal.id));
+    expect(await adapter.getActiveYearEndClose(2025)).toBeNull();
+    expect(await getBalance(adapter, revenue.id)).toBe(900);
+    expect(await getBalance(adapter, retainedEarnings.id)).toBe(0);
+  });
+});
@@ -0,0 +1,239 @@
+/**
+ * Year-End Close
+ * Closes a fiscal year's revenue and expense balances into retained earnings, with a preview
+ * of the closing entry and an undo that reverses it.
+ */
+
+import type {
+  Account,
+  ClosingLine,
+  PostingContext,
+  Transaction,
+  YearEndClose,
+  YearEndClosePreview
+} from '../types/index.js';
+import { FINANCIAL_CONSTANTS, RETAINED_EARNINGS_SUBTYPE } from './constants';
+import type { DatabaseAdapter } from './database-adapter';
+import { AccountingValidationError, FiscalYearError } from './errors';
+import type { DatabaseJournalEntryManager } from './journal-entries';
+import { BalanceCalculator, TransactionBuilder } from './transactions';
+import { roundToDecimalPlaces } from './utils';
+
+export class YearEndCloseService {
+  private dbAdapter: DatabaseAdapter;
+  private journalManager: DatabaseJournalEntryManager;
+
+  constructor(dbAdapter: DatabaseAdapter, journalManager: DatabaseJournalEntryManager) {
+    this.dbAdapter = dbAdapter;
+    this.journalManager = journalManager;
+  }
+
+  /**
+   * Date range of a fiscal year from its defined periods, or the calendar year when none exist
+   */
+  async getFiscalYearRange(fiscalYear: number): Promise<{ startDate: string; endDate: string }> {
+    const periods = await this.dbAdapter.getFiscalPeriods(fiscalYear);
+    if (periods.length === 0) {
+      return { startDate: `${fiscalYear}-01-01`, endDate: `${fiscalYear}-12-31` };
+    }
+
+    return {
+      startDate: periods.reduce((min, period) => period.startDate < min ? period.startDate : min, periods[0].startDate),
+      endDate: periods.reduce((max, period) => period.endDate > max ? period.endDate : max, periods[0].endDate)
+    };
+  }
+
+  /**
+   * Explicit account if given, otherwise the equity account with the RETAINED_EARNINGS subtype
+   */
+  async getRetainedEarningsAccount(accountId?: number): Promise<Account> {
+    const account = accountId
+      ? await this.dbAdapter.getAccount(accountId)
+      : (await this.dbAdapter.getAccountsByType('EQUITY'))
+          .find(equity => equity.subtype === RETAINED_EARNINGS_SUBTYPE && equity.isActive) || null;
+
+    if (!account) {
+      throw new AccountingValidationError(
+        accountId
+          ? `Account ${accountId} not found`
+          : `No retained earnings account configured; mark an equity account with subtype ${RETAINED_EARNINGS_SUBTYPE}`,
+        'RETAINED_EARNINGS_ACCOUNT_REQUIRED'
+      );
+    }
+
+    if (account.type !== 'EQUITY' || !account.allowTransactions) {
+      throw new AccountingValidationError(
+        `Account ${account.code} must be an equity account that allows transactions`,
+        'INVALID_RETAINED_EARNINGS_ACCOUNT'
+      );
+    }
+
+    return account;
+  }
+
+  /**
+   * Compute the closing entry for every REVENUE and EXPENSE account without persisting anything
+   */
+  async preview(fiscalYear: number, retainedEarningsAccountId?: number): Promise<YearEndClosePreview> {
+    const { startDate, endDate } = await this.getFiscalYearRange(fiscalYear);
+    const retainedEarnings = await this.getRetainedEarningsAccount(retainedEarningsAccountId);
+
+    const activity = new Map(
+      (await this.dbAdapter.getAccountActivity(startDate, endDate)).map(row => [row.accountId, row])
+    );
+    const temporaryAccounts = [
+      ...(await this.dbAdapter.getAccountsByType('REVENUE')),
+      ...(await this.dbAdapter.getAccountsByType('EXPENSE'))
+    ];
+
+    const lines: ClosingLine[] = [];
+    let totalRevenue = 0;
+    let totalExpenses = 0;
+
+    for (const account of temporaryAccounts) {
+      const totals = activity.get(account.id);
+      if (!totals) continue;
+
+      const balance = roundToDecimalPlaces(BalanceCalculator.calculateAccountBalance(
+        account.type,
+        account.normalBalance,
+        totals.debitTotal,
+        totals.creditTotal
+      ));
+      if (balance === 0) continue;
+
+      // Post the opposite of the net debit so the account ends the year at zero
+      const netDebit = roundToDecimalPlaces(totals.debitTotal - totals.creditTotal);
+      lines.push({
+        accountId: account.id,
+        accountCode: account.code,
+        accountName: account.name,
+        accountType: account.type,
+        balance,
+        debitAmount: netDebit < 0 ? -netDebit : 0,
+        creditAmount: netDebit > 0 ? netDebit : 0
+      });
+
+      if (account.type === 'REVENUE') {
+        totalRevenue += balance;
+      } else {
+        totalExpenses += balance;
+      }
+    }
+
+    const netIncome = roundToDecimalPlaces(totalRevenue - totalExpenses);
+
+    return {
+      fiscalYear,
+      startDate,
+      endDate,
+      retainedEarningsAccountId: retainedEarnings.id,
+      lines,
+      totalRevenue: roundToDecimalPlaces(totalRevenue),
+      totalExpenses: roundToDecimalPlaces(totalExpenses),
+      netIncome,
+      retainedEarningsDebit: netIncome < 0 ? -netIncome : 0,
+      retainedEarningsCredit: netIncome > 0 ? netIncome : 0
+    };
+  }
+
+  /**
+   * Create and post the closing transaction dated on the last day of the fiscal year
+   */
+  async close(fiscalYear: number, context: PostingContext, retainedEarningsAccountId?: number): Promise<{
+    close: YearEndClose;
+    transaction: Transaction;
+    preview: YearEndClosePreview;
+  }> {
+    const existing = await this.dbAdapter.getActiveYearEndClose(fiscalYear);
+    if (existing) {
+      throw new FiscalYearError(
+        `Fiscal year ${fiscalYear} is already closed by transaction ${existing.closingTransactionId}; undo it before closing again`
+      );
+    }
+
+    const preview = await this.preview(fiscalYear, retainedEarningsAccountId);
+    if (preview.lines.length === 0) {
+      throw new FiscalYearError(`Fiscal year ${fiscalYear} has no revenue or expense balances to close`);
+    }
+
+    const builder = new TransactionBuilder()
+      .setDescription(`Year-end close FY${fiscalYear}`)
+      .setReference(`YEC-${fiscalYear}`)
+      .setDate(new Date(`${preview.endDate}T00:00:00Z`))
+      .setCurrency(FINANCIAL_CONSTANTS.DEFAULT_CURRENCY);
+
+    for (const line of preview.lines) {
+      const description = `Close ${line.accountCode} ${line.accountName}`;
+      if (line.debitAmount > 0) {
+        builder.debit(line.accountId, line.debitAmount, description);
+      } else {
+        builder.credit(line.accountId, line.creditAmount, description);
+      }
+    }
+
+    if (preview.retainedEarningsCredit > 0) {
+      builder.credit(preview.retainedEarningsAccountId, preview.retainedEarningsCredit, `Net income FY${fiscalYear}`);
+    } else if (preview.retainedEarningsDebit > 0) {
+      builder.debit(preview.retainedEarningsAccountId, preview.retainedEarningsDebit, `Net loss FY${fiscalYear}`);
+    }
+
+    const { transaction: draft } = await this.journalManager.createAndPersistTransaction(
+      builder.build(),
+      context,
+      { type: 'CLOSING', source: 'SYSTEM' }
+    );
+    const draftId = Number.parseInt(draft.id);
+    await this.journalManager.assertPostable(draftId, context);
+
+    // The closing entry and the close record are written together or not at all
+    const close = await this.dbAdapter.postYearEndClose({
+      fiscalYear,
+      startDate: preview.startDate,
+      endDate: preview.endDate,
+      retainedEarningsAccountId: preview.retainedEarningsAccountId,
+      closingTransactionId: draftId,
+      netIncome: preview.netIncome,
+      closedBy: context.userId
+    });
+    if (!close) {
+      await this.journalManager.voidTransaction(draftId, context.userId);
+      throw new FiscalYearError(`Fiscal year ${fiscalYear} was closed by another request`);
+    }
+
+    const transaction = await this.dbAdapter.getTransaction(draftId) as Transaction;
+    await this.journalManager.refreshBudgetActuals(new Date(transaction.date));
+
+    return { close, transaction, preview };
+  }
+
+  /**
+   * Undo a close by reversing its transaction on the same date, reopening the year's balances
+   */
+  async undo(fiscalYear: number, context: PostingContext): Promise<{
+    close: YearEndClose;
+    reversal: Transaction;
+  }> {
+    const existing = await this.dbAdapter.getActiveYearEndClose(fiscalYear);
+    if (!existing) {
+      throw new FiscalYearError(`Fiscal year ${fiscalYear} has no posted year-end close to undo`);
+    }
+
+    const reversalDate = new Date(`${existing.endDate}T00:00:00Z`);
+    await this.journalManager.assertReversible(existing.closingTransactionId, context, reversalDate);
+
+    const close = await this.dbAdapter.reverseYearEndClose(existing, reversalDate, context.userId);
+    if (!close) {
+      throw new FiscalYearError(`The year-end close for fiscal year ${fiscalYear} was changed by another request`);
+    }
+
+    const reversal = await this.dbAdapter.getTransaction(close.reversalTransactionId as number) as Transaction;
+    await this.journalManager.refreshBudgetActuals(reversalDate);
+
+    return { close, reversal };
+  }
+
+  async getHistory(): Promise<YearEndClose[]> {
+    return await this.dbAdapter.getYearEndCloses();
+  }
+}
@@ -4,7 +4,7 @@ export interface Money { amount: number; currency: Currency; }
 // Account Types
 export type AccountType = 'ASSET' | 'LIABILITY' | 'EQUITY' | 'REVENUE' | 'EXPENSE';
 export type NormalBalance = 'DEBIT' | 'CREDIT';
-export type TransactionStatus = 'DRAFT' | 'PENDING' | 'APPROVED' | 'POSTED' | 'CANCELLED' | 'REVERSED';
+export type TransactionStatus = 'DRAFT' | 'PENDING' | 'APPROVED' | 'POSTED' | 'CANCELLED' | 'REVERSED' | 'VOID';
 
 // Account Interface
 export interface Account {
@@ -21,6 +21,7 @@ export interface Account {
   isActive: boolean;
   isSystem: boolean;
   allowTransactions: boolean;
+  currency?: Currency; // Currency the account is kept in; unset for the base currency
   normalBalance: NormalBalance;
   reportCategory?: string;
   reportOrder: number;
@@ -40,8 +41,21 @@ export interface Transaction {
   reference?: string;
   status: TransactionStatus;
   entries: TransactionEntry[];
+  transactionNumber?: string;
+  type?: string;
+  source?: string;
+  totalAmount?: number;
+  entityId?: string;
+  isReversed?: boolean;
+  reversedTransactionId?: number;
+  approvedBy?: string;
+  approvedAt?: string;
+  postedBy?: string;
+  postedAt?: string;
   createdAt: string;
   updatedAt: string;
+  createdBy?: string;
+  updatedBy?: string;
 }
 
 // Journal Entry Interface
@@ -60,6 +74,7 @@ export interface JournalEntry {
   entityId?: string;
   departmentId?: string;
   projectId?: string;
+  costCenterId?: string;
   reconciliationId?: string;
   isReconciled: boolean;
   reconciledAt?: Date;
@@ -81,6 +96,7 @@ export interface TransactionEntry {
   entityId?: string;
   departmentId?: string;
   projectId?: string;
+  costCenterId?: string;
 }
 
 export interface TransactionData {
@@ -91,9 +107,1293 @@ export interface TransactionData {
   entityId?: string;
   departmentId?: string;
   projectId?: string;
+  costCenterId?: string;
   tags?: string[];
   notes?: string;
+  exchangeRate?: number; // Rate to the base currency; resolved from stored rates when omitted
+  entries: TransactionEntry[];
+}
+
+// Approval Workflow Types
+export type ApprovalAction = 'SUBMITTED' | 'APPROVED' | 'REJECTED';
+
+export interface ApprovalRule {
+  id?: number;
+  stepNumber: number;
+  name: string;
+  minAmount: number; // Step is required when the transaction total in base currency is at or above this amount
+  approverRoles: string[]; // users.role values allowed to sign off this step
+  isActive: boolean;
+}
+
+export interface ApprovalActor {
+  id: string;
+  role: string;
+}
+
+export interface TransactionApproval {
+  id: number;
+  transactionId: number;
+  stepNumber?: number;
+  action: ApprovalAction;
+  actorId: string;
+  actorRole?: string;
+  comments?: string;
+  createdAt: Date;
+}
+
+// Fiscal Period Types
+export type FiscalPeriodStatus = 'OPEN' | 'SOFT_CLOSED' | 'HARD_CLOSED';
+
+export interface FiscalPeriod {
+  id: number;
+  name: string;
+  fiscalYear: number;
+  periodNumber: number;
+  startDate: string; // ISO date (YYYY-MM-DD), inclusive
+  endDate: string; // ISO date (YYYY-MM-DD), inclusive
+  status: FiscalPeriodStatus;
+  closedAt?: string;
+  closedBy?: string;
+  entityId: string;
+}
+
+// Who is writing to the ledger, used for period-lock overrides
+export interface PostingContext {
+  userId: string;
+  permissions?: string[];
+}
+
+// Year-End Close Types
+export interface AccountActivity {
+  accountId: number;
+  debitTotal: number;
+  creditTotal: number;
+}
+
+export interface ClosingLine {
+  accountId: number;
+  accountCode: string;
+  accountName: string;
+  accountType: AccountType;
+  balance: number; // Period balance in the account's normal-balance direction
+  debitAmount: number; // Closing entry amounts that zero the balance
+  creditAmount: number;
+}
+
+export interface YearEndClosePreview {
+  fiscalYear: number;
+  startDate: string;
+  endDate: string;
+  retainedEarningsAccountId: number;
+  lines: ClosingLine[];
+  totalRevenue: number;
+  totalExpenses: number;
+  netIncome: number;
+  retainedEarningsDebit: number;
+  retainedEarningsCredit: number;
+}
+
+export type YearEndCloseStatus = 'POSTED' | 'REVERSED';
+
+export interface YearEndClose {
+  id: number;
+  fiscalYear: number;
+  startDate: string;
+  endDate: string;
+  retainedEarningsAccountId: number;
+  closingTransactionId: number;
+  reversalTransactionId?: number;
+  netIncome: number;
+  status: YearEndCloseStatus;
+  closedBy?: string;
+  closedAt: string;
+  reversedBy?: string;
+  reversedAt?: string;
+  entityId: string;
+}
+
+// General Ledger Types
+// Position of a ledger line in (transaction date, line id) order
+export interface LedgerCursor {
+  transactionDate: number;
+  entryId: number;
+}
+
+export interface JournalEntryFilters {
+  startDate?: string; // ISO date (YYYY-MM-DD), inclusive
+  endDate?: string; // ISO date (YYYY-MM-DD), inclusive
+  statuses?: TransactionStatus[];
+  isReconciled?: boolean;
+  after?: LedgerCursor; // Lines strictly after this position
+  through?: LedgerCursor; // Lines up to and including this position
+  limit?: number;
+}
+
+export interface LedgerEntry extends JournalEntry {
+  transactionDate: Date;
+  transactionNumber?: string;
+  transactionDescription: string;
+  reference?: string;
+  transactionStatus: TransactionStatus;
+}
+
+export interface LedgerLine extends LedgerEntry {
+  runningBalance: number;
+}
+
+export interface GeneralLedgerPage {
+  accountId: number;
+  accountCode: string;
+  accountName: string;
+  normalBalance: NormalBalance;
+  startDate?: string;
+  endDate?: string;
+  openingBalance: number; // Balance before startDate
+  pageOpeningBalance: number; // Balance before the first line of this page
+  closingBalance: number; // Balance at endDate across all pages
+  totalDebits: number;
+  totalCredits: number;
+  lines: LedgerLine[];
+  nextCursor: string | null;
+  hasMore: boolean;
+}
+
+// Bank Reconciliation Types
+export type ReconciliationSessionStatus = 'IN_PROGRESS' | 'COMPLETED';
+export type StatementMatchType = 'AUTO' | 'MANUAL';
+
+export interface ReconciliationSession {
+  id: number;
+  bankAccountId: number;
+  statementDate: string; // ISO date (YYYY-MM-DD), inclusive
+  statementEndingBalance: number;
+  status: ReconciliationSessionStatus;
+  reference: string; // Written to journal_entries.reconciliation_reference on match
+  notes?: string;
+  completedAt?: string;
+  completedBy?: string;
+  entityId: string;
+  createdAt: string;
+  createdBy?: string;
+}
+
+export interface BankStatementLine {
+  id: number;
+  bankAccountId: number;
+  sessionId?: number;
+  transactionDate: string; // ISO date (YYYY-MM-DD)
+  amount: number; // Deposits positive, withdrawals negative
+  description?: string;
+  reference?: string;
+  matchedJournalEntryId?: number;
+  matchType?: StatementMatchType;
+  matchedAt?: string;
+  matchedBy?: string;
+  externalId?: string; // Bank transaction id (OFX FITID, CAMT AcctSvcrRef)
+  dedupeKey?: string;
+  importId?: number;
+  transactionId?: number; // Draft transaction created by the import
+  entityId: string;
+}
+
+export interface ReconciliationMatch {
+  statementLineId: number;
+  journalEntryId: number;
+  dateDifferenceDays: number;
+  referenceMatched: boolean;
+}
+
+export interface AutoMatchResult {
+  matches: ReconciliationMatch[];
+  ambiguousLineIds: number[]; // Several equally good ledger candidates; match manually
+  unmatchedLineIds: number[];
+}
+
+export interface ReconciliationReport {
+  session: ReconciliationSession;
+  currency: Currency; // The bank account's currency, which every amount below is in
+  bookBalance: number; // Ledger balance of the bank account at statementDate
+  statementEndingBalance: number;
+  depositsInTransit: LedgerEntry[]; // Unreconciled ledger debits
+  outstandingPayments: LedgerEntry[]; // Unreconciled ledger credits
+  unmatchedStatementLines: BankStatementLine[]; // Bank activity not yet in the books
+  totalDepositsInTransit: number;
+  totalOutstandingPayments: number;
+  totalUnmatchedStatementLines: number;
+  adjustedBankBalance: number;
+  adjustedBookBalance: number;
+  unexplainedDifference: number;
+  isReconciled: boolean;
+}
+
+// Bank Statement Import Types
+export type StatementFormat = 'CSV' | 'OFX' | 'CAMT053';
+
+export interface ParsedStatementLine {
+  transactionDate: string; // ISO date (YYYY-MM-DD)
+  amount: number; // Deposits positive, withdrawals negative
+  description: string;
+  reference?: string;
+  externalId?: string;
+}
+
+export interface CsvColumnMapping {
+  delimiter: string;
+  hasHeader: boolean;
+  dateColumn: string; // Header name, or zero-based index when hasHeader is false
+  dateFormat: 'YYYY-MM-DD' | 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'DD-MM-YYYY' | 'YYYYMMDD';
+  descriptionColumn: string;
+  amountColumn?: string; // Signed amount; otherwise debitColumn/creditColumn
+  debitColumn?: string; // Withdrawals
+  creditColumn?: string; // Deposits
+  referenceColumn?: string;
+  externalIdColumn?: string;
+  decimalSeparator: '.' | ',';
+}
+
+export interface ImportProfile {
+  id: number;
+  name: string;
+  bankAccountId?: number;
+  mapping: CsvColumnMapping;
+  entityId: string;
+  createdAt: string;
+  createdBy?: string;
+}
+
+export interface BankStatementImport {
+  id: number;
+  bankAccountId: number;
+  format: StatementFormat;
+  fileName?: string;
+  profileId?: number;
+  totalLines: number;
+  importedLines: number;
+  duplicateLines: number;
+  failedLines: number;
+  entityId: string;
+  createdAt: string;
+  createdBy?: string;
+}
+
+// Categorization outcome for an imported line, supplied by the caller
+export interface ImportLineCategorization {
+  suggestionId: string;
+  category: string;
+  accountId?: number;
+  confidence: number;
+  requiresApproval: boolean;
+}
+
+export interface ImportLineResult {
+  line: ParsedStatementLine;
+  status: 'IMPORTED' | 'DUPLICATE' | 'FAILED';
+  transactionId?: number;
+  contraAccountId?: number;
+  categorization?: ImportLineCategorization | null;
+  error?: string;
+}
+
+// Exchange Rate Types
+export type ExchangeRateSource = 'MANUAL' | 'IMPORT';
+
+// 1 unit of fromCurrency = rate units of toCurrency, effective from effectiveDate
+export interface ExchangeRate {
+  id: number;
+  fromCurrency: Currency;
+  toCurrency: Currency;
+  rate: number;
+  effectiveDate: string;
+  source: ExchangeRateSource;
+  entityId: string;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+  updatedBy?: string;
+}
+
+export interface ExchangeRateFilters {
+  fromCurrency?: Currency;
+  toCurrency?: Currency;
+  startDate?: string;
+  endDate?: string;
+}
+
+// How a rate for a date was found
+export type ExchangeRateMethod = 'IDENTITY' | 'DIRECT' | 'INVERSE' | 'TRIANGULATED';
+
+export interface ExchangeRateQuote {
+  fromCurrency: Currency;
+  toCurrency: Currency;
+  rate: number;
+  requestedDate: string;
+  effectiveDate: string; // Date of the stored rate used; earlier than requestedDate when falling back
+  method: ExchangeRateMethod;
+  via?: Currency; // Currency triangulated through
+}
+
+// FX Revaluation Types
+export type FxRevaluationKind = 'UNREALIZED' | 'REALIZED';
+
+// Open foreign-currency balance of a monetary account, as booked in both currencies
+export interface ForeignCurrencyBalance {
+  accountId: number;
+  currency: Currency;
+  foreignBalance: number; // Net debit in the foreign currency
+  baseBalance: number; // Net debit in the base currency
+}
+
+export interface FxRevaluationLine {
+  accountId: number;
+  accountCode?: string;
+  accountName?: string;
+  currency: Currency;
+  kind: FxRevaluationKind;
+  foreignBalance: number;
+  bookedBaseBalance: number;
+  rate?: number; // Closing rate for unrealized lines
+  adjustment: number; // Net debit posted to the account; the gain/loss account takes the opposite
+}
+
+export interface FxRevaluationPreview {
+  revaluationDate: string;
+  reversalDate: string;
+  baseCurrency: Currency;
+  unrealizedGainLossAccountId: number;
+  realizedGainLossAccountId: number;
+  lines: FxRevaluationLine[];
+  unrealizedGain: number; // Positive gain, negative loss
+  realizedGain: number;
+}
+
+export interface FxRevaluation {
+  id: number;
+  revaluationDate: string;
+  reversalDate: string;
+  unrealizedTransactionId?: number;
+  reversalTransactionId?: number;
+  realizedTransactionId?: number;
+  unrealizedGain: number;
+  realizedGain: number;
+  lines?: FxRevaluationLine[];
+  entityId: string;
+  createdAt: string;
+  createdBy?: string;
+}
+
+// Recurring Transaction Types
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'END_OF_MONTH' | 'CRON';
+export type RecurringRunStatus = 'PENDING' | 'DRAFT' | 'POSTED' | 'FAILED';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days/weeks/months
+  dayOfWeek?: number; // 0 (Sunday) - 6, for WEEKLY; defaults to the start date's weekday
+  dayOfMonth?: number; // 1 - 31, for MONTHLY; defaults to the start date's day
+  cronExpression?: string; // minute hour day-of-month month day-of-week, for CRON (time fields are ignored)
+  startDate: string; // ISO date (YYYY-MM-DD), inclusive
+  endDate?: string; // ISO date (YYYY-MM-DD), inclusive
+}
+
+export interface RecurringTemplate extends RecurrenceRule {
+  id: number;
+  name: string;
+  description: string;
+  reference?: string;
+  currency: Currency;
   entries: TransactionEntry[];
+  nextRunDate?: string; // Next occurrence not yet generated
+  autoPost: boolean;
+  isActive: boolean;
+  entityId: string;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+  updatedBy?: string;
+}
+
+export type RecurringTemplateInput = Omit<
+  RecurringTemplate,
+  'id' | 'nextRunDate' | 'entityId' | 'createdAt' | 'updatedAt' | 'createdBy' | 'updatedBy'
+>;
+
+export interface RecurringTemplateRun {
+  id: number;
+  templateId: number;
+  scheduledDate: string;
+  transactionId?: number;
+  status: RecurringRunStatus;
+  error?: string;
+  entityId: string;
+  createdAt: string;
+}
+
+export interface RecurringGenerationResult {
+  asOfDate: string;
+  templatesProcessed: number;
+  runs: RecurringTemplateRun[];
+  generated: number;
+  failed: number;
+}
+
+// Document-to-Transaction Types
+export type ExtractedFieldSource = 'EXTRACTED' | 'DERIVED' | 'DEFAULT' | 'USER';
+
+export interface ExtractedField<T> {
+  value?: T;
+  confidence: number; // 0-1
+  source: ExtractedFieldSource;
+}
+
+export interface ExtractedLineItem {
+  description: string;
+  amount: number;
+}
+
+export interface ExtractedDocumentFields {
+  vendor: ExtractedField<string>;
+  documentDate: ExtractedField<string>; // ISO date (YYYY-MM-DD)
+  totalAmount: ExtractedField<number>; // Gross amount including tax
+  taxAmount: ExtractedField<number>;
+  currency: ExtractedField<Currency>;
+  documentNumber: ExtractedField<string>;
+  lineItems: ExtractedLineItem[];
+}
+
+export type DocumentFieldOverrides = Partial<{
+  vendor: string;
+  documentDate: string;
+  totalAmount: number;
+  taxAmount: number;
+  currency: Currency;
+  documentNumber: string;
+}>;
+
+export type DocumentLineRole = 'EXPENSE' | 'TAX' | 'PAYABLE';
+
+export interface DocumentTransactionLine {
+  role: DocumentLineRole;
+  accountId: number;
+  accountCode: string;
+  accountName: string;
+  description: string;
+  debitAmount: number;
+  creditAmount: number;
+  confidence: number;
+}
+
+export interface DocumentTransactionReview {
+  rawDocId: number;
+  fileId: string;
+  fields: ExtractedDocumentFields;
+  lines: DocumentTransactionLine[];
+  confidence: number; // Lowest confidence among the values the draft depends on
+  requiresReview: boolean;
+  warnings: string[];
+  transactionId?: number;
+  transactionNumber?: string;
+  status?: TransactionStatus;
+}
+
+export interface TransactionAttachment {
+  id: number;
+  transactionId: number;
+  journalEntryId?: number; // Set when the document supports a single journal line
+  rawDocId: number;
+  fileId: string;
+  originalName: string;
+  mimeType: string;
+  fileSize: number;
+  documentType?: string;
+  entityId: string;
+  createdAt: string;
+  createdBy?: string;
+}
+
+// Budget Actuals Types
+export type BudgetType = 'REVENUE' | 'EXPENSE' | 'CAPITAL' | 'CASH_FLOW';
+
+export interface BudgetAccountMapping {
+  id: number;
+  categoryId?: number; // Budgets of this category
+  allocationCode?: string; // Budget allocations with this code
+  accountId: number;
+  includeSubaccounts: boolean;
+  entityId: string;
+  createdAt: string;
+  createdBy?: string;
+}
+
+export type BudgetAccountMappingInput = Pick<
+  BudgetAccountMapping,
+  'categoryId' | 'allocationCode' | 'accountId' | 'includeSubaccounts'
+>;
+
+// A budget with its period range and allocations, as needed to compute actuals
+export interface BudgetActualsScope {
+  budgetId: number;
+  name: string;
+  categoryId?: number;
+  budgetType: BudgetType;
+  plannedAmount: number;
+  revisedAmount?: number;
+  startDate: string; // ISO date (YYYY-MM-DD), inclusive
+  endDate: string; // ISO date (YYYY-MM-DD), inclusive
+  warningThreshold?: number; // Utilization percentages that raise alerts
+  criticalThreshold?: number;
+  allocations: Array<{
+    id: number;
+    categoryId?: number;
+    allocationCode?: string;
+    allocatedAmount: number;
+  }>;
+}
+
+export interface BudgetAllocationActual {
+  allocationId: number;
+  categoryId?: number;
+  allocationCode?: string;
+  allocatedAmount: number;
+  actualAmount: number;
+  accountIds: number[];
+}
+
+export interface BudgetActuals {
+  budgetId: number;
+  name: string;
+  budgetType: BudgetType;
+  startDate: string;
+  endDate: string;
+  budgetAmount: number; // Revised amount when set, otherwise planned
+  actualAmount: number; // Posted activity in each account's normal-balance direction
+  variance: number; // Actual - budget
+  variancePercent: number;
+  utilizationPercent: number; // Actual as a percentage of the budget amount
+  warningThreshold?: number;
+  criticalThreshold?: number;
+  accountIds: number[];
+  allocations: BudgetAllocationActual[];
+  refreshedAt: string;
+}
+
+// Budget Planning Types
+export type BudgetRolloverBasis = 'plan' | 'actuals' | 'trailing_average';
+export type BudgetPhasingMethod = 'even' | 'seasonal';
+
+// A calendar month, clipped to the period it was generated from
+export interface BudgetMonthRange {
+  startDate: string; // ISO date (YYYY-MM-DD), inclusive
+  endDate: string; // ISO date (YYYY-MM-DD), inclusive
+  month: number; // Calendar month, 1-12
+}
+
+export type BudgetAlertLevel = 'warning' | 'critical';
+export type BudgetAlertStatus = 'pending' | 'sent' | 'failed';
+
+// One threshold crossing. A new crossing is recorded only after utilization has dropped back below the threshold.
+export interface BudgetAlert {
+  id: number;
+  budgetId: number;
+  budgetName?: string;
+  level: BudgetAlertLevel;
+  threshold: number;
+  utilizationPercent: number;
+  actualAmount: number;
+  budgetAmount: number;
+  status: BudgetAlertStatus;
+  recipients: string[];
+  attempts: number;
+  error?: string;
+  entityId: string;
+  triggeredAt: string;
+  sentAt?: string;
+  resolvedAt?: string; // Utilization fell back below the threshold
+}
+
+export interface BudgetAlertFilters {
+  budgetId?: number;
+  level?: BudgetAlertLevel;
+  status?: BudgetAlertStatus;
+  activeOnly?: boolean;
+  limit?: number;
+}
+
+export interface BudgetActualLine extends LedgerEntry {
+  accountCode: string;
+  accountName: string;
+  amount: number; // Contribution to the actual amount
+}
+
+// Cash Flow Forecast Types
+export type CashForecastHorizon = '13w' | '12m';
+export type CashForecastSource = 'recurring' | 'budget' | 'trend' | 'adjustment';
+
+export interface CashForecastItem {
+  date: string; // ISO date (YYYY-MM-DD)
+  source: CashForecastSource;
+  sourceId?: number; // Recurring template or budget
+  description: string;
+  amount: number; // Base currency; inflows are positive, outflows negative
+}
+
+// Selects forecast items by source, template, budget and/or description text (case-insensitive)
+export interface CashForecastTarget {
+  source?: CashForecastSource;
+  templateId?: number;
+  budgetId?: number;
+  match?: string;
+}
+
+export type CashForecastAdjustment =
+  | ({ type: 'shift'; days: number } & CashForecastTarget)
+  | ({ type: 'scale'; percent: number } & CashForecastTarget)
+  | ({ type: 'exclude' } & CashForecastTarget)
+  | { type: 'add'; date: string; amount: number; description: string };
+
+// What-if changes applied to the forecast in memory; nothing is saved
+export interface CashForecastScenario {
+  name?: string;
+  adjustments: CashForecastAdjustment[];
+}
+
+export interface CashForecastOptions {
+  horizon: CashForecastHorizon;
+  asOfDate: string; // ISO date; the forecast starts on this day from the cash balance at its start
+  lookbackDays?: number; // History the trend projection is based on
+  cashAccountIds?: number[]; // Defaults to active asset accounts in the cash category
+  scenario?: CashForecastScenario;
+}
+
+export interface CashForecastBucket {
+  label: string;
+  startDate: string;
+  endDate: string; // Inclusive
+  openingBalance: number;
+  inflows: number;
+  outflows: number;
+  netChange: number;
+  closingBalance: number;
+  bySource: Record<CashForecastSource, number>;
+  items: CashForecastItem[];
+}
+
+export interface CashForecast {
+  horizon: CashForecastHorizon;
+  startDate: string;
+  endDate: string;
+  currency: Currency;
+  lookbackDays: number;
+  cashAccounts: Array<{ id: number; code: string; name: string; balance: number }>;
+  openingBalance: number;
+  closingBalance: number;
+  lowestBalance: number;
+  lowestBalanceDate: string; // End of the bucket with the lowest closing balance
+  totals: Record<CashForecastSource, number>;
+  buckets: CashForecastBucket[];
+  scenario?: CashForecastScenario;
+  warnings: string[];
+}
+
+// Comparative Statement Types
+export type ComparativeStatementType = 'balance-sheet' | 'income-statement';
+export type StatementComparison = 'months' | 'quarters' | 'ytd' | 'budget';
+export type StatementSection = 'ASSETS' | 'LIABILITIES' | 'EQUITY' | 'REVENUE' | 'EXPENSES' | 'SUMMARY';
+
+export interface StatementColumn {
+  key: string;
+  label: string;
+  basis: 'actual' | 'budget' | 'elimination';
+  startDate?: string; // Income statement columns cover startDate to endDate; balance sheet columns are balances at endDate
+  endDate: string; // ISO date (YYYY-MM-DD), inclusive
+}
+
+// Value of columnKey less the value of baseKey
+export interface StatementVarianceColumn {
+  key: string;
+  label: string;
+  columnKey: string;
+  baseKey: string;
+}
+
+export interface StatementVariance {
+  amount: number;
+  percent: number | null; // Relative to the base; null when the base is zero
+}
+
+export interface ComparativeStatementRow {
+  section: StatementSection;
+  rowType: 'account' | 'total';
+  label: string;
+  accountId?: number;
+  accountCode?: string;
+  level?: number;
+  values: Record<string, number>; // By column key
+  variances: Record<string, StatementVariance>; // By variance column key
+}
+
+export interface ComparativeStatementOptions {
+  comparison: StatementComparison;
+  asOfDate: string; // Last day of the newest column
+  periods?: number; // Number of month or quarter columns
+  startDate?: string; // Start of the actual versus budget range; defaults to the start of the year
+  fiscalYearStartMonth?: number; // 1-12; where years and quarters start
+  depth?: number; // Account levels shown; deeper accounts are collapsed into their ancestor
+  dimensions?: DimensionFilter; // Actual columns only include lines tagged with these codes
+}
+
+export interface ComparativeStatement {
+  statement: ComparativeStatementType;
+  comparison: StatementComparison | 'consolidation' | 'dimension';
+  currency: Currency;
+  columns: StatementColumn[];
+  varianceColumns: StatementVarianceColumn[];
+  rows: ComparativeStatementRow[];
+}
+
+// Consolidation Types
+export interface ConsolidationEntity {
+  id: string; // The entity_id of the entity's ledger
+  name: string;
+  currency: Currency; // Functional currency
+  parentEntityId?: string;
+  ownershipPercent: number; // Parent's direct share, 0-100
+  isActive: boolean;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+  updatedBy?: string;
+}
+
+export interface IntercompanyAccount {
+  id: number;
+  accountId: number;
+  accountCode?: string;
+  accountName?: string;
+  eliminationTag: string;
+  counterpartyEntityId?: string;
+  entityId: string;
+  createdAt: string;
+  createdBy?: string;
+}
+
+export interface ConsolidationOptions {
+  asOfDate: string; // Balance sheet date and end of the income statement period
+  startDate: string; // Start of the income statement period
+}
+
+export interface ConsolidationEntityColumn {
+  entityId: string;
+  name: string;
+  currency: Currency;
+  parentEntityId?: string;
+  ownershipPercent: number; // Direct
+  effectiveOwnershipPercent: number; // Through the chain of parents
+  closingRate: number; // Base (ledger) to presentation currency on asOfDate
+  averageRate: number; // Mean of month-end rates over the period
+}
+
+// Amounts are net debits in the presentation currency
+export interface ConsolidationWorksheetRow {
+  key: string;
+  label: string;
+  accountType: AccountType;
+  amounts: Record<string, number>; // By entity id, after translation
+  eliminations: number;
+  consolidated: number;
+}
+
+export interface ConsolidationEliminationLine {
+  entityId: string;
+  accountId?: number; // Absent on the intercompany difference line
+  accountCode?: string;
+  accountName: string;
+  rowKey: string;
+  debitAmount: number;
+  creditAmount: number;
+}
+
+export interface ConsolidationElimination {
+  eliminationTag: string;
+  lines: ConsolidationEliminationLine[];
+  difference: number; // Net debit of the tagged balances; zero when they offset exactly
+  isBalanced: boolean;
+}
+
+export interface NonControllingInterest {
+  entityId: string;
+  effectiveOwnershipPercent: number;
+  netAssets: number;
+  netIncome: number;
+  nonControllingNetAssets: number;
+  nonControllingNetIncome: number;
+}
+
+export interface ConsolidationWorksheet {
+  parentEntityId: string;
+  presentationCurrency: Currency;
+  startDate: string;
+  asOfDate: string;
+  entities: ConsolidationEntityColumn[];
+  rows: ConsolidationWorksheetRow[];
+  eliminations: ConsolidationElimination[];
+  nonControllingInterests: NonControllingInterest[];
+  totals: {
+    debits: number;
+    credits: number;
+    isBalanced: boolean;
+  };
+}
+
+export interface ConsolidatedTrialBalanceLine {
+  key: string;
+  label: string;
+  accountType: AccountType;
+  debitBalance: number;
+  creditBalance: number;
+}
+
+export interface ConsolidatedTrialBalance {
+  parentEntityId: string;
+  presentationCurrency: Currency;
+  startDate: string;
+  asOfDate: string;
+  lines: ConsolidatedTrialBalanceLine[];
+  totalDebits: number;
+  totalCredits: number;
+  isBalanced: boolean;
+}
+
+// Intercompany Transaction Types
+export type IntercompanyTransactionStatus = 'DRAFT' | 'POSTED' | 'VOID' | 'REVERSED';
+
+// The source entity is owed by the counterparty, e.g. it paid an expense on the counterparty's behalf
+export interface IntercompanyTransactionRequest {
+  counterpartyEntityId: string;
+  transactionDate: string; // ISO date (YYYY-MM-DD)
+  description: string;
+  amount: number;
+  currency: Currency;
+  sourceAccountId: number; // Credited by the source, e.g. the bank account that paid
+  counterpartyAccountId: number; // Debited by the counterparty, e.g. the expense incurred
+  dueFromAccountId?: number; // Defaults to the source's intercompany asset account for the counterparty
+  dueToAccountId?: number; // Defaults to the counterparty's intercompany liability account for the source
+}
+
+export interface IntercompanyTransaction {
+  id: number;
+  linkId: string; // Reference of both transactions
+  sourceEntityId: string;
+  sourceTransactionId: number;
+  counterpartyEntityId: string;
+  counterpartyTransactionId: number;
+  description: string;
+  transactionDate: string;
+  amount: number;
+  currency: Currency;
+  status: IntercompanyTransactionStatus;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+  updatedBy?: string;
+}
+
+export interface IntercompanyBalanceAccount {
+  entityId: string;
+  accountId: number;
+  accountCode?: string;
+  accountName?: string;
+  balance: number; // Net debit in the entity's currency
+  translatedBalance: number; // Net debit in the group currency at the closing rate
+}
+
+// Balances the two entities hold against each other; they should cancel out
+export interface IntercompanyBalancePair {
+  entityId: string;
+  counterpartyEntityId: string;
+  entityBalance: number;
+  counterpartyBalance: number;
+  difference: number;
+  isBalanced: boolean;
+  accounts: IntercompanyBalanceAccount[];
+}
+
+export interface IntercompanyReconciliation {
+  parentEntityId: string;
+  presentationCurrency: Currency;
+  asOfDate: string;
+  pairs: IntercompanyBalancePair[];
+  unbalancedCount: number;
+}
+
+// Account Lifecycle Types
+// What still points at an account; anything non-zero blocks deletion
+export interface AccountUsage {
+  accountId: number;
+  journalLineCount: number;
+  childCount: number;
+  bankRecordCount: number; // Bank statement lines, imports, import profiles and reconciliations; these block a merge too
+  referenceCount: number; // Bank records, FX revaluations, year-end closes, intercompany tags and receivables documents
+}
+
+export interface AccountMergeResult {
+  source: Account; // Left inactive; its ledger lines and their balance moved to the target
+  target: Account;
+  journalLinesMoved: number;
+  budgetMappingsMoved: number;
+  recurringTemplatesUpdated: number;
+  auditLogId: string;
+}
+
+// Chart of Accounts Template and Import Types
+// Parents are referenced by code: ids differ between entities
+export interface ChartOfAccountsTemplateAccount {
+  code: string;
+  name: string;
+  type: AccountType;
+  subtype?: string;
+  category?: string;
+  parentCode?: string;
+  normalBalance?: NormalBalance; // Only for contra accounts; defaults to the type's normal balance
+  allowTransactions?: boolean; // false for header accounts
+  isSystem?: boolean;
+  reportCategory?: string; // Defaults to the parent's
+  reportOrder?: number; // Defaults to the position in the template
+}
+
+export interface ChartOfAccountsTemplate {
+  id: string;
+  name: string;
+  description: string;
+  accounts: ChartOfAccountsTemplateAccount[];
+}
+
+export interface ChartOfAccountsTemplateSummary {
+  id: string;
+  name: string;
+  description: string;
+  accountCount: number;
+}
+
+// One row of an imported account tree
+export interface AccountImportRow extends ChartOfAccountsTemplateAccount {
+  rowNumber: number;
+  id?: number; // As exported; only used to resolve parentId within the file
+  description?: string;
+  isActive?: boolean;
+  parentId?: number; // As exported; parentCode takes precedence
+  path?: string; // As exported; recomputed from the parent on import
+  level?: number;
+}
+
+export interface AccountImportIssue {
+  rowNumber?: number;
+  code?: string;
+  field: string;
+  message: string;
+}
+
+export interface AccountImportReport {
+  dryRun: boolean;
+  isValid: boolean;
+  totalRows: number;
+  createCount: number;
+  skippedCodes: string[]; // Already in the chart; left unchanged
+  errors: AccountImportIssue[];
+  warnings: AccountImportIssue[];
+  accounts: Account[]; // Created accounts; empty on a dry run or when the import is invalid
+}
+
+// Account Hierarchy Types
+// Where an account sits in the tree; top-level accounts are level 0 and their path is their code
+export interface AccountPosition {
+  accountId: number;
+  parentId?: number;
+  path: string; // Ancestor codes joined with '/'
+  level: number;
+}
+
+export interface AccountMoveResult {
+  account: Account;
+  previousParentId?: number;
+  accountsUpdated: number; // The account and its descendants
+}
+
+export interface AccountRollUpOptions {
+  asOfDate: string;
+  depth?: number; // Levels shown: 1 is top-level accounts only; omit for the whole tree
+  dimensions?: DimensionFilter;
+}
+
+// Balances are debit-positive for assets and expenses and credit-positive otherwise
+export interface AccountRollUp {
+  accountId: number;
+  code: string;
+  name: string;
+  type: AccountType;
+  parentId?: number;
+  level: number;
+  path: string;
+  balance: number; // Postings to the account itself
+  rolledUpBalance: number; // Own balance plus every descendant's
+  childCount: number;
+  isCollapsed: boolean; // Its sub-accounts are below the requested depth and folded into it
+}
+
+export interface HierarchyTrialBalanceOptions extends AccountRollUpOptions {
+  groupBy?: DimensionType; // Repeat the lines for each code of the dimension
+}
+
+export interface HierarchyTrialBalanceLine {
+  accountId: number;
+  accountCode: string;
+  accountName: string;
+  accountType: AccountType;
+  level: number;
+  isCollapsed: boolean;
+  debitBalance: number;
+  creditBalance: number;
+  dimensionCode?: string | null; // When grouped by a dimension; null for untagged lines
+}
+
+export interface HierarchyTrialBalance {
+  asOfDate: string;
+  depth?: number;
+  groupBy?: DimensionType;
+  accounts: HierarchyTrialBalanceLine[];
+  totals: {
+    totalDebits: number;
+    totalCredits: number;
+    isBalanced: boolean;
+  };
+}
+
+// Dimension Types
+// Journal lines carry a dimension's code in departmentId, projectId or costCenterId
+export type DimensionType = 'DEPARTMENT' | 'PROJECT' | 'COST_CENTER';
+
+export interface Dimension {
+  id: number;
+  type: DimensionType;
+  code: string;
+  name: string;
+  description?: string;
+  isActive: boolean;
+  entityId: string;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+  updatedBy?: string;
+}
+
+export interface AccountDimensionRule {
+  id: number;
+  accountId: number;
+  accountCode?: string;
+  dimensionType: DimensionType;
+  entityId: string;
+  createdAt: string;
+  createdBy?: string;
+}
+
+// Only lines tagged with every given code are included
+export type DimensionFilter = Partial<Record<DimensionType, string>>;
+
+// Activity of the lines tagged with one code of the grouped dimension; null for untagged lines
+export interface DimensionActivity extends AccountActivity {
+  dimensionCode: string | null;
+}
+
+export interface DimensionStatementOptions {
+  groupBy: DimensionType;
+  asOfDate: string;
+  startDate?: string; // Income statement only; defaults to the start of the fiscal year
+  fiscalYearStartMonth?: number;
+  depth?: number;
+  dimensions?: DimensionFilter;
+}
+
+// Receivables Types
+export type SalesDocumentType = 'INVOICE' | 'CREDIT_NOTE';
+// A credit note is PAID once all of it has been applied to invoices
+export type SalesDocumentStatus = 'DRAFT' | 'ISSUED' | 'PARTIALLY_PAID' | 'PAID' | 'VOID';
+
+export interface Customer {
+  id: number;
+  code: string;
+  name: string;
+  email?: string;
+  phone?: string;
+  billingAddress?: string;
+  taxId?: string;
+  currency: Currency; // Currency of every document of the customer
+  paymentTermsDays: number;
+  receivableAccountId?: number; // Defaults to the ACCOUNTS_RECEIVABLE asset account
+  isActive: boolean;
+  entityId: string;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+  updatedBy?: string;
+}
+
+export interface SalesInvoiceLine {
+  id?: number;
+  lineNumber?: number;
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number; // quantity x unit price, net of tax
+  revenueAccountId: number;
+  departmentId?: string;
+  projectId?: string;
+  costCenterId?: string;
+}
+
+export interface SalesInvoice {
+  id: number;
+  documentNumber: string;
+  type: SalesDocumentType;
+  customerId: number;
+  customerName?: string;
+  originalInvoiceId?: number;
+  issueDate: string; // ISO date (YYYY-MM-DD)
+  dueDate: string;
+  currency: Currency;
+  exchangeRate: number; // Rate to the base currency when issued
+  subtotal: number;
+  taxAmount: number;
+  totalAmount: number;
+  amountApplied: number;
+  balance: number; // totalAmount - amountApplied
+  status: SalesDocumentStatus;
+  receivableAccountId?: number;
+  taxAccountId?: number;
+  transactionId?: number;
+  reference?: string;
+  notes?: string;
+  lines?: SalesInvoiceLine[]; // Loaded with a single invoice, not with lists
+  entityId: string;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+  updatedBy?: string;
+}
+
+export interface SalesInvoiceRequest {
+  type?: SalesDocumentType; // Defaults to INVOICE
+  customerId: number;
+  documentNumber?: string; // Generated when omitted
+  originalInvoiceId?: number; // Credit notes only; settled first when the credit note is issued
+  issueDate: string;
+  dueDate?: string; // Defaults to the issue date plus the customer's payment terms
+  currency?: Currency; // Must be the customer's currency
+  lines: Array<Omit<SalesInvoiceLine, 'id' | 'lineNumber' | 'amount'>>;
+  taxAmount?: number;
+  taxAccountId?: number; // Defaults to the OUTPUT_TAX liability account
+  reference?: string;
+  notes?: string;
+}
+
+export interface CustomerReceipt {
+  id: number;
+  receiptNumber: string;
+  customerId: number;
+  customerName?: string;
+  receiptDate: string;
+  currency: Currency;
+  exchangeRate: number;
+  amount: number;
+  amountApplied: number;
+  unappliedAmount: number; // Customer credit not yet applied to an invoice
+  depositAccountId: number;
+  receivableAccountId: number;
+  transactionId?: number;
+  reference?: string;
+  entityId: string;
+  createdAt: string;
+  updatedAt: string;
+  createdBy?: string;
+  updatedBy?: string;
+}
+
+export interface ReceivableApplicationRequest {
+  invoiceId: number;
+  amount: number;
+}
+
+export interface CustomerReceiptRequest {
+  customerId: number;
+  receiptNumber?: string; // Generated when omitted
+  receiptDate: string;
+  amount: number;
+  currency?: Currency; // Must be the customer's currency
+  depositAccountId: number; // Bank or cash account debited
+  reference?: string;
+  applications?: ReceivableApplicationRequest[]; // Anything not applied stays as an unapplied credit
+}
+
+// Part of a receipt or credit note settling an invoice
+export interface ReceivableApplication {
+  id: number;
+  invoiceId: number;
+  invoiceNumber?: string;
+  receiptId?: number;
+  creditNoteId?: number;
+  amount: number;
+  appliedDate: string;
+  entityId: string;
+  createdAt: string;
+  createdBy?: string;
+}
+
+// Days past the due date: current (not yet due), 1-30, 31-60, 61-90 and over 90
+export type AgingBucket = 'current' | 'days1To30' | 'days31To60' | 'days61To90' | 'over90';
+
+// Amounts in the base currency at each document's issue rate
+export interface ReceivablesAgingTotals extends Record<AgingBucket, number> {
+  total: number; // Open invoices
+  unappliedCredits: number; // Unapplied receipts and credit notes
+  netBalance: number; // total - unappliedCredits
+}
+
+export interface ReceivablesAgingInvoice {
+  invoiceId: number;
+  documentNumber: string;
+  issueDate: string;
+  dueDate: string;
+  daysPastDue: number;
+  bucket: AgingBucket;
+  currency: Currency;
+  balance: number; // In the invoice currency
+  baseBalance: number;
+}
+
+export interface ReceivablesAgingCustomer extends ReceivablesAgingTotals {
+  customerId: number;
+  customerCode: string;
+  customerName: string;
+  currency: Currency;
+  invoices: ReceivablesAgingInvoice[];
+}
+
+export interface ReceivablesAging {
+  entityId: string;
+  asOfDate: string;
+  currency: Currency;
+  customers: ReceivablesAgingCustomer[];
+  totals: ReceivablesAgingTotals;
+}
+
+export interface ReceivablesTurnover {
+  startDate: string;
+  endDate: string;
+  netCreditSales: number; // Invoices less credit notes issued in the period, in the base currency
+  openingReceivables: number;
+  closingReceivables: number;
+  averageReceivables: number;
+  turnover: number; // netCreditSales / averageReceivables; 0 without receivables
+  daysSalesOutstanding: number;
 }
 
 // Validation Error Types
@@ -0,0 +1,325 @@
+/**
+ * Document Transaction Review Component
+ * Shows the draft built from an OCR'd receipt or invoice with per-field confidence,
+ * lets the user correct fields before saving the draft, then posts it
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+
+type FieldKey = 'vendor' | 'documentDate' | 'totalAmount' | 'taxAmount' | 'currency' | 'documentNumber';
+
+interface ExtractedField {
+  value?: string | number;
+  confidence: number;
+  source: 'EXTRACTED' | 'DERIVED' | 'DEFAULT' | 'USER';
+}
+
+interface ReviewLine {
+  role: 'EXPENSE' | 'TAX' | 'PAYABLE';
+  accountId: number;
+  accountCode: string;
+  accountName: string;
+  description: string;
+  debitAmount: number;
+  creditAmount: number;
+  confidence: number;
+}
+
+interface Review {
+  fields: Record<FieldKey, ExtractedField>;
+  lines: ReviewLine[];
+  confidence: number;
+  requiresReview: boolean;
+  warnings: string[];
+  transactionId?: number;
+  transactionNumber?: string;
+  status?: string;
+}
+
+interface ExpenseAccount {
+  id: number;
+  code: string;
+  name: string;
+}
+
+interface DocumentTransactionReviewProps {
+  fileId?: string; // Read from the page's ?fileId= query when omitted
+  className?: string;
+}
+
+const FIELDS: Array<{ key: FieldKey; label: string; type: 'text' | 'date' | 'number' }> = [
+  { key: 'vendor', label: 'Vendor', type: 'text' },
+  { key: 'documentDate', label: 'Document date', type: 'date' },
+  { key: 'documentNumber', label: 'Document number', type: 'text' },
+  { key: 'currency', label: 'Currency', type: 'text' },
+  { key: 'totalAmount', label: 'Total (incl. tax)', type: 'number' },
+  { key: 'taxAmount', label: 'Tax', type: 'number' }
+];
+
+// Matches DocumentTransactionService.REVIEW_CONFIDENCE_THRESHOLD
+const REVIEW_CONFIDENCE_THRESHOLD = 0.8;
+
+const authHeaders = () => ({
+  'Content-Type': 'application/json',
+  'Authorization': `Bearer ${localStorage.getItem('authToken') || ''}`,
+});
+
+export function DocumentTransactionReview({ fileId: fileIdProp, className = '' }: DocumentTransactionReviewProps) {
+  const [fileId, setFileId] = useState<string | null>(fileIdProp || null);
+  const [review, setReview] = useState<Review | null>(null);
+  const [edits, setEdits] = useState<Partial<Record<FieldKey, string>>>({});
+  const [expenseAccountId, setExpenseAccountId] = useState<string>('');
+  const [expenseAccounts, setExpenseAccounts] = useState<ExpenseAccount[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [posted, setPosted] = useState(false);
+
+  useEffect(() => {
+    if (!fileIdProp) {
+      setFileId(new URLSearchParams(window.location.search).get('fileId'));
+    }
+  }, [fileIdProp]);
+
+  useEffect(() => {
+    fetch('/api/accounts?type=EXPENSE&active=true', { headers: authHeaders() })
+      .then(response => response.json() as Promise<{ accounts?: ExpenseAccount[] }>)
+      .then(data => setExpenseAccounts(data.accounts || []))
+      .catch(() => setExpenseAccounts([]));
+  }, []);
+
+  // Only the fields the user changed are sent; they come back with source USER and full confidence
+  const buildOverrides = useCallback(() => {
+    const overrides: Record<string, string | number> = {};
+    for (const [key, value] of Object.entries(edits)) {
+      if (value === undefined || value.trim() === '') continue;
+      overrides[key] = key === 'totalAmount' || key === 'taxAmount' ? Number(value) : value.trim();
+    }
+    return Object.keys(overrides).length > 0 ? overrides : undefined;
+  }, [edits]);
+
+  const requestDraft = useCallback(async (preview: boolean) => {
+    if (!fileId) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/uploads/${encodeURIComponent(fileId)}/create-transaction`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: JSON.stringify({
+          expenseAccountId: expenseAccountId ? Number(expenseAccountId) : undefined,
+          overrides: buildOverrides(),
+          preview
+        }),
+      });
+      const data: { success: boolean; data?: { review: Review }; error?: string } = await response.json();
+
+      if (!data.success || !data.data) {
+        throw new Error(data.error || 'Failed to prepare the transaction');
+      }
+      setReview(data.data.review);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to prepare the transaction');
+    } finally {
+      setLoading(false);
+    }
+  }, [fileId, expenseAccountId, buildOverrides]);
+
+  const handlePost = useCallback(async () => {
+    if (!review?.transactionId) return;
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await fetch(`/api/transactions/${review.transactionId}/post`, {
+        method: 'POST',
+        headers: authHeaders(),
+        body: '{}',
+      });
+      const data: { error?: string; message?: string } = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || data.error || 'Failed to post the transaction');
+      }
+      setPosted(true);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to post the transaction');
+    } finally {
+      setLoading(false);
+    }
+  }, [review]);
+
+  // Preview once the document is known; later previews are requested explicitly
+  useEffect(() => {
+    requestDraft(true);
+  }, [fileId]);
+
+  const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}%`;
+
+  const confidenceClass = (confidence: number) => {
+    if (confidence >= REVIEW_CONFIDENCE_THRESHOLD) return 'text-green-700 bg-green-50';
+    if (confidence >= 0.5) return 'text-yellow-700 bg-yellow-50';
+    return 'text-red-700 bg-red-50';
+  };
+
+  const formatAmount = (amount: number) => amount === 0 ? '' : amount.toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2
+  });
+
+  const saved = review?.transactionId !== undefined;
+
+  if (!fileId) {
+    return (
+      <div className={`document-transaction-review ${className}`}>
+        <Card className="p-6">
+          <p className="text-gray-600">Choose an uploaded document to review.</p>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`document-transaction-review ${className}`}>
+      <Card className="p-6">
+        <div className="space-y-6">
+          <div className="flex justify-between items-start">
+            <div>
+              <h2 className="text-2xl font-bold mb-2">Review Document Transaction</h2>
+              <p className="text-gray-600">
+                Check the values read from the document and correct any flagged fields before posting
+              </p>
+            </div>
+            {review && (
+              <span className={`text-sm font-medium px-3 py-1 rounded ${confidenceClass(review.confidence)}`}>
+                {formatConfidence(review.confidence)} confidence
+              </span>
+            )}
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              {error}
+            </div>
+          )}
+
+          {review && review.warnings.length > 0 && (
+            <div className="bg-yellow-50 border border-yellow-200 text-yellow-800 px-4 py-3 rounded space-y-1">
+              {review.warnings.map(warning => <p key={warning}>{warning}</p>)}
+            </div>
+          )}
+
+          {/* Extracted fields */}
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {FIELDS.map(field => {
+              const extracted = review?.fields[field.key];
+              return (
+                <div key={field.key}>
+                  <div className="flex justify-between items-center mb-1">
+                    <label htmlFor={`field-${field.key}`} className="text-sm font-medium text-gray-700">
+                      {field.label}
+                    </label>
+                    {extracted && (
+                      <span className={`text-xs px-2 py-0.5 rounded ${confidenceClass(extracted.confidence)}`}>
+                        {extracted.source === 'USER' ? 'Entered' : `${formatConfidence(extracted.confidence)} ${extracted.source.toLowerCase()}`}
+                      </span>
+                    )}
+                  </div>
+                  <input
+                    id={`field-${field.key}`}
+                    type={field.type}
+                    value={edits[field.key] ?? (extracted?.value !== undefined ? String(extracted.value) : '')}
+                    onChange={(e) => setEdits(current => ({ ...current, [field.key]: e.target.value }))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    disabled={loading || saved}
+                  />
+                </div>
+              );
+            })}
+
+            <div>
+              <label htmlFor="field-expense-account" className="block text-sm font-medium text-gray-700 mb-1">
+                Expense account
+              </label>
+              <select
+                id="field-expense-account"
+                value={expenseAccountId}
+                onChange={(e) => setExpenseAccountId(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                disabled={loading || saved}
+              >
+                <option value="">Suggested account</option>
+                {expenseAccounts.map(account => (
+                  <option key={account.id} value={account.id}>{account.code} - {account.name}</option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          {/* Draft lines */}
+          {review && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-gray-600">
+                  <th className="py-2">Account</th>
+                  <th className="py-2">Description</th>
+                  <th className="py-2 text-right">Debit</th>
+                  <th className="py-2 text-right">Credit</th>
+                  <th className="py-2 text-right">Confidence</th>
+                </tr>
+              </thead>
+              <tbody>
+                {review.lines.map(line => (
+                  <tr key={line.role} className="border-b">
+                    <td className="py-2">{line.accountCode} {line.accountName}</td>
+                    <td className="py-2">{line.description}</td>
+                    <td className="py-2 text-right">{formatAmount(line.debitAmount)}</td>
+                    <td className="py-2 text-right">{formatAmount(line.creditAmount)}</td>
+                    <td className="py-2 text-right">
+                      <span className={`text-xs px-2 py-0.5 rounded ${confidenceClass(line.confidence)}`}>
+                        {formatConfidence(line.confidence)}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          {/* Actions */}
+          <div className="flex justify-end gap-2">
+            {!saved && (
+              <>
+                <Button variant="outline" onClick={() => requestDraft(true)} disabled={loading}>
+                  {loading ? 'Working...' : 'Update Preview'}
+                </Button>
+                <Button onClick={() => requestDraft(false)} disabled={loading || !review}>
+                  Save Draft
+                </Button>
+              </>
+            )}
+            {saved && !posted && (
+              <>
+                <span className="self-center text-sm text-gray-600">
+                  Draft {review?.transactionNumber} saved
+                </span>
+                <Button onClick={handlePost} disabled={loading}>
+                  {loading ? 'Posting...' : 'Confirm and Post'}
+                </Button>
+              </>
+            )}
+            {posted && (
+              <span className="text-sm font-medium text-green-700">
+                Transaction {review?.transactionNumber} posted
+              </span>
+            )}
+          </div>
+        </div>
+      </Card>
+    </div>
+  );
+}
+
+export default DocumentTransactionReview;
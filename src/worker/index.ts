@@ -11,6 +11,7 @@ import { cors } from 'hono/cors'
 import { logger } from 'hono/logger'
 import { prettyJSON } from 'hono/pretty-json'
 import api from './routes/api/index'
+import { handleScheduled } from './scheduled'
 import type { AppContext } from './types'
 
 // Create Hono app
@@ -213,4 +214,8 @@ app.get('*', async (c) => {
   }
 })
 
-export default app
\ No newline at end of file
+// Worker handlers: HTTP requests and the cron trigger for recurring transactions
+export default {
+  fetch: app.fetch,
+  scheduled: handleScheduled,
+}
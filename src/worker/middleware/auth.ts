@@ -1,7 +1,8 @@
 import { createMiddleware } from 'hono/factory';
 import { verify } from 'hono/jwt';
-import type { AppContext, JwtPayload } from '../types';
+import type { AppContext, EntityVariables, JwtPayload } from '../types';
 import { createDatabase, createDatabaseService, type Session, type User } from '../../db/index.js';
+import { canAccessEntity, getUserEntityId } from '../utils/permissions';
 
 /**
  * Authentication middleware
@@ -104,4 +105,25 @@ export const requireRole = (allowedRoles: string[]) => {
 
     await next();
   });
-};
\ No newline at end of file
+};
+
+/**
+ * Entity scoping middleware
+ * Resolves ?entityId= (default: the user's entity) and rejects entities the user cannot access
+ * Requires authMiddleware to be used first
+ */
+export const entityScopeMiddleware = createMiddleware<AppContext & { Variables: EntityVariables }>(async (c, next) => {
+  const user = c.get('user');
+
+  if (!user) {
+    return c.json({ error: 'Unauthorized', message: 'Authentication required' }, 401);
+  }
+
+  const entityId = c.req.query('entityId') || getUserEntityId(user);
+  if (!canAccessEntity(user, entityId)) {
+    return c.json({ error: 'You do not have access to this entity', code: 'ENTITY_ACCESS_DENIED' }, 403);
+  }
+
+  c.set('entityId', entityId);
+  await next();
+});
@@ -1,4 +1,4 @@
-import { Hono } from 'hono'
+import { Hono, type Context } from 'hono'
 import type { D1Database } from '@cloudflare/workers-types'
 
 import { 
@@ -7,7 +7,10 @@ import {
   FINANCIAL_CONSTANTS,
   getNormalBalance,
   formatCurrency,
-  AccountingValidationError
+  AccountingValidationError,
+  AccountLifecycleService,
+  ChartOfAccountsService,
+  AccountHierarchyService
 } from '../../../lib/index.worker'
 
 // Helper function to handle error responses
@@ -23,9 +26,11 @@ function handleAccountingError(error: unknown) {
   }
   return null;
 }
-import type { AccountType, NormalBalance, Account as CoreAccount } from '../../../types/index.js'
-import { authMiddleware } from '../../middleware/auth'
+import type { AccountType, NormalBalance, Account as CoreAccount, AccountImportReport, Currency } from '../../../types/index.js'
+import { authMiddleware, requireRole } from '../../middleware/auth'
 import type { AppContext } from '../../types'
+import { canAccessEntity, getPostingContext } from '../../utils/permissions'
+import { ChartOfAccountsFileError, parseAccountsFile, renderAccountsDelimited } from '../../utils/chart-of-accounts-file'
 
 
 
@@ -51,6 +56,7 @@ interface CreateAccountRequest {
   isActive?: boolean
   isSystem?: boolean
   allowTransactions?: boolean
+  currency?: Currency
   normalBalance?: NormalBalance
   reportCategory?: string
   reportOrder?: number
@@ -102,6 +108,43 @@ function validateNormalBalance(normalBalance: string | undefined, accountType: s
   return null
 }
 
+// Accounts without a currency are kept in the base currency
+function validateAccountCurrency(currency: string | undefined): string | null {
+  if (currency !== undefined && !FINANCIAL_CONSTANTS.SUPPORTED_CURRENCIES.includes(currency as Currency)) {
+    return `Currency must be one of: ${FINANCIAL_CONSTANTS.SUPPORTED_CURRENCIES.join(', ')}`
+  }
+  return null
+}
+
+function parseAccountId(value: string): number | null {
+  const accountId = Number.parseInt(value, 10)
+  return Number.isNaN(accountId) || accountId <= 0 ? null : accountId
+}
+
+// Missing accounts are 404; accounts that are still in use or protected are 409
+function getLifecycleErrorStatus(code: string): 400 | 404 | 409 {
+  if (code === 'ACCOUNT_NOT_FOUND') return 404
+  if (['ACCOUNT_IN_USE', 'ACCOUNT_HAS_CHILDREN', 'SYSTEM_ACCOUNT', 'PERIOD_CLOSURE_VIOLATION'].includes(code)) return 409
+  return 400
+}
+
+const MAX_ACCOUNT_FILE_SIZE = 5 * 1024 * 1024
+
+// Dry runs and successful imports return the report; an invalid import writes nothing and is rejected with it
+function respondWithImportReport(c: Context<AppContext>, report: AccountImportReport) {
+  if (!report.isValid) {
+    return c.json({
+      error: `${report.errors.length} row error(s); no accounts were created`,
+      code: 'ACCOUNT_IMPORT_INVALID',
+      report
+    }, report.dryRun ? 200 : 422)
+  }
+  if (report.dryRun) {
+    return c.json({ report, message: `${report.createCount} account(s) would be created` })
+  }
+  return c.json({ report, message: `${report.createCount} account(s) created` }, 201)
+}
+
 // Helper function to create database adapter and account registry
 async function createAccountingServices(d1Database: D1Database, entityId: string = 'default'): Promise<{
   dbAdapter: DatabaseAdapter
@@ -189,6 +232,219 @@ accounts.get('/', async (c) => {
   }
 })
 
+// GET /accounts/templates - Industry charts an entity can be seeded with
+accounts.get('/templates', (c) => {
+  return c.json({ templates: ChartOfAccountsService.getTemplates() })
+})
+
+// GET /accounts/templates/:templateId - Accounts of one template
+accounts.get('/templates/:templateId', (c) => {
+  try {
+    return c.json({ template: ChartOfAccountsService.getTemplate(c.req.param('templateId')) })
+  } catch (error: unknown) {
+    const accountingError = handleAccountingError(error)
+    if (accountingError) {
+      return c.json(accountingError, 404)
+    }
+
+    return c.json({
+      error: 'Failed to fetch chart of accounts template',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'ACCOUNT_TEMPLATE_ERROR'
+    }, 500)
+  }
+})
+
+// POST /accounts/templates/:templateId/apply?entityId=&dryRun=true - Seed a chart from a template in one request
+accounts.post('/templates/:templateId/apply', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), async (c) => {
+  try {
+    const user = c.get('user')
+    const entityId = c.req.query('entityId') || 'default'
+    if (entityId !== 'default' && !canAccessEntity(user, entityId)) {
+      return c.json({ error: 'You do not have access to this entity', code: 'ENTITY_ACCESS_DENIED' }, 403)
+    }
+
+    const { dbAdapter } = await createAccountingServices(c.env.FINANCE_MANAGER_DB, entityId)
+    const report = await new ChartOfAccountsService(dbAdapter).applyTemplate(c.req.param('templateId'), {
+      dryRun: c.req.query('dryRun') === 'true',
+      createdBy: user.id
+    })
+
+    return respondWithImportReport(c, report)
+  } catch (error: unknown) {
+    const accountingError = handleAccountingError(error)
+    if (accountingError) {
+      return c.json(accountingError, accountingError.code === 'TEMPLATE_NOT_FOUND' ? 404 : 400)
+    }
+
+    console.error('Error applying chart of accounts template:', error instanceof Error ? error.message : String(error))
+    return c.json({
+      error: 'Failed to apply chart of accounts template',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'ACCOUNT_TEMPLATE_ERROR'
+    }, 500)
+  }
+})
+
+// GET /accounts/export?entityId=&format=csv|excel|xlsx|json - The account tree with parents, paths and report placement
+accounts.get('/export', async (c) => {
+  try {
+    const user = c.get('user')
+    const entityId = c.req.query('entityId') || 'default'
+    if (entityId !== 'default' && !canAccessEntity(user, entityId)) {
+      return c.json({ error: 'You do not have access to this entity', code: 'ENTITY_ACCESS_DENIED' }, 403)
+    }
+
+    const { dbAdapter } = await createAccountingServices(c.env.FINANCE_MANAGER_DB, entityId)
+    const chart = await dbAdapter.getAllAccounts()
+    const format = c.req.query('format') || 'csv'
+    const fileName = `chart-of-accounts-${entityId}`
+
+    switch (format) {
+      case 'csv':
+        return new Response(renderAccountsDelimited(chart, ','), {
+          headers: {
+            'Content-Type': 'text/csv',
+            'Content-Disposition': `attachment; filename="${fileName}.csv"`
+          }
+        })
+      case 'excel':
+      case 'xlsx':
+        // Tab-separated values, which Excel opens and the import reads back
+        return new Response(renderAccountsDelimited(chart, '\t'), {
+          headers: {
+            'Content-Type': 'application/vnd.ms-excel',
+            'Content-Disposition': `attachment; filename="${fileName}.xls"`
+          }
+        })
+      case 'json':
+        return c.json({ accounts: chart, count: chart.length, entityId })
+      default:
+        return c.json({
+          error: 'Unsupported format',
+          supportedFormats: ['csv', 'excel', 'xlsx', 'json'],
+          code: 'INVALID_FORMAT'
+        }, 400)
+    }
+  } catch (error: unknown) {
+    console.error('Error exporting accounts:', error instanceof Error ? error.message : String(error))
+    return c.json({
+      error: 'Failed to export accounts',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'ACCOUNTS_EXPORT_ERROR'
+    }, 500)
+  }
+})
+
+// POST /accounts/import - Import an account tree (multipart: file, entityId, dryRun); nothing is written unless every row is valid
+accounts.post('/import', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), async (c) => {
+  try {
+    const user = c.get('user')
+    const formData = await c.req.formData()
+    const file = formData.get('file') as File | null
+    if (!file || !file.name) {
+      return c.json({ error: 'No account file provided', code: 'VALIDATION_ERROR' }, 400)
+    }
+    if (file.size > MAX_ACCOUNT_FILE_SIZE) {
+      return c.json({
+        error: 'Account file too large',
+        maxSize: `${MAX_ACCOUNT_FILE_SIZE / (1024 * 1024)}MB`,
+        code: 'VALIDATION_ERROR'
+      }, 413)
+    }
+
+    const entityId = (formData.get('entityId') as string | null) || 'default'
+    if (entityId !== 'default' && !canAccessEntity(user, entityId)) {
+      return c.json({ error: 'You do not have access to this entity', code: 'ENTITY_ACCESS_DENIED' }, 403)
+    }
+
+    const rows = parseAccountsFile(file.name, await file.text())
+    const { dbAdapter } = await createAccountingServices(c.env.FINANCE_MANAGER_DB, entityId)
+    const report = await new ChartOfAccountsService(dbAdapter).import(rows, {
+      dryRun: formData.get('dryRun') === 'true',
+      createdBy: user.id
+    })
+
+    return respondWithImportReport(c, report)
+  } catch (error: unknown) {
+    if (error instanceof ChartOfAccountsFileError) {
+      return c.json({
+        error: error.message,
+        lineNumber: error.lineNumber,
+        code: 'ACCOUNT_FILE_PARSE_ERROR'
+      }, 400)
+    }
+    const accountingError = handleAccountingError(error)
+    if (accountingError) {
+      return c.json(accountingError, 400)
+    }
+
+    console.error('Error importing accounts:', error instanceof Error ? error.message : String(error))
+    return c.json({
+      error: 'Failed to import accounts',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'ACCOUNTS_IMPORT_ERROR'
+    }, 500)
+  }
+})
+
+// GET /accounts/hierarchy?entityId=&asOfDate=&depth= - The account tree with own and rolled-up balances
+accounts.get('/hierarchy', async (c) => {
+  try {
+    const user = c.get('user')
+    const entityId = c.req.query('entityId') || 'default'
+    if (entityId !== 'default' && !canAccessEntity(user, entityId)) {
+      return c.json({ error: 'You do not have access to this entity', code: 'ENTITY_ACCESS_DENIED' }, 403)
+    }
+
+    const asOfDate = c.req.query('asOfDate') || new Date().toISOString().split('T')[0]
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(asOfDate)) {
+      return c.json({ error: 'asOfDate must be a YYYY-MM-DD date', code: 'VALIDATION_ERROR' }, 400)
+    }
+    const depth = c.req.query('depth') ? Number(c.req.query('depth')) : undefined
+
+    const { dbAdapter } = await createAccountingServices(c.env.FINANCE_MANAGER_DB, entityId)
+    const tree = await new AccountHierarchyService(dbAdapter).getRollUpBalances({ asOfDate, depth })
+
+    return c.json({ accounts: tree, count: tree.length, asOfDate, depth, entityId })
+  } catch (error: unknown) {
+    const accountingError = handleAccountingError(error)
+    if (accountingError) {
+      return c.json(accountingError, 400)
+    }
+
+    console.error('Error fetching account hierarchy:', error instanceof Error ? error.message : String(error))
+    return c.json({
+      error: 'Failed to fetch account hierarchy',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'ACCOUNT_HIERARCHY_ERROR'
+    }, 500)
+  }
+})
+
+// POST /accounts/hierarchy/rebuild?entityId= - Recompute every path and level from the parent links
+accounts.post('/hierarchy/rebuild', requireRole(['ADMIN', 'SUPER_ADMIN']), async (c) => {
+  try {
+    const user = c.get('user')
+    const entityId = c.req.query('entityId') || 'default'
+    if (entityId !== 'default' && !canAccessEntity(user, entityId)) {
+      return c.json({ error: 'You do not have access to this entity', code: 'ENTITY_ACCESS_DENIED' }, 403)
+    }
+
+    const { dbAdapter } = await createAccountingServices(c.env.FINANCE_MANAGER_DB, entityId)
+    const accountsUpdated = await new AccountHierarchyService(dbAdapter).rebuild(user.id)
+
+    return c.json({ accountsUpdated, message: `${accountsUpdated} account(s) corrected` })
+  } catch (error: unknown) {
+    console.error('Error rebuilding account hierarchy:', error instanceof Error ? error.message : String(error))
+    return c.json({
+      error: 'Failed to rebuild account hierarchy',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'ACCOUNT_HIERARCHY_ERROR'
+    }, 500)
+  }
+})
+
 // GET /accounts/:id - Get account by ID with enhanced information
 accounts.get('/:id', async (c) => {
   try {
@@ -287,6 +543,11 @@ accounts.post('/', async (c) => {
       return c.json({ error: normalBalanceError, code: 'VALIDATION_ERROR' }, 400)
     }
     
+    const currencyError = validateAccountCurrency(body.currency)
+    if (currencyError) {
+      return c.json({ error: currencyError, code: 'VALIDATION_ERROR' }, 400)
+    }
+    
     const { dbAdapter, accountRegistry } = await createAccountingServices(c.env.FINANCE_MANAGER_DB)
     
     // Check if account code already exists using account registry
@@ -301,8 +562,8 @@ accounts.post('/', async (c) => {
     }
     
     // Validate parent account if provided
+    const parentAccount = body.parentId ? await dbAdapter.getAccount(body.parentId) : null
     if (body.parentId) {
-      const parentAccount = await dbAdapter.getAccount(body.parentId)
       if (!parentAccount) {
         return c.json({
           error: 'Parent account not found',
@@ -311,15 +572,16 @@ accounts.post('/', async (c) => {
         }, 400)
       }
       
-      // Validate parent account type compatibility
-      if (!['ASSET', 'LIABILITY', 'EQUITY'].includes(parentAccount.type)) {
+      // Balances roll up into the parent, so it must be of the same type
+      if (parentAccount.type !== body.type) {
         return c.json({
           error: 'Invalid parent account type',
-          message: `Parent account must be ASSET, LIABILITY, or EQUITY, but found ${parentAccount.type}`,
+          message: `Parent account ${parentAccount.code} is ${parentAccount.type}; a ${body.type} account cannot sit under it`,
           code: 'INVALID_PARENT_TYPE'
         }, 400)
       }
     }
+    const position = AccountHierarchyService.getChildPosition(parentAccount || undefined, body.code)
     
     // Create account using core logic
     const accountData: Omit<CoreAccount, 'id' | 'createdAt' | 'updatedAt'> = {
@@ -330,11 +592,12 @@ accounts.post('/', async (c) => {
       subtype: body.subtype || '',
       category: body.category || '',
       parentId: body.parentId || undefined,
-      level: 0, // Will be calculated by database adapter
-      path: body.code, // Will be calculated by database adapter
+      level: position.level,
+      path: position.path,
       isActive: body.isActive !== false,
       isSystem: body.isSystem || false,
       allowTransactions: body.allowTransactions !== false,
+      currency: body.currency,
       normalBalance: (body.normalBalance as NormalBalance) || getNormalBalance(body.type as AccountType),
       currentBalance: 0,
       reportCategory: body.reportCategory || body.type,
@@ -408,6 +671,11 @@ accounts.put('/:id', async (c) => {
       return c.json({ error: typeError, code: 'VALIDATION_ERROR' }, 400);
     }
 
+    const currencyError = validateAccountCurrency(body.currency);
+    if (currencyError) {
+      return c.json({ error: currencyError, code: 'VALIDATION_ERROR' }, 400);
+    }
+
     // Check if account exists
     const existingAccount = await dbAdapter.getAccount(accountId);
     if (!existingAccount) {
@@ -428,9 +696,9 @@ accounts.put('/:id', async (c) => {
       type: body.type as AccountType,
       subtype: body.subtype,
       category: body.category,
-      parentId: body.parentId,
       isActive: body.isActive,
       allowTransactions: body.allowTransactions,
+      currency: body.currency,
       reportCategory: body.reportCategory,
       reportOrder: body.reportOrder,
     };
@@ -441,6 +709,11 @@ accounts.put('/:id', async (c) => {
       delete updateData.type;
     }
 
+    // Re-parenting also moves the paths and levels of every sub-account
+    if (body.parentId !== undefined && (body.parentId || null) !== (existingAccount.parentId || null)) {
+      await new AccountHierarchyService(dbAdapter).move(accountId, body.parentId || null, c.get('user')?.id);
+    }
+
     const updatedAccount = await dbAdapter.updateAccount(accountId, updateData);
 
     return c.json({
@@ -451,7 +724,7 @@ accounts.put('/:id', async (c) => {
     console.error('Error updating account:', error instanceof Error ? error.message : String(error));
     const accountingError = handleAccountingError(error);
     if (accountingError) {
-      return c.json(accountingError, 400);
+      return c.json(accountingError, getLifecycleErrorStatus(accountingError.code));
     }
 
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -466,6 +739,184 @@ accounts.put('/:id', async (c) => {
   }
 });
 
-// DELETE /accounts/:id - Delete an account
+// DELETE /accounts/:id - Delete an unused account
+accounts.delete('/:id', requireRole(['ADMIN', 'SUPER_ADMIN']), async (c) => {
+  try {
+    const accountId = parseAccountId(c.req.param('id'))
+    if (!accountId) {
+      return c.json({
+        error: 'Invalid account ID',
+        message: 'Account ID must be a positive integer',
+        code: 'INVALID_ACCOUNT_ID'
+      }, 400)
+    }
+
+    const { dbAdapter } = await createAccountingServices(c.env.FINANCE_MANAGER_DB)
+    const account = await new AccountLifecycleService(dbAdapter).delete(accountId)
+
+    return c.json({
+      account,
+      message: `Account ${account.code} deleted successfully`
+    })
+  } catch (error: unknown) {
+    const accountingError = handleAccountingError(error)
+    if (accountingError) {
+      return c.json({ ...accountingError, message: accountingError.error }, getLifecycleErrorStatus(accountingError.code))
+    }
+
+    console.error('Error deleting account:', error instanceof Error ? error.message : String(error))
+    return c.json({
+      error: 'Failed to delete account',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'ACCOUNT_DELETE_ERROR'
+    }, 500)
+  }
+})
+
+// GET /accounts/:id/usage - Journal lines, sub-accounts and other records that keep an account from being deleted
+accounts.get('/:id/usage', async (c) => {
+  try {
+    const accountId = parseAccountId(c.req.param('id'))
+    if (!accountId) {
+      return c.json({ error: 'Invalid account ID', code: 'INVALID_ACCOUNT_ID' }, 400)
+    }
+
+    const { dbAdapter } = await createAccountingServices(c.env.FINANCE_MANAGER_DB)
+    const usage = await new AccountLifecycleService(dbAdapter).getUsage(accountId)
+
+    return c.json({
+      usage,
+      canDelete: usage.journalLineCount === 0 && usage.childCount === 0 && usage.referenceCount === 0
+    })
+  } catch (error: unknown) {
+    const accountingError = handleAccountingError(error)
+    if (accountingError) {
+      return c.json(accountingError, getLifecycleErrorStatus(accountingError.code))
+    }
+
+    console.error('Error fetching account usage:', error instanceof Error ? error.message : String(error))
+    return c.json({
+      error: 'Failed to fetch account usage',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'ACCOUNT_USAGE_ERROR'
+    }, 500)
+  }
+})
+
+// POST /accounts/:id/deactivate and /accounts/:id/activate - Stop or resume new postings
+accounts.post('/:id/:action{deactivate|activate}', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), async (c) => {
+  const action = c.req.param('action')
+  try {
+    const user = c.get('user')
+    const accountId = parseAccountId(c.req.param('id'))
+    if (!accountId) {
+      return c.json({ error: 'Invalid account ID', code: 'INVALID_ACCOUNT_ID' }, 400)
+    }
+
+    const { dbAdapter } = await createAccountingServices(c.env.FINANCE_MANAGER_DB)
+    const service = new AccountLifecycleService(dbAdapter)
+    const account = action === 'deactivate'
+      ? await service.deactivate(accountId, user.id)
+      : await service.activate(accountId, user.id)
+
+    return c.json({
+      account,
+      message: `Account ${account.code} ${action}d successfully`
+    })
+  } catch (error: unknown) {
+    const accountingError = handleAccountingError(error)
+    if (accountingError) {
+      return c.json(accountingError, getLifecycleErrorStatus(accountingError.code))
+    }
+
+    console.error(`Error trying to ${action} account:`, error instanceof Error ? error.message : String(error))
+    return c.json({
+      error: `Failed to ${action} account`,
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'ACCOUNT_UPDATE_ERROR'
+    }, 500)
+  }
+})
+
+// POST /accounts/:id/move - Re-parent an account under parentId, or make it top-level with null
+accounts.post('/:id/move', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), async (c) => {
+  try {
+    const user = c.get('user')
+    const accountId = parseAccountId(c.req.param('id'))
+    if (!accountId) {
+      return c.json({ error: 'Invalid account ID', code: 'INVALID_ACCOUNT_ID' }, 400)
+    }
+
+    const body = await c.req.json<{ parentId?: number | null }>()
+    const parentId = body.parentId === null ? null : parseAccountId(String(body.parentId ?? ''))
+    if (parentId === null && body.parentId !== null) {
+      return c.json({
+        error: 'parentId is required and must be a positive integer, or null for a top-level account',
+        code: 'VALIDATION_ERROR'
+      }, 400)
+    }
+
+    const { dbAdapter } = await createAccountingServices(c.env.FINANCE_MANAGER_DB)
+    const result = await new AccountHierarchyService(dbAdapter).move(accountId, parentId, user.id)
+
+    return c.json({
+      ...result,
+      message: `Account ${result.account.code} moved to ${result.account.path}`
+    })
+  } catch (error: unknown) {
+    const accountingError = handleAccountingError(error)
+    if (accountingError) {
+      return c.json(accountingError, getLifecycleErrorStatus(accountingError.code))
+    }
+
+    console.error('Error moving account:', error instanceof Error ? error.message : String(error))
+    return c.json({
+      error: 'Failed to move account',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'ACCOUNT_MOVE_ERROR'
+    }, 500)
+  }
+})
+
+// POST /accounts/:id/merge - Move every journal line of this account to targetAccountId and retire it.
+// Lines in a soft-closed period need PERIOD_OVERRIDE; a hard-closed period must be reopened first
+accounts.post('/:id/merge', requireRole(['ADMIN', 'SUPER_ADMIN']), async (c) => {
+  try {
+    const user = c.get('user')
+    const accountId = parseAccountId(c.req.param('id'))
+    if (!accountId) {
+      return c.json({ error: 'Invalid account ID', code: 'INVALID_ACCOUNT_ID' }, 400)
+    }
+
+    const body = await c.req.json<{ targetAccountId?: number }>()
+    const targetAccountId = parseAccountId(String(body.targetAccountId ?? ''))
+    if (!targetAccountId) {
+      return c.json({
+        error: 'targetAccountId is required and must be a positive integer',
+        code: 'VALIDATION_ERROR'
+      }, 400)
+    }
+
+    const { dbAdapter } = await createAccountingServices(c.env.FINANCE_MANAGER_DB)
+    const result = await new AccountLifecycleService(dbAdapter).merge(accountId, targetAccountId, getPostingContext(user))
+
+    return c.json({
+      ...result,
+      message: `Account ${result.source.code} merged into ${result.target.code}`
+    })
+  } catch (error: unknown) {
+    const accountingError = handleAccountingError(error)
+    if (accountingError) {
+      return c.json(accountingError, getLifecycleErrorStatus(accountingError.code))
+    }
+
+    console.error('Error merging accounts:', error instanceof Error ? error.message : String(error))
+    return c.json({
+      error: 'Failed to merge accounts',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'ACCOUNT_MERGE_ERROR'
+    }, 500)
+  }
+})
 
 export default accounts
\ No newline at end of file
@@ -0,0 +1,84 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import transactionsRouter from './transactions';
+import approvalsRouter from './approvals';
+import { createTestAccount, createTestAdapter } from '../../../../tests/helpers/ledger';
+import { TEST_ENV, authHeaders, createTestUser } from '../../../../tests/helpers/auth';
+
+describe('approval routes', () => {
+  let cashId: number;
+  let revenueId: number;
+
+  beforeEach(async () => {
+    await createTestUser({ id: 'maker', role: 'USER', entityId: 'entity-1' });
+    await createTestUser({ id: 'checker', role: 'ACCOUNTANT', entityId: 'entity-1' });
+    await createTestUser({ id: 'outsider', role: 'ACCOUNTANT', entityId: 'entity-2' });
+
+    const adapter = createTestAdapter('entity-1');
+    cashId = (await createTestAccount(adapter, '1000', 'ASSET')).id;
+    revenueId = (await createTestAccount(adapter, '4000', 'REVENUE')).id;
+    await adapter.replaceApprovalRules([
+      { stepNumber: 1, name: 'Review', minAmount: 0, approverRoles: ['ACCOUNTANT'], isActive: true }
+    ]);
+  });
+
+  async function submitAsMaker(): Promise<number> {
+    const created = await transactionsRouter.request('/', {
+      method: 'POST',
+      headers: await authHeaders('maker'),
+      body: JSON.stringify({
+        description: 'Consulting income',
+        transactionDate: '2024-03-15',
+        entries: [
+          { accountId: cashId, debitAmount: 250 },
+          { accountId: revenueId, creditAmount: 250 }
+        ]
+      })
+    }, TEST_ENV);
+    expect(created.status).toBe(201);
+    const { transaction } = await created.json() as { transaction: { id: number } };
+
+    const submitted = await transactionsRouter.request(`/${transaction.id}/submit`, {
+      method: 'POST',
+      headers: await authHeaders('maker'),
+      body: '{}'
+    }, TEST_ENV);
+    expect(submitted.status).toBe(200);
+
+    return transaction.id;
+  }
+
+  it('lets a second user in the entity approve the submitted transaction', async () => {
+    const transactionId = await submitAsMaker();
+
+    const queue = await approvalsRouter.request('/queue', { headers: await authHeaders('checker') }, TEST_ENV);
+    const { queue: items } = await queue.json() as { queue: Array<{ transaction: { id: number } }> };
+    expect(items.map(item => item.transaction.id)).toEqual([transactionId]);
+
+    const approved = await transactionsRouter.request(`/${transactionId}/approve`, {
+      method: 'POST',
+      headers: await authHeaders('checker'),
+      body: JSON.stringify({ comments: 'Checked against the contract' })
+    }, TEST_ENV);
+    expect(approved.status).toBe(200);
+    const { transaction } = await approved.json() as { transaction: { status: string } };
+    expect(transaction.status).toBe('APPROVED');
+  });
+
+  it('keeps other entities out of the transaction', async () => {
+    const transactionId = await submitAsMaker();
+
+    const ownBooks = await transactionsRouter.request(`/${transactionId}/approve`, {
+      method: 'POST',
+      headers: await authHeaders('outsider'),
+      body: '{}'
+    }, TEST_ENV);
+    expect(ownBooks.status).toBe(404);
+
+    const otherBooks = await transactionsRouter.request(`/${transactionId}/approve?entityId=entity-1`, {
+      method: 'POST',
+      headers: await authHeaders('outsider'),
+      body: '{}'
+    }, TEST_ENV);
+    expect(otherBooks.status).toBe(403);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Approval Workflow API
+ * Approval queue and per-entity approval rules for maker-checker sign-off
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { zValidator } from '@hono/zod-validator';
+import {
+  DatabaseAdapter,
+  DatabaseJournalEntryManager,
+  FINANCIAL_CONSTANTS,
+  formatCurrency,
+} from '../../../lib/index.worker.js';
+import type { Currency } from '../../../types/index.js';
+import type { AppContext, EntityVariables } from '../../types';
+import { authMiddleware, entityScopeMiddleware, requireRole } from '../../middleware/auth';
+
+const approvalsRouter = new Hono<AppContext & { Variables: EntityVariables }>();
+
+approvalsRouter.use('*', authMiddleware);
+approvalsRouter.use('*', entityScopeMiddleware);
+
+const USER_ROLES = ['USER', 'ACCOUNTANT', 'ADMIN', 'VIEWER', 'SUPER_ADMIN'] as const;
+
+// Approval rule schemas
+const approvalRuleSchema = z.object({
+  stepNumber: z.number().int().positive(),
+  name: z.string().min(1, 'Step name is required').max(100),
+  minAmount: z.number().min(0),
+  approverRoles: z.array(z.enum(USER_ROLES)).min(1, 'At least one approver role is required'),
+  isActive: z.boolean().default(true)
+});
+
+const replaceRulesSchema = z.object({
+  rules: z.array(approvalRuleSchema)
+}).refine(
+  data => new Set(data.rules.map(rule => rule.stepNumber)).size === data.rules.length,
+  { message: 'Step numbers must be unique', path: ['rules'] }
+);
+
+// GET /approvals/queue - Pending transactions the current user may sign off
+approvalsRouter.get('/queue', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) return c.json({ error: 'Unauthorized' }, 401);
+
+    const dbAdapter = new DatabaseAdapter({
+      database: c.env.FINANCE_MANAGER_DB,
+      entityId: c.get('entityId'),
+      defaultCurrency: FINANCIAL_CONSTANTS.DEFAULT_CURRENCY as Currency,
+    });
+    const journalManager = new DatabaseJournalEntryManager(dbAdapter);
+
+    const queue = await journalManager.getApprovalQueue({ id: user.id, role: user.role });
+
+    const items = queue.map(({ transaction, step, history }) => ({
+      transaction: {
+        ...transaction,
+        formattedAmount: formatCurrency(transaction.totalAmount || 0, FINANCIAL_CONSTANTS.DEFAULT_CURRENCY)
+      },
+      nextStep: step,
+      history
+    }));
+
+    return c.json({
+      queue: items,
+      count: items.length
+    });
+  } catch (error: unknown) {
+    console.error('Failed to fetch approval queue:', error);
+    return c.json({
+      error: 'Failed to fetch approval queue',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'APPROVAL_QUEUE_ERROR'
+    }, 500);
+  }
+});
+
+// GET /approvals/rules - Approval steps configured for the entity
+approvalsRouter.get('/rules', async (c) => {
+  try {
+    const user = c.get('user');
+    if (!user) return c.json({ error: 'Unauthorized' }, 401);
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const rules = await dbAdapter.getApprovalRules();
+
+    return c.json({
+      rules,
+      count: rules.length
+    });
+  } catch (error: unknown) {
+    console.error('Failed to fetch approval rules:', error);
+    return c.json({
+      error: 'Failed to fetch approval rules',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'APPROVAL_RULES_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// PUT /approvals/rules - Replace the entity's approval steps
+approvalsRouter.put('/rules', requireRole(['ADMIN', 'SUPER_ADMIN']), zValidator('json', replaceRulesSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const { rules } = c.req.valid('json');
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const saved = await dbAdapter.replaceApprovalRules(rules, user.id);
+
+    return c.json({
+      rules: saved,
+      count: saved.length,
+      message: 'Approval rules updated successfully'
+    });
+  } catch (error: unknown) {
+    console.error('Failed to update approval rules:', error);
+    return c.json({
+      error: 'Failed to update approval rules',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'APPROVAL_RULES_UPDATE_ERROR'
+    }, 500);
+  }
+});
+
+export default approvalsRouter;
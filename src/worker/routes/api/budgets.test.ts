@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import budgetsRouter from './budgets';
+import { TEST_ENV, authHeaders, createTestUser } from '../../../../tests/helpers/auth';
+
+describe('budget revision control', () => {
+  let periodId: number;
+
+  beforeEach(async () => {
+    await createTestUser({ id: 'planner', role: 'USER', entityId: 'entity-1' });
+    await createTestUser({ id: 'controller', role: 'ACCOUNTANT', entityId: 'entity-1' });
+
+    const created = await budgetsRouter.request('/periods', {
+      method: 'POST',
+      headers: await authHeaders('controller'),
+      body: JSON.stringify({ name: 'FY2024', type: 'yearly', startDate: '2024-01-01', endDate: '2024-12-31', fiscalYear: 2024 })
+    }, TEST_ENV);
+    expect(created.status).toBe(201);
+    periodId = ((await created.json()) as { period: { id: number } }).period.id;
+  });
+
+  async function request(userId: string, path: string, method: string, body: unknown): Promise<Response> {
+    return await budgetsRouter.request(path, {
+      method,
+      headers: await authHeaders(userId),
+      body: JSON.stringify(body)
+    }, TEST_ENV);
+  }
+
+  async function createDraftBudget(): Promise<number> {
+    const created = await request('planner', '/', 'POST', { name: 'Marketing', periodId, totalAmount: 1000 });
+    expect(created.status).toBe(201);
+    return ((await created.json()) as { budget: { id: number } }).budget.id;
+  }
+
+  it('leaves approving a budget to a reviewer', async () => {
+    const budgetId = await createDraftBudget();
+
+    expect((await request('planner', '/', 'POST', { name: 'Travel', periodId, totalAmount: 500, status: 'approved' })).status).toBe(403);
+    expect((await request('planner', `/${budgetId}`, 'PUT', { name: 'Marketing', periodId, totalAmount: 1000, status: 'approved' })).status).toBe(403);
+
+    const approved = await request('controller', `/${budgetId}`, 'PUT', { name: 'Marketing', periodId, totalAmount: 1000, status: 'approved' });
+    expect(approved.status).toBe(200);
+
+    // Reopening it to edit the amount directly is a reviewer's decision too
+    expect((await request('planner', `/${budgetId}`, 'PUT', { name: 'Marketing', periodId, totalAmount: 1000, status: 'draft' })).status).toBe(403);
+  });
+
+  it('changes the amount of an approved budget only through an approved revision', async () => {
+    const budgetId = await createDraftBudget();
+    await request('controller', `/${budgetId}`, 'PUT', { name: 'Marketing', periodId, totalAmount: 1000, status: 'approved' });
+
+    const direct = await request('controller', `/${budgetId}`, 'PUT', { name: 'Marketing', periodId, totalAmount: 1500 });
+    expect(direct.status).toBe(409);
+
+    const requested = await request('planner', `/${budgetId}/revisions`, 'POST', { amount: 1500, reason: 'Campaign extension' });
+    expect(requested.status).toBe(201);
+    const { revision } = await requested.json() as { revision: { id: number } };
+
+    expect((await request('planner', `/${budgetId}/revisions/${revision.id}/approve`, 'POST', {})).status).toBe(403);
+    expect((await request('controller', `/${budgetId}/revisions/${revision.id}/approve`, 'POST', {})).status).toBe(200);
+
+    const budget = await budgetsRouter.request(`/${budgetId}`, { headers: await authHeaders('planner') }, TEST_ENV);
+    expect(await budget.json()).toMatchObject({ budget: { budget: { plannedAmount: 1000, revisedAmount: 1500 } } });
+  });
+
+  it('keeps the revisions of a budget to users of its entity', async () => {
+    await createTestUser({ id: 'other-planner', role: 'USER', entityId: 'entity-2' });
+    await createTestUser({ id: 'other-controller', role: 'ACCOUNTANT', entityId: 'entity-2' });
+    const budgetId = await createDraftBudget();
+    await request('controller', `/${budgetId}`, 'PUT', { name: 'Marketing', periodId, totalAmount: 1000, status: 'approved' });
+    const requested = await request('planner', `/${budgetId}/revisions`, 'POST', { amount: 1500, reason: 'Campaign extension' });
+    const { revision } = await requested.json() as { revision: { id: number } };
+
+    const history = await budgetsRouter.request(`/${budgetId}/revisions`, { headers: await authHeaders('other-planner') }, TEST_ENV);
+    expect(history.status).toBe(404);
+    expect((await request('other-planner', `/${budgetId}/revisions`, 'POST', { amount: 2000, reason: 'Not ours' })).status).toBe(404);
+    expect((await request('other-controller', `/${budgetId}/revisions/${revision.id}/approve`, 'POST', {})).status).toBe(404);
+
+    const diff = await budgetsRouter.request('/revisions/diff', { headers: await authHeaders('other-planner') }, TEST_ENV);
+    expect(await diff.json()).toMatchObject({ budgets: [], totals: { originalAmount: 0, revisedAmount: 0 } });
+    const ownDiff = await budgetsRouter.request('/revisions/diff', { headers: await authHeaders('planner') }, TEST_ENV);
+    expect(await ownDiff.json()).toMatchObject({ budgets: [{ originalAmount: 1000, pendingRevision: { newAmount: 1500 } }] });
+  });
+});
+
+describe('budget rollover and phasing', () => {
+  beforeEach(async () => {
+    await createTestUser({ id: 'controller', role: 'ACCOUNTANT', entityId: 'entity-1' });
+  });
+
+  async function request(path: string, method = 'GET', body?: unknown): Promise<Response> {
+    return await budgetsRouter.request(path, {
+      method,
+      headers: await authHeaders('controller'),
+      body: body === undefined ? undefined : JSON.stringify(body)
+    }, TEST_ENV);
+  }
+
+  async function createPeriod(name: string, type: string, startDate: string, endDate: string): Promise<number> {
+    const created = await request('/periods', 'POST', { name, type, startDate, endDate, fiscalYear: Number(startDate.slice(0, 4)) });
+    expect(created.status).toBe(201);
+    return ((await created.json()) as { period: { id: number } }).period.id;
+  }
+
+  async function createBudget(periodId: number, totalAmount: number): Promise<void> {
+    expect((await request('/', 'POST', { name: 'Rent', periodId, totalAmount })).status).toBe(201);
+  }
+
+  async function monthlyPeriods(): Promise<Array<{ id: number; startDate: string }>> {
+    return ((await (await request('/periods?type=monthly')).json()) as { periods: Array<{ id: number; startDate: string }> }).periods;
+  }
+
+  it('rolls the plan into the next period with the uplift', async () => {
+    const source = await createPeriod('FY2024', 'yearly', '2024-01-01', '2024-12-31');
+    const target = await createPeriod('FY2025', 'yearly', '2025-01-01', '2025-12-31');
+    await createBudget(source, 1000);
+
+    const response = await request(`/periods/${target}/rollover`, 'POST', { sourcePeriodId: source, upliftPercent: 10 });
+
+    expect(response.status).toBe(201);
+    const { budgets } = await response.json() as { budgets: Array<{ budgetPeriodId: number; plannedAmount: number; status: string }> };
+    expect(budgets).toMatchObject([{ budgetPeriodId: target, plannedAmount: 1100, status: 'draft' }]);
+  });
+
+  it('phases an annual budget into twelve monthly periods', async () => {
+    const annual = await createPeriod('FY2024', 'yearly', '2024-01-01', '2024-12-31');
+    await createBudget(annual, 1000);
+
+    const response = await request(`/periods/${annual}/phase`, 'POST', { method: 'even' });
+
+    expect(response.status).toBe(201);
+    const { periods } = await response.json() as { periods: Array<{ budgets: Array<{ plannedAmount: number }> }> };
+    const amounts = periods.map(period => period.budgets[0].plannedAmount);
+    expect(amounts).toHaveLength(12);
+    expect(amounts[0]).toBe(83.33);
+    expect(amounts.reduce((sum, amount) => sum + amount, 0)).toBeCloseTo(1000, 2);
+
+    expect((await request(`/periods/${annual}/phase`, 'POST', { method: 'even' })).status).toBe(409);
+    expect(await monthlyPeriods()).toHaveLength(12);
+  });
+
+  it('creates no monthly periods when a later month cannot be phased', async () => {
+    const annual = await createPeriod('FY2024', 'yearly', '2024-01-01', '2024-12-31');
+    await createBudget(annual, 1200);
+    await createPeriod('Mid-June to mid-July', 'monthly', '2024-06-15', '2024-07-14');
+
+    const overlapping = await request(`/periods/${annual}/phase`, 'POST', { method: 'even' });
+    expect(overlapping.status).toBe(409);
+
+    const badWeights = await request(`/periods/${annual}/phase`, 'POST', { method: 'seasonal', weights: [1, 2, 3] });
+    expect(badWeights.status).toBe(400);
+
+    expect((await monthlyPeriods()).map(period => period.startDate)).toEqual(['2024-06-15']);
+  });
+});
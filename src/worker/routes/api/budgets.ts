@@ -4,21 +4,35 @@
  */
 
 import { Hono } from 'hono'
-import { eq, and, gte, lte, desc, asc, sum, count } from 'drizzle-orm'
+import { eq, and, gte, lte, desc, asc, sum, count, sql } from 'drizzle-orm'
 import { budgetPeriods, budgets, budgetRevisions, budgetAllocations, categories, createDatabase } from '../../../db/index.js'
-import type { InferInsertModel } from 'drizzle-orm'
-import { authMiddleware } from '../../middleware/auth'
-import type { AppContext } from '../../types'
+import type { InferInsertModel, InferSelectModel } from 'drizzle-orm'
+import { authMiddleware, entityScopeMiddleware, requireRole } from '../../middleware/auth'
+import type { AppContext, EntityVariables } from '../../types'
+import { AccountingValidationError, BudgetActualsService, BudgetAlertService, BudgetPlanner, DatabaseAdapter } from '../../../lib/index.worker.js'
+import type { BudgetAlertFilters, BudgetPhasingMethod, BudgetRolloverBasis } from '../../../types/index.js'
+import { deliverBudgetAlerts } from '../../utils/budget-alerts'
 
 // Create budgets router
-const budgetsRouter = new Hono<AppContext>()
+const budgetsRouter = new Hono<AppContext & { Variables: EntityVariables }>()
 
 // Apply authentication middleware to all routes
 budgetsRouter.use('*', authMiddleware)
+budgetsRouter.use('*', entityScopeMiddleware)
 
 // Validation schemas
+const rolloverBases: BudgetRolloverBasis[] = ['plan', 'actuals', 'trailing_average']
+const phasingMethods: BudgetPhasingMethod[] = ['even', 'seasonal']
+const alertLevels = ['warning', 'critical'] as const
+const alertStatuses = ['pending', 'sent', 'failed'] as const
 const periodTypes = ['monthly', 'quarterly', 'yearly'] as const
-const budgetStatuses = ['draft', 'active', 'locked', 'archived'] as const
+const budgetStatuses = ['draft', 'approved', 'active', 'locked', 'archived'] as const
+
+// Amount changes to budgets in these statuses need an approved revision
+const revisionControlledStatuses: string[] = ['approved', 'active']
+
+// Roles that review revisions, and move budgets into or out of the revision-controlled statuses
+const budgetApproverRoles = ['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']
 
 interface CreateBudgetPeriodRequest {
   name: string
@@ -47,6 +61,28 @@ interface CreateBudgetRequest {
 
 interface UpdateBudgetRequest extends Partial<CreateBudgetRequest> {
   id: number
+  revisionReason?: string
+}
+
+interface RolloverRequest {
+  sourcePeriodId: number
+  basis?: BudgetRolloverBasis
+  trailingPeriods?: number // Periods averaged for trailing_average, ending with the source period
+  upliftPercent?: number
+  categoryUplifts?: Record<string, number> // Uplift percentage per category ID, overriding upliftPercent
+  includeAllocations?: boolean
+}
+
+interface PhaseRequest {
+  method: BudgetPhasingMethod
+  weights?: number[] // One weight per month for seasonal phasing
+  categoryWeights?: Record<string, number[]> // Seasonal weights per category ID, overriding weights
+}
+
+interface CreateRevisionRequest {
+  amount: number
+  reason: string
+  description?: string
 }
 
 interface CreateAllocationRequest {
@@ -55,11 +91,19 @@ interface CreateAllocationRequest {
   allocatedAmount: number
   allocatedPercent?: number
   allocationType?: string
+  allocationCode?: string
   description?: string
   priority?: number
   constraints?: object
 }
 
+interface CreateAccountMappingRequest {
+  categoryId?: number
+  allocationCode?: string
+  accountId: number
+  includeSubaccounts?: boolean
+}
+
 // Validation functions
 function validateBudgetPeriodData(data: CreateBudgetPeriodRequest): string | null {
   if (!data.name || typeof data.name !== 'string' || data.name.trim().length === 0) {
@@ -112,6 +156,158 @@ function validateBudgetData(data: CreateBudgetRequest): string | null {
   return null
 }
 
+type Budget = InferSelectModel<typeof budgets>
+type BudgetRevision = InferSelectModel<typeof budgetRevisions>
+
+// Amount the budget currently works against
+function getEffectiveAmount(budget: Budget): number {
+  return budget.revisedAmount ?? budget.plannedAmount
+}
+
+// Record a revision from the budget's effective amount to newAmount with the next revision number
+async function createBudgetRevision(
+  db: ReturnType<typeof createDatabase>,
+  budget: Budget,
+  newAmount: number,
+  details: Pick<InferInsertModel<typeof budgetRevisions>, 'reason' | 'description' | 'status' | 'approvedBy' | 'approvedAt' | 'createdBy'>
+): Promise<BudgetRevision> {
+  const previousAmount = getEffectiveAmount(budget)
+  const changeAmount = newAmount - previousAmount
+  const changePercent = previousAmount > 0 ? (changeAmount / previousAmount) * 100 : 0
+  
+  // Calculate the next revision number
+  const latestRevision = await db.select({ revisionNumber: budgetRevisions.revisionNumber })
+    .from(budgetRevisions)
+    .where(eq(budgetRevisions.budgetId, budget.id))
+    .orderBy(desc(budgetRevisions.revisionNumber))
+    .limit(1)
+  
+  const nextRevisionNumber = latestRevision.length > 0 ? latestRevision[0].revisionNumber + 1 : 1
+  
+  const result = await db.insert(budgetRevisions)
+    .values({
+      budgetId: budget.id,
+      revisionNumber: nextRevisionNumber,
+      previousAmount,
+      newAmount,
+      changeAmount,
+      changePercent,
+      ...details
+    })
+    .returning()
+  
+  return result[0]
+}
+
+// Original (planned) versus revised amount, with the revisions in between
+function buildRevisionDiff(budget: Budget, revisions: BudgetRevision[]) {
+  const revisedAmount = getEffectiveAmount(budget)
+  const changeAmount = revisedAmount - budget.plannedAmount
+  
+  return {
+    budgetId: budget.id,
+    name: budget.name,
+    originalAmount: budget.plannedAmount,
+    revisedAmount,
+    changeAmount,
+    changePercent: budget.plannedAmount > 0 ? (changeAmount / budget.plannedAmount) * 100 : 0,
+    approvedRevisions: revisions.filter(revision => revision.status === 'approved').length,
+    pendingRevision: revisions.find(revision => revision.status === 'pending') || null
+  }
+}
+
+type BudgetPeriod = InferSelectModel<typeof budgetPeriods>
+type BudgetAllocation = InferSelectModel<typeof budgetAllocations>
+
+// Key matching a budget line across periods
+function getBudgetLineKey(budget: Budget): string {
+  return `${budget.categoryId ?? ''}:${budget.name.trim().toLowerCase()}`
+}
+
+// Draft copy of a budget line in another period
+function cloneBudgetValues(budget: Budget, budgetPeriodId: number, amount: number, createdBy: string): InferInsertModel<typeof budgets> {
+  return {
+    budgetPeriodId,
+    categoryId: budget.categoryId,
+    name: budget.name,
+    description: budget.description,
+    plannedAmount: amount,
+    budgetType: budget.budgetType,
+    allocationMethod: budget.allocationMethod,
+    status: 'draft',
+    warningThreshold: budget.warningThreshold,
+    criticalThreshold: budget.criticalThreshold,
+    tags: budget.tags,
+    notes: budget.notes,
+    entityId: budget.entityId,
+    createdBy
+  }
+}
+
+// Copies of a budget's allocations scaled from its source amount to the new amount
+function cloneAllocationValues(
+  allocations: BudgetAllocation[],
+  budgetId: number,
+  sourceAmount: number,
+  amount: number,
+  createdBy: string
+): InferInsertModel<typeof budgetAllocations>[] {
+  return allocations.map(allocation => ({
+    budgetId,
+    categoryId: allocation.categoryId,
+    name: allocation.name,
+    description: allocation.description,
+    priority: allocation.priority,
+    constraints: allocation.constraints,
+    allocationType: allocation.allocationType,
+    allocationCode: allocation.allocationCode,
+    allocatedAmount: sourceAmount > 0
+      ? Math.round((allocation.allocatedAmount / sourceAmount) * amount * 100) / 100
+      : Math.round((allocation.allocatedPercent / 100) * amount * 100) / 100,
+    allocatedPercent: allocation.allocatedPercent,
+    createdBy
+  }))
+}
+
+// Insert budget copies with their allocations, one row per statement to stay within D1's bound parameter limit.
+// The copies are removed again if their allocations fail.
+async function insertBudgetCopies(
+  db: ReturnType<typeof createDatabase>,
+  copies: Array<{ values: InferInsertModel<typeof budgets>; allocations: (budgetId: number) => InferInsertModel<typeof budgetAllocations>[] }>
+): Promise<Array<Budget & { allocations: BudgetAllocation[] }>> {
+  if (copies.length === 0) return []
+  
+  const [firstBudget, ...otherBudgets] = copies.map(copy => db.insert(budgets).values(copy.values).returning())
+  const created = (await db.batch([firstBudget, ...otherBudgets])).map(rows => rows[0])
+  
+  const allocationValues = created.flatMap((budget, index) => copies[index].allocations(budget.id))
+  let allocations: BudgetAllocation[] = []
+  
+  try {
+    if (allocationValues.length > 0) {
+      const [firstAllocation, ...otherAllocations] = allocationValues.map(values => db.insert(budgetAllocations).values(values).returning())
+      allocations = (await db.batch([firstAllocation, ...otherAllocations])).map(rows => rows[0])
+    }
+  } catch (error) {
+    const [firstDelete, ...otherDeletes] = created.map(budget => db.delete(budgets).where(eq(budgets.id, budget.id)))
+    await db.batch([firstDelete, ...otherDeletes])
+    throw error
+  }
+  
+  return created.map(budget => ({
+    ...budget,
+    allocations: allocations.filter(allocation => allocation.budgetId === budget.id)
+  }))
+}
+
+// Recompute actuals against the new budget amount and alert on thresholds it now crosses
+async function refreshBudgetMonitoring(env: AppContext['Bindings'], entityId: string, budgetId: number) {
+  const dbAdapter = new DatabaseAdapter({ database: env.FINANCE_MANAGER_DB, entityId })
+  const actuals = await new BudgetActualsService(dbAdapter).refresh({ budgetId })
+  await new BudgetAlertService(dbAdapter).evaluate(actuals)
+  await deliverBudgetAlerts(env, dbAdapter)
+}
+
 // GET /api/budgets/periods - List budget periods
 budgetsRouter.get('/periods', async (c) => {
   try {
@@ -208,6 +404,299 @@ budgetsRouter.post('/periods', async (c) => {
   }
 })
 
+// POST /api/budgets/periods/:id/rollover - Copy another period's budgets and allocations into this period
+budgetsRouter.post('/periods/:id/rollover', async (c) => {
+  try {
+    const targetPeriodId = parseInt(c.req.param('id'))
+    if (isNaN(targetPeriodId)) {
+      return c.json({ error: 'Invalid period ID' }, 400)
+    }
+    
+    const body = await c.req.json() as RolloverRequest
+    const basis = body.basis || 'plan'
+    
+    if (!body.sourcePeriodId || typeof body.sourcePeriodId !== 'number' || body.sourcePeriodId === targetPeriodId) {
+      return c.json({ error: 'A source period other than the target period is required' }, 400)
+    }
+    
+    if (!rolloverBases.includes(basis)) {
+      return c.json({ error: `Basis must be one of: ${rolloverBases.join(', ')}` }, 400)
+    }
+    
+    const trailingPeriods = body.trailingPeriods ?? 3
+    if (!Number.isInteger(trailingPeriods) || trailingPeriods < 1 || trailingPeriods > 10) {
+      return c.json({ error: 'Trailing periods must be between 1 and 10' }, 400)
+    }
+    
+    const uplifts = [body.upliftPercent ?? 0, ...Object.values(body.categoryUplifts || {})]
+    if (uplifts.some(uplift => typeof uplift !== 'number' || !Number.isFinite(uplift) || uplift <= -100)) {
+      return c.json({ error: 'Uplift percentages must be numbers above -100' }, 400)
+    }
+    
+    const db = createDatabase(c.env.FINANCE_MANAGER_DB)
+    const user = c.get('user')
+    
+    const [targetPeriod] = await db.select().from(budgetPeriods).where(eq(budgetPeriods.id, targetPeriodId))
+    const [sourcePeriod] = await db.select().from(budgetPeriods).where(eq(budgetPeriods.id, body.sourcePeriodId))
+    
+    if (!targetPeriod || !sourcePeriod) {
+      return c.json({ error: 'Budget period not found' }, 404)
+    }
+    
+    const existingTarget = await db.select({ id: budgets.id })
+      .from(budgets)
+      .where(and(eq(budgets.budgetPeriodId, targetPeriodId), eq(budgets.entityId, c.get('entityId'))))
+      .limit(1)
+    
+    if (existingTarget.length > 0) {
+      return c.json({ error: 'Target period already has budgets' }, 409)
+    }
+    
+    // Periods whose actuals feed the new amounts, most recent first
+    let basisPeriods: BudgetPeriod[] = [sourcePeriod]
+    if (basis === 'trailing_average') {
+      basisPeriods = await db.select()
+        .from(budgetPeriods)
+        .where(and(
+          eq(budgetPeriods.periodType, sourcePeriod.periodType),
+          lte(budgetPeriods.endDate, sourcePeriod.endDate)
+        ))
+        .orderBy(desc(budgetPeriods.endDate))
+        .limit(trailingPeriods)
+    }
+    
+    if (basis !== 'plan') {
+      const actualsService = new BudgetActualsService(new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') }))
+      for (const period of basisPeriods) {
+        await actualsService.refresh({ periodId: period.id })
+      }
+    }
+    
+    const sourceBudgets = await db.select()
+      .from(budgets)
+      .where(and(eq(budgets.budgetPeriodId, sourcePeriod.id), eq(budgets.entityId, c.get('entityId'))))
+      .orderBy(asc(budgets.id))
+    
+    if (sourceBudgets.length === 0) {
+      return c.json({ error: 'Source period has no budgets to roll over' }, 400)
+    }
+    
+    // Actual amounts per budget line in each basis period
+    const actualsByLine = new Map<string, number[]>()
+    if (basis === 'trailing_average') {
+      for (const period of basisPeriods) {
+        const periodBudgets = period.id === sourcePeriod.id
+          ? sourceBudgets
+          : await db.select()
+            .from(budgets)
+            .where(and(eq(budgets.budgetPeriodId, period.id), eq(budgets.entityId, c.get('entityId'))))
+        
+        for (const budget of periodBudgets) {
+          const key = getBudgetLineKey(budget)
+          actualsByLine.set(key, [...(actualsByLine.get(key) || []), budget.actualAmount])
+        }
+      }
+    }
+    
+    const sourceAllocations = body.includeAllocations === false
+      ? []
+      : await db.select()
+        .from(budgetAllocations)
+        .where(and(
+          eq(budgetAllocations.isActive, true),
+          sql`${budgetAllocations.budgetId} in (select ${budgets.id} from ${budgets} where ${budgets.budgetPeriodId} = ${sourcePeriod.id})`
+        ))
+    
+    const copies = sourceBudgets.map(budget => {
+      const baseAmount = basis === 'plan'
+        ? getEffectiveAmount(budget)
+        : basis === 'actuals'
+          ? budget.actualAmount
+          : BudgetPlanner.average(actualsByLine.get(getBudgetLineKey(budget)) || [])
+      const uplift = (budget.categoryId !== null && body.categoryUplifts?.[String(budget.categoryId)] !== undefined)
+        ? body.categoryUplifts[String(budget.categoryId)]
+        : body.upliftPercent ?? 0
+      const amount = Math.max(BudgetPlanner.applyUplift(baseAmount, uplift), 0)
+      
+      return {
+        values: cloneBudgetValues({ ...budget, entityId: c.get('entityId') }, targetPeriodId, amount, user.id),
+        allocations: (budgetId: number) => cloneAllocationValues(
+          sourceAllocations.filter(allocation => allocation.budgetId === budget.id),
+          budgetId,
+          getEffectiveAmount(budget),
+          amount,
+          user.id
+        )
+      }
+    })
+    
+    const created = await insertBudgetCopies(db, copies)
+    
+    return c.json({ 
+      message: `Rolled over ${created.length} budget(s) from ${sourcePeriod.name} to ${targetPeriod.name}`,
+      basis,
+      basisPeriods: basisPeriods.map(period => ({ id: period.id, name: period.name })),
+      budgets: created
+    }, 201)
+  } catch (error: unknown) {
+    console.error('Error rolling over budgets:', error)
+    return c.json({ 
+      error: 'Failed to roll over budgets', 
+      message: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500)
+  }
+})
+
+// POST /api/budgets/periods/:id/phase - Split an annual period's budgets into monthly periods
+budgetsRouter.post('/periods/:id/phase', async (c) => {
+  try {
+    const periodId = parseInt(c.req.param('id'))
+    if (isNaN(periodId)) {
+      return c.json({ error: 'Invalid period ID' }, 400)
+    }
+    
+    const body = await c.req.json() as PhaseRequest
+    
+    if (!phasingMethods.includes(body.method)) {
+      return c.json({ error: `Phasing method must be one of: ${phasingMethods.join(', ')}` }, 400)
+    }
+    
+    const db = createDatabase(c.env.FINANCE_MANAGER_DB)
+    const user = c.get('user')
+    
+    const [period] = await db.select().from(budgetPeriods).where(eq(budgetPeriods.id, periodId))
+    
+    if (!period) {
+      return c.json({ error: 'Budget period not found' }, 404)
+    }
+    
+    if (period.periodType === 'monthly') {
+      return c.json({ error: 'Monthly periods cannot be phased further' }, 400)
+    }
+    
+    const annualBudgets = await db.select()
+      .from(budgets)
+      .where(and(eq(budgets.budgetPeriodId, periodId), eq(budgets.entityId, c.get('entityId'))))
+      .orderBy(asc(budgets.id))
+    
+    if (annualBudgets.length === 0) {
+      return c.json({ error: 'Period has no budgets to phase' }, 400)
+    }
+    
+    const months = BudgetPlanner.getMonthRanges(period.startDate.slice(0, 10), period.endDate.slice(0, 10))
+    
+    // Phase every budget first so invalid weights are rejected before anything is written
+    const phased = new Map<number, number[]>()
+    try {
+      for (const budget of annualBudgets) {
+        const weights = (budget.categoryId !== null && body.categoryWeights?.[String(budget.categoryId)]) || body.weights
+        phased.set(budget.id, BudgetPlanner.phase(getEffectiveAmount(budget), body.method, months.length, weights))
+      }
+    } catch (error) {
+      if (error instanceof AccountingValidationError) {
+        return c.json({ error: error.message, code: error.code }, 400)
+      }
+      throw error
+    }
+    
+    // Reuse monthly periods that match exactly; partial overlaps are ambiguous
+    const existingMonthly = await db.select()
+      .from(budgetPeriods)
+      .where(and(
+        eq(budgetPeriods.periodType, 'monthly'),
+        gte(budgetPeriods.endDate, months[0].startDate),
+        lte(budgetPeriods.startDate, months[months.length - 1].endDate)
+      ))
+    
+    // Check every month before creating any period, then create the missing ones together
+    const matched: Array<BudgetPeriod | null> = []
+    const missing: InferInsertModel<typeof budgetPeriods>[] = []
+    for (const [index, month] of months.entries()) {
+      const match = existingMonthly.find(existing =>
+        existing.startDate.slice(0, 10) === month.startDate && existing.endDate.slice(0, 10) === month.endDate)
+      const overlaps = existingMonthly.some(existing =>
+        existing !== match && existing.endDate.slice(0, 10) >= month.startDate && existing.startDate.slice(0, 10) <= month.endDate)
+      
+      if (overlaps) {
+        return c.json({ error: `An existing monthly period overlaps ${month.startDate} to ${month.endDate}` }, 409)
+      }
+      
+      if (match) {
+        const phasedAlready = await db.select({ id: budgets.id })
+          .from(budgets)
+          .where(and(eq(budgets.budgetPeriodId, match.id), eq(budgets.entityId, c.get('entityId'))))
+          .limit(1)
+        
+        if (phasedAlready.length > 0) {
+          return c.json({ error: `Monthly period ${match.name} already has budgets` }, 409)
+        }
+        
+        matched.push(match)
+        continue
+      }
+      
+      matched.push(null)
+      missing.push({
+        name: new Date(`${month.startDate}T00:00:00Z`).toLocaleString('en-US', { month: 'long', year: 'numeric', timeZone: 'UTC' }),
+        description: `Phased from ${period.name}`,
+        periodType: 'monthly',
+        startDate: month.startDate,
+        endDate: month.endDate,
+        fiscalYear: period.fiscalYear,
+        fiscalQuarter: Math.floor(index / 3) + 1,
+        fiscalMonth: index + 1,
+        isActive: period.isActive,
+        createdBy: user.id
+      })
+    }
+    
+    const createdPeriods: BudgetPeriod[] = []
+    if (missing.length > 0) {
+      const [firstPeriod, ...otherPeriods] = missing.map(values => db.insert(budgetPeriods).values(values).returning())
+      createdPeriods.push(...(await db.batch([firstPeriod, ...otherPeriods])).map(rows => rows[0]))
+    }
+    const monthlyPeriods = matched.map(match => match ?? createdPeriods.shift() as BudgetPeriod)
+    
+    const allocations = await db.select()
+      .from(budgetAllocations)
+      .where(and(
+        eq(budgetAllocations.isActive, true),
+        sql`${budgetAllocations.budgetId} in (select ${budgets.id} from ${budgets} where ${budgets.budgetPeriodId} = ${periodId})`
+      ))
+    
+    const copies = monthlyPeriods.flatMap((monthlyPeriod, index) => annualBudgets.map(budget => {
+      const amount = (phased.get(budget.id) as number[])[index]
+      return {
+        values: cloneBudgetValues({ ...budget, entityId: c.get('entityId') }, monthlyPeriod.id, amount, user.id),
+        allocations: (budgetId: number) => cloneAllocationValues(
+          allocations.filter(allocation => allocation.budgetId === budget.id),
+          budgetId,
+          getEffectiveAmount(budget),
+          amount,
+          user.id
+        )
+      }
+    }))
+    
+    const created = await insertBudgetCopies(db, copies)
+    
+    return c.json({ 
+      message: `Phased ${annualBudgets.length} budget(s) into ${monthlyPeriods.length} monthly period(s)`,
+      method: body.method,
+      periods: monthlyPeriods.map(monthlyPeriod => ({
+        ...monthlyPeriod,
+        budgets: created.filter(budget => budget.budgetPeriodId === monthlyPeriod.id)
+      }))
+    }, 201)
+  } catch (error: unknown) {
+    console.error('Error phasing budgets:', error)
+    return c.json({ 
+      error: 'Failed to phase budgets', 
+      message: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500)
+  }
+})
+
 // GET /api/budgets - List budgets
 budgetsRouter.get('/', async (c) => {
   try {
@@ -282,6 +771,220 @@ budgetsRouter.get('/', async (c) => {
   }
 })
 
+// GET /api/budgets/account-mappings - Accounts behind budget categories and allocation codes
+budgetsRouter.get('/account-mappings', async (c) => {
+  try {
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') })
+    const mappings = await dbAdapter.getBudgetAccountMappings()
+    
+    return c.json({ mappings })
+  } catch (error: unknown) {
+    console.error('Error fetching budget account mappings:', error)
+    return c.json({ 
+      error: 'Failed to fetch budget account mappings', 
+      message: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500)
+  }
+})
+
+// POST /api/budgets/account-mappings - Map an account to a category or allocation code
+budgetsRouter.post('/account-mappings', async (c) => {
+  try {
+    const body = await c.req.json() as CreateAccountMappingRequest
+    
+    if (!body.accountId || typeof body.accountId !== 'number') {
+      return c.json({ error: 'Valid account ID is required' }, 400)
+    }
+    
+    const user = c.get('user')
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') })
+    
+    if (body.categoryId !== undefined) {
+      const db = createDatabase(c.env.FINANCE_MANAGER_DB)
+      const category = await db.select()
+        .from(categories)
+        .where(eq(categories.id, body.categoryId))
+      
+      if (category.length === 0) {
+        return c.json({ error: 'Category not found' }, 400)
+      }
+    }
+    
+    const mapping = await new BudgetActualsService(dbAdapter).createMapping({
+      categoryId: body.categoryId,
+      allocationCode: body.allocationCode,
+      accountId: body.accountId,
+      includeSubaccounts: body.includeSubaccounts !== false
+    }, user.id)
+    
+    return c.json({ 
+      message: 'Budget account mapping created successfully',
+      mapping
+    }, 201)
+  } catch (error: unknown) {
+    if (error instanceof AccountingValidationError) {
+      return c.json({ error: error.message, code: error.code }, 400)
+    }
+    
+    console.error('Error creating budget account mapping:', error)
+    return c.json({ 
+      error: 'Failed to create budget account mapping', 
+      message: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500)
+  }
+})
+
+// DELETE /api/budgets/account-mappings/:mappingId - Remove an account mapping
+budgetsRouter.delete('/account-mappings/:mappingId', async (c) => {
+  try {
+    const mappingId = parseInt(c.req.param('mappingId'))
+    if (isNaN(mappingId)) {
+      return c.json({ error: 'Invalid mapping ID' }, 400)
+    }
+    
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') })
+    
+    if (!await dbAdapter.deleteBudgetAccountMapping(mappingId)) {
+      return c.json({ error: 'Budget account mapping not found' }, 404)
+    }
+    
+    return c.json({ 
+      message: 'Budget account mapping deleted successfully'
+    })
+  } catch (error: unknown) {
+    console.error('Error deleting budget account mapping:', error)
+    return c.json({ 
+      error: 'Failed to delete budget account mapping', 
+      message: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500)
+  }
+})
+
+// POST /api/budgets/actuals/refresh - Recompute actuals from posted journal entries
+budgetsRouter.post('/actuals/refresh', async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({})) as { periodId?: number }
+    
+    if (body.periodId !== undefined && typeof body.periodId !== 'number') {
+      return c.json({ error: 'Valid period ID is required' }, 400)
+    }
+    
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') })
+    const actuals = await new BudgetActualsService(dbAdapter).refresh({ periodId: body.periodId })
+    const alerts = await new BudgetAlertService(dbAdapter).evaluate(actuals)
+    const delivery = await deliverBudgetAlerts(c.env, dbAdapter)
+    
+    return c.json({ 
+      message: `Actuals refreshed for ${actuals.length} budget(s)`,
+      actuals,
+      alerts,
+      delivery
+    })
+  } catch (error: unknown) {
+    console.error('Error refreshing budget actuals:', error)
+    return c.json({ 
+      error: 'Failed to refresh budget actuals', 
+      message: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500)
+  }
+})
+
+// GET /api/budgets/alerts - Threshold alert history (?budgetId, level, status, active=true, limit)
+budgetsRouter.get('/alerts', async (c) => {
+  try {
+    const { budgetId, level, status, active, limit } = c.req.query()
+    
+    const filters: BudgetAlertFilters = { activeOnly: active === 'true' }
+    
+    if (budgetId) {
+      const id = parseInt(budgetId)
+      if (isNaN(id)) {
+        return c.json({ error: 'Invalid budget ID' }, 400)
+      }
+      filters.budgetId = id
+    }
+    
+    if (level) {
+      if (!alertLevels.includes(level as typeof alertLevels[number])) {
+        return c.json({ error: `Alert level must be one of: ${alertLevels.join(', ')}` }, 400)
+      }
+      filters.level = level as typeof alertLevels[number]
+    }
+    
+    if (status) {
+      if (!alertStatuses.includes(status as typeof alertStatuses[number])) {
+        return c.json({ error: `Alert status must be one of: ${alertStatuses.join(', ')}` }, 400)
+      }
+      filters.status = status as typeof alertStatuses[number]
+    }
+    
+    if (limit) {
+      const parsed = parseInt(limit)
+      if (!isNaN(parsed)) {
+        filters.limit = Math.min(Math.max(parsed, 1), 500)
+      }
+    }
+    
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') })
+    const alerts = await dbAdapter.getBudgetAlerts(filters)
+    
+    return c.json({ alerts, count: alerts.length })
+  } catch (error: unknown) {
+    console.error('Error fetching budget alerts:', error)
+    return c.json({ 
+      error: 'Failed to fetch budget alerts', 
+      message: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500)
+  }
+})
+
+// GET /api/budgets/revisions/diff - Original versus revised amounts for every budget (?periodId=)
+budgetsRouter.get('/revisions/diff', async (c) => {
+  try {
+    const { periodId } = c.req.query()
+    
+    const db = createDatabase(c.env.FINANCE_MANAGER_DB)
+    
+    const conditions = [eq(budgets.entityId, c.get('entityId'))]
+    
+    if (periodId) {
+      const id = parseInt(periodId)
+      if (!isNaN(id)) {
+        conditions.push(eq(budgets.budgetPeriodId, id))
+      }
+    }
+    
+    const budgetRows = await db.select().from(budgets).where(and(...conditions)).orderBy(asc(budgets.name))
+    
+    // Revisions of the same budgets
+    const revisionRows = (await db.select({ revision: budgetRevisions })
+      .from(budgetRevisions)
+      .innerJoin(budgets, eq(budgetRevisions.budgetId, budgets.id))
+      .where(and(...conditions))
+      .orderBy(asc(budgetRevisions.revisionNumber)))
+      .map(row => row.revision)
+    
+    const diff = budgetRows.map(budget => buildRevisionDiff(
+      budget,
+      revisionRows.filter(revision => revision.budgetId === budget.id)
+    ))
+    
+    return c.json({ 
+      budgets: diff,
+      totals: {
+        originalAmount: diff.reduce((total, item) => total + item.originalAmount, 0),
+        revisedAmount: diff.reduce((total, item) => total + item.revisedAmount, 0)
+      }
+    })
+  } catch (error: unknown) {
+    console.error('Error fetching budget revision diff:', error)
+    return c.json({ 
+      error: 'Failed to fetch budget revision diff', 
+      message: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500)
+  }
+})
+
 // GET /api/budgets/:id - Get specific budget
 budgetsRouter.get('/:id', async (c) => {
   try {
@@ -355,6 +1058,13 @@ budgetsRouter.post('/', async (c) => {
     const db = createDatabase(c.env.FINANCE_MANAGER_DB)
     const user = c.get('user')
     
+    if (body.status && revisionControlledStatuses.includes(body.status) && !budgetApproverRoles.includes(user.role)) {
+      return c.json({ 
+        error: 'Forbidden', 
+        message: `Creating ${body.status} budgets requires one of: ${budgetApproverRoles.join(', ')}` 
+      }, 403)
+    }
+    
     // Verify period exists
     const period = await db.select()
       .from(budgetPeriods)
@@ -385,7 +1095,8 @@ budgetsRouter.post('/', async (c) => {
       status: body.status || 'draft',
       createdBy: user.id,
       tags: body.tags ? JSON.stringify(body.tags) : null,
-      notes: body.notes || null
+      notes: body.notes || null,
+      entityId: c.get('entityId')
     }
     
     const result = await db.insert(budgets)
@@ -442,38 +1153,40 @@ budgetsRouter.put('/:id', async (c) => {
       return c.json({ error: 'Cannot modify locked budget' }, 400)
     }
     
-    // Create revision if significant changes
-    const hasSignificantChanges = (
+    // Approved budgets only change amount through an approved revision
+    const requiresRevision = revisionControlledStatuses.includes(existingBudget.status)
+    
+    if (requiresRevision && body.totalAmount !== undefined && body.totalAmount !== getEffectiveAmount(existingBudget)) {
+      return c.json({ 
+        error: `Budget is ${existingBudget.status}; request the amount change through POST /api/budgets/${id}/revisions` 
+      }, 409)
+    }
+    
+    // Approving a budget, or taking it out of revision control, is a reviewer's decision
+    const statusChanged = body.status !== undefined && body.status !== existingBudget.status
+    if (statusChanged && (requiresRevision || revisionControlledStatuses.includes(body.status!))
+      && !budgetApproverRoles.includes(user.role)) {
+      return c.json({ 
+        error: 'Forbidden', 
+        message: `Changing the status of ${revisionControlledStatuses.join(' or ')} budgets requires one of: ${budgetApproverRoles.join(', ')}` 
+      }, 403)
+    }
+    
+    // Record significant changes to budgets that are not under revision control, applied straight away
+    const hasSignificantChanges = !requiresRevision && (
       (body.totalAmount !== undefined && body.totalAmount !== existingBudget.plannedAmount) ||
-      (body.status !== undefined && body.status !== existingBudget.status)
+      statusChanged
     )
     
     if (hasSignificantChanges) {
-      const previousAmount = existingBudget.plannedAmount
-      const newAmount = body.totalAmount || existingBudget.plannedAmount
-      const changeAmount = newAmount - previousAmount
-      const changePercent = previousAmount > 0 ? (changeAmount / previousAmount) * 100 : 0
-      
-      // Calculate the next revision number
-      const latestRevision = await db.select({ revisionNumber: budgetRevisions.revisionNumber })
-        .from(budgetRevisions)
-        .where(eq(budgetRevisions.budgetId, id))
-        .orderBy(desc(budgetRevisions.revisionNumber))
-        .limit(1)
-      
-      const nextRevisionNumber = latestRevision.length > 0 ? latestRevision[0].revisionNumber + 1 : 1
-      
-      await db.insert(budgetRevisions)
-        .values({
-          budgetId: id,
-          revisionNumber: nextRevisionNumber,
-          previousAmount,
-          newAmount,
-          changeAmount,
-          changePercent,
-          reason: 'Budget update',
-          createdBy: user.id
-        })
+      const now = new Date().toISOString()
+      await createBudgetRevision(db, existingBudget, body.totalAmount ?? existingBudget.plannedAmount, {
+        reason: body.revisionReason?.trim() || 'Budget update',
+        status: 'approved',
+        approvedBy: user.id,
+        approvedAt: now,
+        createdBy: user.id
+      })
     }
     
     // Prepare update data
@@ -483,7 +1196,7 @@ budgetsRouter.put('/:id', async (c) => {
     
     if (body.name !== undefined) updateData.name = body.name.trim()
     if (body.description !== undefined) updateData.description = body.description?.trim() || null
-    if (body.totalAmount !== undefined) updateData.plannedAmount = body.totalAmount
+    if (body.totalAmount !== undefined && !requiresRevision) updateData.plannedAmount = body.totalAmount
     if (body.currency !== undefined) updateData.currency = body.currency
     if (body.status !== undefined) updateData.status = body.status
     if (body.approvalRequired !== undefined) updateData.approvalRequired = body.approvalRequired
@@ -558,6 +1271,197 @@ budgetsRouter.delete('/:id', async (c) => {
   }
 })
 
+// GET /api/budgets/:id/revisions - Revision history with the original versus revised diff
+budgetsRouter.get('/:id/revisions', async (c) => {
+  try {
+    const id = parseInt(c.req.param('id'))
+    if (isNaN(id)) {
+      return c.json({ error: 'Invalid budget ID' }, 400)
+    }
+    
+    const db = createDatabase(c.env.FINANCE_MANAGER_DB)
+    
+    const existing = await db.select()
+      .from(budgets)
+      .where(and(eq(budgets.id, id), eq(budgets.entityId, c.get('entityId'))))
+    
+    if (existing.length === 0) {
+      return c.json({ error: 'Budget not found' }, 404)
+    }
+    
+    const revisions = await db.select()
+      .from(budgetRevisions)
+      .where(eq(budgetRevisions.budgetId, id))
+      .orderBy(desc(budgetRevisions.revisionNumber))
+    
+    return c.json({ 
+      revisions,
+      diff: buildRevisionDiff(existing[0], revisions)
+    })
+  } catch (error: unknown) {
+    console.error('Error fetching budget revisions:', error)
+    return c.json({ 
+      error: 'Failed to fetch budget revisions', 
+      message: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500)
+  }
+})
+
+// POST /api/budgets/:id/revisions - Request an amount change on an approved budget
+budgetsRouter.post('/:id/revisions', async (c) => {
+  try {
+    const id = parseInt(c.req.param('id'))
+    if (isNaN(id)) {
+      return c.json({ error: 'Invalid budget ID' }, 400)
+    }
+    
+    const body = await c.req.json() as CreateRevisionRequest
+    
+    if (typeof body.amount !== 'number' || body.amount < 0) {
+      return c.json({ error: 'Amount must be zero or positive' }, 400)
+    }
+    
+    if (!body.reason || typeof body.reason !== 'string' || body.reason.trim().length === 0) {
+      return c.json({ error: 'Revision reason is required' }, 400)
+    }
+    
+    const db = createDatabase(c.env.FINANCE_MANAGER_DB)
+    const user = c.get('user')
+    
+    const existing = await db.select()
+      .from(budgets)
+      .where(and(eq(budgets.id, id), eq(budgets.entityId, c.get('entityId'))))
+    
+    if (existing.length === 0) {
+      return c.json({ error: 'Budget not found' }, 404)
+    }
+    
+    const budget = existing[0]
+    
+    if (!revisionControlledStatuses.includes(budget.status)) {
+      return c.json({ error: `Budget is ${budget.status}; only ${revisionControlledStatuses.join(' or ')} budgets are revised` }, 400)
+    }
+    
+    if (body.amount === getEffectiveAmount(budget)) {
+      return c.json({ error: 'Amount is unchanged' }, 400)
+    }
+    
+    const pending = await db.select()
+      .from(budgetRevisions)
+      .where(and(eq(budgetRevisions.budgetId, id), eq(budgetRevisions.status, 'pending')))
+    
+    if (pending.length > 0) {
+      return c.json({ error: `Revision ${pending[0].revisionNumber} is already awaiting approval` }, 409)
+    }
+    
+    const revision = await createBudgetRevision(db, budget, body.amount, {
+      reason: body.reason.trim(),
+      description: body.description?.trim() || null,
+      createdBy: user.id
+    })
+    
+    return c.json({ 
+      message: `Revision ${revision.revisionNumber} submitted for approval`,
+      revision
+    }, 201)
+  } catch (error: unknown) {
+    console.error('Error creating budget revision:', error)
+    return c.json({ 
+      error: 'Failed to create budget revision', 
+      message: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500)
+  }
+})
+
+// POST /api/budgets/:id/revisions/:revisionId/:action - Approve (applies revisedAmount) or reject a pending revision
+budgetsRouter.post('/:id/revisions/:revisionId/:action{approve|reject}', requireRole(budgetApproverRoles), async (c) => {
+  try {
+    const id = parseInt(c.req.param('id'))
+    const revisionId = parseInt(c.req.param('revisionId'))
+    if (isNaN(id) || isNaN(revisionId)) {
+      return c.json({ error: 'Invalid budget or revision ID' }, 400)
+    }
+    
+    const approve = c.req.param('action') === 'approve'
+    const db = createDatabase(c.env.FINANCE_MANAGER_DB)
+    const user = c.get('user')
+    
+    const existing = await db.select()
+      .from(budgets)
+      .where(and(eq(budgets.id, id), eq(budgets.entityId, c.get('entityId'))))
+    
+    if (existing.length === 0) {
+      return c.json({ error: 'Budget not found' }, 404)
+    }
+    
+    const revisionRows = await db.select()
+      .from(budgetRevisions)
+      .where(and(eq(budgetRevisions.id, revisionId), eq(budgetRevisions.budgetId, id)))
+    
+    if (revisionRows.length === 0) {
+      return c.json({ error: 'Revision not found' }, 404)
+    }
+    
+    const revision = revisionRows[0]
+    
+    if (revision.status !== 'pending') {
+      return c.json({ error: `Revision ${revision.revisionNumber} is already ${revision.status}` }, 409)
+    }
+    
+    if (revision.createdBy === user.id) {
+      return c.json({ error: 'The requester of a revision cannot review it' }, 403)
+    }
+    
+    // The budget must still be at the amount the revision was requested against
+    if (approve && revision.previousAmount !== getEffectiveAmount(existing[0])) {
+      return c.json({ error: 'Budget amount changed since the revision was requested; reject it and request a new one' }, 409)
+    }
+    
+    const now = new Date().toISOString()
+    const reviewRevision = db.update(budgetRevisions)
+      .set({ status: approve ? 'approved' : 'rejected', approvedBy: user.id, approvedAt: now })
+      .where(and(eq(budgetRevisions.id, revisionId), eq(budgetRevisions.status, 'pending')))
+      .returning()
+    
+    const [reviewed] = approve
+      ? await db.batch([
+        reviewRevision,
+        // Only applied when this request's review went through
+        db.update(budgets)
+          .set({ revisedAmount: revision.newAmount, updatedAt: now })
+          .where(and(
+            eq(budgets.id, id),
+            eq(budgets.entityId, c.get('entityId')),
+            sql`exists (select 1 from ${budgetRevisions} where ${budgetRevisions.id} = ${revisionId} and ${budgetRevisions.approvedBy} = ${user.id} and ${budgetRevisions.approvedAt} = ${now})`
+          ))
+      ])
+      : [await reviewRevision]
+    
+    if (reviewed.length === 0) {
+      return c.json({ error: `Revision ${revision.revisionNumber} was reviewed concurrently` }, 409)
+    }
+    
+    if (approve) {
+      try {
+        await refreshBudgetMonitoring(c.env, c.get('entityId'), id)
+      } catch (error) {
+        console.error('Failed to refresh budget actuals after revision:', error)
+      }
+    }
+    
+    return c.json({ 
+      message: `Revision ${revision.revisionNumber} ${approve ? 'approved' : 'rejected'}`,
+      revision: reviewed[0]
+    })
+  } catch (error: unknown) {
+    console.error('Error reviewing budget revision:', error)
+    return c.json({ 
+      error: 'Failed to review budget revision', 
+      message: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500)
+  }
+})
+
 // POST /api/budgets/:id/allocations - Create budget allocation
 budgetsRouter.post('/:id/allocations', async (c) => {
   try {
@@ -613,6 +1517,7 @@ budgetsRouter.post('/:id/allocations', async (c) => {
       allocatedAmount: body.allocatedAmount,
       allocatedPercent: body.allocatedPercent || 0,
       allocationType: body.allocationType || 'custom',
+      allocationCode: body.allocationCode?.trim() || null,
       description: body.description?.trim() || null,
       priority: body.priority || 0,
       constraints: body.constraints ? JSON.stringify(body.constraints) : null,
@@ -636,6 +1541,77 @@ budgetsRouter.post('/:id/allocations', async (c) => {
   }
 })
 
+// POST /api/budgets/:id/actuals/refresh - Recompute one budget's actuals
+budgetsRouter.post('/:id/actuals/refresh', async (c) => {
+  try {
+    const id = parseInt(c.req.param('id'))
+    if (isNaN(id)) {
+      return c.json({ error: 'Invalid budget ID' }, 400)
+    }
+    
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') })
+    const [actuals] = await new BudgetActualsService(dbAdapter).refresh({ budgetId: id })
+    
+    if (!actuals) {
+      return c.json({ error: 'Budget not found' }, 404)
+    }
+    
+    const alerts = await new BudgetAlertService(dbAdapter).evaluate([actuals])
+    const delivery = await deliverBudgetAlerts(c.env, dbAdapter)
+    
+    return c.json({ 
+      message: 'Budget actuals refreshed successfully',
+      actuals,
+      alerts,
+      delivery
+    })
+  } catch (error: unknown) {
+    console.error('Error refreshing budget actuals:', error)
+    return c.json({ 
+      error: 'Failed to refresh budget actuals', 
+      message: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500)
+  }
+})
+
+// GET /api/budgets/:id/actuals - Journal lines behind a budget's actual amount (?allocationId= for one allocation)
+budgetsRouter.get('/:id/actuals', async (c) => {
+  try {
+    const id = parseInt(c.req.param('id'))
+    if (isNaN(id)) {
+      return c.json({ error: 'Invalid budget ID' }, 400)
+    }
+    
+    const { allocationId } = c.req.query()
+    const allocation = allocationId ? parseInt(allocationId) : undefined
+    if (allocation !== undefined && isNaN(allocation)) {
+      return c.json({ error: 'Invalid allocation ID' }, 400)
+    }
+    
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') })
+    const lines = await new BudgetActualsService(dbAdapter).getContributingLines(id, allocation)
+    
+    return c.json({ 
+      budgetId: id,
+      allocationId: allocation,
+      lines,
+      count: lines.length,
+      total: lines.reduce((total, line) => total + line.amount, 0)
+    })
+  } catch (error: unknown) {
+    if (error instanceof AccountingValidationError
+      && (error.code === 'BUDGET_NOT_FOUND' || error.code === 'BUDGET_ALLOCATION_NOT_FOUND')) {
+      return c.json({ error: error.message, code: error.code }, 404)
+    }
+    
+    console.error('Error fetching budget actuals:', error)
+    return c.json({ 
+      error: 'Failed to fetch budget actuals', 
+      message: error instanceof Error ? error.message : 'Unknown error' 
+    }, 500)
+  }
+})
+
 // GET /api/budgets/summary - Budget summary and analytics
 budgetsRouter.get('/summary', async (c) => {
   try {
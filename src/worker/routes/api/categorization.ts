@@ -8,8 +8,8 @@ import type { AppContext } from '../../types'
 import { authMiddleware } from '../../middleware/auth'
 import { FinancialAIService, AIService, createProvider } from '../../../ai/index.js'
 import { DatabaseAdapter } from '../../../lib/index.worker.js'
-import type { Account } from '../../../types/index.js'
 import { z } from 'zod'
+import { createCategorizationSuggestion, type CategorizationSuggestion } from '../../utils/categorization'
 
 // Validation schemas
 const categorizationRequestSchema = z.object({
@@ -26,31 +26,6 @@ const approvalRequestSchema = z.object({
   accountId: z.string().optional() // Override suggested account
 })
 
-// Types
-interface CategorizationSuggestion {
-  id: string
-  transactionId?: string
-  description: string
-  amount: number
-  merchant?: string
-  suggestedCategory: string
-  suggestedSubcategory?: string
-  suggestedAccountId?: string
-  confidence: number
-  timestamp: number
-  userId: string
-  status: 'pending' | 'approved' | 'rejected'
-}
-
-interface CategorizationResponse {
-  suggestionId: string
-  category: string
-  subcategory?: string
-  accountId?: string
-  confidence: number
-  requiresApproval: boolean
-}
-
 // Create categorization router
 const categorization = new Hono<AppContext>()
 
@@ -86,73 +61,14 @@ categorization.post('/suggest', async (c) => {
       
       const financialAI = new FinancialAIService(aiService)
     
-    // Get AI categorization suggestion
-    const aiResult = await financialAI.categorizeExpense(
-      description,
-      amount,
-      merchant,
-      existingCategories
+    const response = await createCategorizationSuggestion(
+      financialAI,
+      new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB }),
+      c.env.FINANCE_MANAGER_CACHE,
+      user.id,
+      { description, amount, merchant, existingCategories, transactionId }
     )
     
-    // Find matching account based on category
-    const db = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB })
-    let suggestedAccountId: string | undefined
-    
-    try {
-      const accounts = await db.getAllAccounts();
-      const lowerCaseCategory = aiResult.category.toLowerCase();
-      const matchingAccount = accounts.find((account: Account) => 
-        account.category?.toLowerCase().includes(lowerCaseCategory) ||
-        account.name.toLowerCase().includes(lowerCaseCategory)
-      );
-      
-      if (matchingAccount) {
-        suggestedAccountId = matchingAccount.id?.toString();
-      }
-    } catch (error: unknown) {
-        const errorMessage = error instanceof Error ? error.message : 'Unknown error while finding matching account';
-        console.warn('Failed to find matching account:', errorMessage);
-    }
-    
-    // Generate unique suggestion ID
-    const suggestionId = `cat_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
-    
-    // Create suggestion object
-    const suggestion: CategorizationSuggestion = {
-      id: suggestionId,
-      transactionId,
-      description,
-      amount,
-      merchant,
-      suggestedCategory: aiResult.category,
-      suggestedSubcategory: aiResult.subcategory,
-      suggestedAccountId,
-      confidence: aiResult.confidence,
-      timestamp: Date.now(),
-      userId: user.id,
-      status: 'pending'
-    }
-    
-    // Store suggestion in KV for user approval
-    const kvKey = `categorization:${user.id}:${suggestionId}`
-    await c.env.FINANCE_MANAGER_CACHE.put(
-      kvKey,
-      JSON.stringify(suggestion),
-      { expirationTtl: 86400 * 7 } // 7 days expiration
-    )
-    
-    // Determine if approval is required (low confidence suggestions)
-    const requiresApproval = aiResult.confidence < 0.8
-    
-    const response: CategorizationResponse = {
-      suggestionId,
-      category: aiResult.category,
-      subcategory: aiResult.subcategory,
-      accountId: suggestedAccountId,
-      confidence: aiResult.confidence,
-      requiresApproval
-    }
-    
     return c.json({
       success: true,
       data: response
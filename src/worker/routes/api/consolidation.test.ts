@@ -0,0 +1,44 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import consolidationRouter from './consolidation';
+import ledgerRouter from './ledger';
+import { TEST_ENV, authHeaders, createTestUser } from '../../../../tests/helpers/auth';
+
+describe('consolidation entity access', () => {
+  beforeEach(async () => {
+    await createTestUser({ id: 'group-accountant', role: 'ACCOUNTANT', entityId: 'parent', entityAccess: ['subsidiary'] });
+    await createTestUser({ id: 'outsider', role: 'ACCOUNTANT', entityId: 'other' });
+  });
+
+  async function saveEntity(userId: string, entityId: string, body: Record<string, unknown>): Promise<Response> {
+    return await consolidationRouter.request(`/entities/${entityId}`, {
+      method: 'PUT',
+      headers: await authHeaders(userId),
+      body: JSON.stringify(body)
+    }, TEST_ENV);
+  }
+
+  it('lets a user link the entities listed in their entity access', async () => {
+    expect((await saveEntity('group-accountant', 'parent', { name: 'Parent' })).status).toBe(200);
+
+    const subsidiary = await saveEntity('group-accountant', 'subsidiary', { name: 'Subsidiary', parentEntityId: 'parent', ownershipPercent: 80 });
+    expect(subsidiary.status).toBe(200);
+
+    const group = await consolidationRouter.request('/entities', { headers: await authHeaders('group-accountant') }, TEST_ENV);
+    const { entities } = await group.json() as { entities: Array<{ id: string }> };
+    expect(entities.map(entity => entity.id)).toEqual(['parent', 'subsidiary']);
+  });
+
+  it('applies the same rule as the other routes to entities outside the user\'s access', async () => {
+    expect((await saveEntity('outsider', 'subsidiary', { name: 'Subsidiary', parentEntityId: 'other' })).status).toBe(403);
+
+    const outsider = await authHeaders('outsider');
+    const denied = await consolidationRouter.request('/intercompany-accounts?entityId=subsidiary', { headers: outsider }, TEST_ENV);
+    const ledger = await ledgerRouter.request('/?accountId=1&entityId=subsidiary', { headers: outsider }, TEST_ENV);
+    expect([denied.status, ledger.status]).toEqual([403, 403]);
+
+    const allowed = await consolidationRouter.request('/intercompany-accounts?entityId=subsidiary', {
+      headers: await authHeaders('group-accountant')
+    }, TEST_ENV);
+    expect(allowed.status).toBe(200);
+  });
+});
@@ -0,0 +1,535 @@
+/**
+ * Consolidation API
+ * Entity hierarchy, intercompany account tags and transactions, and consolidated statements with the elimination worksheet
+ */
+
+import { Hono, type Context } from 'hono';
+import { z } from 'zod';
+import { zValidator } from '@hono/zod-validator';
+import {
+  AccountingValidationError,
+  ConsolidationService,
+  CurrencyConversionError,
+  DatabaseAdapter,
+  FINANCIAL_CONSTANTS,
+  IntercompanyTransactionService,
+  PeriodClosureError,
+  TransactionStateError,
+} from '../../../lib/index.worker.js';
+import type {
+  ComparativeStatementType,
+  ConsolidationWorksheet,
+  Currency,
+  IntercompanyTransaction,
+  IntercompanyTransactionStatus,
+} from '../../../types/index.js';
+import type { AppContext, EntityVariables } from '../../types';
+import { authMiddleware, entityScopeMiddleware, requireRole } from '../../middleware/auth';
+import { canAccessEntity, getPostingContext } from '../../utils/permissions';
+import { renderStatementDelimited, renderStatementHtml } from '../../utils/statement-export';
+
+type ConsolidationContext = AppContext & { Variables: EntityVariables };
+
+const consolidationRouter = new Hono<ConsolidationContext>();
+
+consolidationRouter.use('*', authMiddleware);
+consolidationRouter.use('*', entityScopeMiddleware);
+
+// Consolidation schemas
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+const currencySchema = z.string().transform(value => value.toUpperCase()).refine(
+  value => FINANCIAL_CONSTANTS.SUPPORTED_CURRENCIES.includes(value as Currency),
+  { message: `Currency must be one of: ${FINANCIAL_CONSTANTS.SUPPORTED_CURRENCIES.join(', ')}` }
+).transform(value => value as Currency);
+
+const entitySchema = z.object({
+  name: z.string().min(1, 'Entity name is required').max(100),
+  currency: currencySchema.default(FINANCIAL_CONSTANTS.DEFAULT_CURRENCY),
+  parentEntityId: z.string().min(1).nullable().optional(),
+  ownershipPercent: z.number().gt(0, 'Ownership must be more than 0 percent').max(100).default(100),
+  isActive: z.boolean().default(true)
+});
+
+const intercompanyAccountSchema = z.object({
+  accountId: z.number().int().positive(),
+  eliminationTag: z.string().trim().min(1, 'Elimination tag is required').max(50),
+  counterpartyEntityId: z.string().min(1).optional()
+});
+
+const intercompanyTransactionSchema = z.object({
+  counterpartyEntityId: z.string().min(1, 'Counterparty entity is required'),
+  transactionDate: isoDate,
+  description: z.string().trim().min(1, 'Description is required').max(500),
+  amount: z.number().positive('Amount must be greater than zero'),
+  currency: currencySchema.default(FINANCIAL_CONSTANTS.DEFAULT_CURRENCY),
+  sourceAccountId: z.number().int().positive(),
+  counterpartyAccountId: z.number().int().positive(),
+  dueFromAccountId: z.number().int().positive().optional(),
+  dueToAccountId: z.number().int().positive().optional()
+});
+
+const intercompanyStatuses: IntercompanyTransactionStatus[] = ['DRAFT', 'POSTED', 'VOID', 'REVERSED'];
+
+const consolidationQuerySchema = z.object({
+  entityId: z.string().min(1).optional(), // Head of the group; defaults to the user's entity
+  startDate: isoDate.optional(),
+  asOfDate: isoDate.optional(),
+  format: z.enum(['json', 'csv', 'pdf']).default('json')
+});
+
+// Helper function to map consolidation errors to a status and response body
+function handleConsolidationError(error: unknown): { status: 400 | 404 | 409; body: Record<string, unknown> } | null {
+  if (error instanceof PeriodClosureError || error instanceof TransactionStateError) {
+    return {
+      status: 409,
+      body: { error: error.message, code: error.code, details: error.details }
+    };
+  }
+  if (error instanceof CurrencyConversionError) {
+    return {
+      status: 400,
+      body: { error: `Cannot translate to the group currency: ${error.message}`, code: error.code }
+    };
+  }
+  if (error instanceof AccountingValidationError) {
+    return {
+      status: error.code === 'ENTITY_NOT_FOUND' || error.code === 'INTERCOMPANY_TRANSACTION_NOT_FOUND' ? 404 : 400,
+      body: { error: error.message, code: error.code }
+    };
+  }
+  return null;
+}
+
+/**
+ * Validate the query and build the worksheet of the requested group; returns the error response instead
+ * when the query is invalid or the user may not see the group
+ */
+async function buildWorksheet(c: Context<ConsolidationContext>): Promise<ConsolidationWorksheet | Response> {
+  const parsed = consolidationQuerySchema.safeParse(c.req.query());
+  if (!parsed.success) {
+    return c.json({
+      error: 'Invalid consolidation parameters',
+      details: parsed.error.issues,
+      code: 'VALIDATION_ERROR'
+    }, 400);
+  }
+
+  const entityId = c.get('entityId');
+  const asOfDate = parsed.data.asOfDate || new Date().toISOString().slice(0, 10);
+  const startDate = parsed.data.startDate || `${asOfDate.slice(0, 4)}-01-01`;
+  return new ConsolidationService({ database: c.env.FINANCE_MANAGER_DB, entityId })
+    .buildWorksheet({ startDate, asOfDate });
+}
+
+async function renderStatement(c: Context<ConsolidationContext>, statement: ComparativeStatementType) {
+  try {
+    const worksheet = await buildWorksheet(c);
+    if (worksheet instanceof Response) return worksheet;
+
+    const consolidated = ConsolidationService.getStatement(statement, worksheet);
+    const title = statement === 'balance-sheet' ? 'Consolidated Balance Sheet' : 'Consolidated Income Statement';
+    const period = statement === 'balance-sheet'
+      ? `As of ${worksheet.asOfDate}`
+      : `Period: ${worksheet.startDate} to ${worksheet.asOfDate}`;
+    const fileName = `consolidated-${statement}-${worksheet.asOfDate}`;
+
+    switch (c.req.query('format')) {
+      case 'csv':
+        return new Response(renderStatementDelimited(consolidated, { title, lines: [period] }, ','), {
+          headers: {
+            'Content-Type': 'text/csv',
+            'Content-Disposition': `attachment; filename="${fileName}.csv"`
+          }
+        });
+      case 'pdf':
+        return new Response(renderStatementHtml(consolidated, { title, lines: [period, `Currency: ${consolidated.currency}`] }), {
+          headers: {
+            'Content-Type': 'text/html',
+            'Content-Disposition': `attachment; filename="${fileName}.html"`
+          }
+        });
+      default:
+        return c.json({
+          statement: consolidated,
+          entities: worksheet.entities,
+          nonControllingInterests: worksheet.nonControllingInterests,
+          unbalancedEliminations: worksheet.eliminations.filter(elimination => !elimination.isBalanced)
+        });
+    }
+  } catch (error: unknown) {
+    const handled = handleConsolidationError(error);
+    if (handled) {
+      return c.json(handled.body, handled.status);
+    }
+
+    console.error(`Failed to generate consolidated ${statement}:`, error);
+    return c.json({
+      error: `Failed to generate consolidated ${statement}`,
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'CONSOLIDATION_ERROR'
+    }, 500);
+  }
+}
+
+// GET /consolidation/entities - The group headed by the user's entity, parents first
+consolidationRouter.get('/entities', async (c) => {
+  try {
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const entities = await dbAdapter.getEntityGroup();
+
+    return c.json({
+      entities,
+      count: entities.length
+    });
+  } catch (error: unknown) {
+    console.error('Failed to fetch entities:', error);
+    return c.json({
+      error: 'Failed to fetch entities',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'ENTITIES_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// PUT /consolidation/entities/:entityId - Register an entity or change its parent, ownership or currency
+consolidationRouter.put('/entities/:entityId', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', entitySchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const entityId = c.req.param('entityId');
+    const body = c.req.valid('json');
+
+    // Both ends of the link must be the user's, so nobody can pull another ledger into their group
+    if (!canAccessEntity(user, entityId) || (body.parentEntityId && !canAccessEntity(user, body.parentEntityId))) {
+      return c.json({ error: 'You do not have access to this entity', code: 'ENTITY_ACCESS_DENIED' }, 403);
+    }
+
+    const entity = await new ConsolidationService({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') })
+      .saveEntity(entityId, { ...body, parentEntityId: body.parentEntityId ?? undefined }, user.id);
+
+    return c.json({
+      entity,
+      message: 'Entity saved successfully'
+    });
+  } catch (error: unknown) {
+    const handled = handleConsolidationError(error);
+    if (handled) {
+      return c.json(handled.body, handled.status);
+    }
+
+    console.error('Failed to save entity:', error);
+    return c.json({
+      error: 'Failed to save entity',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'ENTITY_SAVE_ERROR'
+    }, 500);
+  }
+});
+
+// GET /consolidation/intercompany-accounts - The entity's accounts tagged for elimination
+consolidationRouter.get('/intercompany-accounts', async (c) => {
+  try {
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const accounts = await dbAdapter.getIntercompanyAccounts([c.get('entityId')]);
+
+    return c.json({
+      accounts,
+      count: accounts.length
+    });
+  } catch (error: unknown) {
+    console.error('Failed to fetch intercompany accounts:', error);
+    return c.json({
+      error: 'Failed to fetch intercompany accounts',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'INTERCOMPANY_ACCOUNTS_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// POST /consolidation/intercompany-accounts - Tag an account; accounts sharing a tag are eliminated together
+consolidationRouter.post('/intercompany-accounts', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', intercompanyAccountSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const body = c.req.valid('json');
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const account = await dbAdapter.getAccount(body.accountId);
+    if (!account) {
+      return c.json({ error: 'Account not found', code: 'ACCOUNT_NOT_FOUND' }, 404);
+    }
+
+    const existing = await dbAdapter.getIntercompanyAccounts([c.get('entityId')]);
+    if (existing.some(tagged => tagged.accountId === account.id)) {
+      return c.json({
+        error: `Account ${account.code} is already tagged as intercompany`,
+        code: 'INTERCOMPANY_ACCOUNT_EXISTS'
+      }, 409);
+    }
+
+    const intercompanyAccount = await dbAdapter.createIntercompanyAccount(body, user.id);
+
+    return c.json({
+      account: { ...intercompanyAccount, accountCode: account.code, accountName: account.name },
+      message: 'Intercompany account tagged successfully'
+    }, 201);
+  } catch (error: unknown) {
+    console.error('Failed to tag intercompany account:', error);
+    return c.json({
+      error: 'Failed to tag intercompany account',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'INTERCOMPANY_ACCOUNT_CREATE_ERROR'
+    }, 500);
+  }
+});
+
+// DELETE /consolidation/intercompany-accounts/:id - Stop eliminating the account
+consolidationRouter.delete('/intercompany-accounts/:id', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), async (c) => {
+  try {
+    const id = Number.parseInt(c.req.param('id'), 10);
+    if (Number.isNaN(id) || id <= 0) {
+      return c.json({ error: 'Invalid intercompany account ID', code: 'INVALID_INTERCOMPANY_ACCOUNT_ID' }, 400);
+    }
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const deleted = await dbAdapter.deleteIntercompanyAccount(id);
+    if (!deleted) {
+      return c.json({ error: 'Intercompany account not found', code: 'INTERCOMPANY_ACCOUNT_NOT_FOUND' }, 404);
+    }
+
+    return c.json({ message: 'Intercompany account removed successfully' });
+  } catch (error: unknown) {
+    console.error('Failed to remove intercompany account:', error);
+    return c.json({
+      error: 'Failed to remove intercompany account',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'INTERCOMPANY_ACCOUNT_DELETE_ERROR'
+    }, 500);
+  }
+});
+
+// GET /consolidation/intercompany-transactions?status= - Intercompany transactions the entity is a side of
+consolidationRouter.get('/intercompany-transactions', async (c) => {
+  try {
+    const status = c.req.query('status')?.toUpperCase() as IntercompanyTransactionStatus | undefined;
+    if (status && !intercompanyStatuses.includes(status)) {
+      return c.json({
+        error: `Status must be one of: ${intercompanyStatuses.join(', ')}`,
+        code: 'VALIDATION_ERROR'
+      }, 400);
+    }
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const transactions = await dbAdapter.getIntercompanyTransactions({
+      status,
+      counterpartyEntityId: c.req.query('counterpartyEntityId') || undefined
+    });
+
+    return c.json({
+      transactions,
+      count: transactions.length
+    });
+  } catch (error: unknown) {
+    console.error('Failed to fetch intercompany transactions:', error);
+    return c.json({
+      error: 'Failed to fetch intercompany transactions',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'INTERCOMPANY_TRANSACTIONS_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// POST /consolidation/intercompany-transactions - Draft linked transactions in the entity and the counterparty
+consolidationRouter.post('/intercompany-transactions', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', intercompanyTransactionSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const body = c.req.valid('json');
+    if (!canAccessEntity(user, body.counterpartyEntityId)) {
+      return c.json({ error: 'You do not have access to the counterparty entity', code: 'ENTITY_ACCESS_DENIED' }, 403);
+    }
+
+    const transaction = await new IntercompanyTransactionService({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') })
+      .create(body, getPostingContext(user));
+
+    return c.json({
+      transaction,
+      message: 'Intercompany transaction created successfully'
+    }, 201);
+  } catch (error: unknown) {
+    const handled = handleConsolidationError(error);
+    if (handled) {
+      return c.json(handled.body, handled.status);
+    }
+
+    console.error('Failed to create intercompany transaction:', error);
+    return c.json({
+      error: 'Failed to create intercompany transaction',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'INTERCOMPANY_TRANSACTION_CREATE_ERROR'
+    }, 500);
+  }
+});
+
+// GET /consolidation/intercompany-transactions/:linkId - Both sides of an intercompany transaction
+consolidationRouter.get('/intercompany-transactions/:linkId', async (c) => {
+  try {
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const transaction = await dbAdapter.getIntercompanyTransaction(c.req.param('linkId'));
+    if (!transaction) {
+      return c.json({ error: 'Intercompany transaction not found', code: 'INTERCOMPANY_TRANSACTION_NOT_FOUND' }, 404);
+    }
+
+    const sides = await Promise.all([
+      { entityId: transaction.sourceEntityId, transactionId: transaction.sourceTransactionId },
+      { entityId: transaction.counterpartyEntityId, transactionId: transaction.counterpartyTransactionId }
+    ].map(async ({ entityId, transactionId }) => {
+      const sideAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId });
+      return {
+        entityId,
+        transaction: await sideAdapter.getTransaction(transactionId),
+        journalEntries: await sideAdapter.getJournalEntriesByTransaction(transactionId)
+      };
+    }));
+
+    return c.json({ transaction, sides });
+  } catch (error: unknown) {
+    console.error('Failed to fetch intercompany transaction:', error);
+    return c.json({
+      error: 'Failed to fetch intercompany transaction',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'INTERCOMPANY_TRANSACTION_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// POST /consolidation/intercompany-transactions/:linkId/:action - Post, void or reverse both sides together
+consolidationRouter.post('/intercompany-transactions/:linkId/:action{post|void|reverse}', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), async (c) => {
+  const action = c.req.param('action');
+  try {
+    const user = c.get('user');
+    const linkId = c.req.param('linkId');
+    const service = new IntercompanyTransactionService({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+
+    const existing = await new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') })
+      .getIntercompanyTransaction(linkId);
+    if (!existing) {
+      return c.json({ error: 'Intercompany transaction not found', code: 'INTERCOMPANY_TRANSACTION_NOT_FOUND' }, 404);
+    }
+    if (!canAccessEntity(user, existing.sourceEntityId) || !canAccessEntity(user, existing.counterpartyEntityId)) {
+      return c.json({ error: 'You do not have access to both entities', code: 'ENTITY_ACCESS_DENIED' }, 403);
+    }
+
+    let transaction: IntercompanyTransaction;
+    let reversals: unknown[] | undefined;
+    if (action === 'post') {
+      transaction = await service.post(linkId, getPostingContext(user));
+    } else if (action === 'void') {
+      transaction = await service.void(linkId, user.id);
+    } else {
+      // Body is optional; reversalDate defaults to today
+      const body = await c.req.json().catch(() => ({}));
+      const reversalDate = body.reversalDate ? new Date(body.reversalDate) : new Date();
+      if (Number.isNaN(reversalDate.getTime())) {
+        return c.json({ error: 'reversalDate must be a valid ISO 8601 date', code: 'VALIDATION_ERROR' }, 400);
+      }
+      ({ link: transaction, reversals } = await service.reverse(linkId, getPostingContext(user), reversalDate));
+    }
+
+    return c.json({
+      transaction,
+      reversals,
+      message: `Intercompany transaction ${action === 'void' ? 'voided' : `${action}ed`} successfully`
+    });
+  } catch (error: unknown) {
+    const handled = handleConsolidationError(error);
+    if (handled) {
+      return c.json(handled.body, handled.status);
+    }
+
+    console.error(`Failed to ${action} intercompany transaction:`, error);
+    return c.json({
+      error: `Failed to ${action} intercompany transaction`,
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'INTERCOMPANY_TRANSACTION_ERROR'
+    }, 500);
+  }
+});
+
+// GET /consolidation/intercompany-reconciliation?entityId=&asOfDate= - Intercompany balances per pair of entities; pairs that do not net to zero are flagged
+consolidationRouter.get('/intercompany-reconciliation', async (c) => {
+  try {
+    const entityId = c.get('entityId');
+    const asOfDate = c.req.query('asOfDate') || new Date().toISOString().slice(0, 10);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(asOfDate)) {
+      return c.json({ error: 'asOfDate must be YYYY-MM-DD', code: 'VALIDATION_ERROR' }, 400);
+    }
+
+    const reconciliation = await new ConsolidationService({ database: c.env.FINANCE_MANAGER_DB, entityId })
+      .getIntercompanyReconciliation(asOfDate);
+
+    return c.json({ reconciliation });
+  } catch (error: unknown) {
+    const handled = handleConsolidationError(error);
+    if (handled) {
+      return c.json(handled.body, handled.status);
+    }
+
+    console.error('Failed to reconcile intercompany balances:', error);
+    return c.json({
+      error: 'Failed to reconcile intercompany balances',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'INTERCOMPANY_RECONCILIATION_ERROR'
+    }, 500);
+  }
+});
+
+// GET /consolidation/worksheet?entityId=&startDate=&asOfDate= - Translated balances per entity, eliminations and consolidated totals
+consolidationRouter.get('/worksheet', async (c) => {
+  try {
+    const worksheet = await buildWorksheet(c);
+    if (worksheet instanceof Response) return worksheet;
+
+    return c.json({ worksheet });
+  } catch (error: unknown) {
+    const handled = handleConsolidationError(error);
+    if (handled) {
+      return c.json(handled.body, handled.status);
+    }
+
+    console.error('Failed to build consolidation worksheet:', error);
+    return c.json({
+      error: 'Failed to build consolidation worksheet',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'CONSOLIDATION_ERROR'
+    }, 500);
+  }
+});
+
+// GET /consolidation/trial-balance?entityId=&startDate=&asOfDate= - Consolidated trial balance
+consolidationRouter.get('/trial-balance', async (c) => {
+  try {
+    const worksheet = await buildWorksheet(c);
+    if (worksheet instanceof Response) return worksheet;
+
+    return c.json({ trialBalance: ConsolidationService.getTrialBalance(worksheet) });
+  } catch (error: unknown) {
+    const handled = handleConsolidationError(error);
+    if (handled) {
+      return c.json(handled.body, handled.status);
+    }
+
+    console.error('Failed to generate consolidated trial balance:', error);
+    return c.json({
+      error: 'Failed to generate consolidated trial balance',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'CONSOLIDATION_ERROR'
+    }, 500);
+  }
+});
+
+// GET /consolidation/balance-sheet?entityId=&startDate=&asOfDate=&format=json|csv|pdf - Consolidated balance sheet
+consolidationRouter.get('/balance-sheet', (c) => renderStatement(c, 'balance-sheet'));
+
+// GET /consolidation/income-statement?entityId=&startDate=&asOfDate=&format=json|csv|pdf - Consolidated income statement
+consolidationRouter.get('/income-statement', (c) => renderStatement(c, 'income-statement'));
+
+export default consolidationRouter;
@@ -0,0 +1,224 @@
+/**
+ * Dimensions API
+ * Departments, projects and cost centers for journal lines, and the dimensions each account requires
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { zValidator } from '@hono/zod-validator';
+import {
+  AccountingValidationError,
+  DatabaseAdapter,
+  DimensionService,
+} from '../../../lib/index.worker.js';
+import type { AppContext, EntityVariables } from '../../types';
+import { authMiddleware, entityScopeMiddleware, requireRole } from '../../middleware/auth';
+
+const dimensionsRouter = new Hono<AppContext & { Variables: EntityVariables }>();
+
+dimensionsRouter.use('*', authMiddleware);
+dimensionsRouter.use('*', entityScopeMiddleware);
+
+// Dimension schemas
+const dimensionTypeSchema = z.enum(['DEPARTMENT', 'PROJECT', 'COST_CENTER']);
+
+const createDimensionSchema = z.object({
+  type: dimensionTypeSchema,
+  code: z.string().min(1, 'Code is required'),
+  name: z.string().min(1, 'Name is required'),
+  description: z.string().optional(),
+  isActive: z.boolean().optional()
+});
+
+const updateDimensionSchema = z.object({
+  name: z.string().min(1, 'Name is required').optional(),
+  description: z.string().optional(),
+  isActive: z.boolean().optional()
+}).refine(updates => Object.values(updates).some(value => value !== undefined), {
+  message: 'Provide name, description or isActive to update'
+});
+
+const requiredDimensionsSchema = z.object({
+  required: z.array(dimensionTypeSchema)
+});
+
+function parseId(id: string): number | null {
+  const parsed = Number.parseInt(id, 10);
+  return Number.isNaN(parsed) || parsed <= 0 ? null : parsed;
+}
+
+function getDimensionErrorStatus(code: string): 400 | 404 | 409 {
+  if (code === 'DIMENSION_NOT_FOUND' || code === 'ACCOUNT_NOT_FOUND') return 404;
+  if (code === 'DUPLICATE_DIMENSION' || code === 'DIMENSION_IN_USE') return 409;
+  return 400;
+}
+
+// GET /dimensions?type=DEPARTMENT - Dimension values, by type and code
+dimensionsRouter.get('/', async (c) => {
+  try {
+    const type = c.req.query('type');
+    const parsedType = type ? dimensionTypeSchema.safeParse(type.toUpperCase()) : undefined;
+    if (parsedType && !parsedType.success) {
+      return c.json({
+        error: 'Invalid dimension type',
+        details: parsedType.error.issues,
+        code: 'VALIDATION_ERROR'
+      }, 400);
+    }
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const dimensions = await new DimensionService(dbAdapter).list(parsedType?.data);
+
+    return c.json({ dimensions, count: dimensions.length });
+  } catch (error: unknown) {
+    console.error('Failed to fetch dimensions:', error);
+    return c.json({
+      error: 'Failed to fetch dimensions',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'DIMENSIONS_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// GET /dimensions/rules?accountId=N - Dimensions each account requires on its lines
+dimensionsRouter.get('/rules', async (c) => {
+  try {
+    const accountIdParam = c.req.query('accountId');
+    const accountId = accountIdParam ? parseId(accountIdParam) : undefined;
+    if (accountId === null) {
+      return c.json({ error: 'Invalid account ID', code: 'INVALID_ACCOUNT_ID' }, 400);
+    }
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const rules = await new DimensionService(dbAdapter).getRules(accountId);
+
+    return c.json({ rules, count: rules.length });
+  } catch (error: unknown) {
+    console.error('Failed to fetch dimension rules:', error);
+    return c.json({
+      error: 'Failed to fetch dimension rules',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'DIMENSION_RULES_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// PUT /dimensions/rules/:accountId - Replace the dimensions the account requires; [] removes them
+dimensionsRouter.put('/rules/:accountId', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', requiredDimensionsSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const accountId = parseId(c.req.param('accountId'));
+    if (!accountId) {
+      return c.json({ error: 'Invalid account ID', code: 'INVALID_ACCOUNT_ID' }, 400);
+    }
+
+    const { required } = c.req.valid('json');
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const rules = await new DimensionService(dbAdapter).setRequiredDimensions(accountId, required, user.id);
+
+    return c.json({
+      rules,
+      message: rules.length > 0 ? 'Required dimensions saved successfully' : 'Required dimensions removed'
+    });
+  } catch (error: unknown) {
+    if (error instanceof AccountingValidationError) {
+      return c.json({ error: error.message, code: error.code }, getDimensionErrorStatus(error.code));
+    }
+
+    console.error('Failed to save dimension rules:', error);
+    return c.json({
+      error: 'Failed to save dimension rules',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'DIMENSION_RULES_UPDATE_ERROR'
+    }, 500);
+  }
+});
+
+// POST /dimensions - Add a department, project or cost center
+dimensionsRouter.post('/', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', createDimensionSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const body = c.req.valid('json');
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const dimension = await new DimensionService(dbAdapter).create(body, user.id);
+
+    return c.json({
+      dimension,
+      message: 'Dimension created successfully'
+    }, 201);
+  } catch (error: unknown) {
+    if (error instanceof AccountingValidationError) {
+      return c.json({ error: error.message, code: error.code }, getDimensionErrorStatus(error.code));
+    }
+
+    console.error('Failed to create dimension:', error);
+    return c.json({
+      error: 'Failed to create dimension',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'DIMENSION_CREATE_ERROR'
+    }, 500);
+  }
+});
+
+// PUT /dimensions/:id - Rename, describe, activate or deactivate a value
+dimensionsRouter.put('/:id', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', updateDimensionSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const dimensionId = parseId(c.req.param('id'));
+    if (!dimensionId) {
+      return c.json({ error: 'Invalid dimension ID', code: 'INVALID_DIMENSION_ID' }, 400);
+    }
+
+    const updates = c.req.valid('json');
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const dimension = await new DimensionService(dbAdapter).update(dimensionId, updates, user.id);
+
+    return c.json({
+      dimension,
+      message: 'Dimension updated successfully'
+    });
+  } catch (error: unknown) {
+    if (error instanceof AccountingValidationError) {
+      return c.json({ error: error.message, code: error.code }, getDimensionErrorStatus(error.code));
+    }
+
+    console.error('Failed to update dimension:', error);
+    return c.json({
+      error: 'Failed to update dimension',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'DIMENSION_UPDATE_ERROR'
+    }, 500);
+  }
+});
+
+// DELETE /dimensions/:id - Remove a value no journal line uses
+dimensionsRouter.delete('/:id', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), async (c) => {
+  try {
+    const dimensionId = parseId(c.req.param('id'));
+    if (!dimensionId) {
+      return c.json({ error: 'Invalid dimension ID', code: 'INVALID_DIMENSION_ID' }, 400);
+    }
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const dimension = await new DimensionService(dbAdapter).delete(dimensionId);
+
+    return c.json({
+      dimension,
+      message: 'Dimension deleted successfully'
+    });
+  } catch (error: unknown) {
+    if (error instanceof AccountingValidationError) {
+      return c.json({ error: error.message, code: error.code }, getDimensionErrorStatus(error.code));
+    }
+
+    console.error('Failed to delete dimension:', error);
+    return c.json({
+      error: 'Failed to delete dimension',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'DIMENSION_DELETE_ERROR'
+    }, 500);
+  }
+});
+
+export default dimensionsRouter;
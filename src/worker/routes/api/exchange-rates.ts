@@ -0,0 +1,303 @@
+/**
+ * Exchange Rates API
+ * Daily rates per currency pair, manual entry, CSV bulk upload and date lookup
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { zValidator } from '@hono/zod-validator';
+import {
+  CurrencyConversionError,
+  DatabaseAdapter,
+  ExchangeRateService,
+  FINANCIAL_CONSTANTS,
+} from '../../../lib/index.worker.js';
+import type { Currency } from '../../../types/index.js';
+import type { AppContext, EntityVariables } from '../../types';
+import { authMiddleware, entityScopeMiddleware, requireRole } from '../../middleware/auth';
+import { ExchangeRateCsvError, parseExchangeRateCsv } from '../../utils/exchange-rate-import';
+
+const exchangeRatesRouter = new Hono<AppContext & { Variables: EntityVariables }>();
+
+exchangeRatesRouter.use('*', authMiddleware);
+exchangeRatesRouter.use('*', entityScopeMiddleware);
+
+const MAX_RATE_FILE_SIZE = 1024 * 1024; // 1MB
+const MAX_RATE_ROWS = 1000;
+
+// Exchange rate schemas
+const currencySchema = z.string().transform(value => value.toUpperCase()).refine(
+  value => FINANCIAL_CONSTANTS.SUPPORTED_CURRENCIES.includes(value as Currency),
+  { message: `Currency must be one of: ${FINANCIAL_CONSTANTS.SUPPORTED_CURRENCIES.join(', ')}` }
+).transform(value => value as Currency);
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+const createRateSchema = z.object({
+  fromCurrency: currencySchema,
+  toCurrency: currencySchema,
+  rate: z.number().positive('Rate must be greater than zero'),
+  effectiveDate: isoDate
+}).refine(rate => rate.fromCurrency !== rate.toCurrency, {
+  message: 'From and to currency must differ',
+  path: ['toCurrency']
+});
+
+const updateRateSchema = z.object({
+  rate: z.number().positive('Rate must be greater than zero').optional(),
+  effectiveDate: isoDate.optional()
+}).refine(updates => updates.rate !== undefined || updates.effectiveDate !== undefined, {
+  message: 'Provide rate or effectiveDate to update'
+});
+
+const listRatesSchema = z.object({
+  fromCurrency: currencySchema.optional(),
+  toCurrency: currencySchema.optional(),
+  startDate: isoDate.optional(),
+  endDate: isoDate.optional()
+});
+
+const lookupSchema = z.object({
+  from: currencySchema,
+  to: currencySchema,
+  date: isoDate.optional()
+});
+
+function parseId(id: string): number | null {
+  const parsed = Number.parseInt(id, 10);
+  return Number.isNaN(parsed) || parsed <= 0 ? null : parsed;
+}
+
+// GET /exchange-rates - Stored rates, newest first
+exchangeRatesRouter.get('/', async (c) => {
+  try {
+    const parsed = listRatesSchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid exchange rate filters',
+        details: parsed.error.issues,
+        code: 'VALIDATION_ERROR'
+      }, 400);
+    }
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const rates = await dbAdapter.getExchangeRates(parsed.data);
+
+    return c.json({
+      rates,
+      count: rates.length,
+      baseCurrency: FINANCIAL_CONSTANTS.DEFAULT_CURRENCY
+    });
+  } catch (error: unknown) {
+    console.error('Failed to fetch exchange rates:', error);
+    return c.json({
+      error: 'Failed to fetch exchange rates',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'EXCHANGE_RATES_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// GET /exchange-rates/lookup?from=USD&to=IDR&date=YYYY-MM-DD - Rate in effect on a date
+exchangeRatesRouter.get('/lookup', async (c) => {
+  try {
+    const parsed = lookupSchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid exchange rate lookup',
+        details: parsed.error.issues,
+        code: 'VALIDATION_ERROR'
+      }, 400);
+    }
+
+    const { from, to, date } = parsed.data;
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const quote = await new ExchangeRateService(dbAdapter)
+      .resolveRate(from, to, date || new Date().toISOString().slice(0, 10));
+
+    return c.json({ quote });
+  } catch (error: unknown) {
+    if (error instanceof CurrencyConversionError) {
+      return c.json({ error: error.message, code: error.code }, 404);
+    }
+
+    console.error('Failed to look up exchange rate:', error);
+    return c.json({
+      error: 'Failed to look up exchange rate',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'EXCHANGE_RATE_LOOKUP_ERROR'
+    }, 500);
+  }
+});
+
+// POST /exchange-rates/upload - Bulk load rates from a CSV file (multipart: file)
+exchangeRatesRouter.post('/upload', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), async (c) => {
+  try {
+    const user = c.get('user');
+    const formData = await c.req.formData();
+    const file = formData.get('file') as File | null;
+
+    if (!file || !file.name) {
+      return c.json({ error: 'No rate file provided', code: 'VALIDATION_ERROR' }, 400);
+    }
+    if (file.size > MAX_RATE_FILE_SIZE) {
+      return c.json({
+        error: 'Rate file too large',
+        maxSize: `${MAX_RATE_FILE_SIZE / (1024 * 1024)}MB`,
+        code: 'VALIDATION_ERROR'
+      }, 413);
+    }
+
+    const rates = parseExchangeRateCsv(await file.text(), FINANCIAL_CONSTANTS.SUPPORTED_CURRENCIES);
+    if (rates.length === 0) {
+      return c.json({ error: 'Rate file has no rows', code: 'VALIDATION_ERROR' }, 400);
+    }
+    if (rates.length > MAX_RATE_ROWS) {
+      return c.json({
+        error: `Rate file has ${rates.length} rows; upload at most ${MAX_RATE_ROWS} at a time`,
+        code: 'VALIDATION_ERROR'
+      }, 400);
+    }
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const saved = await dbAdapter.saveExchangeRates(rates, 'IMPORT', user.id);
+
+    return c.json({
+      saved,
+      message: `Loaded ${saved} exchange rate(s) from ${file.name}`
+    }, 201);
+  } catch (error: unknown) {
+    if (error instanceof ExchangeRateCsvError) {
+      return c.json({
+        error: error.message,
+        lineNumber: error.lineNumber,
+        code: 'EXCHANGE_RATE_CSV_ERROR'
+      }, 400);
+    }
+
+    console.error('Failed to upload exchange rates:', error);
+    return c.json({
+      error: 'Failed to upload exchange rates',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'EXCHANGE_RATE_UPLOAD_ERROR'
+    }, 500);
+  }
+});
+
+// GET /exchange-rates/:id - Single stored rate
+exchangeRatesRouter.get('/:id', async (c) => {
+  try {
+    const rateId = parseId(c.req.param('id'));
+    if (!rateId) {
+      return c.json({ error: 'Invalid exchange rate ID', code: 'INVALID_EXCHANGE_RATE_ID' }, 400);
+    }
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const rate = await dbAdapter.getExchangeRateById(rateId);
+    if (!rate) {
+      return c.json({ error: 'Exchange rate not found', code: 'EXCHANGE_RATE_NOT_FOUND' }, 404);
+    }
+
+    return c.json({ rate });
+  } catch (error: unknown) {
+    console.error('Failed to fetch exchange rate:', error);
+    return c.json({
+      error: 'Failed to fetch exchange rate',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'EXCHANGE_RATE_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// POST /exchange-rates - Enter a rate; replaces the rate for the same pair and date
+exchangeRatesRouter.post('/', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', createRateSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const body = c.req.valid('json');
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const rate = await dbAdapter.saveExchangeRate({ ...body, source: 'MANUAL' }, user.id);
+
+    return c.json({
+      rate,
+      message: 'Exchange rate saved successfully'
+    }, 201);
+  } catch (error: unknown) {
+    console.error('Failed to save exchange rate:', error);
+    return c.json({
+      error: 'Failed to save exchange rate',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'EXCHANGE_RATE_CREATE_ERROR'
+    }, 500);
+  }
+});
+
+// PUT /exchange-rates/:id - Correct a rate or its effective date
+exchangeRatesRouter.put('/:id', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', updateRateSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const rateId = parseId(c.req.param('id'));
+    if (!rateId) {
+      return c.json({ error: 'Invalid exchange rate ID', code: 'INVALID_EXCHANGE_RATE_ID' }, 400);
+    }
+
+    const updates = c.req.valid('json');
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const existing = await dbAdapter.getExchangeRateById(rateId);
+    if (!existing) {
+      return c.json({ error: 'Exchange rate not found', code: 'EXCHANGE_RATE_NOT_FOUND' }, 404);
+    }
+
+    // One rate per pair and date
+    if (updates.effectiveDate && updates.effectiveDate !== existing.effectiveDate) {
+      const clash = await dbAdapter.getExchangeRate(existing.fromCurrency, existing.toCurrency, updates.effectiveDate);
+      if (clash && clash.effectiveDate === updates.effectiveDate) {
+        return c.json({
+          error: `A ${existing.fromCurrency}/${existing.toCurrency} rate already exists for ${updates.effectiveDate}`,
+          code: 'EXCHANGE_RATE_EXISTS'
+        }, 409);
+      }
+    }
+
+    const rate = await dbAdapter.updateExchangeRate(rateId, updates, user.id);
+
+    return c.json({
+      rate,
+      message: 'Exchange rate updated successfully'
+    });
+  } catch (error: unknown) {
+    console.error('Failed to update exchange rate:', error);
+    return c.json({
+      error: 'Failed to update exchange rate',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'EXCHANGE_RATE_UPDATE_ERROR'
+    }, 500);
+  }
+});
+
+// DELETE /exchange-rates/:id - Remove a rate; lookups fall back to the previous date
+exchangeRatesRouter.delete('/:id', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), async (c) => {
+  try {
+    const rateId = parseId(c.req.param('id'));
+    if (!rateId) {
+      return c.json({ error: 'Invalid exchange rate ID', code: 'INVALID_EXCHANGE_RATE_ID' }, 400);
+    }
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const deleted = await dbAdapter.deleteExchangeRate(rateId);
+    if (!deleted) {
+      return c.json({ error: 'Exchange rate not found', code: 'EXCHANGE_RATE_NOT_FOUND' }, 404);
+    }
+
+    return c.json({ message: 'Exchange rate deleted successfully' });
+  } catch (error: unknown) {
+    console.error('Failed to delete exchange rate:', error);
+    return c.json({
+      error: 'Failed to delete exchange rate',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'EXCHANGE_RATE_DELETE_ERROR'
+    }, 500);
+  }
+});
+
+export default exchangeRatesRouter;
@@ -0,0 +1,164 @@
+/**
+ * FX Revaluation API
+ * Period-end revaluation of foreign-currency balances with unrealized and realized gain/loss postings
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { zValidator } from '@hono/zod-validator';
+import {
+  AccountingValidationError,
+  DatabaseAdapter,
+  DatabaseJournalEntryManager,
+  FxRevaluationService,
+  PeriodClosureError,
+  TransactionStateError,
+} from '../../../lib/index.worker.js';
+import type { AppContext, EntityVariables } from '../../types';
+import type { D1Database } from '@cloudflare/workers-types';
+import { authMiddleware, entityScopeMiddleware, requireRole } from '../../middleware/auth';
+import { getPostingContext } from '../../utils/permissions';
+
+const fxRevaluationsRouter = new Hono<AppContext & { Variables: EntityVariables }>();
+
+fxRevaluationsRouter.use('*', authMiddleware);
+fxRevaluationsRouter.use('*', entityScopeMiddleware);
+
+// Revaluation schemas
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+const revaluationOptionsSchema = z.object({
+  revaluationDate: isoDate,
+  unrealizedGainLossAccountId: z.coerce.number().int().positive().optional(),
+  realizedGainLossAccountId: z.coerce.number().int().positive().optional()
+});
+
+function createFxRevaluationService(database: D1Database, entityId: string) {
+  const dbAdapter = new DatabaseAdapter({ database, entityId });
+  return new FxRevaluationService(dbAdapter, new DatabaseJournalEntryManager(dbAdapter));
+}
+
+// Helper function to map revaluation errors to a status and response body
+function handleFxRevaluationError(error: unknown): { status: 400 | 409; body: Record<string, unknown> } | null {
+  if (error instanceof PeriodClosureError
+    || error instanceof TransactionStateError
+    || (error instanceof AccountingValidationError && error.code === 'FX_REVALUATION_EXISTS')) {
+    return {
+      status: 409,
+      body: { error: error.message, code: error.code, details: error.details }
+    };
+  }
+  if (error instanceof AccountingValidationError) {
+    return {
+      status: 400,
+      body: { error: error.message, code: error.code }
+    };
+  }
+  return null;
+}
+
+// GET /fx-revaluations - Revaluation runs for the entity
+fxRevaluationsRouter.get('/', async (c) => {
+  try {
+    const revaluations = await createFxRevaluationService(c.env.FINANCE_MANAGER_DB, c.get('entityId')).getHistory();
+
+    return c.json({
+      revaluations,
+      count: revaluations.length
+    });
+  } catch (error: unknown) {
+    console.error('Failed to fetch FX revaluations:', error);
+    return c.json({
+      error: 'Failed to fetch FX revaluations',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'FX_REVALUATIONS_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// GET /fx-revaluations/preview?revaluationDate=YYYY-MM-DD - Adjustments that would be posted
+fxRevaluationsRouter.get('/preview', async (c) => {
+  try {
+    const parsed = revaluationOptionsSchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid revaluation parameters',
+        details: parsed.error.issues,
+        code: 'VALIDATION_ERROR'
+      }, 400);
+    }
+
+    const { revaluationDate, ...options } = parsed.data;
+    const preview = await createFxRevaluationService(c.env.FINANCE_MANAGER_DB, c.get('entityId'))
+      .preview(revaluationDate, options);
+
+    return c.json({ preview });
+  } catch (error: unknown) {
+    const revaluationError = handleFxRevaluationError(error);
+    if (revaluationError) {
+      return c.json(revaluationError.body, revaluationError.status);
+    }
+
+    console.error('Failed to preview FX revaluation:', error);
+    return c.json({
+      error: 'Failed to preview FX revaluation',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'FX_REVALUATION_PREVIEW_ERROR'
+    }, 500);
+  }
+});
+
+// GET /fx-revaluations/:id - Run with its per-account lines
+fxRevaluationsRouter.get('/:id', async (c) => {
+  try {
+    const revaluationId = Number.parseInt(c.req.param('id'), 10);
+    if (Number.isNaN(revaluationId) || revaluationId <= 0) {
+      return c.json({ error: 'Invalid revaluation ID', code: 'INVALID_REVALUATION_ID' }, 400);
+    }
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const revaluation = await dbAdapter.getFxRevaluation(revaluationId);
+    if (!revaluation) {
+      return c.json({ error: 'FX revaluation not found', code: 'FX_REVALUATION_NOT_FOUND' }, 404);
+    }
+
+    return c.json({ revaluation });
+  } catch (error: unknown) {
+    console.error('Failed to fetch FX revaluation:', error);
+    return c.json({
+      error: 'Failed to fetch FX revaluation',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'FX_REVALUATION_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// POST /fx-revaluations - Post the period-end revaluation and its next-period reversal
+fxRevaluationsRouter.post('/', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', revaluationOptionsSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const { revaluationDate, ...options } = c.req.valid('json');
+
+    const result = await createFxRevaluationService(c.env.FINANCE_MANAGER_DB, c.get('entityId'))
+      .revalue(revaluationDate, getPostingContext(user), options);
+
+    return c.json({
+      ...result,
+      message: `Foreign currency balances revalued as of ${revaluationDate}`
+    }, 201);
+  } catch (error: unknown) {
+    const revaluationError = handleFxRevaluationError(error);
+    if (revaluationError) {
+      return c.json(revaluationError.body, revaluationError.status);
+    }
+
+    console.error('Failed to post FX revaluation:', error);
+    return c.json({
+      error: 'Failed to post FX revaluation',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'FX_REVALUATION_ERROR'
+    }, 500);
+  }
+});
+
+export default fxRevaluationsRouter;
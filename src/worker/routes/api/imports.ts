@@ -0,0 +1,297 @@
+/**
+ * Bank Statement Import API
+ * Import CSV, OFX/QFX and CAMT.053 statements into draft transactions
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { zValidator } from '@hono/zod-validator';
+import {
+  AccountingValidationError,
+  BankStatementImportService,
+  DatabaseAdapter,
+  DatabaseJournalEntryManager,
+} from '../../../lib/index.worker.js';
+import type { CsvColumnMapping, ImportLineCategorization, ParsedStatementLine, StatementFormat } from '../../../types/index.js';
+import { FinancialAIService, createAIService } from '../../../ai/index.js';
+import type { AppContext, EntityVariables } from '../../types';
+import { authMiddleware, entityScopeMiddleware, requireRole } from '../../middleware/auth';
+import { getPostingContext } from '../../utils/permissions';
+import { createCategorizationSuggestion } from '../../utils/categorization';
+import { StatementParseError, detectStatementFormat, parseStatement } from '../../utils/statement-import';
+
+const importsRouter = new Hono<AppContext & { Variables: EntityVariables }>();
+
+importsRouter.use('*', authMiddleware);
+importsRouter.use('*', entityScopeMiddleware);
+
+const MAX_STATEMENT_SIZE = 5 * 1024 * 1024; // 5MB
+
+// Import schemas
+const csvColumnMappingSchema = z.object({
+  delimiter: z.string().length(1).default(','),
+  hasHeader: z.boolean().default(true),
+  dateColumn: z.string().min(1, 'Date column is required'),
+  dateFormat: z.enum(['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD-MM-YYYY', 'YYYYMMDD']).default('YYYY-MM-DD'),
+  descriptionColumn: z.string().min(1, 'Description column is required'),
+  amountColumn: z.string().optional(),
+  debitColumn: z.string().optional(),
+  creditColumn: z.string().optional(),
+  referenceColumn: z.string().optional(),
+  externalIdColumn: z.string().optional(),
+  decimalSeparator: z.enum(['.', ',']).default('.')
+}).refine(
+  mapping => mapping.amountColumn || mapping.debitColumn || mapping.creditColumn,
+  { message: 'Map either an amount column or debit/credit columns', path: ['amountColumn'] }
+);
+
+const createProfileSchema = z.object({
+  name: z.string().min(1, 'Profile name is required').max(100),
+  bankAccountId: z.number().int().positive().optional(),
+  mapping: csvColumnMappingSchema
+});
+
+const importOptionsSchema = z.object({
+  bankAccountId: z.coerce.number().int().positive(),
+  suspenseAccountId: z.coerce.number().int().positive(),
+  format: z.enum(['CSV', 'OFX', 'CAMT053']).optional(),
+  profileId: z.coerce.number().int().positive().optional(),
+  categorize: z.enum(['true', 'false']).default('true')
+});
+
+function parseId(id: string): number | null {
+  const parsed = Number.parseInt(id, 10);
+  return Number.isNaN(parsed) || parsed <= 0 ? null : parsed;
+}
+
+// GET /imports - Statement import history
+importsRouter.get('/', async (c) => {
+  try {
+    const bankAccountId = c.req.query('bankAccountId');
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const imports = await dbAdapter.getBankStatementImports(bankAccountId ? Number.parseInt(bankAccountId, 10) : undefined);
+
+    return c.json({
+      imports,
+      count: imports.length
+    });
+  } catch (error: unknown) {
+    console.error('Failed to fetch statement imports:', error);
+    return c.json({
+      error: 'Failed to fetch statement imports',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'IMPORTS_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// GET /imports/profiles - Saved CSV column mappings
+importsRouter.get('/profiles', async (c) => {
+  try {
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const profiles = await dbAdapter.getImportProfiles();
+
+    return c.json({
+      profiles,
+      count: profiles.length
+    });
+  } catch (error: unknown) {
+    console.error('Failed to fetch import profiles:', error);
+    return c.json({
+      error: 'Failed to fetch import profiles',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'IMPORT_PROFILES_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// POST /imports/profiles - Save a CSV column mapping
+importsRouter.post('/profiles', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', createProfileSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const body = c.req.valid('json');
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const profile = await dbAdapter.createImportProfile(body, user.id);
+
+    return c.json({
+      profile,
+      message: 'Import profile saved successfully'
+    }, 201);
+  } catch (error: unknown) {
+    console.error('Failed to save import profile:', error);
+    return c.json({
+      error: 'Failed to save import profile',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'IMPORT_PROFILE_CREATE_ERROR'
+    }, 500);
+  }
+});
+
+// DELETE /imports/profiles/:id - Remove a saved mapping
+importsRouter.delete('/profiles/:id', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), async (c) => {
+  try {
+    const profileId = parseId(c.req.param('id'));
+    if (!profileId) {
+      return c.json({ error: 'Invalid profile ID', code: 'INVALID_PROFILE_ID' }, 400);
+    }
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const deleted = await dbAdapter.deleteImportProfile(profileId);
+    if (!deleted) {
+      return c.json({ error: 'Import profile not found', code: 'IMPORT_PROFILE_NOT_FOUND' }, 404);
+    }
+
+    return c.json({ message: 'Import profile deleted successfully' });
+  } catch (error: unknown) {
+    console.error('Failed to delete import profile:', error);
+    return c.json({
+      error: 'Failed to delete import profile',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'IMPORT_PROFILE_DELETE_ERROR'
+    }, 500);
+  }
+});
+
+// POST /imports/statements - Import a statement file (multipart: file, bankAccountId, suspenseAccountId, ...)
+importsRouter.post('/statements', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), async (c) => {
+  try {
+    const user = c.get('user');
+    const formData = await c.req.formData();
+    const file = formData.get('file') as File | null;
+
+    if (!file || !file.name) {
+      return c.json({ error: 'No statement file provided', code: 'VALIDATION_ERROR' }, 400);
+    }
+    if (file.size > MAX_STATEMENT_SIZE) {
+      return c.json({
+        error: 'Statement file too large',
+        maxSize: `${MAX_STATEMENT_SIZE / (1024 * 1024)}MB`,
+        code: 'VALIDATION_ERROR'
+      }, 413);
+    }
+
+    const parsedOptions = importOptionsSchema.safeParse({
+      bankAccountId: formData.get('bankAccountId'),
+      suspenseAccountId: formData.get('suspenseAccountId'),
+      format: formData.get('format') || undefined,
+      profileId: formData.get('profileId') || undefined,
+      categorize: formData.get('categorize') || undefined
+    });
+    if (!parsedOptions.success) {
+      return c.json({
+        error: 'Invalid import options',
+        details: parsedOptions.error.issues,
+        code: 'VALIDATION_ERROR'
+      }, 400);
+    }
+
+    const options = parsedOptions.data;
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const content = await file.text();
+    const format: StatementFormat = options.format || detectStatementFormat(file.name, content);
+
+    // CSV needs a saved profile or an inline mapping field (JSON)
+    let mapping: CsvColumnMapping | undefined;
+    if (format === 'CSV') {
+      if (options.profileId) {
+        const profile = await dbAdapter.getImportProfile(options.profileId);
+        if (!profile) {
+          return c.json({ error: 'Import profile not found', code: 'IMPORT_PROFILE_NOT_FOUND' }, 404);
+        }
+        mapping = profile.mapping;
+      } else if (formData.get('mapping')) {
+        let rawMapping: unknown;
+        try {
+          rawMapping = JSON.parse(formData.get('mapping') as string);
+        } catch {
+          return c.json({ error: 'CSV column mapping must be valid JSON', code: 'VALIDATION_ERROR' }, 400);
+        }
+
+        const inline = csvColumnMappingSchema.safeParse(rawMapping);
+        if (!inline.success) {
+          return c.json({
+            error: 'Invalid CSV column mapping',
+            details: inline.error.issues,
+            code: 'VALIDATION_ERROR'
+          }, 400);
+        }
+        mapping = inline.data;
+      } else {
+        return c.json({
+          error: 'CSV import requires profileId or mapping',
+          code: 'VALIDATION_ERROR'
+        }, 400);
+      }
+    }
+
+    const lines = parseStatement(format, content, mapping);
+
+    // Every line goes through the categorization suggestion flow
+    let categorize: ((line: ParsedStatementLine) => Promise<ImportLineCategorization | null>) | undefined;
+    if (options.categorize === 'true') {
+      const financialAI = new FinancialAIService(createAIService());
+      categorize = async (line) => {
+        const suggestion = await createCategorizationSuggestion(
+          financialAI,
+          dbAdapter,
+          c.env.FINANCE_MANAGER_CACHE,
+          user.id,
+          { description: line.description, amount: Math.abs(line.amount) }
+        );
+        return {
+          suggestionId: suggestion.suggestionId,
+          category: suggestion.category,
+          accountId: suggestion.accountId ? Number.parseInt(suggestion.accountId, 10) : undefined,
+          confidence: suggestion.confidence,
+          requiresApproval: suggestion.requiresApproval
+        };
+      };
+    }
+
+    const journalManager = new DatabaseJournalEntryManager(dbAdapter);
+    const result = await new BankStatementImportService(dbAdapter, journalManager).importLines(
+      options.bankAccountId,
+      lines,
+      {
+        format,
+        suspenseAccountId: options.suspenseAccountId,
+        fileName: file.name,
+        profileId: options.profileId,
+        categorize
+      },
+      getPostingContext(user)
+    );
+
+    return c.json({
+      ...result,
+      message: `Imported ${result.import.importedLines} of ${result.import.totalLines} statement line(s); `
+        + `${result.import.duplicateLines} duplicate(s), ${result.import.failedLines} failed`
+    }, 201);
+  } catch (error: unknown) {
+    if (error instanceof StatementParseError) {
+      return c.json({
+        error: error.message,
+        format: error.format,
+        lineNumber: error.lineNumber,
+        code: 'STATEMENT_PARSE_ERROR'
+      }, 400);
+    }
+    if (error instanceof AccountingValidationError) {
+      return c.json({
+        error: error.message,
+        code: error.code
+      }, error.code === 'ACCOUNT_NOT_FOUND' ? 404 : 400);
+    }
+
+    console.error('Failed to import bank statement:', error);
+    return c.json({
+      error: 'Failed to import bank statement',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'STATEMENT_IMPORT_ERROR'
+    }, 500);
+  }
+});
+
+export default importsRouter;
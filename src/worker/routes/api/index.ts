@@ -1,14 +1,26 @@
 import { Hono } from 'hono'
 import accountsRouter from './accounts'
+import approvalsRouter from './approvals'
 import authRouter from './auth'
 import categoriesRouter from './categories'
 import budgetsRouter from './budgets'
 import categorizationRouter from './categorization'
+import consolidationRouter from './consolidation'
+import dimensionsRouter from './dimensions'
+import importsRouter from './imports'
+import fxRevaluationsRouter from './fx-revaluations'
+import exchangeRatesRouter from './exchange-rates'
+import recurringRouter from './recurring'
+import ledgerRouter from './ledger'
 import notificationsRouter from './notifications'
+import periodsRouter from './periods'
+import receivablesRouter from './receivables'
+import reconciliationsRouter from './reconciliations'
 import reportsRouter from './reports'
 import transactionsRouter from './transactions'
 import uploadsRouter from './uploads'
 import vectorizeRouter from './vectorize'
+import yearEndRouter from './year-end'
 import type { AppContext } from '../../types'
 
 // Create main API router
@@ -28,6 +40,18 @@ api.get('/', (c) => {
       categorization: '/api/categorization - AI-powered transaction categorization',
       notifications: '/api/notifications - Email notifications and alerts',
       transactions: '/api/transactions - Financial transactions',
+      ledger: '/api/ledger - General ledger with running balances',
+      approvals: '/api/approvals - Transaction approval queue and rules',
+      periods: '/api/periods - Fiscal periods and period close',
+      imports: '/api/imports - Bank statement import (CSV, OFX/QFX, CAMT.053)',
+      fxRevaluations: '/api/fx-revaluations - Period-end FX revaluation and gain/loss postings',
+      exchangeRates: '/api/exchange-rates - Exchange rate management, CSV upload and lookup',
+      dimensions: '/api/dimensions - Departments, projects, cost centers and required dimensions per account',
+      receivables: '/api/receivables - Customers, sales invoices, credit notes, receipts and AR aging',
+      recurringTemplates: '/api/recurring-templates - Recurring transaction templates and scheduled generation',
+      reconciliations: '/api/reconciliations - Bank reconciliation sessions and matching',
+      yearEndClose: '/api/year-end-close - Year-end close into retained earnings',
+      consolidation: '/api/consolidation - Entity hierarchy, intercompany transactions and eliminations, consolidated statements',
       reports: '/api/reports - Financial reporting',
       uploads: '/api/uploads - File upload and document management',
       vectorize: '/api/vectorize - Document embeddings and semantic search'
@@ -51,6 +75,7 @@ api.get('/', (c) => {
       list: 'GET /api/uploads - List files',
       download: 'GET /api/uploads/{fileId} - Download file',
       metadata: 'GET /api/uploads/{fileId}/metadata - Get file metadata',
+      createTransaction: 'POST /api/uploads/{fileId}/create-transaction - Draft transaction from an OCR\'d receipt or invoice',
       delete: 'DELETE /api/uploads/{fileId} - Delete file'
     },
     documentation: 'https://github.com/irfndi/finance-manager#api-documentation'
@@ -65,6 +90,18 @@ api.route('/budgets', budgetsRouter)
 api.route('/categorization', categorizationRouter)
 api.route('/notifications', notificationsRouter)
 api.route('/transactions', transactionsRouter)
+api.route('/ledger', ledgerRouter)
+api.route('/approvals', approvalsRouter)
+api.route('/periods', periodsRouter)
+api.route('/year-end-close', yearEndRouter)
+api.route('/consolidation', consolidationRouter)
+api.route('/reconciliations', reconciliationsRouter)
+api.route('/imports', importsRouter)
+api.route('/fx-revaluations', fxRevaluationsRouter)
+api.route('/exchange-rates', exchangeRatesRouter)
+api.route('/dimensions', dimensionsRouter)
+api.route('/receivables', receivablesRouter)
+api.route('/recurring-templates', recurringRouter)
 api.route('/reports', reportsRouter)
 api.route('/uploads', uploadsRouter)
 api.route('/vectorize', vectorizeRouter)
@@ -82,6 +119,18 @@ api.get('/health', (c) => {
         categorization: 'operational',
         notifications: 'operational',
         transactions: 'operational',
+        ledger: 'operational',
+        approvals: 'operational',
+        periods: 'operational',
+        yearEndClose: 'operational',
+        consolidation: 'operational',
+        reconciliations: 'operational',
+        imports: 'operational',
+        fxRevaluations: 'operational',
+        exchangeRates: 'operational',
+        dimensions: 'operational',
+        receivables: 'operational',
+        recurringTemplates: 'operational',
         reports: 'operational',
         uploads: 'operational',
         vectorize: 'operational'
@@ -106,7 +155,21 @@ api.all('*', (c) => {
         'GET /api/auth/validate',
         'GET /api/accounts',
         'POST /api/accounts',
+        'GET /api/accounts/templates',
+        'GET /api/accounts/templates/:templateId',
+        'POST /api/accounts/templates/:templateId/apply',
+        'GET /api/accounts/export',
+        'POST /api/accounts/import',
+        'GET /api/accounts/hierarchy',
+        'POST /api/accounts/hierarchy/rebuild',
         'GET /api/accounts/:id',
+        'PUT /api/accounts/:id',
+        'DELETE /api/accounts/:id',
+        'GET /api/accounts/:id/usage',
+        'POST /api/accounts/:id/deactivate',
+        'POST /api/accounts/:id/activate',
+        'POST /api/accounts/:id/move',
+        'POST /api/accounts/:id/merge',
         'POST /api/categorization/suggest',
         'GET /api/categorization/pending',
         'POST /api/categorization/approve',
@@ -116,13 +179,95 @@ api.all('*', (c) => {
         'GET /api/transactions',
         'POST /api/transactions',
         'GET /api/transactions/:id',
+        'POST /api/transactions/:id/post',
+        'POST /api/transactions/:id/void',
+        'POST /api/transactions/:id/reverse',
+        'POST /api/transactions/:id/submit',
+        'POST /api/transactions/:id/approve',
+        'POST /api/transactions/:id/reject',
+        'GET /api/transactions/:id/approvals',
+        'GET /api/transactions/:id/attachments',
+        'POST /api/transactions/:id/attachments',
+        'DELETE /api/transactions/:id/attachments/:attachmentId',
+        'GET /api/ledger',
+        'GET /api/approvals/queue',
+        'GET /api/approvals/rules',
+        'PUT /api/approvals/rules',
+        'GET /api/periods',
+        'GET /api/periods/check',
+        'POST /api/periods',
+        'POST /api/periods/generate',
+        'POST /api/periods/:id/close',
+        'POST /api/periods/:id/reopen',
+        'GET /api/year-end-close',
+        'GET /api/year-end-close/:fiscalYear/preview',
+        'POST /api/year-end-close/:fiscalYear',
+        'POST /api/year-end-close/:fiscalYear/undo',
+        'GET /api/reconciliations',
+        'POST /api/reconciliations',
+        'GET /api/reconciliations/:id',
+        'POST /api/reconciliations/:id/lines',
+        'POST /api/reconciliations/:id/auto-match',
+        'POST /api/reconciliations/:id/match',
+        'DELETE /api/reconciliations/:id/lines/:lineId/match',
+        'GET /api/reconciliations/:id/report',
+        'POST /api/reconciliations/:id/complete',
+        'GET /api/imports',
+        'POST /api/imports/statements',
+        'GET /api/imports/profiles',
+        'POST /api/imports/profiles',
+        'DELETE /api/imports/profiles/:id',
+        'GET /api/fx-revaluations',
+        'GET /api/fx-revaluations/preview',
+        'GET /api/fx-revaluations/:id',
+        'POST /api/fx-revaluations',
+        'GET /api/exchange-rates',
+        'GET /api/exchange-rates/lookup',
+        'GET /api/exchange-rates/:id',
+        'POST /api/exchange-rates',
+        'POST /api/exchange-rates/upload',
+        'PUT /api/exchange-rates/:id',
+        'DELETE /api/exchange-rates/:id',
+        'GET /api/dimensions',
+        'POST /api/dimensions',
+        'PUT /api/dimensions/:id',
+        'DELETE /api/dimensions/:id',
+        'GET /api/dimensions/rules',
+        'PUT /api/dimensions/rules/:accountId',
+        'GET /api/receivables/customers',
+        'GET /api/receivables/customers/:id',
+        'POST /api/receivables/customers',
+        'PUT /api/receivables/customers/:id',
+        'GET /api/receivables/invoices',
+        'GET /api/receivables/invoices/:id',
+        'POST /api/receivables/invoices',
+        'POST /api/receivables/credit-notes',
+        'POST /api/receivables/invoices/:id/issue',
+        'POST /api/receivables/invoices/:id/void',
+        'POST /api/receivables/credit-notes/:id/apply',
+        'GET /api/receivables/receipts',
+        'GET /api/receivables/receipts/:id',
+        'POST /api/receivables/receipts',
+        'POST /api/receivables/receipts/:id/apply',
+        'GET /api/receivables/aging',
+        'GET /api/receivables/turnover',
+        'GET /api/recurring-templates',
+        'GET /api/recurring-templates/:id',
+        'GET /api/recurring-templates/:id/preview',
+        'POST /api/recurring-templates',
+        'POST /api/recurring-templates/run',
+        'PUT /api/recurring-templates/:id',
+        'DELETE /api/recurring-templates/:id',
         'GET /api/reports/trial-balance',
         'GET /api/reports/balance-sheet',
         'GET /api/reports/income-statement',
+        'GET /api/reports/cash-forecast',
+        'POST /api/reports/cash-forecast',
         'POST /api/uploads',
         'GET /api/uploads',
         'GET /api/uploads/{fileId}',
         'GET /api/uploads/{fileId}/metadata',
+        'POST /api/uploads/{fileId}/create-transaction',
         'DELETE /api/uploads/{fileId}'
       ],
     code: 'API_ENDPOINT_NOT_FOUND'
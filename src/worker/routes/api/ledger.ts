@@ -0,0 +1,108 @@
+/**
+ * General Ledger API
+ * Journal lines per account with opening, running and closing balances
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import {
+  AccountingValidationError,
+  DatabaseAdapter,
+  FINANCIAL_CONSTANTS,
+  GeneralLedgerService,
+  formatCurrency,
+} from '../../../lib/index.worker.js';
+import type { TransactionStatus } from '../../../types/index.js';
+import type { AppContext, EntityVariables } from '../../types';
+import { authMiddleware, entityScopeMiddleware } from '../../middleware/auth';
+
+const ledgerRouter = new Hono<AppContext & { Variables: EntityVariables }>();
+
+ledgerRouter.use('*', authMiddleware);
+ledgerRouter.use('*', entityScopeMiddleware);
+
+const TRANSACTION_STATUSES = ['DRAFT', 'PENDING', 'APPROVED', 'POSTED', 'CANCELLED', 'REVERSED', 'VOID'] as const;
+
+// Ledger query schema
+const ledgerQuerySchema = z.object({
+  accountId: z.coerce.number().int().positive(),
+  startDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format').optional(),
+  endDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format').optional(),
+  entityId: z.string().min(1).optional(),
+  isReconciled: z.enum(['true', 'false']).optional(),
+  status: z.string().optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(GeneralLedgerService.MAX_PAGE_SIZE).optional()
+}).refine(
+  data => !data.startDate || !data.endDate || data.startDate <= data.endDate,
+  { message: 'startDate must be on or before endDate', path: ['startDate'] }
+);
+
+// GET /ledger - General ledger for one account
+ledgerRouter.get('/', async (c) => {
+  try {
+    const parsed = ledgerQuerySchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid ledger query',
+        details: parsed.error.issues,
+        code: 'VALIDATION_ERROR'
+      }, 400);
+    }
+
+    const query = parsed.data;
+    const statuses = query.status
+      ? query.status.split(',').map(status => status.trim().toUpperCase())
+      : [];
+    const invalidStatus = statuses.find(status => !(TRANSACTION_STATUSES as readonly string[]).includes(status));
+    if (invalidStatus) {
+      return c.json({
+        error: `Unsupported transaction status: ${invalidStatus}`,
+        supportedStatuses: TRANSACTION_STATUSES,
+        code: 'VALIDATION_ERROR'
+      }, 400);
+    }
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const ledger = await new GeneralLedgerService(dbAdapter).getAccountLedger(
+      query.accountId,
+      {
+        startDate: query.startDate,
+        endDate: query.endDate,
+        statuses: statuses as TransactionStatus[],
+        isReconciled: query.isReconciled === undefined ? undefined : query.isReconciled === 'true'
+      },
+      { cursor: query.cursor, limit: query.limit }
+    );
+
+    return c.json({
+      ledger: {
+        ...ledger,
+        formattedOpeningBalance: formatCurrency(ledger.openingBalance, FINANCIAL_CONSTANTS.DEFAULT_CURRENCY),
+        formattedClosingBalance: formatCurrency(ledger.closingBalance, FINANCIAL_CONSTANTS.DEFAULT_CURRENCY)
+      },
+      entityId: c.get('entityId'),
+      pagination: {
+        limit: query.limit || GeneralLedgerService.DEFAULT_PAGE_SIZE,
+        nextCursor: ledger.nextCursor,
+        hasMore: ledger.hasMore
+      }
+    });
+  } catch (error: unknown) {
+    if (error instanceof AccountingValidationError) {
+      return c.json({
+        error: error.message,
+        code: error.code
+      }, error.code === 'ACCOUNT_NOT_FOUND' ? 404 : 400);
+    }
+
+    console.error('Failed to fetch general ledger:', error);
+    return c.json({
+      error: 'Failed to fetch general ledger',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'LEDGER_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+export default ledgerRouter;
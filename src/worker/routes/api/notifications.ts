@@ -348,7 +348,7 @@ Description: ${transaction.description || 'N/A'}
   };
 }
 
-function generateBudgetWarningEmail(data: any) {
+export function generateBudgetWarningEmail(data: any) {
   const { budget, currentAmount } = data;
   const percentage = Math.round((currentAmount / budget.amount) * 100);
   
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import periodsRouter from './periods';
+import transactionsRouter from './transactions';
+import { createTestAccount, createTestAdapter } from '../../../../tests/helpers/ledger';
+import { TEST_ENV, authHeaders, createTestUser } from '../../../../tests/helpers/auth';
+
+describe('period routes', () => {
+  beforeEach(async () => {
+    await createTestUser({ id: 'controller', role: 'ADMIN', entityId: 'entity-1' });
+    await createTestUser({ id: 'clerk', role: 'USER', entityId: 'entity-1' });
+    await createTestUser({ id: 'other-clerk', role: 'USER', entityId: 'entity-2' });
+  });
+
+  async function closeMarch2024(): Promise<void> {
+    const generated = await periodsRouter.request('/generate', {
+      method: 'POST',
+      headers: await authHeaders('controller'),
+      body: JSON.stringify({ fiscalYear: 2024 })
+    }, TEST_ENV);
+    expect(generated.status).toBe(201);
+    const { periods } = await generated.json() as { periods: Array<{ id: number; periodNumber: number }> };
+
+    const march = periods.find(period => period.periodNumber === 3);
+    const closed = await periodsRouter.request(`/${march?.id}/close`, {
+      method: 'POST',
+      headers: await authHeaders('controller'),
+      body: JSON.stringify({ mode: 'HARD' })
+    }, TEST_ENV);
+    expect(closed.status).toBe(200);
+  }
+
+  it('closes the period for everyone posting to the entity', async () => {
+    const adapter = createTestAdapter('entity-1');
+    const cash = await createTestAccount(adapter, '1000', 'ASSET');
+    const revenue = await createTestAccount(adapter, '4000', 'REVENUE');
+    await closeMarch2024();
+
+    const check = await periodsRouter.request('/check?date=2024-03-15', { headers: await authHeaders('clerk') }, TEST_ENV);
+    expect(await check.json()).toMatchObject({ status: 'HARD_CLOSED', postingAllowed: false });
+
+    const created = await transactionsRouter.request('/', {
+      method: 'POST',
+      headers: await authHeaders('clerk'),
+      body: JSON.stringify({
+        description: 'Late invoice',
+        transactionDate: '2024-03-15',
+        entries: [
+          { accountId: cash.id, debitAmount: 100 },
+          { accountId: revenue.id, creditAmount: 100 }
+        ]
+      })
+    }, TEST_ENV);
+    expect(created.status).toBe(409);
+  });
+
+  it('leaves other entities open', async () => {
+    await closeMarch2024();
+
+    const check = await periodsRouter.request('/check?date=2024-03-15', { headers: await authHeaders('other-clerk') }, TEST_ENV);
+    expect(await check.json()).toMatchObject({ status: 'OPEN', postingAllowed: true });
+  });
+});
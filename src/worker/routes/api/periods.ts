@@ -0,0 +1,250 @@
+/**
+ * Fiscal Periods API
+ * Define accounting periods and soft/hard close them per entity
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { zValidator } from '@hono/zod-validator';
+import {
+  DatabaseAdapter,
+  FiscalPeriodManager,
+  FiscalYearError,
+  PERIOD_OVERRIDE_PERMISSION,
+} from '../../../lib/index.worker.js';
+import type { AppContext, EntityVariables } from '../../types';
+import type { D1Database } from '@cloudflare/workers-types';
+import { authMiddleware, entityScopeMiddleware, requireRole } from '../../middleware/auth';
+import { hasPermission } from '../../utils/permissions';
+
+const periodsRouter = new Hono<AppContext & { Variables: EntityVariables }>();
+
+periodsRouter.use('*', authMiddleware);
+periodsRouter.use('*', entityScopeMiddleware);
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+// Fiscal period schemas
+const createPeriodSchema = z.object({
+  name: z.string().min(1, 'Period name is required').max(50),
+  fiscalYear: z.number().int().min(1900).max(9999),
+  periodNumber: z.number().int().min(1).max(13),
+  startDate: isoDate,
+  endDate: isoDate
+});
+
+const generateYearSchema = z.object({
+  fiscalYear: z.number().int().min(1900).max(9999),
+  startMonth: z.number().int().min(1).max(12).default(1)
+});
+
+const closePeriodSchema = z.object({
+  mode: z.enum(['SOFT', 'HARD']).default('SOFT')
+});
+
+function createPeriodManager(database: D1Database, entityId: string) {
+  return new FiscalPeriodManager(new DatabaseAdapter({ database, entityId }));
+}
+
+function parsePeriodId(id: string): number | null {
+  const periodId = Number.parseInt(id, 10);
+  return Number.isNaN(periodId) || periodId <= 0 ? null : periodId;
+}
+
+function handleFiscalYearError(error: unknown) {
+  if (error instanceof FiscalYearError) {
+    return {
+      error: error.message,
+      code: error.code
+    };
+  }
+  return null;
+}
+
+// GET /periods - List fiscal periods, optionally for one fiscal year
+periodsRouter.get('/', async (c) => {
+  try {
+    const fiscalYear = c.req.query('fiscalYear');
+
+    const periods = await createPeriodManager(c.env.FINANCE_MANAGER_DB, c.get('entityId'))
+      .getPeriods(fiscalYear ? Number.parseInt(fiscalYear, 10) : undefined);
+
+    return c.json({
+      periods,
+      count: periods.length
+    });
+  } catch (error: unknown) {
+    console.error('Failed to fetch fiscal periods:', error);
+    return c.json({
+      error: 'Failed to fetch fiscal periods',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'PERIODS_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// GET /periods/check?date=YYYY-MM-DD - Whether the current user may post on a date
+periodsRouter.get('/check', async (c) => {
+  try {
+    const user = c.get('user');
+    const date = c.req.query('date');
+
+    if (!date || !isoDate.safeParse(date).success) {
+      return c.json({
+        error: 'A date in YYYY-MM-DD format is required',
+        code: 'VALIDATION_ERROR'
+      }, 400);
+    }
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const period = await dbAdapter.getFiscalPeriodForDate(date);
+    const canOverride = hasPermission(user, PERIOD_OVERRIDE_PERMISSION);
+
+    return c.json({
+      date,
+      period,
+      status: period?.status || 'OPEN',
+      postingAllowed: !period
+        || period.status === 'OPEN'
+        || (period.status === 'SOFT_CLOSED' && canOverride)
+    });
+  } catch (error: unknown) {
+    console.error('Failed to check fiscal period:', error);
+    return c.json({
+      error: 'Failed to check fiscal period',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'PERIOD_CHECK_ERROR'
+    }, 500);
+  }
+});
+
+// POST /periods - Define a single (e.g. adjustment) period
+periodsRouter.post('/', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', createPeriodSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const period = c.req.valid('json');
+
+    const [created] = await createPeriodManager(c.env.FINANCE_MANAGER_DB, c.get('entityId'))
+      .createPeriods([period], user.id);
+
+    return c.json({
+      period: created,
+      message: 'Fiscal period created successfully'
+    }, 201);
+  } catch (error: unknown) {
+    const fiscalYearError = handleFiscalYearError(error);
+    if (fiscalYearError) {
+      return c.json(fiscalYearError, 400);
+    }
+
+    console.error('Failed to create fiscal period:', error);
+    return c.json({
+      error: 'Failed to create fiscal period',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'PERIOD_CREATE_ERROR'
+    }, 500);
+  }
+});
+
+// POST /periods/generate - Create twelve monthly periods for a fiscal year
+periodsRouter.post('/generate', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', generateYearSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const { fiscalYear, startMonth } = c.req.valid('json');
+
+    const periods = await createPeriodManager(c.env.FINANCE_MANAGER_DB, c.get('entityId'))
+      .generateFiscalYear(fiscalYear, startMonth, user.id);
+
+    return c.json({
+      periods,
+      count: periods.length,
+      message: `Fiscal year ${fiscalYear} created successfully`
+    }, 201);
+  } catch (error: unknown) {
+    const fiscalYearError = handleFiscalYearError(error);
+    if (fiscalYearError) {
+      return c.json(fiscalYearError, 400);
+    }
+
+    console.error('Failed to generate fiscal year:', error);
+    return c.json({
+      error: 'Failed to generate fiscal year',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'PERIOD_GENERATE_ERROR'
+    }, 500);
+  }
+});
+
+// POST /periods/:id/close - Soft or hard close a period
+periodsRouter.post('/:id/close', requireRole(['ADMIN', 'SUPER_ADMIN']), zValidator('json', closePeriodSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const periodId = parsePeriodId(c.req.param('id'));
+    if (!periodId) {
+      return c.json({ error: 'Invalid period ID', code: 'INVALID_PERIOD_ID' }, 400);
+    }
+
+    const { mode } = c.req.valid('json');
+    const period = await createPeriodManager(c.env.FINANCE_MANAGER_DB, c.get('entityId'))
+      .closePeriod(periodId, mode === 'HARD' ? 'HARD_CLOSED' : 'SOFT_CLOSED', user.id);
+
+    return c.json({
+      period,
+      message: `Fiscal period ${period.name} is now ${period.status}`
+    });
+  } catch (error: unknown) {
+    const fiscalYearError = handleFiscalYearError(error);
+    if (fiscalYearError) {
+      return c.json(fiscalYearError, 400);
+    }
+
+    console.error('Failed to close fiscal period:', error);
+    return c.json({
+      error: 'Failed to close fiscal period',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'PERIOD_CLOSE_ERROR'
+    }, 500);
+  }
+});
+
+// POST /periods/:id/reopen - Reopen a closed period (hard-closed periods need SUPER_ADMIN)
+periodsRouter.post('/:id/reopen', requireRole(['ADMIN', 'SUPER_ADMIN']), async (c) => {
+  try {
+    const user = c.get('user');
+    const periodId = parsePeriodId(c.req.param('id'));
+    if (!periodId) {
+      return c.json({ error: 'Invalid period ID', code: 'INVALID_PERIOD_ID' }, 400);
+    }
+
+    const periodManager = createPeriodManager(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+    const existing = await periodManager.getPeriodOrThrow(periodId);
+
+    if (existing.status === 'HARD_CLOSED' && user.role !== 'SUPER_ADMIN') {
+      return c.json({
+        error: 'Forbidden',
+        message: `Period ${existing.name} is hard-closed and can only be reopened by SUPER_ADMIN`
+      }, 403);
+    }
+
+    const period = await periodManager.reopenPeriod(periodId, user.id);
+
+    return c.json({
+      period,
+      message: `Fiscal period ${period.name} reopened`
+    });
+  } catch (error: unknown) {
+    const fiscalYearError = handleFiscalYearError(error);
+    if (fiscalYearError) {
+      return c.json(fiscalYearError, 400);
+    }
+
+    console.error('Failed to reopen fiscal period:', error);
+    return c.json({
+      error: 'Failed to reopen fiscal period',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'PERIOD_REOPEN_ERROR'
+    }, 500);
+  }
+});
+
+export default periodsRouter;
@@ -0,0 +1,627 @@
+/**
+ * Receivables API
+ * Customers, sales invoices and credit notes, customer receipts and their applications, and AR aging
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { zValidator } from '@hono/zod-validator';
+import {
+  AccountingValidationError,
+  ApprovalError,
+  DatabaseAccountRegistry,
+  DatabaseAdapter,
+  DatabaseJournalEntryManager,
+  FINANCIAL_CONSTANTS,
+  PeriodClosureError,
+  ReceivablesService,
+  TransactionStateError,
+} from '../../../lib/index.worker.js';
+import type { Currency, SalesDocumentStatus, SalesDocumentType } from '../../../types/index.js';
+import type { AppContext, EntityVariables } from '../../types';
+import type { D1Database } from '@cloudflare/workers-types';
+import { authMiddleware, entityScopeMiddleware, requireRole } from '../../middleware/auth';
+import { canAccessEntity, getPostingContext } from '../../utils/permissions';
+
+const receivablesRouter = new Hono<AppContext & { Variables: EntityVariables }>();
+
+receivablesRouter.use('*', authMiddleware);
+receivablesRouter.use('*', entityScopeMiddleware);
+
+// Receivables schemas
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+const currencySchema = z.enum(FINANCIAL_CONSTANTS.SUPPORTED_CURRENCIES as [Currency, ...Currency[]]);
+const accountIdSchema = z.coerce.number().int().positive();
+
+const customerSchema = z.object({
+  code: z.string().min(1, 'Code is required'),
+  name: z.string().min(1, 'Name is required'),
+  email: z.string().email().optional(),
+  phone: z.string().optional(),
+  billingAddress: z.string().optional(),
+  taxId: z.string().optional(),
+  currency: currencySchema.optional(),
+  paymentTermsDays: z.number().int().min(0).max(365).optional(),
+  receivableAccountId: accountIdSchema.optional(),
+  isActive: z.boolean().optional()
+});
+
+const updateCustomerSchema = customerSchema.omit({ code: true, currency: true }).partial()
+  .refine(updates => Object.values(updates).some(value => value !== undefined), {
+    message: 'Provide at least one field to update'
+  });
+
+const invoiceSchema = z.object({
+  customerId: z.number().int().positive(),
+  documentNumber: z.string().min(1).optional(),
+  originalInvoiceId: z.number().int().positive().optional(),
+  issueDate: isoDate,
+  dueDate: isoDate.optional(),
+  currency: currencySchema.optional(),
+  lines: z.array(z.object({
+    description: z.string().min(1, 'Description is required'),
+    quantity: z.number().positive(),
+    unitPrice: z.number().min(0),
+    revenueAccountId: accountIdSchema,
+    departmentId: z.string().optional(),
+    projectId: z.string().optional(),
+    costCenterId: z.string().optional()
+  })).min(1, 'At least one line is required'),
+  taxAmount: z.number().min(0).optional(),
+  taxAccountId: accountIdSchema.optional(),
+  reference: z.string().optional(),
+  notes: z.string().optional()
+});
+
+const applicationsSchema = z.array(z.object({
+  invoiceId: z.number().int().positive(),
+  amount: z.number().positive()
+}));
+
+const applySchema = z.object({
+  applications: applicationsSchema.min(1, 'At least one application is required'),
+  appliedDate: isoDate.optional()
+});
+
+const receiptSchema = z.object({
+  customerId: z.number().int().positive(),
+  receiptNumber: z.string().min(1).optional(),
+  receiptDate: isoDate,
+  amount: z.number().positive(),
+  currency: currencySchema.optional(),
+  depositAccountId: accountIdSchema,
+  reference: z.string().optional(),
+  applications: applicationsSchema.optional()
+});
+
+const invoiceQuerySchema = z.object({
+  customerId: z.coerce.number().int().positive().optional(),
+  type: z.enum(['INVOICE', 'CREDIT_NOTE']).optional(),
+  status: z.enum(['DRAFT', 'ISSUED', 'PARTIALLY_PAID', 'PAID', 'VOID']).optional()
+});
+
+const agingQuerySchema = z.object({
+  asOfDate: isoDate.optional(),
+  customerId: z.coerce.number().int().positive().optional(),
+  entityIds: z.string().optional()
+});
+
+async function createReceivablesService(database: D1Database, entityId: string) {
+  const dbAdapter = new DatabaseAdapter({ database, entityId });
+  const accountRegistry = new DatabaseAccountRegistry(dbAdapter);
+  await accountRegistry.loadAccountsFromDatabase();
+  const receivables = new ReceivablesService(dbAdapter, new DatabaseJournalEntryManager(dbAdapter, accountRegistry));
+
+  return { dbAdapter, receivables };
+}
+
+function parseId(id: string): number | null {
+  const parsed = Number.parseInt(id, 10);
+  return Number.isNaN(parsed) || parsed <= 0 ? null : parsed;
+}
+
+// Helper function to map receivables errors to a status and response body
+function handleReceivablesError(error: unknown): { status: 400 | 403 | 404 | 409; body: Record<string, unknown> } | null {
+  if (error instanceof ApprovalError) {
+    return { status: 403, body: { error: error.message, code: error.code } };
+  }
+  if (error instanceof PeriodClosureError || error instanceof TransactionStateError) {
+    return { status: 409, body: { error: error.message, code: error.code, details: error.details } };
+  }
+  if (error instanceof AccountingValidationError) {
+    const status = error.code.endsWith('_NOT_FOUND') ? 404 : error.code.startsWith('DUPLICATE_') ? 409 : 400;
+    return { status, body: { error: error.message, code: error.code, details: error.details } };
+  }
+  return null;
+}
+
+// GET /receivables/customers?active=true - Customers by code
+receivablesRouter.get('/customers', async (c) => {
+  try {
+    const active = c.req.query('active');
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const customers = await dbAdapter.getCustomers(active === undefined ? {} : { isActive: active === 'true' });
+
+    return c.json({ customers, count: customers.length });
+  } catch (error: unknown) {
+    console.error('Failed to fetch customers:', error);
+    return c.json({
+      error: 'Failed to fetch customers',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'CUSTOMERS_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// GET /receivables/customers/:id - Customer with its aging
+receivablesRouter.get('/customers/:id', async (c) => {
+  try {
+    const customerId = parseId(c.req.param('id'));
+    if (!customerId) {
+      return c.json({ error: 'Invalid customer ID', code: 'INVALID_CUSTOMER_ID' }, 400);
+    }
+
+    const { dbAdapter, receivables } = await createReceivablesService(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+    const customer = await dbAdapter.getCustomer(customerId);
+    if (!customer) {
+      return c.json({ error: 'Customer not found', code: 'CUSTOMER_NOT_FOUND' }, 404);
+    }
+
+    const aging = await receivables.getAging(new Date().toISOString().split('T')[0], customerId);
+    return c.json({ customer, aging: aging.customers[0] || null });
+  } catch (error: unknown) {
+    console.error('Failed to fetch customer:', error);
+    return c.json({
+      error: 'Failed to fetch customer',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'CUSTOMER_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// POST /receivables/customers - Add a customer
+receivablesRouter.post('/customers', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', customerSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const { receivables } = await createReceivablesService(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+    const customer = await receivables.createCustomer(c.req.valid('json'), user.id);
+
+    return c.json({
+      customer,
+      message: 'Customer created successfully'
+    }, 201);
+  } catch (error: unknown) {
+    const receivablesError = handleReceivablesError(error);
+    if (receivablesError) {
+      return c.json(receivablesError.body, receivablesError.status);
+    }
+
+    console.error('Failed to create customer:', error);
+    return c.json({
+      error: 'Failed to create customer',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'CUSTOMER_CREATE_ERROR'
+    }, 500);
+  }
+});
+
+// PUT /receivables/customers/:id - Update contact details, terms, receivable account or status
+receivablesRouter.put('/customers/:id', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', updateCustomerSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const customerId = parseId(c.req.param('id'));
+    if (!customerId) {
+      return c.json({ error: 'Invalid customer ID', code: 'INVALID_CUSTOMER_ID' }, 400);
+    }
+
+    const { receivables } = await createReceivablesService(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+    const customer = await receivables.updateCustomer(customerId, c.req.valid('json'), user.id);
+
+    return c.json({
+      customer,
+      message: 'Customer updated successfully'
+    });
+  } catch (error: unknown) {
+    const receivablesError = handleReceivablesError(error);
+    if (receivablesError) {
+      return c.json(receivablesError.body, receivablesError.status);
+    }
+
+    console.error('Failed to update customer:', error);
+    return c.json({
+      error: 'Failed to update customer',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'CUSTOMER_UPDATE_ERROR'
+    }, 500);
+  }
+});
+
+// GET /receivables/invoices?customerId=&type=&status= - Invoices and credit notes, newest first
+receivablesRouter.get('/invoices', async (c) => {
+  try {
+    const parsed = invoiceQuerySchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid invoice filters',
+        details: parsed.error.issues,
+        code: 'VALIDATION_ERROR'
+      }, 400);
+    }
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const invoices = await dbAdapter.getSalesInvoices({
+      customerId: parsed.data.customerId,
+      type: parsed.data.type as SalesDocumentType | undefined,
+      status: parsed.data.status as SalesDocumentStatus | undefined
+    });
+
+    return c.json({ invoices, count: invoices.length });
+  } catch (error: unknown) {
+    console.error('Failed to fetch invoices:', error);
+    return c.json({
+      error: 'Failed to fetch invoices',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'INVOICES_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// GET /receivables/invoices/:id - Invoice or credit note with its lines and applications
+receivablesRouter.get('/invoices/:id', async (c) => {
+  try {
+    const invoiceId = parseId(c.req.param('id'));
+    if (!invoiceId) {
+      return c.json({ error: 'Invalid invoice ID', code: 'INVALID_INVOICE_ID' }, 400);
+    }
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const invoice = await dbAdapter.getSalesInvoice(invoiceId);
+    if (!invoice) {
+      return c.json({ error: 'Invoice not found', code: 'INVOICE_NOT_FOUND' }, 404);
+    }
+
+    const applications = await dbAdapter.getReceivableApplications(
+      invoice.type === 'INVOICE' ? { invoiceId } : { creditNoteId: invoiceId }
+    );
+    return c.json({ invoice, applications });
+  } catch (error: unknown) {
+    console.error('Failed to fetch invoice:', error);
+    return c.json({
+      error: 'Failed to fetch invoice',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'INVOICE_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// POST /receivables/invoices - Save a draft invoice
+receivablesRouter.post('/invoices', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', invoiceSchema.omit({ originalInvoiceId: true })), async (c) => {
+  try {
+    const user = c.get('user');
+    const { receivables } = await createReceivablesService(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+    const invoice = await receivables.createInvoice({ ...c.req.valid('json'), type: 'INVOICE' }, user.id);
+
+    return c.json({
+      invoice,
+      message: 'Invoice saved as draft'
+    }, 201);
+  } catch (error: unknown) {
+    const receivablesError = handleReceivablesError(error);
+    if (receivablesError) {
+      return c.json(receivablesError.body, receivablesError.status);
+    }
+
+    console.error('Failed to create invoice:', error);
+    return c.json({
+      error: 'Failed to create invoice',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'INVOICE_CREATE_ERROR'
+    }, 500);
+  }
+});
+
+// POST /receivables/credit-notes - Save a draft credit note, optionally against an issued invoice
+receivablesRouter.post('/credit-notes', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', invoiceSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const { receivables } = await createReceivablesService(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+    const creditNote = await receivables.createInvoice({ ...c.req.valid('json'), type: 'CREDIT_NOTE' }, user.id);
+
+    return c.json({
+      invoice: creditNote,
+      message: 'Credit note saved as draft'
+    }, 201);
+  } catch (error: unknown) {
+    const receivablesError = handleReceivablesError(error);
+    if (receivablesError) {
+      return c.json(receivablesError.body, receivablesError.status);
+    }
+
+    console.error('Failed to create credit note:', error);
+    return c.json({
+      error: 'Failed to create credit note',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'CREDIT_NOTE_CREATE_ERROR'
+    }, 500);
+  }
+});
+
+// POST /receivables/invoices/:id/issue - Post a draft invoice or credit note to the ledger
+receivablesRouter.post('/invoices/:id/issue', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), async (c) => {
+  try {
+    const user = c.get('user');
+    const invoiceId = parseId(c.req.param('id'));
+    if (!invoiceId) {
+      return c.json({ error: 'Invalid invoice ID', code: 'INVALID_INVOICE_ID' }, 400);
+    }
+
+    const { receivables } = await createReceivablesService(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+    const invoice = await receivables.issueInvoice(invoiceId, getPostingContext(user));
+
+    return c.json({
+      invoice,
+      message: `${invoice.documentNumber} issued and posted`
+    });
+  } catch (error: unknown) {
+    const receivablesError = handleReceivablesError(error);
+    if (receivablesError) {
+      return c.json(receivablesError.body, receivablesError.status);
+    }
+
+    console.error('Failed to issue invoice:', error);
+    return c.json({
+      error: 'Failed to issue invoice',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'INVOICE_ISSUE_ERROR'
+    }, 500);
+  }
+});
+
+// POST /receivables/invoices/:id/void - Void a draft invoice or credit note
+receivablesRouter.post('/invoices/:id/void', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), async (c) => {
+  try {
+    const user = c.get('user');
+    const invoiceId = parseId(c.req.param('id'));
+    if (!invoiceId) {
+      return c.json({ error: 'Invalid invoice ID', code: 'INVALID_INVOICE_ID' }, 400);
+    }
+
+    const { receivables } = await createReceivablesService(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+    const invoice = await receivables.voidInvoice(invoiceId, user.id);
+
+    return c.json({
+      invoice,
+      message: `${invoice.documentNumber} voided`
+    });
+  } catch (error: unknown) {
+    const receivablesError = handleReceivablesError(error);
+    if (receivablesError) {
+      return c.json(receivablesError.body, receivablesError.status);
+    }
+
+    console.error('Failed to void invoice:', error);
+    return c.json({
+      error: 'Failed to void invoice',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'INVOICE_VOID_ERROR'
+    }, 500);
+  }
+});
+
+// POST /receivables/credit-notes/:id/apply - Settle invoices with the unapplied part of a credit note
+receivablesRouter.post('/credit-notes/:id/apply', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', applySchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const creditNoteId = parseId(c.req.param('id'));
+    if (!creditNoteId) {
+      return c.json({ error: 'Invalid credit note ID', code: 'INVALID_INVOICE_ID' }, 400);
+    }
+
+    const { applications, appliedDate } = c.req.valid('json');
+    const { receivables } = await createReceivablesService(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+    const creditNote = await receivables.applyCreditNote(creditNoteId, applications, user.id, appliedDate);
+
+    return c.json({
+      invoice: creditNote,
+      message: 'Credit note applied successfully'
+    });
+  } catch (error: unknown) {
+    const receivablesError = handleReceivablesError(error);
+    if (receivablesError) {
+      return c.json(receivablesError.body, receivablesError.status);
+    }
+
+    console.error('Failed to apply credit note:', error);
+    return c.json({
+      error: 'Failed to apply credit note',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'CREDIT_NOTE_APPLY_ERROR'
+    }, 500);
+  }
+});
+
+// GET /receivables/receipts?customerId= - Customer receipts, newest first
+receivablesRouter.get('/receipts', async (c) => {
+  try {
+    const customerIdParam = c.req.query('customerId');
+    const customerId = customerIdParam ? parseId(customerIdParam) : undefined;
+    if (customerId === null) {
+      return c.json({ error: 'Invalid customer ID', code: 'INVALID_CUSTOMER_ID' }, 400);
+    }
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const receipts = await dbAdapter.getCustomerReceipts({ customerId });
+
+    return c.json({ receipts, count: receipts.length });
+  } catch (error: unknown) {
+    console.error('Failed to fetch receipts:', error);
+    return c.json({
+      error: 'Failed to fetch receipts',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'RECEIPTS_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// GET /receivables/receipts/:id - Receipt with the invoices it settled
+receivablesRouter.get('/receipts/:id', async (c) => {
+  try {
+    const receiptId = parseId(c.req.param('id'));
+    if (!receiptId) {
+      return c.json({ error: 'Invalid receipt ID', code: 'INVALID_RECEIPT_ID' }, 400);
+    }
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const receipt = await dbAdapter.getCustomerReceipt(receiptId);
+    if (!receipt) {
+      return c.json({ error: 'Receipt not found', code: 'RECEIPT_NOT_FOUND' }, 404);
+    }
+
+    const applications = await dbAdapter.getReceivableApplications({ receiptId });
+    return c.json({ receipt, applications });
+  } catch (error: unknown) {
+    console.error('Failed to fetch receipt:', error);
+    return c.json({
+      error: 'Failed to fetch receipt',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'RECEIPT_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// POST /receivables/receipts - Post money received and apply it to one or more invoices
+receivablesRouter.post('/receipts', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', receiptSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const { receivables } = await createReceivablesService(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+    const receipt = await receivables.recordReceipt(c.req.valid('json'), getPostingContext(user));
+
+    return c.json({
+      receipt,
+      message: receipt.unappliedAmount > 0
+        ? `Receipt posted; ${receipt.unappliedAmount} left unapplied`
+        : 'Receipt posted and applied'
+    }, 201);
+  } catch (error: unknown) {
+    const receivablesError = handleReceivablesError(error);
+    if (receivablesError) {
+      return c.json(receivablesError.body, receivablesError.status);
+    }
+
+    console.error('Failed to record receipt:', error);
+    return c.json({
+      error: 'Failed to record receipt',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'RECEIPT_CREATE_ERROR'
+    }, 500);
+  }
+});
+
+// POST /receivables/receipts/:id/apply - Settle invoices with the unapplied part of a receipt
+receivablesRouter.post('/receipts/:id/apply', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', applySchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const receiptId = parseId(c.req.param('id'));
+    if (!receiptId) {
+      return c.json({ error: 'Invalid receipt ID', code: 'INVALID_RECEIPT_ID' }, 400);
+    }
+
+    const { applications, appliedDate } = c.req.valid('json');
+    const { receivables } = await createReceivablesService(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+    const receipt = await receivables.applyReceipt(receiptId, applications, user.id, appliedDate);
+
+    return c.json({
+      receipt,
+      message: 'Receipt applied successfully'
+    });
+  } catch (error: unknown) {
+    const receivablesError = handleReceivablesError(error);
+    if (receivablesError) {
+      return c.json(receivablesError.body, receivablesError.status);
+    }
+
+    console.error('Failed to apply receipt:', error);
+    return c.json({
+      error: 'Failed to apply receipt',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'RECEIPT_APPLY_ERROR'
+    }, 500);
+  }
+});
+
+// GET /receivables/aging?asOfDate=YYYY-MM-DD&entityIds=a,b - Open balances by customer in current, 30, 60, 90 and 90+ day buckets
+receivablesRouter.get('/aging', async (c) => {
+  try {
+    const user = c.get('user');
+    const parsed = agingQuerySchema.safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid aging parameters',
+        details: parsed.error.issues,
+        code: 'VALIDATION_ERROR'
+      }, 400);
+    }
+
+    const { asOfDate = new Date().toISOString().split('T')[0], customerId } = parsed.data;
+    const entityIds = parsed.data.entityIds
+      ? [...new Set(parsed.data.entityIds.split(',').map(id => id.trim()).filter(Boolean))]
+      : [user.id];
+    const denied = entityIds.filter(entityId => !canAccessEntity(user, entityId));
+    if (denied.length > 0) {
+      return c.json({ error: `You do not have access to ${denied.join(', ')}`, code: 'ENTITY_ACCESS_DENIED' }, 403);
+    }
+
+    const entities = [];
+    for (const entityId of entityIds) {
+      const { receivables } = await createReceivablesService(c.env.FINANCE_MANAGER_DB, entityId);
+      entities.push(await receivables.getAging(asOfDate, customerId));
+    }
+
+    return c.json({
+      asOfDate,
+      currency: FINANCIAL_CONSTANTS.DEFAULT_CURRENCY,
+      entities,
+      totals: ReceivablesService.getAgingTotals(entities.map(entity => entity.totals))
+    });
+  } catch (error: unknown) {
+    console.error('Failed to build receivables aging:', error);
+    return c.json({
+      error: 'Failed to build receivables aging',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'RECEIVABLES_AGING_ERROR'
+    }, 500);
+  }
+});
+
+// GET /receivables/turnover?startDate=&endDate= - Receivables turnover and days sales outstanding
+receivablesRouter.get('/turnover', async (c) => {
+  try {
+    const parsed = z.object({ startDate: isoDate, endDate: isoDate }).safeParse(c.req.query());
+    if (!parsed.success) {
+      return c.json({
+        error: 'Invalid turnover parameters',
+        details: parsed.error.issues,
+        code: 'VALIDATION_ERROR'
+      }, 400);
+    }
+
+    const { receivables } = await createReceivablesService(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+    const turnover = await receivables.getTurnover(parsed.data.startDate, parsed.data.endDate);
+
+    return c.json({ turnover });
+  } catch (error: unknown) {
+    const receivablesError = handleReceivablesError(error);
+    if (receivablesError) {
+      return c.json(receivablesError.body, receivablesError.status);
+    }
+
+    console.error('Failed to calculate receivables turnover:', error);
+    return c.json({
+      error: 'Failed to calculate receivables turnover',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'RECEIVABLES_TURNOVER_ERROR'
+    }, 500);
+  }
+});
+
+export default receivablesRouter;
@@ -0,0 +1,351 @@
+/**
+ * Bank Reconciliation API
+ * Reconciliation sessions per bank account, statement line matching and reconciliation reports
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { zValidator } from '@hono/zod-validator';
+import {
+  AccountingValidationError,
+  BankReconciliationService,
+  DatabaseAdapter,
+  ReconciliationError,
+} from '../../../lib/index.worker.js';
+import type { AppContext, EntityVariables } from '../../types';
+import type { D1Database } from '@cloudflare/workers-types';
+import { authMiddleware, entityScopeMiddleware, requireRole } from '../../middleware/auth';
+
+const reconciliationsRouter = new Hono<AppContext & { Variables: EntityVariables }>();
+
+reconciliationsRouter.use('*', authMiddleware);
+reconciliationsRouter.use('*', entityScopeMiddleware);
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be in YYYY-MM-DD format');
+
+// Reconciliation schemas
+const createSessionSchema = z.object({
+  bankAccountId: z.number().int().positive(),
+  statementDate: isoDate,
+  statementEndingBalance: z.number(),
+  notes: z.string().max(1000).optional()
+});
+
+const statementLineSchema = z.object({
+  transactionDate: isoDate,
+  amount: z.number().refine(amount => amount !== 0, 'Amount cannot be zero'),
+  description: z.string().max(500).optional(),
+  reference: z.string().max(100).optional()
+});
+
+const addLinesSchema = z.object({
+  lines: z.array(statementLineSchema).min(1, 'At least one statement line is required').max(1000)
+});
+
+const autoMatchSchema = z.object({
+  dateWindowDays: z.number().int().min(0).max(31).optional()
+});
+
+const manualMatchSchema = z.object({
+  statementLineId: z.number().int().positive(),
+  journalEntryId: z.number().int().positive()
+});
+
+function createReconciliationService(database: D1Database, entityId: string) {
+  return new BankReconciliationService(new DatabaseAdapter({ database, entityId }));
+}
+
+function parseId(id: string): number | null {
+  const parsed = Number.parseInt(id, 10);
+  return Number.isNaN(parsed) || parsed <= 0 ? null : parsed;
+}
+
+// Helper function to map reconciliation errors to a status and response body
+function handleReconciliationError(error: unknown): { status: 400 | 404 | 409; body: Record<string, unknown> } | null {
+  if (error instanceof ReconciliationError) {
+    return {
+      status: 409,
+      body: { error: error.message, code: error.code }
+    };
+  }
+  if (error instanceof AccountingValidationError) {
+    return {
+      status: error.code.endsWith('_NOT_FOUND') ? 404 : 400,
+      body: { error: error.message, code: error.code }
+    };
+  }
+  return null;
+}
+
+// GET /reconciliations - List sessions, optionally for one bank account
+reconciliationsRouter.get('/', async (c) => {
+  try {
+    const bankAccountId = c.req.query('bankAccountId');
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const sessions = await dbAdapter.getReconciliationSessions(bankAccountId ? Number.parseInt(bankAccountId, 10) : undefined);
+
+    return c.json({
+      sessions,
+      count: sessions.length
+    });
+  } catch (error: unknown) {
+    console.error('Failed to fetch reconciliations:', error);
+    return c.json({
+      error: 'Failed to fetch reconciliations',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'RECONCILIATION_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// POST /reconciliations - Start a session for a bank statement
+reconciliationsRouter.post('/', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', createSessionSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const body = c.req.valid('json');
+
+    const session = await createReconciliationService(c.env.FINANCE_MANAGER_DB, c.get('entityId'))
+      .startSession(body, user.id);
+
+    return c.json({
+      session,
+      message: 'Reconciliation started successfully'
+    }, 201);
+  } catch (error: unknown) {
+    const reconciliationError = handleReconciliationError(error);
+    if (reconciliationError) {
+      return c.json(reconciliationError.body, reconciliationError.status);
+    }
+
+    console.error('Failed to start reconciliation:', error);
+    return c.json({
+      error: 'Failed to start reconciliation',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'RECONCILIATION_CREATE_ERROR'
+    }, 500);
+  }
+});
+
+// GET /reconciliations/:id - Session with its statement lines
+reconciliationsRouter.get('/:id', async (c) => {
+  try {
+    const sessionId = parseId(c.req.param('id'));
+    if (!sessionId) {
+      return c.json({ error: 'Invalid reconciliation ID', code: 'INVALID_RECONCILIATION_ID' }, 400);
+    }
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const session = await new BankReconciliationService(dbAdapter).getSessionOrThrow(sessionId);
+    const lines = await dbAdapter.getBankStatementLines(session.id);
+
+    return c.json({
+      session,
+      lines,
+      matchedCount: lines.filter(line => line.matchedJournalEntryId).length,
+      unmatchedCount: lines.filter(line => !line.matchedJournalEntryId).length
+    });
+  } catch (error: unknown) {
+    const reconciliationError = handleReconciliationError(error);
+    if (reconciliationError) {
+      return c.json(reconciliationError.body, reconciliationError.status);
+    }
+
+    console.error('Failed to fetch reconciliation:', error);
+    return c.json({
+      error: 'Failed to fetch reconciliation',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'RECONCILIATION_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// POST /reconciliations/:id/lines - Add statement lines to a session
+reconciliationsRouter.post('/:id/lines', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', addLinesSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const sessionId = parseId(c.req.param('id'));
+    if (!sessionId) {
+      return c.json({ error: 'Invalid reconciliation ID', code: 'INVALID_RECONCILIATION_ID' }, 400);
+    }
+
+    const { lines } = c.req.valid('json');
+    const created = await createReconciliationService(c.env.FINANCE_MANAGER_DB, c.get('entityId'))
+      .addStatementLines(sessionId, lines, user.id);
+
+    return c.json({
+      lines: created,
+      count: created.length,
+      message: 'Statement lines added successfully'
+    }, 201);
+  } catch (error: unknown) {
+    const reconciliationError = handleReconciliationError(error);
+    if (reconciliationError) {
+      return c.json(reconciliationError.body, reconciliationError.status);
+    }
+
+    console.error('Failed to add statement lines:', error);
+    return c.json({
+      error: 'Failed to add statement lines',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'STATEMENT_LINES_CREATE_ERROR'
+    }, 500);
+  }
+});
+
+// POST /reconciliations/:id/auto-match - Match statement lines by amount, date window and reference
+reconciliationsRouter.post('/:id/auto-match', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', autoMatchSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const sessionId = parseId(c.req.param('id'));
+    if (!sessionId) {
+      return c.json({ error: 'Invalid reconciliation ID', code: 'INVALID_RECONCILIATION_ID' }, 400);
+    }
+
+    const { dateWindowDays } = c.req.valid('json');
+    const result = await createReconciliationService(c.env.FINANCE_MANAGER_DB, c.get('entityId'))
+      .autoMatch(sessionId, user.id, dateWindowDays);
+
+    return c.json({
+      ...result,
+      message: `${result.matches.length} statement line(s) matched`
+    });
+  } catch (error: unknown) {
+    const reconciliationError = handleReconciliationError(error);
+    if (reconciliationError) {
+      return c.json(reconciliationError.body, reconciliationError.status);
+    }
+
+    console.error('Failed to auto-match statement lines:', error);
+    return c.json({
+      error: 'Failed to auto-match statement lines',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'RECONCILIATION_MATCH_ERROR'
+    }, 500);
+  }
+});
+
+// POST /reconciliations/:id/match - Manually match a statement line to a ledger line
+reconciliationsRouter.post('/:id/match', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', manualMatchSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const sessionId = parseId(c.req.param('id'));
+    if (!sessionId) {
+      return c.json({ error: 'Invalid reconciliation ID', code: 'INVALID_RECONCILIATION_ID' }, 400);
+    }
+
+    const { statementLineId, journalEntryId } = c.req.valid('json');
+    const line = await createReconciliationService(c.env.FINANCE_MANAGER_DB, c.get('entityId'))
+      .matchLine(sessionId, statementLineId, journalEntryId, user.id);
+
+    return c.json({
+      line,
+      message: 'Statement line matched successfully'
+    });
+  } catch (error: unknown) {
+    const reconciliationError = handleReconciliationError(error);
+    if (reconciliationError) {
+      return c.json(reconciliationError.body, reconciliationError.status);
+    }
+
+    console.error('Failed to match statement line:', error);
+    return c.json({
+      error: 'Failed to match statement line',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'RECONCILIATION_MATCH_ERROR'
+    }, 500);
+  }
+});
+
+// DELETE /reconciliations/:id/lines/:lineId/match - Undo a statement line match
+reconciliationsRouter.delete('/:id/lines/:lineId/match', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), async (c) => {
+  try {
+    const sessionId = parseId(c.req.param('id'));
+    const lineId = parseId(c.req.param('lineId'));
+    if (!sessionId || !lineId) {
+      return c.json({ error: 'Invalid reconciliation or statement line ID', code: 'INVALID_RECONCILIATION_ID' }, 400);
+    }
+
+    const line = await createReconciliationService(c.env.FINANCE_MANAGER_DB, c.get('entityId'))
+      .unmatchLine(sessionId, lineId);
+
+    return c.json({
+      line,
+      message: 'Statement line unmatched successfully'
+    });
+  } catch (error: unknown) {
+    const reconciliationError = handleReconciliationError(error);
+    if (reconciliationError) {
+      return c.json(reconciliationError.body, reconciliationError.status);
+    }
+
+    console.error('Failed to unmatch statement line:', error);
+    return c.json({
+      error: 'Failed to unmatch statement line',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'RECONCILIATION_UNMATCH_ERROR'
+    }, 500);
+  }
+});
+
+// GET /reconciliations/:id/report - Bank-to-book reconciliation with unexplained difference
+reconciliationsRouter.get('/:id/report', async (c) => {
+  try {
+    const sessionId = parseId(c.req.param('id'));
+    if (!sessionId) {
+      return c.json({ error: 'Invalid reconciliation ID', code: 'INVALID_RECONCILIATION_ID' }, 400);
+    }
+
+    const report = await createReconciliationService(c.env.FINANCE_MANAGER_DB, c.get('entityId'))
+      .getReport(sessionId);
+
+    return c.json({ report });
+  } catch (error: unknown) {
+    const reconciliationError = handleReconciliationError(error);
+    if (reconciliationError) {
+      return c.json(reconciliationError.body, reconciliationError.status);
+    }
+
+    console.error('Failed to build reconciliation report:', error);
+    return c.json({
+      error: 'Failed to build reconciliation report',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'RECONCILIATION_REPORT_ERROR'
+    }, 500);
+  }
+});
+
+// POST /reconciliations/:id/complete - Lock the session and return its final report
+reconciliationsRouter.post('/:id/complete', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), async (c) => {
+  try {
+    const user = c.get('user');
+    const sessionId = parseId(c.req.param('id'));
+    if (!sessionId) {
+      return c.json({ error: 'Invalid reconciliation ID', code: 'INVALID_RECONCILIATION_ID' }, 400);
+    }
+
+    const report = await createReconciliationService(c.env.FINANCE_MANAGER_DB, c.get('entityId'))
+      .complete(sessionId, user.id);
+
+    return c.json({
+      report,
+      message: report.isReconciled
+        ? `Reconciliation ${report.session.reference} completed`
+        : `Reconciliation ${report.session.reference} completed with an unexplained difference of ${report.unexplainedDifference}`
+    });
+  } catch (error: unknown) {
+    const reconciliationError = handleReconciliationError(error);
+    if (reconciliationError) {
+      return c.json(reconciliationError.body, reconciliationError.status);
+    }
+
+    console.error('Failed to complete reconciliation:', error);
+    return c.json({
+      error: 'Failed to complete reconciliation',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'RECONCILIATION_COMPLETE_ERROR'
+    }, 500);
+  }
+});
+
+export default reconciliationsRouter;
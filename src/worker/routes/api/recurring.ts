@@ -0,0 +1,308 @@
+/**
+ * Recurring Transactions API
+ * Templates with a schedule; due occurrences are generated by the Worker cron trigger or on demand
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { zValidator } from '@hono/zod-validator';
+import {
+  AccountingValidationError,
+  DatabaseAdapter,
+  DatabaseJournalEntryManager,
+  FINANCIAL_CONSTANTS,
+  RecurringTransactionService,
+} from '../../../lib/index.worker.js';
+import type { Currency, RecurringTemplateInput } from '../../../types/index.js';
+import type { AppContext, EntityVariables } from '../../types';
+import type { D1Database } from '@cloudflare/workers-types';
+import { authMiddleware, entityScopeMiddleware, requireRole } from '../../middleware/auth';
+import { getPostingContext } from '../../utils/permissions';
+
+const recurringRouter = new Hono<AppContext & { Variables: EntityVariables }>();
+
+recurringRouter.use('*', authMiddleware);
+recurringRouter.use('*', entityScopeMiddleware);
+
+// Recurring template schemas
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD');
+
+const currencySchema = z.string().transform(value => value.toUpperCase()).refine(
+  value => FINANCIAL_CONSTANTS.SUPPORTED_CURRENCIES.includes(value as Currency),
+  { message: `Currency must be one of: ${FINANCIAL_CONSTANTS.SUPPORTED_CURRENCIES.join(', ')}` }
+).transform(value => value as Currency);
+
+const entrySchema = z.object({
+  accountId: z.number().int().positive(),
+  description: z.string().max(500).optional(),
+  debitAmount: z.number().nonnegative().optional(),
+  creditAmount: z.number().nonnegative().optional()
+});
+
+const templateFields = {
+  name: z.string().min(1).max(200),
+  description: z.string().min(1).max(500),
+  reference: z.string().max(100).optional(),
+  currency: currencySchema.default(FINANCIAL_CONSTANTS.DEFAULT_CURRENCY),
+  entries: z.array(entrySchema).min(2, 'A template needs at least two entries'),
+  frequency: z.enum(['DAILY', 'WEEKLY', 'MONTHLY', 'END_OF_MONTH', 'CRON']),
+  interval: z.number().int().positive().default(1),
+  dayOfWeek: z.number().int().min(0).max(6).optional(),
+  dayOfMonth: z.number().int().min(1).max(31).optional(),
+  cronExpression: z.string().max(100).optional(),
+  startDate: isoDate,
+  endDate: isoDate.optional(),
+  autoPost: z.boolean().default(false),
+  isActive: z.boolean().default(true)
+};
+
+const createTemplateSchema = z.object(templateFields);
+
+// null clears an optional field
+const updateTemplateSchema = z.object({
+  name: templateFields.name.optional(),
+  description: templateFields.description.optional(),
+  reference: templateFields.reference.nullable(),
+  currency: currencySchema.optional(),
+  entries: templateFields.entries.optional(),
+  frequency: templateFields.frequency.optional(),
+  interval: z.number().int().positive().optional(),
+  dayOfWeek: templateFields.dayOfWeek.nullable(),
+  dayOfMonth: templateFields.dayOfMonth.nullable(),
+  cronExpression: templateFields.cronExpression.nullable(),
+  startDate: isoDate.optional(),
+  endDate: templateFields.endDate.nullable(),
+  autoPost: z.boolean().optional(),
+  isActive: z.boolean().optional()
+});
+
+const runSchema = z.object({
+  asOfDate: isoDate.optional()
+});
+
+function createRecurringService(database: D1Database, entityId: string) {
+  const dbAdapter = new DatabaseAdapter({ database, entityId });
+  return {
+    dbAdapter,
+    service: new RecurringTransactionService(dbAdapter, new DatabaseJournalEntryManager(dbAdapter))
+  };
+}
+
+function parseId(id: string): number | null {
+  const parsed = Number.parseInt(id, 10);
+  return Number.isNaN(parsed) || parsed <= 0 ? null : parsed;
+}
+
+// Helper function to map template errors to a status and response body
+function handleRecurringError(error: unknown): { status: 400 | 404; body: Record<string, unknown> } | null {
+  if (error instanceof AccountingValidationError && error.code === 'RECURRING_TEMPLATE_NOT_FOUND') {
+    return {
+      status: 404,
+      body: { error: error.message, code: error.code }
+    };
+  }
+  if (error instanceof AccountingValidationError) {
+    return {
+      status: 400,
+      body: { error: error.message, code: error.code, details: error.details }
+    };
+  }
+  return null;
+}
+
+// GET /recurring-templates - Templates for the entity
+recurringRouter.get('/', async (c) => {
+  try {
+    const { dbAdapter } = createRecurringService(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+    const templates = await dbAdapter.getRecurringTemplates(c.req.query('active') === 'true');
+
+    return c.json({
+      templates,
+      count: templates.length
+    });
+  } catch (error: unknown) {
+    console.error('Failed to fetch recurring templates:', error);
+    return c.json({
+      error: 'Failed to fetch recurring templates',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'RECURRING_TEMPLATES_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// POST /recurring-templates/run - Generate due occurrences now instead of waiting for the cron trigger
+recurringRouter.post('/run', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', runSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const { asOfDate } = c.req.valid('json');
+    const { service } = createRecurringService(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+
+    const result = await service.generateDue(
+      asOfDate || new Date().toISOString().slice(0, 10),
+      getPostingContext(user)
+    );
+
+    return c.json({
+      result,
+      message: `Generated ${result.generated} recurring transaction(s)${result.failed > 0 ? `, ${result.failed} failed` : ''}`
+    });
+  } catch (error: unknown) {
+    const handled = handleRecurringError(error);
+    if (handled) {
+      return c.json(handled.body, handled.status);
+    }
+
+    console.error('Failed to generate recurring transactions:', error);
+    return c.json({
+      error: 'Failed to generate recurring transactions',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'RECURRING_RUN_ERROR'
+    }, 500);
+  }
+});
+
+// GET /recurring-templates/:id - Template with its generation history
+recurringRouter.get('/:id', async (c) => {
+  try {
+    const templateId = parseId(c.req.param('id'));
+    if (!templateId) {
+      return c.json({ error: 'Invalid template ID', code: 'INVALID_TEMPLATE_ID' }, 400);
+    }
+
+    const { dbAdapter } = createRecurringService(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+    const template = await dbAdapter.getRecurringTemplate(templateId);
+    if (!template) {
+      return c.json({ error: 'Recurring template not found', code: 'RECURRING_TEMPLATE_NOT_FOUND' }, 404);
+    }
+
+    const runs = await dbAdapter.getRecurringTemplateRuns(templateId);
+
+    return c.json({ template, runs });
+  } catch (error: unknown) {
+    console.error('Failed to fetch recurring template:', error);
+    return c.json({
+      error: 'Failed to fetch recurring template',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'RECURRING_TEMPLATE_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// GET /recurring-templates/:id/preview?count=12 - Upcoming occurrence dates
+recurringRouter.get('/:id/preview', async (c) => {
+  try {
+    const templateId = parseId(c.req.param('id'));
+    if (!templateId) {
+      return c.json({ error: 'Invalid template ID', code: 'INVALID_TEMPLATE_ID' }, 400);
+    }
+
+    const count = Math.min(Math.max(Number.parseInt(c.req.query('count') || '12', 10) || 12, 1), 100);
+    const { service } = createRecurringService(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+    const occurrences = await service.previewOccurrences(templateId, count);
+
+    return c.json({ occurrences, count: occurrences.length });
+  } catch (error: unknown) {
+    const handled = handleRecurringError(error);
+    if (handled) {
+      return c.json(handled.body, handled.status);
+    }
+
+    console.error('Failed to preview recurring template:', error);
+    return c.json({
+      error: 'Failed to preview recurring template',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'RECURRING_TEMPLATE_PREVIEW_ERROR'
+    }, 500);
+  }
+});
+
+// POST /recurring-templates - Create a template
+recurringRouter.post('/', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', createTemplateSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const body = c.req.valid('json');
+    const { service } = createRecurringService(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+
+    const template = await service.createTemplate(body, user.id);
+
+    return c.json({
+      template,
+      message: 'Recurring template created successfully'
+    }, 201);
+  } catch (error: unknown) {
+    const handled = handleRecurringError(error);
+    if (handled) {
+      return c.json(handled.body, handled.status);
+    }
+
+    console.error('Failed to create recurring template:', error);
+    return c.json({
+      error: 'Failed to create recurring template',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'RECURRING_TEMPLATE_CREATE_ERROR'
+    }, 500);
+  }
+});
+
+// PUT /recurring-templates/:id - Change a template; already generated occurrences are kept
+recurringRouter.put('/:id', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), zValidator('json', updateTemplateSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const templateId = parseId(c.req.param('id'));
+    if (!templateId) {
+      return c.json({ error: 'Invalid template ID', code: 'INVALID_TEMPLATE_ID' }, 400);
+    }
+
+    const body = c.req.valid('json');
+    const updates = Object.fromEntries(
+      Object.entries(body).map(([key, value]) => [key, value === null ? undefined : value])
+    ) as Partial<RecurringTemplateInput>;
+    const { service } = createRecurringService(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+
+    const template = await service.updateTemplate(templateId, updates, user.id);
+
+    return c.json({
+      template,
+      message: 'Recurring template updated successfully'
+    });
+  } catch (error: unknown) {
+    const handled = handleRecurringError(error);
+    if (handled) {
+      return c.json(handled.body, handled.status);
+    }
+
+    console.error('Failed to update recurring template:', error);
+    return c.json({
+      error: 'Failed to update recurring template',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'RECURRING_TEMPLATE_UPDATE_ERROR'
+    }, 500);
+  }
+});
+
+// DELETE /recurring-templates/:id - Remove a template; generated transactions are kept
+recurringRouter.delete('/:id', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), async (c) => {
+  try {
+    const templateId = parseId(c.req.param('id'));
+    if (!templateId) {
+      return c.json({ error: 'Invalid template ID', code: 'INVALID_TEMPLATE_ID' }, 400);
+    }
+
+    const { dbAdapter } = createRecurringService(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+    const deleted = await dbAdapter.deleteRecurringTemplate(templateId);
+    if (!deleted) {
+      return c.json({ error: 'Recurring template not found', code: 'RECURRING_TEMPLATE_NOT_FOUND' }, 404);
+    }
+
+    return c.json({ message: 'Recurring template deleted successfully' });
+  } catch (error: unknown) {
+    console.error('Failed to delete recurring template:', error);
+    return c.json({
+      error: 'Failed to delete recurring template',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'RECURRING_TEMPLATE_DELETE_ERROR'
+    }, 500);
+  }
+});
+
+export default recurringRouter;
@@ -1,20 +1,38 @@
 import { Hono, type Context } from 'hono';
+import { z } from 'zod';
 import {
+  AccountHierarchyService,
+  AccountingValidationError,
+  CashFlowForecastService,
+  ComparativeStatementService,
   DatabaseAdapter,
+  DatabaseJournalEntryManager,
   FinancialReportsEngine,
   formatCurrency,
   FINANCIAL_CONSTANTS,
   generateIncomeStatementPDF,
   generateTrialBalancePDF,
+  ReceivablesService,
+  toISODateString,
 } from '../../../lib/index.worker';
 import type { FinancialReportsBalanceSheet } from '../../../lib/index.worker';
 
 // Excel generation functions are not available in Cloudflare Workers
 // due to ExcelJS dependency incompatibility
-import { authMiddleware } from '../../middleware/auth';
+import { authMiddleware, entityScopeMiddleware } from '../../middleware/auth';
 import type { AppContext } from '../../types';
-import type { Currency } from '../../../types/index.js';
+import type {
+  ComparativeStatement,
+  ComparativeStatementOptions,
+  ComparativeStatementType,
+  Currency,
+  DimensionFilter,
+  DimensionType,
+  HierarchyTrialBalance,
+  StatementComparison,
+} from '../../../types/index.js';
 import { createMiddleware } from 'hono/factory';
+import { renderStatementDelimited, renderStatementHtml } from '../../utils/statement-export';
 
 // Financial calculation functions
 async function calculateFinancialMetrics(dbAdapter: DatabaseAdapter, entityId: string, asOfDate: Date) {
@@ -91,14 +109,11 @@ const reportsRouter = new Hono<AppContext & ReportsContext>();
 
 // Apply authentication middleware to all reports routes
 reportsRouter.use('*', authMiddleware);
+reportsRouter.use('*', entityScopeMiddleware);
 
 // Middleware to create and inject dbAdapter and reportsEngine
 const setupReportsContext = createMiddleware<AppContext & ReportsContext>(async (c, next) => {
-  const user = c.get('user');
-  if (!user) {
-    return c.json({ success: false, error: 'Unauthorized' }, 401);
-  }
-  const entityId = user.id; // Or from user selection
+  const entityId = c.get('entityId');
   const dbAdapter = new DatabaseAdapter({
     database: c.env.FINANCE_MANAGER_DB,
     entityId: entityId,
@@ -123,6 +138,153 @@ const parseDate = (dateStr: string | undefined, defaultDate: Date): Date => {
   return isNaN(parsed.getTime()) ? defaultDate : parsed
 }
 
+const statementComparisons: StatementComparison[] = ['months', 'quarters', 'ytd', 'budget']
+
+const dimensionQueryParams: Record<string, DimensionType> = {
+  department: 'DEPARTMENT',
+  project: 'PROJECT',
+  costCenter: 'COST_CENTER'
+}
+
+// Dimension code filters from the department, project and costCenter query parameters, plus groupBy
+function parseDimensionQuery(
+  c: Context<AppContext & ReportsContext>
+): { dimensions: DimensionFilter; groupBy?: DimensionType } | { error: string } {
+  const dimensions: DimensionFilter = {}
+  for (const [param, type] of Object.entries(dimensionQueryParams)) {
+    const code = c.req.query(param)
+    if (code) dimensions[type] = code
+  }
+
+  const groupBy = c.req.query('groupBy')
+  if (groupBy && !Object.keys(dimensionQueryParams).includes(groupBy)) {
+    return { error: `groupBy must be one of: ${Object.keys(dimensionQueryParams).join(', ')}` }
+  }
+
+  return { dimensions, groupBy: groupBy ? dimensionQueryParams[groupBy] : undefined }
+}
+
+type ComparisonRequest = ComparativeStatementOptions & { groupBy?: DimensionType }
+
+// Comparative statement options from the periods, fiscalYearStartMonth, startDate (budget and groupBy only),
+// depth and dimension query parameters. groupBy replaces the period columns with one column per dimension code.
+function parseComparisonOptions(
+  c: Context<AppContext & ReportsContext>,
+  comparison: string,
+  asOfDate: Date
+): ComparisonRequest | { error: string } {
+  if (!statementComparisons.includes(comparison as StatementComparison)) {
+    return { error: `compare must be one of: ${statementComparisons.join(', ')}` }
+  }
+  const dimensionQuery = parseDimensionQuery(c)
+  if ('error' in dimensionQuery) return dimensionQuery
+
+  const periods = c.req.query('periods')
+  const fiscalYearStartMonth = c.req.query('fiscalYearStartMonth')
+  const startDate = c.req.query('startDate')
+  const depth = c.req.query('depth')
+  const usesStartDate = comparison === 'budget' || dimensionQuery.groupBy !== undefined
+
+  return {
+    comparison: comparison as StatementComparison,
+    asOfDate: toISODateString(asOfDate),
+    periods: periods ? Number(periods) : undefined,
+    fiscalYearStartMonth: fiscalYearStartMonth ? Number(fiscalYearStartMonth) : undefined,
+    startDate: usesStartDate && startDate ? toISODateString(parseDate(startDate, asOfDate)) : undefined,
+    depth: depth ? Number(depth) : undefined,
+    dimensions: dimensionQuery.dimensions,
+    groupBy: dimensionQuery.groupBy
+  }
+}
+
+async function generateComparativeStatement(
+  c: Context<AppContext & ReportsContext>,
+  statement: ComparativeStatementType,
+  options: ComparisonRequest | { error: string }
+): Promise<ComparativeStatement | Response> {
+  if ('error' in options) {
+    return c.json({ success: false, error: options.error }, 400)
+  }
+
+  try {
+    const service = new ComparativeStatementService(c.var.dbAdapter)
+    return options.groupBy
+      ? await service.generateByDimension(statement, { ...options, groupBy: options.groupBy })
+      : await service.generate(statement, options)
+  } catch (error: unknown) {
+    if (error instanceof AccountingValidationError) {
+      return c.json({ success: false, error: error.message, code: error.code }, 400)
+    }
+    throw error
+  }
+}
+
+/**
+ * Comparative statement as CSV, printable HTML (pdf/html), spreadsheet TSV (excel/xlsx) or JSON.
+ * All formats render the same columns and variance columns.
+ */
+function exportComparativeStatement(
+  c: Context<AppContext & ReportsContext>,
+  statement: ComparativeStatement,
+  format: string,
+  title: string,
+  fileName: string
+): Response {
+  const user = c.get('user')
+  const header = {
+    title,
+    lines: [
+      `Comparison: ${statement.columns.map(column => column.label).join(', ')}`,
+      `Generated: ${new Date().toISOString().split('T')[0]}`,
+      `Generated by: ${user?.displayName || user?.email || 'System'}`
+    ]
+  }
+
+  switch (format.toLowerCase()) {
+    case 'csv':
+      return new Response(renderStatementDelimited(statement, header, ','), {
+        headers: {
+          'Content-Type': 'text/csv',
+          'Content-Disposition': `attachment; filename="${fileName}.csv"`
+        }
+      })
+    case 'pdf':
+    case 'html':
+      return new Response(renderStatementHtml(statement, header), {
+        headers: {
+          'Content-Type': 'text/html',
+          'Content-Disposition': `inline; filename="${fileName}.html"`
+        }
+      })
+    case 'excel':
+    case 'xlsx':
+      return new Response(renderStatementDelimited(statement, header, '\t'), {
+        headers: {
+          'Content-Type': 'application/vnd.ms-excel',
+          'Content-Disposition': `attachment; filename="${fileName}.xls"`
+        }
+      })
+    case 'json':
+      return c.json({
+        success: true,
+        data: statement,
+        format: 'json',
+        metadata: {
+          generatedAt: new Date().toISOString(),
+          generatedBy: user?.id || 'unknown',
+          reportType: `${statement.statement}-export`,
+          format: 'json'
+        }
+      })
+    default:
+      return c.json({
+        success: false,
+        error: 'Unsupported export format',
+        supportedFormats: ['csv', 'html', 'pdf', 'excel', 'xlsx', 'json']
+      }, 400)
+  }
+}
+
 // Financial calculation helpers
 async function calculateCashRatio(dbAdapter: DatabaseAdapter, _entityId: string, _asOfDate: Date): Promise<number> {
   try {
@@ -281,21 +443,12 @@ async function calculateInventoryTurnover(dbAdapter: DatabaseAdapter, _entityId:
   }
 }
 
-async function calculateReceivablesTurnover(dbAdapter: DatabaseAdapter, _entityId: string, _asOfDate: Date): Promise<number> {
+async function calculateReceivablesTurnover(dbAdapter: DatabaseAdapter, _entityId: string, asOfDate: Date): Promise<number> {
   try {
-    // const _startOfYear = new Date(_asOfDate.getFullYear(), 0, 1); // TODO: Implement year-over-year calculations
-    // Calculate revenue from revenue accounts
-    const revenueAccounts = await dbAdapter.getAccountsByType('REVENUE');
-    const revenue = revenueAccounts.reduce((sum: number, account: any) => sum + (account.currentBalance || 0), 0);
-    const receivablesAccounts = await dbAdapter.getAccountsByType('ASSET');
-    
-    if (receivablesAccounts.length === 0) return 0;
-    
-    const averageReceivables = await Promise.all(
-      receivablesAccounts.map((account: any) => Promise.resolve(account.currentBalance || 0))
-    ).then((balances: number[]) => balances.reduce((sum: number, balance: number) => sum + balance, 0));
-    
-    return averageReceivables > 0 ? revenue / averageReceivables : 0;
+    // Year to date, from the receivables subledger
+    const endDate = toISODateString(asOfDate);
+    const receivables = new ReceivablesService(dbAdapter, new DatabaseJournalEntryManager(dbAdapter));
+    return (await receivables.getTurnover(`${endDate.slice(0, 4)}-01-01`, endDate)).turnover;
   } catch (error: unknown) {
     console.error('Error calculating receivables turnover:', error instanceof Error ? error.message : String(error));
     return 0;
@@ -304,38 +457,48 @@ async function calculateReceivablesTurnover(dbAdapter: DatabaseAdapter, _entityI
 
 /**
  * GET /api/reports/trial-balance
- * Generate trial balance report
+ * Generate trial balance report. depth=N shows the first N levels of the chart,
+ * with deeper accounts collapsed into their ancestor. department, project and costCenter
+ * filter by dimension code; groupBy=department|project|costCenter lists each code separately.
  */
 reportsRouter.get('/trial-balance', async (c: Context<AppContext & ReportsContext>) => {
   try {
-    const { dbAdapter: _dbAdapter, entityId } = c.var;
+    const { dbAdapter, entityId } = c.var;
     
     // Parse query parameters
     const asOfDateStr = c.req.query('asOfDate');
     const asOfDate = parseDate(asOfDateStr, new Date());
+    const depthStr = c.req.query('depth');
+    const depth = depthStr ? Number(depthStr) : undefined;
+    const dimensionQuery = parseDimensionQuery(c);
+    if ('error' in dimensionQuery) {
+      return c.json({ success: false, error: dimensionQuery.error }, 400)
+    }
     
-    // Generate trial balance
-    // Note: Using direct database calls instead of FinancialReportsEngine
-    const trialBalance = {
-      asOfDate: asOfDate.toISOString(),
-      entityId,
-      accounts: [],
-      totals: {
-        totalDebits: 0,
-        totalCredits: 0,
-        isBalanced: true
+    let trialBalance: HierarchyTrialBalance
+    try {
+      trialBalance = await new AccountHierarchyService(dbAdapter).getTrialBalance({
+        asOfDate: toISODateString(asOfDate),
+        depth,
+        ...dimensionQuery
+      })
+    } catch (error: unknown) {
+      if (error instanceof AccountingValidationError) {
+        return c.json({ success: false, error: error.message, code: error.code }, 400)
       }
-    };
+      throw error
+    }
     
     return c.json({
       success: true,
       data: {
         ...trialBalance,
+        entityId,
         metadata: {
           generatedAt: new Date().toISOString(),
           generatedBy: c.get('user')?.id || 'unknown',
           reportType: 'trial-balance',
-          parameters: { asOfDate: asOfDate.toISOString(), entityId },
+          parameters: { asOfDate: asOfDate.toISOString(), entityId, depth, ...dimensionQuery },
         },
       }
     })
@@ -364,6 +527,27 @@ reportsRouter.get('/balance-sheet', async (c: Context<AppContext & ReportsContex
     const format = c.req.query('format'); // 'detailed', 'summary', 'comparative'
     const asOfDate = parseDate(asOfDateStr, new Date());
     
+    // Comparative: compare=months|quarters|ytd (default) with periods, fiscalYearStartMonth and depth
+    if (format === 'comparative') {
+      const options = parseComparisonOptions(c, c.req.query('compare') || 'ytd', asOfDate)
+      const statement = await generateComparativeStatement(c, 'balance-sheet', options)
+      if (statement instanceof Response) return statement
+      
+      return c.json({
+        success: true,
+        data: {
+          ...statement,
+          metadata: {
+            generatedAt: new Date().toISOString(),
+            generatedBy: c.get('user')?.id || 'unknown',
+            reportType: 'balance-sheet',
+            format,
+            parameters: { ...options, entityId },
+          },
+        }
+      })
+    }
+    
     // Generate balance sheet
     // Note: Using direct database calls instead of FinancialReportsEngine
     const balanceSheet: FinancialReportsBalanceSheet = {
@@ -443,6 +627,29 @@ reportsRouter.get('/income-statement', async (c: Context<AppContext & ReportsCon
     const startDate = parseDate(startDateStr, defaultStartDate)
     const endDate = parseDate(endDateStr, defaultEndDate)
     
+    // Comparative: compare=months|quarters|ytd|budget, with columns ending on endDate,
+    // or groupBy=department|project|costCenter for one column per dimension code
+    const compare = c.req.query('compare')
+    if (compare || c.req.query('groupBy')) {
+      const options = parseComparisonOptions(c, compare || 'ytd', endDate)
+      const statement = await generateComparativeStatement(c, 'income-statement', options)
+      if (statement instanceof Response) return statement
+      
+      return c.json({
+        success: true,
+        data: {
+          ...statement,
+          metadata: {
+            generatedAt: new Date().toISOString(),
+            generatedBy: c.get('user')?.id || 'unknown',
+            reportType: 'income-statement',
+            period: compare || 'dimension',
+            parameters: { ...options, entityId },
+          },
+        }
+      })
+    }
+    
     // Generate income statement
     const incomeStatement = await _reportsEngine.generateIncomeStatement(startDate, endDate, entityId)
     
@@ -538,6 +745,131 @@ reportsRouter.get('/cash-flow', async (c: Context<AppContext & ReportsContext>)
   }
 })
 
+const forecastTargetFields = {
+  source: z.enum(['recurring', 'budget', 'trend', 'adjustment']).optional(),
+  templateId: z.number().int().positive().optional(),
+  budgetId: z.number().int().positive().optional(),
+  match: z.string().min(1).max(200).optional()
+};
+
+const cashForecastSchema = z.object({
+  horizon: z.enum(['13w', '12m']).default('13w'),
+  lookbackDays: z.number().int().min(7).max(730).optional(),
+  cashAccountIds: z.array(z.number().int().positive()).max(50).optional(),
+  scenario: z.object({
+    name: z.string().max(200).optional(),
+    adjustments: z.array(z.discriminatedUnion('type', [
+      z.object({ type: z.literal('shift'), days: z.number().int().min(-366).max(366), ...forecastTargetFields }),
+      z.object({ type: z.literal('scale'), percent: z.number().min(-100).max(1000), ...forecastTargetFields }),
+      z.object({ type: z.literal('exclude'), ...forecastTargetFields }),
+      z.object({
+        type: z.literal('add'),
+        date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD'),
+        amount: z.number(),
+        description: z.string().min(1).max(200)
+      })
+    ])).max(50)
+  }).optional()
+});
+
+async function buildCashForecast(c: Context<AppContext & ReportsContext>, input: z.infer<typeof cashForecastSchema>) {
+  const { dbAdapter, entityId } = c.var;
+  const service = new CashFlowForecastService(dbAdapter);
+  const options = {
+    horizon: input.horizon,
+    asOfDate: toISODateString(new Date()),
+    lookbackDays: input.lookbackDays,
+    cashAccountIds: input.cashAccountIds
+  };
+
+  try {
+    const forecast = await service.forecast({ ...options, scenario: input.scenario });
+    // Scenario runs are compared against the unadjusted forecast; neither is saved
+    const baseline = input.scenario ? await service.forecast(options) : null;
+
+    return c.json({
+      success: true,
+      data: {
+        ...forecast,
+        baseline: baseline && {
+          closingBalance: baseline.closingBalance,
+          lowestBalance: baseline.lowestBalance,
+          lowestBalanceDate: baseline.lowestBalanceDate,
+          closingBalanceDifference: forecast.closingBalance - baseline.closingBalance,
+          buckets: baseline.buckets.map(bucket => ({
+            label: bucket.label,
+            closingBalance: bucket.closingBalance
+          }))
+        },
+        metadata: {
+          generatedAt: new Date().toISOString(),
+          generatedBy: c.get('user')?.id || 'unknown',
+          reportType: 'cash-forecast',
+          parameters: { ...options, entityId },
+        },
+      }
+    })
+  } catch (error: unknown) {
+    if (error instanceof AccountingValidationError) {
+      return c.json({
+        success: false,
+        error: error.message,
+        code: error.code
+      }, 400)
+    }
+
+    console.error('Error generating cash forecast:', error instanceof Error ? error.message : String(error));
+    return c.json({
+      success: false,
+      error: 'Failed to generate cash forecast',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500)
+  }
+}
+
+/**
+ * GET /api/reports/cash-forecast
+ * Rolling 13-week (horizon=13w) or 12-month (horizon=12m) cash forecast from today
+ */
+reportsRouter.get('/cash-forecast', async (c: Context<AppContext & ReportsContext>) => {
+  const lookbackDays = c.req.query('lookbackDays');
+  const cashAccountIds = c.req.query('cashAccountIds');
+  const parsed = cashForecastSchema.safeParse({
+    horizon: c.req.query('horizon') || undefined,
+    lookbackDays: lookbackDays ? Number(lookbackDays) : undefined,
+    cashAccountIds: cashAccountIds ? cashAccountIds.split(',').map(Number) : undefined
+  });
+  if (!parsed.success) {
+    return c.json({
+      success: false,
+      error: 'Invalid cash forecast parameters',
+      details: parsed.error.issues
+    }, 400)
+  }
+
+  return buildCashForecast(c, parsed.data);
+})
+
+/**
+ * POST /api/reports/cash-forecast
+ * Cash forecast with a what-if scenario, e.g. { "scenario": { "adjustments": [{ "type": "shift",
+ * "match": "payroll", "days": 7 }] } }. Adjustments only shape this response and are never saved.
+ * Budgets and trend can overlap when both cover the same spending; exclude one by source.
+ */
+reportsRouter.post('/cash-forecast', async (c: Context<AppContext & ReportsContext>) => {
+  const body = await c.req.json().catch(() => null);
+  const parsed = cashForecastSchema.safeParse(body ?? {});
+  if (!parsed.success) {
+    return c.json({
+      success: false,
+      error: 'Invalid cash forecast request',
+      details: parsed.error.issues
+    }, 400)
+  }
+
+  return buildCashForecast(c, parsed.data);
+})
+
 /**
  * GET /api/reports/financial-metrics
  * Get comprehensive financial health metrics
@@ -772,6 +1104,14 @@ reportsRouter.get('/export/balance-sheet', async (c: Context<AppContext & Report
     const format = c.req.query('format') || 'csv'; // csv, pdf, excel
     const asOfDate = parseDate(asOfDateStr, new Date());
     
+    // Comparative export: compare=months|quarters|ytd
+    const compare = c.req.query('compare')
+    if (compare) {
+      const statement = await generateComparativeStatement(c, 'balance-sheet', parseComparisonOptions(c, compare, asOfDate))
+      if (statement instanceof Response) return statement
+      return exportComparativeStatement(c, statement, format, 'Comparative Balance Sheet', `balance-sheet-${compare}-${toISODateString(asOfDate)}`)
+    }
+    
     // Generate balance sheet data
     const balanceSheet = await _reportsEngine.generateBalanceSheet(asOfDate, entityId)
     const metrics = await _reportsEngine.getFinancialMetrics(asOfDate)
@@ -993,6 +1333,14 @@ reportsRouter.get('/export/income-statement', async (c: Context<AppContext & Rep
     const startDate = parseDate(startDateStr, defaultStartDate)
     const endDate = parseDate(endDateStr, defaultEndDate)
     
+    // Comparative export: compare=months|quarters|ytd|budget, or groupBy=department|project|costCenter
+    const compare = c.req.query('compare')
+    if (compare || c.req.query('groupBy')) {
+      const statement = await generateComparativeStatement(c, 'income-statement', parseComparisonOptions(c, compare || 'ytd', endDate))
+      if (statement instanceof Response) return statement
+      return exportComparativeStatement(c, statement, format, 'Comparative Income Statement', `income-statement-${compare || 'dimension'}-${toISODateString(endDate)}`)
+    }
+    
     // Generate income statement
     const incomeStatement = await _reportsEngine.generateIncomeStatement(startDate, endDate, entityId)
     
@@ -1,4 +1,4 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import {
   DatabaseAdapter,
   DatabaseAccountRegistry,
@@ -8,11 +8,19 @@ import {
   FINANCIAL_CONSTANTS,
   DatabaseJournalEntryManager,
   DoubleEntryError,
+  TransactionStateError,
+  ApprovalError,
+  PeriodClosureError,
+  DocumentAttachmentService,
 } from '../../../lib/index.worker.js';
-import type { Currency, JournalEntry, Account } from '../../../types/index.js';
-import { authMiddleware } from '../../middleware/auth';
+import type { Currency, JournalEntry, Account, IntercompanyTransaction } from '../../../types/index.js';
+import { authMiddleware, entityScopeMiddleware } from '../../middleware/auth';
 import { FinancialAIService, createAIService } from '../../../ai/index.js';
-import type { AppContext } from '../../types';
+import type { AppContext, EntityVariables } from '../../types';
+import type { D1Database } from '@cloudflare/workers-types';
+import { getPostingContext } from '../../utils/permissions';
+import { createDatabase, getRawDocByFileId } from '../../../db/index.js';
+import { deliverBudgetAlerts } from '../../utils/budget-alerts';
 
 // Helper function to handle error responses
 function handleAccountingError(error: unknown) {
@@ -43,9 +51,85 @@ function handleDoubleEntryError(error: unknown) {
   return null;
 }
 
-const transactionsRouter = new Hono<AppContext>();
+// Helper function for one side of an intercompany transaction, which only moves together with the other side
+function handleIntercompanyTransaction(link: IntercompanyTransaction, action: 'post' | 'void' | 'reverse') {
+  return {
+    error: `Transaction belongs to intercompany transaction ${link.linkId}; ${action} both sides together`,
+    code: 'INTERCOMPANY_TRANSACTION',
+    linkId: link.linkId,
+    endpoint: `/api/consolidation/intercompany-transactions/${link.linkId}/${action}`
+  };
+}
+
+// Helper function to email budget alerts raised by a posting without delaying the response
+function queueBudgetAlertDelivery(c: Context<TransactionsContext>, dbAdapter: DatabaseAdapter) {
+  const delivery = deliverBudgetAlerts(c.env, dbAdapter).catch(error => {
+    console.error('Failed to deliver budget alerts:', error instanceof Error ? error.message : String(error));
+  });
+  try {
+    c.executionCtx.waitUntil(delivery);
+  } catch {
+    // No execution context outside the Workers runtime; the delivery still runs
+  }
+}
+
+// Helper function to handle invalid status transitions (post, void, reverse)
+function handleTransactionStateError(error: unknown) {
+  if (error instanceof TransactionStateError) {
+    return {
+      error: error.message,
+      code: error.code,
+      accountingError: true
+    };
+  }
+  return null;
+}
+
+// Helper function to handle maker-checker violations (segregation of duties, approver role)
+function handleApprovalError(error: unknown) {
+  if (error instanceof ApprovalError) {
+    return {
+      error: error.message,
+      code: error.code,
+      accountingError: true
+    };
+  }
+  return null;
+}
+
+// Helper function to handle postings dated inside a closed fiscal period
+function handlePeriodClosureError(error: unknown) {
+  if (error instanceof PeriodClosureError) {
+    return {
+      error: error.message,
+      code: error.code,
+      details: error.details,
+      accountingError: true
+    };
+  }
+  return null;
+}
+
+// Helper function to create the services used by the lifecycle endpoints
+async function createTransactionServices(database: D1Database, entityId: string) {
+  const dbAdapter = new DatabaseAdapter({
+    database,
+    entityId,
+    defaultCurrency: FINANCIAL_CONSTANTS.DEFAULT_CURRENCY as Currency,
+  });
+  const accountRegistry = new DatabaseAccountRegistry(dbAdapter);
+  await accountRegistry.loadAccountsFromDatabase();
+  const journalManager = new DatabaseJournalEntryManager(dbAdapter, accountRegistry);
+
+  return { dbAdapter, accountRegistry, journalManager };
+}
+
+type TransactionsContext = AppContext & { Variables: EntityVariables };
+
+const transactionsRouter = new Hono<TransactionsContext>();
 
 transactionsRouter.use('*', authMiddleware);
+transactionsRouter.use('*', entityScopeMiddleware);
 
 
 
@@ -100,7 +184,6 @@ transactionsRouter.get('/', async (c) => {
     const { 
       limit = '50', 
       offset = '0', 
-      entityId = 'default', 
       dateFrom, 
       dateTo,
       status,
@@ -164,11 +247,11 @@ transactionsRouter.get('/', async (c) => {
         offset: offsetNum,
         hasMore: (offsetNum + limitNum) < totalCount
       },
-      filters: { entityId, dateFrom, dateTo, status, currency },
+      filters: { entityId: c.get('entityId'), dateFrom, dateTo, status, currency },
       metadata: {
         supportedCurrencies: FINANCIAL_CONSTANTS.SUPPORTED_CURRENCIES,
         defaultCurrency: FINANCIAL_CONSTANTS.DEFAULT_CURRENCY as Currency,
-        supportedStatuses: ['PENDING', 'POSTED', 'CANCELLED', 'REVERSED']
+        supportedStatuses: ['DRAFT', 'PENDING', 'APPROVED', 'POSTED', 'REVERSED', 'VOID']
       }
     })
   } catch (error: unknown) {
@@ -209,7 +292,7 @@ transactionsRouter.get('/:id', async (c) => {
 
     const dbAdapter = new DatabaseAdapter({
       database: c.env.FINANCE_MANAGER_DB,
-      entityId: user.id,
+      entityId: c.get('entityId'),
       defaultCurrency: FINANCIAL_CONSTANTS.DEFAULT_CURRENCY as Currency,
     });
     const accountRegistry = new DatabaseAccountRegistry(dbAdapter);
@@ -228,6 +311,7 @@ transactionsRouter.get('/:id', async (c) => {
     
     // Get associated journal entries
     const journalEntries = await journalManager.getTransactionJournalEntries(parseInt(transaction.id))
+    const attachments = await dbAdapter.getTransactionAttachments(parseInt(transaction.id))
     
     // Calculate totals from journal entries
     const debitTotal = journalEntries
@@ -255,7 +339,11 @@ transactionsRouter.get('/:id', async (c) => {
         formattedCreditTotal: formatCurrency(creditTotal, transactionCurrency),
         journalEntriesCount: journalEntries.length,
         currency: transactionCurrency
-      }
+      },
+      attachments: attachments.map(attachment => ({
+        ...attachment,
+        url: `/api/uploads/${attachment.fileId}`
+      }))
     }
     
     return c.json({
@@ -304,12 +392,17 @@ transactionsRouter.post('/', async (c) => {
       return c.json({ error: currencyError, code: 'VALIDATION_ERROR' }, 400);
     }
 
+    // Optional manual rate to the base currency; otherwise the stored rate for the date is used
+    if (body.exchangeRate !== undefined && (typeof body.exchangeRate !== 'number' || body.exchangeRate <= 0)) {
+      return c.json({ error: 'Exchange rate must be a positive number', code: 'VALIDATION_ERROR' }, 400);
+    }
+
     const user = c.get('user');
     if (!user) return c.json({ error: 'Unauthorized' }, 401);
 
     const dbAdapter = new DatabaseAdapter({
       database: c.env.FINANCE_MANAGER_DB,
-      entityId: user.id,
+      entityId: c.get('entityId'),
       defaultCurrency: FINANCIAL_CONSTANTS.DEFAULT_CURRENCY as Currency,
     });
     const accountRegistry = new DatabaseAccountRegistry(dbAdapter);
@@ -321,7 +414,12 @@ transactionsRouter.post('/', async (c) => {
       .setDescription(body.description)
       .setReference(body.reference || '')
       .setDate(body.transactionDate ? new Date(body.transactionDate) : new Date())
-      .setCurrency(currency as Currency)
+      .setCurrency(currency as Currency, body.exchangeRate)
+      .setDimensions({
+        departmentId: body.departmentId,
+        projectId: body.projectId,
+        costCenterId: body.costCenterId
+      })
     
     // Add entries to the transaction builder
     for (const entry of body.entries) {
@@ -357,11 +455,16 @@ transactionsRouter.post('/', async (c) => {
         }, 400)
       }
       
-      // Add to transaction builder based on entry amounts
+      // Add to transaction builder based on entry amounts; line dimension codes override the transaction's
+      const dimensions = {
+        departmentId: entry.departmentId,
+        projectId: entry.projectId,
+        costCenterId: entry.costCenterId
+      }
       if (entry.debitAmount && entry.debitAmount > 0) {
-        transactionBuilder.debit(entry.accountId, entry.debitAmount, entry.description)
+        transactionBuilder.debit(entry.accountId, entry.debitAmount, entry.description, dimensions)
       } else if (entry.creditAmount && entry.creditAmount > 0) {
-        transactionBuilder.credit(entry.accountId, entry.creditAmount, entry.description)
+        transactionBuilder.credit(entry.accountId, entry.creditAmount, entry.description, dimensions)
       } else {
         return c.json({
           error: 'Entry must have either debitAmount or creditAmount greater than 0',
@@ -384,7 +487,7 @@ transactionsRouter.post('/', async (c) => {
     const transactionData = transactionBuilder.build()
     
     // Create and persist the transaction with journal entries
-    const result = await journalManager.createAndPersistTransaction(transactionData)
+    const result = await journalManager.createAndPersistTransaction(transactionData, getPostingContext(user))
     
     // Calculate transaction amount and currency from journal entries
     const transactionAmount = result.journalEntries.reduce((sum: number, entry: any) => 
@@ -500,6 +603,11 @@ transactionsRouter.post('/', async (c) => {
   } catch (error: unknown) {
     // Error creating transaction
     
+    const periodClosureError = handlePeriodClosureError(error);
+    if (periodClosureError) {
+      return c.json(periodClosureError, 409);
+    }
+
     const doubleEntryError = handleDoubleEntryError(error);
     if (doubleEntryError) {
       return c.json(doubleEntryError, 400);
@@ -519,6 +627,620 @@ transactionsRouter.post('/', async (c) => {
   }
 })
 
+// POST /transactions/:id/submit - Submit a draft into the approval workflow
+transactionsRouter.post('/:id/submit', async (c) => {
+  try {
+    const idValidation = validateTransactionId(c.req.param('id'));
+    if (!idValidation.valid) {
+      return c.json({
+        error: 'Invalid transaction ID',
+        message: idValidation.error,
+        code: 'INVALID_TRANSACTION_ID',
+      }, 400);
+    }
+
+    const user = c.get('user');
+    if (!user) return c.json({ error: 'Unauthorized' }, 401);
+
+    const body = await c.req.json().catch(() => ({}));
+
+    const { dbAdapter, journalManager } = await createTransactionServices(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+
+    const existing = await dbAdapter.getTransaction(idValidation.id as number);
+    if (!existing) {
+      return c.json({
+        error: 'Transaction not found',
+        message: `No transaction found with ID ${idValidation.id}`,
+        code: 'TRANSACTION_NOT_FOUND'
+      }, 404);
+    }
+
+    const transaction = await journalManager.submitForApproval(
+      idValidation.id as number,
+      { id: user.id, role: user.role },
+      body.comments
+    );
+
+    return c.json({
+      transaction,
+      message: transaction.status === 'APPROVED'
+        ? 'Transaction is below every approval threshold and was approved automatically'
+        : 'Transaction submitted for approval'
+    });
+  } catch (error: unknown) {
+    const approvalError = handleApprovalError(error);
+    if (approvalError) {
+      return c.json(approvalError, 403);
+    }
+
+    const stateError = handleTransactionStateError(error);
+    if (stateError) {
+      return c.json(stateError, 409);
+    }
+
+    const accountingError = handleAccountingError(error);
+    if (accountingError) {
+      return c.json(accountingError, 400);
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({
+      error: 'Failed to submit transaction',
+      message: errorMessage,
+      code: 'TRANSACTION_SUBMIT_ERROR'
+    }, 500);
+  }
+});
+
+// POST /transactions/:id/approve - Sign off the next approval step
+transactionsRouter.post('/:id/approve', async (c) => {
+  try {
+    const idValidation = validateTransactionId(c.req.param('id'));
+    if (!idValidation.valid) {
+      return c.json({
+        error: 'Invalid transaction ID',
+        message: idValidation.error,
+        code: 'INVALID_TRANSACTION_ID',
+      }, 400);
+    }
+
+    const user = c.get('user');
+    if (!user) return c.json({ error: 'Unauthorized' }, 401);
+
+    const body = await c.req.json().catch(() => ({}));
+
+    const { dbAdapter, journalManager } = await createTransactionServices(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+
+    const existing = await dbAdapter.getTransaction(idValidation.id as number);
+    if (!existing) {
+      return c.json({
+        error: 'Transaction not found',
+        message: `No transaction found with ID ${idValidation.id}`,
+        code: 'TRANSACTION_NOT_FOUND'
+      }, 404);
+    }
+
+    const transaction = await journalManager.approveTransaction(
+      idValidation.id as number,
+      { id: user.id, role: user.role },
+      body.comments
+    );
+
+    return c.json({
+      transaction,
+      message: transaction.status === 'APPROVED'
+        ? 'Transaction fully approved'
+        : 'Approval step recorded; further approval is required'
+    });
+  } catch (error: unknown) {
+    const approvalError = handleApprovalError(error);
+    if (approvalError) {
+      return c.json(approvalError, 403);
+    }
+
+    const stateError = handleTransactionStateError(error);
+    if (stateError) {
+      return c.json(stateError, 409);
+    }
+
+    const accountingError = handleAccountingError(error);
+    if (accountingError) {
+      return c.json(accountingError, 400);
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({
+      error: 'Failed to approve transaction',
+      message: errorMessage,
+      code: 'TRANSACTION_APPROVE_ERROR'
+    }, 500);
+  }
+});
+
+// POST /transactions/:id/reject - Reject a pending transaction back to draft with comments
+transactionsRouter.post('/:id/reject', async (c) => {
+  try {
+    const idValidation = validateTransactionId(c.req.param('id'));
+    if (!idValidation.valid) {
+      return c.json({
+        error: 'Invalid transaction ID',
+        message: idValidation.error,
+        code: 'INVALID_TRANSACTION_ID',
+      }, 400);
+    }
+
+    const user = c.get('user');
+    if (!user) return c.json({ error: 'Unauthorized' }, 401);
+
+    const body = await c.req.json().catch(() => ({}));
+    if (!body.comments || typeof body.comments !== 'string' || body.comments.trim().length === 0) {
+      return c.json({
+        error: 'Rejection comments are required',
+        code: 'VALIDATION_ERROR'
+      }, 400);
+    }
+
+    const { dbAdapter, journalManager } = await createTransactionServices(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+
+    const existing = await dbAdapter.getTransaction(idValidation.id as number);
+    if (!existing) {
+      return c.json({
+        error: 'Transaction not found',
+        message: `No transaction found with ID ${idValidation.id}`,
+        code: 'TRANSACTION_NOT_FOUND'
+      }, 404);
+    }
+
+    const transaction = await journalManager.rejectTransaction(
+      idValidation.id as number,
+      { id: user.id, role: user.role },
+      body.comments
+    );
+
+    return c.json({
+      transaction,
+      message: 'Transaction rejected and returned to draft'
+    });
+  } catch (error: unknown) {
+    const approvalError = handleApprovalError(error);
+    if (approvalError) {
+      return c.json(approvalError, 403);
+    }
+
+    const stateError = handleTransactionStateError(error);
+    if (stateError) {
+      return c.json(stateError, 409);
+    }
+
+    const accountingError = handleAccountingError(error);
+    if (accountingError) {
+      return c.json(accountingError, 400);
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({
+      error: 'Failed to reject transaction',
+      message: errorMessage,
+      code: 'TRANSACTION_REJECT_ERROR'
+    }, 500);
+  }
+});
+
+// GET /transactions/:id/approvals - Approval history for a transaction
+transactionsRouter.get('/:id/approvals', async (c) => {
+  try {
+    const idValidation = validateTransactionId(c.req.param('id'));
+    if (!idValidation.valid) {
+      return c.json({
+        error: 'Invalid transaction ID',
+        message: idValidation.error,
+        code: 'INVALID_TRANSACTION_ID',
+      }, 400);
+    }
+
+    const user = c.get('user');
+    if (!user) return c.json({ error: 'Unauthorized' }, 401);
+
+    const { dbAdapter, journalManager } = await createTransactionServices(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+
+    const transaction = await dbAdapter.getTransaction(idValidation.id as number);
+    if (!transaction) {
+      return c.json({
+        error: 'Transaction not found',
+        message: `No transaction found with ID ${idValidation.id}`,
+        code: 'TRANSACTION_NOT_FOUND'
+      }, 404);
+    }
+
+    const approvals = await journalManager.getTransactionApprovals(idValidation.id as number);
+
+    return c.json({
+      transactionId: transaction.id,
+      status: transaction.status,
+      approvals,
+      count: approvals.length
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({
+      error: 'Failed to fetch approval history',
+      message: errorMessage,
+      code: 'APPROVALS_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// GET /transactions/:id/attachments - Source documents attached to the transaction or its lines
+transactionsRouter.get('/:id/attachments', async (c) => {
+  try {
+    const idValidation = validateTransactionId(c.req.param('id'));
+    if (!idValidation.valid) {
+      return c.json({
+        error: 'Invalid transaction ID',
+        message: idValidation.error,
+        code: 'INVALID_TRANSACTION_ID',
+      }, 400);
+    }
+
+    const user = c.get('user');
+    if (!user) return c.json({ error: 'Unauthorized' }, 401);
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+
+    const transaction = await dbAdapter.getTransaction(idValidation.id as number);
+    if (!transaction) {
+      return c.json({
+        error: 'Transaction not found',
+        message: `No transaction found with ID ${idValidation.id}`,
+        code: 'TRANSACTION_NOT_FOUND'
+      }, 404);
+    }
+
+    const attachments = await dbAdapter.getTransactionAttachments(idValidation.id as number);
+
+    return c.json({
+      transactionId: transaction.id,
+      attachments: attachments.map(attachment => ({
+        ...attachment,
+        url: `/api/uploads/${attachment.fileId}`
+      })),
+      count: attachments.length
+    });
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({
+      error: 'Failed to fetch attachments',
+      message: errorMessage,
+      code: 'ATTACHMENTS_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// POST /transactions/:id/attachments - Attach an uploaded document ({ fileId, journalEntryId? })
+transactionsRouter.post('/:id/attachments', async (c) => {
+  try {
+    const idValidation = validateTransactionId(c.req.param('id'));
+    if (!idValidation.valid) {
+      return c.json({
+        error: 'Invalid transaction ID',
+        message: idValidation.error,
+        code: 'INVALID_TRANSACTION_ID',
+      }, 400);
+    }
+
+    const user = c.get('user');
+    if (!user) return c.json({ error: 'Unauthorized' }, 401);
+
+    const body = await c.req.json().catch(() => ({})) as { fileId?: unknown; journalEntryId?: unknown };
+    if (typeof body.fileId !== 'string' || !body.fileId) {
+      return c.json({
+        error: 'fileId is required',
+        code: 'VALIDATION_ERROR'
+      }, 400);
+    }
+    if (body.journalEntryId !== undefined
+      && (typeof body.journalEntryId !== 'number' || !Number.isInteger(body.journalEntryId) || body.journalEntryId <= 0)) {
+      return c.json({
+        error: 'journalEntryId must be a positive integer',
+        code: 'VALIDATION_ERROR'
+      }, 400);
+    }
+
+    const rawDoc = await getRawDocByFileId(createDatabase(c.env.FINANCE_MANAGER_DB), body.fileId);
+    if (!rawDoc) {
+      return c.json({
+        error: 'Document not found',
+        message: `No uploaded document with file ID ${body.fileId}`,
+        code: 'DOCUMENT_NOT_FOUND'
+      }, 404);
+    }
+    if (rawDoc.uploadedBy !== user.id) {
+      return c.json({
+        error: 'Not authorized to attach this document',
+        code: 'FORBIDDEN'
+      }, 403);
+    }
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const attachment = await new DocumentAttachmentService(dbAdapter).attach(
+      idValidation.id as number,
+      rawDoc.id,
+      { journalEntryId: body.journalEntryId as number | undefined },
+      user.id
+    );
+
+    return c.json({
+      attachment: { ...attachment, url: `/api/uploads/${attachment.fileId}` },
+      message: 'Document attached successfully'
+    }, 201);
+  } catch (error: unknown) {
+    if (error instanceof AccountingValidationError && error.code === 'TRANSACTION_NOT_FOUND') {
+      return c.json({ error: error.message, code: error.code }, 404);
+    }
+    if (error instanceof AccountingValidationError && error.code === 'DOCUMENT_ALREADY_ATTACHED') {
+      return c.json({ error: error.message, code: error.code }, 409);
+    }
+
+    const accountingError = handleAccountingError(error);
+    if (accountingError) {
+      return c.json(accountingError, 400);
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({
+      error: 'Failed to attach document',
+      message: errorMessage,
+      code: 'ATTACHMENT_CREATE_ERROR'
+    }, 500);
+  }
+});
+
+// DELETE /transactions/:id/attachments/:attachmentId - Unlink a document (not allowed once posted)
+transactionsRouter.delete('/:id/attachments/:attachmentId', async (c) => {
+  try {
+    const idValidation = validateTransactionId(c.req.param('id'));
+    const attachmentId = Number.parseInt(c.req.param('attachmentId'), 10);
+    if (!idValidation.valid || Number.isNaN(attachmentId) || attachmentId <= 0) {
+      return c.json({
+        error: 'Invalid transaction or attachment ID',
+        message: idValidation.error,
+        code: 'INVALID_ATTACHMENT_ID',
+      }, 400);
+    }
+
+    const user = c.get('user');
+    if (!user) return c.json({ error: 'Unauthorized' }, 401);
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    await new DocumentAttachmentService(dbAdapter).detach(idValidation.id as number, attachmentId);
+
+    return c.json({ message: 'Document unlinked successfully' });
+  } catch (error: unknown) {
+    const stateError = handleTransactionStateError(error);
+    if (stateError) {
+      return c.json(stateError, 409);
+    }
+
+    if (error instanceof AccountingValidationError
+      && (error.code === 'ATTACHMENT_NOT_FOUND' || error.code === 'TRANSACTION_NOT_FOUND')) {
+      return c.json({ error: error.message, code: error.code }, 404);
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({
+      error: 'Failed to unlink document',
+      message: errorMessage,
+      code: 'ATTACHMENT_DELETE_ERROR'
+    }, 500);
+  }
+});
+
+// POST /transactions/:id/post - Post a draft or approved transaction to the ledger
+transactionsRouter.post('/:id/post', async (c) => {
+  try {
+    const idValidation = validateTransactionId(c.req.param('id'));
+    if (!idValidation.valid) {
+      return c.json({
+        error: 'Invalid transaction ID',
+        message: idValidation.error,
+        code: 'INVALID_TRANSACTION_ID',
+      }, 400);
+    }
+
+    const user = c.get('user');
+    if (!user) return c.json({ error: 'Unauthorized' }, 401);
+
+    const { dbAdapter, journalManager } = await createTransactionServices(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+
+    const existing = await dbAdapter.getTransaction(idValidation.id as number);
+    if (!existing) {
+      return c.json({
+        error: 'Transaction not found',
+        message: `No transaction found with ID ${idValidation.id}`,
+        code: 'TRANSACTION_NOT_FOUND'
+      }, 404);
+    }
+
+    const intercompany = await dbAdapter.getIntercompanyTransactionForTransaction(idValidation.id as number);
+    if (intercompany) {
+      return c.json(handleIntercompanyTransaction(intercompany, 'post'), 409);
+    }
+
+    const transaction = await journalManager.postTransaction(idValidation.id as number, getPostingContext(user));
+    queueBudgetAlertDelivery(c, dbAdapter);
+
+    return c.json({
+      transaction,
+      message: 'Transaction posted successfully'
+    });
+  } catch (error: unknown) {
+    const periodClosureError = handlePeriodClosureError(error);
+    if (periodClosureError) {
+      return c.json(periodClosureError, 409);
+    }
+
+    const stateError = handleTransactionStateError(error);
+    if (stateError) {
+      return c.json(stateError, 409);
+    }
+
+    const accountingError = handleAccountingError(error);
+    if (accountingError) {
+      return c.json(accountingError, 400);
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({
+      error: 'Failed to post transaction',
+      message: errorMessage,
+      code: 'TRANSACTION_POST_ERROR'
+    }, 500);
+  }
+});
+
+// POST /transactions/:id/void - Void a transaction that has not been posted
+transactionsRouter.post('/:id/void', async (c) => {
+  try {
+    const idValidation = validateTransactionId(c.req.param('id'));
+    if (!idValidation.valid) {
+      return c.json({
+        error: 'Invalid transaction ID',
+        message: idValidation.error,
+        code: 'INVALID_TRANSACTION_ID',
+      }, 400);
+    }
+
+    const user = c.get('user');
+    if (!user) return c.json({ error: 'Unauthorized' }, 401);
+
+    const { dbAdapter, journalManager } = await createTransactionServices(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+
+    const existing = await dbAdapter.getTransaction(idValidation.id as number);
+    if (!existing) {
+      return c.json({
+        error: 'Transaction not found',
+        message: `No transaction found with ID ${idValidation.id}`,
+        code: 'TRANSACTION_NOT_FOUND'
+      }, 404);
+    }
+
+    const intercompany = await dbAdapter.getIntercompanyTransactionForTransaction(idValidation.id as number);
+    if (intercompany) {
+      return c.json(handleIntercompanyTransaction(intercompany, 'void'), 409);
+    }
+
+    const transaction = await journalManager.voidTransaction(idValidation.id as number, user.id);
+
+    return c.json({
+      transaction,
+      message: 'Transaction voided successfully'
+    });
+  } catch (error: unknown) {
+    const stateError = handleTransactionStateError(error);
+    if (stateError) {
+      return c.json(stateError, 409);
+    }
+
+    const accountingError = handleAccountingError(error);
+    if (accountingError) {
+      return c.json(accountingError, 400);
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({
+      error: 'Failed to void transaction',
+      message: errorMessage,
+      code: 'TRANSACTION_VOID_ERROR'
+    }, 500);
+  }
+});
+
+// POST /transactions/:id/reverse - Reverse a posted transaction with a mirror entry
+transactionsRouter.post('/:id/reverse', async (c) => {
+  try {
+    const idValidation = validateTransactionId(c.req.param('id'));
+    if (!idValidation.valid) {
+      return c.json({
+        error: 'Invalid transaction ID',
+        message: idValidation.error,
+        code: 'INVALID_TRANSACTION_ID',
+      }, 400);
+    }
+
+    const user = c.get('user');
+    if (!user) return c.json({ error: 'Unauthorized' }, 401);
+
+    // Body is optional; reversalDate defaults to today
+    const body = await c.req.json().catch(() => ({}));
+    const reversalDate = body.reversalDate ? new Date(body.reversalDate) : new Date();
+    if (Number.isNaN(reversalDate.getTime())) {
+      return c.json({
+        error: 'Invalid reversal date',
+        message: 'reversalDate must be a valid ISO 8601 date',
+        code: 'VALIDATION_ERROR'
+      }, 400);
+    }
+
+    const { dbAdapter, journalManager } = await createTransactionServices(c.env.FINANCE_MANAGER_DB, c.get('entityId'));
+
+    const existing = await dbAdapter.getTransaction(idValidation.id as number);
+    if (!existing) {
+      return c.json({
+        error: 'Transaction not found',
+        message: `No transaction found with ID ${idValidation.id}`,
+        code: 'TRANSACTION_NOT_FOUND'
+      }, 404);
+    }
+
+    const intercompany = await dbAdapter.getIntercompanyTransactionForTransaction(idValidation.id as number);
+    if (intercompany) {
+      return c.json(handleIntercompanyTransaction(intercompany, 'reverse'), 409);
+    }
+
+    const { original, reversal } = await journalManager.reverseTransaction(
+      idValidation.id as number,
+      getPostingContext(user),
+      reversalDate
+    );
+    queueBudgetAlertDelivery(c, dbAdapter);
+    const reversalEntries = await journalManager.getTransactionJournalEntries(Number.parseInt(reversal.id));
+
+    return c.json({
+      transaction: original,
+      reversal: {
+        ...reversal,
+        journalEntries: reversalEntries.map((entry: JournalEntry) => ({
+          ...entry,
+          formattedAmount: formatCurrency(entry.debitAmount || entry.creditAmount, entry.currency)
+        }))
+      },
+      message: 'Transaction reversed successfully'
+    }, 201);
+  } catch (error: unknown) {
+    const periodClosureError = handlePeriodClosureError(error);
+    if (periodClosureError) {
+      return c.json(periodClosureError, 409);
+    }
+
+    const stateError = handleTransactionStateError(error);
+    if (stateError) {
+      return c.json(stateError, 409);
+    }
+
+    const accountingError = handleAccountingError(error);
+    if (accountingError) {
+      return c.json(accountingError, 400);
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return c.json({
+      error: 'Failed to reverse transaction',
+      message: errorMessage,
+      code: 'TRANSACTION_REVERSE_ERROR'
+    }, 500);
+  }
+});
+
 // GET /transactions/categorization-suggestions - Get all pending categorization suggestions
 transactionsRouter.get('/categorization-suggestions', async (c) => {
   try {
@@ -575,7 +1297,7 @@ transactionsRouter.post('/categorization-suggestions/:suggestionId/apply', async
     // 3. Create a re-classification transaction
     const dbAdapter = new DatabaseAdapter({
       database: c.env.FINANCE_MANAGER_DB,
-      entityId: user.id,
+      entityId: c.get('entityId'),
       defaultCurrency: FINANCIAL_CONSTANTS.DEFAULT_CURRENCY as Currency,
     });
     const accountRegistry = new DatabaseAccountRegistry(dbAdapter);
@@ -603,7 +1325,7 @@ transactionsRouter.post('/categorization-suggestions/:suggestionId/apply', async
     }
 
     const transactionData = transactionBuilder.build();
-    const result = await journalManager.createAndPersistTransaction(transactionData);
+    const result = await journalManager.createAndPersistTransaction(transactionData, getPostingContext(user));
 
     // 5. Delete the suggestion from KV
     await c.env.FINANCE_MANAGER_CACHE.delete(kvKey);
@@ -613,6 +1335,11 @@ transactionsRouter.post('/categorization-suggestions/:suggestionId/apply', async
       transaction: result.transaction,
     });
   } catch (error: unknown) {
+    const periodClosureError = handlePeriodClosureError(error);
+    if (periodClosureError) {
+      return c.json(periodClosureError, 409);
+    }
+
     const doubleEntryError = handleDoubleEntryError(error);
     if (doubleEntryError) {
       return c.json(doubleEntryError, 400);
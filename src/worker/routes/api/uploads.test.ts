@@ -0,0 +1,68 @@
+import { env } from 'cloudflare:test';
+import { beforeEach, describe, expect, it } from 'vitest';
+import uploadsRouter from './uploads';
+import { createTestAccount, createTestAdapter } from '../../../../tests/helpers/ledger';
+import { TEST_ENV, authHeaders, createTestUser } from '../../../../tests/helpers/auth';
+
+describe('create transaction from document', () => {
+  let expenseId: number;
+
+  beforeEach(async () => {
+    await createTestUser({ id: 'accountant', role: 'ACCOUNTANT', entityId: 'entity-1' });
+
+    const adapter = createTestAdapter('entity-1');
+    expenseId = (await createTestAccount(adapter, '6000', 'EXPENSE')).id;
+    await createTestAccount(adapter, '2000', 'LIABILITY', { subtype: 'ACCOUNTS_PAYABLE' });
+
+    // A scanned receipt whose OCR produced no text, so nothing was extracted
+    const now = Date.now();
+    await env.FINANCE_MANAGER_DB.prepare(`
+      INSERT INTO raw_docs (file_id, original_name, mime_type, file_size, r2_key, ocr_status, uploaded_by, created_at, updated_at)
+      VALUES ('receipt-1', 'receipt.jpg', 'image/jpeg', 1024, 'uploads/receipt-1', 'FAILED', 'accountant', ?, ?)
+    `).bind(now, now).run();
+  });
+
+  async function createTransaction(body: unknown): Promise<Response> {
+    return await uploadsRouter.request('/receipt-1/create-transaction', {
+      method: 'POST',
+      headers: await authHeaders('accountant'),
+      body: JSON.stringify(body)
+    }, TEST_ENV);
+  }
+
+  it('asks for the fields when the document has no extracted data', async () => {
+    const response = await createTransaction({ expenseAccountId: expenseId, preview: true });
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({ code: 'DOCUMENT_NOT_EXTRACTED' });
+  });
+
+  it('builds the draft from the overrides when nothing was extracted', async () => {
+    const response = await createTransaction({
+      expenseAccountId: expenseId,
+      overrides: { vendor: 'Toko Makmur', documentDate: '2024-03-15', totalAmount: 150000, currency: 'IDR' },
+      preview: true
+    });
+
+    expect(response.status).toBe(200);
+    const { data } = await response.json() as {
+      data: { review: { lines: Array<{ role: string; debitAmount: number; creditAmount: number }>; fields: { vendor: { source: string } } } };
+    };
+    expect(data.review.fields.vendor.source).toBe('USER');
+    expect(data.review.lines.map(line => [line.role, line.debitAmount, line.creditAmount])).toEqual([
+      ['EXPENSE', 150000, 0],
+      ['PAYABLE', 0, 150000]
+    ]);
+  });
+
+  it('still requires a total when the overrides leave it out', async () => {
+    const response = await createTransaction({
+      expenseAccountId: expenseId,
+      overrides: { vendor: 'Toko Makmur' },
+      preview: true
+    });
+
+    expect(response.status).toBe(422);
+    expect(await response.json()).toMatchObject({ code: 'DOCUMENT_TOTAL_REQUIRED' });
+  });
+});
@@ -1,12 +1,15 @@
 import { Hono } from 'hono';
-import { authMiddleware } from '../../middleware/auth';
-import type { AppContext } from '../../types';
+import { z } from 'zod';
+import { authMiddleware, entityScopeMiddleware, requireRole } from '../../middleware/auth';
+import type { AppContext, EntityVariables } from '../../types';
 import { processOCR, isOCRSupported, type OCRResult } from '../../utils/ocr';
 import { 
   createDatabase,
   createRawDoc, 
   updateRawDocOCR, 
   getRawDocByFileId, 
+  updateRawDoc,
+  deleteRawDoc,
   generateSearchableText, 
   parseTags,
   getUploadStats,
@@ -16,12 +19,26 @@ import {
 import { createOCRLogger } from '../../utils/logger';
 import { createFinancialAIService, createVectorizeServiceInstance } from '../../services';
 import type { DocumentClassification } from '../../../ai/index.js';
+import {
+  AccountingValidationError,
+  DatabaseAdapter,
+  DatabaseJournalEntryManager,
+  DocumentTransactionService,
+  FINANCIAL_CONSTANTS,
+  PeriodClosureError,
+  DocumentAttachmentService,
+  TransactionStateError,
+} from '../../../lib/index.worker.js';
+import type { Currency, ExtractedDocumentFields } from '../../../types/index.js';
+import { getPostingContext } from '../../utils/permissions';
+import { createCategorizationSuggestion } from '../../utils/categorization';
 
 
 
-const uploads = new Hono<AppContext>()
+const uploads = new Hono<AppContext & { Variables: EntityVariables }>()
 
 uploads.use('*', authMiddleware);
+uploads.use('*', entityScopeMiddleware);
 
 // File validation constants
 const ALLOWED_MIME_TYPES = [
@@ -361,7 +378,16 @@ uploads.post('/', async (c) => {
           ocrRetryable: ocrResult.retryable,
           ocrMaxRetries: ocrResult.maxRetries,
           ocrProcessedAt: new Date(),
-          searchableText: ocrResult.text ? generateSearchableText(ocrResult.text) : undefined
+          searchableText: ocrResult.text ? generateSearchableText(ocrResult.text) : undefined,
+          // Keep the LLM results for the document-to-transaction flow
+          ...(documentClassification && {
+            documentType: documentClassification.type.toUpperCase(),
+            llmConfidence: documentClassification.confidence
+          }),
+          ...(structuredData && {
+            structuredData: JSON.stringify(structuredData),
+            llmProcessedAt: new Date()
+          })
         };
 
         const updateResult = await updateRawDocOCR(db, fileId, ocrData);
@@ -568,6 +594,8 @@ uploads.get('/:fileId', async (c) => {
  *         description: File not found
  *       403:
  *         description: Not authorized to delete this file
+ *       409:
+ *         description: File is attached to a posted or reversed transaction
  */
 uploads.delete('/:fileId', async (c) => {
   try {
@@ -614,8 +642,30 @@ uploads.delete('/:fileId', async (c) => {
       }, 403);
     }
 
+    // Unlink the document from draft transactions; posted and reversed transactions keep their evidence
+    const db = createDatabase(c.env.FINANCE_MANAGER_DB);
+    const rawDoc = await getRawDocByFileId(db, fileId);
+    if (rawDoc) {
+      const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+      try {
+        await new DocumentAttachmentService(dbAdapter).releaseDocumentForDeletion(rawDoc.id);
+      } catch (error) {
+        if (error instanceof TransactionStateError) {
+          return c.json({
+            success: false,
+            error: error.message,
+            code: error.code
+          }, 409);
+        }
+        throw error;
+      }
+    }
+
     // Delete the file
     await c.env.FINANCE_MANAGER_DOCUMENTS.delete(fileObject.key);
+    if (rawDoc) {
+      await deleteRawDoc(db, fileId);
+    }
 
     return c.json({
       success: true,
@@ -1254,6 +1304,222 @@ uploads.get('/:fileId/ocr', async (c) => {
   }
 });
 
+const createTransactionSchema = z.object({
+  expenseAccountId: z.number().int().positive().optional(),
+  taxAccountId: z.number().int().positive().optional(),
+  creditAccountId: z.number().int().positive().optional(),
+  overrides: z.object({
+    vendor: z.string().min(1).max(200).optional(),
+    documentDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').optional(),
+    totalAmount: z.number().positive().optional(),
+    taxAmount: z.number().nonnegative().optional(),
+    currency: z.string().transform(value => value.toUpperCase()).refine(
+      value => FINANCIAL_CONSTANTS.SUPPORTED_CURRENCIES.includes(value as Currency),
+      { message: `Currency must be one of: ${FINANCIAL_CONSTANTS.SUPPORTED_CURRENCIES.join(', ')}` }
+    ).transform(value => value as Currency).optional(),
+    documentNumber: z.string().min(1).max(100).optional()
+  }).optional(),
+  preview: z.boolean().default(false),
+  allowDuplicate: z.boolean().default(false)
+});
+
+/**
+ * @swagger
+ * /api/uploads/{fileId}/create-transaction:
+ *   post:
+ *     summary: Create a draft transaction from an OCR'd receipt or invoice
+ *     description: Maps the extracted vendor, date, total and tax to expense, input tax and payable lines,
+ *       creates a balanced DRAFT and attaches the document. Returns a review with per-field confidence;
+ *       post the draft through /api/transactions/{id}/post once reviewed. Set preview to skip saving.
+ *     tags: [Uploads]
+ *     security:
+ *       - bearerAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: fileId
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: File ID
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               expenseAccountId:
+ *                 type: integer
+ *                 description: Expense account; suggested by AI categorization when omitted
+ *               taxAccountId:
+ *                 type: integer
+ *                 description: Input tax account; defaults to the INPUT_TAX subtype account
+ *               creditAccountId:
+ *                 type: integer
+ *                 description: Account credited; defaults to the ACCOUNTS_PAYABLE subtype account
+ *               overrides:
+ *                 type: object
+ *                 description: Corrected vendor, documentDate, totalAmount, taxAmount, currency or documentNumber
+ *               preview:
+ *                 type: boolean
+ *                 default: false
+ *               allowDuplicate:
+ *                 type: boolean
+ *                 default: false
+ *     responses:
+ *       201:
+ *         description: Draft created with its review
+ *       200:
+ *         description: Preview of the draft (preview=true)
+ *       404:
+ *         description: Document not found
+ *       409:
+ *         description: Document already attached to a transaction, or the period is closed
+ *       422:
+ *         description: Document has no extracted data or the draft cannot be completed
+ */
+uploads.post('/:fileId/create-transaction', requireRole(['ADMIN', 'SUPER_ADMIN', 'ACCOUNTANT']), async (c) => {
+  try {
+    const user = c.get('user');
+    const fileId = c.req.param('fileId');
+
+    const parsed = createTransactionSchema.safeParse(
+      c.req.header('content-type')?.includes('application/json') ? await c.req.json().catch(() => ({})) : {}
+    );
+    if (!parsed.success) {
+      return c.json({
+        success: false,
+        error: 'Invalid request',
+        details: parsed.error.issues,
+        code: 'VALIDATION_ERROR'
+      }, 400);
+    }
+    const options = parsed.data;
+
+    const db = createDatabase(c.env.FINANCE_MANAGER_DB);
+    const rawDoc = await getRawDocByFileId(db, fileId);
+    if (!rawDoc) {
+      return c.json({
+        success: false,
+        error: 'Document not found',
+        code: 'DOCUMENT_NOT_FOUND'
+      }, 404);
+    }
+    if (rawDoc.uploadedBy !== user.id) {
+      return c.json({
+        success: false,
+        error: 'Not authorized to use this document'
+      }, 403);
+    }
+
+    let structuredData: unknown = null;
+    if (rawDoc.structuredData) {
+      try {
+        structuredData = JSON.parse(rawDoc.structuredData);
+      } catch {
+        structuredData = null;
+      }
+    }
+
+    // Documents OCR'd without the LLM step are extracted now
+    const aiService = createFinancialAIService(c.env);
+    if (!structuredData && rawDoc.extractedText && aiService) {
+      const documentType = rawDoc.documentType?.toLowerCase();
+      structuredData = await aiService.extractDocumentData(
+        { text: rawDoc.extractedText, confidence: rawDoc.ocrConfidence || 0 },
+        documentType === 'receipt' || documentType === 'invoice' ? documentType : undefined
+      );
+      await updateRawDoc(db, fileId, {
+        structuredData: JSON.stringify(structuredData),
+        llmProcessedAt: new Date()
+      });
+    }
+    // Without extracted data the fields must come from the overrides; prepare() validates them after merging
+    if (!structuredData && !options.overrides) {
+      return c.json({
+        success: false,
+        error: rawDoc.extractedText
+          ? 'No extracted data available; configure the AI service or enter the fields as overrides'
+          : 'Document has no OCR text; run OCR first or enter the fields as overrides',
+        code: 'DOCUMENT_NOT_EXTRACTED'
+      }, 422);
+    }
+
+    const dbAdapter = new DatabaseAdapter({ database: c.env.FINANCE_MANAGER_DB, entityId: c.get('entityId') });
+    const service = new DocumentTransactionService(dbAdapter, new DatabaseJournalEntryManager(dbAdapter));
+    const document = {
+      rawDocId: rawDoc.id,
+      fileId,
+      name: rawDoc.originalName,
+      structuredData,
+      confidence: Math.min(rawDoc.ocrConfidence ?? 1, rawDoc.llmConfidence ?? 1)
+    };
+    const serviceOptions = {
+      ...options,
+      suggestExpenseAccount: aiService
+        ? async (fields: ExtractedDocumentFields) => {
+            const suggestion = await createCategorizationSuggestion(
+              aiService,
+              dbAdapter,
+              c.env.FINANCE_MANAGER_CACHE,
+              user.id,
+              {
+                description: fields.vendor.value ? `Purchase from ${fields.vendor.value}` : rawDoc.originalName,
+                amount: fields.totalAmount.value || 0,
+                merchant: fields.vendor.value
+              }
+            );
+            return {
+              accountId: suggestion.accountId ? Number.parseInt(suggestion.accountId, 10) : undefined,
+              confidence: suggestion.confidence
+            };
+          }
+        : undefined
+    };
+
+    if (options.preview) {
+      const review = await service.prepare(document, serviceOptions);
+      return c.json({
+        success: true,
+        data: { review }
+      });
+    }
+
+    const review = await service.createFromDocument(document, serviceOptions, getPostingContext(user));
+
+    return c.json({
+      success: true,
+      data: { review },
+      message: review.requiresReview
+        ? 'Draft transaction created; review the flagged fields before posting'
+        : 'Draft transaction created'
+    }, 201);
+  } catch (error: unknown) {
+    if (error instanceof PeriodClosureError
+      || (error instanceof AccountingValidationError && error.code === 'DOCUMENT_ALREADY_LINKED')) {
+      return c.json({
+        success: false,
+        error: error.message,
+        code: error.code
+      }, 409);
+    }
+    if (error instanceof AccountingValidationError) {
+      return c.json({
+        success: false,
+        error: error.message,
+        code: error.code,
+        details: error.details
+      }, 422);
+    }
+
+    console.error('Failed to create transaction from document:', error instanceof Error ? error.message : String(error));
+    return c.json({
+      success: false,
+      error: 'Failed to create transaction from document',
+      code: 'DOCUMENT_TRANSACTION_ERROR'
+    }, 500);
+  }
+});
+
 /**
  * @swagger
  * /api/uploads/stats:
@@ -0,0 +1,172 @@
+/**
+ * Year-End Close API
+ * Roll revenue and expense balances into retained earnings, with preview and undo
+ */
+
+import { Hono } from 'hono';
+import { z } from 'zod';
+import { zValidator } from '@hono/zod-validator';
+import {
+  AccountingValidationError,
+  DatabaseAdapter,
+  DatabaseJournalEntryManager,
+  FiscalYearError,
+  PeriodClosureError,
+  TransactionStateError,
+  YearEndCloseService,
+} from '../../../lib/index.worker.js';
+import type { AppContext, EntityVariables } from '../../types';
+import type { D1Database } from '@cloudflare/workers-types';
+import { authMiddleware, entityScopeMiddleware, requireRole } from '../../middleware/auth';
+import { getPostingContext } from '../../utils/permissions';
+
+const yearEndRouter = new Hono<AppContext & { Variables: EntityVariables }>();
+
+yearEndRouter.use('*', authMiddleware);
+yearEndRouter.use('*', entityScopeMiddleware);
+
+// Year-end close schemas
+const closeYearSchema = z.object({
+  retainedEarningsAccountId: z.number().int().positive().optional()
+});
+
+function createYearEndCloseService(database: D1Database, entityId: string) {
+  const dbAdapter = new DatabaseAdapter({ database, entityId });
+  return new YearEndCloseService(dbAdapter, new DatabaseJournalEntryManager(dbAdapter));
+}
+
+function parseFiscalYear(value: string): number | null {
+  const fiscalYear = Number.parseInt(value, 10);
+  return Number.isNaN(fiscalYear) || fiscalYear < 1900 || fiscalYear > 9999 ? null : fiscalYear;
+}
+
+// Helper function to map close errors to a status and response body
+function handleYearEndCloseError(error: unknown): { status: 400 | 409; body: Record<string, unknown> } | null {
+  if (error instanceof FiscalYearError
+    || error instanceof PeriodClosureError
+    || error instanceof TransactionStateError) {
+    return {
+      status: 409,
+      body: { error: error.message, code: error.code, details: error.details }
+    };
+  }
+  if (error instanceof AccountingValidationError) {
+    return {
+      status: 400,
+      body: { error: error.message, code: error.code }
+    };
+  }
+  return null;
+}
+
+// GET /year-end-close - Close history for the entity
+yearEndRouter.get('/', async (c) => {
+  try {
+    const closes = await createYearEndCloseService(c.env.FINANCE_MANAGER_DB, c.get('entityId')).getHistory();
+
+    return c.json({
+      closes,
+      count: closes.length
+    });
+  } catch (error: unknown) {
+    console.error('Failed to fetch year-end closes:', error);
+    return c.json({
+      error: 'Failed to fetch year-end closes',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'YEAR_END_FETCH_ERROR'
+    }, 500);
+  }
+});
+
+// GET /year-end-close/:fiscalYear/preview - Closing entries that would be posted
+yearEndRouter.get('/:fiscalYear/preview', async (c) => {
+  try {
+    const fiscalYear = parseFiscalYear(c.req.param('fiscalYear'));
+    if (!fiscalYear) {
+      return c.json({ error: 'Invalid fiscal year', code: 'INVALID_FISCAL_YEAR' }, 400);
+    }
+
+    const accountId = c.req.query('retainedEarningsAccountId');
+    const preview = await createYearEndCloseService(c.env.FINANCE_MANAGER_DB, c.get('entityId'))
+      .preview(fiscalYear, accountId ? Number.parseInt(accountId, 10) : undefined);
+
+    return c.json({ preview });
+  } catch (error: unknown) {
+    const closeError = handleYearEndCloseError(error);
+    if (closeError) {
+      return c.json(closeError.body, closeError.status);
+    }
+
+    console.error('Failed to preview year-end close:', error);
+    return c.json({
+      error: 'Failed to preview year-end close',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'YEAR_END_PREVIEW_ERROR'
+    }, 500);
+  }
+});
+
+// POST /year-end-close/:fiscalYear - Post the closing transaction
+yearEndRouter.post('/:fiscalYear', requireRole(['ADMIN', 'SUPER_ADMIN']), zValidator('json', closeYearSchema), async (c) => {
+  try {
+    const user = c.get('user');
+    const fiscalYear = parseFiscalYear(c.req.param('fiscalYear'));
+    if (!fiscalYear) {
+      return c.json({ error: 'Invalid fiscal year', code: 'INVALID_FISCAL_YEAR' }, 400);
+    }
+
+    const { retainedEarningsAccountId } = c.req.valid('json');
+    const result = await createYearEndCloseService(c.env.FINANCE_MANAGER_DB, c.get('entityId'))
+      .close(fiscalYear, getPostingContext(user), retainedEarningsAccountId);
+
+    return c.json({
+      ...result,
+      message: `Fiscal year ${fiscalYear} closed successfully`
+    }, 201);
+  } catch (error: unknown) {
+    const closeError = handleYearEndCloseError(error);
+    if (closeError) {
+      return c.json(closeError.body, closeError.status);
+    }
+
+    console.error('Failed to close fiscal year:', error);
+    return c.json({
+      error: 'Failed to close fiscal year',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'YEAR_END_CLOSE_ERROR'
+    }, 500);
+  }
+});
+
+// POST /year-end-close/:fiscalYear/undo - Reverse the closing transaction
+yearEndRouter.post('/:fiscalYear/undo', requireRole(['ADMIN', 'SUPER_ADMIN']), async (c) => {
+  try {
+    const user = c.get('user');
+    const fiscalYear = parseFiscalYear(c.req.param('fiscalYear'));
+    if (!fiscalYear) {
+      return c.json({ error: 'Invalid fiscal year', code: 'INVALID_FISCAL_YEAR' }, 400);
+    }
+
+    const result = await createYearEndCloseService(c.env.FINANCE_MANAGER_DB, c.get('entityId'))
+      .undo(fiscalYear, getPostingContext(user));
+
+    return c.json({
+      ...result,
+      message: `Year-end close for fiscal year ${fiscalYear} reversed`
+    });
+  } catch (error: unknown) {
+    const closeError = handleYearEndCloseError(error);
+    if (closeError) {
+      return c.json(closeError.body, closeError.status);
+    }
+
+    console.error('Failed to undo year-end close:', error);
+    return c.json({
+      error: 'Failed to undo year-end close',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      code: 'YEAR_END_UNDO_ERROR'
+    }, 500);
+  }
+});
+
+export default yearEndRouter;
@@ -0,0 +1,73 @@
+/**
+ * Scheduled (cron trigger) handler
+ * Generates due recurring transactions and monitors budgets for every entity
+ */
+
+import type { ExecutionContext, ScheduledController } from '@cloudflare/workers-types';
+import {
+  BudgetActualsService,
+  BudgetAlertService,
+  DatabaseAdapter,
+  DatabaseJournalEntryManager,
+  RecurringTransactionService,
+} from '../lib/index.worker.js';
+import type { Env } from './types';
+import { deliverBudgetAlerts } from './utils/budget-alerts';
+
+/**
+ * Generate recurring transactions due on or before asOfDate. Each entity is processed
+ * separately so one entity's failure does not stop the others; occurrence claims make a
+ * retried or overlapping invocation safe.
+ */
+export async function generateRecurringTransactions(env: Env, asOfDate: string): Promise<void> {
+  const entityIds = await new DatabaseAdapter({ database: env.FINANCE_MANAGER_DB })
+    .getEntitiesWithDueRecurringTemplates(asOfDate);
+
+  for (const entityId of entityIds) {
+    try {
+      const dbAdapter = new DatabaseAdapter({ database: env.FINANCE_MANAGER_DB, entityId });
+      const result = await new RecurringTransactionService(dbAdapter, new DatabaseJournalEntryManager(dbAdapter))
+        .generateDue(asOfDate, { userId: 'system' });
+
+      console.log(
+        `Recurring transactions for ${entityId} as of ${asOfDate}: ${result.generated} generated, ${result.failed} failed`
+      );
+    } catch (error) {
+      console.error(`Failed to generate recurring transactions for ${entityId}:`, error);
+    }
+  }
+}
+
+/**
+ * Recompute budget actuals of every entity with budget account mappings, raise alerts for
+ * thresholds crossed and email undelivered alerts. Postings refresh the budgets they affect
+ * straight away; this catches mapping changes, missed refreshes and failed deliveries.
+ */
+export async function monitorBudgets(env: Env): Promise<void> {
+  const adapter = new DatabaseAdapter({ database: env.FINANCE_MANAGER_DB });
+  const entityIds = new Set([
+    ...await adapter.getEntitiesWithBudgetAccountMappings(),
+    ...await adapter.getEntitiesWithUndeliveredBudgetAlerts(BudgetAlertService.MAX_DELIVERY_ATTEMPTS)
+  ]);
+
+  for (const entityId of entityIds) {
+    try {
+      const dbAdapter = new DatabaseAdapter({ database: env.FINANCE_MANAGER_DB, entityId });
+      const actuals = await new BudgetActualsService(dbAdapter).refresh();
+      const raised = await new BudgetAlertService(dbAdapter).evaluate(actuals);
+      const delivery = await deliverBudgetAlerts(env, dbAdapter);
+
+      console.log(
+        `Budgets for ${entityId}: ${actuals.length} refreshed, ${raised.length} alert(s) raised, ${delivery.sent} sent, ${delivery.failed} failed`
+      );
+    } catch (error) {
+      console.error(`Failed to monitor budgets for ${entityId}:`, error);
+    }
+  }
+}
+
+export async function handleScheduled(controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+  const asOfDate = new Date(controller.scheduledTime).toISOString().slice(0, 10);
+  // Budgets are monitored after generation so auto-posted occurrences are included
+  ctx.waitUntil(generateRecurringTransactions(env, asOfDate).then(() => monitorBudgets(env)));
+}
@@ -65,4 +65,7 @@ export type SearchResultDocument = RawDocument & {
 
 export type DocVariable = {
   doc: AppContext['Variables']['doc'];
-};
\ No newline at end of file
+};
+export type EntityVariables = {
+  entityId: string;
+};
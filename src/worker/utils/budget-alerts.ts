@@ -0,0 +1,51 @@
+/**
+ * Budget Alert Delivery
+ * Emails pending budget threshold alerts to the budget owner and approver with the budget-warning template
+ */
+
+import { BudgetAlertService, type DatabaseAdapter } from '../../lib/index.worker.js';
+import { createEmailService } from '../services';
+import { generateBudgetWarningEmail } from '../routes/api/notifications';
+import type { Env } from '../types';
+
+/**
+ * Send every undelivered alert of the adapter's entity. Failed sends stay queued until
+ * BudgetAlertService.MAX_DELIVERY_ATTEMPTS is reached.
+ */
+export async function deliverBudgetAlerts(env: Env, dbAdapter: DatabaseAdapter): Promise<{ sent: number; failed: number }> {
+  const alerts = await dbAdapter.getUndeliveredBudgetAlerts(BudgetAlertService.MAX_DELIVERY_ATTEMPTS);
+  if (alerts.length === 0) return { sent: 0, failed: 0 };
+
+  const emailService = createEmailService(env);
+  let sent = 0;
+  let failed = 0;
+
+  for (const alert of alerts) {
+    const recipients = await dbAdapter.getBudgetAlertRecipients(alert.budgetId);
+    let error: string | undefined;
+
+    if (recipients.length === 0) {
+      error = 'Budget has no owner or approver with an active account';
+    } else {
+      const result = await emailService.sendEmail({
+        to: recipients,
+        ...generateBudgetWarningEmail({
+          budget: { name: alert.budgetName || `Budget ${alert.budgetId}`, amount: alert.budgetAmount },
+          currentAmount: alert.actualAmount
+        })
+      });
+      if (!result.success) {
+        error = result.error || 'Email delivery failed';
+      }
+    }
+
+    await dbAdapter.recordBudgetAlertDelivery(alert.id, recipients, error);
+    if (error) {
+      failed++;
+    } else {
+      sent++;
+    }
+  }
+
+  return { sent, failed };
+}
@@ -0,0 +1,120 @@
+/**
+ * Categorization Suggestions
+ * AI category suggestion, matching account lookup and KV storage for the approval workflow
+ */
+
+import type { KVNamespace } from '@cloudflare/workers-types'
+import type { FinancialAIService } from '../../ai/index.js'
+import type { DatabaseAdapter } from '../../lib/index.worker.js'
+import type { Account } from '../../types/index.js'
+
+export interface CategorizationSuggestion {
+  id: string
+  transactionId?: string
+  description: string
+  amount: number
+  merchant?: string
+  suggestedCategory: string
+  suggestedSubcategory?: string
+  suggestedAccountId?: string
+  confidence: number
+  timestamp: number
+  userId: string
+  status: 'pending' | 'approved' | 'rejected'
+}
+
+export interface CategorizationResponse {
+  suggestionId: string
+  category: string
+  subcategory?: string
+  accountId?: string
+  confidence: number
+  requiresApproval: boolean
+}
+
+// Suggestions below this confidence wait for user approval
+export const CATEGORIZATION_APPROVAL_THRESHOLD = 0.8
+
+/**
+ * Ask the AI for a category, find the matching account and store the suggestion
+ * under categorization:{userId}:{suggestionId} for /api/categorization/approve
+ */
+export async function createCategorizationSuggestion(
+  financialAI: FinancialAIService,
+  db: DatabaseAdapter,
+  cache: KVNamespace,
+  userId: string,
+  input: {
+    description: string
+    amount: number
+    merchant?: string
+    existingCategories?: string[]
+    transactionId?: string
+  }
+): Promise<CategorizationResponse> {
+  const { description, amount, merchant, existingCategories, transactionId } = input
+
+  // Get AI categorization suggestion
+  const aiResult = await financialAI.categorizeExpense(
+    description,
+    amount,
+    merchant,
+    existingCategories
+  )
+
+  // Find matching account based on category
+  let suggestedAccountId: string | undefined
+
+  try {
+    const accounts = await db.getAllAccounts();
+    const lowerCaseCategory = aiResult.category.toLowerCase();
+    const matchingAccount = accounts.find((account: Account) =>
+      account.category?.toLowerCase().includes(lowerCaseCategory) ||
+      account.name.toLowerCase().includes(lowerCaseCategory)
+    );
+
+    if (matchingAccount) {
+      suggestedAccountId = matchingAccount.id?.toString();
+    }
+  } catch (error: unknown) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error while finding matching account';
+      console.warn('Failed to find matching account:', errorMessage);
+  }
+
+  // Generate unique suggestion ID
+  const suggestionId = `cat_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`
+
+  // Create suggestion object
+  const suggestion: CategorizationSuggestion = {
+    id: suggestionId,
+    transactionId,
+    description,
+    amount,
+    merchant,
+    suggestedCategory: aiResult.category,
+    suggestedSubcategory: aiResult.subcategory,
+    suggestedAccountId,
+    confidence: aiResult.confidence,
+    timestamp: Date.now(),
+    userId,
+    status: 'pending'
+  }
+
+  // Store suggestion in KV for user approval
+  const kvKey = `categorization:${userId}:${suggestionId}`
+  await cache.put(
+    kvKey,
+    JSON.stringify(suggestion),
+    { expirationTtl: 86400 * 7 } // 7 days expiration
+  )
+
+  return {
+    suggestionId,
+    category: aiResult.category,
+    subcategory: aiResult.subcategory,
+    accountId: suggestedAccountId,
+    confidence: aiResult.confidence,
+    // Determine if approval is required (low confidence suggestions)
+    requiresApproval: aiResult.confidence < CATEGORIZATION_APPROVAL_THRESHOLD
+  }
+}
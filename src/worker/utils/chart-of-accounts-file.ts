@@ -0,0 +1,128 @@
+/**
+ * Chart of Accounts Files
+ * Reads and writes the account tree as CSV or tab-separated spreadsheet (.xls) text.
+ * Every row carries its parent's id and code, path, level and report placement.
+ */
+
+import type { Account, AccountImportRow, AccountType, NormalBalance } from '../../types/index.js';
+import { parseCsvRows } from './statement-import';
+
+export class ChartOfAccountsFileError extends Error {
+  constructor(message: string, public lineNumber?: number) {
+    super(message);
+    this.name = 'ChartOfAccountsFileError';
+  }
+}
+
+type AccountColumn = keyof Omit<AccountImportRow, 'rowNumber'>;
+
+const COLUMNS: Array<{ heading: string; field: AccountColumn }> = [
+  { heading: 'ID', field: 'id' },
+  { heading: 'Code', field: 'code' },
+  { heading: 'Name', field: 'name' },
+  { heading: 'Type', field: 'type' },
+  { heading: 'Subtype', field: 'subtype' },
+  { heading: 'Category', field: 'category' },
+  { heading: 'Description', field: 'description' },
+  { heading: 'Parent ID', field: 'parentId' },
+  { heading: 'Parent Code', field: 'parentCode' },
+  { heading: 'Path', field: 'path' },
+  { heading: 'Level', field: 'level' },
+  { heading: 'Normal Balance', field: 'normalBalance' },
+  { heading: 'Active', field: 'isActive' },
+  { heading: 'Allow Transactions', field: 'allowTransactions' },
+  { heading: 'System', field: 'isSystem' },
+  { heading: 'Report Category', field: 'reportCategory' },
+  { heading: 'Report Order', field: 'reportOrder' }
+];
+
+const INTEGER_FIELDS: AccountColumn[] = ['id', 'parentId', 'level', 'reportOrder'];
+const BOOLEAN_FIELDS: AccountColumn[] = ['isActive', 'allowTransactions', 'isSystem'];
+
+// Header cells match either the export heading or the field name, ignoring case, spaces and punctuation
+const normalizeHeading = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+function escapeDelimited(value: string, delimiter: string): string {
+  if (delimiter === '\t') return value.replace(/[\t\r\n]/g, ' ');
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * One row per account in code order, with a header row. Use ',' for CSV and '\t' for the spreadsheet export.
+ */
+export function renderAccountsDelimited(accounts: Account[], delimiter: ',' | '\t'): string {
+  const codesById = new Map(accounts.map(account => [account.id, account.code]));
+  const line = (cells: Array<string | number | boolean | undefined>) =>
+    cells.map(cell => escapeDelimited(cell === undefined ? '' : String(cell), delimiter)).join(delimiter);
+
+  const rows = [...accounts]
+    .sort((a, b) => (a.code < b.code ? -1 : a.code > b.code ? 1 : 0))
+    .map(account => {
+      const row: Partial<Record<AccountColumn, string | number | boolean | undefined>> = {
+        ...account,
+        parentCode: account.parentId ? codesById.get(account.parentId) : undefined
+      };
+      return line(COLUMNS.map(({ field }) => row[field] ?? undefined));
+    });
+
+  return [line(COLUMNS.map(column => column.heading)), ...rows].join('\n');
+}
+
+/**
+ * Read an exported or hand-made account file. Only Code, Name and Type columns are required.
+ * Binary .xlsx workbooks are rejected: save the sheet as CSV, or re-import the .xls export.
+ */
+export function parseAccountsFile(fileName: string, content: string): AccountImportRow[] {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'xlsx' || content.startsWith('PK')) {
+    throw new ChartOfAccountsFileError('Excel workbooks (.xlsx) cannot be read; save the sheet as CSV and import that');
+  }
+
+  const text = content.replace(/^\uFEFF/, '');
+  const firstLine = text.split(/\r?\n/, 1)[0] || '';
+  const delimiter = extension === 'tsv' || extension === 'xls' || (firstLine.includes('\t') && !firstLine.includes(','))
+    ? '\t'
+    : ',';
+  const [header, ...rows] = parseCsvRows(text, delimiter);
+  if (!header) {
+    throw new ChartOfAccountsFileError('File is empty');
+  }
+
+  const fieldsByHeading = new Map(COLUMNS.flatMap(({ heading, field }) => [
+    [normalizeHeading(heading), field] as const,
+    [normalizeHeading(field), field] as const
+  ]));
+  const fields = header.map(cell => fieldsByHeading.get(normalizeHeading(cell)));
+  const missing = (['code', 'name', 'type'] as AccountColumn[]).filter(field => !fields.includes(field));
+  if (missing.length > 0) {
+    throw new ChartOfAccountsFileError(`Missing column(s): ${missing.join(', ')}`, 1);
+  }
+
+  return rows.map((cells, index) => {
+    const lineNumber = index + 2;
+    const row: Record<string, unknown> = { rowNumber: lineNumber };
+
+    fields.forEach((field, column) => {
+      const value = (cells[column] || '').trim();
+      if (!field || value === '') return;
+
+      if (INTEGER_FIELDS.includes(field)) {
+        if (!/^-?\d+$/.test(value)) {
+          throw new ChartOfAccountsFileError(`Line ${lineNumber}: ${field} "${value}" is not a whole number`, lineNumber);
+        }
+        row[field] = Number.parseInt(value, 10);
+      } else if (BOOLEAN_FIELDS.includes(field)) {
+        if (!/^(true|false|yes|no|y|n|1|0)$/i.test(value)) {
+          throw new ChartOfAccountsFileError(`Line ${lineNumber}: ${field} "${value}" must be true or false`, lineNumber);
+        }
+        row[field] = /^(true|yes|y|1)$/i.test(value);
+      } else if (field === 'type' || field === 'normalBalance') {
+        row[field] = value.toUpperCase() as AccountType | NormalBalance;
+      } else {
+        row[field] = value;
+      }
+    });
+
+    return row as unknown as AccountImportRow;
+  });
+}
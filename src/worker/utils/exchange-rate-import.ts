@@ -0,0 +1,77 @@
+/**
+ * Exchange Rate CSV Parser
+ * Bulk rate files with from_currency, to_currency, rate and effective_date columns
+ */
+
+import type { Currency, ExchangeRate } from '../../types/index.js';
+import { parseCsvRows } from './statement-import';
+
+export type ExchangeRateCsvRow = Pick<ExchangeRate, 'fromCurrency' | 'toCurrency' | 'rate' | 'effectiveDate'>;
+
+export class ExchangeRateCsvError extends Error {
+  constructor(message: string, public lineNumber?: number) {
+    super(message);
+    this.name = 'ExchangeRateCsvError';
+  }
+}
+
+// Accepted header spellings, compared without case, spaces or underscores
+const COLUMN_ALIASES: Record<keyof ExchangeRateCsvRow, string[]> = {
+  fromCurrency: ['fromcurrency', 'from', 'basecurrency', 'base'],
+  toCurrency: ['tocurrency', 'to', 'quotecurrency', 'quote'],
+  rate: ['rate', 'exchangerate'],
+  effectiveDate: ['effectivedate', 'date', 'ratedate']
+};
+
+function normalizeHeader(value: string): string {
+  return value.trim().toLowerCase().replace(/[\s_-]/g, '');
+}
+
+export function parseExchangeRateCsv(content: string, supportedCurrencies: readonly string[]): ExchangeRateCsvRow[] {
+  const delimiter = content.split(/\r?\n/, 1)[0].includes(';') ? ';' : ',';
+  const rows = parseCsvRows(content.replace(/^\uFEFF/, ''), delimiter);
+  const header = (rows.shift() || []).map(normalizeHeader);
+
+  const columns = Object.fromEntries(
+    (Object.keys(COLUMN_ALIASES) as Array<keyof ExchangeRateCsvRow>).map(field => {
+      const index = header.findIndex(cell => COLUMN_ALIASES[field].includes(cell));
+      if (index === -1) {
+        throw new ExchangeRateCsvError(`Missing ${field} column; expected one of: ${COLUMN_ALIASES[field].join(', ')}`, 1);
+      }
+      return [field, index];
+    })
+  ) as Record<keyof ExchangeRateCsvRow, number>;
+
+  return rows.map((cells, index) => {
+    const lineNumber = index + 2;
+    const fromCurrency = (cells[columns.fromCurrency] || '').trim().toUpperCase();
+    const toCurrency = (cells[columns.toCurrency] || '').trim().toUpperCase();
+    const rate = Number.parseFloat((cells[columns.rate] || '').trim());
+    const effectiveDate = (cells[columns.effectiveDate] || '').trim();
+
+    for (const currency of [fromCurrency, toCurrency]) {
+      if (!supportedCurrencies.includes(currency)) {
+        throw new ExchangeRateCsvError(`Line ${lineNumber}: unsupported currency "${currency}"`, lineNumber);
+      }
+    }
+    if (fromCurrency === toCurrency) {
+      throw new ExchangeRateCsvError(`Line ${lineNumber}: from and to currency are both ${fromCurrency}`, lineNumber);
+    }
+    if (!(rate > 0)) {
+      throw new ExchangeRateCsvError(`Line ${lineNumber}: rate must be a positive number`, lineNumber);
+    }
+    const parsedDate = Date.parse(`${effectiveDate}T00:00:00Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveDate)
+      || Number.isNaN(parsedDate)
+      || new Date(parsedDate).toISOString().slice(0, 10) !== effectiveDate) {
+      throw new ExchangeRateCsvError(`Line ${lineNumber}: effective date "${effectiveDate}" must be YYYY-MM-DD`, lineNumber);
+    }
+
+    return {
+      fromCurrency: fromCurrency as Currency,
+      toCurrency: toCurrency as Currency,
+      rate,
+      effectiveDate
+    };
+  });
+}
@@ -0,0 +1,72 @@
+/**
+ * Permission Utilities
+ * Helpers for the JSON permission list stored on users.permissions
+ */
+
+import type { User } from '../../db/index.js';
+import type { PostingContext } from '../../types/index.js';
+
+/**
+ * Parse users.permissions, tolerating null or malformed values
+ */
+export function getUserPermissions(user: Pick<User, 'permissions'>): string[] {
+  if (!user.permissions) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(user.permissions);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function hasPermission(user: Pick<User, 'permissions'>, permission: string): boolean {
+  return getUserPermissions(user).includes(permission);
+}
+
+/**
+ * Posting context passed to the accounting engine for period-lock checks
+ */
+export function getPostingContext(user: Pick<User, 'id' | 'permissions'>): PostingContext {
+  return {
+    userId: user.id,
+    permissions: getUserPermissions(user)
+  };
+}
+
+/**
+ * Parse users.entity_access, tolerating null or malformed values
+ */
+export function getUserEntityAccess(user: Pick<User, 'entityAccess'>): string[] {
+  if (!user.entityAccess) {
+    return [];
+  }
+
+  try {
+    const parsed = JSON.parse(user.entityAccess);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Whether the user may work in an entity's books: their own, the ones listed in their
+ * entity access, or any entity for admins
+ */
+export function canAccessEntity(user: Pick<User, 'id' | 'role' | 'entityId' | 'entityAccess'>, entityId: string): boolean {
+  return entityId === user.id
+    || entityId === user.entityId
+    || getUserEntityAccess(user).includes(entityId)
+    || user.role === 'ADMIN'
+    || user.role === 'SUPER_ADMIN';
+}
+
+/**
+ * Entity whose books the user works in by default; users without one keep their own books
+ */
+export function getUserEntityId(user: Pick<User, 'id' | 'entityId'>): string {
+  return user.entityId || user.id;
+}
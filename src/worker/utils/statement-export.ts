@@ -0,0 +1,147 @@
+/**
+ * Comparative Statement Export
+ * Renders the column model of a comparative balance sheet or income statement as CSV/TSV or printable HTML
+ */
+
+import { formatCurrency } from '../../lib/index.worker.js';
+import type { ComparativeStatement, ComparativeStatementRow, StatementSection } from '../../types/index.js';
+
+export interface StatementExportHeader {
+  title: string;
+  lines: string[]; // Shown under the title, e.g. period and generated by
+}
+
+const SECTION_TITLES: Record<StatementSection, string> = {
+  ASSETS: 'ASSETS',
+  LIABILITIES: 'LIABILITIES',
+  EQUITY: 'EQUITY',
+  REVENUE: 'REVENUE',
+  EXPENSES: 'EXPENSES',
+  SUMMARY: ''
+};
+
+function groupBySection(statement: ComparativeStatement): Array<[StatementSection, ComparativeStatementRow[]]> {
+  const sections = new Map<StatementSection, ComparativeStatementRow[]>();
+  for (const row of statement.rows) {
+    sections.set(row.section, [...(sections.get(row.section) || []), row]);
+  }
+  return [...sections.entries()];
+}
+
+function escapeDelimited(value: string, delimiter: string): string {
+  if (delimiter === '\t') return value.replace(/[\t\r\n]/g, ' ');
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * One line per row: account code, name, a value per column and the amount and percentage of each variance.
+ * Use ',' for CSV and '\t' for the spreadsheet (.xls) export.
+ */
+export function renderStatementDelimited(
+  statement: ComparativeStatement,
+  header: StatementExportHeader,
+  delimiter: ',' | '\t'
+): string {
+  const line = (cells: Array<string | number>) =>
+    cells.map(cell => escapeDelimited(String(cell), delimiter)).join(delimiter);
+  const columnHeadings = [
+    'Account Code',
+    'Account Name',
+    ...statement.columns.map(column => column.label),
+    ...statement.varianceColumns.flatMap(variance => [variance.label, `${variance.label} %`])
+  ];
+  const rowCells = (row: ComparativeStatementRow) => [
+    row.accountCode || '',
+    row.rowType === 'total' ? row.label.toUpperCase() : row.label,
+    ...statement.columns.map(column => row.values[column.key]),
+    ...statement.varianceColumns.flatMap(variance => [
+      row.variances[variance.key].amount,
+      row.variances[variance.key].percent ?? ''
+    ])
+  ];
+
+  const lines = [line([header.title]), ...header.lines.map(text => line([text])), ''];
+  for (const [section, rows] of groupBySection(statement)) {
+    if (SECTION_TITLES[section]) {
+      lines.push(line([SECTION_TITLES[section]]), line(columnHeadings));
+    }
+    lines.push(...rows.map(row => line(rowCells(row))), '');
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Printable HTML table per section with variance percentages; a zero base shows n/a
+ */
+export function renderStatementHtml(statement: ComparativeStatement, header: StatementExportHeader): string {
+  const money = (amount: number) => escapeHtml(formatCurrency(amount, statement.currency));
+  const headings = [
+    '<th>Account Code</th>',
+    '<th>Account Name</th>',
+    ...statement.columns.map(column => `<th class="amount">${escapeHtml(column.label)}</th>`),
+    ...statement.varianceColumns.flatMap(variance => [
+      `<th class="amount">${escapeHtml(variance.label)}</th>`,
+      '<th class="amount">%</th>'
+    ])
+  ].join('');
+  const renderRow = (row: ComparativeStatementRow) => {
+    const cells = [
+      `<td>${escapeHtml(row.accountCode || '')}</td>`,
+      `<td>${escapeHtml(row.label)}</td>`,
+      ...statement.columns.map(column => `<td class="amount">${money(row.values[column.key])}</td>`),
+      ...statement.varianceColumns.flatMap(variance => {
+        const { amount, percent } = row.variances[variance.key];
+        return [
+          `<td class="amount">${money(amount)}</td>`,
+          `<td class="amount">${percent === null ? 'n/a' : `${percent.toFixed(2)}%`}</td>`
+        ];
+      })
+    ].join('');
+    return `<tr${row.rowType === 'total' ? ' class="total"' : ''}>${cells}</tr>`;
+  };
+
+  const sections = groupBySection(statement).map(([section, rows]) => `
+    <div class="section">
+        ${SECTION_TITLES[section] ? `<h3>${SECTION_TITLES[section]}</h3>` : ''}
+        <table>
+            <tr>${headings}</tr>
+            ${rows.map(renderRow).join('\n            ')}
+        </table>
+    </div>`).join('\n');
+
+  return `
+<!DOCTYPE html>
+<html>
+<head>
+    <title>${escapeHtml(header.title)}</title>
+    <style>
+        body { font-family: Arial, sans-serif; margin: 20px; }
+        .header { text-align: center; margin-bottom: 30px; }
+        .section { margin-bottom: 25px; }
+        .section h3 { background-color: #f0f0f0; padding: 10px; margin: 0; }
+        table { width: 100%; border-collapse: collapse; margin-top: 10px; }
+        th, td { border: 1px solid #ddd; padding: 8px; text-align: left; }
+        th { background-color: #f2f2f2; }
+        .amount { text-align: right; }
+        .total { font-weight: bold; background-color: #e6f3ff; }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1>Corporate Finance Manager</h1>
+        <h2>${escapeHtml(header.title)}</h2>
+        ${header.lines.map(text => `<p>${escapeHtml(text)}</p>`).join('\n        ')}
+    </div>
+    ${sections}
+</body>
+</html>`;
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectStatementFormat,
+  parseCamt053Statement,
+  parseCsvRows,
+  parseCsvStatement,
+  parseOfxStatement,
+  StatementParseError
+} from './statement-import';
+
+describe('Statement Import Parsers', () => {
+  describe('CSV', () => {
+    it('should handle quoted fields with delimiters and escaped quotes', () => {
+      expect(parseCsvRows('a,"b, c","say ""hi"""\r\n1,2,3\n')).toEqual([
+        ['a', 'b, c', 'say "hi"'],
+        ['1', '2', '3']
+      ]);
+    });
+
+    it('should map columns by header with debit and credit columns', () => {
+      const csv = [
+        'Tanggal;Keterangan;Debet;Kredit;Ref',
+        '05/03/2024;Transfer masuk;;1.500.000,00;TRX1',
+        '06/03/2024;Biaya admin;6.500,00;;'
+      ].join('\n');
+
+      const lines = parseCsvStatement(csv, {
+        delimiter: ';',
+        hasHeader: true,
+        dateColumn: 'Tanggal',
+        dateFormat: 'DD/MM/YYYY',
+        descriptionColumn: 'Keterangan',
+        debitColumn: 'Debet',
+        creditColumn: 'Kredit',
+        referenceColumn: 'Ref',
+        decimalSeparator: ','
+      });
+
+      expect(lines).toEqual([
+        { transactionDate: '2024-03-05', amount: 1500000, description: 'Transfer masuk', reference: 'TRX1', externalId: undefined },
+        { transactionDate: '2024-03-06', amount: -6500, description: 'Biaya admin', reference: undefined, externalId: undefined }
+      ]);
+    });
+
+    it('should report the failing line number for bad dates', () => {
+      const csv = 'date,desc,amount\n2024-13-01,Bad,10';
+      expect(() => parseCsvStatement(csv, {
+        delimiter: ',',
+        hasHeader: true,
+        dateColumn: 'date',
+        dateFormat: 'YYYY-MM-DD',
+        descriptionColumn: 'desc',
+        amountColumn: 'amount',
+        decimalSeparator: '.'
+      })).toThrow(/Line 2/);
+    });
+  });
+
+  describe('OFX', () => {
+    it('should parse SGML transactions without closing tags', () => {
+      const ofx = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240310120000[-5:EST]
+<TRNAMT>-42.50
+<FITID>2024031001
+<NAME>COFFEE &amp; CO
+<MEMO>Card 1234
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240311
+<TRNAMT>1000.00
+<FITID>2024031102
+<CHECKNUM>889
+</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+
+      expect(parseOfxStatement(ofx)).toEqual([
+        { transactionDate: '2024-03-10', amount: -42.5, description: 'COFFEE & CO - Card 1234', reference: undefined, externalId: '2024031001' },
+        { transactionDate: '2024-03-11', amount: 1000, description: 'CREDIT', reference: '889', externalId: '2024031102' }
+      ]);
+    });
+  });
+
+  describe('CAMT.053', () => {
+    it('should sign amounts by credit/debit indicator', () => {
+      const xml = `<?xml version="1.0"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02"><BkToCstmrStmt><Stmt>
+<Ntry><Amt Ccy="EUR">250.00</Amt><CdtDbtInd>CRDT</CdtDbtInd><BookgDt><Dt>2024-04-02</Dt></BookgDt>
+<AcctSvcrRef>BANKREF-1</AcctSvcrRef><NtryDtls><TxDtls><Refs><EndToEndId>INV-77</EndToEndId></Refs>
+<RmtInf><Ustrd>Invoice 77</Ustrd></RmtInf></TxDtls></NtryDtls></Ntry>
+<Ntry><Amt Ccy="EUR">12.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><BookgDt><DtTm>2024-04-03T10:00:00</DtTm></BookgDt>
+<AddtlNtryInf>Account fee</AddtlNtryInf><NtryDtls><TxDtls><Refs><EndToEndId>NOTPROVIDED</EndToEndId></Refs></TxDtls></NtryDtls></Ntry>
+</Stmt></BkToCstmrStmt></Document>`;
+
+      expect(parseCamt053Statement(xml)).toEqual([
+        { transactionDate: '2024-04-02', amount: 250, description: 'Invoice 77', reference: 'INV-77', externalId: 'BANKREF-1' },
+        { transactionDate: '2024-04-03', amount: -12, description: 'Account fee', reference: undefined, externalId: undefined }
+      ]);
+    });
+  });
+
+  describe('detectStatementFormat', () => {
+    it('should detect formats from extension and content', () => {
+      expect(detectStatementFormat('march.qfx', '')).toBe('OFX');
+      expect(detectStatementFormat('march.xml', '<Document><BkToCstmrStmt>')).toBe('CAMT053');
+      expect(() => detectStatementFormat('other.xml', '<Invoice/>')).toThrow(StatementParseError);
+    });
+  });
+});
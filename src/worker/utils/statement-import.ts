@@ -0,0 +1,283 @@
+/**
+ * Bank Statement Parsers
+ * CSV (with a column-mapping profile), OFX/QFX and ISO 20022 CAMT.053 into statement lines
+ */
+
+import type { CsvColumnMapping, ParsedStatementLine, StatementFormat } from '../../types/index.js';
+
+export class StatementParseError extends Error {
+  constructor(message: string, public format?: StatementFormat, public lineNumber?: number) {
+    super(message);
+    this.name = 'StatementParseError';
+  }
+}
+
+/**
+ * Guess the format from the file extension, falling back to the content
+ */
+export function detectStatementFormat(fileName: string, content: string): StatementFormat {
+  const extension = fileName.toLowerCase().split('.').pop();
+  if (extension === 'ofx' || extension === 'qfx') return 'OFX';
+  if (extension === 'csv' || extension === 'txt') return 'CSV';
+
+  const head = content.slice(0, 2000);
+  if (/<OFX>|OFXHEADER/i.test(head)) return 'OFX';
+  if (/camt\.053|<BkToCstmrStmt>/i.test(head)) return 'CAMT053';
+  if (extension === 'xml') {
+    throw new StatementParseError('XML file is not a CAMT.053 bank-to-customer statement');
+  }
+  return 'CSV';
+}
+
+export function parseStatement(format: StatementFormat, content: string, mapping?: CsvColumnMapping): ParsedStatementLine[] {
+  switch (format) {
+    case 'OFX':
+      return parseOfxStatement(content);
+    case 'CAMT053':
+      return parseCamt053Statement(content);
+    case 'CSV':
+      if (!mapping) {
+        throw new StatementParseError('CSV import requires a column mapping', 'CSV');
+      }
+      return parseCsvStatement(content, mapping);
+  }
+}
+
+// CSV
+
+/**
+ * Split CSV text into rows, honouring quoted fields with embedded delimiters, quotes and newlines
+ */
+export function parseCsvRows(content: string, delimiter: string = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (inQuotes) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+}
+
+function parseAmount(value: string | undefined, decimalSeparator: '.' | ','): number {
+  if (!value || value.trim() === '') return 0;
+
+  let normalized = value.trim().replace(/[^\d.,\-()]/g, '');
+  const negative = normalized.startsWith('(') && normalized.endsWith(')');
+  normalized = normalized.replace(/[()]/g, '');
+  normalized = decimalSeparator === ','
+    ? normalized.replace(/\./g, '').replace(',', '.')
+    : normalized.replace(/,/g, '');
+
+  const amount = Number.parseFloat(normalized);
+  if (Number.isNaN(amount)) {
+    throw new StatementParseError(`Invalid amount "${value}"`, 'CSV');
+  }
+  return negative ? -Math.abs(amount) : amount;
+}
+
+function parseCsvDate(value: string, format: CsvColumnMapping['dateFormat']): string {
+  const trimmed = value.trim();
+  const patterns: Record<CsvColumnMapping['dateFormat'], { regex: RegExp; order: [number, number, number] }> = {
+    'YYYY-MM-DD': { regex: /^(\d{4})-(\d{1,2})-(\d{1,2})/, order: [1, 2, 3] },
+    'DD/MM/YYYY': { regex: /^(\d{1,2})\/(\d{1,2})\/(\d{4})/, order: [3, 2, 1] },
+    'MM/DD/YYYY': { regex: /^(\d{1,2})\/(\d{1,2})\/(\d{4})/, order: [3, 1, 2] },
+    'DD-MM-YYYY': { regex: /^(\d{1,2})-(\d{1,2})-(\d{4})/, order: [3, 2, 1] },
+    'YYYYMMDD': { regex: /^(\d{4})(\d{2})(\d{2})/, order: [1, 2, 3] }
+  };
+
+  const { regex, order } = patterns[format];
+  const match = regex.exec(trimmed);
+  if (!match) {
+    throw new StatementParseError(`Date "${value}" does not match ${format}`, 'CSV');
+  }
+
+  return toIsoDate(match[order[0]], match[order[1]], match[order[2]]);
+}
+
+function toIsoDate(year: string, month: string, day: string): string {
+  const iso = `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+  const parsed = new Date(`${iso}T00:00:00Z`);
+  if (Number.isNaN(parsed.getTime()) || parsed.toISOString().slice(0, 10) !== iso) {
+    throw new StatementParseError(`Invalid date ${iso}`);
+  }
+  return iso;
+}
+
+export function parseCsvStatement(content: string, mapping: CsvColumnMapping): ParsedStatementLine[] {
+  const rows = parseCsvRows(content.replace(/^\uFEFF/, ''), mapping.delimiter);
+  const header = mapping.hasHeader ? (rows.shift() || []).map(cell => cell.trim().toLowerCase()) : [];
+
+  const columnIndex = (column: string | undefined): number | undefined => {
+    if (column === undefined || column === '') return undefined;
+    if (!mapping.hasHeader) return Number.parseInt(column, 10);
+
+    const index = header.indexOf(column.trim().toLowerCase());
+    if (index === -1) {
+      throw new StatementParseError(`Column "${column}" not found in CSV header`, 'CSV');
+    }
+    return index;
+  };
+
+  const dateIndex = columnIndex(mapping.dateColumn) as number;
+  const descriptionIndex = columnIndex(mapping.descriptionColumn) as number;
+  const amountIndex = columnIndex(mapping.amountColumn);
+  const debitIndex = columnIndex(mapping.debitColumn);
+  const creditIndex = columnIndex(mapping.creditColumn);
+  const referenceIndex = columnIndex(mapping.referenceColumn);
+  const externalIdIndex = columnIndex(mapping.externalIdColumn);
+
+  if (amountIndex === undefined && debitIndex === undefined && creditIndex === undefined) {
+    throw new StatementParseError('Mapping needs an amount column or debit/credit columns', 'CSV');
+  }
+
+  return rows.map((cells, index) => {
+    const lineNumber = index + (mapping.hasHeader ? 2 : 1);
+    try {
+      const amount = amountIndex !== undefined
+        ? parseAmount(cells[amountIndex], mapping.decimalSeparator)
+        : parseAmount(creditIndex !== undefined ? cells[creditIndex] : undefined, mapping.decimalSeparator)
+          - Math.abs(parseAmount(debitIndex !== undefined ? cells[debitIndex] : undefined, mapping.decimalSeparator));
+
+      return {
+        transactionDate: parseCsvDate(cells[dateIndex] || '', mapping.dateFormat),
+        amount,
+        description: (cells[descriptionIndex] || '').trim(),
+        reference: referenceIndex !== undefined ? cells[referenceIndex]?.trim() || undefined : undefined,
+        externalId: externalIdIndex !== undefined ? cells[externalIdIndex]?.trim() || undefined : undefined
+      };
+    } catch (error) {
+      throw new StatementParseError(
+        `Line ${lineNumber}: ${error instanceof Error ? error.message : String(error)}`,
+        'CSV',
+        lineNumber
+      );
+    }
+  });
+}
+
+// OFX / QFX
+
+function ofxField(block: string, tag: string): string | undefined {
+  // SGML OFX omits closing tags, so read up to the next tag or line break
+  const match = new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i').exec(block);
+  const value = match?.[1].trim();
+  return value ? decodeEntities(value) : undefined;
+}
+
+export function parseOfxStatement(content: string): ParsedStatementLine[] {
+  const blocks = content.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>/i)[0]);
+  if (blocks.length === 0 && !/<OFX>/i.test(content)) {
+    throw new StatementParseError('Not an OFX/QFX statement', 'OFX');
+  }
+
+  return blocks.map((block, index) => {
+    const posted = ofxField(block, 'DTPOSTED');
+    const amount = ofxField(block, 'TRNAMT');
+    const dateMatch = posted ? /^(\d{4})(\d{2})(\d{2})/.exec(posted) : null;
+
+    if (!dateMatch || amount === undefined || Number.isNaN(Number.parseFloat(amount))) {
+      throw new StatementParseError(`Transaction ${index + 1} is missing DTPOSTED or TRNAMT`, 'OFX', index + 1);
+    }
+
+    const name = ofxField(block, 'NAME');
+    const memo = ofxField(block, 'MEMO');
+
+    return {
+      transactionDate: toIsoDate(dateMatch[1], dateMatch[2], dateMatch[3]),
+      amount: Number.parseFloat(amount.replace(',', '.')),
+      description: [name, memo].filter(Boolean).join(' - ') || ofxField(block, 'TRNTYPE') || '',
+      reference: ofxField(block, 'CHECKNUM') || ofxField(block, 'REFNUM'),
+      externalId: ofxField(block, 'FITID')
+    };
+  });
+}
+
+// CAMT.053
+
+function xmlElements(content: string, tag: string): string[] {
+  const regex = new RegExp(`<(?:\\w+:)?${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${tag}>`, 'g');
+  return Array.from(content.matchAll(regex), match => match[1]);
+}
+
+function xmlValue(content: string, path: string[]): string | undefined {
+  let scope: string | undefined = content;
+  for (const tag of path) {
+    scope = scope === undefined ? undefined : xmlElements(scope, tag)[0];
+  }
+  const value = scope?.trim();
+  return value ? decodeEntities(value) : undefined;
+}
+
+export function parseCamt053Statement(content: string): ParsedStatementLine[] {
+  if (xmlElements(content, 'Stmt').length === 0) {
+    throw new StatementParseError('Not a CAMT.053 statement (no Stmt element)', 'CAMT053');
+  }
+
+  return xmlElements(content, 'Ntry').map((entry, index) => {
+    const amount = xmlValue(entry, ['Amt']);
+    const indicator = xmlValue(entry, ['CdtDbtInd']);
+    const bookingDate = xmlValue(entry, ['BookgDt', 'Dt']) || xmlValue(entry, ['BookgDt', 'DtTm'])
+      || xmlValue(entry, ['ValDt', 'Dt']);
+    const dateMatch = bookingDate ? /^(\d{4})-(\d{2})-(\d{2})/.exec(bookingDate) : null;
+
+    if (!dateMatch || amount === undefined || Number.isNaN(Number.parseFloat(amount))) {
+      throw new StatementParseError(`Entry ${index + 1} is missing a booking date or amount`, 'CAMT053', index + 1);
+    }
+
+    const magnitude = Math.abs(Number.parseFloat(amount));
+    const endToEndId = xmlValue(entry, ['EndToEndId']);
+    const description = xmlValue(entry, ['AddtlNtryInf'])
+      || xmlElements(entry, 'Ustrd').map(value => decodeEntities(value.trim())).join(' ')
+      || xmlValue(entry, ['Nm'])
+      || '';
+
+    return {
+      transactionDate: toIsoDate(dateMatch[1], dateMatch[2], dateMatch[3]),
+      amount: indicator === 'DBIT' ? -magnitude : magnitude,
+      description,
+      reference: endToEndId && endToEndId !== 'NOTPROVIDED' ? endToEndId : xmlValue(entry, ['NtryRef']),
+      externalId: xmlValue(entry, ['AcctSvcrRef'])
+    };
+  });
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
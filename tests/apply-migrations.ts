@@ -0,0 +1,4 @@
+// Create the schema in the test database; each test runs against isolated storage
+import { applyD1Migrations, env } from 'cloudflare:test';
+
+await applyD1Migrations(env.FINANCE_MANAGER_DB, env.TEST_MIGRATIONS);
@@ -0,0 +1,8 @@
+/// <reference types="@cloudflare/vitest-pool-workers" />
+import type { Env } from '../src/worker/types';
+
+declare module 'cloudflare:test' {
+  interface ProvidedEnv extends Env {
+    TEST_MIGRATIONS: D1Migration[];
+  }
+}
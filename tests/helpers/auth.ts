@@ -0,0 +1,52 @@
+/**
+ * Route test helpers
+ * Users in the migrated test database and signed bearer tokens for them
+ */
+
+import { env } from 'cloudflare:test';
+import { sign } from 'hono/jwt';
+
+export const TEST_JWT_SECRET = 'test-secret-key-for-testing';
+
+// Bindings for router.request(); authMiddleware verifies tokens with JWT_SECRET
+export const TEST_ENV = { ...env, JWT_SECRET: TEST_JWT_SECRET };
+
+export interface TestUser {
+  id: string;
+  role?: string;
+  entityId?: string | null;
+  entityAccess?: string[];
+  permissions?: string[];
+}
+
+export async function createTestUser(user: TestUser): Promise<void> {
+  const now = Date.now();
+  await env.FINANCE_MANAGER_DB.prepare(`
+    INSERT INTO users (id, email, role, entity_id, entity_access, permissions, created_at, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `).bind(
+    user.id,
+    `${user.id}@example.com`,
+    user.role || 'USER',
+    user.entityId ?? null,
+    user.entityAccess ? JSON.stringify(user.entityAccess) : null,
+    user.permissions ? JSON.stringify(user.permissions) : null,
+    now,
+    now
+  ).run();
+}
+
+// Request headers carrying a bearer token for the user
+export async function authHeaders(userId: string): Promise<Record<string, string>> {
+  const token = await sign({
+    sub: userId,
+    jti: `session-${userId}`,
+    email: `${userId}@example.com`,
+    exp: Math.floor(Date.now() / 1000) + 3600
+  }, TEST_JWT_SECRET);
+
+  return {
+    Authorization: `Bearer ${token}`,
+    'Content-Type': 'application/json'
+  };
+}
@@ -0,0 +1,71 @@
+/**
+ * Budget test helpers
+ * Categories, budget periods, budgets and allocations in the migrated test database
+ */
+
+import { env } from 'cloudflare:test';
+import type { DatabaseAdapter } from '../../src/lib/index';
+import type { BudgetType } from '../../src/types/index.js';
+
+export async function createTestCategory(name: string, type = 'EXPENSE'): Promise<number> {
+  const created = await env.FINANCE_MANAGER_DB.prepare(`
+    INSERT INTO categories (name, type) VALUES (?, ?) RETURNING id
+  `).bind(name, type).first() as { id: number };
+  return created.id;
+}
+
+export interface TestBudget {
+  name?: string;
+  budgetType?: BudgetType;
+  categoryId?: number;
+  startDate?: string;
+  endDate?: string;
+  plannedAmount: number;
+  revisedAmount?: number;
+  warningThreshold?: number;
+  criticalThreshold?: number;
+  allocations?: Array<{ allocationCode?: string; categoryId?: number; allocatedAmount: number }>;
+}
+
+// A budget in its own period (March 2026 unless dated), in the adapter's entity
+export async function createTestBudget(adapter: DatabaseAdapter, budget: TestBudget): Promise<number> {
+  const db = env.FINANCE_MANAGER_DB;
+  const startDate = budget.startDate || '2026-03-01';
+  const period = await db.prepare(`
+    INSERT INTO budget_periods (name, period_type, start_date, end_date, fiscal_year)
+    VALUES (?, 'custom', ?, ?, ?) RETURNING id
+  `).bind(`Period from ${startDate}`, startDate, budget.endDate || '2026-03-31', Number(startDate.slice(0, 4))).first() as { id: number };
+
+  const created = await db.prepare(`
+    INSERT INTO budgets (
+      name, budget_period_id, category_id, planned_amount, revised_amount, budget_type,
+      warning_threshold, critical_threshold, entity_id
+    ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?) RETURNING id
+  `).bind(
+    budget.name || 'Test budget',
+    period.id,
+    budget.categoryId ?? null,
+    budget.plannedAmount,
+    budget.revisedAmount ?? null,
+    budget.budgetType || 'EXPENSE',
+    budget.warningThreshold ?? 80,
+    budget.criticalThreshold ?? 95,
+    adapter.getEntityId()
+  ).first() as { id: number };
+
+  for (const allocation of budget.allocations || []) {
+    await db.prepare(`
+      INSERT INTO budget_allocations (
+        budget_id, category_id, allocation_type, allocation_code, allocated_amount, allocated_percent
+      ) VALUES (?, ?, 'department', ?, ?, ?)
+    `).bind(
+      created.id,
+      allocation.categoryId ?? null,
+      allocation.allocationCode ?? null,
+      allocation.allocatedAmount,
+      budget.plannedAmount !== 0 ? (allocation.allocatedAmount / budget.plannedAmount) * 100 : 0
+    ).run();
+  }
+
+  return created.id;
+}
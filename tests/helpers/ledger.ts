@@ -0,0 +1,91 @@
+/**
+ * Ledger test helpers
+ * Accounts and posted entries in the migrated test database (see tests/apply-migrations.ts)
+ */
+
+import { env } from 'cloudflare:test';
+import {
+  DatabaseAccountRegistry,
+  DatabaseAdapter,
+  DatabaseJournalEntryManager,
+  TransactionBuilder,
+} from '../../src/lib/index';
+import type { Account, AccountType, Currency, JournalEntry, PostingContext, Transaction } from '../../src/types/index.js';
+
+export const TEST_CONTEXT: PostingContext = { userId: 'user-1' };
+
+export function createTestAdapter(entityId = 'entity-1'): DatabaseAdapter {
+  return new DatabaseAdapter({ database: env.FINANCE_MANAGER_DB, entityId });
+}
+
+export async function createTestAccount(
+  adapter: DatabaseAdapter,
+  code: string,
+  type: AccountType,
+  overrides: Partial<Account> = {}
+): Promise<Account> {
+  return await adapter.createAccount({
+    code,
+    name: `Account ${code}`,
+    type,
+    level: 0,
+    path: code,
+    isActive: true,
+    isSystem: false,
+    allowTransactions: true,
+    normalBalance: type === 'ASSET' || type === 'EXPENSE' ? 'DEBIT' : 'CREDIT',
+    reportOrder: 0,
+    currentBalance: 0,
+    entityId: adapter.getEntityId(),
+    ...overrides
+  });
+}
+
+// Loads the registry from the database, so create the accounts first
+export async function createJournalManager(adapter: DatabaseAdapter): Promise<DatabaseJournalEntryManager> {
+  const registry = new DatabaseAccountRegistry(adapter);
+  await registry.loadAccountsFromDatabase();
+  return new DatabaseJournalEntryManager(adapter, registry);
+}
+
+export interface TestLine extends Partial<Pick<JournalEntry, 'departmentId' | 'projectId' | 'costCenterId'>> {
+  accountId: number;
+  debit?: number;
+  credit?: number;
+}
+
+// Create a draft from the lines, dated date (YYYY-MM-DD)
+export async function createDraft(
+  manager: DatabaseJournalEntryManager,
+  lines: TestLine[],
+  options: { date?: string; currency?: Currency; exchangeRate?: number; context?: PostingContext; source?: string } = {}
+): Promise<Transaction> {
+  const builder = new TransactionBuilder()
+    .setDescription('Test entry')
+    .setDate(new Date(`${options.date || '2026-03-15'}T00:00:00Z`))
+    .setCurrency(options.currency || 'IDR', options.exchangeRate);
+  for (const { accountId, debit, credit, ...dimensions } of lines) {
+    if (debit) builder.debit(accountId, debit, undefined, dimensions);
+    if (credit) builder.credit(accountId, credit, undefined, dimensions);
+  }
+
+  const { transaction } = await manager.createAndPersistTransaction(
+    builder.build(),
+    options.context || TEST_CONTEXT,
+    { source: options.source || 'MANUAL' }
+  );
+  return transaction;
+}
+
+export async function postEntry(
+  manager: DatabaseJournalEntryManager,
+  lines: TestLine[],
+  options: Parameters<typeof createDraft>[2] = {}
+): Promise<Transaction> {
+  const draft = await createDraft(manager, lines, options);
+  return await manager.postTransaction(Number.parseInt(draft.id), options.context || TEST_CONTEXT);
+}
+
+export async function getBalance(adapter: DatabaseAdapter, accountId: number): Promise<number> {
+  return (await adapter.getAccount(accountId))?.currentBalance ?? Number.NaN;
+}
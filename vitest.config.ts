@@ -1,18 +1,22 @@
 import { resolve } from 'path';
-import { defineWorkersConfig } from '@cloudflare/vitest-pool-workers/config';
+import { defineWorkersConfig, readD1Migrations } from '@cloudflare/vitest-pool-workers/config';
 
-export default defineWorkersConfig({
+export default defineWorkersConfig(async () => ({
   plugins: [],
   test: {
     pool: '@cloudflare/vitest-pool-workers',
     poolOptions: {
       workers: {
         wrangler: { configPath: './wrangler.jsonc' },
+        miniflare: {
+          // Applied to FINANCE_MANAGER_DB by tests/apply-migrations.ts
+          bindings: { TEST_MIGRATIONS: await readD1Migrations(resolve(__dirname, './migrations')) },
+        },
       },
     },
     globals: true,
     testTimeout: 10000,
-    setupFiles: ['./tests/setup.ts'],
+    setupFiles: ['./tests/setup.ts', './tests/apply-migrations.ts'],
     include: ['./src/**/*.test.ts'],
     silent: false,
     reporters: ['verbose'],
@@ -45,4 +49,4 @@ export default defineWorkersConfig({
     },
     extensions: ['.ts', '.js']
   }
-});
\ No newline at end of file
+}));